@@ -0,0 +1,390 @@
+-- ICD-10 coded diagnoses. An admission carries one primary and any number of
+-- secondary codes at admission and, optionally, a final set at discharge. The
+-- free-text admissions.diagnosis remains as the clinical description.
+
+CREATE TABLE IF NOT EXISTS admission_diagnoses (
+    id SERIAL PRIMARY KEY,
+    admission_id INTEGER NOT NULL REFERENCES admissions(id) ON DELETE CASCADE,
+    stage VARCHAR(20) NOT NULL CHECK (stage IN ('admission', 'discharge')),
+    code VARCHAR(10) NOT NULL CHECK (code ~ '^[A-Z][0-9]{2}(\.[0-9A-Z]{1,4})?$'),
+    description TEXT NOT NULL,
+    is_primary BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (admission_id, stage, code)
+);
+
+CREATE INDEX IF NOT EXISTS idx_admission_diagnoses_admission ON admission_diagnoses(admission_id);
+CREATE INDEX IF NOT EXISTS idx_admission_diagnoses_code ON admission_diagnoses(code);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_admission_diagnoses_primary
+    ON admission_diagnoses(admission_id, stage) WHERE is_primary;
+
+ALTER TABLE admissions
+ADD COLUMN IF NOT EXISTS final_diagnosis TEXT;
+
+-- Returns an error code for a diagnosis list, or NULL when it is usable
+CREATE OR REPLACE FUNCTION validate_diagnoses(p_diagnoses JSONB)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+    v_item JSONB;
+    v_primary_count INTEGER := 0;
+BEGIN
+    IF p_diagnoses IS NULL OR jsonb_typeof(p_diagnoses) <> 'array' OR jsonb_array_length(p_diagnoses) = 0 THEN
+        RETURN 'primary_diagnosis_required';
+    END IF;
+
+    FOR v_item IN SELECT * FROM jsonb_array_elements(p_diagnoses) LOOP
+        IF COALESCE(v_item->>'code', '') !~ '^[A-Z][0-9]{2}(\.[0-9A-Z]{1,4})?$'
+           OR COALESCE(trim(v_item->>'description'), '') = '' THEN
+            RETURN 'invalid_diagnosis_code';
+        END IF;
+        IF COALESCE((v_item->>'is_primary')::BOOLEAN, false) THEN
+            v_primary_count := v_primary_count + 1;
+        END IF;
+    END LOOP;
+
+    IF v_primary_count <> 1 THEN
+        RETURN 'primary_diagnosis_required';
+    END IF;
+    IF (SELECT COUNT(DISTINCT value->>'code') FROM jsonb_array_elements(p_diagnoses)) <> jsonb_array_length(p_diagnoses) THEN
+        RETURN 'duplicate_diagnosis_code';
+    END IF;
+    RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION primary_diagnosis_description(p_diagnoses JSONB)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT value->>'description'
+    FROM jsonb_array_elements(p_diagnoses)
+    WHERE COALESCE((value->>'is_primary')::BOOLEAN, false)
+    LIMIT 1;
+$$;
+
+-- Replaces the diagnoses recorded for one stage of an admission
+CREATE OR REPLACE FUNCTION save_admission_diagnoses(p_admission_id INTEGER, p_stage TEXT, p_diagnoses JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    DELETE FROM admission_diagnoses WHERE admission_id = p_admission_id AND stage = p_stage;
+
+    INSERT INTO admission_diagnoses (admission_id, stage, code, description, is_primary)
+    SELECT
+        p_admission_id,
+        p_stage,
+        value->>'code',
+        trim(value->>'description'),
+        COALESCE((value->>'is_primary')::BOOLEAN, false)
+    FROM jsonb_array_elements(p_diagnoses);
+END;
+$$;
+
+-- A transfer opens a new admission that keeps the admitting diagnoses
+CREATE OR REPLACE FUNCTION carry_diagnoses_on_transfer()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    INSERT INTO admission_diagnoses (admission_id, stage, code, description, is_primary)
+    SELECT NEW.id, 'admission', code, description, is_primary
+    FROM admission_diagnoses
+    WHERE admission_id = NEW.transferred_from_id AND stage = 'admission';
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS carry_diagnoses_on_transfer ON admissions;
+CREATE TRIGGER carry_diagnoses_on_transfer
+    AFTER INSERT ON admissions
+    FOR EACH ROW
+    WHEN (NEW.transferred_from_id IS NOT NULL)
+    EXECUTE FUNCTION carry_diagnoses_on_transfer();
+
+-- admit_patient records coded diagnoses; the free-text description becomes optional
+DROP FUNCTION IF EXISTS admit_patient(TEXT, TEXT, DATE, TEXT, INTEGER, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, safety_type, shift_type, BOOLEAN, INTEGER, INTEGER, TEXT);
+
+CREATE OR REPLACE FUNCTION admit_patient(
+    p_mrn TEXT,
+    p_name TEXT,
+    p_date_of_birth DATE,
+    p_gender TEXT,
+    p_admitting_doctor_id INTEGER,
+    p_admission_date TIMESTAMP WITH TIME ZONE,
+    p_department TEXT,
+    p_diagnosis TEXT,
+    p_safety_type safety_type,
+    p_shift_type shift_type,
+    p_is_weekend BOOLEAN,
+    p_user_id INTEGER,
+    p_bed_id INTEGER DEFAULT NULL,
+    p_shift_override_reason TEXT DEFAULT NULL,
+    p_diagnoses JSONB DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_patient patients%ROWTYPE;
+    v_admission admissions%ROWTYPE;
+    v_active admissions%ROWTYPE;
+    v_doctor users%ROWTYPE;
+    v_is_new_patient BOOLEAN := false;
+    v_visit_number INTEGER;
+    v_bed beds%ROWTYPE;
+    v_derived RECORD;
+    v_diagnosis_error TEXT;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM users u
+        JOIN role_permissions rp ON rp.role = u.role AND rp.permission = 'admission.create'
+        WHERE u.id = p_user_id AND u.status = 'active'
+    ) THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'forbidden');
+    END IF;
+
+    IF COALESCE(trim(p_mrn), '') = '' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'mrn_required');
+    END IF;
+    IF COALESCE(trim(p_department), '') = '' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'department_required');
+    END IF;
+    v_diagnosis_error := validate_diagnoses(p_diagnoses);
+    IF v_diagnosis_error IS NOT NULL THEN
+        RETURN jsonb_build_object('status', 'error', 'code', v_diagnosis_error);
+    END IF;
+    IF p_admission_date IS NULL OR p_admission_date > CURRENT_TIMESTAMP + INTERVAL '1 day' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'invalid_admission_date');
+    END IF;
+    IF p_shift_override_reason IS NOT NULL AND trim(p_shift_override_reason) = '' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'shift_override_reason_required');
+    END IF;
+
+    SELECT * INTO v_derived FROM derive_shift(p_admission_date);
+    IF p_shift_override_reason IS NULL
+       AND (p_shift_type IS DISTINCT FROM v_derived.derived_shift
+            OR p_is_weekend IS DISTINCT FROM v_derived.derived_is_weekend) THEN
+        RETURN jsonb_build_object(
+            'status', 'error',
+            'code', 'shift_mismatch',
+            'shift_type', v_derived.derived_shift,
+            'is_weekend', v_derived.derived_is_weekend
+        );
+    END IF;
+
+    SELECT * INTO v_doctor
+    FROM users
+    WHERE id = p_admitting_doctor_id AND role = 'doctor' AND status = 'active';
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'doctor_not_found');
+    END IF;
+    IF v_doctor.department <> p_department THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'doctor_department_mismatch');
+    END IF;
+
+    IF p_bed_id IS NOT NULL THEN
+        SELECT * INTO v_bed FROM beds WHERE id = p_bed_id FOR UPDATE;
+
+        IF NOT FOUND OR v_bed.status <> 'free' THEN
+            RETURN jsonb_build_object('status', 'error', 'code', 'bed_not_available');
+        END IF;
+    END IF;
+
+    -- Serialise admissions for the same MRN so two clerks cannot create
+    -- duplicate records or the same visit number concurrently
+    PERFORM pg_advisory_xact_lock(hashtext(p_mrn));
+
+    -- Older data may hold several rows per MRN; the earliest is the canonical record
+    SELECT * INTO v_patient
+    FROM patients
+    WHERE mrn = p_mrn
+    ORDER BY id
+    LIMIT 1;
+
+    IF FOUND THEN
+        SELECT a.* INTO v_active
+        FROM admissions a
+        JOIN patients p ON p.id = a.patient_id
+        WHERE p.mrn = p_mrn AND a.status = 'active'
+        LIMIT 1;
+
+        IF FOUND THEN
+            RETURN jsonb_build_object(
+                'status', 'error',
+                'code', 'active_admission_exists',
+                'admission_id', v_active.id,
+                'department', v_active.department,
+                'admission_date', v_active.admission_date
+            );
+        END IF;
+    ELSE
+        IF COALESCE(trim(p_name), '') = '' THEN
+            RETURN jsonb_build_object('status', 'error', 'code', 'name_required');
+        END IF;
+        IF p_date_of_birth IS NULL
+           OR p_date_of_birth > CURRENT_DATE
+           OR p_date_of_birth < CURRENT_DATE - INTERVAL '150 years' THEN
+            RETURN jsonb_build_object('status', 'error', 'code', 'invalid_date_of_birth');
+        END IF;
+        IF p_gender IS NULL OR p_gender NOT IN ('male', 'female') THEN
+            RETURN jsonb_build_object('status', 'error', 'code', 'invalid_gender');
+        END IF;
+
+        INSERT INTO patients (mrn, name, date_of_birth, gender)
+        VALUES (trim(p_mrn), trim(p_name), p_date_of_birth, p_gender)
+        RETURNING * INTO v_patient;
+
+        v_is_new_patient := true;
+    END IF;
+
+    SELECT COALESCE(MAX(a.visit_number), 0) + 1 INTO v_visit_number
+    FROM admissions a
+    JOIN patients p ON p.id = a.patient_id
+    WHERE p.mrn = p_mrn;
+
+    INSERT INTO admissions (
+        patient_id, admitting_doctor_id, admission_date, department, diagnosis,
+        status, safety_type, shift_type, is_weekend, shift_override_reason, visit_number
+    ) VALUES (
+        v_patient.id, p_admitting_doctor_id, p_admission_date, p_department,
+        COALESCE(NULLIF(trim(p_diagnosis), ''), primary_diagnosis_description(p_diagnoses)),
+        'active', p_safety_type, p_shift_type, p_is_weekend, trim(p_shift_override_reason), v_visit_number
+    )
+    RETURNING * INTO v_admission;
+
+    PERFORM save_admission_diagnoses(v_admission.id, 'admission', p_diagnoses);
+
+    IF p_bed_id IS NOT NULL THEN
+        UPDATE beds
+        SET status = 'occupied', admission_id = v_admission.id, updated_at = CURRENT_TIMESTAMP
+        WHERE id = p_bed_id
+        RETURNING * INTO v_bed;
+
+        INSERT INTO bed_assignments (admission_id, bed_id, assigned_at, assigned_by)
+        VALUES (v_admission.id, p_bed_id, p_admission_date, p_admitting_doctor_id);
+    END IF;
+
+    RETURN jsonb_build_object(
+        'status', 'admitted',
+        'is_new_patient', v_is_new_patient,
+        'patient', to_jsonb(v_patient),
+        'admission', to_jsonb(v_admission),
+        'diagnoses', p_diagnoses,
+        'bed', CASE WHEN p_bed_id IS NULL THEN NULL ELSE to_jsonb(v_bed) END
+    );
+END;
+$$;
+
+-- discharge_admission accepts an optional final diagnosis
+DROP FUNCTION IF EXISTS discharge_admission(INTEGER, INTEGER, TIMESTAMP WITH TIME ZONE, TEXT, BOOLEAN, DATE, TEXT);
+
+CREATE OR REPLACE FUNCTION discharge_admission(
+    p_admission_id INTEGER,
+    p_doctor_id INTEGER,
+    p_discharge_date TIMESTAMP WITH TIME ZONE,
+    p_discharge_type TEXT,
+    p_follow_up_required BOOLEAN,
+    p_follow_up_date DATE,
+    p_discharge_note TEXT,
+    p_final_diagnosis TEXT DEFAULT NULL,
+    p_final_diagnoses JSONB DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_before admissions%ROWTYPE;
+    v_admission admissions%ROWTYPE;
+    v_note medical_notes%ROWTYPE;
+    v_diagnosis_error TEXT;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM users u
+        JOIN role_permissions rp ON rp.role = u.role AND rp.permission = 'discharge.process'
+        WHERE u.id = p_doctor_id AND u.status = 'active'
+    ) THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'forbidden');
+    END IF;
+
+    SELECT * INTO v_before FROM admissions WHERE id = p_admission_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'admission_not_found');
+    END IF;
+    IF v_before.status <> 'active' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'admission_not_active');
+    END IF;
+    IF p_discharge_date IS NULL THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'discharge_date_required');
+    END IF;
+    -- Allow for small clock differences between the workstation and the server
+    IF p_discharge_date > CURRENT_TIMESTAMP + INTERVAL '5 minutes' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'invalid_discharge_date');
+    END IF;
+    IF p_discharge_date < v_before.admission_date THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'discharge_before_admission');
+    END IF;
+    IF p_follow_up_required AND p_follow_up_date IS NULL THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'follow_up_date_required');
+    END IF;
+    IF p_follow_up_required
+       AND p_follow_up_date <= (p_discharge_date AT TIME ZONE hospital_time_zone())::DATE THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'follow_up_before_discharge');
+    END IF;
+    IF COALESCE(trim(p_discharge_note), '') = '' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'discharge_note_required');
+    END IF;
+    -- A final diagnosis is optional, but when given it needs one primary code
+    IF COALESCE(jsonb_array_length(p_final_diagnoses), 0) > 0 THEN
+        v_diagnosis_error := validate_diagnoses(p_final_diagnoses);
+        IF v_diagnosis_error IS NOT NULL THEN
+            RETURN jsonb_build_object('status', 'error', 'code', 'final_' || v_diagnosis_error);
+        END IF;
+    END IF;
+
+    UPDATE admissions
+    SET status = 'discharged',
+        discharge_date = p_discharge_date,
+        discharge_type = p_discharge_type,
+        follow_up_required = p_follow_up_required,
+        follow_up_date = CASE WHEN p_follow_up_required THEN p_follow_up_date END,
+        discharge_note = p_discharge_note,
+        discharge_doctor_id = p_doctor_id,
+        final_diagnosis = NULLIF(trim(p_final_diagnosis), '')
+    WHERE id = p_admission_id
+    RETURNING * INTO v_admission;
+
+    IF COALESCE(jsonb_array_length(p_final_diagnoses), 0) > 0 THEN
+        PERFORM save_admission_diagnoses(p_admission_id, 'discharge', p_final_diagnoses);
+    END IF;
+
+    INSERT INTO medical_notes (patient_id, doctor_id, note_type, content)
+    VALUES (v_admission.patient_id, p_doctor_id, 'Discharge Summary', p_discharge_note)
+    RETURNING * INTO v_note;
+
+    RETURN jsonb_build_object(
+        'status', 'discharged',
+        'before', to_jsonb(v_before),
+        'admission', to_jsonb(v_admission),
+        'final_diagnoses', p_final_diagnoses,
+        'note', to_jsonb(v_note)
+    );
+END;
+$$;
+
+-- Grant necessary permissions (diagnoses change only through the functions above)
+GRANT SELECT ON admission_diagnoses TO authenticated;
+GRANT EXECUTE ON FUNCTION admit_patient(TEXT, TEXT, DATE, TEXT, INTEGER, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, safety_type, shift_type, BOOLEAN, INTEGER, INTEGER, TEXT, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION discharge_admission(INTEGER, INTEGER, TIMESTAMP WITH TIME ZONE, TEXT, BOOLEAN, DATE, TEXT, TEXT, JSONB) TO authenticated;
@@ -0,0 +1,176 @@
+-- Intra-hospital transfers. The sending admission is closed with status
+-- 'transferred' and a new active admission is opened in the receiving
+-- department under the same visit number, so the stay stays one visit.
+
+ALTER TABLE admissions
+    ADD COLUMN IF NOT EXISTS transferred_from_id INTEGER
+        REFERENCES admissions(id) ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS admission_transfers (
+    id SERIAL PRIMARY KEY,
+    patient_id INTEGER NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+    from_admission_id INTEGER NOT NULL REFERENCES admissions(id) ON DELETE CASCADE,
+    to_admission_id INTEGER NOT NULL REFERENCES admissions(id) ON DELETE CASCADE,
+    from_department VARCHAR(255) NOT NULL,
+    to_department VARCHAR(255) NOT NULL,
+    transferring_doctor_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    receiving_doctor_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    reason TEXT NOT NULL,
+    transferred_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_admission_transfers_patient ON admission_transfers(patient_id);
+CREATE INDEX IF NOT EXISTS idx_admission_transfers_from ON admission_transfers(from_admission_id);
+CREATE INDEX IF NOT EXISTS idx_admission_transfers_to ON admission_transfers(to_admission_id);
+CREATE INDEX IF NOT EXISTS idx_admission_transfers_transferred_at ON admission_transfers(transferred_at);
+
+-- Doctors and administrators can transfer patients
+INSERT INTO role_permissions (role, permission)
+VALUES
+    ('doctor', 'patients.transfer'),
+    ('administrator', 'patients.transfer')
+ON CONFLICT (role, permission) DO NOTHING;
+
+-- Move an active admission to another department in one transaction
+CREATE OR REPLACE FUNCTION transfer_admission(
+    p_admission_id INTEGER,
+    p_doctor_id INTEGER,
+    p_to_department TEXT,
+    p_receiving_doctor_id INTEGER,
+    p_reason TEXT,
+    p_transferred_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_before admissions%ROWTYPE;
+    v_closed admissions%ROWTYPE;
+    v_admission admissions%ROWTYPE;
+    v_receiving_doctor users%ROWTYPE;
+    v_transfer admission_transfers%ROWTYPE;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM users u
+        JOIN role_permissions rp ON rp.role = u.role AND rp.permission = 'patients.transfer'
+        WHERE u.id = p_doctor_id AND u.status = 'active'
+    ) THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'forbidden');
+    END IF;
+
+    SELECT * INTO v_before FROM admissions WHERE id = p_admission_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'admission_not_found');
+    END IF;
+    IF v_before.status <> 'active' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'admission_not_active');
+    END IF;
+    IF COALESCE(trim(p_to_department), '') = '' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'department_required');
+    END IF;
+    IF p_to_department = v_before.department THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'same_department');
+    END IF;
+
+    SELECT * INTO v_receiving_doctor
+    FROM users
+    WHERE id = p_receiving_doctor_id AND role = 'doctor' AND status = 'active';
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'receiving_doctor_not_found');
+    END IF;
+    IF v_receiving_doctor.department IS DISTINCT FROM p_to_department THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'receiving_doctor_department_mismatch');
+    END IF;
+    IF COALESCE(trim(p_reason), '') = '' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'reason_required');
+    END IF;
+    IF p_transferred_at IS NULL
+        OR p_transferred_at < v_before.admission_date
+        OR p_transferred_at > CURRENT_TIMESTAMP THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'invalid_transfer_time');
+    END IF;
+
+    UPDATE admissions
+    SET status = 'transferred',
+        discharge_date = p_transferred_at,
+        discharge_doctor_id = p_doctor_id,
+        updated_at = CURRENT_TIMESTAMP
+    WHERE id = p_admission_id
+    RETURNING * INTO v_closed;
+
+    INSERT INTO admissions (
+        patient_id,
+        admission_date,
+        department,
+        admitting_doctor_id,
+        diagnosis,
+        status,
+        safety_type,
+        shift_type,
+        is_weekend,
+        visit_number,
+        transferred_from_id
+    )
+    VALUES (
+        v_before.patient_id,
+        p_transferred_at,
+        p_to_department,
+        p_receiving_doctor_id,
+        v_before.diagnosis,
+        'active',
+        v_before.safety_type,
+        v_before.shift_type,
+        v_before.is_weekend,
+        v_before.visit_number,
+        v_before.id
+    )
+    RETURNING * INTO v_admission;
+
+    INSERT INTO admission_transfers (
+        patient_id,
+        from_admission_id,
+        to_admission_id,
+        from_department,
+        to_department,
+        transferring_doctor_id,
+        receiving_doctor_id,
+        reason,
+        transferred_at
+    )
+    VALUES (
+        v_before.patient_id,
+        v_before.id,
+        v_admission.id,
+        v_before.department,
+        p_to_department,
+        p_doctor_id,
+        p_receiving_doctor_id,
+        trim(p_reason),
+        p_transferred_at
+    )
+    RETURNING * INTO v_transfer;
+
+    RETURN jsonb_build_object(
+        'status', 'transferred',
+        'before', to_jsonb(v_before),
+        'closed_admission', to_jsonb(v_closed),
+        'admission', to_jsonb(v_admission),
+        'transfer', to_jsonb(v_transfer)
+    );
+END;
+$$;
+
+-- Transfer history follows the patient into the surviving chart on a merge
+INSERT INTO patient_merge_tables (table_name)
+VALUES ('admission_transfers')
+ON CONFLICT (table_name) DO NOTHING;
+
+-- Grant necessary permissions
+GRANT SELECT ON admission_transfers TO authenticated;
+GRANT EXECUTE ON FUNCTION transfer_admission(INTEGER, INTEGER, TEXT, INTEGER, TEXT, TIMESTAMP WITH TIME ZONE) TO authenticated;
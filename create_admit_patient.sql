@@ -0,0 +1,86 @@
+-- Admit a patient in one transaction: reuse the existing record for a known MRN,
+-- refuse a second active admission, and number the visit from the patient's history
+CREATE OR REPLACE FUNCTION admit_patient(
+    p_mrn TEXT,
+    p_name TEXT,
+    p_date_of_birth DATE,
+    p_gender TEXT,
+    p_admitting_doctor_id INTEGER,
+    p_admission_date TIMESTAMP WITH TIME ZONE,
+    p_department TEXT,
+    p_diagnosis TEXT,
+    p_safety_type safety_type,
+    p_shift_type shift_type,
+    p_is_weekend BOOLEAN
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_patient patients%ROWTYPE;
+    v_admission admissions%ROWTYPE;
+    v_active admissions%ROWTYPE;
+    v_is_new_patient BOOLEAN := false;
+    v_visit_number INTEGER;
+BEGIN
+    -- Serialise admissions for the same MRN so two clerks cannot create
+    -- duplicate records or the same visit number concurrently
+    PERFORM pg_advisory_xact_lock(hashtext(p_mrn));
+
+    -- Older data may hold several rows per MRN; the earliest is the canonical record
+    SELECT * INTO v_patient
+    FROM patients
+    WHERE mrn = p_mrn
+    ORDER BY id
+    LIMIT 1;
+
+    IF FOUND THEN
+        SELECT a.* INTO v_active
+        FROM admissions a
+        JOIN patients p ON p.id = a.patient_id
+        WHERE p.mrn = p_mrn AND a.status = 'active'
+        LIMIT 1;
+
+        IF FOUND THEN
+            RETURN jsonb_build_object(
+                'status', 'active_admission_exists',
+                'admission_id', v_active.id,
+                'department', v_active.department,
+                'admission_date', v_active.admission_date
+            );
+        END IF;
+    ELSE
+        INSERT INTO patients (mrn, name, date_of_birth, gender)
+        VALUES (p_mrn, p_name, p_date_of_birth, p_gender)
+        RETURNING * INTO v_patient;
+
+        v_is_new_patient := true;
+    END IF;
+
+    SELECT COALESCE(MAX(a.visit_number), 0) + 1 INTO v_visit_number
+    FROM admissions a
+    JOIN patients p ON p.id = a.patient_id
+    WHERE p.mrn = p_mrn;
+
+    INSERT INTO admissions (
+        patient_id, admitting_doctor_id, admission_date, department, diagnosis,
+        status, safety_type, shift_type, is_weekend, visit_number
+    ) VALUES (
+        v_patient.id, p_admitting_doctor_id, p_admission_date, p_department, p_diagnosis,
+        'active', p_safety_type, p_shift_type, p_is_weekend, v_visit_number
+    )
+    RETURNING * INTO v_admission;
+
+    RETURN jsonb_build_object(
+        'status', 'admitted',
+        'is_new_patient', v_is_new_patient,
+        'patient', to_jsonb(v_patient),
+        'admission', to_jsonb(v_admission)
+    );
+END;
+$$;
+
+-- Grant necessary permissions
+GRANT EXECUTE ON FUNCTION admit_patient(TEXT, TEXT, DATE, TEXT, INTEGER, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, safety_type, shift_type, BOOLEAN) TO authenticated;
@@ -0,0 +1,165 @@
+-- Patient allergy list and prescribing safety checks. Allergies are never
+-- deleted, only removed with a reason so the history stays on record.
+-- Prescriptions carry the allergy and interaction alerts found against the
+-- local formulary, and any hard stop must be overridden with a documented reason.
+
+CREATE TABLE IF NOT EXISTS patient_allergies (
+    id SERIAL PRIMARY KEY,
+    patient_id INTEGER NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+    substance VARCHAR(255) NOT NULL,
+    reaction TEXT,
+    severity VARCHAR(20) NOT NULL CHECK (severity IN ('mild', 'moderate', 'severe', 'anaphylaxis')),
+    recorded_by INTEGER NOT NULL REFERENCES users(id),
+    recorded_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    removed_at TIMESTAMP WITH TIME ZONE,
+    removed_by INTEGER REFERENCES users(id),
+    removal_reason TEXT,
+    CHECK ((removed_at IS NULL) = (removal_reason IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_patient_allergies_patient ON patient_allergies(patient_id) WHERE removed_at IS NULL;
+
+ALTER TABLE medication_orders
+    ADD COLUMN IF NOT EXISTS safety_alerts JSONB NOT NULL DEFAULT '[]'::jsonb,
+    ADD COLUMN IF NOT EXISTS override_reason TEXT;
+
+-- Doctors and nurses take allergy histories
+INSERT INTO role_permissions (role, permission)
+VALUES
+    ('administrator', 'allergies.manage'),
+    ('doctor', 'allergies.manage'),
+    ('nurse', 'allergies.manage')
+ON CONFLICT (role, permission) DO NOTHING;
+
+-- prescribe_medication records the safety alerts and the override reason
+DROP FUNCTION IF EXISTS prescribe_medication(INTEGER, INTEGER, INTEGER, TEXT, TEXT, TEXT, TEXT, BOOLEAN, TEXT, TEXT, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE);
+
+CREATE OR REPLACE FUNCTION prescribe_medication(
+    p_patient_id INTEGER,
+    p_admission_id INTEGER,
+    p_prescriber_id INTEGER,
+    p_drug_name TEXT,
+    p_dose TEXT,
+    p_route TEXT,
+    p_frequency TEXT,
+    p_is_prn BOOLEAN,
+    p_prn_indication TEXT,
+    p_instructions TEXT,
+    p_start_at TIMESTAMP WITH TIME ZONE,
+    p_stop_at TIMESTAMP WITH TIME ZONE,
+    p_safety_alerts JSONB DEFAULT '[]'::jsonb,
+    p_override_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_admission admissions%ROWTYPE;
+    v_order medication_orders%ROWTYPE;
+    v_hard_stop BOOLEAN;
+BEGIN
+    IF NOT can_prescribe(p_prescriber_id) THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'forbidden');
+    END IF;
+
+    SELECT * INTO v_admission FROM admissions WHERE id = p_admission_id;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'admission_not_found');
+    END IF;
+    IF v_admission.patient_id <> p_patient_id THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'admission_patient_mismatch');
+    END IF;
+    IF v_admission.status <> 'active' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'admission_not_active');
+    END IF;
+    IF COALESCE(trim(p_drug_name), '') = '' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'drug_required');
+    END IF;
+    IF COALESCE(trim(p_dose), '') = '' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'dose_required');
+    END IF;
+    IF p_route IS NULL OR p_route NOT IN ('oral', 'iv', 'im', 'sc', 'sublingual', 'inhaled', 'nebulised', 'topical', 'rectal', 'ng_tube') THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'invalid_route');
+    END IF;
+    IF p_frequency IS NULL OR p_frequency NOT IN ('once', 'once_daily', 'twice_daily', 'three_times_daily', 'four_times_daily',
+                                                  'every_4_hours', 'every_6_hours', 'every_8_hours', 'every_12_hours', 'at_night') THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'invalid_frequency');
+    END IF;
+    IF COALESCE(p_is_prn, false) AND COALESCE(trim(p_prn_indication), '') = '' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'prn_indication_required');
+    END IF;
+    IF p_start_at IS NULL THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'start_required');
+    END IF;
+    IF p_stop_at IS NOT NULL AND p_stop_at <= p_start_at THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'stop_before_start');
+    END IF;
+
+    -- The formulary check runs in the client; an allergy recorded under the
+    -- exact drug name is caught here as well in case the check was bypassed
+    v_hard_stop := EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(COALESCE(p_safety_alerts, '[]'::jsonb)) AS alert
+        WHERE (alert->>'hardStop')::BOOLEAN
+    ) OR EXISTS (
+        SELECT 1
+        FROM patient_allergies
+        WHERE patient_id = v_admission.patient_id
+          AND removed_at IS NULL
+          AND lower(trim(substance)) = lower(trim(p_drug_name))
+    );
+
+    IF v_hard_stop AND COALESCE(trim(p_override_reason), '') = '' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'override_required');
+    END IF;
+
+    INSERT INTO medication_orders (
+        patient_id,
+        admission_id,
+        drug_name,
+        dose,
+        route,
+        frequency,
+        is_prn,
+        prn_indication,
+        instructions,
+        start_at,
+        stop_at,
+        prescribed_by,
+        safety_alerts,
+        override_reason
+    )
+    VALUES (
+        v_admission.patient_id,
+        v_admission.id,
+        trim(p_drug_name),
+        trim(p_dose),
+        p_route,
+        p_frequency,
+        COALESCE(p_is_prn, false),
+        CASE WHEN COALESCE(p_is_prn, false) THEN trim(p_prn_indication) END,
+        NULLIF(trim(p_instructions), ''),
+        p_start_at,
+        p_stop_at,
+        p_prescriber_id,
+        COALESCE(p_safety_alerts, '[]'::jsonb),
+        CASE WHEN v_hard_stop THEN trim(p_override_reason) END
+    )
+    RETURNING * INTO v_order;
+
+    RETURN jsonb_build_object('status', 'prescribed', 'order', to_jsonb(v_order));
+END;
+$$;
+
+-- Recorded allergies move to the surviving chart when duplicate patients are merged
+INSERT INTO patient_merge_tables (table_name)
+VALUES ('patient_allergies')
+ON CONFLICT (table_name) DO NOTHING;
+
+-- Grant necessary permissions
+GRANT SELECT, INSERT, UPDATE ON patient_allergies TO authenticated;
+GRANT USAGE ON SEQUENCE patient_allergies_id_seq TO authenticated;
+GRANT EXECUTE ON FUNCTION prescribe_medication(INTEGER, INTEGER, INTEGER, TEXT, TEXT, TEXT, TEXT, BOOLEAN, TEXT, TEXT, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, JSONB, TEXT) TO authenticated;
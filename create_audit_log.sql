@@ -0,0 +1,44 @@
+-- Create append-only audit_log table recording every data mutation.
+-- actor_id carries no foreign key: a cascading SET NULL would be an UPDATE,
+-- which the append-only trigger rejects, and would erase who acted.
+CREATE TABLE IF NOT EXISTS audit_log (
+    id BIGSERIAL PRIMARY KEY,
+    actor_id INTEGER,
+    actor_name VARCHAR(255) NOT NULL,
+    actor_role VARCHAR(20),
+    action VARCHAR(50) NOT NULL,
+    entity_type VARCHAR(50) NOT NULL,
+    entity_id VARCHAR(255),
+    summary TEXT,
+    before_data JSONB,
+    after_data JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+-- Create indexes for the audit viewer filters
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor_id ON audit_log(actor_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log(entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_action ON audit_log(action);
+
+-- Reject any attempt to rewrite or remove history
+CREATE OR REPLACE FUNCTION prevent_audit_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$ LANGUAGE 'plpgsql';
+
+CREATE TRIGGER audit_log_append_only
+    BEFORE UPDATE OR DELETE ON audit_log
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_audit_log_changes();
+
+-- Allow administrators to review the audit log
+INSERT INTO role_permissions (role, permission)
+VALUES ('administrator', 'audit.view')
+ON CONFLICT (role, permission) DO NOTHING;
+
+-- Grant necessary permissions (no UPDATE or DELETE)
+GRANT SELECT, INSERT ON audit_log TO authenticated;
+GRANT USAGE ON SEQUENCE audit_log_id_seq TO authenticated;
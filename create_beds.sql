@@ -0,0 +1,424 @@
+-- Wards, rooms and beds. A bed holds at most one active admission; every stay
+-- in a bed is kept in bed_assignments so moves and occupancy can be reported.
+
+CREATE TABLE IF NOT EXISTS wards (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(255) NOT NULL UNIQUE,
+    department VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS rooms (
+    id SERIAL PRIMARY KEY,
+    ward_id INTEGER NOT NULL REFERENCES wards(id) ON DELETE CASCADE,
+    name VARCHAR(50) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (ward_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS beds (
+    id SERIAL PRIMARY KEY,
+    room_id INTEGER NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+    label VARCHAR(50) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'free'
+        CHECK (status IN ('free', 'occupied', 'cleaning', 'blocked')),
+    admission_id INTEGER REFERENCES admissions(id) ON DELETE SET NULL,
+    status_note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (room_id, label)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_beds_admission ON beds(admission_id) WHERE admission_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS bed_assignments (
+    id SERIAL PRIMARY KEY,
+    admission_id INTEGER NOT NULL REFERENCES admissions(id) ON DELETE CASCADE,
+    bed_id INTEGER NOT NULL REFERENCES beds(id) ON DELETE CASCADE,
+    assigned_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    released_at TIMESTAMP WITH TIME ZONE,
+    assigned_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_bed_assignments_admission ON bed_assignments(admission_id);
+CREATE INDEX IF NOT EXISTS idx_bed_assignments_bed ON bed_assignments(bed_id);
+CREATE INDEX IF NOT EXISTS idx_bed_assignments_period ON bed_assignments(assigned_at, released_at);
+
+-- Administrators configure wards; clinical staff assign and turn over beds
+INSERT INTO role_permissions (role, permission)
+VALUES
+    ('administrator', 'beds.manage'),
+    ('administrator', 'beds.assign'),
+    ('doctor', 'beds.assign'),
+    ('nurse', 'beds.assign')
+ON CONFLICT (role, permission) DO NOTHING;
+
+-- admit_patient gains an optional bed, occupied in the same transaction
+DROP FUNCTION IF EXISTS admit_patient(TEXT, TEXT, DATE, TEXT, INTEGER, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, safety_type, shift_type, BOOLEAN, INTEGER);
+
+CREATE OR REPLACE FUNCTION admit_patient(
+    p_mrn TEXT,
+    p_name TEXT,
+    p_date_of_birth DATE,
+    p_gender TEXT,
+    p_admitting_doctor_id INTEGER,
+    p_admission_date TIMESTAMP WITH TIME ZONE,
+    p_department TEXT,
+    p_diagnosis TEXT,
+    p_safety_type safety_type,
+    p_shift_type shift_type,
+    p_is_weekend BOOLEAN,
+    p_user_id INTEGER,
+    p_bed_id INTEGER DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_patient patients%ROWTYPE;
+    v_admission admissions%ROWTYPE;
+    v_active admissions%ROWTYPE;
+    v_doctor users%ROWTYPE;
+    v_is_new_patient BOOLEAN := false;
+    v_visit_number INTEGER;
+    v_bed beds%ROWTYPE;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM users u
+        JOIN role_permissions rp ON rp.role = u.role AND rp.permission = 'admission.create'
+        WHERE u.id = p_user_id AND u.status = 'active'
+    ) THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'forbidden');
+    END IF;
+
+    IF COALESCE(trim(p_mrn), '') = '' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'mrn_required');
+    END IF;
+    IF COALESCE(trim(p_department), '') = '' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'department_required');
+    END IF;
+    IF COALESCE(trim(p_diagnosis), '') = '' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'diagnosis_required');
+    END IF;
+    IF p_admission_date IS NULL OR p_admission_date > CURRENT_TIMESTAMP + INTERVAL '1 day' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'invalid_admission_date');
+    END IF;
+
+    SELECT * INTO v_doctor
+    FROM users
+    WHERE id = p_admitting_doctor_id AND role = 'doctor' AND status = 'active';
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'doctor_not_found');
+    END IF;
+    IF v_doctor.department <> p_department THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'doctor_department_mismatch');
+    END IF;
+
+    IF p_bed_id IS NOT NULL THEN
+        SELECT * INTO v_bed FROM beds WHERE id = p_bed_id FOR UPDATE;
+
+        IF NOT FOUND OR v_bed.status <> 'free' THEN
+            RETURN jsonb_build_object('status', 'error', 'code', 'bed_not_available');
+        END IF;
+    END IF;
+
+    -- Serialise admissions for the same MRN so two clerks cannot create
+    -- duplicate records or the same visit number concurrently
+    PERFORM pg_advisory_xact_lock(hashtext(p_mrn));
+
+    -- Older data may hold several rows per MRN; the earliest is the canonical record
+    SELECT * INTO v_patient
+    FROM patients
+    WHERE mrn = p_mrn
+    ORDER BY id
+    LIMIT 1;
+
+    IF FOUND THEN
+        SELECT a.* INTO v_active
+        FROM admissions a
+        JOIN patients p ON p.id = a.patient_id
+        WHERE p.mrn = p_mrn AND a.status = 'active'
+        LIMIT 1;
+
+        IF FOUND THEN
+            RETURN jsonb_build_object(
+                'status', 'error',
+                'code', 'active_admission_exists',
+                'admission_id', v_active.id,
+                'department', v_active.department,
+                'admission_date', v_active.admission_date
+            );
+        END IF;
+    ELSE
+        IF COALESCE(trim(p_name), '') = '' THEN
+            RETURN jsonb_build_object('status', 'error', 'code', 'name_required');
+        END IF;
+        IF p_date_of_birth IS NULL
+           OR p_date_of_birth > CURRENT_DATE
+           OR p_date_of_birth < CURRENT_DATE - INTERVAL '150 years' THEN
+            RETURN jsonb_build_object('status', 'error', 'code', 'invalid_date_of_birth');
+        END IF;
+        IF p_gender IS NULL OR p_gender NOT IN ('male', 'female') THEN
+            RETURN jsonb_build_object('status', 'error', 'code', 'invalid_gender');
+        END IF;
+
+        INSERT INTO patients (mrn, name, date_of_birth, gender)
+        VALUES (trim(p_mrn), trim(p_name), p_date_of_birth, p_gender)
+        RETURNING * INTO v_patient;
+
+        v_is_new_patient := true;
+    END IF;
+
+    SELECT COALESCE(MAX(a.visit_number), 0) + 1 INTO v_visit_number
+    FROM admissions a
+    JOIN patients p ON p.id = a.patient_id
+    WHERE p.mrn = p_mrn;
+
+    INSERT INTO admissions (
+        patient_id, admitting_doctor_id, admission_date, department, diagnosis,
+        status, safety_type, shift_type, is_weekend, visit_number
+    ) VALUES (
+        v_patient.id, p_admitting_doctor_id, p_admission_date, p_department, trim(p_diagnosis),
+        'active', p_safety_type, p_shift_type, p_is_weekend, v_visit_number
+    )
+    RETURNING * INTO v_admission;
+
+    IF p_bed_id IS NOT NULL THEN
+        UPDATE beds
+        SET status = 'occupied', admission_id = v_admission.id, updated_at = CURRENT_TIMESTAMP
+        WHERE id = p_bed_id
+        RETURNING * INTO v_bed;
+
+        INSERT INTO bed_assignments (admission_id, bed_id, assigned_at, assigned_by)
+        VALUES (v_admission.id, p_bed_id, p_admission_date, p_admitting_doctor_id);
+    END IF;
+
+    RETURN jsonb_build_object(
+        'status', 'admitted',
+        'is_new_patient', v_is_new_patient,
+        'patient', to_jsonb(v_patient),
+        'admission', to_jsonb(v_admission),
+        'bed', CASE WHEN p_bed_id IS NULL THEN NULL ELSE to_jsonb(v_bed) END
+    );
+END;
+$$;
+
+-- Move an admitted patient to another free bed; the old bed goes to cleaning
+CREATE OR REPLACE FUNCTION move_bed(
+    p_admission_id INTEGER,
+    p_bed_id INTEGER,
+    p_user_id INTEGER,
+    p_reason TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_admission admissions%ROWTYPE;
+    v_old_bed beds%ROWTYPE;
+    v_new_bed beds%ROWTYPE;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM users u
+        JOIN role_permissions rp ON rp.role = u.role AND rp.permission = 'beds.assign'
+        WHERE u.id = p_user_id AND u.status = 'active'
+    ) THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'forbidden');
+    END IF;
+
+    SELECT * INTO v_admission FROM admissions WHERE id = p_admission_id;
+
+    IF NOT FOUND OR v_admission.status <> 'active' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'admission_not_active');
+    END IF;
+
+    -- Lock beds in id order so two concurrent moves cannot deadlock
+    PERFORM 1 FROM beds
+    WHERE id = p_bed_id OR admission_id = p_admission_id
+    ORDER BY id
+    FOR UPDATE;
+
+    SELECT * INTO v_new_bed FROM beds WHERE id = p_bed_id;
+
+    IF NOT FOUND OR v_new_bed.status <> 'free' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'bed_not_available');
+    END IF;
+
+    SELECT * INTO v_old_bed FROM beds WHERE admission_id = p_admission_id;
+
+    IF FOUND THEN
+        IF COALESCE(trim(p_reason), '') = '' THEN
+            RETURN jsonb_build_object('status', 'error', 'code', 'reason_required');
+        END IF;
+
+        UPDATE beds
+        SET status = 'cleaning', admission_id = NULL, updated_at = CURRENT_TIMESTAMP
+        WHERE id = v_old_bed.id;
+
+        UPDATE bed_assignments
+        SET released_at = CURRENT_TIMESTAMP
+        WHERE admission_id = p_admission_id AND bed_id = v_old_bed.id AND released_at IS NULL;
+    END IF;
+
+    UPDATE beds
+    SET status = 'occupied', admission_id = p_admission_id, status_note = NULL, updated_at = CURRENT_TIMESTAMP
+    WHERE id = p_bed_id
+    RETURNING * INTO v_new_bed;
+
+    INSERT INTO bed_assignments (admission_id, bed_id, assigned_at, assigned_by, reason)
+    VALUES (p_admission_id, p_bed_id, CURRENT_TIMESTAMP, p_user_id, NULLIF(trim(p_reason), ''));
+
+    RETURN jsonb_build_object(
+        'status', 'moved',
+        'from_bed', CASE WHEN v_old_bed.id IS NULL THEN NULL ELSE to_jsonb(v_old_bed) END,
+        'bed', to_jsonb(v_new_bed)
+    );
+END;
+$$;
+
+-- Change the housekeeping status of an unoccupied bed
+CREATE OR REPLACE FUNCTION set_bed_status(
+    p_bed_id INTEGER,
+    p_status TEXT,
+    p_user_id INTEGER,
+    p_note TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_before beds%ROWTYPE;
+    v_bed beds%ROWTYPE;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM users u
+        JOIN role_permissions rp ON rp.role = u.role AND rp.permission = 'beds.assign'
+        WHERE u.id = p_user_id AND u.status = 'active'
+    ) THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'forbidden');
+    END IF;
+
+    IF p_status NOT IN ('free', 'cleaning', 'blocked') THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'invalid_status');
+    END IF;
+
+    SELECT * INTO v_before FROM beds WHERE id = p_bed_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'bed_not_found');
+    END IF;
+    IF v_before.status = 'occupied' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'bed_occupied');
+    END IF;
+    IF p_status = 'blocked' AND COALESCE(trim(p_note), '') = '' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'reason_required');
+    END IF;
+
+    UPDATE beds
+    SET status = p_status,
+        status_note = CASE WHEN p_status = 'blocked' THEN trim(p_note) END,
+        updated_at = CURRENT_TIMESTAMP
+    WHERE id = p_bed_id
+    RETURNING * INTO v_bed;
+
+    RETURN jsonb_build_object('status', 'updated', 'before', to_jsonb(v_before), 'bed', to_jsonb(v_bed));
+END;
+$$;
+
+-- Discharge frees the bed for cleaning; a transfer keeps the patient in their
+-- bed under the new admission until they are moved
+CREATE OR REPLACE FUNCTION release_bed_on_admission_close()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NEW.status = 'discharged' THEN
+        UPDATE beds
+        SET status = 'cleaning', admission_id = NULL, updated_at = CURRENT_TIMESTAMP
+        WHERE admission_id = NEW.id;
+
+        UPDATE bed_assignments
+        SET released_at = COALESCE(NEW.discharge_date, CURRENT_TIMESTAMP)
+        WHERE admission_id = NEW.id AND released_at IS NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION carry_bed_on_transfer()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_bed_id INTEGER;
+BEGIN
+    UPDATE beds
+    SET admission_id = NEW.id, updated_at = CURRENT_TIMESTAMP
+    WHERE admission_id = NEW.transferred_from_id
+    RETURNING id INTO v_bed_id;
+
+    IF v_bed_id IS NOT NULL THEN
+        UPDATE bed_assignments
+        SET released_at = NEW.admission_date
+        WHERE admission_id = NEW.transferred_from_id AND released_at IS NULL;
+
+        INSERT INTO bed_assignments (admission_id, bed_id, assigned_at, assigned_by, reason)
+        VALUES (NEW.id, v_bed_id, NEW.admission_date, NEW.admitting_doctor_id, 'Transfer');
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+-- Deleting an admission (or its patient) must not leave a bed marked occupied
+CREATE OR REPLACE FUNCTION release_bed_on_admission_delete()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    UPDATE beds
+    SET status = 'cleaning', admission_id = NULL, updated_at = CURRENT_TIMESTAMP
+    WHERE admission_id = OLD.id;
+    RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS release_bed_on_admission_close ON admissions;
+CREATE TRIGGER release_bed_on_admission_close
+    AFTER UPDATE OF status ON admissions
+    FOR EACH ROW
+    WHEN (OLD.status = 'active' AND NEW.status <> 'active')
+    EXECUTE FUNCTION release_bed_on_admission_close();
+
+DROP TRIGGER IF EXISTS carry_bed_on_transfer ON admissions;
+CREATE TRIGGER carry_bed_on_transfer
+    AFTER INSERT ON admissions
+    FOR EACH ROW
+    WHEN (NEW.transferred_from_id IS NOT NULL)
+    EXECUTE FUNCTION carry_bed_on_transfer();
+
+DROP TRIGGER IF EXISTS release_bed_on_admission_delete ON admissions;
+CREATE TRIGGER release_bed_on_admission_delete
+    BEFORE DELETE ON admissions
+    FOR EACH ROW
+    EXECUTE FUNCTION release_bed_on_admission_delete();
+
+-- Grant necessary permissions (beds change only through the functions above)
+GRANT SELECT, INSERT, UPDATE, DELETE ON wards, rooms TO authenticated;
+GRANT SELECT, INSERT, DELETE ON beds TO authenticated;
+GRANT SELECT ON bed_assignments TO authenticated;
+GRANT USAGE ON SEQUENCE wards_id_seq, rooms_id_seq, beds_id_seq TO authenticated;
+GRANT EXECUTE ON FUNCTION admit_patient(TEXT, TEXT, DATE, TEXT, INTEGER, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, safety_type, shift_type, BOOLEAN, INTEGER, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION move_bed(INTEGER, INTEGER, INTEGER, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_bed_status(INTEGER, TEXT, INTEGER, TEXT) TO authenticated;
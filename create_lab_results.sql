@@ -0,0 +1,51 @@
+-- Laboratory results. The test catalogue with units and reference ranges is
+-- bundled with the client, which flags each result when it is entered or
+-- imported; the unit and range used are stored with the result so later
+-- catalogue changes do not rewrite history. Critical results raise a
+-- clinical alert to the attending doctor.
+
+CREATE TABLE IF NOT EXISTS lab_results (
+    id SERIAL PRIMARY KEY,
+    patient_id INTEGER NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+    admission_id INTEGER REFERENCES admissions(id) ON DELETE SET NULL,
+    test_code VARCHAR(20) NOT NULL,
+    value NUMERIC NOT NULL,
+    unit VARCHAR(30) NOT NULL,
+    reference_low NUMERIC,
+    reference_high NUMERIC,
+    flag VARCHAR(20) NOT NULL CHECK (flag IN ('normal', 'low', 'high', 'critical_low', 'critical_high')),
+    collected_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    source VARCHAR(10) NOT NULL CHECK (source IN ('manual', 'csv', 'hl7')),
+    entered_by INTEGER NOT NULL REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    -- Re-importing the same file does not duplicate results
+    UNIQUE (patient_id, test_code, collected_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_lab_results_patient_time ON lab_results(patient_id, collected_at DESC);
+
+-- Critical results are delivered through the clinical alerts used for NEWS2
+ALTER TABLE clinical_alerts
+ADD COLUMN IF NOT EXISTS lab_result_id INTEGER REFERENCES lab_results(id) ON DELETE CASCADE;
+
+ALTER TABLE clinical_alerts DROP CONSTRAINT IF EXISTS clinical_alerts_alert_type_check;
+ALTER TABLE clinical_alerts
+ADD CONSTRAINT clinical_alerts_alert_type_check CHECK (alert_type IN ('news2', 'critical_lab'));
+
+-- Results are entered by doctors and nurses
+INSERT INTO role_permissions (role, permission)
+VALUES
+    ('administrator', 'labs.record'),
+    ('doctor', 'labs.record'),
+    ('nurse', 'labs.record')
+ON CONFLICT (role, permission) DO NOTHING;
+
+-- Lab results move to the surviving chart when duplicate patients are merged;
+-- a result recorded on both charts stops the merge
+INSERT INTO patient_merge_tables (table_name)
+VALUES ('lab_results')
+ON CONFLICT (table_name) DO NOTHING;
+
+-- Grant necessary permissions
+GRANT SELECT, INSERT ON lab_results TO authenticated;
+GRANT USAGE ON SEQUENCE lab_results_id_seq TO authenticated;
@@ -0,0 +1,119 @@
+-- Medication administration record (MAR). Each row records what happened to
+-- one due dose of a scheduled order, or one dose of a PRN order, and who
+-- recorded it. Doses that were not given must carry a reason.
+
+CREATE TABLE IF NOT EXISTS medication_administrations (
+    id SERIAL PRIMARY KEY,
+    order_id INTEGER NOT NULL REFERENCES medication_orders(id) ON DELETE CASCADE,
+    patient_id INTEGER NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+    scheduled_at TIMESTAMP WITH TIME ZONE,
+    status VARCHAR(20) NOT NULL CHECK (status IN ('given', 'held', 'refused', 'missed')),
+    reason TEXT,
+    administered_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    recorded_by INTEGER NOT NULL REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CHECK (status = 'given' OR reason IS NOT NULL),
+    UNIQUE (order_id, scheduled_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_medication_administrations_patient ON medication_administrations(patient_id, administered_at);
+CREATE INDEX IF NOT EXISTS idx_medication_administrations_scheduled ON medication_administrations(scheduled_at);
+
+-- Nurses record administrations
+INSERT INTO role_permissions (role, permission)
+VALUES
+    ('administrator', 'medications.administer'),
+    ('nurse', 'medications.administer')
+ON CONFLICT (role, permission) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION record_medication_administration(
+    p_order_id INTEGER,
+    p_nurse_id INTEGER,
+    p_scheduled_at TIMESTAMP WITH TIME ZONE,
+    p_status TEXT,
+    p_reason TEXT,
+    p_administered_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_order medication_orders%ROWTYPE;
+    v_order_end TIMESTAMP WITH TIME ZONE;
+    v_administration medication_administrations%ROWTYPE;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM users u
+        JOIN role_permissions rp ON rp.role = u.role AND rp.permission = 'medications.administer'
+        WHERE u.id = p_nurse_id AND u.status = 'active'
+    ) THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'forbidden');
+    END IF;
+
+    SELECT * INTO v_order FROM medication_orders WHERE id = p_order_id;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'order_not_found');
+    END IF;
+    IF p_status IS NULL OR p_status NOT IN ('given', 'held', 'refused', 'missed') THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'invalid_status');
+    END IF;
+    IF p_status <> 'given' AND COALESCE(trim(p_reason), '') = '' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'reason_required');
+    END IF;
+    IF p_scheduled_at IS NULL AND NOT v_order.is_prn THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'scheduled_time_required');
+    END IF;
+
+    v_order_end := LEAST(v_order.stop_at, v_order.discontinued_at);
+
+    -- Scheduled doses must fall within the order; PRN doses must be given while it runs
+    IF COALESCE(p_scheduled_at, p_administered_at) < v_order.start_at
+        OR COALESCE(p_scheduled_at, p_administered_at) >= COALESCE(v_order_end, 'infinity') THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'dose_not_due');
+    END IF;
+    IF p_administered_at IS NULL OR p_administered_at > CURRENT_TIMESTAMP THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'invalid_administration_time');
+    END IF;
+    IF p_scheduled_at IS NOT NULL AND EXISTS (
+        SELECT 1 FROM medication_administrations
+        WHERE order_id = p_order_id AND scheduled_at = p_scheduled_at
+    ) THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'already_recorded');
+    END IF;
+
+    INSERT INTO medication_administrations (
+        order_id,
+        patient_id,
+        scheduled_at,
+        status,
+        reason,
+        administered_at,
+        recorded_by
+    )
+    VALUES (
+        v_order.id,
+        v_order.patient_id,
+        p_scheduled_at,
+        p_status,
+        NULLIF(trim(p_reason), ''),
+        p_administered_at,
+        p_nurse_id
+    )
+    RETURNING * INTO v_administration;
+
+    RETURN jsonb_build_object('status', 'recorded', 'administration', to_jsonb(v_administration));
+END;
+$$;
+
+-- Administration records follow their orders into the surviving chart on a merge
+INSERT INTO patient_merge_tables (table_name)
+VALUES ('medication_administrations')
+ON CONFLICT (table_name) DO NOTHING;
+
+-- Grant necessary permissions
+GRANT SELECT ON medication_administrations TO authenticated;
+GRANT EXECUTE ON FUNCTION record_medication_administration(INTEGER, INTEGER, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, TIMESTAMP WITH TIME ZONE) TO authenticated;
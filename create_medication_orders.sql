@@ -0,0 +1,259 @@
+-- Inpatient medication orders. Each order belongs to an admission and is
+-- written by a doctor; orders are never deleted, only discontinued with a
+-- reason or left to run to their stop time.
+
+CREATE TABLE IF NOT EXISTS medication_orders (
+    id SERIAL PRIMARY KEY,
+    patient_id INTEGER NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+    admission_id INTEGER NOT NULL REFERENCES admissions(id) ON DELETE CASCADE,
+    drug_name VARCHAR(255) NOT NULL,
+    dose VARCHAR(100) NOT NULL,
+    route VARCHAR(20) NOT NULL
+        CHECK (route IN ('oral', 'iv', 'im', 'sc', 'sublingual', 'inhaled', 'nebulised', 'topical', 'rectal', 'ng_tube')),
+    frequency VARCHAR(30) NOT NULL
+        CHECK (frequency IN ('once', 'once_daily', 'twice_daily', 'three_times_daily', 'four_times_daily',
+                             'every_4_hours', 'every_6_hours', 'every_8_hours', 'every_12_hours', 'at_night')),
+    is_prn BOOLEAN NOT NULL DEFAULT false,
+    prn_indication TEXT,
+    instructions TEXT,
+    start_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    stop_at TIMESTAMP WITH TIME ZONE,
+    prescribed_by INTEGER NOT NULL REFERENCES users(id),
+    discontinued_at TIMESTAMP WITH TIME ZONE,
+    discontinued_by INTEGER REFERENCES users(id),
+    discontinuation_reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CHECK (stop_at IS NULL OR stop_at > start_at),
+    CHECK (NOT is_prn OR prn_indication IS NOT NULL),
+    CHECK ((discontinued_at IS NULL) = (discontinuation_reason IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_medication_orders_patient ON medication_orders(patient_id);
+CREATE INDEX IF NOT EXISTS idx_medication_orders_admission ON medication_orders(admission_id);
+
+DROP TRIGGER IF EXISTS update_medication_orders_updated_at ON medication_orders;
+CREATE TRIGGER update_medication_orders_updated_at
+    BEFORE UPDATE ON medication_orders
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Prescribing is reserved for doctors; the functions below also check the role
+INSERT INTO role_permissions (role, permission)
+VALUES
+    ('doctor', 'medications.prescribe')
+ON CONFLICT (role, permission) DO NOTHING;
+
+-- Running orders follow the patient to the receiving department on transfer
+CREATE OR REPLACE FUNCTION carry_medication_orders_on_transfer()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    UPDATE medication_orders
+    SET admission_id = NEW.id
+    WHERE admission_id = NEW.transferred_from_id
+        AND discontinued_at IS NULL
+        AND (stop_at IS NULL OR stop_at > NEW.admission_date);
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS carry_medication_orders_on_transfer ON admissions;
+CREATE TRIGGER carry_medication_orders_on_transfer
+    AFTER INSERT ON admissions
+    FOR EACH ROW
+    WHEN (NEW.transferred_from_id IS NOT NULL)
+    EXECUTE FUNCTION carry_medication_orders_on_transfer();
+
+-- Discharge stops every order still running at the discharge time
+CREATE OR REPLACE FUNCTION stop_medication_orders_on_discharge()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    UPDATE medication_orders
+    SET stop_at = GREATEST(NEW.discharge_date, start_at + INTERVAL '1 minute')
+    WHERE admission_id = NEW.id
+        AND discontinued_at IS NULL
+        AND (stop_at IS NULL OR stop_at > NEW.discharge_date);
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS stop_medication_orders_on_discharge ON admissions;
+CREATE TRIGGER stop_medication_orders_on_discharge
+    AFTER UPDATE OF status ON admissions
+    FOR EACH ROW
+    WHEN (OLD.status = 'active' AND NEW.status = 'discharged')
+    EXECUTE FUNCTION stop_medication_orders_on_discharge();
+
+CREATE OR REPLACE FUNCTION can_prescribe(p_user_id INTEGER)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM users u
+        JOIN role_permissions rp ON rp.role = u.role AND rp.permission = 'medications.prescribe'
+        WHERE u.id = p_user_id AND u.status = 'active' AND u.role = 'doctor'
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION prescribe_medication(
+    p_patient_id INTEGER,
+    p_admission_id INTEGER,
+    p_prescriber_id INTEGER,
+    p_drug_name TEXT,
+    p_dose TEXT,
+    p_route TEXT,
+    p_frequency TEXT,
+    p_is_prn BOOLEAN,
+    p_prn_indication TEXT,
+    p_instructions TEXT,
+    p_start_at TIMESTAMP WITH TIME ZONE,
+    p_stop_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_admission admissions%ROWTYPE;
+    v_order medication_orders%ROWTYPE;
+BEGIN
+    IF NOT can_prescribe(p_prescriber_id) THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'forbidden');
+    END IF;
+
+    SELECT * INTO v_admission FROM admissions WHERE id = p_admission_id;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'admission_not_found');
+    END IF;
+    -- The order must land on the patient the prescriber is looking at
+    IF v_admission.patient_id <> p_patient_id THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'admission_patient_mismatch');
+    END IF;
+    IF v_admission.status <> 'active' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'admission_not_active');
+    END IF;
+    IF COALESCE(trim(p_drug_name), '') = '' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'drug_required');
+    END IF;
+    IF COALESCE(trim(p_dose), '') = '' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'dose_required');
+    END IF;
+    IF p_route IS NULL OR p_route NOT IN ('oral', 'iv', 'im', 'sc', 'sublingual', 'inhaled', 'nebulised', 'topical', 'rectal', 'ng_tube') THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'invalid_route');
+    END IF;
+    IF p_frequency IS NULL OR p_frequency NOT IN ('once', 'once_daily', 'twice_daily', 'three_times_daily', 'four_times_daily',
+                                                  'every_4_hours', 'every_6_hours', 'every_8_hours', 'every_12_hours', 'at_night') THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'invalid_frequency');
+    END IF;
+    IF COALESCE(p_is_prn, false) AND COALESCE(trim(p_prn_indication), '') = '' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'prn_indication_required');
+    END IF;
+    IF p_start_at IS NULL THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'start_required');
+    END IF;
+    IF p_stop_at IS NOT NULL AND p_stop_at <= p_start_at THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'stop_before_start');
+    END IF;
+
+    INSERT INTO medication_orders (
+        patient_id,
+        admission_id,
+        drug_name,
+        dose,
+        route,
+        frequency,
+        is_prn,
+        prn_indication,
+        instructions,
+        start_at,
+        stop_at,
+        prescribed_by
+    )
+    VALUES (
+        v_admission.patient_id,
+        v_admission.id,
+        trim(p_drug_name),
+        trim(p_dose),
+        p_route,
+        p_frequency,
+        COALESCE(p_is_prn, false),
+        CASE WHEN COALESCE(p_is_prn, false) THEN trim(p_prn_indication) END,
+        NULLIF(trim(p_instructions), ''),
+        p_start_at,
+        p_stop_at,
+        p_prescriber_id
+    )
+    RETURNING * INTO v_order;
+
+    RETURN jsonb_build_object('status', 'prescribed', 'order', to_jsonb(v_order));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION discontinue_medication_order(
+    p_order_id INTEGER,
+    p_doctor_id INTEGER,
+    p_reason TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_before medication_orders%ROWTYPE;
+    v_order medication_orders%ROWTYPE;
+BEGIN
+    IF NOT can_prescribe(p_doctor_id) THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'forbidden');
+    END IF;
+
+    SELECT * INTO v_before FROM medication_orders WHERE id = p_order_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'order_not_found');
+    END IF;
+    IF v_before.discontinued_at IS NOT NULL
+        OR (v_before.stop_at IS NOT NULL AND v_before.stop_at <= CURRENT_TIMESTAMP) THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'order_not_active');
+    END IF;
+    IF COALESCE(trim(p_reason), '') = '' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'reason_required');
+    END IF;
+
+    UPDATE medication_orders
+    SET discontinued_at = CURRENT_TIMESTAMP,
+        discontinued_by = p_doctor_id,
+        discontinuation_reason = trim(p_reason),
+        -- stop_at must stay after start_at for orders that had not started yet
+        stop_at = GREATEST(CURRENT_TIMESTAMP, start_at + INTERVAL '1 minute')
+    WHERE id = p_order_id
+    RETURNING * INTO v_order;
+
+    RETURN jsonb_build_object(
+        'status', 'discontinued',
+        'before', to_jsonb(v_before),
+        'order', to_jsonb(v_order)
+    );
+END;
+$$;
+
+-- Medication orders move to the surviving chart when duplicate patients are merged
+INSERT INTO patient_merge_tables (table_name)
+VALUES ('medication_orders')
+ON CONFLICT (table_name) DO NOTHING;
+
+-- Grant necessary permissions
+GRANT SELECT ON medication_orders TO authenticated;
+GRANT EXECUTE ON FUNCTION can_prescribe(INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION prescribe_medication(INTEGER, INTEGER, INTEGER, TEXT, TEXT, TEXT, TEXT, BOOLEAN, TEXT, TEXT, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) TO authenticated;
+GRANT EXECUTE ON FUNCTION discontinue_medication_order(INTEGER, INTEGER, TEXT) TO authenticated;
@@ -0,0 +1,66 @@
+-- NEWS2 early warning scores and clinical alerts. The score is calculated by
+-- the client when a set is recorded and stored alongside it; sets that cross
+-- an escalation threshold raise an alert to the admitting doctor.
+
+ALTER TABLE vital_signs
+ADD COLUMN IF NOT EXISTS news2_score INTEGER CHECK (news2_score BETWEEN 0 AND 20);
+
+CREATE TABLE IF NOT EXISTS clinical_alerts (
+    id SERIAL PRIMARY KEY,
+    recipient_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    patient_id INTEGER NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+    admission_id INTEGER REFERENCES admissions(id) ON DELETE SET NULL,
+    vital_signs_id INTEGER REFERENCES vital_signs(id) ON DELETE CASCADE,
+    alert_type VARCHAR(30) NOT NULL CHECK (alert_type IN ('news2')),
+    severity VARCHAR(20) NOT NULL CHECK (severity IN ('low_medium', 'medium', 'high')),
+    message TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    acknowledged_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_clinical_alerts_recipient_open
+    ON clinical_alerts(recipient_id, created_at DESC)
+    WHERE acknowledged_at IS NULL;
+
+-- Most recent observation set for every active admission, for ward lists
+CREATE OR REPLACE VIEW latest_admission_vitals AS
+SELECT DISTINCT ON (v.admission_id)
+    v.id,
+    v.patient_id,
+    v.admission_id,
+    p.mrn,
+    p.name AS patient_name,
+    a.department,
+    a.admitting_doctor_id,
+    v.recorded_at,
+    v.recorded_by AS recorded_by_id,
+    u.name AS recorded_by_name,
+    v.heart_rate,
+    v.systolic_bp,
+    v.diastolic_bp,
+    v.respiratory_rate,
+    v.temperature,
+    v.spo2,
+    v.o2_device,
+    v.o2_flow_rate,
+    v.consciousness,
+    v.news2_score
+FROM
+    vital_signs v
+    JOIN admissions a ON v.admission_id = a.id
+    JOIN patients p ON v.patient_id = p.id
+    LEFT JOIN users u ON v.recorded_by = u.id
+WHERE
+    a.status = 'active'
+ORDER BY
+    v.admission_id, v.recorded_at DESC;
+
+-- Alerts move with their observations when duplicate patients are merged
+INSERT INTO patient_merge_tables (table_name)
+VALUES ('clinical_alerts')
+ON CONFLICT (table_name) DO NOTHING;
+
+-- Grant necessary permissions
+GRANT SELECT, INSERT, UPDATE ON clinical_alerts TO authenticated;
+GRANT USAGE ON SEQUENCE clinical_alerts_id_seq TO authenticated;
+GRANT SELECT ON latest_admission_vitals TO authenticated;
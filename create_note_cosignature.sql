@@ -0,0 +1,256 @@
+-- Co-signature of notes written by residents. A signed note can be routed to
+-- a supervising doctor, who either co-signs it or returns it to the author
+-- with comments; a returned note goes back to draft so it can be corrected.
+
+ALTER TABLE medical_notes
+    ADD COLUMN IF NOT EXISTS cosigner_id INTEGER REFERENCES users(id),
+    ADD COLUMN IF NOT EXISTS cosign_status VARCHAR(10) CHECK (cosign_status IN ('pending', 'cosigned', 'returned')),
+    ADD COLUMN IF NOT EXISTS cosigned_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS cosign_comment TEXT;
+
+ALTER TABLE medical_notes DROP CONSTRAINT IF EXISTS medical_notes_cosign_check;
+ALTER TABLE medical_notes ADD CONSTRAINT medical_notes_cosign_check
+    CHECK (
+        (cosign_status IS NULL OR cosigner_id IS NOT NULL)
+        AND ((cosign_status = 'cosigned') = (cosigned_at IS NOT NULL))
+    );
+
+CREATE INDEX IF NOT EXISTS idx_medical_notes_cosign_queue
+    ON medical_notes(cosigner_id)
+    WHERE cosign_status = 'pending';
+
+-- Co-signing is reserved for doctors; the functions below also check the role
+INSERT INTO role_permissions (role, permission)
+VALUES
+    ('doctor', 'notes.cosign')
+ON CONFLICT (role, permission) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION can_cosign_notes(p_user_id INTEGER)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM users u
+        JOIN role_permissions rp ON rp.role = u.role AND rp.permission = 'notes.cosign'
+        WHERE u.id = p_user_id AND u.status = 'active' AND u.role = 'doctor'
+    );
+$$;
+
+-- Notes inserted as signed (including discharge summaries written by
+-- discharge_admission) are signed by their author and go straight to their
+-- co-signer when one is named; signed notes cannot change, except that a
+-- pending co-signature may be given or the note returned to draft
+CREATE OR REPLACE FUNCTION guard_medical_note()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NEW.cosigner_id IS NOT NULL
+        AND NEW.cosigner_id IS DISTINCT FROM (CASE WHEN TG_OP = 'UPDATE' THEN OLD.cosigner_id END)
+        AND (NEW.cosigner_id = NEW.doctor_id OR NOT can_cosign_notes(NEW.cosigner_id)) THEN
+        RAISE EXCEPTION 'The co-signer must be another doctor who can co-sign notes';
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.status = 'signed' AND NEW.signed_at IS NULL THEN
+            NEW.signed_at := CURRENT_TIMESTAMP;
+            NEW.signed_by := NEW.doctor_id;
+        END IF;
+        NEW.cosign_status := CASE WHEN NEW.status = 'signed' AND NEW.cosigner_id IS NOT NULL THEN 'pending' END;
+        NEW.cosigned_at := NULL;
+        NEW.cosign_comment := NULL;
+        RETURN NEW;
+    END IF;
+
+    IF OLD.status = 'signed' AND OLD.cosign_status = 'pending' AND NEW.cosign_status = 'returned'
+        AND NEW.status = 'draft'
+        AND NEW.note_type IS NOT DISTINCT FROM OLD.note_type
+        AND NEW.content IS NOT DISTINCT FROM OLD.content
+        AND NEW.sections IS NOT DISTINCT FROM OLD.sections
+        AND NEW.doctor_id IS NOT DISTINCT FROM OLD.doctor_id
+        AND NEW.cosigner_id IS NOT DISTINCT FROM OLD.cosigner_id THEN
+        RETURN NEW;
+    END IF;
+
+    -- patient_id may still change when duplicate patients are merged
+    IF OLD.status = 'signed' AND (
+        NEW.status IS DISTINCT FROM OLD.status
+        OR NEW.note_type IS DISTINCT FROM OLD.note_type
+        OR NEW.content IS DISTINCT FROM OLD.content
+        OR NEW.sections IS DISTINCT FROM OLD.sections
+        OR NEW.doctor_id IS DISTINCT FROM OLD.doctor_id
+        OR NEW.signed_at IS DISTINCT FROM OLD.signed_at
+        OR NEW.signed_by IS DISTINCT FROM OLD.signed_by
+        OR NEW.cosigner_id IS DISTINCT FROM OLD.cosigner_id
+        OR (NEW.cosign_status IS DISTINCT FROM OLD.cosign_status
+            AND NOT (OLD.cosign_status = 'pending' AND NEW.cosign_status = 'cosigned'))
+        OR (OLD.cosign_status = 'cosigned' AND (
+            NEW.cosigned_at IS DISTINCT FROM OLD.cosigned_at
+            OR NEW.cosign_comment IS DISTINCT FROM OLD.cosign_comment))
+    ) THEN
+        RAISE EXCEPTION 'Signed notes cannot be changed; add an addendum instead';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+-- Signing takes an optional co-signer, so the old signature is replaced
+DROP FUNCTION IF EXISTS sign_medical_note(INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION sign_medical_note(
+    p_note_id INTEGER,
+    p_user_id INTEGER,
+    p_cosigner_id INTEGER DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_before medical_notes%ROWTYPE;
+    v_note medical_notes%ROWTYPE;
+BEGIN
+    IF NOT can_write_notes(p_user_id) THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'forbidden');
+    END IF;
+
+    SELECT * INTO v_before FROM medical_notes WHERE id = p_note_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'note_not_found');
+    END IF;
+    IF v_before.status = 'signed' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'note_signed');
+    END IF;
+    IF v_before.doctor_id <> p_user_id THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'not_author');
+    END IF;
+    IF p_cosigner_id IS NOT NULL AND (p_cosigner_id = p_user_id OR NOT can_cosign_notes(p_cosigner_id)) THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'invalid_cosigner');
+    END IF;
+
+    -- Comments from a returned review are cleared once the note is resubmitted
+    UPDATE medical_notes
+    SET status = 'signed',
+        signed_at = CURRENT_TIMESTAMP,
+        signed_by = p_user_id,
+        cosigner_id = p_cosigner_id,
+        cosign_status = CASE WHEN p_cosigner_id IS NOT NULL THEN 'pending' END,
+        cosign_comment = NULL
+    WHERE id = p_note_id
+    RETURNING * INTO v_note;
+
+    RETURN jsonb_build_object(
+        'status', 'signed',
+        'before', to_jsonb(v_before),
+        'note', to_jsonb(v_note)
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cosign_medical_note(
+    p_note_id INTEGER,
+    p_user_id INTEGER,
+    p_comment TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_before medical_notes%ROWTYPE;
+    v_note medical_notes%ROWTYPE;
+BEGIN
+    IF NOT can_cosign_notes(p_user_id) THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'forbidden');
+    END IF;
+
+    SELECT * INTO v_before FROM medical_notes WHERE id = p_note_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'note_not_found');
+    END IF;
+    IF v_before.cosign_status IS DISTINCT FROM 'pending' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'not_pending');
+    END IF;
+    IF v_before.cosigner_id <> p_user_id THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'not_cosigner');
+    END IF;
+
+    UPDATE medical_notes
+    SET cosign_status = 'cosigned',
+        cosigned_at = CURRENT_TIMESTAMP,
+        cosign_comment = NULLIF(trim(p_comment), '')
+    WHERE id = p_note_id
+    RETURNING * INTO v_note;
+
+    RETURN jsonb_build_object(
+        'status', 'cosigned',
+        'before', to_jsonb(v_before),
+        'note', to_jsonb(v_note)
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION return_medical_note(
+    p_note_id INTEGER,
+    p_user_id INTEGER,
+    p_comment TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_before medical_notes%ROWTYPE;
+    v_note medical_notes%ROWTYPE;
+BEGIN
+    IF NOT can_cosign_notes(p_user_id) THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'forbidden');
+    END IF;
+
+    SELECT * INTO v_before FROM medical_notes WHERE id = p_note_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'note_not_found');
+    END IF;
+    IF v_before.cosign_status IS DISTINCT FROM 'pending' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'not_pending');
+    END IF;
+    IF v_before.cosigner_id <> p_user_id THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'not_cosigner');
+    END IF;
+    IF COALESCE(trim(p_comment), '') = '' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'comment_required');
+    END IF;
+
+    -- The author's signature is withdrawn so the note can be corrected
+    UPDATE medical_notes
+    SET status = 'draft',
+        signed_at = NULL,
+        signed_by = NULL,
+        cosign_status = 'returned',
+        cosign_comment = trim(p_comment)
+    WHERE id = p_note_id
+    RETURNING * INTO v_note;
+
+    RETURN jsonb_build_object(
+        'status', 'returned',
+        'before', to_jsonb(v_before),
+        'note', to_jsonb(v_note)
+    );
+END;
+$$;
+
+-- Grant necessary permissions
+GRANT EXECUTE ON FUNCTION can_cosign_notes(INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION sign_medical_note(INTEGER, INTEGER, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION cosign_medical_note(INTEGER, INTEGER, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION return_medical_note(INTEGER, INTEGER, TEXT) TO authenticated;
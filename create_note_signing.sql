@@ -0,0 +1,273 @@
+-- Draft and signed medical notes. Drafts can be edited by their author until
+-- they are signed; signed notes are final and can only be amended with an
+-- addendum. Every saved version of a note is kept for the history view.
+
+ALTER TABLE medical_notes
+    ADD COLUMN IF NOT EXISTS status VARCHAR(10) NOT NULL DEFAULT 'signed' CHECK (status IN ('draft', 'signed')),
+    ADD COLUMN IF NOT EXISTS signed_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS signed_by INTEGER REFERENCES users(id),
+    ADD COLUMN IF NOT EXISTS updated_by INTEGER REFERENCES users(id);
+
+-- Notes written before drafts existed were final when saved
+UPDATE medical_notes
+SET signed_at = created_at,
+    signed_by = doctor_id
+WHERE status = 'signed' AND signed_at IS NULL;
+
+ALTER TABLE medical_notes DROP CONSTRAINT IF EXISTS medical_notes_signature_check;
+ALTER TABLE medical_notes ADD CONSTRAINT medical_notes_signature_check
+    CHECK ((status = 'signed') = (signed_at IS NOT NULL AND signed_by IS NOT NULL));
+
+CREATE TABLE IF NOT EXISTS medical_note_versions (
+    id SERIAL PRIMARY KEY,
+    note_id INTEGER NOT NULL REFERENCES medical_notes(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    note_type note_type NOT NULL,
+    content TEXT NOT NULL,
+    sections JSONB,
+    saved_by INTEGER NOT NULL REFERENCES users(id),
+    saved_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (note_id, version)
+);
+
+CREATE TABLE IF NOT EXISTS medical_note_addenda (
+    id SERIAL PRIMARY KEY,
+    note_id INTEGER NOT NULL REFERENCES medical_notes(id) ON DELETE CASCADE,
+    content TEXT NOT NULL CHECK (trim(content) <> ''),
+    author_id INTEGER NOT NULL REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_medical_note_addenda_note ON medical_note_addenda(note_id);
+
+-- Existing notes start their history at version 1
+INSERT INTO medical_note_versions (note_id, version, note_type, content, sections, saved_by, saved_at)
+SELECT n.id, 1, n.note_type, n.content, n.sections, n.doctor_id, n.created_at
+FROM medical_notes n
+WHERE NOT EXISTS (SELECT 1 FROM medical_note_versions v WHERE v.note_id = n.id);
+
+-- Notes inserted as signed (including discharge summaries written by
+-- discharge_admission) are signed by their author; signed notes cannot change
+CREATE OR REPLACE FUNCTION guard_medical_note()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.status = 'signed' AND NEW.signed_at IS NULL THEN
+            NEW.signed_at := CURRENT_TIMESTAMP;
+            NEW.signed_by := NEW.doctor_id;
+        END IF;
+        RETURN NEW;
+    END IF;
+
+    -- patient_id may still change when duplicate patients are merged
+    IF OLD.status = 'signed' AND (
+        NEW.status IS DISTINCT FROM OLD.status
+        OR NEW.note_type IS DISTINCT FROM OLD.note_type
+        OR NEW.content IS DISTINCT FROM OLD.content
+        OR NEW.sections IS DISTINCT FROM OLD.sections
+        OR NEW.doctor_id IS DISTINCT FROM OLD.doctor_id
+        OR NEW.signed_at IS DISTINCT FROM OLD.signed_at
+        OR NEW.signed_by IS DISTINCT FROM OLD.signed_by
+    ) THEN
+        RAISE EXCEPTION 'Signed notes cannot be changed; add an addendum instead';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_medical_note ON medical_notes;
+CREATE TRIGGER guard_medical_note
+    BEFORE INSERT OR UPDATE ON medical_notes
+    FOR EACH ROW
+    EXECUTE FUNCTION guard_medical_note();
+
+CREATE OR REPLACE FUNCTION record_medical_note_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'UPDATE'
+        AND NEW.note_type IS NOT DISTINCT FROM OLD.note_type
+        AND NEW.content IS NOT DISTINCT FROM OLD.content
+        AND NEW.sections IS NOT DISTINCT FROM OLD.sections THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO medical_note_versions (note_id, version, note_type, content, sections, saved_by)
+    SELECT NEW.id, COALESCE(MAX(version), 0) + 1, NEW.note_type, NEW.content, NEW.sections, COALESCE(NEW.updated_by, NEW.doctor_id)
+    FROM medical_note_versions
+    WHERE note_id = NEW.id;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_medical_note_version ON medical_notes;
+CREATE TRIGGER record_medical_note_version
+    AFTER INSERT OR UPDATE ON medical_notes
+    FOR EACH ROW
+    EXECUTE FUNCTION record_medical_note_version();
+
+CREATE OR REPLACE FUNCTION can_write_notes(p_user_id INTEGER)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM users u
+        JOIN role_permissions rp ON rp.role = u.role AND rp.permission = 'notes.create'
+        WHERE u.id = p_user_id AND u.status = 'active'
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION update_note_draft(
+    p_note_id INTEGER,
+    p_user_id INTEGER,
+    p_note_type note_type,
+    p_content TEXT,
+    p_sections JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_before medical_notes%ROWTYPE;
+    v_note medical_notes%ROWTYPE;
+BEGIN
+    IF NOT can_write_notes(p_user_id) THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'forbidden');
+    END IF;
+
+    SELECT * INTO v_before FROM medical_notes WHERE id = p_note_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'note_not_found');
+    END IF;
+    IF v_before.status = 'signed' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'note_signed');
+    END IF;
+    IF v_before.doctor_id <> p_user_id THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'not_author');
+    END IF;
+    IF COALESCE(trim(p_content), '') = '' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'content_required');
+    END IF;
+
+    UPDATE medical_notes
+    SET note_type = p_note_type,
+        content = p_content,
+        sections = p_sections,
+        updated_by = p_user_id
+    WHERE id = p_note_id
+    RETURNING * INTO v_note;
+
+    RETURN jsonb_build_object(
+        'status', 'updated',
+        'before', to_jsonb(v_before),
+        'note', to_jsonb(v_note)
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION sign_medical_note(
+    p_note_id INTEGER,
+    p_user_id INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_before medical_notes%ROWTYPE;
+    v_note medical_notes%ROWTYPE;
+BEGIN
+    IF NOT can_write_notes(p_user_id) THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'forbidden');
+    END IF;
+
+    SELECT * INTO v_before FROM medical_notes WHERE id = p_note_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'note_not_found');
+    END IF;
+    IF v_before.status = 'signed' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'note_signed');
+    END IF;
+    IF v_before.doctor_id <> p_user_id THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'not_author');
+    END IF;
+
+    UPDATE medical_notes
+    SET status = 'signed',
+        signed_at = CURRENT_TIMESTAMP,
+        signed_by = p_user_id
+    WHERE id = p_note_id
+    RETURNING * INTO v_note;
+
+    RETURN jsonb_build_object(
+        'status', 'signed',
+        'before', to_jsonb(v_before),
+        'note', to_jsonb(v_note)
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION add_note_addendum(
+    p_note_id INTEGER,
+    p_user_id INTEGER,
+    p_content TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_note medical_notes%ROWTYPE;
+    v_addendum medical_note_addenda%ROWTYPE;
+BEGIN
+    IF NOT can_write_notes(p_user_id) THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'forbidden');
+    END IF;
+
+    SELECT * INTO v_note FROM medical_notes WHERE id = p_note_id;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'note_not_found');
+    END IF;
+    -- A draft is still open for editing, so it takes changes directly
+    IF v_note.status <> 'signed' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'note_not_signed');
+    END IF;
+    IF COALESCE(trim(p_content), '') = '' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'content_required');
+    END IF;
+
+    INSERT INTO medical_note_addenda (note_id, content, author_id)
+    VALUES (p_note_id, trim(p_content), p_user_id)
+    RETURNING * INTO v_addendum;
+
+    RETURN jsonb_build_object(
+        'status', 'added',
+        'addendum', to_jsonb(v_addendum)
+    );
+END;
+$$;
+
+-- Grant necessary permissions
+GRANT SELECT ON medical_note_versions TO authenticated;
+GRANT SELECT ON medical_note_addenda TO authenticated;
+GRANT EXECUTE ON FUNCTION can_write_notes(INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION update_note_draft(INTEGER, INTEGER, note_type, TEXT, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION sign_medical_note(INTEGER, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION add_note_addendum(INTEGER, INTEGER, TEXT) TO authenticated;
@@ -0,0 +1,57 @@
+-- Structured note templates, one per note type, managed by administrators.
+-- Notes keep the sections they were written with so the same structure is
+-- used on screen, in print and in PDF exports, whatever the template says later.
+
+CREATE TABLE IF NOT EXISTS note_templates (
+    note_type note_type PRIMARY KEY,
+    sections JSONB NOT NULL CHECK (jsonb_typeof(sections) = 'array' AND jsonb_array_length(sections) > 0),
+    updated_by INTEGER REFERENCES users(id),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE medical_notes
+    ADD COLUMN IF NOT EXISTS sections JSONB CHECK (sections IS NULL OR jsonb_typeof(sections) = 'array');
+
+-- Same defaults as src/config/noteTemplates.ts
+INSERT INTO note_templates (note_type, sections)
+VALUES
+    ('Progress Note', '[
+        {"key": "subjective", "label": "Subjective", "required": true, "placeholder": "Symptoms, concerns and events since the last review"},
+        {"key": "objective", "label": "Objective", "required": true, "placeholder": "Examination, observations and results"},
+        {"key": "assessment", "label": "Assessment", "required": true, "placeholder": "Working diagnosis and progress"},
+        {"key": "plan", "label": "Plan", "required": true, "placeholder": "Investigations, treatment changes and escalation"}
+    ]'),
+    ('Follow-up Note', '[
+        {"key": "interval_history", "label": "Interval History", "required": true, "placeholder": null},
+        {"key": "examination", "label": "Examination", "required": false, "placeholder": null},
+        {"key": "plan", "label": "Plan", "required": true, "placeholder": null}
+    ]'),
+    ('Consultation Note', '[
+        {"key": "question", "label": "Consult Question", "required": true, "placeholder": "What the referring team asked"},
+        {"key": "history", "label": "History and Findings", "required": true, "placeholder": null},
+        {"key": "impression", "label": "Impression", "required": true, "placeholder": null},
+        {"key": "recommendations", "label": "Recommendations", "required": true, "placeholder": "Numbered, actionable recommendations"},
+        {"key": "follow_up", "label": "Follow-up", "required": false, "placeholder": "Whether and when the consulting team will review again"}
+    ]'),
+    ('Discharge Note', '[
+        {"key": "hospital_course", "label": "Hospital Course", "required": true, "placeholder": null},
+        {"key": "condition", "label": "Condition at Discharge", "required": true, "placeholder": null},
+        {"key": "instructions", "label": "Instructions", "required": true, "placeholder": "Medications, activity, warning signs and follow-up"}
+    ]'),
+    ('Discharge Summary', '[
+        {"key": "presenting_complaint", "label": "Presenting Complaint", "required": true, "placeholder": null},
+        {"key": "hospital_course", "label": "Hospital Course", "required": true, "placeholder": null},
+        {"key": "procedures", "label": "Procedures", "required": false, "placeholder": null},
+        {"key": "discharge_medications", "label": "Discharge Medications", "required": true, "placeholder": null},
+        {"key": "follow_up", "label": "Follow-up", "required": true, "placeholder": null}
+    ]')
+ON CONFLICT (note_type) DO NOTHING;
+
+-- Templates are a hospital-wide setting
+INSERT INTO role_permissions (role, permission)
+VALUES
+    ('administrator', 'templates.manage')
+ON CONFLICT (role, permission) DO NOTHING;
+
+-- Grant necessary permissions
+GRANT SELECT, INSERT, UPDATE ON note_templates TO authenticated;
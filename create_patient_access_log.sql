@@ -0,0 +1,123 @@
+-- Create append-only patient_access_log table recording who viewed, printed or shared a chart.
+-- Like audit_log, the ids carry no foreign keys so deleting or merging records
+-- never rewrites history.
+CREATE TABLE IF NOT EXISTS patient_access_log (
+    id BIGSERIAL PRIMARY KEY,
+    patient_id INTEGER,
+    patient_mrn VARCHAR(50) NOT NULL,
+    patient_name VARCHAR(255) NOT NULL,
+    user_id INTEGER,
+    user_name VARCHAR(255) NOT NULL,
+    user_role VARCHAR(20),
+    user_department VARCHAR(255),
+    access_type VARCHAR(20) CHECK (access_type IN ('view', 'print', 'share', 'copy')) NOT NULL,
+    has_care_relationship BOOLEAN NOT NULL,
+    accessed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+-- Create indexes for per-patient and per-user access reports
+CREATE INDEX IF NOT EXISTS idx_patient_access_log_patient ON patient_access_log(patient_id, accessed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_patient_access_log_user ON patient_access_log(user_id, accessed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_patient_access_log_mrn ON patient_access_log(patient_mrn);
+CREATE INDEX IF NOT EXISTS idx_patient_access_log_flagged ON patient_access_log(accessed_at DESC)
+    WHERE has_care_relationship = false;
+
+CREATE OR REPLACE FUNCTION prevent_patient_access_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'patient_access_log is append-only';
+END;
+$$ LANGUAGE 'plpgsql';
+
+CREATE TRIGGER patient_access_log_append_only
+    BEFORE UPDATE OR DELETE ON patient_access_log
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_patient_access_log_changes();
+
+-- A user has a care relationship with a patient when they admitted, discharged,
+-- consulted on or wrote notes for the patient, or work in a department currently
+-- caring for them (active admission, or active consultation either side)
+CREATE OR REPLACE FUNCTION has_care_relationship(p_patient_id INTEGER, p_user_id INTEGER)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM admissions a
+        WHERE a.patient_id = p_patient_id
+          AND (a.admitting_doctor_id = p_user_id OR a.discharge_doctor_id = p_user_id)
+    ) OR EXISTS (
+        SELECT 1 FROM consultations c
+        WHERE c.patient_id = p_patient_id
+          AND (c.doctor_id = p_user_id OR c.completed_by = p_user_id)
+    ) OR EXISTS (
+        SELECT 1 FROM medical_notes n
+        WHERE n.patient_id = p_patient_id AND n.doctor_id = p_user_id
+    ) OR EXISTS (
+        SELECT 1 FROM long_stay_notes l
+        WHERE l.patient_id = p_patient_id AND l.created_by = p_user_id
+    ) OR EXISTS (
+        SELECT 1
+        FROM users u
+        WHERE u.id = p_user_id
+          AND (
+            EXISTS (
+                SELECT 1 FROM admissions a
+                WHERE a.patient_id = p_patient_id
+                  AND a.status = 'active'
+                  AND a.department = u.department
+            ) OR EXISTS (
+                SELECT 1 FROM consultations c
+                WHERE c.patient_id = p_patient_id
+                  AND c.status = 'active'
+                  AND (c.consultation_specialty = u.department OR c.requesting_department = u.department)
+            )
+          )
+    );
+$$;
+
+-- Record an access event, snapshotting patient and user details so the entry
+-- survives later renames or deletions
+CREATE OR REPLACE FUNCTION log_patient_access(p_patient_id INTEGER, p_user_id INTEGER, p_access_type TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_patient patients%ROWTYPE;
+    v_user users%ROWTYPE;
+    v_has_relationship BOOLEAN;
+BEGIN
+    SELECT * INTO v_patient FROM patients WHERE id = p_patient_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Patient % not found', p_patient_id;
+    END IF;
+
+    SELECT * INTO v_user FROM users WHERE id = p_user_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User % not found', p_user_id;
+    END IF;
+
+    v_has_relationship := has_care_relationship(p_patient_id, p_user_id);
+
+    INSERT INTO patient_access_log (
+        patient_id, patient_mrn, patient_name,
+        user_id, user_name, user_role, user_department,
+        access_type, has_care_relationship
+    ) VALUES (
+        v_patient.id, v_patient.mrn, v_patient.name,
+        v_user.id, v_user.name, v_user.role, v_user.department,
+        p_access_type, v_has_relationship
+    );
+
+    RETURN v_has_relationship;
+END;
+$$;
+
+-- Grant necessary permissions (entries are only written through log_patient_access)
+GRANT SELECT ON patient_access_log TO authenticated;
+GRANT EXECUTE ON FUNCTION has_care_relationship(INTEGER, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION log_patient_access(INTEGER, INTEGER, TEXT) TO authenticated;
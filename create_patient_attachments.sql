@@ -0,0 +1,83 @@
+-- Documents and images attached to a patient, optionally to one admission.
+-- Files live in a private storage bucket and are only ever opened through
+-- short-lived signed URLs. Attachments are removed with a reason rather than
+-- deleted so the record of what was on file stays intact.
+
+CREATE TABLE IF NOT EXISTS patient_attachments (
+    id SERIAL PRIMARY KEY,
+    patient_id INTEGER NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+    admission_id INTEGER REFERENCES admissions(id) ON DELETE SET NULL,
+    category VARCHAR(30) NOT NULL
+        CHECK (category IN ('outside_report', 'ecg', 'imaging_report', 'lab_report', 'consent', 'clinical_photo', 'other')),
+    description TEXT NOT NULL,
+    file_name VARCHAR(255) NOT NULL,
+    storage_path TEXT NOT NULL UNIQUE,
+    mime_type VARCHAR(100) NOT NULL,
+    size_bytes INTEGER NOT NULL CHECK (size_bytes > 0),
+    uploaded_by INTEGER NOT NULL REFERENCES users(id),
+    uploaded_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    removed_at TIMESTAMP WITH TIME ZONE,
+    removed_by INTEGER REFERENCES users(id),
+    removal_reason TEXT,
+    CHECK ((removed_at IS NULL) = (removal_reason IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_patient_attachments_patient ON patient_attachments(patient_id, uploaded_at DESC) WHERE removed_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_patient_attachments_admission ON patient_attachments(admission_id);
+
+-- Private bucket: no public URLs, 20 MB per file, documents and images only
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+    'patient-attachments',
+    'patient-attachments',
+    false,
+    20971520,
+    ARRAY['application/pdf', 'image/jpeg', 'image/png', 'image/webp']
+)
+ON CONFLICT (id) DO UPDATE SET
+    public = false,
+    file_size_limit = EXCLUDED.file_size_limit,
+    allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+DROP POLICY IF EXISTS "Read patient attachments" ON storage.objects;
+CREATE POLICY "Read patient attachments" ON storage.objects
+    FOR SELECT TO authenticated
+    USING (bucket_id = 'patient-attachments');
+
+DROP POLICY IF EXISTS "Upload patient attachments" ON storage.objects;
+CREATE POLICY "Upload patient attachments" ON storage.objects
+    FOR INSERT TO authenticated
+    WITH CHECK (bucket_id = 'patient-attachments');
+
+-- Only lets an upload be rolled back when its record could not be saved: an
+-- object can be deleted only while no attachment record points to it. (The app
+-- does not sign in through Supabase Auth, so the object owner cannot be used.)
+DROP POLICY IF EXISTS "Remove own patient attachment uploads" ON storage.objects;
+DROP POLICY IF EXISTS "Remove unrecorded patient attachment uploads" ON storage.objects;
+CREATE POLICY "Remove unrecorded patient attachment uploads" ON storage.objects
+    FOR DELETE TO authenticated
+    USING (
+        bucket_id = 'patient-attachments'
+        AND NOT EXISTS (
+            SELECT 1 FROM public.patient_attachments pa
+            WHERE pa.storage_path = storage.objects.name
+        )
+    );
+
+-- Doctors and nurses file outside reports and ECGs
+INSERT INTO role_permissions (role, permission)
+VALUES
+    ('administrator', 'attachments.manage'),
+    ('doctor', 'attachments.manage'),
+    ('nurse', 'attachments.manage')
+ON CONFLICT (role, permission) DO NOTHING;
+
+-- Attachments move to the surviving chart when duplicate patients are merged;
+-- their storage objects keep their paths
+INSERT INTO patient_merge_tables (table_name)
+VALUES ('patient_attachments')
+ON CONFLICT (table_name) DO NOTHING;
+
+-- Grant necessary permissions
+GRANT SELECT, INSERT, UPDATE ON patient_attachments TO authenticated;
+GRANT USAGE ON SEQUENCE patient_attachments_id_seq TO authenticated;
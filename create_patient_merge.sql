@@ -0,0 +1,182 @@
+-- Trigram similarity for fuzzy patient name matching
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS idx_patients_name_trgm ON patients USING gin (lower(name) gin_trgm_ops);
+
+-- Allow administrators to merge duplicate charts
+INSERT INTO role_permissions (role, permission)
+VALUES ('administrator', 'patients.merge')
+ON CONFLICT (role, permission) DO NOTHING;
+
+-- Tables whose rows belong to a patient through a patient_id column. Features
+-- that add such a table register it here so merges move its rows to the
+-- surviving chart instead of letting the delete of the duplicate cascade them away.
+CREATE TABLE IF NOT EXISTS patient_merge_tables (
+    table_name TEXT PRIMARY KEY
+);
+
+REVOKE ALL ON patient_merge_tables FROM anon, authenticated;
+
+-- List likely duplicate pairs: records sharing an MRN, or similar names with the
+-- same date of birth (or a very similar name in the same birth year, since
+-- consultation-created records only carry an estimated date of birth)
+CREATE OR REPLACE FUNCTION find_duplicate_patients()
+RETURNS TABLE (
+    patient_id INTEGER,
+    duplicate_id INTEGER,
+    reason TEXT,
+    name_similarity REAL
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT a.id, b.id, 'same_mrn', similarity(lower(a.name), lower(b.name))
+    FROM patients a
+    JOIN patients b ON b.mrn = a.mrn AND b.id > a.id
+
+    UNION ALL
+
+    SELECT a.id, b.id, 'similar_name_dob', similarity(lower(a.name), lower(b.name))
+    FROM patients a
+    JOIN patients b ON b.id > a.id AND b.mrn <> a.mrn
+    WHERE lower(a.name) % lower(b.name)
+      AND (
+        (a.date_of_birth = b.date_of_birth AND similarity(lower(a.name), lower(b.name)) >= 0.6)
+        OR (
+            date_part('year', a.date_of_birth) = date_part('year', b.date_of_birth)
+            AND similarity(lower(a.name), lower(b.name)) >= 0.8
+        )
+      )
+    ORDER BY 1, 2;
+$$;
+
+-- Merge p_duplicate_id into p_survivor_id in one transaction: re-point every
+-- clinical record (including those in patient_merge_tables), renumber visits chronologically, delete the duplicate and
+-- write the audit entry
+CREATE OR REPLACE FUNCTION merge_patients(p_survivor_id INTEGER, p_duplicate_id INTEGER, p_admin_id INTEGER)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_admin users%ROWTYPE;
+    v_survivor patients%ROWTYPE;
+    v_duplicate patients%ROWTYPE;
+    v_admissions INTEGER;
+    v_medical_notes INTEGER;
+    v_long_stay_notes INTEGER;
+    v_consultations INTEGER;
+    v_table TEXT;
+    v_moved INTEGER;
+    v_other_records JSONB := '{}'::JSONB;
+    v_result JSONB;
+BEGIN
+    SELECT u.* INTO v_admin
+    FROM users u
+    JOIN role_permissions rp ON rp.role = u.role AND rp.permission = 'patients.merge'
+    WHERE u.id = p_admin_id AND u.status = 'active';
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('status', 'forbidden');
+    END IF;
+
+    IF p_survivor_id = p_duplicate_id THEN
+        RETURN jsonb_build_object('status', 'same_patient');
+    END IF;
+
+    -- Lock both charts in id order so concurrent merges cannot deadlock
+    PERFORM 1 FROM patients
+    WHERE id IN (p_survivor_id, p_duplicate_id)
+    ORDER BY id
+    FOR UPDATE;
+
+    SELECT * INTO v_survivor FROM patients WHERE id = p_survivor_id;
+    SELECT * INTO v_duplicate FROM patients WHERE id = p_duplicate_id;
+
+    IF v_survivor.id IS NULL OR v_duplicate.id IS NULL THEN
+        RETURN jsonb_build_object('status', 'patient_not_found');
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM admissions WHERE patient_id = p_survivor_id AND status = 'active')
+       AND EXISTS (SELECT 1 FROM admissions WHERE patient_id = p_duplicate_id AND status = 'active') THEN
+        RETURN jsonb_build_object('status', 'both_active');
+    END IF;
+
+    -- Rows that would clash with one already on the surviving chart (such as the
+    -- same lab result imported into both) stop the merge rather than being lost
+    BEGIN
+        FOR v_table IN SELECT table_name FROM patient_merge_tables ORDER BY table_name LOOP
+            EXECUTE format('UPDATE %I SET patient_id = $1 WHERE patient_id = $2', v_table)
+            USING p_survivor_id, p_duplicate_id;
+            GET DIAGNOSTICS v_moved = ROW_COUNT;
+            v_other_records := v_other_records || jsonb_build_object(v_table, v_moved);
+        END LOOP;
+    EXCEPTION WHEN unique_violation THEN
+        RETURN jsonb_build_object('status', 'conflicting_records', 'table', v_table);
+    END;
+
+    UPDATE admissions SET patient_id = p_survivor_id WHERE patient_id = p_duplicate_id;
+    GET DIAGNOSTICS v_admissions = ROW_COUNT;
+
+    UPDATE medical_notes SET patient_id = p_survivor_id WHERE patient_id = p_duplicate_id;
+    GET DIAGNOSTICS v_medical_notes = ROW_COUNT;
+
+    UPDATE long_stay_notes SET patient_id = p_survivor_id WHERE patient_id = p_duplicate_id;
+    GET DIAGNOSTICS v_long_stay_notes = ROW_COUNT;
+
+    UPDATE consultations
+    SET patient_id = p_survivor_id, mrn = v_survivor.mrn, patient_name = v_survivor.name
+    WHERE patient_id = p_duplicate_id;
+    GET DIAGNOSTICS v_consultations = ROW_COUNT;
+
+    -- Number each stay by its first admission row; rows opened by a transfer
+    -- take the number of the stay they continue
+    WITH RECURSIVE numbered AS (
+        SELECT id, ROW_NUMBER() OVER (ORDER BY admission_date, id) AS visit_number
+        FROM admissions
+        WHERE patient_id = p_survivor_id AND transferred_from_id IS NULL
+        UNION ALL
+        SELECT segment.id, numbered.visit_number
+        FROM admissions segment
+        JOIN numbered ON segment.transferred_from_id = numbered.id
+    )
+    UPDATE admissions a
+    SET visit_number = numbered.visit_number
+    FROM numbered
+    WHERE a.id = numbered.id AND a.visit_number <> numbered.visit_number;
+
+    DELETE FROM patients WHERE id = p_duplicate_id;
+
+    v_result := jsonb_build_object(
+        'status', 'merged',
+        'survivor_id', p_survivor_id,
+        'duplicate_id', p_duplicate_id,
+        'admissions', v_admissions,
+        'medical_notes', v_medical_notes,
+        'long_stay_notes', v_long_stay_notes,
+        'consultations', v_consultations,
+        'other_records', v_other_records
+    );
+
+    INSERT INTO audit_log (
+        actor_id, actor_name, actor_role, action, entity_type, entity_id,
+        summary, before_data, after_data
+    ) VALUES (
+        v_admin.id, v_admin.name, v_admin.role, 'merge', 'patient', p_survivor_id::TEXT,
+        format('Merged %s (MRN %s, #%s) into %s (MRN %s, #%s)',
+            v_duplicate.name, v_duplicate.mrn, v_duplicate.id,
+            v_survivor.name, v_survivor.mrn, v_survivor.id),
+        jsonb_build_object('survivor', to_jsonb(v_survivor), 'duplicate', to_jsonb(v_duplicate)),
+        v_result
+    );
+
+    RETURN v_result;
+END;
+$$;
+
+-- Grant necessary permissions
+GRANT EXECUTE ON FUNCTION find_duplicate_patients() TO authenticated;
+GRANT EXECUTE ON FUNCTION merge_patients(INTEGER, INTEGER, INTEGER) TO authenticated;
@@ -0,0 +1,148 @@
+-- Create role_permissions table mapping user roles to granted permissions
+CREATE TABLE IF NOT EXISTS role_permissions (
+    role VARCHAR(20) CHECK (role IN ('doctor', 'nurse', 'administrator')) NOT NULL,
+    permission VARCHAR(50) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (role, permission)
+);
+
+-- Seed the default permission matrix. This seed, together with the permissions
+-- later migrations grant, is the only source of the defaults: the app reads the
+-- matrix from this table.
+INSERT INTO role_permissions (role, permission) VALUES
+    ('doctor', 'patients.view'),
+    ('doctor', 'patients.update'),
+    ('doctor', 'admission.create'),
+    ('doctor', 'discharge.process'),
+    ('doctor', 'consultation.create'),
+    ('doctor', 'consultation.complete'),
+    ('doctor', 'notes.create'),
+    ('doctor', 'appointments.manage'),
+    ('doctor', 'reports.view'),
+    ('doctor', 'reports.export'),
+    ('nurse', 'patients.view'),
+    ('nurse', 'consultation.create'),
+    ('nurse', 'appointments.manage'),
+    ('nurse', 'reports.view'),
+    ('administrator', 'patients.view'),
+    ('administrator', 'patients.update'),
+    ('administrator', 'patients.delete'),
+    ('administrator', 'admission.create'),
+    ('administrator', 'discharge.process'),
+    ('administrator', 'consultation.create'),
+    ('administrator', 'consultation.complete'),
+    ('administrator', 'notes.create'),
+    ('administrator', 'appointments.manage'),
+    ('administrator', 'reports.view'),
+    ('administrator', 'reports.view_all'),
+    ('administrator', 'reports.export'),
+    ('administrator', 'users.manage'),
+    ('administrator', 'permissions.manage')
+ON CONFLICT (role, permission) DO NOTHING;
+
+-- Verify a medical code and PIN and check that the user's role holds the
+-- permission; returns the authenticate_user result on failure, 'forbidden'
+-- when the permission is missing, or 'authenticated' with the user
+CREATE OR REPLACE FUNCTION authenticate_with_permission(p_medical_code TEXT, p_pin TEXT, p_permission TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_result JSONB;
+BEGIN
+    v_result := authenticate_user(p_medical_code, p_pin);
+    IF v_result->>'status' <> 'authenticated' THEN
+        RETURN v_result;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM role_permissions
+        WHERE role = v_result->'user'->>'role' AND permission = p_permission
+    ) THEN
+        RETURN jsonb_build_object('status', 'forbidden');
+    END IF;
+
+    RETURN v_result;
+END;
+$$;
+
+-- Replace the full permission set of a role in one transaction. The
+-- administrator role always keeps users.manage and permissions.manage so the
+-- matrix cannot be locked against further editing.
+DROP FUNCTION IF EXISTS set_role_permissions(TEXT, TEXT[], INTEGER);
+
+CREATE OR REPLACE FUNCTION set_role_permissions(
+    p_role TEXT,
+    p_permissions TEXT[],
+    p_admin_code TEXT,
+    p_admin_pin TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_result JSONB;
+BEGIN
+    -- Failures are returned rather than raised so the failed-attempt count is kept
+    v_result := authenticate_with_permission(p_admin_code, p_admin_pin, 'permissions.manage');
+    IF v_result->>'status' <> 'authenticated' THEN
+        RETURN v_result;
+    END IF;
+
+    IF p_role = 'administrator'
+        AND NOT (ARRAY['users.manage', 'permissions.manage'] <@ p_permissions) THEN
+        RETURN jsonb_build_object('status', 'locked_permission');
+    END IF;
+
+    DELETE FROM role_permissions
+    WHERE role = p_role AND NOT (permission = ANY(p_permissions));
+
+    INSERT INTO role_permissions (role, permission)
+    SELECT p_role, unnest(p_permissions)
+    ON CONFLICT (role, permission) DO NOTHING;
+
+    RETURN jsonb_build_object('status', 'updated');
+END;
+$$;
+
+-- PIN resets now follow the users.manage permission rather than the role
+CREATE OR REPLACE FUNCTION reset_user_pin(p_user_id INTEGER, p_admin_code TEXT, p_admin_pin TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_result JSONB;
+    v_temporary_pin TEXT;
+BEGIN
+    v_result := authenticate_with_permission(p_admin_code, p_admin_pin, 'users.manage');
+    IF v_result->>'status' <> 'authenticated' THEN
+        RETURN v_result;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM users WHERE id = p_user_id) THEN
+        RETURN jsonb_build_object('status', 'user_not_found');
+    END IF;
+
+    v_temporary_pin := upper(substr(encode(gen_random_bytes(6), 'hex'), 1, 8));
+
+    INSERT INTO user_credentials (user_id, pin_hash, must_change, failed_attempts, locked_until)
+    VALUES (p_user_id, crypt(v_temporary_pin, gen_salt('bf')), true, 0, NULL)
+    ON CONFLICT (user_id) DO UPDATE
+    SET pin_hash = EXCLUDED.pin_hash,
+        must_change = true,
+        failed_attempts = 0,
+        locked_until = NULL;
+
+    RETURN jsonb_build_object('status', 'reset', 'pin', v_temporary_pin);
+END;
+$$;
+
+-- Grant necessary permissions
+GRANT SELECT ON role_permissions TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION set_role_permissions(TEXT, TEXT[], TEXT, TEXT) TO authenticated;
@@ -0,0 +1,283 @@
+-- Hospital-wide settings stored as JSON documents keyed by name. The shift
+-- schedule decides which shift and weekend flag an admission or consultation
+-- is recorded under; staff may override the derived shift with a reason.
+
+CREATE TABLE IF NOT EXISTS hospital_settings (
+    key VARCHAR(50) PRIMARY KEY,
+    value JSONB NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_by INTEGER REFERENCES users(id) ON DELETE SET NULL
+);
+
+-- Days use JavaScript numbering (0 = Sunday); times are HH:MM in hospital time
+INSERT INTO hospital_settings (key, value)
+VALUES (
+    'shift_schedule',
+    '{
+        "windows": {
+            "morning": { "start": "07:00", "end": "15:00" },
+            "evening": { "start": "15:00", "end": "23:00" },
+            "night": { "start": "23:00", "end": "07:00" },
+            "weekend_morning": { "start": "07:00", "end": "19:00" },
+            "weekend_night": { "start": "19:00", "end": "07:00" }
+        },
+        "weekend_days": [5, 6]
+    }'::jsonb
+)
+ON CONFLICT (key) DO NOTHING;
+
+INSERT INTO role_permissions (role, permission)
+VALUES ('administrator', 'settings.manage')
+ON CONFLICT (role, permission) DO NOTHING;
+
+-- Consultations use the same five shifts as admissions
+ALTER TABLE consultations DROP CONSTRAINT IF EXISTS consultations_shift_type_check;
+ALTER TABLE consultations ALTER COLUMN shift_type TYPE VARCHAR(20);
+ALTER TABLE consultations ADD CONSTRAINT consultations_shift_type_check CHECK (
+    shift_type IN ('morning', 'evening', 'night', 'weekend_morning', 'weekend_night')
+);
+
+ALTER TABLE consultations
+ADD COLUMN IF NOT EXISTS is_weekend BOOLEAN DEFAULT false,
+ADD COLUMN IF NOT EXISTS shift_override_reason TEXT;
+
+ALTER TABLE admissions
+ADD COLUMN IF NOT EXISTS shift_override_reason TEXT;
+
+-- The shift an instant falls in under the stored schedule, matching deriveShift
+-- in the client: a shift belongs to the day it starts on, read in hospital time
+CREATE OR REPLACE FUNCTION derive_shift(
+    p_instant TIMESTAMP WITH TIME ZONE,
+    OUT derived_shift shift_type,
+    OUT derived_is_weekend BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_schedule JSONB;
+    v_local TIMESTAMP;
+    v_minute INTEGER;
+    v_day_offset INTEGER;
+    v_since_day_start INTEGER;
+    v_shift TEXT;
+    v_start INTEGER;
+    v_length INTEGER;
+BEGIN
+    SELECT value INTO v_schedule FROM hospital_settings WHERE key = 'shift_schedule';
+
+    v_local := p_instant AT TIME ZONE COALESCE(
+        (SELECT value #>> '{}' FROM hospital_settings WHERE key = 'timezone'),
+        'UTC'
+    );
+    v_minute := EXTRACT(HOUR FROM v_local)::INTEGER * 60 + EXTRACT(MINUTE FROM v_local)::INTEGER;
+
+    FOR v_day_offset IN 0..1 LOOP
+        derived_is_weekend := v_schedule->'weekend_days' @>
+            to_jsonb(EXTRACT(DOW FROM v_local::DATE - v_day_offset)::INTEGER);
+        v_since_day_start := v_minute + v_day_offset * 1440;
+
+        FOREACH v_shift IN ARRAY CASE
+            WHEN derived_is_weekend THEN ARRAY['weekend_morning', 'weekend_night']
+            ELSE ARRAY['morning', 'evening', 'night']
+        END LOOP
+            v_start := split_part(v_schedule #>> ARRAY['windows', v_shift, 'start'], ':', 1)::INTEGER * 60
+                + split_part(v_schedule #>> ARRAY['windows', v_shift, 'start'], ':', 2)::INTEGER;
+            v_length := split_part(v_schedule #>> ARRAY['windows', v_shift, 'end'], ':', 1)::INTEGER * 60
+                + split_part(v_schedule #>> ARRAY['windows', v_shift, 'end'], ':', 2)::INTEGER
+                - v_start;
+            IF v_length <= 0 THEN
+                v_length := v_length + 1440;
+            END IF;
+
+            IF v_since_day_start >= v_start AND v_since_day_start < v_start + v_length THEN
+                derived_shift := v_shift::shift_type;
+                RETURN;
+            END IF;
+        END LOOP;
+    END LOOP;
+
+    -- Only reachable with a schedule that leaves gaps, which the settings page rejects
+    derived_is_weekend := COALESCE(v_schedule->'weekend_days' @> to_jsonb(EXTRACT(DOW FROM v_local)::INTEGER), false);
+    derived_shift := (CASE WHEN derived_is_weekend THEN 'weekend_morning' ELSE 'morning' END)::shift_type;
+END;
+$$;
+
+-- admit_patient records why the derived shift was overridden, and refuses a
+-- shift that differs from the schedule unless a reason is given
+DROP FUNCTION IF EXISTS admit_patient(TEXT, TEXT, DATE, TEXT, INTEGER, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, safety_type, shift_type, BOOLEAN, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION admit_patient(
+    p_mrn TEXT,
+    p_name TEXT,
+    p_date_of_birth DATE,
+    p_gender TEXT,
+    p_admitting_doctor_id INTEGER,
+    p_admission_date TIMESTAMP WITH TIME ZONE,
+    p_department TEXT,
+    p_diagnosis TEXT,
+    p_safety_type safety_type,
+    p_shift_type shift_type,
+    p_is_weekend BOOLEAN,
+    p_user_id INTEGER,
+    p_bed_id INTEGER DEFAULT NULL,
+    p_shift_override_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_patient patients%ROWTYPE;
+    v_admission admissions%ROWTYPE;
+    v_active admissions%ROWTYPE;
+    v_doctor users%ROWTYPE;
+    v_is_new_patient BOOLEAN := false;
+    v_visit_number INTEGER;
+    v_bed beds%ROWTYPE;
+    v_derived RECORD;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM users u
+        JOIN role_permissions rp ON rp.role = u.role AND rp.permission = 'admission.create'
+        WHERE u.id = p_user_id AND u.status = 'active'
+    ) THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'forbidden');
+    END IF;
+
+    IF COALESCE(trim(p_mrn), '') = '' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'mrn_required');
+    END IF;
+    IF COALESCE(trim(p_department), '') = '' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'department_required');
+    END IF;
+    IF COALESCE(trim(p_diagnosis), '') = '' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'diagnosis_required');
+    END IF;
+    IF p_admission_date IS NULL OR p_admission_date > CURRENT_TIMESTAMP + INTERVAL '1 day' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'invalid_admission_date');
+    END IF;
+    IF p_shift_override_reason IS NOT NULL AND trim(p_shift_override_reason) = '' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'shift_override_reason_required');
+    END IF;
+
+    SELECT * INTO v_derived FROM derive_shift(p_admission_date);
+    IF p_shift_override_reason IS NULL
+       AND (p_shift_type IS DISTINCT FROM v_derived.derived_shift
+            OR p_is_weekend IS DISTINCT FROM v_derived.derived_is_weekend) THEN
+        RETURN jsonb_build_object(
+            'status', 'error',
+            'code', 'shift_mismatch',
+            'shift_type', v_derived.derived_shift,
+            'is_weekend', v_derived.derived_is_weekend
+        );
+    END IF;
+
+    SELECT * INTO v_doctor
+    FROM users
+    WHERE id = p_admitting_doctor_id AND role = 'doctor' AND status = 'active';
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'doctor_not_found');
+    END IF;
+    IF v_doctor.department <> p_department THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'doctor_department_mismatch');
+    END IF;
+
+    IF p_bed_id IS NOT NULL THEN
+        SELECT * INTO v_bed FROM beds WHERE id = p_bed_id FOR UPDATE;
+
+        IF NOT FOUND OR v_bed.status <> 'free' THEN
+            RETURN jsonb_build_object('status', 'error', 'code', 'bed_not_available');
+        END IF;
+    END IF;
+
+    -- Serialise admissions for the same MRN so two clerks cannot create
+    -- duplicate records or the same visit number concurrently
+    PERFORM pg_advisory_xact_lock(hashtext(p_mrn));
+
+    -- Older data may hold several rows per MRN; the earliest is the canonical record
+    SELECT * INTO v_patient
+    FROM patients
+    WHERE mrn = p_mrn
+    ORDER BY id
+    LIMIT 1;
+
+    IF FOUND THEN
+        SELECT a.* INTO v_active
+        FROM admissions a
+        JOIN patients p ON p.id = a.patient_id
+        WHERE p.mrn = p_mrn AND a.status = 'active'
+        LIMIT 1;
+
+        IF FOUND THEN
+            RETURN jsonb_build_object(
+                'status', 'error',
+                'code', 'active_admission_exists',
+                'admission_id', v_active.id,
+                'department', v_active.department,
+                'admission_date', v_active.admission_date
+            );
+        END IF;
+    ELSE
+        IF COALESCE(trim(p_name), '') = '' THEN
+            RETURN jsonb_build_object('status', 'error', 'code', 'name_required');
+        END IF;
+        IF p_date_of_birth IS NULL
+           OR p_date_of_birth > CURRENT_DATE
+           OR p_date_of_birth < CURRENT_DATE - INTERVAL '150 years' THEN
+            RETURN jsonb_build_object('status', 'error', 'code', 'invalid_date_of_birth');
+        END IF;
+        IF p_gender IS NULL OR p_gender NOT IN ('male', 'female') THEN
+            RETURN jsonb_build_object('status', 'error', 'code', 'invalid_gender');
+        END IF;
+
+        INSERT INTO patients (mrn, name, date_of_birth, gender)
+        VALUES (trim(p_mrn), trim(p_name), p_date_of_birth, p_gender)
+        RETURNING * INTO v_patient;
+
+        v_is_new_patient := true;
+    END IF;
+
+    SELECT COALESCE(MAX(a.visit_number), 0) + 1 INTO v_visit_number
+    FROM admissions a
+    JOIN patients p ON p.id = a.patient_id
+    WHERE p.mrn = p_mrn;
+
+    INSERT INTO admissions (
+        patient_id, admitting_doctor_id, admission_date, department, diagnosis,
+        status, safety_type, shift_type, is_weekend, shift_override_reason, visit_number
+    ) VALUES (
+        v_patient.id, p_admitting_doctor_id, p_admission_date, p_department, trim(p_diagnosis),
+        'active', p_safety_type, p_shift_type, p_is_weekend, trim(p_shift_override_reason), v_visit_number
+    )
+    RETURNING * INTO v_admission;
+
+    IF p_bed_id IS NOT NULL THEN
+        UPDATE beds
+        SET status = 'occupied', admission_id = v_admission.id, updated_at = CURRENT_TIMESTAMP
+        WHERE id = p_bed_id
+        RETURNING * INTO v_bed;
+
+        INSERT INTO bed_assignments (admission_id, bed_id, assigned_at, assigned_by)
+        VALUES (v_admission.id, p_bed_id, p_admission_date, p_admitting_doctor_id);
+    END IF;
+
+    RETURN jsonb_build_object(
+        'status', 'admitted',
+        'is_new_patient', v_is_new_patient,
+        'patient', to_jsonb(v_patient),
+        'admission', to_jsonb(v_admission),
+        'bed', CASE WHEN p_bed_id IS NULL THEN NULL ELSE to_jsonb(v_bed) END
+    );
+END;
+$$;
+
+-- Grant necessary permissions
+GRANT SELECT, INSERT, UPDATE ON hospital_settings TO authenticated;
+GRANT EXECUTE ON FUNCTION derive_shift(TIMESTAMP WITH TIME ZONE) TO authenticated;
+GRANT EXECUTE ON FUNCTION admit_patient(TEXT, TEXT, DATE, TEXT, INTEGER, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, safety_type, shift_type, BOOLEAN, INTEGER, INTEGER, TEXT) TO authenticated;
@@ -0,0 +1,47 @@
+-- Smart phrases: text macros such as ".normalexam" that expand inline in
+-- clinical notes. Personal phrases belong to one user; department phrases are
+-- shared with everyone in the department, and a personal phrase with the same
+-- shortcut takes precedence for its owner.
+
+CREATE TABLE IF NOT EXISTS smart_phrases (
+    id SERIAL PRIMARY KEY,
+    shortcut VARCHAR(40) NOT NULL CHECK (shortcut ~ '^[a-z0-9][a-z0-9_-]*$'),
+    title VARCHAR(100) NOT NULL CHECK (trim(title) <> ''),
+    body TEXT NOT NULL CHECK (trim(body) <> ''),
+    scope VARCHAR(12) NOT NULL CHECK (scope IN ('personal', 'department')),
+    owner_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+    department VARCHAR(100),
+    created_by INTEGER NOT NULL REFERENCES users(id),
+    updated_by INTEGER REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT smart_phrases_scope_check CHECK (
+        (scope = 'personal' AND owner_id IS NOT NULL AND department IS NULL)
+        OR (scope = 'department' AND owner_id IS NULL AND department IS NOT NULL)
+    )
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_smart_phrases_personal_shortcut
+    ON smart_phrases(owner_id, shortcut)
+    WHERE scope = 'personal';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_smart_phrases_department_shortcut
+    ON smart_phrases(department, shortcut)
+    WHERE scope = 'department';
+
+DROP TRIGGER IF EXISTS update_smart_phrases_updated_at ON smart_phrases;
+CREATE TRIGGER update_smart_phrases_updated_at
+    BEFORE UPDATE ON smart_phrases
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Anyone can keep personal phrases; sharing them with a department is a permission
+INSERT INTO role_permissions (role, permission)
+VALUES
+    ('administrator', 'phrases.department'),
+    ('doctor', 'phrases.department')
+ON CONFLICT (role, permission) DO NOTHING;
+
+-- Grant necessary permissions
+GRANT SELECT, INSERT, UPDATE, DELETE ON smart_phrases TO authenticated;
+GRANT USAGE ON SEQUENCE smart_phrases_id_seq TO authenticated;
@@ -0,0 +1,277 @@
+-- Admission, readmission and discharge as single transactional procedures.
+-- Validation failures return {"status": "error", "code": ...} before anything is
+-- written; any other failure raises and rolls the whole call back.
+
+-- Replace admit_patient with a validating version that also takes the acting
+-- user, who must hold admission.create
+DROP FUNCTION IF EXISTS admit_patient(TEXT, TEXT, DATE, TEXT, INTEGER, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, safety_type, shift_type, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION admit_patient(
+    p_mrn TEXT,
+    p_name TEXT,
+    p_date_of_birth DATE,
+    p_gender TEXT,
+    p_admitting_doctor_id INTEGER,
+    p_admission_date TIMESTAMP WITH TIME ZONE,
+    p_department TEXT,
+    p_diagnosis TEXT,
+    p_safety_type safety_type,
+    p_shift_type shift_type,
+    p_is_weekend BOOLEAN,
+    p_user_id INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_patient patients%ROWTYPE;
+    v_admission admissions%ROWTYPE;
+    v_active admissions%ROWTYPE;
+    v_doctor users%ROWTYPE;
+    v_is_new_patient BOOLEAN := false;
+    v_visit_number INTEGER;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM users u
+        JOIN role_permissions rp ON rp.role = u.role AND rp.permission = 'admission.create'
+        WHERE u.id = p_user_id AND u.status = 'active'
+    ) THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'forbidden');
+    END IF;
+
+    IF COALESCE(trim(p_mrn), '') = '' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'mrn_required');
+    END IF;
+    IF COALESCE(trim(p_department), '') = '' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'department_required');
+    END IF;
+    IF COALESCE(trim(p_diagnosis), '') = '' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'diagnosis_required');
+    END IF;
+    IF p_admission_date IS NULL OR p_admission_date > CURRENT_TIMESTAMP + INTERVAL '1 day' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'invalid_admission_date');
+    END IF;
+
+    SELECT * INTO v_doctor
+    FROM users
+    WHERE id = p_admitting_doctor_id AND role = 'doctor' AND status = 'active';
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'doctor_not_found');
+    END IF;
+    IF v_doctor.department <> p_department THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'doctor_department_mismatch');
+    END IF;
+
+    -- Serialise admissions for the same MRN so two clerks cannot create
+    -- duplicate records or the same visit number concurrently
+    PERFORM pg_advisory_xact_lock(hashtext(p_mrn));
+
+    -- Older data may hold several rows per MRN; the earliest is the canonical record
+    SELECT * INTO v_patient
+    FROM patients
+    WHERE mrn = p_mrn
+    ORDER BY id
+    LIMIT 1;
+
+    IF FOUND THEN
+        SELECT a.* INTO v_active
+        FROM admissions a
+        JOIN patients p ON p.id = a.patient_id
+        WHERE p.mrn = p_mrn AND a.status = 'active'
+        LIMIT 1;
+
+        IF FOUND THEN
+            RETURN jsonb_build_object(
+                'status', 'error',
+                'code', 'active_admission_exists',
+                'admission_id', v_active.id,
+                'department', v_active.department,
+                'admission_date', v_active.admission_date
+            );
+        END IF;
+    ELSE
+        IF COALESCE(trim(p_name), '') = '' THEN
+            RETURN jsonb_build_object('status', 'error', 'code', 'name_required');
+        END IF;
+        IF p_date_of_birth IS NULL
+           OR p_date_of_birth > CURRENT_DATE
+           OR p_date_of_birth < CURRENT_DATE - INTERVAL '150 years' THEN
+            RETURN jsonb_build_object('status', 'error', 'code', 'invalid_date_of_birth');
+        END IF;
+        IF p_gender IS NULL OR p_gender NOT IN ('male', 'female') THEN
+            RETURN jsonb_build_object('status', 'error', 'code', 'invalid_gender');
+        END IF;
+
+        INSERT INTO patients (mrn, name, date_of_birth, gender)
+        VALUES (trim(p_mrn), trim(p_name), p_date_of_birth, p_gender)
+        RETURNING * INTO v_patient;
+
+        v_is_new_patient := true;
+    END IF;
+
+    SELECT COALESCE(MAX(a.visit_number), 0) + 1 INTO v_visit_number
+    FROM admissions a
+    JOIN patients p ON p.id = a.patient_id
+    WHERE p.mrn = p_mrn;
+
+    INSERT INTO admissions (
+        patient_id, admitting_doctor_id, admission_date, department, diagnosis,
+        status, safety_type, shift_type, is_weekend, visit_number
+    ) VALUES (
+        v_patient.id, p_admitting_doctor_id, p_admission_date, p_department, trim(p_diagnosis),
+        'active', p_safety_type, p_shift_type, p_is_weekend, v_visit_number
+    )
+    RETURNING * INTO v_admission;
+
+    RETURN jsonb_build_object(
+        'status', 'admitted',
+        'is_new_patient', v_is_new_patient,
+        'patient', to_jsonb(v_patient),
+        'admission', to_jsonb(v_admission)
+    );
+END;
+$$;
+
+-- Discharge an active admission and file the discharge summary together
+CREATE OR REPLACE FUNCTION discharge_admission(
+    p_admission_id INTEGER,
+    p_doctor_id INTEGER,
+    p_discharge_date TIMESTAMP WITH TIME ZONE,
+    p_discharge_type TEXT,
+    p_follow_up_required BOOLEAN,
+    p_follow_up_date DATE,
+    p_discharge_note TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_before admissions%ROWTYPE;
+    v_admission admissions%ROWTYPE;
+    v_note medical_notes%ROWTYPE;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM users u
+        JOIN role_permissions rp ON rp.role = u.role AND rp.permission = 'discharge.process'
+        WHERE u.id = p_doctor_id AND u.status = 'active'
+    ) THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'forbidden');
+    END IF;
+
+    SELECT * INTO v_before FROM admissions WHERE id = p_admission_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'admission_not_found');
+    END IF;
+    IF v_before.status <> 'active' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'admission_not_active');
+    END IF;
+    IF p_discharge_date IS NULL THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'discharge_date_required');
+    END IF;
+    IF p_discharge_date::DATE < v_before.admission_date::DATE THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'discharge_before_admission');
+    END IF;
+    IF p_follow_up_required AND p_follow_up_date IS NULL THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'follow_up_date_required');
+    END IF;
+    IF p_follow_up_required AND p_follow_up_date <= p_discharge_date::DATE THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'follow_up_before_discharge');
+    END IF;
+    IF COALESCE(trim(p_discharge_note), '') = '' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'discharge_note_required');
+    END IF;
+
+    UPDATE admissions
+    SET status = 'discharged',
+        discharge_date = p_discharge_date,
+        discharge_type = p_discharge_type,
+        follow_up_required = p_follow_up_required,
+        follow_up_date = CASE WHEN p_follow_up_required THEN p_follow_up_date END,
+        discharge_note = p_discharge_note,
+        discharge_doctor_id = p_doctor_id
+    WHERE id = p_admission_id
+    RETURNING * INTO v_admission;
+
+    INSERT INTO medical_notes (patient_id, doctor_id, note_type, content)
+    VALUES (v_admission.patient_id, p_doctor_id, 'Discharge Summary', p_discharge_note)
+    RETURNING * INTO v_note;
+
+    RETURN jsonb_build_object(
+        'status', 'discharged',
+        'before', to_jsonb(v_before),
+        'admission', to_jsonb(v_admission),
+        'note', to_jsonb(v_note)
+    );
+END;
+$$;
+
+-- Complete an active consultation and file the consultation note together
+CREATE OR REPLACE FUNCTION complete_consultation(
+    p_consultation_id INTEGER,
+    p_doctor_id INTEGER,
+    p_completion_note TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_before consultations%ROWTYPE;
+    v_consultation consultations%ROWTYPE;
+    v_note medical_notes%ROWTYPE;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM users u
+        JOIN role_permissions rp ON rp.role = u.role AND rp.permission = 'consultation.complete'
+        WHERE u.id = p_doctor_id AND u.status = 'active'
+    ) THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'forbidden');
+    END IF;
+
+    SELECT * INTO v_before FROM consultations WHERE id = p_consultation_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'consultation_not_found');
+    END IF;
+    IF v_before.status <> 'active' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'consultation_not_active');
+    END IF;
+    IF COALESCE(trim(p_completion_note), '') = '' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'discharge_note_required');
+    END IF;
+
+    UPDATE consultations
+    SET status = 'completed',
+        completion_note = p_completion_note,
+        completed_by = p_doctor_id,
+        completed_at = CURRENT_TIMESTAMP
+    WHERE id = p_consultation_id
+    RETURNING * INTO v_consultation;
+
+    INSERT INTO medical_notes (patient_id, doctor_id, note_type, content)
+    VALUES (v_consultation.patient_id, p_doctor_id, 'Consultation Note', p_completion_note)
+    RETURNING * INTO v_note;
+
+    RETURN jsonb_build_object(
+        'status', 'completed',
+        'before', to_jsonb(v_before),
+        'consultation', to_jsonb(v_consultation),
+        'note', to_jsonb(v_note)
+    );
+END;
+$$;
+
+-- Grant necessary permissions
+GRANT EXECUTE ON FUNCTION admit_patient(TEXT, TEXT, DATE, TEXT, INTEGER, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, safety_type, shift_type, BOOLEAN, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION discharge_admission(INTEGER, INTEGER, TIMESTAMP WITH TIME ZONE, TEXT, BOOLEAN, DATE, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION complete_consultation(INTEGER, INTEGER, TEXT) TO authenticated;
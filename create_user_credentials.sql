@@ -0,0 +1,208 @@
+-- Enable pgcrypto for PIN hashing
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- Create user_credentials table (kept apart from users so hashes are never selectable)
+CREATE TABLE IF NOT EXISTS user_credentials (
+    user_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    pin_hash TEXT NOT NULL,
+    must_change BOOLEAN NOT NULL DEFAULT true,
+    failed_attempts INTEGER NOT NULL DEFAULT 0,
+    locked_until TIMESTAMP WITH TIME ZONE,
+    last_login_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TRIGGER update_user_credentials_updated_at
+    BEFORE UPDATE ON user_credentials
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Credentials are only reachable through the functions below
+REVOKE ALL ON user_credentials FROM anon, authenticated;
+
+-- Verify a medical code and PIN, applying the failed-attempt lockout
+CREATE OR REPLACE FUNCTION authenticate_user(p_medical_code TEXT, p_pin TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    c_max_attempts CONSTANT INTEGER := 5;
+    c_lock_interval CONSTANT INTERVAL := INTERVAL '15 minutes';
+    v_user users%ROWTYPE;
+    v_cred user_credentials%ROWTYPE;
+BEGIN
+    SELECT * INTO v_user
+    FROM users
+    WHERE medical_code = p_medical_code AND status = 'active';
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('status', 'invalid_credentials');
+    END IF;
+
+    SELECT * INTO v_cred
+    FROM user_credentials
+    WHERE user_id = v_user.id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('status', 'no_credentials');
+    END IF;
+
+    IF v_cred.locked_until IS NOT NULL THEN
+        IF v_cred.locked_until > CURRENT_TIMESTAMP THEN
+            RETURN jsonb_build_object('status', 'locked', 'locked_until', v_cred.locked_until);
+        END IF;
+
+        -- Lock expired: start counting again
+        UPDATE user_credentials
+        SET failed_attempts = 0, locked_until = NULL
+        WHERE user_id = v_user.id
+        RETURNING * INTO v_cred;
+    END IF;
+
+    IF v_cred.pin_hash <> crypt(p_pin, v_cred.pin_hash) THEN
+        UPDATE user_credentials
+        SET failed_attempts = failed_attempts + 1,
+            locked_until = CASE
+                WHEN failed_attempts + 1 >= c_max_attempts THEN CURRENT_TIMESTAMP + c_lock_interval
+                ELSE NULL
+            END
+        WHERE user_id = v_user.id
+        RETURNING * INTO v_cred;
+
+        IF v_cred.locked_until IS NOT NULL THEN
+            RETURN jsonb_build_object('status', 'locked', 'locked_until', v_cred.locked_until);
+        END IF;
+
+        RETURN jsonb_build_object(
+            'status', 'invalid_credentials',
+            'remaining_attempts', c_max_attempts - v_cred.failed_attempts
+        );
+    END IF;
+
+    UPDATE user_credentials
+    SET failed_attempts = 0, locked_until = NULL, last_login_at = CURRENT_TIMESTAMP
+    WHERE user_id = v_user.id;
+
+    IF v_cred.must_change THEN
+        RETURN jsonb_build_object('status', 'pin_change_required');
+    END IF;
+
+    RETURN jsonb_build_object('status', 'authenticated', 'user', to_jsonb(v_user));
+END;
+$$;
+
+-- Replace a temporary (or current) PIN with a personal one
+CREATE OR REPLACE FUNCTION set_user_pin(p_medical_code TEXT, p_current_pin TEXT, p_new_pin TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_result JSONB;
+    v_user users%ROWTYPE;
+BEGIN
+    IF length(coalesce(p_new_pin, '')) < 6 THEN
+        RETURN jsonb_build_object('status', 'pin_too_short');
+    END IF;
+
+    IF p_new_pin = p_current_pin THEN
+        RETURN jsonb_build_object('status', 'pin_reused');
+    END IF;
+
+    v_result := authenticate_user(p_medical_code, p_current_pin);
+    IF v_result->>'status' NOT IN ('authenticated', 'pin_change_required') THEN
+        RETURN v_result;
+    END IF;
+
+    SELECT * INTO v_user FROM users WHERE medical_code = p_medical_code;
+
+    UPDATE user_credentials
+    SET pin_hash = crypt(p_new_pin, gen_salt('bf')),
+        must_change = false
+    WHERE user_id = v_user.id;
+
+    RETURN jsonb_build_object('status', 'authenticated', 'user', to_jsonb(v_user));
+END;
+$$;
+
+-- Issue a one-time temporary PIN; the user must replace it on next sign-in.
+-- The administrator's own medical code and PIN are checked here, so the
+-- caller cannot simply claim to be an administrator.
+DROP FUNCTION IF EXISTS reset_user_pin(INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION reset_user_pin(p_user_id INTEGER, p_admin_code TEXT, p_admin_pin TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_result JSONB;
+    v_temporary_pin TEXT;
+BEGIN
+    -- Failures are returned rather than raised so the failed-attempt count is kept
+    v_result := authenticate_user(p_admin_code, p_admin_pin);
+    IF v_result->>'status' <> 'authenticated' THEN
+        RETURN v_result;
+    END IF;
+
+    IF v_result->'user'->>'role' <> 'administrator' THEN
+        RETURN jsonb_build_object('status', 'forbidden');
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM users WHERE id = p_user_id) THEN
+        RETURN jsonb_build_object('status', 'user_not_found');
+    END IF;
+
+    v_temporary_pin := upper(substr(encode(gen_random_bytes(6), 'hex'), 1, 8));
+
+    INSERT INTO user_credentials (user_id, pin_hash, must_change, failed_attempts, locked_until)
+    VALUES (p_user_id, crypt(v_temporary_pin, gen_salt('bf')), true, 0, NULL)
+    ON CONFLICT (user_id) DO UPDATE
+    SET pin_hash = EXCLUDED.pin_hash,
+        must_change = true,
+        failed_attempts = 0,
+        locked_until = NULL;
+
+    RETURN jsonb_build_object('status', 'reset', 'pin', v_temporary_pin);
+END;
+$$;
+
+-- Grant necessary permissions (signing in happens before there is a session)
+GRANT EXECUTE ON FUNCTION authenticate_user(TEXT, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION set_user_pin(TEXT, TEXT, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION reset_user_pin(INTEGER, TEXT, TEXT) TO authenticated;
+
+-- Bootstrap: when no credentials exist yet, every active administrator is
+-- issued a temporary PIN, printed once as a NOTICE in the migration output.
+-- Hand each PIN to its administrator; they must replace it on first sign-in
+-- and can then issue PINs to everyone else from Employee Management.
+-- Running the migration again issues nothing once any credentials exist.
+DO $$
+DECLARE
+    v_admin RECORD;
+    v_temporary_pin TEXT;
+BEGIN
+    IF EXISTS (SELECT 1 FROM user_credentials) THEN
+        RETURN;
+    END IF;
+
+    FOR v_admin IN
+        SELECT id, medical_code FROM users
+        WHERE role = 'administrator' AND status = 'active'
+        ORDER BY id
+    LOOP
+        v_temporary_pin := upper(substr(encode(gen_random_bytes(6), 'hex'), 1, 8));
+
+        INSERT INTO user_credentials (user_id, pin_hash, must_change)
+        VALUES (v_admin.id, crypt(v_temporary_pin, gen_salt('bf')), true);
+
+        RAISE NOTICE 'Temporary PIN for administrator %: %', v_admin.medical_code, v_temporary_pin;
+    END LOOP;
+END;
+$$;
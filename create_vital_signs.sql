@@ -0,0 +1,68 @@
+-- Vital signs observations. Each row is one set taken at the bedside; any
+-- measurement may be left out when it was not taken.
+
+CREATE TABLE IF NOT EXISTS vital_signs (
+    id SERIAL PRIMARY KEY,
+    patient_id INTEGER NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+    admission_id INTEGER REFERENCES admissions(id) ON DELETE SET NULL,
+    recorded_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    recorded_by INTEGER NOT NULL REFERENCES users(id),
+    heart_rate INTEGER CHECK (heart_rate BETWEEN 0 AND 300),
+    systolic_bp INTEGER CHECK (systolic_bp BETWEEN 0 AND 300),
+    diastolic_bp INTEGER CHECK (diastolic_bp BETWEEN 0 AND 200),
+    respiratory_rate INTEGER CHECK (respiratory_rate BETWEEN 0 AND 80),
+    temperature NUMERIC(3, 1) CHECK (temperature BETWEEN 25 AND 45),
+    spo2 INTEGER CHECK (spo2 BETWEEN 0 AND 100),
+    o2_device VARCHAR(30) NOT NULL DEFAULT 'room_air'
+        CHECK (o2_device IN ('room_air', 'nasal_cannula', 'simple_mask', 'venturi_mask', 'non_rebreather', 'high_flow', 'niv', 'ventilator')),
+    o2_flow_rate NUMERIC(4, 1) CHECK (o2_flow_rate BETWEEN 0 AND 80),
+    consciousness VARCHAR(20) NOT NULL DEFAULT 'alert'
+        CHECK (consciousness IN ('alert', 'confusion', 'voice', 'pain', 'unresponsive')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CHECK (systolic_bp IS NULL OR diastolic_bp IS NULL OR systolic_bp > diastolic_bp)
+);
+
+CREATE INDEX IF NOT EXISTS idx_vital_signs_patient_time ON vital_signs(patient_id, recorded_at DESC);
+CREATE INDEX IF NOT EXISTS idx_vital_signs_admission ON vital_signs(admission_id);
+
+-- An observation may only be linked to one of its own patient's admissions.
+-- Only checked when admission_id is set, so a merge can still re-point patient_id.
+CREATE OR REPLACE FUNCTION check_vital_signs_admission()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.admission_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM admissions
+        WHERE id = NEW.admission_id AND patient_id = NEW.patient_id
+    ) THEN
+        RAISE EXCEPTION 'Admission % does not belong to patient %', NEW.admission_id, NEW.patient_id;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_vital_signs_admission ON vital_signs;
+CREATE TRIGGER check_vital_signs_admission
+    BEFORE INSERT OR UPDATE OF admission_id ON vital_signs
+    FOR EACH ROW
+    EXECUTE FUNCTION check_vital_signs_admission();
+
+-- Nurses take most observations; doctors record them on rounds
+INSERT INTO role_permissions (role, permission)
+VALUES
+    ('administrator', 'vitals.record'),
+    ('doctor', 'vitals.record'),
+    ('nurse', 'vitals.record')
+ON CONFLICT (role, permission) DO NOTHING;
+
+-- Observations move to the surviving chart when duplicate patients are merged
+INSERT INTO patient_merge_tables (table_name)
+VALUES ('vital_signs')
+ON CONFLICT (table_name) DO NOTHING;
+
+-- Grant necessary permissions
+GRANT SELECT, INSERT ON vital_signs TO authenticated;
+GRANT USAGE ON SEQUENCE vital_signs_id_seq TO authenticated;
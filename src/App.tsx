@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import Sidebar from './components/Sidebar';
 import DashboardHeader from './components/DashboardHeader';
 import SpecialtiesGrid from './components/SpecialtiesGrid';
@@ -12,30 +12,78 @@ import LandingPage from './pages/LandingPage';
 import LoginPage from './pages/LoginPage';
 import AboutPage from './pages/AboutPage';
 import TermsPage from './pages/TermsPage';
-import EmployeeManagement from './components/Administration/EmployeeManagement';
+import Administration from './pages/Administration';
 import AppointmentBooking from './pages/AppointmentBooking';
+import BedBoard from './pages/BedBoard';
 import DashboardStats from './components/Dashboard/DashboardStats';
+import CosignQueue from './components/Notes/CosignQueue';
 import Profile from './pages/Profile';
+import SessionTimeoutDialog from './components/Session/SessionTimeoutDialog';
+import ReauthDialog from './components/Session/ReauthDialog';
+import AccessDenied from './components/AccessDenied';
+import AuditFailureBanner from './components/AuditFailureBanner';
 import { useSupabase } from './hooks/useSupabase';
+import { useIdleTimeout } from './hooks/useIdleTimeout';
+import { usePermissions } from './hooks/usePermissions';
 import { useUserStore } from './stores/useUserStore';
-import { usePatientStore } from './stores/usePatientStore';
+import { useSessionStore } from './stores/useSessionStore';
+import { useAlertStore } from './stores/useAlertStore';
 import { Page, isValidPage } from './types/navigation';
+import { PAGE_PERMISSIONS } from './config/permissions';
 
 const App: React.FC = () => {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [currentPage, setCurrentPage] = useState<Page>('dashboard');
+  const [currentPage, setCurrentPage] = useState<Page>(() => {
+    const path = window.location.pathname.slice(1);
+    return isValidPage(path) ? path : 'dashboard';
+  });
   const [selectedSpecialty, setSelectedSpecialty] = useState<string | null>(null);
-  const [notifications, setNotifications] = useState(2);
+  const [isAlertsOpen, setIsAlertsOpen] = useState(false);
   const [isUserMenuOpen, setIsUserMenuOpen] = useState(false);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const { isLoading, error } = useSupabase();
-  const { currentUser, logout } = useUserStore();
+  const { currentUser, logout, refreshCurrentUser } = useUserStore();
+  const { isExpired } = useSessionStore();
+  const { fetchAlerts, subscribeToUpdates: subscribeToAlerts } = useAlertStore();
+  const isAuthenticated = currentUser !== null;
+  const currentUserId = currentUser?.id;
+  const { remainingSeconds, showWarning, staySignedIn } = useIdleTimeout(isAuthenticated, logout);
+  const { can } = usePermissions();
+  const canManageUsers = can('users.manage');
 
   useEffect(() => {
-    if (currentUser?.role === 'administrator') {
+    // A session restored from storage is only resumed if it has not gone idle
+    // and the account is still active
+    if (!useUserStore.getState().currentUser) return;
+    if (isExpired()) {
+      logout();
+    } else {
+      refreshCurrentUser();
+    }
+  }, [isExpired, logout, refreshCurrentUser]);
+
+  useEffect(() => {
+    if (!currentUserId) return;
+
+    fetchAlerts();
+    const unsubscribe = subscribeToAlerts();
+    return () => {
+      unsubscribe();
+    };
+  }, [currentUserId, fetchAlerts, subscribeToAlerts]);
+
+  // Administrators start on Employee Management once per sign-in; later
+  // permission reloads leave them on the page they are working in
+  const redirectedUserId = useRef<number | null>(null);
+  useEffect(() => {
+    if (!currentUserId) {
+      redirectedUserId.current = null;
+      return;
+    }
+    if (canManageUsers && redirectedUserId.current !== currentUserId) {
+      redirectedUserId.current = currentUserId;
       setCurrentPage('employees');
     }
-  }, [currentUser]);
+  }, [canManageUsers, currentUserId]);
 
   useEffect(() => {
     const handleNavigate = (event: Event) => {
@@ -80,16 +128,16 @@ const App: React.FC = () => {
   }, []);
 
   const handleLogin = () => {
-    setIsAuthenticated(true);
+    setCurrentPage('dashboard');
+    window.history.pushState({}, '', '/dashboard');
   };
 
   const handleLogout = () => {
-    setIsAuthenticated(false);
     logout();
   };
 
   const handleNotificationClick = () => {
-    setNotifications(0);
+    setIsAlertsOpen(!isAlertsOpen);
     setIsMobileMenuOpen(false);
   };
 
@@ -157,7 +205,7 @@ const App: React.FC = () => {
       />
       <div className="flex-1 flex flex-col">
         <DashboardHeader 
-          notifications={notifications}
+          isAlertsOpen={isAlertsOpen}
           onNotificationClick={handleNotificationClick}
           isUserMenuOpen={isUserMenuOpen}
           onUserMenuClick={handleUserMenuClick}
@@ -169,10 +217,24 @@ const App: React.FC = () => {
           {renderPage()}
         </div>
       </div>
+      {showWarning && (
+        <SessionTimeoutDialog
+          remainingSeconds={remainingSeconds}
+          onStaySignedIn={staySignedIn}
+          onLogout={handleLogout}
+        />
+      )}
+      <ReauthDialog />
+      <AuditFailureBanner />
     </div>
   );
 
   function renderPage() {
+    const requiredPermission = PAGE_PERMISSIONS[currentPage];
+    if (requiredPermission && !can(requiredPermission)) {
+      return <AccessDenied />;
+    }
+
     switch (currentPage) {
       case 'dashboard':
         return (
@@ -182,6 +244,7 @@ const App: React.FC = () => {
               <p className="text-gray-600">Overview of all departments and patients</p>
             </div>
             <DashboardStats />
+            {can('notes.cosign') && <CosignQueue />}
             <SpecialtiesGrid />
           </main>
         );
@@ -195,6 +258,8 @@ const App: React.FC = () => {
         return <Reports />;
       case 'discharge':
         return <PatientDischarge />;
+      case 'beds':
+        return <BedBoard />;
       case 'specialties':
         return <Specialties 
           onNavigateToPatient={() => handlePageChange('patient')}
@@ -203,7 +268,7 @@ const App: React.FC = () => {
       case 'appointments':
         return <AppointmentBooking />;
       case 'employees':
-        return currentUser?.role === 'administrator' ? <EmployeeManagement /> : null;
+        return <Administration />;
       case 'profile':
         return <Profile />;
       default:
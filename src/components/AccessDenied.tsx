@@ -0,0 +1,28 @@
+import React from 'react';
+import { ShieldOff } from 'lucide-react';
+
+interface AccessDeniedProps {
+  message?: string;
+}
+
+const AccessDenied: React.FC<AccessDeniedProps> = ({
+  message = 'Your role does not have permission to open this page.'
+}) => {
+  return (
+    <div className="flex-1 p-6">
+      <div className="bg-yellow-50 border border-yellow-200 rounded-xl p-6">
+        <div className="flex items-start space-x-3">
+          <ShieldOff className="h-6 w-6 text-yellow-600 mt-0.5" />
+          <div>
+            <h3 className="text-lg font-medium text-yellow-800 mb-2">
+              Access Restricted
+            </h3>
+            <p className="text-yellow-700">{message}</p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AccessDenied;
@@ -0,0 +1,297 @@
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { History, Search, Filter, Calendar, Download, FileText, ChevronDown, ChevronRight, AlertCircle } from 'lucide-react';
+import { useAuditStore } from '../../stores/useAuditStore';
+import { usePermissions } from '../../hooks/usePermissions';
+import { exportAuditLogToCSV, exportAuditLogToPDF } from '../../utils/auditExport';
+import type { AuditAction, AuditEntityType, AuditEntry, AuditFilters } from '../../types/audit';
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+  patient: 'Patient',
+  admission: 'Admission',
+  consultation: 'Consultation',
+  medical_note: 'Medical Note',
+  note_template: 'Note Template',
+  smart_phrase: 'Smart Phrase',
+  vital_signs: 'Vital Signs',
+  medication_order: 'Medication Order',
+  medication_administration: 'Medication Administration',
+  patient_allergy: 'Patient Allergy',
+  lab_result: 'Lab Result',
+  patient_attachment: 'Patient Attachment',
+  long_stay_note: 'Long Stay Note',
+  appointment: 'Appointment',
+  user: 'Employee',
+  role_permissions: 'Role Permissions',
+  settings: 'Settings',
+  ward: 'Ward',
+  room: 'Room',
+  bed: 'Bed'
+};
+
+const ACTION_STYLES: Record<AuditAction, string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800',
+  merge: 'bg-orange-100 text-orange-800',
+  discharge: 'bg-purple-100 text-purple-800',
+  transfer: 'bg-indigo-100 text-indigo-800',
+  complete: 'bg-purple-100 text-purple-800',
+  sign: 'bg-teal-100 text-teal-800',
+  cosign: 'bg-teal-100 text-teal-800',
+  return: 'bg-orange-100 text-orange-800',
+  reset_pin: 'bg-yellow-100 text-yellow-800'
+};
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+// Lists the fields whose values differ between the two snapshots
+const getChangedFields = (entry: AuditEntry) => {
+  const before = entry.before_data || {};
+  const after = entry.after_data || {};
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+
+  return keys
+    .filter(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+    .map(key => ({ field: key, before: before[key], after: after[key] }));
+};
+
+const AuditLog: React.FC = () => {
+  const { entries, loading, error, fetchAuditLog } = useAuditStore();
+  const { can } = usePermissions();
+  const [filters, setFilters] = useState<AuditFilters>({
+    searchQuery: '',
+    entityType: 'all',
+    action: 'all',
+    dateFrom: '',
+    dateTo: ''
+  });
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [exportError, setExportError] = useState('');
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => fetchAuditLog(filters), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeoutId);
+  }, [filters, fetchAuditLog]);
+
+  const updateFilter = <K extends keyof AuditFilters>(key: K, value: AuditFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleExport = (type: 'csv' | 'pdf') => {
+    setExportError('');
+    try {
+      if (type === 'csv') {
+        exportAuditLogToCSV(entries);
+      } else {
+        exportAuditLogToPDF(entries, { dateFrom: filters.dateFrom, dateTo: filters.dateTo });
+      }
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : 'Failed to export audit log');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+      <div className="p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-3">
+            <History className="h-6 w-6 text-gray-400" />
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">Audit Log</h2>
+              <p className="text-sm text-gray-500">Every change to patient, clinical and account records</p>
+            </div>
+          </div>
+          {can('reports.export') && (
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={() => handleExport('csv')}
+                disabled={entries.length === 0}
+                className="flex items-center px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Export CSV
+              </button>
+              <button
+                onClick={() => handleExport('pdf')}
+                disabled={entries.length === 0}
+                className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <FileText className="h-4 w-4 mr-2" />
+                Export PDF
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-6">
+          <div className="relative md:col-span-2">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+            <input
+              type="text"
+              placeholder="Search by user, record ID or description..."
+              value={filters.searchQuery}
+              onChange={(e) => updateFilter('searchQuery', e.target.value)}
+              className="w-full pl-10 pr-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+            />
+          </div>
+
+          <div className="relative">
+            <Filter className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+            <select
+              value={filters.entityType}
+              onChange={(e) => updateFilter('entityType', e.target.value as AuditFilters['entityType'])}
+              className="w-full pl-10 pr-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+            >
+              <option value="all">All Records</option>
+              {(Object.keys(ENTITY_LABELS) as AuditEntityType[]).map(entityType => (
+                <option key={entityType} value={entityType}>{ENTITY_LABELS[entityType]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="relative">
+            <Filter className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+            <select
+              value={filters.action}
+              onChange={(e) => updateFilter('action', e.target.value as AuditFilters['action'])}
+              className="w-full pl-10 pr-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+            >
+              <option value="all">All Actions</option>
+              <option value="create">Create</option>
+              <option value="update">Update</option>
+              <option value="delete">Delete</option>
+              <option value="merge">Merge</option>
+              <option value="discharge">Discharge</option>
+              <option value="transfer">Transfer</option>
+              <option value="complete">Complete</option>
+              <option value="sign">Sign</option>
+              <option value="cosign">Co-sign</option>
+              <option value="return">Return</option>
+              <option value="reset_pin">PIN Reset</option>
+            </select>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Calendar className="h-5 w-5 text-gray-400 flex-shrink-0" />
+            <input
+              type="date"
+              value={filters.dateFrom}
+              onChange={(e) => updateFilter('dateFrom', e.target.value)}
+              className="w-full px-2 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-600 focus:border-transparent text-sm"
+            />
+            <input
+              type="date"
+              value={filters.dateTo}
+              onChange={(e) => updateFilter('dateTo', e.target.value)}
+              className="w-full px-2 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-600 focus:border-transparent text-sm"
+            />
+          </div>
+        </div>
+
+        {(exportError || error) && (
+          <div className="mb-6 p-4 bg-red-50 text-red-700 rounded-lg flex items-center space-x-2">
+            <AlertCircle className="h-5 w-5" />
+            <span>{exportError || error}</span>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="w-8 h-8 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            No audit entries match the current filters
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="w-8 px-4 py-3"></th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Timestamp</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Action</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Record</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Description</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {entries.map(entry => {
+                  const isExpanded = expandedId === entry.id;
+                  const changedFields = isExpanded ? getChangedFields(entry) : [];
+
+                  return (
+                    <React.Fragment key={entry.id}>
+                      <tr
+                        onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                        className="hover:bg-gray-50 cursor-pointer"
+                      >
+                        <td className="px-4 py-3 text-gray-400">
+                          {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                          {format(new Date(entry.created_at), 'dd/MM/yyyy HH:mm:ss')}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          <p className="text-sm text-gray-900">{entry.actor_name}</p>
+                          {entry.actor_role && <p className="text-xs text-gray-500">{entry.actor_role}</p>}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${ACTION_STYLES[entry.action] || 'bg-gray-100 text-gray-800'}`}>
+                            {entry.action.replace('_', ' ')}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                          {ENTITY_LABELS[entry.entity_type] || entry.entity_type}
+                          {entry.entity_id && <span className="ml-1 text-gray-500 font-mono">#{entry.entity_id}</span>}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-600">{entry.summary}</td>
+                      </tr>
+                      {isExpanded && (
+                        <tr className="bg-gray-50">
+                          <td colSpan={6} className="px-12 py-4">
+                            {changedFields.length === 0 ? (
+                              <p className="text-sm text-gray-500">No field values were recorded for this action</p>
+                            ) : (
+                              <table className="min-w-full text-sm">
+                                <thead>
+                                  <tr>
+                                    <th className="py-1 pr-4 text-left text-xs font-medium text-gray-500 uppercase">Field</th>
+                                    <th className="py-1 pr-4 text-left text-xs font-medium text-gray-500 uppercase">Before</th>
+                                    <th className="py-1 text-left text-xs font-medium text-gray-500 uppercase">After</th>
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {changedFields.map(change => (
+                                    <tr key={change.field} className="align-top">
+                                      <td className="py-1 pr-4 font-mono text-gray-700">{change.field}</td>
+                                      <td className="py-1 pr-4 text-red-700 break-all">{formatValue(change.before)}</td>
+                                      <td className="py-1 text-green-700 break-all">{formatValue(change.after)}</td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AuditLog;
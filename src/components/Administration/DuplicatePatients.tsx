@@ -0,0 +1,292 @@
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { Users, GitMerge, AlertCircle, Check, X, RefreshCw } from 'lucide-react';
+import { usePatientMergeStore } from '../../stores/usePatientMergeStore';
+import type { Patient } from '../../types/patient';
+import type { DuplicatePair, MergePreview, RecordCounts } from '../../types/patientMerge';
+
+const REASON_LABELS: Record<DuplicatePair['reason'], string> = {
+  same_mrn: 'Same MRN',
+  similar_name_dob: 'Similar name and date of birth'
+};
+
+const RECORD_LABELS: Array<{ key: keyof RecordCounts; label: string }> = [
+  { key: 'admissions', label: 'Admissions' },
+  { key: 'medical_notes', label: 'Medical notes' },
+  { key: 'long_stay_notes', label: 'Long stay notes' },
+  { key: 'consultations', label: 'Consultations' }
+];
+
+const PatientSummary: React.FC<{ patient: Patient }> = ({ patient }) => (
+  <div>
+    <p className="text-sm font-medium text-gray-900">{patient.name}</p>
+    <p className="text-xs text-gray-500">
+      MRN {patient.mrn} · #{patient.id} · {patient.gender} · DOB {format(new Date(patient.date_of_birth), 'dd/MM/yyyy')}
+    </p>
+  </div>
+);
+
+const DuplicatePatients: React.FC = () => {
+  const { duplicates, loading, error, fetchDuplicates, fetchMergePreview, mergePatients } = usePatientMergeStore();
+  const [selectedPair, setSelectedPair] = useState<DuplicatePair | null>(null);
+  const [survivorId, setSurvivorId] = useState<number | null>(null);
+  const [preview, setPreview] = useState<MergePreview | null>(null);
+  const [loadingPreview, setLoadingPreview] = useState(false);
+  const [merging, setMerging] = useState(false);
+  const [formError, setFormError] = useState('');
+  const [mergedMessage, setMergedMessage] = useState('');
+
+  useEffect(() => {
+    fetchDuplicates();
+  }, [fetchDuplicates]);
+
+  useEffect(() => {
+    if (!selectedPair || survivorId === null) return;
+
+    const duplicateId = survivorId === selectedPair.patient_id ? selectedPair.duplicate_id : selectedPair.patient_id;
+    let cancelled = false;
+
+    setLoadingPreview(true);
+    setFormError('');
+    fetchMergePreview(survivorId, duplicateId)
+      .then(result => {
+        if (!cancelled) setPreview(result);
+      })
+      .catch(err => {
+        if (!cancelled) setFormError(err instanceof Error ? err.message : 'Failed to load merge preview');
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingPreview(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedPair, survivorId, fetchMergePreview]);
+
+  const openReview = (pair: DuplicatePair) => {
+    setMergedMessage('');
+    setPreview(null);
+    setSelectedPair(pair);
+    // Default to keeping the older record, which usually holds the longer history
+    setSurvivorId(pair.patient_id);
+  };
+
+  const closeReview = () => {
+    setSelectedPair(null);
+    setSurvivorId(null);
+    setPreview(null);
+    setFormError('');
+  };
+
+  const handleMerge = async () => {
+    if (!preview) return;
+
+    setMerging(true);
+    setFormError('');
+    try {
+      await mergePatients(preview.survivor.id, preview.duplicate.id);
+      setMergedMessage(`Merged ${preview.duplicate.name} (#${preview.duplicate.id}) into ${preview.survivor.name} (#${preview.survivor.id})`);
+      closeReview();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to merge patient records');
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const hasBothActive = preview !== null &&
+    preview.survivor.admissions?.some(a => a.status === 'active') &&
+    preview.duplicate.admissions?.some(a => a.status === 'active');
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+      <div className="p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-3">
+            <Users className="h-6 w-6 text-gray-400" />
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">Duplicate Patients</h2>
+              <p className="text-sm text-gray-500">Charts sharing an MRN, or with a similar name and date of birth</p>
+            </div>
+          </div>
+          <button
+            onClick={() => fetchDuplicates()}
+            disabled={loading}
+            className="flex items-center px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Rescan
+          </button>
+        </div>
+
+        {mergedMessage && (
+          <div className="mb-6 p-4 bg-green-50 text-green-700 rounded-lg flex items-center space-x-2">
+            <Check className="h-5 w-5" />
+            <span>{mergedMessage}</span>
+          </div>
+        )}
+
+        {error && !selectedPair && (
+          <div className="mb-6 p-4 bg-red-50 text-red-700 rounded-lg flex items-center space-x-2">
+            <AlertCircle className="h-5 w-5" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {loading && !selectedPair ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="w-8 h-8 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : duplicates.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            No likely duplicate patients found
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {duplicates.map(pair => (
+              <div
+                key={`${pair.patient_id}-${pair.duplicate_id}`}
+                className="flex items-center justify-between p-4 border border-gray-200 rounded-lg hover:bg-gray-50"
+              >
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 flex-1">
+                  <PatientSummary patient={pair.patient} />
+                  <PatientSummary patient={pair.duplicate} />
+                </div>
+                <div className="flex items-center space-x-4 ml-4">
+                  <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                    pair.reason === 'same_mrn' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'
+                  }`}>
+                    {REASON_LABELS[pair.reason]}
+                    {pair.reason === 'similar_name_dob' && ` (${Math.round(pair.name_similarity * 100)}%)`}
+                  </span>
+                  <button
+                    onClick={() => openReview(pair)}
+                    className="flex items-center px-3 py-1 bg-indigo-600 text-white text-sm rounded-lg hover:bg-indigo-700"
+                  >
+                    <GitMerge className="h-4 w-4 mr-1" />
+                    Review
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {selectedPair && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900">Merge Patient Records</h3>
+              <button onClick={closeReview} className="p-2 text-gray-400 hover:text-gray-600 rounded-lg">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-6">
+              <p className="text-sm text-gray-600">
+                Choose the record to keep. All clinical records from the other chart will be moved to it and the other chart will be deleted.
+              </p>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {[selectedPair.patient, selectedPair.duplicate].map(patient => (
+                  <label
+                    key={patient.id}
+                    className={`p-4 border rounded-lg cursor-pointer ${
+                      survivorId === patient.id ? 'border-indigo-600 bg-indigo-50' : 'border-gray-200 hover:bg-gray-50'
+                    }`}
+                  >
+                    <div className="flex items-start space-x-3">
+                      <input
+                        type="radio"
+                        name="survivor"
+                        checked={survivorId === patient.id}
+                        onChange={() => setSurvivorId(patient.id)}
+                        disabled={merging}
+                        className="mt-1 h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300"
+                      />
+                      <div>
+                        <PatientSummary patient={patient} />
+                        <p className="mt-1 text-xs font-medium text-gray-600">
+                          {survivorId === patient.id ? 'Keep this record' : 'Merge into the other record'}
+                        </p>
+                      </div>
+                    </div>
+                  </label>
+                ))}
+              </div>
+
+              {loadingPreview ? (
+                <div className="flex items-center justify-center h-32">
+                  <div className="w-8 h-8 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin"></div>
+                </div>
+              ) : preview && (
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Record</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Kept chart</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Moved in</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">After merge</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {RECORD_LABELS.map(({ key, label }) => (
+                      <tr key={key}>
+                        <td className="px-4 py-2 text-sm text-gray-900">{label}</td>
+                        <td className="px-4 py-2 text-sm text-gray-600">{preview.survivorCounts[key]}</td>
+                        <td className="px-4 py-2 text-sm text-gray-600">+{preview.duplicateCounts[key]}</td>
+                        <td className="px-4 py-2 text-sm font-medium text-gray-900">
+                          {preview.survivorCounts[key] + preview.duplicateCounts[key]}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+
+              {preview && preview.survivor.mrn !== preview.duplicate.mrn && (
+                <p className="text-sm text-yellow-700 bg-yellow-50 p-3 rounded-lg">
+                  The charts have different MRNs. Consultations moved in will be relabelled with MRN {preview.survivor.mrn}.
+                </p>
+              )}
+
+              {hasBothActive && (
+                <p className="text-sm text-red-700 bg-red-50 p-3 rounded-lg">
+                  Both records have an active admission. Discharge one before merging.
+                </p>
+              )}
+
+              {formError && (
+                <div className="p-4 bg-red-50 text-red-700 rounded-lg flex items-center space-x-2">
+                  <AlertCircle className="h-5 w-5" />
+                  <span>{formError}</span>
+                </div>
+              )}
+            </div>
+
+            <div className="flex justify-end space-x-4 p-6 border-t border-gray-200">
+              <button
+                onClick={closeReview}
+                disabled={merging}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleMerge}
+                disabled={!preview || loadingPreview || merging || hasBothActive}
+                className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {merging ? 'Merging...' : 'Merge Records'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DuplicatePatients;
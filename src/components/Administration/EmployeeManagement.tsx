@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, Search, Filter, Edit2, Trash2, AlertCircle } from 'lucide-react';
+import { Plus, Search, Filter, Edit2, Trash2, AlertCircle, KeyRound, X } from 'lucide-react';
 import { useUserStore } from '../../stores/useUserStore';
 import type { User } from '../../types/user';
 
@@ -37,7 +37,7 @@ const departments = [
 ] as const;
 
 const EmployeeManagement: React.FC = () => {
-  const { users, loading, error, fetchUsers, addUser, updateUser, deleteUser } = useUserStore();
+  const { users, loading, error, fetchUsers, addUser, updateUser, deleteUser, resetPin } = useUserStore();
   const [showForm, setShowForm] = useState(false);
   const [formData, setFormData] = useState<EmployeeFormData>(initialFormData);
   const [searchQuery, setSearchQuery] = useState('');
@@ -45,6 +45,8 @@ const EmployeeManagement: React.FC = () => {
   const [editingId, setEditingId] = useState<number | null>(null);
   const [deleteConfirm, setDeleteConfirm] = useState<number | null>(null);
   const [formError, setFormError] = useState('');
+  const [resetConfirm, setResetConfirm] = useState<number | null>(null);
+  const [issuedPin, setIssuedPin] = useState<{ name: string; pin: string } | null>(null);
 
   useEffect(() => {
     fetchUsers();
@@ -77,7 +79,9 @@ const EmployeeManagement: React.FC = () => {
       if (editingId) {
         await updateUser(editingId, formData);
       } else {
-        await addUser(formData);
+        const newUser = await addUser(formData);
+        const pin = await resetPin(newUser.id);
+        setIssuedPin({ name: newUser.name, pin });
       }
       setShowForm(false);
       setFormData(initialFormData);
@@ -108,6 +112,16 @@ const EmployeeManagement: React.FC = () => {
     }
   };
 
+  const handleResetPin = async (user: User) => {
+    try {
+      const pin = await resetPin(user.id);
+      setIssuedPin({ name: user.name, pin });
+      setResetConfirm(null);
+    } catch (error) {
+      console.error('Error resetting PIN:', error);
+    }
+  };
+
   const filteredUsers = users.filter(user => {
     const matchesSearch = 
       user.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -152,6 +166,32 @@ const EmployeeManagement: React.FC = () => {
           </div>
         )}
 
+        {issuedPin && (
+          <div className="mb-6 p-4 bg-indigo-50 border border-indigo-200 rounded-lg flex items-start justify-between">
+            <div className="flex items-start space-x-3">
+              <KeyRound className="h-5 w-5 text-indigo-600 mt-0.5" />
+              <div>
+                <p className="text-sm font-medium text-gray-900">
+                  Temporary PIN for {issuedPin.name}
+                </p>
+                <p className="text-2xl font-mono font-bold text-indigo-700 tracking-widest my-1">
+                  {issuedPin.pin}
+                </p>
+                <p className="text-sm text-gray-600">
+                  Hand this PIN to the employee in person. It will not be shown again and must be changed at first sign-in.
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={() => setIssuedPin(null)}
+              className="p-1 text-gray-500 hover:text-gray-700 rounded-lg"
+              aria-label="Dismiss temporary PIN"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+
         {showForm && (
           <div className="mb-6 p-4 border border-gray-200 rounded-lg">
             <form onSubmit={handleSubmit} className="space-y-4">
@@ -328,6 +368,30 @@ const EmployeeManagement: React.FC = () => {
                 >
                   <Edit2 className="h-4 w-4" />
                 </button>
+                {resetConfirm === user.id ? (
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => handleResetPin(user)}
+                      className="px-3 py-1 bg-indigo-600 text-white text-sm rounded-lg hover:bg-indigo-700"
+                    >
+                      Reset PIN
+                    </button>
+                    <button
+                      onClick={() => setResetConfirm(null)}
+                      className="px-3 py-1 border border-gray-300 text-sm rounded-lg hover:bg-gray-50"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                ) : (
+                  <button
+                    onClick={() => setResetConfirm(user.id)}
+                    className="p-2 text-gray-600 hover:text-indigo-600 hover:bg-gray-100 rounded-lg"
+                    title="Reset PIN"
+                  >
+                    <KeyRound className="h-4 w-4" />
+                  </button>
+                )}
                 {deleteConfirm === user.id ? (
                   <div className="flex items-center space-x-2">
                     <button
@@ -0,0 +1,233 @@
+import React, { useState, useEffect } from 'react';
+import { FileText, AlertCircle, Check, Plus, ArrowUp, ArrowDown, Trash2 } from 'lucide-react';
+import { useNoteTemplateStore } from '../../stores/useNoteTemplateStore';
+import { DEFAULT_NOTE_TEMPLATES, NOTE_TYPES } from '../../config/noteTemplates';
+import { getTemplateSections, validateTemplateSections } from '../../utils/noteTemplates';
+import { formatDateTime } from '../../utils/dateFormat';
+import type { NoteTemplateSection, NoteType } from '../../types/note';
+
+const NoteTemplates: React.FC = () => {
+  const { templates, loading, error, fetchTemplates, saveTemplate } = useNoteTemplateStore();
+  const [noteType, setNoteType] = useState<NoteType>('Progress Note');
+  const saved = getTemplateSections(templates, noteType);
+  const [draft, setDraft] = useState<NoteTemplateSection[]>(saved);
+  const [saving, setSaving] = useState(false);
+  const [justSaved, setJustSaved] = useState(false);
+  const [formError, setFormError] = useState('');
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  useEffect(() => {
+    setDraft(getTemplateSections(templates, noteType));
+    setFormError('');
+  }, [templates, noteType]);
+
+  const hasChanges = JSON.stringify(draft) !== JSON.stringify(saved);
+  const validationErrors = validateTemplateSections(draft);
+  const isValid = Object.keys(validationErrors).length === 0;
+  const template = templates[noteType];
+
+  const updateSection = (index: number, changes: Partial<NoteTemplateSection>) => {
+    setJustSaved(false);
+    setDraft(prev => prev.map((section, i) => i === index ? { ...section, ...changes } : section));
+  };
+
+  const moveSection = (index: number, offset: number) => {
+    setJustSaved(false);
+    setDraft(prev => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const removeSection = (index: number) => {
+    setJustSaved(false);
+    setDraft(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const addSection = () => {
+    setJustSaved(false);
+    setDraft(prev => [...prev, { key: '', label: '', required: false, placeholder: null }]);
+  };
+
+  const handleSave = async () => {
+    setFormError('');
+    setSaving(true);
+    try {
+      await saveTemplate(noteType, draft);
+      setJustSaved(true);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to save the template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+      <div className="p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-3">
+            <FileText className="h-6 w-6 text-gray-400" />
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">Note Templates</h2>
+              <p className="text-sm text-gray-500">
+                Sections offered when writing each type of note. Existing notes keep the sections they were written with.
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-3">
+            {justSaved && !hasChanges && (
+              <span className="flex items-center text-sm text-green-600">
+                <Check className="h-4 w-4 mr-1" />
+                Saved
+              </span>
+            )}
+            <button
+              onClick={() => setDraft(DEFAULT_NOTE_TEMPLATES[noteType])}
+              disabled={saving}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Reset to Default
+            </button>
+            <button
+              onClick={() => setDraft(saved)}
+              disabled={!hasChanges || saving}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Discard
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!hasChanges || saving || !isValid}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving...' : 'Save Changes'}
+            </button>
+          </div>
+        </div>
+
+        {(formError || error || validationErrors.general) && (
+          <div className="mb-6 p-4 bg-red-50 text-red-700 rounded-lg flex items-center space-x-2">
+            <AlertCircle className="h-5 w-5" />
+            <span>{formError || error || validationErrors.general}</span>
+          </div>
+        )}
+
+        {loading && !saving ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="w-8 h-8 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+            <div className="space-y-1">
+              {NOTE_TYPES.map(type => (
+                <button
+                  key={type}
+                  onClick={() => {
+                    setJustSaved(false);
+                    setNoteType(type);
+                  }}
+                  disabled={saving}
+                  className={`w-full text-left px-4 py-2 rounded-lg text-sm ${
+                    noteType === type ? 'bg-indigo-50 text-indigo-700 font-medium' : 'text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {type}
+                </button>
+              ))}
+            </div>
+
+            <div className="lg:col-span-3 space-y-3">
+              <p className="text-xs text-gray-500">
+                {template
+                  ? `Last changed ${formatDateTime(template.updated_at)}${template.updater ? ` by ${template.updater.name}` : ''}`
+                  : 'Using the built-in default'}
+              </p>
+
+              {draft.map((section, index) => (
+                <div key={index} className="p-4 border border-gray-200 rounded-lg space-y-3">
+                  <div className="flex items-start space-x-3">
+                    <div className="flex-1">
+                      <input
+                        type="text"
+                        value={section.label}
+                        onChange={(e) => updateSection(index, { label: e.target.value })}
+                        disabled={saving}
+                        placeholder="Section name, e.g. Assessment"
+                        className={`w-full px-3 py-2 rounded-lg border ${
+                          validationErrors[`label_${index}`] ? 'border-red-300' : 'border-gray-300'
+                        } focus:ring-2 focus:ring-indigo-600 focus:border-transparent`}
+                      />
+                      {validationErrors[`label_${index}`] && (
+                        <p className="mt-1 text-sm text-red-600">{validationErrors[`label_${index}`]}</p>
+                      )}
+                    </div>
+                    <label className="flex items-center space-x-2 pt-2">
+                      <input
+                        type="checkbox"
+                        checked={section.required}
+                        onChange={(e) => updateSection(index, { required: e.target.checked })}
+                        disabled={saving}
+                        className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                      />
+                      <span className="text-sm text-gray-700">Required</span>
+                    </label>
+                    <div className="flex items-center space-x-1 pt-1">
+                      <button
+                        onClick={() => moveSection(index, -1)}
+                        disabled={saving || index === 0}
+                        title="Move up"
+                        className="p-1.5 text-gray-400 hover:text-gray-600 rounded disabled:opacity-30"
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => moveSection(index, 1)}
+                        disabled={saving || index === draft.length - 1}
+                        title="Move down"
+                        className="p-1.5 text-gray-400 hover:text-gray-600 rounded disabled:opacity-30"
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => removeSection(index)}
+                        disabled={saving}
+                        title="Remove section"
+                        className="p-1.5 text-red-400 hover:text-red-600 rounded"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+                  <input
+                    type="text"
+                    value={section.placeholder || ''}
+                    onChange={(e) => updateSection(index, { placeholder: e.target.value || null })}
+                    disabled={saving}
+                    placeholder="Hint shown in the empty section (optional)"
+                    className="w-full px-3 py-2 text-sm rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+                  />
+                </div>
+              ))}
+
+              <button
+                onClick={addSection}
+                disabled={saving}
+                className="flex items-center text-sm text-indigo-600 hover:text-indigo-700"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Section
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NoteTemplates;
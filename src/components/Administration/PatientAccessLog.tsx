@@ -0,0 +1,346 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { format } from 'date-fns';
+import { Eye, Search, Filter, Calendar, Download, AlertCircle, AlertTriangle } from 'lucide-react';
+import { usePatientAccessStore } from '../../stores/usePatientAccessStore';
+import { useUserStore } from '../../stores/useUserStore';
+import { usePermissions } from '../../hooks/usePermissions';
+import { exportAccessLogToCSV } from '../../utils/auditExport';
+import type { PatientAccessEntry, PatientAccessFilters, PatientAccessType } from '../../types/audit';
+
+type GroupBy = 'patient' | 'user';
+
+interface AccessSummary {
+  key: string;
+  label: string;
+  detail: string;
+  userId?: number | null;
+  mrn?: string;
+  total: number;
+  flagged: number;
+  lastAccess: string;
+}
+
+const ACCESS_LABELS: Record<PatientAccessType, string> = {
+  view: 'Viewed',
+  print: 'Printed',
+  share: 'Shared',
+  copy: 'Copied'
+};
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const summarize = (entries: PatientAccessEntry[], groupBy: GroupBy): AccessSummary[] => {
+  const summaries = new Map<string, AccessSummary>();
+
+  // Entries arrive newest first, so the first one seen per group is the latest access
+  entries.forEach(entry => {
+    const key = groupBy === 'patient' ? entry.patient_mrn : `${entry.user_id ?? entry.user_name}`;
+    const existing = summaries.get(key);
+
+    if (existing) {
+      existing.total += 1;
+      existing.flagged += entry.has_care_relationship ? 0 : 1;
+      return;
+    }
+
+    summaries.set(key, {
+      key,
+      label: groupBy === 'patient' ? entry.patient_name : entry.user_name,
+      detail: groupBy === 'patient'
+        ? `MRN ${entry.patient_mrn}`
+        : [entry.user_role, entry.user_department].filter(Boolean).join(' · '),
+      userId: entry.user_id,
+      mrn: entry.patient_mrn,
+      total: 1,
+      flagged: entry.has_care_relationship ? 0 : 1,
+      lastAccess: entry.accessed_at
+    });
+  });
+
+  return Array.from(summaries.values()).sort((a, b) => b.flagged - a.flagged || b.total - a.total);
+};
+
+const PatientAccessLog: React.FC = () => {
+  const { entries, loading, error, fetchAccessLog } = usePatientAccessStore();
+  const { users, fetchUsers } = useUserStore();
+  const { can } = usePermissions();
+  const [filters, setFilters] = useState<PatientAccessFilters>({
+    patientQuery: '',
+    userId: 'all',
+    accessType: 'all',
+    flaggedOnly: false,
+    dateFrom: '',
+    dateTo: ''
+  });
+  const [groupBy, setGroupBy] = useState<GroupBy>('patient');
+  const [exportError, setExportError] = useState('');
+
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers]);
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => fetchAccessLog(filters), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeoutId);
+  }, [filters, fetchAccessLog]);
+
+  const summaries = useMemo(() => summarize(entries, groupBy), [entries, groupBy]);
+  const flaggedCount = entries.filter(entry => !entry.has_care_relationship).length;
+
+  const updateFilter = <K extends keyof PatientAccessFilters>(key: K, value: PatientAccessFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleSummaryClick = (summary: AccessSummary) => {
+    if (groupBy === 'patient' && summary.mrn) {
+      updateFilter('patientQuery', summary.mrn);
+    } else if (groupBy === 'user' && summary.userId) {
+      updateFilter('userId', summary.userId);
+    }
+  };
+
+  const handleExport = () => {
+    setExportError('');
+    try {
+      exportAccessLogToCSV(entries);
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : 'Failed to export access log');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+      <div className="p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-3">
+            <Eye className="h-6 w-6 text-gray-400" />
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">Chart Access</h2>
+              <p className="text-sm text-gray-500">Who viewed, printed or shared each patient record</p>
+            </div>
+          </div>
+          {can('reports.export') && (
+            <button
+              onClick={handleExport}
+              disabled={entries.length === 0}
+              className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </button>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+            <input
+              type="text"
+              placeholder="Patient name or MRN..."
+              value={filters.patientQuery}
+              onChange={(e) => updateFilter('patientQuery', e.target.value)}
+              className="w-full pl-10 pr-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+            />
+          </div>
+
+          <div className="relative">
+            <Filter className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+            <select
+              value={filters.userId}
+              onChange={(e) => updateFilter('userId', e.target.value === 'all' ? 'all' : Number(e.target.value))}
+              className="w-full pl-10 pr-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+            >
+              <option value="all">All Users</option>
+              {users.map(user => (
+                <option key={user.id} value={user.id}>{user.name} ({user.medical_code})</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="relative">
+            <Filter className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+            <select
+              value={filters.accessType}
+              onChange={(e) => updateFilter('accessType', e.target.value as PatientAccessFilters['accessType'])}
+              className="w-full pl-10 pr-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+            >
+              <option value="all">All Access Types</option>
+              {(Object.keys(ACCESS_LABELS) as PatientAccessType[]).map(type => (
+                <option key={type} value={type}>{ACCESS_LABELS[type]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Calendar className="h-5 w-5 text-gray-400 flex-shrink-0" />
+            <input
+              type="date"
+              value={filters.dateFrom}
+              onChange={(e) => updateFilter('dateFrom', e.target.value)}
+              className="w-full px-2 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-600 focus:border-transparent text-sm"
+            />
+            <input
+              type="date"
+              value={filters.dateTo}
+              onChange={(e) => updateFilter('dateTo', e.target.value)}
+              className="w-full px-2 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-600 focus:border-transparent text-sm"
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between mb-6">
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={filters.flaggedOnly}
+              onChange={(e) => updateFilter('flaggedOnly', e.target.checked)}
+              className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+            />
+            <span>Only show access without a care relationship</span>
+          </label>
+          <div className="flex rounded-lg border border-gray-200 p-1">
+            {(['patient', 'user'] as GroupBy[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setGroupBy(option)}
+                className={`px-3 py-1 text-sm rounded-md ${
+                  groupBy === option ? 'bg-indigo-600 text-white' : 'text-gray-600 hover:bg-gray-50'
+                }`}
+              >
+                By {option === 'patient' ? 'Patient' : 'User'}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {(exportError || error) && (
+          <div className="mb-6 p-4 bg-red-50 text-red-700 rounded-lg flex items-center space-x-2">
+            <AlertCircle className="h-5 w-5" />
+            <span>{exportError || error}</span>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="w-8 h-8 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            No chart access matches the current filters
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="p-4 bg-gray-50 rounded-lg">
+                <p className="text-sm text-gray-600">Access Events</p>
+                <p className="text-2xl font-semibold text-gray-900">{entries.length}</p>
+              </div>
+              <div className="p-4 bg-gray-50 rounded-lg">
+                <p className="text-sm text-gray-600">{groupBy === 'patient' ? 'Patients' : 'Users'}</p>
+                <p className="text-2xl font-semibold text-gray-900">{summaries.length}</p>
+              </div>
+              <div className={`p-4 rounded-lg ${flaggedCount > 0 ? 'bg-red-50' : 'bg-gray-50'}`}>
+                <p className="text-sm text-gray-600">Without Care Relationship</p>
+                <p className={`text-2xl font-semibold ${flaggedCount > 0 ? 'text-red-700' : 'text-gray-900'}`}>{flaggedCount}</p>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {groupBy === 'patient' ? 'Patient' : 'User'}
+                    </th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Accesses</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Flagged</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Access</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {summaries.map(summary => (
+                    <tr
+                      key={summary.key}
+                      onClick={() => handleSummaryClick(summary)}
+                      className="hover:bg-gray-50 cursor-pointer"
+                    >
+                      <td className="px-4 py-3">
+                        <p className="text-sm font-medium text-gray-900">{summary.label}</p>
+                        <p className="text-xs text-gray-500">{summary.detail}</p>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-900">{summary.total}</td>
+                      <td className="px-4 py-3">
+                        {summary.flagged > 0 ? (
+                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                            <AlertTriangle className="h-3 w-3 mr-1" />
+                            {summary.flagged}
+                          </span>
+                        ) : (
+                          <span className="text-sm text-gray-400">0</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600">
+                        {format(new Date(summary.lastAccess), 'dd/MM/yyyy HH:mm')}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div>
+              <h3 className="text-sm font-semibold text-gray-900 mb-3">Access Events</h3>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Timestamp</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Patient</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Access</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Care Relationship</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {entries.map(entry => (
+                      <tr key={entry.id} className={entry.has_care_relationship ? '' : 'bg-red-50'}>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                          {format(new Date(entry.accessed_at), 'dd/MM/yyyy HH:mm:ss')}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          <p className="text-sm text-gray-900">{entry.patient_name}</p>
+                          <p className="text-xs text-gray-500">MRN {entry.patient_mrn}</p>
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          <p className="text-sm text-gray-900">{entry.user_name}</p>
+                          <p className="text-xs text-gray-500">
+                            {[entry.user_role, entry.user_department].filter(Boolean).join(' · ')}
+                          </p>
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-600">
+                          {ACCESS_LABELS[entry.access_type]}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          {entry.has_care_relationship ? (
+                            <span className="text-sm text-gray-600">Yes</span>
+                          ) : (
+                            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                              <AlertTriangle className="h-3 w-3 mr-1" />
+                              None
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PatientAccessLog;
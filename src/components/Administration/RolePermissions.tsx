@@ -0,0 +1,155 @@
+import React, { useState, useEffect } from 'react';
+import { Shield, AlertCircle, Check } from 'lucide-react';
+import { usePermissionStore } from '../../stores/usePermissionStore';
+import { PERMISSION_DEFINITIONS, ROLES, LOCKED_PERMISSIONS, isPermissionAllowed } from '../../config/permissions';
+import type { Permission, Role, RolePermissions as RolePermissionsMatrix } from '../../types/permission';
+
+const permissionGroups = Array.from(new Set(PERMISSION_DEFINITIONS.map(d => d.group)));
+
+const RolePermissions: React.FC = () => {
+  const { rolePermissions, loading, error, fetchRolePermissions, updateRolePermissions } = usePermissionStore();
+  const [draft, setDraft] = useState<RolePermissionsMatrix>(rolePermissions);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [formError, setFormError] = useState('');
+
+  useEffect(() => {
+    fetchRolePermissions();
+  }, [fetchRolePermissions]);
+
+  useEffect(() => {
+    setDraft(rolePermissions);
+  }, [rolePermissions]);
+
+  const isLocked = (role: Role, permission: Permission) =>
+    LOCKED_PERMISSIONS[role]?.includes(permission) ?? false;
+
+  const togglePermission = (role: Role, permission: Permission) => {
+    if (isLocked(role, permission) || !isPermissionAllowed(role, permission)) return;
+    setSaved(false);
+    setDraft(prev => ({
+      ...prev,
+      [role]: prev[role].includes(permission)
+        ? prev[role].filter(p => p !== permission)
+        : [...prev[role], permission]
+    }));
+  };
+
+  const changedRoles = ROLES.filter(role => {
+    const current = [...rolePermissions[role]].sort().join(',');
+    const next = [...draft[role]].sort().join(',');
+    return current !== next;
+  });
+
+  const handleSave = async () => {
+    setFormError('');
+    setSaving(true);
+    try {
+      await updateRolePermissions(
+        Object.fromEntries(changedRoles.map(role => [role, draft[role]]))
+      );
+      setSaved(true);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to save permissions');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+      <div className="p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-3">
+            <Shield className="h-6 w-6 text-gray-400" />
+            <h2 className="text-lg font-semibold text-gray-900">Role Permissions</h2>
+          </div>
+          <div className="flex items-center space-x-3">
+            {saved && changedRoles.length === 0 && (
+              <span className="flex items-center text-sm text-green-600">
+                <Check className="h-4 w-4 mr-1" />
+                Saved
+              </span>
+            )}
+            <button
+              onClick={() => setDraft(rolePermissions)}
+              disabled={changedRoles.length === 0 || saving}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Discard
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={changedRoles.length === 0 || saving}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving...' : 'Save Changes'}
+            </button>
+          </div>
+        </div>
+
+        {(formError || error) && (
+          <div className="mb-6 p-4 bg-red-50 text-red-700 rounded-lg flex items-center space-x-2">
+            <AlertCircle className="h-5 w-5" />
+            <span>{formError || error}</span>
+          </div>
+        )}
+
+        {loading && !saving ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="w-8 h-8 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead>
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Permission
+                  </th>
+                  {ROLES.map(role => (
+                    <th key={role} className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {role}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {permissionGroups.map(group => (
+                  <React.Fragment key={group}>
+                    <tr className="bg-gray-50">
+                      <td colSpan={ROLES.length + 1} className="px-4 py-2 text-xs font-semibold text-gray-600 uppercase">
+                        {group}
+                      </td>
+                    </tr>
+                    {PERMISSION_DEFINITIONS.filter(d => d.group === group).map(definition => (
+                      <tr key={definition.id}>
+                        <td className="px-4 py-3">
+                          <p className="text-sm text-gray-900">{definition.label}</p>
+                          <p className="text-xs text-gray-500 font-mono">{definition.id}</p>
+                        </td>
+                        {ROLES.map(role => (
+                          <td key={role} className="px-4 py-3 text-center">
+                            <input
+                              type="checkbox"
+                              checked={draft[role].includes(definition.id)}
+                              onChange={() => togglePermission(role, definition.id)}
+                              disabled={isLocked(role, definition.id) || !isPermissionAllowed(role, definition.id) || saving}
+                              className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded disabled:opacity-50"
+                            />
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RolePermissions;
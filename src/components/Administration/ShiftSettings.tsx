@@ -0,0 +1,174 @@
+import React, { useState, useEffect } from 'react';
+import { Clock, AlertCircle, Check } from 'lucide-react';
+import { useSettingsStore } from '../../stores/useSettingsStore';
+import { DAY_LABELS, SHIFT_LABELS, WEEKDAY_SHIFTS, WEEKEND_SHIFTS } from '../../config/shifts';
+import { validateShiftSchedule } from '../../utils/shiftCalculator';
+import type { ShiftSchedule, ShiftType } from '../../types/settings';
+
+const ShiftSettings: React.FC = () => {
+  const { shiftSchedule, loading, error, fetchSettings, updateShiftSchedule } = useSettingsStore();
+  const [draft, setDraft] = useState<ShiftSchedule>(shiftSchedule);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [formError, setFormError] = useState('');
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  useEffect(() => {
+    setDraft(shiftSchedule);
+  }, [shiftSchedule]);
+
+  const hasChanges = JSON.stringify(draft) !== JSON.stringify(shiftSchedule);
+  const validationError = validateShiftSchedule(draft);
+
+  const updateWindow = (shift: ShiftType, field: 'start' | 'end', value: string) => {
+    setSaved(false);
+    setDraft(prev => ({
+      ...prev,
+      windows: { ...prev.windows, [shift]: { ...prev.windows[shift], [field]: value } }
+    }));
+  };
+
+  const toggleWeekendDay = (day: number) => {
+    setSaved(false);
+    setDraft(prev => ({
+      ...prev,
+      weekend_days: prev.weekend_days.includes(day)
+        ? prev.weekend_days.filter(d => d !== day)
+        : [...prev.weekend_days, day].sort()
+    }));
+  };
+
+  const handleSave = async () => {
+    setFormError('');
+    setSaving(true);
+    try {
+      await updateShiftSchedule(draft);
+      setSaved(true);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to save shift schedule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderShiftRows = (shifts: ShiftType[]) => shifts.map(shift => (
+    <div key={shift} className="grid grid-cols-3 gap-4 items-center">
+      <span className="text-sm text-gray-900">{SHIFT_LABELS[shift]}</span>
+      <input
+        type="time"
+        value={draft.windows[shift].start}
+        onChange={(e) => updateWindow(shift, 'start', e.target.value)}
+        disabled={saving}
+        className="px-3 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+      />
+      <input
+        type="time"
+        value={draft.windows[shift].end}
+        onChange={(e) => updateWindow(shift, 'end', e.target.value)}
+        disabled={saving}
+        className="px-3 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+      />
+    </div>
+  ));
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+      <div className="p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-3">
+            <Clock className="h-6 w-6 text-gray-400" />
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">Shift Schedule</h2>
+              <p className="text-sm text-gray-500">
+                Admissions and consultations are assigned to a shift from the time they are recorded
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-3">
+            {saved && !hasChanges && (
+              <span className="flex items-center text-sm text-green-600">
+                <Check className="h-4 w-4 mr-1" />
+                Saved
+              </span>
+            )}
+            <button
+              onClick={() => setDraft(shiftSchedule)}
+              disabled={!hasChanges || saving}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Discard
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!hasChanges || saving || validationError !== null}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving...' : 'Save Changes'}
+            </button>
+          </div>
+        </div>
+
+        {(formError || error || (hasChanges && validationError)) && (
+          <div className="mb-6 p-4 bg-red-50 text-red-700 rounded-lg flex items-center space-x-2">
+            <AlertCircle className="h-5 w-5" />
+            <span>{formError || error || validationError}</span>
+          </div>
+        )}
+
+        {loading && !saving ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="w-8 h-8 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : (
+          <div className="space-y-8">
+            <div>
+              <h3 className="text-sm font-semibold text-gray-600 uppercase mb-3">Weekend Days</h3>
+              <div className="flex flex-wrap gap-4">
+                {DAY_LABELS.map((label, day) => (
+                  <label key={label} className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      checked={draft.weekend_days.includes(day)}
+                      onChange={() => toggleWeekendDay(day)}
+                      disabled={saving}
+                      className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                    />
+                    <span className="text-sm text-gray-700">{label}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+              <div className="space-y-3">
+                <div className="grid grid-cols-3 gap-4 text-xs font-medium text-gray-500 uppercase">
+                  <span>Weekday Shift</span>
+                  <span>Starts</span>
+                  <span>Ends</span>
+                </div>
+                {renderShiftRows(WEEKDAY_SHIFTS)}
+              </div>
+              <div className="space-y-3">
+                <div className="grid grid-cols-3 gap-4 text-xs font-medium text-gray-500 uppercase">
+                  <span>Weekend Shift</span>
+                  <span>Starts</span>
+                  <span>Ends</span>
+                </div>
+                {renderShiftRows(WEEKEND_SHIFTS)}
+              </div>
+            </div>
+
+            <p className="text-sm text-gray-500">
+              A shift that ends before it starts runs past midnight. Night shifts count towards the day they begin on.
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ShiftSettings;
@@ -0,0 +1,97 @@
+import React, { useState, useEffect } from 'react';
+import { Globe, AlertCircle, Check } from 'lucide-react';
+import { useSettingsStore } from '../../stores/useSettingsStore';
+import { isValidTimeZone, formatInHospitalTime } from '../../utils/hospitalTime';
+
+const TimeZoneSettings: React.FC = () => {
+  const { timeZone, updateTimeZone } = useSettingsStore();
+  const [draft, setDraft] = useState(timeZone);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [formError, setFormError] = useState('');
+
+  useEffect(() => {
+    setDraft(timeZone);
+  }, [timeZone]);
+
+  const trimmed = draft.trim();
+  const valid = isValidTimeZone(trimmed);
+  const hasChanges = trimmed !== timeZone;
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError('');
+    setSaving(true);
+    try {
+      await updateTimeZone(trimmed);
+      setSaved(true);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to save time zone');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center space-x-3 mb-6">
+        <Globe className="h-6 w-6 text-gray-400" />
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Hospital Time Zone</h2>
+          <p className="text-sm text-gray-500">
+            Admission, discharge and transfer times are entered and shown in this time zone
+          </p>
+        </div>
+      </div>
+
+      {formError && (
+        <div className="mb-6 p-4 bg-red-50 text-red-700 rounded-lg flex items-center space-x-2">
+          <AlertCircle className="h-5 w-5" />
+          <span>{formError}</span>
+        </div>
+      )}
+
+      <form onSubmit={handleSave} className="flex flex-col md:flex-row md:items-start gap-4">
+        <div className="flex-1">
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => {
+              setSaved(false);
+              setDraft(e.target.value);
+            }}
+            placeholder="e.g. Europe/Berlin"
+            disabled={saving}
+            className={`w-full px-4 py-2 rounded-lg border ${
+              trimmed && !valid ? 'border-red-300' : 'border-gray-300'
+            } focus:ring-2 focus:ring-indigo-600 focus:border-transparent`}
+          />
+          {trimmed && !valid ? (
+            <p className="mt-1 text-sm text-red-600">Not a recognised IANA time zone</p>
+          ) : valid && (
+            <p className="mt-1 text-sm text-gray-500">
+              Current hospital time: {formatInHospitalTime(new Date(), 'dd/MM/yyyy HH:mm', trimmed)}
+            </p>
+          )}
+        </div>
+        <div className="flex items-center space-x-3">
+          {saved && !hasChanges && (
+            <span className="flex items-center text-sm text-green-600">
+              <Check className="h-4 w-4 mr-1" />
+              Saved
+            </span>
+          )}
+          <button
+            type="submit"
+            disabled={!hasChanges || !valid || saving}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Saving...' : 'Save Time Zone'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default TimeZoneSettings;
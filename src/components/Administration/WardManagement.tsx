@@ -0,0 +1,218 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Trash2, AlertCircle, BedDouble } from 'lucide-react';
+import { useBedStore } from '../../stores/useBedStore';
+import { BED_STATUS_STYLES } from '../Beds/BedTile';
+
+const departments = [
+  'Internal Medicine',
+  'Pulmonology',
+  'Neurology',
+  'Gastroenterology',
+  'Rheumatology',
+  'Endocrinology',
+  'Hematology',
+  'Infectious Disease',
+  'Thrombosis Medicine',
+  'Immunology & Allergy'
+];
+
+const WardManagement: React.FC = () => {
+  const { wards, loading, error, fetchWards, addWard, deleteWard, addRoom, deleteRoom, addBed, deleteBed } = useBedStore();
+  const [wardName, setWardName] = useState('');
+  const [wardDepartment, setWardDepartment] = useState(departments[0]);
+  const [roomNames, setRoomNames] = useState<Record<number, string>>({});
+  const [bedLabels, setBedLabels] = useState<Record<number, string>>({});
+  const [formError, setFormError] = useState('');
+
+  useEffect(() => {
+    fetchWards();
+  }, [fetchWards]);
+
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setFormError('');
+    try {
+      await action();
+      return true;
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : fallback);
+      return false;
+    }
+  };
+
+  const handleAddWard = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!wardName.trim()) return;
+
+    if (await run(() => addWard(wardName, wardDepartment), 'Failed to add ward')) {
+      setWardName('');
+    }
+  };
+
+  const handleAddRoom = async (wardId: number) => {
+    const name = roomNames[wardId]?.trim();
+    if (!name) return;
+
+    if (await run(() => addRoom(wardId, name), 'Failed to add room')) {
+      setRoomNames(prev => ({ ...prev, [wardId]: '' }));
+    }
+  };
+
+  const handleAddBed = async (roomId: number) => {
+    const label = bedLabels[roomId]?.trim();
+    if (!label) return;
+
+    if (await run(() => addBed(roomId, label), 'Failed to add bed')) {
+      setBedLabels(prev => ({ ...prev, [roomId]: '' }));
+    }
+  };
+
+  const handleDelete = (kind: string, name: string, action: () => Promise<void>) => {
+    if (!window.confirm(`Remove ${kind} ${name}? This cannot be undone.`)) return;
+    run(action, `Failed to remove ${kind}`);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Add Ward</h2>
+        <form onSubmit={handleAddWard} className="flex flex-col md:flex-row gap-4">
+          <input
+            type="text"
+            value={wardName}
+            onChange={(e) => setWardName(e.target.value)}
+            placeholder="Ward name"
+            className="flex-1 px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+          />
+          <select
+            value={wardDepartment}
+            onChange={(e) => setWardDepartment(e.target.value)}
+            className="px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+          >
+            {departments.map(department => (
+              <option key={department} value={department}>{department}</option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={!wardName.trim()}
+            className="flex items-center justify-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Ward
+          </button>
+        </form>
+      </div>
+
+      {(formError || error) && (
+        <div className="p-4 bg-red-50 text-red-700 rounded-lg flex items-center space-x-2">
+          <AlertCircle className="h-5 w-5" />
+          <span>{formError || error}</span>
+        </div>
+      )}
+
+      {loading && wards.length === 0 ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="w-8 h-8 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : wards.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12 text-center text-gray-500">
+          No wards yet
+        </div>
+      ) : (
+        wards.map(ward => (
+          <div key={ward.id} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <div className="flex items-center justify-between mb-4">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">{ward.name}</h3>
+                <p className="text-sm text-gray-500">{ward.department}</p>
+              </div>
+              <button
+                onClick={() => handleDelete('ward', ward.name, () => deleteWard(ward.id))}
+                className="p-2 text-gray-400 hover:text-red-600 rounded-lg"
+                title="Remove ward"
+              >
+                <Trash2 className="h-5 w-5" />
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              {ward.rooms.map(room => (
+                <div key={room.id} className="p-4 bg-gray-50 rounded-lg">
+                  <div className="flex items-center justify-between mb-3">
+                    <h4 className="text-sm font-medium text-gray-900">Room {room.name}</h4>
+                    <button
+                      onClick={() => handleDelete('room', room.name, () => deleteRoom(room.id))}
+                      className="p-1 text-gray-400 hover:text-red-600 rounded"
+                      title="Remove room"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+
+                  <div className="flex flex-wrap gap-2 mb-3">
+                    {room.beds.map(bed => (
+                      <span
+                        key={bed.id}
+                        className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${BED_STATUS_STYLES[bed.status].badge}`}
+                      >
+                        <BedDouble className="h-3 w-3 mr-1" />
+                        {bed.label}
+                        <button
+                          onClick={() => handleDelete('bed', bed.label, () => deleteBed(bed.id))}
+                          className="ml-1 hover:text-red-600"
+                          title="Remove bed"
+                        >
+                          ×
+                        </button>
+                      </span>
+                    ))}
+                    {room.beds.length === 0 && (
+                      <span className="text-xs text-gray-500">No beds in this room</span>
+                    )}
+                  </div>
+
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={bedLabels[room.id] || ''}
+                      onChange={(e) => setBedLabels(prev => ({ ...prev, [room.id]: e.target.value }))}
+                      placeholder="Bed label"
+                      className="flex-1 px-3 py-1 text-sm rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+                    />
+                    <button
+                      onClick={() => handleAddBed(room.id)}
+                      disabled={!bedLabels[room.id]?.trim()}
+                      className="px-3 py-1 text-sm bg-white border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      Add Bed
+                    </button>
+                  </div>
+                </div>
+              ))}
+
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={roomNames[ward.id] || ''}
+                  onChange={(e) => setRoomNames(prev => ({ ...prev, [ward.id]: e.target.value }))}
+                  placeholder="Room name or number"
+                  className="flex-1 px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+                />
+                <button
+                  onClick={() => handleAddRoom(ward.id)}
+                  disabled={!roomNames[ward.id]?.trim()}
+                  className="flex items-center px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Room
+                </button>
+              </div>
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default WardManagement;
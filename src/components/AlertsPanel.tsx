@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Check } from 'lucide-react';
+import { useAlertStore } from '../stores/useAlertStore';
+import { usePatientStore } from '../stores/usePatientStore';
+import { formatDateTime } from '../utils/dateFormat';
+import type { ClinicalAlert, ClinicalAlertSeverity } from '../types/alert';
+
+interface AlertsPanelProps {
+  onClose: () => void;
+}
+
+const SEVERITY_STYLES: Record<ClinicalAlertSeverity, string> = {
+  low_medium: 'text-yellow-600',
+  medium: 'text-orange-600',
+  high: 'text-red-600'
+};
+
+const AlertsPanel: React.FC<AlertsPanelProps> = ({ onClose }) => {
+  const { alerts, acknowledgeAlert, acknowledgeAll } = useAlertStore();
+  const { fetchPatientsByIds, setSelectedPatient } = usePatientStore();
+  const [actionError, setActionError] = useState('');
+
+  const handleAcknowledge = async (alertId: number) => {
+    setActionError('');
+    try {
+      await acknowledgeAlert(alertId);
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to acknowledge alert');
+    }
+  };
+
+  const handleAcknowledgeAll = async () => {
+    setActionError('');
+    try {
+      await acknowledgeAll();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to acknowledge alerts');
+    }
+  };
+
+  const openPatient = async (alert: ClinicalAlert) => {
+    setActionError('');
+    try {
+      const [patient] = await fetchPatientsByIds([alert.patient_id]);
+      if (!patient) return;
+      setSelectedPatient(patient);
+      onClose();
+      window.dispatchEvent(new CustomEvent('navigate', { detail: 'patient' }));
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to open patient');
+    }
+  };
+
+  return (
+    <div className="absolute right-0 mt-2 w-80 bg-white rounded-lg shadow-lg border border-gray-200 z-40">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+        <h3 className="text-sm font-semibold text-gray-900">Clinical Alerts</h3>
+        {alerts.length > 0 && (
+          <button onClick={handleAcknowledgeAll} className="text-xs text-indigo-600 hover:text-indigo-800">
+            Acknowledge all
+          </button>
+        )}
+      </div>
+
+      {actionError && (
+        <p className="px-4 py-2 text-sm text-red-600 bg-red-50">{actionError}</p>
+      )}
+
+      {alerts.length === 0 ? (
+        <p className="px-4 py-6 text-sm text-center text-gray-500">No new alerts</p>
+      ) : (
+        <div className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+          {alerts.map(alert => (
+            <div key={alert.id} className="flex items-start px-4 py-3 space-x-3">
+              <AlertTriangle className={`h-5 w-5 mt-0.5 flex-shrink-0 ${SEVERITY_STYLES[alert.severity]}`} />
+              <button onClick={() => openPatient(alert)} className="flex-1 text-left">
+                <p className="text-sm text-gray-900 hover:text-indigo-600">{alert.message}</p>
+                <p className="text-xs text-gray-500">
+                  {alert.patient?.mrn && `MRN: ${alert.patient.mrn} · `}{formatDateTime(alert.created_at)}
+                </p>
+              </button>
+              <button
+                onClick={() => handleAcknowledge(alert.id)}
+                className="p-1 text-gray-400 hover:text-green-600 rounded"
+                aria-label="Acknowledge alert"
+              >
+                <Check className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlertsPanel;
@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import { X, Upload } from 'lucide-react';
+import { useAttachmentStore } from '../../stores/useAttachmentStore';
+import { useAdmissionStore } from '../../stores/useAdmissionStore';
+import { formatDate } from '../../utils/dateFormat';
+import { formatFileSize, validateAttachmentFile } from '../../utils/attachments';
+import { ALLOWED_ATTACHMENT_TYPES, ATTACHMENT_CATEGORY_LABELS } from '../../config/attachments';
+import type { AttachmentCategory } from '../../types/attachment';
+import type { FormErrors } from '../../types/formErrors';
+
+interface AttachmentUploadDialogProps {
+  patientId: number;
+  patientName: string;
+  onClose: () => void;
+}
+
+const CATEGORIES = Object.keys(ATTACHMENT_CATEGORY_LABELS) as AttachmentCategory[];
+
+const AttachmentUploadDialog: React.FC<AttachmentUploadDialogProps> = ({ patientId, patientName, onClose }) => {
+  const { uploadAttachment } = useAttachmentStore();
+  const { admissions } = useAdmissionStore();
+  const patientAdmissions = admissions.filter(admission => admission.patient_id === patientId);
+  const activeAdmission = patientAdmissions.find(admission => admission.status === 'active');
+
+  const [file, setFile] = useState<File | null>(null);
+  const [category, setCategory] = useState<AttachmentCategory>('outside_report');
+  const [description, setDescription] = useState('');
+  const [admissionId, setAdmissionId] = useState<number | null>(activeAdmission?.id ?? null);
+  const [formErrors, setFormErrors] = useState<FormErrors>({});
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0] ?? null;
+    setFile(selected);
+    setFormErrors({ file: selected ? validateAttachmentFile(selected) ?? undefined : undefined });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const errors: FormErrors = {};
+    if (!file) {
+      errors.file = 'Please choose a file';
+    } else {
+      errors.file = validateAttachmentFile(file) ?? undefined;
+    }
+    if (!description.trim()) {
+      errors.description = 'Please describe the document, e.g. where and when it was produced';
+    }
+    if (errors.file || errors.description) {
+      setFormErrors(errors);
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await uploadAttachment(patientId, file!, { category, description, admissionId });
+      onClose();
+    } catch (err) {
+      setFormErrors({ general: err instanceof Error ? err.message : 'Error uploading attachment' });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-xl max-w-lg w-full p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Attach Document</h2>
+            <p className="text-sm text-gray-500">{patientName}</p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 rounded-lg"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {formErrors.general && (
+          <div className="mb-4 p-4 bg-red-50 text-red-700 rounded-lg">{formErrors.general}</div>
+        )}
+
+        <div className="space-y-4">
+          <div>
+            <label className={`flex flex-col items-center justify-center p-6 border-2 border-dashed rounded-lg cursor-pointer hover:border-indigo-400 ${
+              formErrors.file ? 'border-red-300' : 'border-gray-300'
+            }`}>
+              <Upload className="h-8 w-8 text-gray-400 mb-2" />
+              <span className="text-sm text-gray-600">
+                {file ? `${file.name} (${formatFileSize(file.size)})` : 'Choose a PDF or image'}
+              </span>
+              <input
+                type="file"
+                accept={ALLOWED_ATTACHMENT_TYPES.join(',')}
+                onChange={handleFileChange}
+                className="hidden"
+              />
+            </label>
+            {formErrors.file && (
+              <p className="mt-1 text-sm text-red-600">{formErrors.file}</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="attachmentCategory" className="block text-sm font-medium text-gray-700 mb-1">
+                Category
+              </label>
+              <select
+                id="attachmentCategory"
+                value={category}
+                onChange={(e) => setCategory(e.target.value as AttachmentCategory)}
+                className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+              >
+                {CATEGORIES.map(option => (
+                  <option key={option} value={option}>{ATTACHMENT_CATEGORY_LABELS[option]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="attachmentAdmission" className="block text-sm font-medium text-gray-700 mb-1">
+                Admission
+              </label>
+              <select
+                id="attachmentAdmission"
+                value={admissionId ?? ''}
+                onChange={(e) => setAdmissionId(e.target.value ? Number(e.target.value) : null)}
+                className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+              >
+                <option value="">Patient record only</option>
+                {patientAdmissions.map(admission => (
+                  <option key={admission.id} value={admission.id}>
+                    {admission.department} · {formatDate(admission.admission_date)}
+                    {admission.status === 'active' ? ' (current)' : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="attachmentDescription" className="block text-sm font-medium text-gray-700 mb-1">
+              Description
+            </label>
+            <textarea
+              id="attachmentDescription"
+              rows={3}
+              value={description}
+              onChange={(e) => {
+                setDescription(e.target.value);
+                setFormErrors(prev => ({ ...prev, description: undefined }));
+              }}
+              placeholder="e.g. Echocardiogram report from City Hospital, March 2026"
+              className={`w-full px-4 py-2 rounded-lg border ${
+                formErrors.description ? 'border-red-300' : 'border-gray-300'
+              } focus:ring-2 focus:ring-indigo-600 focus:border-transparent`}
+            />
+            {formErrors.description && (
+              <p className="mt-1 text-sm text-red-600">{formErrors.description}</p>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-4 mt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={submitting}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {submitting ? 'Uploading...' : 'Upload'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default AttachmentUploadDialog;
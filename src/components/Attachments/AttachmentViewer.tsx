@@ -0,0 +1,184 @@
+import React, { useEffect, useState } from 'react';
+import { X, ExternalLink, AlertCircle } from 'lucide-react';
+import { useAttachmentStore } from '../../stores/useAttachmentStore';
+import { formatDateTime } from '../../utils/dateFormat';
+import { formatFileSize, isImageAttachment } from '../../utils/attachments';
+import { ATTACHMENT_CATEGORY_LABELS, ATTACHMENT_CATEGORY_STYLES } from '../../config/attachments';
+import type { PatientAttachment } from '../../types/attachment';
+import type { FormErrors } from '../../types/formErrors';
+
+interface AttachmentViewerProps {
+  attachment: PatientAttachment;
+  canManage: boolean;
+  onClose: () => void;
+}
+
+const AttachmentViewer: React.FC<AttachmentViewerProps> = ({ attachment, canManage, onClose }) => {
+  const { getAttachmentUrl, removeAttachment } = useAttachmentStore();
+  const [url, setUrl] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState('');
+  const [removing, setRemoving] = useState(false);
+  const [removalReason, setRemovalReason] = useState('');
+  const [formErrors, setFormErrors] = useState<FormErrors>({});
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setUrl(null);
+    setLoadError('');
+    getAttachmentUrl(attachment)
+      .then(signedUrl => {
+        if (!cancelled) setUrl(signedUrl);
+      })
+      .catch(err => {
+        if (!cancelled) setLoadError(err instanceof Error ? err.message : 'Failed to open the attachment');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [attachment, getAttachmentUrl]);
+
+  // The link may have been left open past its expiry, so sign it again before opening
+  const handleOpenInNewTab = async () => {
+    try {
+      window.open(await getAttachmentUrl(attachment), '_blank', 'noopener,noreferrer');
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : 'Failed to open the attachment');
+    }
+  };
+
+  const handleRemove = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!removalReason.trim()) {
+      setFormErrors({ reason: 'Please give a reason for removing the attachment' });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await removeAttachment(attachment, removalReason.trim());
+      onClose();
+    } catch (err) {
+      setFormErrors({ general: err instanceof Error ? err.message : 'Error removing attachment' });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl max-w-4xl w-full p-6 max-h-[90vh] flex flex-col">
+        <div className="flex items-start justify-between mb-4">
+          <div>
+            <div className="flex items-center space-x-2">
+              <h2 className="text-lg font-semibold text-gray-900">{attachment.file_name}</h2>
+              <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${ATTACHMENT_CATEGORY_STYLES[attachment.category]}`}>
+                {ATTACHMENT_CATEGORY_LABELS[attachment.category]}
+              </span>
+            </div>
+            <p className="text-sm text-gray-600">{attachment.description}</p>
+            <p className="text-xs text-gray-500">
+              {formatFileSize(attachment.size_bytes)} · uploaded {formatDateTime(attachment.uploaded_at)}
+              {attachment.uploader && ` by ${attachment.uploader.name}`}
+            </p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <button
+              type="button"
+              onClick={handleOpenInNewTab}
+              className="flex items-center px-3 py-2 border border-gray-300 text-sm text-gray-700 rounded-lg hover:bg-gray-50"
+            >
+              <ExternalLink className="h-4 w-4 mr-1" />
+              Open
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              className="p-2 text-gray-400 hover:text-gray-600 rounded-lg"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-auto bg-gray-50 rounded-lg flex items-center justify-center">
+          {loadError ? (
+            <div className="p-4 text-red-700 flex items-center space-x-2">
+              <AlertCircle className="h-5 w-5" />
+              <span>{loadError}</span>
+            </div>
+          ) : !url ? (
+            <div className="w-8 h-8 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin"></div>
+          ) : isImageAttachment(attachment) ? (
+            <img src={url} alt={attachment.description} className="max-h-[65vh] object-contain" />
+          ) : (
+            <iframe src={url} title={attachment.file_name} className="w-full h-[65vh] border-0" />
+          )}
+        </div>
+
+        {canManage && (
+          removing ? (
+            <form onSubmit={handleRemove} className="mt-4 p-4 bg-gray-50 rounded-lg space-y-3">
+              {formErrors.general && (
+                <div className="p-3 bg-red-50 text-red-700 text-sm rounded-lg">{formErrors.general}</div>
+              )}
+              <div>
+                <label htmlFor="attachmentRemovalReason" className="block text-sm font-medium text-gray-700 mb-1">
+                  Reason for removal
+                </label>
+                <input
+                  type="text"
+                  id="attachmentRemovalReason"
+                  value={removalReason}
+                  onChange={(e) => {
+                    setRemovalReason(e.target.value);
+                    setFormErrors({});
+                  }}
+                  placeholder="e.g. Filed under the wrong patient"
+                  className={`w-full px-4 py-2 rounded-lg border ${
+                    formErrors.reason ? 'border-red-300' : 'border-gray-300'
+                  } focus:ring-2 focus:ring-indigo-600 focus:border-transparent`}
+                />
+                {formErrors.reason && (
+                  <p className="mt-1 text-sm text-red-600">{formErrors.reason}</p>
+                )}
+              </div>
+              <div className="flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setRemoving(false);
+                    setRemovalReason('');
+                    setFormErrors({});
+                  }}
+                  className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg text-gray-700 hover:bg-white"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={submitting}
+                  className="px-3 py-1.5 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {submitting ? 'Removing...' : 'Remove'}
+                </button>
+              </div>
+            </form>
+          ) : (
+            <div className="flex justify-end mt-4">
+              <button
+                type="button"
+                onClick={() => setRemoving(true)}
+                className="text-sm text-red-600 hover:text-red-700"
+              >
+                Remove attachment
+              </button>
+            </div>
+          )
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AttachmentViewer;
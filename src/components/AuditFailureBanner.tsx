@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { useAuditStore } from '../stores/useAuditStore';
+
+// Shown while audit entries for completed actions could not be written
+const AuditFailureBanner: React.FC = () => {
+  const { failedRows, retryFailedAudits, dismissFailedAudits } = useAuditStore();
+  const [retrying, setRetrying] = useState(false);
+  const [error, setError] = useState('');
+
+  if (failedRows.length === 0) return null;
+
+  const handleRetry = async () => {
+    setError('');
+    setRetrying(true);
+    try {
+      await retryFailedAudits();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to write the audit log');
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  const handleDismiss = () => {
+    if (!window.confirm('These actions will have no audit trail. Dismiss anyway?')) return;
+    setError('');
+    dismissFailedAudits();
+  };
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 max-w-md w-full bg-red-50 border border-red-200 rounded-xl shadow-lg p-4">
+      <div className="flex items-start space-x-3">
+        <AlertTriangle className="h-5 w-5 text-red-600 mt-0.5" />
+        <div className="flex-1">
+          <p className="text-sm font-medium text-red-800">
+            {failedRows.length === 1
+              ? 'Your last action was saved, but it could not be recorded in the audit log.'
+              : `${failedRows.length} actions were saved, but could not be recorded in the audit log.`}
+          </p>
+          {error && <p className="mt-1 text-sm text-red-700">{error}</p>}
+          <div className="flex justify-end space-x-3 mt-3">
+            <button
+              onClick={handleDismiss}
+              disabled={retrying}
+              className="px-3 py-1.5 text-sm border border-red-300 text-red-700 rounded-lg hover:bg-red-100 disabled:opacity-50"
+            >
+              Dismiss
+            </button>
+            <button
+              onClick={handleRetry}
+              disabled={retrying}
+              className="px-3 py-1.5 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {retrying ? 'Retrying...' : 'Retry'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AuditFailureBanner;
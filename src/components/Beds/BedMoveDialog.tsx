@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { BedDouble, AlertCircle, X } from 'lucide-react';
+import { useBedStore } from '../../stores/useBedStore';
+import { toFormErrors } from '../../utils/procedureErrors';
+import type { FormErrors } from '../../types/formErrors';
+
+interface BedMoveDialogProps {
+  admissionId: number;
+  patientName: string;
+  department: string;
+  // Label of the bed the patient is leaving, if they already have one
+  currentBed?: string;
+  onClose: () => void;
+}
+
+const BedMoveDialog: React.FC<BedMoveDialogProps> = ({
+  admissionId,
+  patientName,
+  department,
+  currentBed,
+  onClose
+}) => {
+  const { getFreeBeds, moveBed } = useBedStore();
+  const [bedId, setBedId] = useState<number | null>(null);
+  const [reason, setReason] = useState('');
+  const [formErrors, setFormErrors] = useState<FormErrors>({});
+  const [submitting, setSubmitting] = useState(false);
+
+  // Beds in the patient's own department are offered first
+  const freeBeds = getFreeBeds().sort((a, b) =>
+    Number(b.department === department) - Number(a.department === department)
+  );
+  const wardNames = Array.from(new Set(freeBeds.map(bed => bed.ward)));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const errors: FormErrors = {};
+    if (bedId === null) errors.bedId = 'Please select a bed';
+    if (currentBed && !reason.trim()) errors.reason = 'Please give a reason for the move';
+    setFormErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+
+    setSubmitting(true);
+    try {
+      await moveBed(admissionId, bedId!, reason.trim());
+      onClose();
+    } catch (err) {
+      setFormErrors(toFormErrors(err, 'Failed to move patient'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-xl max-w-md w-full">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center space-x-3">
+            <div className="p-2 bg-indigo-100 rounded-lg">
+              <BedDouble className="h-6 w-6 text-indigo-600" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">{currentBed ? 'Move Patient' : 'Assign Bed'}</h2>
+              <p className="text-sm text-gray-600">
+                {patientName}{currentBed && ` · currently in bed ${currentBed}`}
+              </p>
+            </div>
+          </div>
+          <button type="button" onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600 rounded-lg">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {formErrors.general && (
+            <div className="p-4 bg-red-50 text-red-700 rounded-lg flex items-center space-x-2">
+              <AlertCircle className="h-5 w-5" />
+              <span>{formErrors.general}</span>
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="bedId" className="block text-sm font-medium text-gray-700 mb-1">
+              New Bed
+            </label>
+            <select
+              id="bedId"
+              value={bedId ?? ''}
+              onChange={(e) => {
+                setBedId(e.target.value ? parseInt(e.target.value, 10) : null);
+                setFormErrors(prev => ({ ...prev, bedId: undefined }));
+              }}
+              className={`w-full px-4 py-2 rounded-lg border ${
+                formErrors.bedId ? 'border-red-300' : 'border-gray-300'
+              } focus:ring-2 focus:ring-indigo-600 focus:border-transparent`}
+            >
+              <option value="">{freeBeds.length === 0 ? 'No free beds' : 'Select a bed'}</option>
+              {wardNames.map(ward => (
+                <optgroup key={ward} label={ward}>
+                  {freeBeds
+                    .filter(bed => bed.ward === ward)
+                    .map(bed => (
+                      <option key={bed.id} value={bed.id}>
+                        Room {bed.room} · Bed {bed.label}
+                      </option>
+                    ))}
+                </optgroup>
+              ))}
+            </select>
+            {formErrors.bedId && (
+              <p className="mt-1 text-sm text-red-600">{formErrors.bedId}</p>
+            )}
+          </div>
+
+          {currentBed && (
+            <div>
+              <label htmlFor="reason" className="block text-sm font-medium text-gray-700 mb-1">
+                Reason for Move
+              </label>
+              <textarea
+                id="reason"
+                rows={2}
+                value={reason}
+                onChange={(e) => {
+                  setReason(e.target.value);
+                  setFormErrors(prev => ({ ...prev, reason: undefined }));
+                }}
+                className={`w-full px-4 py-2 rounded-lg border ${
+                  formErrors.reason ? 'border-red-300' : 'border-gray-300'
+                } focus:ring-2 focus:ring-indigo-600 focus:border-transparent`}
+              />
+              {formErrors.reason && (
+                <p className="mt-1 text-sm text-red-600">{formErrors.reason}</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-4 p-6 border-t border-gray-200">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={submitting}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={submitting || freeBeds.length === 0}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {submitting ? 'Saving...' : currentBed ? 'Move Patient' : 'Assign Bed'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default BedMoveDialog;
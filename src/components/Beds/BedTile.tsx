@@ -0,0 +1,106 @@
+import React from 'react';
+import { BedDouble, Sparkles, Ban, ArrowRightLeft } from 'lucide-react';
+import type { Bed, BedStatus } from '../../types/bed';
+
+interface BedTileProps {
+  bed: Bed;
+  canAssign: boolean;
+  onOpenPatient: (patientId: number) => void;
+  onMove: (bed: Bed) => void;
+  onBlock: (bed: Bed) => void;
+  onSetStatus: (bed: Bed, status: 'free' | 'cleaning') => void;
+}
+
+export const BED_STATUS_STYLES: Record<BedStatus, { label: string; tile: string; badge: string }> = {
+  free: { label: 'Free', tile: 'border-green-200 bg-green-50', badge: 'bg-green-100 text-green-800' },
+  occupied: { label: 'Occupied', tile: 'border-indigo-200 bg-indigo-50', badge: 'bg-indigo-100 text-indigo-800' },
+  cleaning: { label: 'Cleaning', tile: 'border-yellow-200 bg-yellow-50', badge: 'bg-yellow-100 text-yellow-800' },
+  blocked: { label: 'Blocked', tile: 'border-gray-300 bg-gray-100', badge: 'bg-gray-200 text-gray-700' }
+};
+
+const BedTile: React.FC<BedTileProps> = ({ bed, canAssign, onOpenPatient, onMove, onBlock, onSetStatus }) => {
+  const style = BED_STATUS_STYLES[bed.status];
+  const patient = bed.admission?.patient;
+
+  return (
+    <div className={`p-3 rounded-lg border ${style.tile}`}>
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center space-x-1 text-sm font-medium text-gray-900">
+          <BedDouble className="h-4 w-4 text-gray-500" />
+          <span>{bed.label}</span>
+        </div>
+        <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${style.badge}`}>
+          {style.label}
+        </span>
+      </div>
+
+      {bed.status === 'occupied' && patient ? (
+        <button
+          onClick={() => onOpenPatient(patient.id)}
+          className="block w-full text-left"
+        >
+          <p className="text-sm font-medium text-indigo-700 hover:underline truncate">{patient.name}</p>
+          <p className="text-xs text-gray-600">MRN: {patient.mrn}</p>
+          {bed.admission?.department && (
+            <p className="text-xs text-gray-500 truncate">{bed.admission.department}</p>
+          )}
+        </button>
+      ) : bed.status === 'blocked' && bed.status_note ? (
+        <p className="text-xs text-gray-600 italic">{bed.status_note}</p>
+      ) : (
+        <p className="text-xs text-gray-400">&nbsp;</p>
+      )}
+
+      {canAssign && (
+        <div className="mt-2 flex flex-wrap gap-1">
+          {bed.status === 'occupied' && (
+            <button
+              onClick={() => onMove(bed)}
+              className="flex items-center px-2 py-1 text-xs text-indigo-700 bg-white border border-indigo-200 rounded hover:bg-indigo-50"
+            >
+              <ArrowRightLeft className="h-3 w-3 mr-1" />
+              Move
+            </button>
+          )}
+          {bed.status === 'cleaning' && (
+            <button
+              onClick={() => onSetStatus(bed, 'free')}
+              className="flex items-center px-2 py-1 text-xs text-green-700 bg-white border border-green-200 rounded hover:bg-green-50"
+            >
+              <Sparkles className="h-3 w-3 mr-1" />
+              Mark clean
+            </button>
+          )}
+          {bed.status === 'free' && (
+            <>
+              <button
+                onClick={() => onSetStatus(bed, 'cleaning')}
+                className="flex items-center px-2 py-1 text-xs text-yellow-700 bg-white border border-yellow-200 rounded hover:bg-yellow-50"
+              >
+                <Sparkles className="h-3 w-3 mr-1" />
+                Clean
+              </button>
+              <button
+                onClick={() => onBlock(bed)}
+                className="flex items-center px-2 py-1 text-xs text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50"
+              >
+                <Ban className="h-3 w-3 mr-1" />
+                Block
+              </button>
+            </>
+          )}
+          {bed.status === 'blocked' && (
+            <button
+              onClick={() => onSetStatus(bed, 'free')}
+              className="flex items-center px-2 py-1 text-xs text-green-700 bg-white border border-green-200 rounded hover:bg-green-50"
+            >
+              Unblock
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BedTile;
@@ -1,8 +1,15 @@
-import React, { useState } from 'react';
-import { User, MapPin, Stethoscope, Clock, AlertCircle } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { User, MapPin, Stethoscope, AlertCircle } from 'lucide-react';
 import { useConsultationStore } from '../../stores/useConsultationStore';
+import { useSettingsStore } from '../../stores/useSettingsStore';
+import { useUserStore } from '../../stores/useUserStore';
 import { useNavigate } from '../../hooks/useNavigate';
+import { deriveShift, isWeekendShift } from '../../utils/shiftCalculator';
+import { buildPhraseContext } from '../../utils/smartPhrases';
+import ShiftField from '../Shifts/ShiftField';
+import SmartTextarea from '../SmartPhrases/SmartTextarea';
 import type { Consultation } from '../../types/consultation';
+import type { ShiftOverride } from '../../types/settings';
 
 interface ConsultationFormData {
   mrn: string;
@@ -12,13 +19,14 @@ interface ConsultationFormData {
   requesting_department: string;
   patient_location: string;
   consultation_specialty: string;
-  shift_type: 'morning' | 'evening' | 'night';
   urgency: 'routine' | 'urgent' | 'emergency';
   reason: string;
 }
 
 const ConsultationForm: React.FC = () => {
   const { addConsultation, loading, error } = useConsultationStore();
+  const { shiftSchedule, timeZone, fetchSettings } = useSettingsStore();
+  const { currentUser } = useUserStore();
   const { goBack } = useNavigate();
   const [formData, setFormData] = useState<ConsultationFormData>({
     mrn: '',
@@ -28,16 +36,33 @@ const ConsultationForm: React.FC = () => {
     requesting_department: '',
     patient_location: '',
     consultation_specialty: '',
-    shift_type: 'morning',
     urgency: 'routine',
     reason: ''
   });
+  const [shiftOverride, setShiftOverride] = useState<ShiftOverride | null>(null);
+  const [shiftReasonError, setShiftReasonError] = useState('');
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  // Consultations are registered as they happen, so the shift follows the clock
+  const derivedShift = deriveShift(new Date(), shiftSchedule, timeZone);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (shiftOverride && !shiftOverride.reason.trim()) {
+      setShiftReasonError('Please give a reason for overriding the shift');
+      return;
+    }
+
     try {
       const consultationData: Omit<Consultation, 'id' | 'created_at' | 'updated_at'> = {
         ...formData,
+        shift_type: shiftOverride?.shiftType ?? derivedShift.shiftType,
+        is_weekend: shiftOverride ? isWeekendShift(shiftOverride.shiftType) : derivedShift.isWeekend,
+        shift_override_reason: shiftOverride?.reason.trim() ?? null,
         status: 'active',
         patient_id: 0 // This will be set by the backend
       };
@@ -61,6 +86,14 @@ const ConsultationForm: React.FC = () => {
     }));
   };
 
+  // An age of 0 means it has not been entered yet
+  const phraseContext = buildPhraseContext({
+    name: formData.patient_name,
+    mrn: formData.mrn,
+    age: formData.age || undefined,
+    gender: formData.gender
+  }, currentUser?.name);
+
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
       {error && (
@@ -208,26 +241,16 @@ const ConsultationForm: React.FC = () => {
           </div>
         </div>
 
-        <div>
-          <label htmlFor="shift_type" className="block text-sm font-medium text-gray-700 mb-1">
-            Shift Type
-          </label>
-          <div className="relative">
-            <Clock className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
-            <select
-              id="shift_type"
-              name="shift_type"
-              value={formData.shift_type}
-              onChange={handleChange}
-              className="w-full pl-10 pr-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
-              required
-            >
-              <option value="morning">Morning</option>
-              <option value="evening">Evening</option>
-              <option value="night">Night</option>
-            </select>
-          </div>
-        </div>
+        <ShiftField
+          derived={derivedShift}
+          schedule={shiftSchedule}
+          override={shiftOverride}
+          onOverrideChange={(override) => {
+            setShiftOverride(override);
+            setShiftReasonError('');
+          }}
+          reasonError={shiftReasonError}
+        />
 
         <div>
           <label htmlFor="urgency" className="block text-sm font-medium text-gray-700 mb-1">
@@ -252,11 +275,12 @@ const ConsultationForm: React.FC = () => {
         <label htmlFor="reason" className="block text-sm font-medium text-gray-700 mb-1">
           Reason for Consultation
         </label>
-        <textarea
+        <SmartTextarea
           id="reason"
           name="reason"
           value={formData.reason}
-          onChange={handleChange}
+          onValueChange={(reason) => setFormData(prev => ({ ...prev, reason }))}
+          context={phraseContext}
           rows={4}
           className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
           required
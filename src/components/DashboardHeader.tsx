@@ -1,10 +1,13 @@
 import React from 'react';
-import { Search, Bell, ChevronDown, LogOut, User, Menu } from 'lucide-react';
+import { Bell, ChevronDown, LogOut, User, Menu } from 'lucide-react';
 import { useUserStore } from '../stores/useUserStore';
+import { useAlertStore } from '../stores/useAlertStore';
 import Logo from './Logo';
+import AlertsPanel from './AlertsPanel';
+import GlobalSearch from './GlobalSearch';
 
 interface DashboardHeaderProps {
-  notifications: number;
+  isAlertsOpen: boolean;
   onNotificationClick: () => void;
   isUserMenuOpen: boolean;
   onUserMenuClick: () => void;
@@ -14,7 +17,7 @@ interface DashboardHeaderProps {
 }
 
 const DashboardHeader: React.FC<DashboardHeaderProps> = ({
-  notifications,
+  isAlertsOpen,
   onNotificationClick,
   isUserMenuOpen,
   onUserMenuClick,
@@ -23,6 +26,7 @@ const DashboardHeader: React.FC<DashboardHeaderProps> = ({
   onMobileMenuClick
 }) => {
   const { currentUser } = useUserStore();
+  const { alerts } = useAlertStore();
 
   const getInitials = (name: string) => {
     return name
@@ -44,27 +48,29 @@ const DashboardHeader: React.FC<DashboardHeaderProps> = ({
           </button>
           <div className="flex items-center space-x-3">
             <Logo size="small" variant="medical" className="hidden md:block" />
-            <div className="relative flex-1 max-w-md hidden md:block">
-              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
-              <input
-                type="text"
-                placeholder="Search patients by MRN or name..."
-                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
-              />
+            <div className="flex-1 w-96 max-w-md hidden md:block">
+              <GlobalSearch placeholder="Search patients by MRN or name..." />
             </div>
           </div>
         </div>
 
         <div className="flex items-center space-x-2 md:space-x-4">
-          <button 
-            onClick={onNotificationClick}
-            className="relative p-2 text-gray-600 hover:text-gray-900 transition-colors rounded-lg hover:bg-gray-100"
-          >
-            <Bell className="h-6 w-6" />
-            {notifications > 0 && (
-              <span className="absolute top-0 right-0 h-2 w-2 bg-red-500 rounded-full"></span>
-            )}
-          </button>
+          <div className="relative">
+            <button 
+              onClick={onNotificationClick}
+              className="relative p-2 text-gray-600 hover:text-gray-900 transition-colors rounded-lg hover:bg-gray-100"
+              aria-label="Clinical alerts"
+            >
+              <Bell className="h-6 w-6" />
+              {alerts.length > 0 && (
+                <span className="absolute top-0 right-0 min-w-[1.25rem] h-5 px-1 bg-red-500 text-white text-xs font-medium rounded-full flex items-center justify-center">
+                  {alerts.length}
+                </span>
+              )}
+            </button>
+
+            {isAlertsOpen && <AlertsPanel onClose={onNotificationClick} />}
+          </div>
           
           <div className="relative">
             <button
@@ -109,14 +115,7 @@ const DashboardHeader: React.FC<DashboardHeaderProps> = ({
 
       {/* Mobile Search */}
       <div className="mt-4 md:hidden">
-        <div className="relative">
-          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
-          <input
-            type="text"
-            placeholder="Search patients..."
-            className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
-          />
-        </div>
+        <GlobalSearch placeholder="Search patients..." />
       </div>
     </header>
   );
@@ -0,0 +1,57 @@
+import React from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { groupByDiagnosis } from '../../utils/icd10';
+import type { AdmissionDiagnosis, DiagnosisGrouping } from '../../types/diagnosis';
+
+interface DiagnosisBreakdownProps {
+  admissions: Array<{ diagnoses?: AdmissionDiagnosis[] }>;
+  grouping: DiagnosisGrouping;
+}
+
+const MAX_CHART_GROUPS = 10;
+
+const DiagnosisBreakdown: React.FC<DiagnosisBreakdownProps> = ({ admissions, grouping }) => {
+  const groups = groupByDiagnosis(admissions, grouping);
+  const total = groups.reduce((sum, group) => sum + group.count, 0);
+
+  if (groups.length === 0) {
+    return (
+      <div className="h-32 flex items-center justify-center text-gray-500">
+        No admissions in this period
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="h-[300px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart
+            data={groups.slice(0, MAX_CHART_GROUPS)}
+            layout="vertical"
+            margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+          >
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis type="number" allowDecimals={false} />
+            <YAxis type="category" dataKey="key" width={60} tick={{ fontSize: 12 }} />
+            <Tooltip labelFormatter={(key) => groups.find(group => group.key === key)?.label ?? key} />
+            <Bar dataKey="count" name="Admissions" fill="#4f46e5" />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="divide-y divide-gray-200 max-h-64 overflow-y-auto">
+        {groups.map(group => (
+          <div key={group.key} className="flex items-center justify-between py-2 text-sm">
+            <span className="text-gray-900">{group.label}</span>
+            <span className="text-gray-600 ml-4 flex-shrink-0">
+              {group.count} ({Math.round((group.count / total) * 100)}%)
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DiagnosisBreakdown;
@@ -0,0 +1,35 @@
+import React from 'react';
+import type { AdmissionDiagnosis, DiagnosisStage } from '../../types/diagnosis';
+
+interface DiagnosisCodesProps {
+  diagnoses?: AdmissionDiagnosis[];
+  stage: DiagnosisStage;
+}
+
+const DiagnosisCodes: React.FC<DiagnosisCodesProps> = ({ diagnoses = [], stage }) => {
+  // Primary first, then secondary codes in the order they were recorded
+  const stageDiagnoses = diagnoses
+    .filter(diagnosis => diagnosis.stage === stage)
+    .sort((a, b) => Number(b.is_primary) - Number(a.is_primary) || a.id - b.id);
+
+  if (stageDiagnoses.length === 0) return null;
+
+  return (
+    <ul className="space-y-1">
+      {stageDiagnoses.map(diagnosis => (
+        <li key={diagnosis.id} className="flex items-start space-x-2 text-sm">
+          <span className={`font-mono px-1.5 rounded ${
+            diagnosis.is_primary ? 'bg-indigo-100 text-indigo-800' : 'bg-gray-100 text-gray-700'
+          }`}>
+            {diagnosis.code}
+          </span>
+          <span className={diagnosis.is_primary ? 'text-gray-900 font-medium' : 'text-gray-600'}>
+            {diagnosis.description}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default DiagnosisCodes;
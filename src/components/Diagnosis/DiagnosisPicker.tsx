@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { Search, X, Star } from 'lucide-react';
+import { searchIcd10Codes, getIcd10Chapter } from '../../utils/icd10';
+import type { CodedDiagnosis, Icd10Code } from '../../types/diagnosis';
+
+interface DiagnosisPickerProps {
+  id: string;
+  label: string;
+  value: CodedDiagnosis[];
+  onChange: (diagnoses: CodedDiagnosis[]) => void;
+  error?: string;
+}
+
+const DiagnosisPicker: React.FC<DiagnosisPickerProps> = ({ id, label, value, onChange, error }) => {
+  const [query, setQuery] = useState('');
+  const selectedCodes = new Set(value.map(diagnosis => diagnosis.code));
+  const results = searchIcd10Codes(query).filter(entry => !selectedCodes.has(entry.code));
+
+  const handleAdd = (entry: Icd10Code) => {
+    // The first code added is the primary diagnosis until another is chosen
+    onChange([...value, { ...entry, is_primary: value.length === 0 }]);
+    setQuery('');
+  };
+
+  const handleRemove = (code: string) => {
+    const remaining = value.filter(diagnosis => diagnosis.code !== code);
+    if (remaining.length > 0 && !remaining.some(diagnosis => diagnosis.is_primary)) {
+      remaining[0] = { ...remaining[0], is_primary: true };
+    }
+    onChange(remaining);
+  };
+
+  const handleMakePrimary = (code: string) => {
+    onChange(value.map(diagnosis => ({ ...diagnosis, is_primary: diagnosis.code === code })));
+  };
+
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium text-gray-700 mb-1">
+        {label}
+      </label>
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+        <input
+          type="text"
+          id={id}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search ICD-10 by code or description"
+          autoComplete="off"
+          className={`w-full pl-10 pr-4 py-2 rounded-lg border ${
+            error ? 'border-red-300' : 'border-gray-300'
+          } focus:ring-2 focus:ring-indigo-600 focus:border-transparent`}
+        />
+        {query.trim() && (
+          <div className="absolute z-10 mt-1 w-full bg-white rounded-lg shadow-lg border border-gray-200 max-h-64 overflow-y-auto">
+            {results.length === 0 ? (
+              <p className="px-4 py-3 text-sm text-gray-500">No matching codes</p>
+            ) : (
+              results.map(entry => (
+                <button
+                  key={entry.code}
+                  type="button"
+                  onClick={() => handleAdd(entry)}
+                  className="w-full text-left px-4 py-2 hover:bg-gray-50 flex items-start space-x-3"
+                >
+                  <span className="font-mono text-sm font-medium text-indigo-600 w-14 flex-shrink-0">{entry.code}</span>
+                  <span className="text-sm text-gray-900">{entry.description}</span>
+                </button>
+              ))
+            )}
+          </div>
+        )}
+      </div>
+      {error && (
+        <p className="mt-1 text-sm text-red-600">{error}</p>
+      )}
+
+      {value.length > 0 && (
+        <div className="mt-3 divide-y divide-gray-200 border border-gray-200 rounded-lg">
+          {value.map(diagnosis => (
+            <div key={diagnosis.code} className="flex items-center justify-between px-4 py-2">
+              <div className="flex items-start space-x-3">
+                <span className="font-mono text-sm font-medium text-gray-900 w-14 flex-shrink-0">{diagnosis.code}</span>
+                <div>
+                  <p className="text-sm text-gray-900">{diagnosis.description}</p>
+                  <p className="text-xs text-gray-500">{getIcd10Chapter(diagnosis.code)?.title}</p>
+                </div>
+              </div>
+              <div className="flex items-center space-x-2 flex-shrink-0 ml-4">
+                {diagnosis.is_primary ? (
+                  <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-indigo-100 text-indigo-800">
+                    Primary
+                  </span>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => handleMakePrimary(diagnosis.code)}
+                    className="flex items-center text-xs text-gray-500 hover:text-indigo-600"
+                  >
+                    <Star className="h-3 w-3 mr-1" />
+                    Make primary
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => handleRemove(diagnosis.code)}
+                  className="p-1 text-gray-400 hover:text-red-600 rounded"
+                  title="Remove diagnosis"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DiagnosisPicker;
@@ -2,28 +2,41 @@ import React, { useState, useEffect } from 'react';
 import { Calendar, Search, FileText, AlertCircle } from 'lucide-react';
 import { useDischargeStore } from '../../stores/useDischargeStore';
 import { useUserStore } from '../../stores/useUserStore';
+import { useSettingsStore } from '../../stores/useSettingsStore';
 import { useNavigate } from '../../hooks/useNavigate';
 import { formatDate } from '../../utils/dateFormat';
+import { ProcedureError } from '../../utils/procedureErrors';
+import { fromHospitalInput, toHospitalInput } from '../../utils/hospitalTime';
+import { buildPhraseContext } from '../../utils/smartPhrases';
+import DiagnosisPicker from '../Diagnosis/DiagnosisPicker';
+import SmartTextarea from '../SmartPhrases/SmartTextarea';
 import type { DischargeData } from '../../types/discharge';
+import type { CodedDiagnosis } from '../../types/diagnosis';
 
 interface FormData {
+  // datetime-local value in hospital time
   discharge_date: string;
   discharge_type: 'regular' | 'against-medical-advice' | 'transfer';
   follow_up_required: boolean;
   follow_up_date: string;
   discharge_note: string;
+  final_diagnoses: CodedDiagnosis[];
+  final_diagnosis: string;
 }
 
 const initialFormData: FormData = {
-  discharge_date: new Date().toISOString().split('T')[0],
+  discharge_date: '',
   discharge_type: 'regular',
   follow_up_required: false,
   follow_up_date: new Date().toISOString().split('T')[0],
-  discharge_note: ''
+  discharge_note: '',
+  final_diagnoses: [],
+  final_diagnosis: ''
 };
 
 const DischargeForm: React.FC = () => {
   const { currentUser } = useUserStore();
+  const { timeZone } = useSettingsStore();
   const { goBack } = useNavigate();
   const { 
     activePatients, 
@@ -37,7 +50,10 @@ const DischargeForm: React.FC = () => {
   } = useDischargeStore();
 
   const [searchQuery, setSearchQuery] = useState('');
-  const [formData, setFormData] = useState<FormData>(initialFormData);
+  const [formData, setFormData] = useState<FormData>(() => ({
+    ...initialFormData,
+    discharge_date: toHospitalInput(new Date(), useSettingsStore.getState().timeZone)
+  }));
   const [formErrors, setFormErrors] = useState<Partial<Record<keyof FormData, string>>>({});
   const [submitting, setSubmitting] = useState(false);
 
@@ -54,6 +70,16 @@ const DischargeForm: React.FC = () => {
     };
   }, [fetchActivePatients, subscribeToUpdates]);
 
+  // The final diagnosis starts from the admitting codes and is amended where it differs
+  useEffect(() => {
+    const admittingDiagnoses = (selectedPatient?.diagnoses || [])
+      .filter(diagnosis => diagnosis.stage === 'admission')
+      .map(({ code, description, is_primary }) => ({ code, description, is_primary }));
+
+    setFormData(prev => ({ ...prev, final_diagnoses: admittingDiagnoses, final_diagnosis: '' }));
+    setFormErrors(prev => ({ ...prev, final_diagnoses: undefined }));
+  }, [selectedPatient?.id, selectedPatient?.diagnoses]);
+
   const filteredPatients = activePatients.filter(patient => 
     patient.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
     patient.mrn.toLowerCase().includes(searchQuery.toLowerCase())
@@ -62,16 +88,25 @@ const DischargeForm: React.FC = () => {
   const validateForm = (): boolean => {
     const errors: Partial<Record<keyof FormData, string>> = {};
 
-    if (!formData.discharge_date) {
-      errors.discharge_date = 'Discharge date is required';
+    const dischargeTime = formData.discharge_date
+      ? new Date(fromHospitalInput(formData.discharge_date, timeZone))
+      : null;
+
+    if (!dischargeTime) {
+      errors.discharge_date = 'Discharge date and time are required';
+    } else if (dischargeTime > new Date()) {
+      errors.discharge_date = 'Discharge time cannot be in the future';
+    } else if (selectedPatient && dischargeTime < new Date(selectedPatient.admission_date)) {
+      errors.discharge_date = 'Discharge time cannot be before the admission time';
     }
 
     if (formData.follow_up_required && !formData.follow_up_date) {
       errors.follow_up_date = 'Follow-up date is required when follow-up is enabled';
     }
 
-    if (formData.follow_up_required && 
-        new Date(formData.follow_up_date) <= new Date(formData.discharge_date)) {
+    // Follow-up is a calendar date, compared with the hospital date of discharge
+    if (formData.follow_up_required &&
+        formData.follow_up_date <= formData.discharge_date.split('T')[0]) {
       errors.follow_up_date = 'Follow-up date must be after discharge date';
     }
 
@@ -104,6 +139,7 @@ const DischargeForm: React.FC = () => {
     try {
       const dischargeData: DischargeData = {
         ...formData,
+        discharge_date: fromHospitalInput(formData.discharge_date, timeZone),
         follow_up_date: formData.follow_up_required ? formData.follow_up_date : undefined,
         status: 'discharged'
       };
@@ -111,15 +147,26 @@ const DischargeForm: React.FC = () => {
       await processDischarge(dischargeData);
       goBack();
     } catch (err) {
+      // Errors without a matching field of their own are shown under the note
+      const field = err instanceof ProcedureError && err.field in initialFormData
+        ? err.field as keyof FormData
+        : 'discharge_note';
       setFormErrors(prev => ({
         ...prev,
-        discharge_note: err instanceof Error ? err.message : 'Error processing discharge'
+        [field]: err instanceof Error ? err.message : 'Error processing discharge'
       }));
     } finally {
       setSubmitting(false);
     }
   };
 
+  const phraseContext = buildPhraseContext({
+    name: selectedPatient?.name,
+    mrn: selectedPatient?.mrn,
+    admission_date: selectedPatient?.admission_date,
+    diagnosis: selectedPatient?.diagnosis
+  }, currentUser?.name);
+
   const handleChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>
   ) => {
@@ -131,6 +178,11 @@ const DischargeForm: React.FC = () => {
     setFormErrors(prev => ({ ...prev, [name]: undefined }));
   };
 
+  const handleFinalDiagnosesChange = (final_diagnoses: CodedDiagnosis[]) => {
+    setFormData(prev => ({ ...prev, final_diagnoses }));
+    setFormErrors(prev => ({ ...prev, final_diagnoses: undefined }));
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center p-8">
@@ -201,12 +253,12 @@ const DischargeForm: React.FC = () => {
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         <div>
           <label htmlFor="discharge_date" className="block text-sm font-medium text-gray-700 mb-1">
-            {selectedPatient?.isConsultation ? 'Completion Date' : 'Discharge Date'}
+            {selectedPatient?.isConsultation ? 'Completion Date & Time' : 'Discharge Date & Time'}
           </label>
           <div className="relative">
             <Calendar className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
             <input
-              type="date"
+              type="datetime-local"
               id="discharge_date"
               name="discharge_date"
               value={formData.discharge_date}
@@ -220,6 +272,7 @@ const DischargeForm: React.FC = () => {
           {formErrors.discharge_date && (
             <p className="mt-1 text-sm text-red-600">{formErrors.discharge_date}</p>
           )}
+          <p className="mt-1 text-xs text-gray-500">Hospital time ({timeZone})</p>
         </div>
 
         {!selectedPatient?.isConsultation && (
@@ -278,17 +331,53 @@ const DischargeForm: React.FC = () => {
         </div>
       </div>
 
+      {selectedPatient && !selectedPatient.isConsultation && (
+        <div className="space-y-4">
+          <div>
+            <DiagnosisPicker
+              id="final_diagnoses"
+              label="Final Diagnoses (ICD-10)"
+              value={formData.final_diagnoses}
+              onChange={handleFinalDiagnosesChange}
+              error={formErrors.final_diagnoses}
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              Starts from the admitting diagnoses. Change the codes if the final diagnosis differs.
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="final_diagnosis" className="block text-sm font-medium text-gray-700 mb-1">
+              Final Diagnosis Description
+            </label>
+            <textarea
+              id="final_diagnosis"
+              name="final_diagnosis"
+              value={formData.final_diagnosis}
+              onChange={handleChange}
+              rows={2}
+              placeholder="Optional clinical description"
+              className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+            />
+          </div>
+        </div>
+      )}
+
       <div>
         <label htmlFor="discharge_note" className="block text-sm font-medium text-gray-700 mb-1">
           {selectedPatient?.isConsultation ? 'Completion Note' : 'Discharge Note'}
         </label>
         <div className="relative">
           <FileText className="absolute left-3 top-3 h-5 w-5 text-gray-400" />
-          <textarea
+          <SmartTextarea
             id="discharge_note"
             name="discharge_note"
             value={formData.discharge_note}
-            onChange={handleChange}
+            onValueChange={(discharge_note) => {
+              setFormData(prev => ({ ...prev, discharge_note }));
+              setFormErrors(prev => ({ ...prev, discharge_note: undefined }));
+            }}
+            context={phraseContext}
             rows={6}
             className={`w-full pl-10 pr-4 py-2 rounded-lg border ${
               formErrors.discharge_note ? 'border-red-300' : 'border-gray-300'
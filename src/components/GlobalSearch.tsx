@@ -0,0 +1,267 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Search, User, Stethoscope, Calendar } from 'lucide-react';
+import { usePatientStore } from '../stores/usePatientStore';
+import { useConsultationStore } from '../stores/useConsultationStore';
+import { useAppointmentStore } from '../stores/useAppointmentStore';
+import { usePermissions } from '../hooks/usePermissions';
+import { consultationToPatient } from '../utils/consultationPatient';
+import type { Patient } from '../types/patient';
+import type { Consultation } from '../types/consultation';
+import type { Appointment } from '../types/appointment';
+
+type SearchResult =
+  | { type: 'patient'; key: string; patient: Patient }
+  | { type: 'consultation'; key: string; consultation: Consultation }
+  | { type: 'appointment'; key: string; appointment: Appointment };
+
+interface GlobalSearchProps {
+  placeholder: string;
+}
+
+const SEARCH_DEBOUNCE_MS = 250;
+const MAX_RESULTS_PER_GROUP = 5;
+
+const GROUPS: Array<{ type: SearchResult['type']; label: string }> = [
+  { type: 'patient', label: 'Patients' },
+  { type: 'consultation', label: 'Active Consultations' },
+  { type: 'appointment', label: 'Appointments' }
+];
+
+const matches = (query: string, ...values: Array<string | undefined>) =>
+  values.some(value => value?.toLowerCase().includes(query));
+
+const navigateTo = (page: string) => {
+  window.dispatchEvent(new CustomEvent('navigate', { detail: page }));
+};
+
+const GlobalSearch: React.FC<GlobalSearchProps> = ({ placeholder }) => {
+  const { searchPatients, setSelectedPatient } = usePatientStore();
+  const { consultations } = useConsultationStore();
+  const { appointments, fetchAppointments } = useAppointmentStore();
+  const { can } = usePermissions();
+  const [query, setQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [patientResults, setPatientResults] = useState<Patient[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [highlightedIndex, setHighlightedIndex] = useState(0);
+
+  const canViewPatients = can('patients.view');
+  const canManageAppointments = can('appointments.manage');
+  const trimmedQuery = query.trim().toLowerCase();
+
+  useEffect(() => {
+    if (!trimmedQuery || !canViewPatients) {
+      setPatientResults([]);
+      setSearching(false);
+      return;
+    }
+
+    setSearching(true);
+    let cancelled = false;
+    const timeoutId = setTimeout(async () => {
+      try {
+        const results = await searchPatients(trimmedQuery);
+        if (!cancelled) setPatientResults(results);
+      } catch (error) {
+        console.error('Error searching patients:', error);
+        if (!cancelled) setPatientResults([]);
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [trimmedQuery, canViewPatients, searchPatients]);
+
+  const results = useMemo<SearchResult[]>(() => {
+    if (!trimmedQuery) return [];
+
+    const patients: SearchResult[] = patientResults.map(patient => ({
+      type: 'patient',
+      key: `patient-${patient.id}`,
+      patient
+    }));
+
+    const activeConsultations: SearchResult[] = canViewPatients
+      ? consultations
+          .filter(c => c.status === 'active' && matches(trimmedQuery, c.mrn, c.patient_name, c.consultation_specialty))
+          .slice(0, MAX_RESULTS_PER_GROUP)
+          .map(consultation => ({ type: 'consultation', key: `consultation-${consultation.id}`, consultation }))
+      : [];
+
+    const matchingAppointments: SearchResult[] = canManageAppointments
+      ? appointments
+          .filter(a => a.status === 'pending' && matches(trimmedQuery, a.medicalNumber, a.patientName, a.specialty))
+          .slice(0, MAX_RESULTS_PER_GROUP)
+          .map(appointment => ({ type: 'appointment', key: `appointment-${appointment.id}`, appointment }))
+      : [];
+
+    return [...patients, ...activeConsultations, ...matchingAppointments];
+  }, [trimmedQuery, patientResults, consultations, appointments, canViewPatients, canManageAppointments]);
+
+  useEffect(() => {
+    setHighlightedIndex(0);
+  }, [results]);
+
+  const handleFocus = () => {
+    setIsOpen(true);
+    if (canManageAppointments && appointments.length === 0) {
+      fetchAppointments();
+    }
+  };
+
+  const handleSelect = (result: SearchResult) => {
+    switch (result.type) {
+      case 'patient':
+        setSelectedPatient(result.patient);
+        navigateTo('patient');
+        break;
+      case 'consultation':
+        setSelectedPatient(consultationToPatient(result.consultation));
+        navigateTo('patient');
+        break;
+      case 'appointment':
+        navigateTo('appointments');
+        break;
+    }
+    setQuery('');
+    setIsOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      setIsOpen(false);
+      return;
+    }
+    if (!isOpen || results.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlightedIndex(prev => (prev + 1) % results.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlightedIndex(prev => (prev - 1 + results.length) % results.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      handleSelect(results[highlightedIndex]);
+    }
+  };
+
+  const renderResult = (result: SearchResult) => {
+    switch (result.type) {
+      case 'patient': {
+        const isActive = result.patient.admissions?.[0]?.status === 'active';
+        return (
+          <>
+            <User className="h-4 w-4 text-gray-400 flex-shrink-0" />
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-gray-900 truncate">{result.patient.name}</p>
+              <p className="text-xs text-gray-500 truncate">
+                MRN: {result.patient.mrn}
+                {result.patient.department && ` · ${result.patient.department}`}
+                {isActive ? ' · Admitted' : ''}
+              </p>
+            </div>
+          </>
+        );
+      }
+      case 'consultation':
+        return (
+          <>
+            <Stethoscope className="h-4 w-4 text-gray-400 flex-shrink-0" />
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-gray-900 truncate">{result.consultation.patient_name}</p>
+              <p className="text-xs text-gray-500 truncate">
+                MRN: {result.consultation.mrn} · {result.consultation.consultation_specialty}
+              </p>
+            </div>
+          </>
+        );
+      case 'appointment':
+        return (
+          <>
+            <Calendar className="h-4 w-4 text-gray-400 flex-shrink-0" />
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-gray-900 truncate">{result.appointment.patientName}</p>
+              <p className="text-xs text-gray-500 truncate">
+                MRN: {result.appointment.medicalNumber} · {result.appointment.specialty}
+              </p>
+            </div>
+          </>
+        );
+    }
+  };
+
+  const showDropdown = isOpen && trimmedQuery.length > 0;
+
+  return (
+    <div className="relative">
+      <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+      <input
+        type="text"
+        placeholder={placeholder}
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={handleFocus}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        role="combobox"
+        aria-expanded={showDropdown}
+        aria-autocomplete="list"
+        className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+      />
+
+      {showDropdown && (
+        <div
+          className="absolute left-0 right-0 mt-2 bg-white rounded-lg shadow-lg border border-gray-200 z-50 max-h-96 overflow-y-auto"
+          role="listbox"
+          // Keep focus in the input so the click registers before blur closes the list
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          {results.length === 0 ? (
+            <div className="px-4 py-3 text-sm text-gray-500">
+              {searching ? 'Searching...' : 'No matching patients, consultations or appointments'}
+            </div>
+          ) : (
+            GROUPS.map(group => {
+              const groupResults = results.filter(result => result.type === group.type);
+              if (groupResults.length === 0) return null;
+
+              return (
+                <div key={group.type} className="py-1">
+                  <p className="px-4 py-1 text-xs font-semibold text-gray-500 uppercase">{group.label}</p>
+                  {groupResults.map(result => {
+                    const index = results.indexOf(result);
+                    return (
+                      <button
+                        key={result.key}
+                        type="button"
+                        role="option"
+                        aria-selected={index === highlightedIndex}
+                        onClick={() => handleSelect(result)}
+                        onMouseEnter={() => setHighlightedIndex(index)}
+                        className={`flex items-center space-x-3 w-full px-4 py-2 text-left ${
+                          index === highlightedIndex ? 'bg-indigo-50' : 'hover:bg-gray-50'
+                        }`}
+                      >
+                        {renderResult(result)}
+                      </button>
+                    );
+                  })}
+                </div>
+              );
+            })
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GlobalSearch;
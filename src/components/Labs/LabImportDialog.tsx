@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { X, Upload, AlertCircle, CheckCircle } from 'lucide-react';
+import { useLabStore } from '../../stores/useLabStore';
+import { useSettingsStore } from '../../stores/useSettingsStore';
+import { parseLabFile } from '../../utils/labImport';
+import type { LabImportParseResult, LabImportSummary, LabResultSource } from '../../types/lab';
+
+interface LabImportDialogProps {
+  onClose: () => void;
+}
+
+type ParsedFile = LabImportParseResult & {
+  fileName: string;
+  source: Exclude<LabResultSource, 'manual'>;
+};
+
+const LabImportDialog: React.FC<LabImportDialogProps> = ({ onClose }) => {
+  const { importResults } = useLabStore();
+  const { timeZone } = useSettingsStore();
+  const [parsed, setParsed] = useState<ParsedFile | null>(null);
+  const [summary, setSummary] = useState<LabImportSummary | null>(null);
+  const [error, setError] = useState('');
+  const [importing, setImporting] = useState(false);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setParsed(null);
+    setSummary(null);
+    setError('');
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      setParsed({ fileName: file.name, ...parseLabFile(text, timeZone) });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the file');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!parsed || parsed.rows.length === 0) return;
+
+    setImporting(true);
+    setError('');
+    try {
+      setSummary(await importResults(parsed.rows, parsed.source));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import lab results');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const patientCount = parsed ? new Set(parsed.rows.map(row => row.mrn)).size : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl max-w-lg w-full p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Import Lab Results</h2>
+            <p className="text-sm text-gray-500">CSV export or HL7 ORU message from the laboratory system</p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 rounded-lg"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-4 bg-red-50 text-red-700 rounded-lg flex items-center space-x-2">
+            <AlertCircle className="h-5 w-5" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {summary ? (
+          <div className="p-4 bg-green-50 text-green-800 rounded-lg space-y-1">
+            <div className="flex items-center space-x-2 font-medium">
+              <CheckCircle className="h-5 w-5" />
+              <span>{summary.imported} result{summary.imported === 1 ? '' : 's'} imported</span>
+            </div>
+            {summary.duplicates > 0 && (
+              <p className="text-sm">{summary.duplicates} already on record and skipped</p>
+            )}
+            {summary.critical > 0 && (
+              <p className="text-sm text-red-700 font-medium">
+                {summary.critical} critical result{summary.critical === 1 ? '' : 's'}; the attending doctor has been alerted
+              </p>
+            )}
+            {summary.unknownMrns.length > 0 && (
+              <p className="text-sm text-red-700">No patient found for MRN {summary.unknownMrns.join(', ')}</p>
+            )}
+          </div>
+        ) : (
+          <>
+            <label className="flex flex-col items-center justify-center p-6 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-indigo-400">
+              <Upload className="h-8 w-8 text-gray-400 mb-2" />
+              <span className="text-sm text-gray-600">{parsed ? parsed.fileName : 'Choose a .csv or .hl7 file'}</span>
+              <input
+                type="file"
+                accept=".csv,.hl7,.txt"
+                onChange={handleFileChange}
+                className="hidden"
+              />
+            </label>
+            <p className="mt-2 text-xs text-gray-500">
+              CSV columns: mrn, test_code, value, collected_at and optionally unit. Times without an offset are read as hospital time ({timeZone}).
+            </p>
+
+            {parsed && (
+              <div className="mt-4 space-y-3">
+                <p className="text-sm text-gray-700">
+                  {parsed.rows.length} result{parsed.rows.length === 1 ? '' : 's'} for {patientCount} patient{patientCount === 1 ? '' : 's'} ready to import
+                  ({parsed.source.toUpperCase()})
+                </p>
+                {parsed.errors.length > 0 && (
+                  <div className="p-3 bg-yellow-50 rounded-lg max-h-40 overflow-y-auto">
+                    <p className="text-sm font-medium text-yellow-800 mb-1">
+                      {parsed.errors.length} line{parsed.errors.length === 1 ? '' : 's'} will be skipped
+                    </p>
+                    <ul className="text-xs text-yellow-800 space-y-0.5">
+                      {parsed.errors.map((lineError, index) => (
+                        <li key={index}>Line {lineError.line}: {lineError.message}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+          </>
+        )}
+
+        <div className="flex justify-end space-x-4 mt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+          >
+            {summary ? 'Close' : 'Cancel'}
+          </button>
+          {!summary && (
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={importing || !parsed || parsed.rows.length === 0}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {importing ? 'Importing...' : 'Import'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LabImportDialog;
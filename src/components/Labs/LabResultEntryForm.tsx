@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import { X, Calendar } from 'lucide-react';
+import { useLabStore } from '../../stores/useLabStore';
+import { useSettingsStore } from '../../stores/useSettingsStore';
+import { LAB_FLAG_LABELS, LAB_PANELS, LAB_TESTS } from '../../config/labTests';
+import { formatReferenceRange, getLabFlag, isCriticalFlag } from '../../utils/labResults';
+import { fromHospitalInput, toHospitalInput } from '../../utils/hospitalTime';
+import type { LabValueInput } from '../../types/lab';
+
+interface LabResultEntryFormProps {
+  patientId: number;
+  patientName: string;
+  onClose: () => void;
+}
+
+type FormErrors = Record<string, string | undefined>;
+
+const LabResultEntryForm: React.FC<LabResultEntryFormProps> = ({ patientId, patientName, onClose }) => {
+  const { recordResults } = useLabStore();
+  const { timeZone } = useSettingsStore();
+  const [collectedAt, setCollectedAt] = useState(() => toHospitalInput(new Date(), timeZone));
+  const [panel, setPanel] = useState(LAB_PANELS[0]);
+  // Values entered so far across all panels, keyed by test code
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [formErrors, setFormErrors] = useState<FormErrors>({});
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleValueChange = (code: string, value: string) => {
+    setValues(prev => ({ ...prev, [code]: value }));
+    setFormErrors(prev => ({ ...prev, [code]: undefined, values: undefined, general: undefined }));
+  };
+
+  const validateForm = () => {
+    const errors: FormErrors = {};
+    const time = new Date(fromHospitalInput(collectedAt, timeZone));
+
+    if (!collectedAt || isNaN(time.getTime())) {
+      errors.collectedAt = 'Collection time is required';
+    } else if (time > new Date()) {
+      errors.collectedAt = 'Collection time cannot be in the future';
+    }
+
+    Object.entries(values).forEach(([code, value]) => {
+      if (value.trim() !== '' && !isFinite(Number(value))) {
+        errors[code] = 'Enter a number';
+      }
+    });
+    if (Object.values(values).every(value => value.trim() === '')) {
+      errors.values = 'Enter at least one result';
+    }
+
+    setFormErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validateForm()) return;
+
+    const entered: LabValueInput[] = Object.entries(values)
+      .filter(([, value]) => value.trim() !== '')
+      .map(([testCode, value]) => ({ testCode, value: Number(value) }));
+
+    setSubmitting(true);
+    try {
+      await recordResults(patientId, fromHospitalInput(collectedAt, timeZone), entered);
+      onClose();
+    } catch (err) {
+      setFormErrors({ general: err instanceof Error ? err.message : 'Failed to record lab results' });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const enteredCount = Object.values(values).filter(value => value.trim() !== '').length;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-xl max-w-2xl w-full p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Enter Lab Results</h2>
+            <p className="text-sm text-gray-500">{patientName}</p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 rounded-lg"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {formErrors.general && (
+          <div className="mb-4 p-4 bg-red-50 text-red-700 rounded-lg">
+            {formErrors.general}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+          <div>
+            <label htmlFor="collectedAt" className="block text-sm font-medium text-gray-700 mb-1">
+              Collection Time
+            </label>
+            <div className="relative">
+              <Calendar className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+              <input
+                type="datetime-local"
+                id="collectedAt"
+                value={collectedAt}
+                onChange={(e) => {
+                  setCollectedAt(e.target.value);
+                  setFormErrors(prev => ({ ...prev, collectedAt: undefined }));
+                }}
+                className={`w-full pl-10 pr-4 py-2 rounded-lg border ${
+                  formErrors.collectedAt ? 'border-red-300' : 'border-gray-300'
+                } focus:ring-2 focus:ring-indigo-600 focus:border-transparent`}
+              />
+            </div>
+            {formErrors.collectedAt && (
+              <p className="mt-1 text-sm text-red-600">{formErrors.collectedAt}</p>
+            )}
+            <p className="mt-1 text-xs text-gray-500">Hospital time ({timeZone})</p>
+          </div>
+
+          <div>
+            <label htmlFor="labPanel" className="block text-sm font-medium text-gray-700 mb-1">
+              Panel
+            </label>
+            <select
+              id="labPanel"
+              value={panel}
+              onChange={(e) => setPanel(e.target.value)}
+              className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+            >
+              {LAB_PANELS.map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {LAB_TESTS.filter(test => test.panel === panel).map(test => {
+            const value = values[test.code] ?? '';
+            const flag = value.trim() !== '' && isFinite(Number(value)) ? getLabFlag(test, Number(value)) : null;
+
+            return (
+              <div key={test.code}>
+                <label htmlFor={`lab-${test.code}`} className="block text-sm font-medium text-gray-700 mb-1">
+                  {test.name} <span className="text-gray-500 font-normal">({test.unit})</span>
+                </label>
+                <input
+                  type="number"
+                  id={`lab-${test.code}`}
+                  value={value}
+                  onChange={(e) => handleValueChange(test.code, e.target.value)}
+                  step="any"
+                  className={`w-full px-4 py-2 rounded-lg border ${
+                    formErrors[test.code]
+                      ? 'border-red-300'
+                      : flag && isCriticalFlag(flag)
+                      ? 'border-red-400 bg-red-50'
+                      : flag && flag !== 'normal'
+                      ? 'border-yellow-400 bg-yellow-50'
+                      : 'border-gray-300'
+                  } focus:ring-2 focus:ring-indigo-600 focus:border-transparent`}
+                />
+                {formErrors[test.code] ? (
+                  <p className="mt-1 text-sm text-red-600">{formErrors[test.code]}</p>
+                ) : flag && flag !== 'normal' ? (
+                  <p className={`mt-1 text-xs ${isCriticalFlag(flag) ? 'text-red-600 font-medium' : 'text-yellow-700'}`}>
+                    {LAB_FLAG_LABELS[flag]} (reference {formatReferenceRange(test.low, test.high)})
+                  </p>
+                ) : (
+                  <p className="mt-1 text-xs text-gray-500">Reference {formatReferenceRange(test.low, test.high)}</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {formErrors.values && (
+          <p className="mt-4 text-sm text-red-600">{formErrors.values}</p>
+        )}
+
+        <div className="flex items-center justify-between mt-6">
+          <p className="text-sm text-gray-500">{enteredCount} result{enteredCount === 1 ? '' : 's'} entered</p>
+          <div className="flex space-x-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {submitting ? 'Saving...' : 'Save Results'}
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default LabResultEntryForm;
@@ -0,0 +1,79 @@
+import React from 'react';
+import { buildCumulativeGrid, formatReferenceRange } from '../../utils/labResults';
+import { formatInHospitalTime } from '../../utils/hospitalTime';
+import { useSettingsStore } from '../../stores/useSettingsStore';
+import { LAB_FLAG_LABELS, LAB_FLAG_MARKERS, LAB_FLAG_STYLES } from '../../config/labTests';
+import type { LabResult } from '../../types/lab';
+
+interface LabResultsGridProps {
+  results: LabResult[];
+  selectedTest: string | null;
+  onSelectTest: (code: string) => void;
+}
+
+// Collection times shown side by side before older results scroll off
+const MAX_COLUMNS = 12;
+
+const LabResultsGrid: React.FC<LabResultsGridProps> = ({ results, selectedTest, onSelectTest }) => {
+  const { timeZone } = useSettingsStore();
+  const { columns, panels } = buildCumulativeGrid(results, MAX_COLUMNS);
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="border-b border-gray-200">
+            <th className="px-3 py-2 text-left font-medium text-gray-500">Test</th>
+            <th className="px-3 py-2 text-left font-medium text-gray-500 whitespace-nowrap">Range</th>
+            {columns.map(column => (
+              <th key={column} className="px-3 py-2 text-right font-medium text-gray-500 whitespace-nowrap">
+                <div>{formatInHospitalTime(column, 'dd/MM/yy', timeZone)}</div>
+                <div className="text-xs font-normal">{formatInHospitalTime(column, 'HH:mm', timeZone)}</div>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {panels.map(({ panel, rows }) => (
+            <React.Fragment key={panel}>
+              <tr className="bg-gray-50">
+                <td colSpan={columns.length + 2} className="px-3 py-1.5 text-xs font-semibold text-gray-600 uppercase tracking-wide">
+                  {panel}
+                </td>
+              </tr>
+              {rows.map(({ test, cells }) => (
+                <tr
+                  key={test.code}
+                  onClick={() => onSelectTest(test.code)}
+                  className={`border-b border-gray-100 cursor-pointer ${selectedTest === test.code ? 'bg-indigo-50' : 'hover:bg-gray-50'}`}
+                >
+                  <td className="px-3 py-2 text-gray-900 whitespace-nowrap">
+                    {test.name} <span className="text-xs text-gray-500">{test.unit}</span>
+                  </td>
+                  <td className="px-3 py-2 text-gray-500 whitespace-nowrap">{formatReferenceRange(test.low, test.high)}</td>
+                  {columns.map(column => {
+                    const result = cells[column];
+                    return (
+                      <td key={column} className="px-3 py-2 text-right whitespace-nowrap">
+                        {result && (
+                          <span
+                            title={`${LAB_FLAG_LABELS[result.flag]}${result.enterer ? ` · entered by ${result.enterer.name}` : ''}`}
+                            className={`px-1.5 py-0.5 rounded ${LAB_FLAG_STYLES[result.flag]} ${result.flag !== 'normal' ? 'font-semibold' : ''}`}
+                          >
+                            {result.value}{LAB_FLAG_MARKERS[result.flag] && ` ${LAB_FLAG_MARKERS[result.flag]}`}
+                          </span>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </React.Fragment>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default LabResultsGrid;
@@ -0,0 +1,80 @@
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceArea, ResponsiveContainer } from 'recharts';
+import { formatDateTime } from '../../utils/dateFormat';
+import type { LabResult, LabTest } from '../../types/lab';
+
+interface LabTrendChartProps {
+  test: LabTest;
+  results: LabResult[];
+}
+
+// Flagged points are drawn larger and in red
+const renderDot = (props: any) => {
+  const { cx, cy, payload, index } = props;
+  if (cx === undefined || cy === undefined) return <g key={index} />;
+
+  const flagged = payload.flag !== 'normal';
+  return (
+    <circle
+      key={index}
+      cx={cx}
+      cy={cy}
+      r={flagged ? 5 : 3}
+      fill={flagged ? '#dc2626' : '#4f46e5'}
+      stroke="white"
+      strokeWidth={1}
+    />
+  );
+};
+
+const LabTrendChart: React.FC<LabTrendChartProps> = ({ test, results }) => {
+  const data = results
+    .filter(result => result.test_code === test.code)
+    .sort((a, b) => new Date(a.collected_at).getTime() - new Date(b.collected_at).getTime())
+    .map(result => ({ ...result, time: new Date(result.collected_at).getTime() }));
+
+  if (data.length < 2) {
+    return <p className="text-sm text-gray-500">At least two results are needed to show a trend for {test.name}</p>;
+  }
+
+  return (
+    <div className="h-[240px]">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data} margin={{ top: 10, right: 20, left: 0, bottom: 10 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis
+            dataKey="time"
+            type="number"
+            scale="time"
+            domain={['dataMin', 'dataMax']}
+            tickFormatter={time => formatDateTime(new Date(time))}
+            tick={{ fontSize: 11 }}
+          />
+          <YAxis tick={{ fontSize: 12 }} domain={['auto', 'auto']} />
+          <Tooltip
+            labelFormatter={time => formatDateTime(new Date(time as number))}
+            formatter={(value) => [`${value} ${test.unit}`, test.name]}
+          />
+          {(test.low !== null || test.high !== null) && (
+            <ReferenceArea
+              y1={test.low ?? undefined}
+              y2={test.high ?? undefined}
+              fill="#10b981"
+              fillOpacity={0.06}
+              ifOverflow="extendDomain"
+            />
+          )}
+          <Line
+            type="monotone"
+            dataKey="value"
+            name={`${test.name} (${test.unit})`}
+            stroke="#4f46e5"
+            dot={renderDot}
+          />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+export default LabTrendChart;
@@ -1,14 +1,22 @@
 import React, { useState } from 'react';
-import { LogIn, AlertCircle } from 'lucide-react';
+import { LogIn, AlertCircle, KeyRound } from 'lucide-react';
+import type { LoginStatus } from '../types/user';
 
 interface LoginFormProps {
-  onLogin: (medicalCode: string) => Promise<void>;
+  onLogin: (medicalCode: string, pin: string) => Promise<LoginStatus>;
+  onSetPin: (medicalCode: string, currentPin: string, newPin: string) => Promise<void>;
   loading?: boolean;
   error?: string | null;
 }
 
-const LoginForm: React.FC<LoginFormProps> = ({ onLogin, loading = false, error }) => {
+const MIN_PIN_LENGTH = 6;
+
+const LoginForm: React.FC<LoginFormProps> = ({ onLogin, onSetPin, loading = false, error }) => {
   const [medicalCode, setMedicalCode] = useState('');
+  const [pin, setPin] = useState('');
+  const [newPin, setNewPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [mustSetPin, setMustSetPin] = useState(false);
   const [formError, setFormError] = useState('');
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -20,13 +28,120 @@ const LoginForm: React.FC<LoginFormProps> = ({ onLogin, loading = false, error }
       return;
     }
 
+    if (!pin) {
+      setFormError('PIN is required');
+      return;
+    }
+
     try {
-      await onLogin(medicalCode);
+      const status = await onLogin(medicalCode, pin);
+      if (status === 'pin_change_required') {
+        setMustSetPin(true);
+      }
     } catch (err) {
+      setPin('');
       setFormError(err instanceof Error ? err.message : 'Authentication failed');
     }
   };
 
+  const handleSetPin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError('');
+
+    if (newPin.length < MIN_PIN_LENGTH) {
+      setFormError(`PIN must be at least ${MIN_PIN_LENGTH} characters`);
+      return;
+    }
+
+    if (newPin !== confirmPin) {
+      setFormError('PINs do not match');
+      return;
+    }
+
+    try {
+      await onSetPin(medicalCode, pin, newPin);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to set PIN');
+    }
+  };
+
+  const inputClassName = "w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-600 focus:border-transparent transition-colors placeholder:text-gray-400";
+
+  const errorMessage = (formError || error) && (
+    <div className="mt-2 flex items-center space-x-2 text-sm text-red-600">
+      <AlertCircle className="h-4 w-4" />
+      <span>{formError || error}</span>
+    </div>
+  );
+
+  const spinner = (
+    <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+  );
+
+  if (mustSetPin) {
+    return (
+      <form onSubmit={handleSetPin} className="space-y-6">
+        <div className="p-3 bg-indigo-50 text-indigo-700 rounded-lg text-sm">
+          Your account is using a temporary PIN. Choose a personal PIN to continue.
+        </div>
+
+        <div>
+          <label htmlFor="newPin" className="block text-sm font-medium text-gray-700 mb-2">
+            New PIN
+          </label>
+          <input
+            id="newPin"
+            type="password"
+            autoComplete="new-password"
+            value={newPin}
+            onChange={(e) => {
+              setNewPin(e.target.value);
+              setFormError('');
+            }}
+            placeholder={`At least ${MIN_PIN_LENGTH} characters`}
+            className={inputClassName}
+            required
+            disabled={loading}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="confirmPin" className="block text-sm font-medium text-gray-700 mb-2">
+            Confirm PIN
+          </label>
+          <input
+            id="confirmPin"
+            type="password"
+            autoComplete="new-password"
+            value={confirmPin}
+            onChange={(e) => {
+              setConfirmPin(e.target.value);
+              setFormError('');
+            }}
+            placeholder="Re-enter your new PIN"
+            className={inputClassName}
+            required
+            disabled={loading}
+          />
+          {errorMessage}
+        </div>
+
+        <button
+          type="submit"
+          disabled={loading || !newPin || !confirmPin}
+          className="w-full bg-indigo-600 text-white py-3 px-4 rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+        >
+          {loading ? spinner : (
+            <>
+              <KeyRound className="h-5 w-5" />
+              <span>Set PIN and Sign In</span>
+            </>
+          )}
+        </button>
+      </form>
+    );
+  }
+
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
       <div>
@@ -36,6 +151,7 @@ const LoginForm: React.FC<LoginFormProps> = ({ onLogin, loading = false, error }
         <input
           id="medicalCode"
           type="text"
+          autoComplete="username"
           value={medicalCode}
           onChange={(e) => {
             const value = e.target.value.toUpperCase();
@@ -43,26 +159,39 @@ const LoginForm: React.FC<LoginFormProps> = ({ onLogin, loading = false, error }
             setFormError('');
           }}
           placeholder="Enter your medical code"
-          className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-600 focus:border-transparent transition-colors placeholder:text-gray-400"
+          className={inputClassName}
           required
           disabled={loading}
         />
-        {(formError || error) && (
-          <div className="mt-2 flex items-center space-x-2 text-sm text-red-600">
-            <AlertCircle className="h-4 w-4" />
-            <span>{formError || error}</span>
-          </div>
-        )}
+      </div>
+
+      <div>
+        <label htmlFor="pin" className="block text-sm font-medium text-gray-700 mb-2">
+          PIN
+        </label>
+        <input
+          id="pin"
+          type="password"
+          autoComplete="current-password"
+          value={pin}
+          onChange={(e) => {
+            setPin(e.target.value);
+            setFormError('');
+          }}
+          placeholder="Enter your PIN"
+          className={inputClassName}
+          required
+          disabled={loading}
+        />
+        {errorMessage}
       </div>
 
       <button
         type="submit"
-        disabled={loading || !medicalCode}
+        disabled={loading || !medicalCode || !pin}
         className="w-full bg-indigo-600 text-white py-3 px-4 rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
       >
-        {loading ? (
-          <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
-        ) : (
+        {loading ? spinner : (
           <>
             <LogIn className="h-5 w-5" />
             <span>Sign In</span>
@@ -73,4 +202,4 @@ const LoginForm: React.FC<LoginFormProps> = ({ onLogin, loading = false, error }
   );
 };
 
-export default LoginForm;
\ No newline at end of file
+export default LoginForm;
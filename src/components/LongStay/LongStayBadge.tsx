@@ -1,6 +1,6 @@
 import React from 'react';
 import { Clock } from 'lucide-react';
-import { calculateStayDuration } from '../../utils/stayCalculator';
+import { calculateStayHours, formatStayDuration } from '../../utils/stayCalculator';
 
 interface LongStayBadgeProps {
   admissionDate: string;
@@ -8,14 +8,14 @@ interface LongStayBadgeProps {
 }
 
 const LongStayBadge: React.FC<LongStayBadgeProps> = ({ admissionDate, showDuration = false }) => {
-  const stayDuration = calculateStayDuration(admissionDate);
+  const stayDuration = formatStayDuration(calculateStayHours(admissionDate));
 
   return (
     <div className="inline-flex items-center space-x-1">
       <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
         <Clock className="h-3 w-3 mr-1" />
         Long Stay
-        {showDuration && ` (${stayDuration} days)`}
+        {showDuration && ` (${stayDuration})`}
       </span>
     </div>
   );
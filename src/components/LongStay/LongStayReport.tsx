@@ -1,6 +1,6 @@
 import React from 'react';
 import { usePatientStore } from '../../stores/usePatientStore';
-import { isLongStay } from '../../utils/stayCalculator';
+import { calculateStayHours, formatStayDuration, getStayStartDate, isLongStay } from '../../utils/stayCalculator';
 import type { Patient } from '../../types/patient';
 
 interface LongStayReportProps {
@@ -18,11 +18,12 @@ const LongStayReport: React.FC<LongStayReportProps> = ({ dateFilter }) => {
     const admission = patient.admissions?.[0];
     if (!admission) return false;
 
+    const admittedAt = getStayStartDate(admission, patient.admissions);
     return (
       admission.status === 'active' &&
-      new Date(admission.admission_date) >= new Date(dateFilter.startDate) &&
-      new Date(admission.admission_date) <= new Date(dateFilter.endDate) &&
-      isLongStay(admission.admission_date)
+      new Date(admittedAt) >= new Date(dateFilter.startDate) &&
+      new Date(admittedAt) <= new Date(dateFilter.endDate) &&
+      isLongStay(admittedAt)
     );
   });
 
@@ -38,9 +39,8 @@ const LongStayReport: React.FC<LongStayReportProps> = ({ dateFilter }) => {
             const admission = patient.admissions?.[0];
             if (!admission) return null;
 
-            const stayDuration = Math.ceil(
-              (new Date().getTime() - new Date(admission.admission_date).getTime()) / 
-              (1000 * 60 * 60 * 24)
+            const stayDuration = formatStayDuration(
+              calculateStayHours(getStayStartDate(admission, patient.admissions))
             );
 
             return (
@@ -60,7 +60,7 @@ const LongStayReport: React.FC<LongStayReportProps> = ({ dateFilter }) => {
                         Doctor: {admission.admitting_doctor?.name || 'Not assigned'}
                       </p>
                       <p className="text-sm text-gray-600">
-                        Stay Duration: {stayDuration} days
+                        Stay Duration: {stayDuration}
                       </p>
                     </div>
                   </div>
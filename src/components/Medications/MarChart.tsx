@@ -0,0 +1,194 @@
+import { useEffect, useState } from 'react';
+import { ClipboardList, Printer, Plus, AlertCircle } from 'lucide-react';
+import { usePatientStore } from '../../stores/usePatientStore';
+import { useMedicationStore } from '../../stores/useMedicationStore';
+import { useMarStore } from '../../stores/useMarStore';
+import { useSettingsStore } from '../../stores/useSettingsStore';
+import { usePermissions } from '../../hooks/usePermissions';
+import { buildMarRows } from '../../utils/mar';
+import { findInpatientAdmission } from '../../utils/consultationPatient';
+import { exportMarPdf } from '../../utils/marPdfExport';
+import { formatInHospitalTime, getHospitalDayRange } from '../../utils/hospitalTime';
+import {
+  ADMINISTRATION_STATUS_LABELS,
+  ADMINISTRATION_STATUS_STYLES,
+  MEDICATION_FREQUENCY_LABELS,
+  MEDICATION_ROUTE_LABELS
+} from '../../config/medications';
+import RecordAdministrationDialog from './RecordAdministrationDialog';
+import type { MedicationOrder } from '../../types/medication';
+
+interface DoseTarget {
+  order: MedicationOrder;
+  scheduledAt: string | null;
+}
+
+const MarChart = () => {
+  const { selectedPatient } = usePatientStore();
+  const { orders } = useMedicationStore();
+  const { administrations, error, fetchAdministrations } = useMarStore();
+  const { timeZone } = useSettingsStore();
+  const { can } = usePermissions();
+  const canAdminister = can('medications.administer');
+  const [date, setDate] = useState(() => formatInHospitalTime(new Date(), 'yyyy-MM-dd', timeZone));
+  const [doseTarget, setDoseTarget] = useState<DoseTarget | null>(null);
+  const [printError, setPrintError] = useState('');
+
+  const patientId = selectedPatient?.id;
+  const { start, end } = getHospitalDayRange(date, date, timeZone);
+  const startTime = start.getTime();
+  const endTime = end.getTime();
+
+  useEffect(() => {
+    if (patientId && !isNaN(startTime)) {
+      fetchAdministrations(patientId, new Date(startTime), new Date(endTime));
+    }
+  }, [patientId, startTime, endTime, fetchAdministrations]);
+
+  if (!selectedPatient) return null;
+
+  const rows = isNaN(startTime)
+    ? []
+    : buildMarRows(orders[selectedPatient.id] || [], administrations[selectedPatient.id] || [], start, end, timeZone);
+  const activeAdmission = selectedPatient.admissions?.find(admission => admission.status === 'active');
+  // PRN doses are only recorded during an inpatient admission, not an open consultation
+  const canRecordPrn = canAdminister && !!findInpatientAdmission(selectedPatient.admissions);
+
+  const handlePrint = () => {
+    setPrintError('');
+    try {
+      exportMarPdf({
+        patient: {
+          name: selectedPatient.name,
+          mrn: selectedPatient.mrn,
+          department: activeAdmission?.department
+        },
+        rows,
+        date,
+        timeZone
+      });
+    } catch (err) {
+      setPrintError(err instanceof Error ? err.message : 'Failed to generate MAR');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <div className="flex items-center space-x-3">
+          <ClipboardList className="h-5 w-5 text-indigo-600" />
+          <h2 className="text-lg font-semibold text-gray-900">Medication Administration Record</h2>
+        </div>
+        <div className="flex items-center space-x-3">
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className="px-3 py-2 text-sm rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+          />
+          <button
+            onClick={handlePrint}
+            className="flex items-center px-3 py-2 border border-gray-300 text-sm text-gray-700 rounded-lg hover:bg-gray-50"
+          >
+            <Printer className="h-4 w-4 mr-1" />
+            Print MAR
+          </button>
+        </div>
+      </div>
+
+      {(printError || error) && (
+        <div className="mb-4 p-4 bg-red-50 text-red-700 rounded-lg flex items-center space-x-2">
+          <AlertCircle className="h-5 w-5" />
+          <span>{printError || error}</span>
+        </div>
+      )}
+
+      {rows.length === 0 ? (
+        <div className="p-8 text-center text-gray-500">No medications due on this day</div>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {rows.map(({ order, doses, prnAdministrations }) => (
+            <div key={order.id} className="py-4 first:pt-0 last:pb-0">
+              <div className="flex items-start justify-between mb-2">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{order.drug_name} {order.dose}</p>
+                  <p className="text-xs text-gray-500">
+                    {MEDICATION_ROUTE_LABELS[order.route]} · {MEDICATION_FREQUENCY_LABELS[order.frequency]}
+                    {order.is_prn && ` PRN (${order.prn_indication})`}
+                  </p>
+                </div>
+                {order.is_prn && canRecordPrn && !order.discontinued_at && (
+                  <button
+                    onClick={() => setDoseTarget({ order, scheduledAt: null })}
+                    className="flex items-center px-2 py-1 text-xs text-indigo-600 border border-indigo-200 rounded-lg hover:bg-indigo-50"
+                  >
+                    <Plus className="h-3 w-3 mr-1" />
+                    Record PRN dose
+                  </button>
+                )}
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                {doses.map(dose => {
+                  const time = formatInHospitalTime(dose.scheduledAt, 'HH:mm', timeZone);
+                  const { administration } = dose;
+
+                  if (administration) {
+                    return (
+                      <span
+                        key={dose.scheduledAt}
+                        title={[
+                          `Recorded at ${formatInHospitalTime(administration.administered_at, 'HH:mm', timeZone)}`,
+                          administration.recorder?.name,
+                          administration.reason
+                        ].filter(Boolean).join(' · ')}
+                        className={`px-2.5 py-1 text-xs font-medium rounded-lg ${ADMINISTRATION_STATUS_STYLES[administration.status]}`}
+                      >
+                        {time} {ADMINISTRATION_STATUS_LABELS[administration.status]}
+                      </span>
+                    );
+                  }
+
+                  return (
+                    <button
+                      key={dose.scheduledAt}
+                      onClick={() => setDoseTarget({ order, scheduledAt: dose.scheduledAt })}
+                      disabled={!canAdminister}
+                      className={`px-2.5 py-1 text-xs font-medium rounded-lg border disabled:cursor-default ${
+                        dose.overdue
+                          ? 'border-red-300 bg-red-50 text-red-700 hover:bg-red-100'
+                          : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      {time} {dose.overdue ? 'Overdue' : 'Due'}
+                    </button>
+                  );
+                })}
+
+                {prnAdministrations.map(administration => (
+                  <span
+                    key={administration.id}
+                    title={[administration.recorder?.name, administration.reason].filter(Boolean).join(' · ')}
+                    className={`px-2.5 py-1 text-xs font-medium rounded-lg ${ADMINISTRATION_STATUS_STYLES[administration.status]}`}
+                  >
+                    {formatInHospitalTime(administration.administered_at, 'HH:mm', timeZone)} PRN {ADMINISTRATION_STATUS_LABELS[administration.status]}
+                  </span>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {doseTarget && (
+        <RecordAdministrationDialog
+          order={doseTarget.order}
+          scheduledAt={doseTarget.scheduledAt}
+          onClose={() => setDoseTarget(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default MarChart;
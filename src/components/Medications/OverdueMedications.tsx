@@ -0,0 +1,74 @@
+import React from 'react';
+import { Pill } from 'lucide-react';
+import { useSettingsStore } from '../../stores/useSettingsStore';
+import { getDueTimes, isDoseOverdue } from '../../utils/mar';
+import { formatDateTime } from '../../utils/dateFormat';
+import { MEDICATION_ROUTE_LABELS } from '../../config/medications';
+import type { MedicationAdministration, MedicationOrder } from '../../types/medication';
+
+interface OverdueMedicationsProps {
+  orders: MedicationOrder[];
+  administrations: MedicationAdministration[];
+  onOpenPatient: (patientId: number) => void;
+}
+
+// Matches the window fetched by the MAR store for the ward
+const LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+const OverdueMedications: React.FC<OverdueMedicationsProps> = ({ orders, administrations, onOpenPatient }) => {
+  const { timeZone } = useSettingsStore();
+  const now = new Date();
+
+  // Every unrecorded dose past its grace period, oldest first
+  const overdue = orders
+    .flatMap(order =>
+      getDueTimes(order, new Date(now.getTime() - LOOKBACK_MS), now, timeZone)
+        .filter(dueAt => !administrations.some(administration =>
+          administration.order_id === order.id &&
+          administration.scheduled_at !== null &&
+          new Date(administration.scheduled_at).getTime() === dueAt.getTime()
+        ))
+        .filter(dueAt => isDoseOverdue(dueAt, undefined, now))
+        .map(dueAt => ({ order, dueAt }))
+    )
+    .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+
+  return (
+    <div className="mb-6 bg-white rounded-xl shadow-sm border border-red-200 p-6">
+      <div className="flex items-center space-x-2 mb-4">
+        <Pill className="h-5 w-5 text-red-600" />
+        <h2 className="text-lg font-semibold text-gray-900">Overdue Medications</h2>
+      </div>
+
+      {overdue.length === 0 ? (
+        <p className="text-sm text-gray-500">No doses are overdue</p>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {overdue.map(({ order, dueAt }) => (
+            <div key={`${order.id}-${dueAt.getTime()}`} className="flex items-center justify-between py-3">
+              <button
+                onClick={() => order.admission?.patient && onOpenPatient(order.admission.patient.id)}
+                className="text-left"
+              >
+                <p className="text-sm font-medium text-gray-900 hover:text-indigo-600">
+                  {order.admission?.patient?.name}
+                </p>
+                <p className="text-xs text-gray-500">
+                  MRN: {order.admission?.patient?.mrn} · {order.admission?.department}
+                </p>
+              </button>
+              <div className="text-right">
+                <p className="text-sm text-gray-900">
+                  {order.drug_name} {order.dose} {MEDICATION_ROUTE_LABELS[order.route]}
+                </p>
+                <p className="text-xs font-medium text-red-600">Due {formatDateTime(dueAt)}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OverdueMedications;
@@ -0,0 +1,386 @@
+import React, { useState } from 'react';
+import { Pill, AlertCircle, ShieldAlert, X } from 'lucide-react';
+import { useMedicationStore } from '../../stores/useMedicationStore';
+import { useAllergyStore } from '../../stores/useAllergyStore';
+import { useSettingsStore } from '../../stores/useSettingsStore';
+import { toFormErrors } from '../../utils/procedureErrors';
+import { fromHospitalInput, toHospitalInput } from '../../utils/hospitalTime';
+import { checkPrescription, findFormularyDrug } from '../../utils/prescribingChecks';
+import { MEDICATION_FREQUENCY_LABELS, MEDICATION_ROUTE_LABELS } from '../../config/medications';
+import { FORMULARY } from '../../config/formulary';
+import type { MedicationFrequency, MedicationRoute } from '../../types/medication';
+import type { FormErrors } from '../../types/formErrors';
+
+interface PrescribeMedicationFormProps {
+  patientId: number;
+  admissionId: number;
+  patientName: string;
+  onClose: () => void;
+}
+
+interface FormData {
+  drugName: string;
+  dose: string;
+  route: MedicationRoute;
+  frequency: MedicationFrequency;
+  isPrn: boolean;
+  prnIndication: string;
+  // datetime-local values in hospital time
+  startAt: string;
+  stopAt: string;
+  instructions: string;
+  overrideReason: string;
+}
+
+const PrescribeMedicationForm: React.FC<PrescribeMedicationFormProps> = ({ patientId, admissionId, patientName, onClose }) => {
+  const { orders, prescribeMedication } = useMedicationStore();
+  const { allergies } = useAllergyStore();
+  const { timeZone } = useSettingsStore();
+  const [formData, setFormData] = useState<FormData>(() => ({
+    drugName: '',
+    dose: '',
+    route: 'oral',
+    frequency: 'once_daily',
+    isPrn: false,
+    prnIndication: '',
+    startAt: toHospitalInput(new Date(), useSettingsStore.getState().timeZone),
+    stopAt: '',
+    instructions: '',
+    overrideReason: ''
+  }));
+  const [formErrors, setFormErrors] = useState<FormErrors>({});
+  const [submitting, setSubmitting] = useState(false);
+
+  // Rerun on every change so the prescriber sees alerts before submitting
+  const safetyAlerts = checkPrescription(formData.drugName, allergies[patientId] || [], orders[patientId] || []);
+  const hardStops = safetyAlerts.filter(alert => alert.hardStop);
+  const inFormulary = findFormularyDrug(formData.drugName) !== undefined;
+
+  const validateForm = () => {
+    const errors: FormErrors = {};
+
+    if (!formData.drugName.trim()) {
+      errors.drugName = 'Drug name is required';
+    }
+    if (!formData.dose.trim()) {
+      errors.dose = 'Dose is required';
+    }
+    if (formData.isPrn && !formData.prnIndication.trim()) {
+      errors.prnIndication = 'Please give the indication for an as-needed medication';
+    }
+    if (!formData.startAt) {
+      errors.startAt = 'Start time is required';
+    }
+    if (formData.startAt && formData.stopAt &&
+        new Date(fromHospitalInput(formData.stopAt, timeZone)) <= new Date(fromHospitalInput(formData.startAt, timeZone))) {
+      errors.stopAt = 'Stop time must be after the start time';
+    }
+    if (hardStops.length > 0 && !formData.overrideReason.trim()) {
+      errors.overrideReason = 'Please document why you are overriding the safety alert';
+    }
+
+    setFormErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value, type } = e.target;
+    const nextValue = type === 'checkbox' ? (e.target as HTMLInputElement).checked : value;
+    setFormData(prev => ({ ...prev, [name]: nextValue }));
+    setFormErrors(prev => ({ ...prev, [name]: undefined, general: undefined }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validateForm()) return;
+
+    setSubmitting(true);
+    try {
+      await prescribeMedication({
+        p_patient_id: patientId,
+        p_admission_id: admissionId,
+        p_drug_name: formData.drugName.trim(),
+        p_dose: formData.dose.trim(),
+        p_route: formData.route,
+        p_frequency: formData.frequency,
+        p_is_prn: formData.isPrn,
+        p_prn_indication: formData.isPrn ? formData.prnIndication.trim() : null,
+        p_instructions: formData.instructions.trim() || null,
+        p_start_at: fromHospitalInput(formData.startAt, timeZone),
+        p_stop_at: formData.stopAt ? fromHospitalInput(formData.stopAt, timeZone) : null,
+        p_safety_alerts: safetyAlerts,
+        p_override_reason: hardStops.length > 0 ? formData.overrideReason.trim() : null
+      });
+      onClose();
+    } catch (err) {
+      setFormErrors(prev => ({ ...prev, ...toFormErrors(err, 'Error prescribing medication') }));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const inputClass = (field: string) => `w-full px-4 py-2 rounded-lg border ${
+    formErrors[field] ? 'border-red-300' : 'border-gray-300'
+  } focus:ring-2 focus:ring-indigo-600 focus:border-transparent`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center space-x-3">
+            <div className="p-2 bg-indigo-100 rounded-lg">
+              <Pill className="h-6 w-6 text-indigo-600" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">Prescribe Medication</h2>
+              <p className="text-sm text-gray-600">{patientName}</p>
+            </div>
+          </div>
+          <button type="button" onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600 rounded-lg">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {formErrors.general && (
+            <div className="p-4 bg-red-50 text-red-700 rounded-lg flex items-center space-x-2">
+              <AlertCircle className="h-5 w-5" />
+              <span>{formErrors.general}</span>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="drugName" className="block text-sm font-medium text-gray-700 mb-1">
+                Drug
+              </label>
+              <input
+                type="text"
+                id="drugName"
+                name="drugName"
+                list="formulary-drugs"
+                value={formData.drugName}
+                onChange={handleChange}
+                placeholder="e.g. Amoxicillin"
+                className={inputClass('drugName')}
+              />
+              <datalist id="formulary-drugs">
+                {FORMULARY.map(drug => (
+                  <option key={drug.name} value={drug.name} />
+                ))}
+              </datalist>
+              {formErrors.drugName && (
+                <p className="mt-1 text-sm text-red-600">{formErrors.drugName}</p>
+              )}
+              {formData.drugName.trim() && !inFormulary && (
+                <p className="mt-1 text-xs text-yellow-700">
+                  Not in the local formulary; only recorded allergies to this exact name are checked
+                </p>
+              )}
+            </div>
+
+            <div>
+              <label htmlFor="dose" className="block text-sm font-medium text-gray-700 mb-1">
+                Dose
+              </label>
+              <input
+                type="text"
+                id="dose"
+                name="dose"
+                value={formData.dose}
+                onChange={handleChange}
+                placeholder="e.g. 500 mg"
+                className={inputClass('dose')}
+              />
+              {formErrors.dose && (
+                <p className="mt-1 text-sm text-red-600">{formErrors.dose}</p>
+              )}
+            </div>
+
+            <div>
+              <label htmlFor="route" className="block text-sm font-medium text-gray-700 mb-1">
+                Route
+              </label>
+              <select
+                id="route"
+                name="route"
+                value={formData.route}
+                onChange={handleChange}
+                className={inputClass('route')}
+              >
+                {(Object.keys(MEDICATION_ROUTE_LABELS) as MedicationRoute[]).map(route => (
+                  <option key={route} value={route}>{MEDICATION_ROUTE_LABELS[route]}</option>
+                ))}
+              </select>
+              {formErrors.route && (
+                <p className="mt-1 text-sm text-red-600">{formErrors.route}</p>
+              )}
+            </div>
+
+            <div>
+              <label htmlFor="frequency" className="block text-sm font-medium text-gray-700 mb-1">
+                Frequency
+              </label>
+              <select
+                id="frequency"
+                name="frequency"
+                value={formData.frequency}
+                onChange={handleChange}
+                className={inputClass('frequency')}
+              >
+                {(Object.keys(MEDICATION_FREQUENCY_LABELS) as MedicationFrequency[]).map(frequency => (
+                  <option key={frequency} value={frequency}>{MEDICATION_FREQUENCY_LABELS[frequency]}</option>
+                ))}
+              </select>
+              {formErrors.frequency && (
+                <p className="mt-1 text-sm text-red-600">{formErrors.frequency}</p>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                name="isPrn"
+                checked={formData.isPrn}
+                onChange={handleChange}
+                className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+              />
+              <span className="text-sm font-medium text-gray-700">As needed (PRN)</span>
+            </label>
+            {formData.isPrn && (
+              <div className="mt-2">
+                <input
+                  type="text"
+                  id="prnIndication"
+                  name="prnIndication"
+                  value={formData.prnIndication}
+                  onChange={handleChange}
+                  placeholder="Indication, e.g. pain or fever above 38 °C"
+                  className={inputClass('prnIndication')}
+                />
+                {formErrors.prnIndication && (
+                  <p className="mt-1 text-sm text-red-600">{formErrors.prnIndication}</p>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="startAt" className="block text-sm font-medium text-gray-700 mb-1">
+                Start
+              </label>
+              <input
+                type="datetime-local"
+                id="startAt"
+                name="startAt"
+                value={formData.startAt}
+                onChange={handleChange}
+                className={inputClass('startAt')}
+              />
+              {formErrors.startAt && (
+                <p className="mt-1 text-sm text-red-600">{formErrors.startAt}</p>
+              )}
+            </div>
+
+            <div>
+              <label htmlFor="stopAt" className="block text-sm font-medium text-gray-700 mb-1">
+                Stop <span className="text-gray-500 font-normal">(optional)</span>
+              </label>
+              <input
+                type="datetime-local"
+                id="stopAt"
+                name="stopAt"
+                value={formData.stopAt}
+                onChange={handleChange}
+                min={formData.startAt}
+                className={inputClass('stopAt')}
+              />
+              {formErrors.stopAt && (
+                <p className="mt-1 text-sm text-red-600">{formErrors.stopAt}</p>
+              )}
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">Times are in hospital time ({timeZone})</p>
+
+          <div>
+            <label htmlFor="instructions" className="block text-sm font-medium text-gray-700 mb-1">
+              Instructions <span className="text-gray-500 font-normal">(optional)</span>
+            </label>
+            <textarea
+              id="instructions"
+              name="instructions"
+              rows={2}
+              value={formData.instructions}
+              onChange={handleChange}
+              placeholder="e.g. Take with food"
+              className={inputClass('instructions')}
+            />
+          </div>
+
+          {safetyAlerts.length > 0 && (
+            <div className={`p-4 rounded-lg border ${hardStops.length > 0 ? 'bg-red-50 border-red-300' : 'bg-yellow-50 border-yellow-300'}`}>
+              <div className="flex items-center space-x-2 mb-2">
+                <ShieldAlert className={`h-5 w-5 ${hardStops.length > 0 ? 'text-red-600' : 'text-yellow-600'}`} />
+                <h3 className={`text-sm font-semibold ${hardStops.length > 0 ? 'text-red-800' : 'text-yellow-800'}`}>
+                  {hardStops.length > 0 ? 'Prescribing stopped' : 'Prescribing warnings'}
+                </h3>
+              </div>
+              <ul className="space-y-1 mb-2">
+                {safetyAlerts.map(alert => (
+                  <li
+                    key={`${alert.type}-${alert.with}`}
+                    className={`text-sm ${alert.hardStop ? 'text-red-700 font-medium' : 'text-yellow-800'}`}
+                  >
+                    {alert.message}
+                  </li>
+                ))}
+              </ul>
+              {hardStops.length > 0 && (
+                <div>
+                  <label htmlFor="overrideReason" className="block text-sm font-medium text-red-800 mb-1">
+                    Override reason
+                  </label>
+                  <textarea
+                    id="overrideReason"
+                    name="overrideReason"
+                    rows={2}
+                    value={formData.overrideReason}
+                    onChange={handleChange}
+                    placeholder="e.g. Tolerated previously, benefit outweighs risk after discussion with pharmacy"
+                    className={inputClass('overrideReason')}
+                  />
+                  {formErrors.overrideReason && (
+                    <p className="mt-1 text-sm text-red-600">{formErrors.overrideReason}</p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-4 p-6 border-t border-gray-200">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={submitting}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={submitting}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {submitting ? 'Prescribing...' : hardStops.length > 0 ? 'Override and Prescribe' : 'Prescribe'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default PrescribeMedicationForm;
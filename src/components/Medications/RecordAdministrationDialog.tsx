@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import { AlertCircle, X } from 'lucide-react';
+import { useMarStore } from '../../stores/useMarStore';
+import { useSettingsStore } from '../../stores/useSettingsStore';
+import { toFormErrors } from '../../utils/procedureErrors';
+import { formatDateTime } from '../../utils/dateFormat';
+import { fromHospitalInput, toHospitalInput } from '../../utils/hospitalTime';
+import { ADMINISTRATION_STATUS_LABELS, MEDICATION_ROUTE_LABELS } from '../../config/medications';
+import type { AdministrationStatus, MedicationOrder } from '../../types/medication';
+import type { FormErrors } from '../../types/formErrors';
+
+interface RecordAdministrationDialogProps {
+  order: MedicationOrder;
+  // Due time of the dose, or null for a PRN dose
+  scheduledAt: string | null;
+  onClose: () => void;
+}
+
+const STATUSES = Object.keys(ADMINISTRATION_STATUS_LABELS) as AdministrationStatus[];
+
+const RecordAdministrationDialog: React.FC<RecordAdministrationDialogProps> = ({ order, scheduledAt, onClose }) => {
+  const { recordAdministration } = useMarStore();
+  const { timeZone } = useSettingsStore();
+  const [status, setStatus] = useState<AdministrationStatus>('given');
+  const [reason, setReason] = useState('');
+  const [administeredAt, setAdministeredAt] = useState(() =>
+    toHospitalInput(new Date(), useSettingsStore.getState().timeZone)
+  );
+  const [formErrors, setFormErrors] = useState<FormErrors>({});
+  const [submitting, setSubmitting] = useState(false);
+
+  const validateForm = () => {
+    const errors: FormErrors = {};
+    const time = new Date(fromHospitalInput(administeredAt, timeZone));
+
+    if (status !== 'given' && !reason.trim()) {
+      errors.reason = 'Please give a reason when a dose is not given';
+    }
+    if (isNaN(time.getTime()) || time > new Date()) {
+      errors.administeredAt = 'Administration time cannot be in the future';
+    }
+
+    setFormErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validateForm()) return;
+
+    setSubmitting(true);
+    try {
+      await recordAdministration({
+        p_order_id: order.id,
+        p_scheduled_at: scheduledAt,
+        p_status: status,
+        p_reason: reason.trim() || null,
+        p_administered_at: fromHospitalInput(administeredAt, timeZone)
+      });
+      onClose();
+    } catch (err) {
+      setFormErrors(prev => ({ ...prev, ...toFormErrors(err, 'Error recording administration') }));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-xl max-w-md w-full p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">
+              {order.drug_name} {order.dose}
+            </h2>
+            <p className="text-sm text-gray-500">
+              {MEDICATION_ROUTE_LABELS[order.route]} · {scheduledAt ? `Due ${formatDateTime(scheduledAt)}` : `PRN (${order.prn_indication})`}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 rounded-lg"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {formErrors.general && (
+          <div className="mb-4 p-4 bg-red-50 text-red-700 rounded-lg flex items-center space-x-2">
+            <AlertCircle className="h-5 w-5" />
+            <span>{formErrors.general}</span>
+          </div>
+        )}
+
+        <div className="space-y-4">
+          {scheduledAt && (
+            <div>
+              <p className="block text-sm font-medium text-gray-700 mb-2">Outcome</p>
+              <div className="grid grid-cols-4 gap-2">
+                {STATUSES.map(option => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => {
+                      setStatus(option);
+                      setFormErrors({});
+                    }}
+                    className={`px-3 py-2 text-sm rounded-lg border ${
+                      status === option
+                        ? 'bg-indigo-600 text-white border-indigo-600'
+                        : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {ADMINISTRATION_STATUS_LABELS[option]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="administeredAt" className="block text-sm font-medium text-gray-700 mb-1">
+              {status === 'given' ? 'Time Given' : 'Time Recorded'}
+            </label>
+            <input
+              type="datetime-local"
+              id="administeredAt"
+              value={administeredAt}
+              onChange={(e) => {
+                setAdministeredAt(e.target.value);
+                setFormErrors(prev => ({ ...prev, administeredAt: undefined, general: undefined }));
+              }}
+              max={toHospitalInput(new Date(), timeZone)}
+              className={`w-full px-4 py-2 rounded-lg border ${
+                formErrors.administeredAt ? 'border-red-300' : 'border-gray-300'
+              } focus:ring-2 focus:ring-indigo-600 focus:border-transparent`}
+            />
+            {formErrors.administeredAt && (
+              <p className="mt-1 text-sm text-red-600">{formErrors.administeredAt}</p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="administrationReason" className="block text-sm font-medium text-gray-700 mb-1">
+              Reason {status === 'given' && <span className="text-gray-500 font-normal">(optional)</span>}
+            </label>
+            <textarea
+              id="administrationReason"
+              rows={2}
+              value={reason}
+              onChange={(e) => {
+                setReason(e.target.value);
+                setFormErrors(prev => ({ ...prev, reason: undefined, general: undefined }));
+              }}
+              placeholder={status === 'given' ? 'Any comment on the dose' : 'e.g. Nil by mouth, patient declined'}
+              className={`w-full px-4 py-2 rounded-lg border ${
+                formErrors.reason ? 'border-red-300' : 'border-gray-300'
+              } focus:ring-2 focus:ring-indigo-600 focus:border-transparent`}
+            />
+            {formErrors.reason && (
+              <p className="mt-1 text-sm text-red-600">{formErrors.reason}</p>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-4 mt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={submitting}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={submitting}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {submitting ? 'Saving...' : 'Record'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default RecordAdministrationDialog;
@@ -1,20 +1,34 @@
 import React, { useState, useEffect } from 'react';
-import { User, Calendar, Clock, AlertCircle, Shield } from 'lucide-react';
+import { User, Calendar, AlertCircle, AlertTriangle, Shield, History, BedDouble } from 'lucide-react';
 import { useUserStore } from '../../stores/useUserStore';
 import { usePatientStore } from '../../stores/usePatientStore';
+import { useBedStore } from '../../stores/useBedStore';
+import { useSettingsStore } from '../../stores/useSettingsStore';
 import { useNavigate } from '../../hooks/useNavigate';
+import { toFormErrors } from '../../utils/procedureErrors';
+import { deriveShift, isWeekendShift } from '../../utils/shiftCalculator';
+import { fromHospitalInput, toHospitalInput } from '../../utils/hospitalTime';
+import { formatDate, getAgeFromDateOfBirth } from '../../utils/dateFormat';
+import ShiftField from '../Shifts/ShiftField';
+import DiagnosisPicker from '../Diagnosis/DiagnosisPicker';
 import type { FormErrors } from '../../types/formErrors';
+import type { Patient } from '../../types/patient';
+import type { ShiftOverride } from '../../types/settings';
+import type { CodedDiagnosis } from '../../types/diagnosis';
 
 interface AdmissionFormData {
   mrn: string;
   name: string;
   age: number | '';
   gender: 'male' | 'female';
+  // datetime-local value in hospital time
   admissionDate: string;
-  useWeekendShift: boolean;
-  shiftType: 'morning' | 'evening' | 'night' | 'weekend_morning' | 'weekend_night';
+  shiftOverride: ShiftOverride | null;
   assignedDoctorId: number | null;
+  bedId: number | null;
   department: string;
+  diagnoses: CodedDiagnosis[];
+  // Free-text clinical description alongside the codes
   diagnosis: string;
   safetyType: 'emergency' | 'observation' | 'short-stay' | undefined;
 }
@@ -24,11 +38,12 @@ const initialFormData: AdmissionFormData = {
   name: '',
   age: '',
   gender: 'male',
-  admissionDate: new Date().toISOString().split('T')[0],
-  useWeekendShift: false,
-  shiftType: 'morning',
+  admissionDate: '',
+  shiftOverride: null,
   assignedDoctorId: null,
+  bedId: null,
   department: '',
+  diagnoses: [],
   diagnosis: '',
   safetyType: undefined
 };
@@ -52,42 +67,80 @@ const safetyTypes = [
   { id: 'short-stay', label: 'Short Stay', color: 'green', description: 'Planned brief admission' }
 ] as const;
 
+const MRN_LOOKUP_DEBOUNCE_MS = 400;
+
 const AdmissionForm: React.FC = () => {
   const { users, loading: loadingUsers, error: userError, fetchUsers } = useUserStore();
-  const { addPatient, loading: savingPatient, error: patientError } = usePatientStore();
+  const { addPatient, findPatientByMrn, loading: savingPatient, error: patientError } = usePatientStore();
+  const { wards, fetchWards, getFreeBeds } = useBedStore();
+  const { shiftSchedule, timeZone, fetchSettings } = useSettingsStore();
   const { goBack } = useNavigate();
 
-  const [formData, setFormData] = useState<AdmissionFormData>(initialFormData);
+  const [formData, setFormData] = useState<AdmissionFormData>(() => ({
+    ...initialFormData,
+    admissionDate: toHospitalInput(new Date(), useSettingsStore.getState().timeZone)
+  }));
   const [formErrors, setFormErrors] = useState<FormErrors>({});
   const [submitting, setSubmitting] = useState(false);
+  const [existingPatient, setExistingPatient] = useState<Patient | null>(null);
+  const [lookingUpMrn, setLookingUpMrn] = useState(false);
 
   useEffect(() => {
     fetchUsers();
-  }, [fetchUsers]);
+    fetchWards();
+    fetchSettings();
+  }, [fetchUsers, fetchWards, fetchSettings]);
 
   useEffect(() => {
-    const date = new Date(formData.admissionDate);
-    const dayOfWeek = date.getDay();
-    const isWeekendDay = dayOfWeek === 5 || dayOfWeek === 6;
-    
-    setFormData(prev => {
-      const updates: Partial<AdmissionFormData> = {};
+    const mrn = formData.mrn.trim();
+    if (!mrn) {
+      setExistingPatient(null);
+      return;
+    }
 
-      if (isWeekendDay && prev.useWeekendShift) {
-        updates.shiftType = 'weekend_morning';
-      } else if (!isWeekendDay || !prev.useWeekendShift) {
-        updates.useWeekendShift = false;
-        updates.shiftType = prev.shiftType.startsWith('weekend_') ? 'morning' : prev.shiftType;
+    let cancelled = false;
+    const timeoutId = setTimeout(async () => {
+      setLookingUpMrn(true);
+      try {
+        const patient = await findPatientByMrn(mrn);
+        if (cancelled) return;
+
+        setExistingPatient(patient);
+        if (patient) {
+          setFormData(prev => ({
+            ...prev,
+            name: patient.name,
+            age: getAgeFromDateOfBirth(patient.date_of_birth),
+            gender: patient.gender
+          }));
+          setFormErrors(prev => ({ ...prev, name: undefined, age: undefined }));
+        }
+      } catch (error) {
+        console.error('Error looking up MRN:', error);
+      } finally {
+        if (!cancelled) setLookingUpMrn(false);
       }
+    }, MRN_LOOKUP_DEBOUNCE_MS);
 
-      return { ...prev, ...updates };
-    });
-  }, [formData.admissionDate, formData.useWeekendShift]);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [formData.mrn, findPatientByMrn]);
+
+  const activeAdmission = existingPatient?.admissions?.find(admission => admission.status === 'active');
+  const previousAdmissions = existingPatient?.admissions || [];
+  const nextVisitNumber = previousAdmissions.reduce((max, admission) => Math.max(max, admission.visit_number ?? 0), 0) + 1;
+
+  const admissionTimestamp = formData.admissionDate ? fromHospitalInput(formData.admissionDate, timeZone) : null;
+  const derivedShift = deriveShift(admissionTimestamp ?? new Date(), shiftSchedule, timeZone);
 
   const doctors = users.filter(user => user.role === 'doctor' && user.status === 'active');
   const availableDoctors = doctors.filter(doctor => 
     formData.department && doctor.department === formData.department
   );
+  const freeBeds = formData.department ? getFreeBeds(formData.department) : [];
+  const departmentWards = Array.from(new Set(freeBeds.map(bed => bed.ward)));
 
   const validateForm = (): boolean => {
     const errors: FormErrors = {};
@@ -104,6 +157,12 @@ const AdmissionForm: React.FC = () => {
       errors.age = 'Please enter a valid age between 0 and 150';
     }
 
+    if (!admissionTimestamp) {
+      errors.admissionDate = 'Admission date and time are required';
+    } else if (new Date(admissionTimestamp) > new Date()) {
+      errors.admissionDate = 'Admission time cannot be in the future';
+    }
+
     if (!formData.department) {
       errors.department = 'Department is required';
     }
@@ -112,8 +171,16 @@ const AdmissionForm: React.FC = () => {
       errors.assignedDoctorId = 'Please select an assigned doctor';
     }
 
-    if (!formData.diagnosis.trim()) {
-      errors.diagnosis = 'Diagnosis is required';
+    if (!formData.diagnoses.some(diagnosis => diagnosis.is_primary)) {
+      errors.diagnosisCodes = 'Please add at least one ICD-10 diagnosis';
+    }
+
+    if (formData.shiftOverride && !formData.shiftOverride.reason.trim()) {
+      errors.shiftOverrideReason = 'Please give a reason for overriding the shift';
+    }
+
+    if (activeAdmission) {
+      errors.mrn = `Patient is already admitted to ${activeAdmission.department}`;
     }
 
     setFormErrors(errors);
@@ -129,35 +196,35 @@ const AdmissionForm: React.FC = () => {
 
     setSubmitting(true);
     try {
-      if (typeof formData.age !== 'number') {
-        throw new Error('Invalid age');
+      if (typeof formData.age !== 'number' || formData.assignedDoctorId === null || !admissionTimestamp) {
+        throw new Error('Invalid admission details');
       }
 
       const today = new Date();
       const birthYear = today.getFullYear() - formData.age;
       const dateOfBirth = new Date(birthYear, 0, 1).toISOString().split('T')[0];
 
-      const patientData = {
-        mrn: formData.mrn,
-        name: formData.name,
-        date_of_birth: dateOfBirth,
-        gender: formData.gender,
-        admission: {
-          admission_date: formData.admissionDate,
-          department: formData.department,
-          admitting_doctor_id: formData.assignedDoctorId,
-          diagnosis: formData.diagnosis,
-          status: 'active' as const,
-          safety_type: formData.safetyType,
-          shift_type: formData.shiftType,
-          is_weekend: formData.useWeekendShift
-        }
-      };
-
-      await addPatient(patientData);
+      await addPatient({
+        p_mrn: formData.mrn.trim(),
+        p_name: formData.name.trim(),
+        p_date_of_birth: dateOfBirth,
+        p_gender: formData.gender,
+        p_admitting_doctor_id: formData.assignedDoctorId,
+        p_admission_date: admissionTimestamp,
+        p_department: formData.department,
+        p_diagnosis: formData.diagnosis.trim(),
+        p_safety_type: formData.safetyType ?? null,
+        p_shift_type: formData.shiftOverride?.shiftType ?? derivedShift.shiftType,
+        p_is_weekend: formData.shiftOverride
+          ? isWeekendShift(formData.shiftOverride.shiftType)
+          : derivedShift.isWeekend,
+        p_bed_id: formData.bedId,
+        p_shift_override_reason: formData.shiftOverride?.reason.trim() ?? null,
+        p_diagnoses: formData.diagnoses
+      });
       goBack();
     } catch (err) {
-      setFormErrors(prev => ({ ...prev, general: err instanceof Error ? err.message : 'Error admitting patient' }));
+      setFormErrors(prev => ({ ...prev, ...toFormErrors(err, 'Error admitting patient') }));
     } finally {
       setSubmitting(false);
     }
@@ -165,17 +232,31 @@ const AdmissionForm: React.FC = () => {
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value, type } = e.target;
+
+    // Demographics were prefilled from the previous MRN match, so start over
+    const clearPrefill = name === 'mrn' && existingPatient !== null;
+    if (clearPrefill) {
+      setExistingPatient(null);
+    }
     
     setFormData(prev => {
       const updates: Partial<AdmissionFormData> = {};
 
-      if (name === 'age') {
+      if (clearPrefill) {
+        updates.mrn = value;
+        updates.name = '';
+        updates.age = '';
+        updates.gender = 'male';
+      } else if (name === 'age') {
         updates.age = value === '' ? '' : parseInt(value, 10);
       } else if (name === 'assignedDoctorId') {
         updates.assignedDoctorId = value === '' ? null : parseInt(value, 10);
+      } else if (name === 'bedId') {
+        updates.bedId = value === '' ? null : parseInt(value, 10);
       } else if (name === 'department') {
         updates.department = value;
         updates.assignedDoctorId = null;
+        updates.bedId = null;
       } else if (name === 'safetyType') {
         updates.safetyType = value === '' ? undefined : value as AdmissionFormData['safetyType'];
       } else {
@@ -190,13 +271,14 @@ const AdmissionForm: React.FC = () => {
     setFormErrors(rest);
   };
 
-  const handleWeekendShiftToggle = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const useWeekend = e.target.checked;
-    setFormData(prev => ({
-      ...prev,
-      useWeekendShift: useWeekend,
-      shiftType: useWeekend ? 'weekend_morning' : 'morning'
-    }));
+  const handleDiagnosesChange = (diagnoses: CodedDiagnosis[]) => {
+    setFormData(prev => ({ ...prev, diagnoses }));
+    setFormErrors(prev => ({ ...prev, diagnosisCodes: undefined }));
+  };
+
+  const handleShiftOverrideChange = (shiftOverride: ShiftOverride | null) => {
+    setFormData(prev => ({ ...prev, shiftOverride }));
+    setFormErrors(prev => ({ ...prev, shiftOverrideReason: undefined }));
   };
 
   if (loadingUsers) {
@@ -207,18 +289,54 @@ const AdmissionForm: React.FC = () => {
     );
   }
 
-  const error = userError || patientError || formErrors.general;
-  if (error) {
+  if (userError) {
     return (
       <div className="p-4 bg-red-50 text-red-700 rounded-lg flex items-center space-x-2">
         <AlertCircle className="h-5 w-5" />
-        <span>Error: {error}</span>
+        <span>Error: {userError}</span>
       </div>
     );
   }
 
+  const generalError = formErrors.general || patientError;
+
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
+      {generalError && (
+        <div className="p-4 bg-red-50 text-red-700 rounded-lg flex items-center space-x-2">
+          <AlertCircle className="h-5 w-5" />
+          <span>Error: {generalError}</span>
+        </div>
+      )}
+
+      {activeAdmission ? (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-start space-x-3">
+          <AlertTriangle className="h-5 w-5 text-red-600 flex-shrink-0 mt-0.5" />
+          <div>
+            <p className="text-sm font-medium text-red-800">
+              {existingPatient?.name} is already admitted to {activeAdmission.department}
+            </p>
+            <p className="text-sm text-red-700">
+              Active since {formatDate(activeAdmission.admission_date)}. Discharge the current admission before readmitting.
+            </p>
+          </div>
+        </div>
+      ) : existingPatient && (
+        <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg flex items-start space-x-3">
+          <History className="h-5 w-5 text-blue-600 flex-shrink-0 mt-0.5" />
+          <div>
+            <p className="text-sm font-medium text-blue-800">
+              Returning patient — this will be visit #{nextVisitNumber}
+            </p>
+            <p className="text-sm text-blue-700">
+              {previousAdmissions.length} previous admission{previousAdmissions.length === 1 ? '' : 's'}
+              {previousAdmissions[0] && `, most recently ${previousAdmissions[0].department} on ${formatDate(previousAdmissions[0].admission_date)}`}.
+              Demographics are taken from the existing record.
+            </p>
+          </div>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         <div>
           <label htmlFor="mrn" className="block text-sm font-medium text-gray-700 mb-1">
@@ -239,6 +357,9 @@ const AdmissionForm: React.FC = () => {
           {formErrors.mrn && (
             <p className="mt-1 text-sm text-red-600">{formErrors.mrn}</p>
           )}
+          {lookingUpMrn && (
+            <p className="mt-1 text-sm text-gray-500">Looking up patient...</p>
+          )}
         </div>
 
         <div>
@@ -255,7 +376,10 @@ const AdmissionForm: React.FC = () => {
               onChange={handleChange}
               className={`w-full pl-10 pr-4 py-2 rounded-lg border ${
                 formErrors.name ? 'border-red-300' : 'border-gray-300'
-              } focus:ring-2 focus:ring-indigo-600 focus:border-transparent`}
+              } focus:ring-2 focus:ring-indigo-600 focus:border-transparent ${
+                existingPatient ? 'bg-gray-50' : ''
+              }`}
+              readOnly={existingPatient !== null}
               required
             />
           </div>
@@ -278,7 +402,10 @@ const AdmissionForm: React.FC = () => {
             max="150"
             className={`w-full px-4 py-2 rounded-lg border ${
               formErrors.age ? 'border-red-300' : 'border-gray-300'
-            } focus:ring-2 focus:ring-indigo-600 focus:border-transparent`}
+            } focus:ring-2 focus:ring-indigo-600 focus:border-transparent ${
+              existingPatient ? 'bg-gray-50' : ''
+            }`}
+            readOnly={existingPatient !== null}
             required
           />
           {formErrors.age && (
@@ -295,82 +422,51 @@ const AdmissionForm: React.FC = () => {
             name="gender"
             value={formData.gender}
             onChange={handleChange}
-            className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+            className={`w-full px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-600 focus:border-transparent ${
+              existingPatient ? 'bg-gray-50' : ''
+            }`}
+            disabled={existingPatient !== null}
             required
           >
             <option value="male">Male</option>
             <option value="female">Female</option>
           </select>
+          {formErrors.gender && (
+            <p className="mt-1 text-sm text-red-600">{formErrors.gender}</p>
+          )}
         </div>
 
         <div>
           <label htmlFor="admissionDate" className="block text-sm font-medium text-gray-700 mb-1">
-            Admission Date
+            Admission Date & Time
           </label>
           <div className="relative">
             <Calendar className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
             <input
-              type="date"
+              type="datetime-local"
               id="admissionDate"
               name="admissionDate"
               value={formData.admissionDate}
               onChange={handleChange}
-              className="w-full pl-10 pr-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+              className={`w-full pl-10 pr-4 py-2 rounded-lg border ${
+                formErrors.admissionDate ? 'border-red-300' : 'border-gray-300'
+              } focus:ring-2 focus:ring-indigo-600 focus:border-transparent`}
               required
             />
           </div>
-          {formData.useWeekendShift && (
-            <div className="mt-2">
-              <p className="text-sm text-yellow-600 mb-2">
-                Weekend admission
-              </p>
-              <label className="flex items-center space-x-2">
-                <input
-                  type="checkbox"
-                  checked={formData.useWeekendShift}
-                  onChange={handleWeekendShiftToggle}
-                  className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
-                />
-                <span className="text-sm text-gray-700">Use weekend shift schedule</span>
-              </label>
-            </div>
+          {formErrors.admissionDate && (
+            <p className="mt-1 text-sm text-red-600">{formErrors.admissionDate}</p>
           )}
+          <p className="mt-1 text-xs text-gray-500">Hospital time ({timeZone})</p>
         </div>
 
-        <div>
-          <label htmlFor="shiftType" className="block text-sm font-medium text-gray-700 mb-1">
-            Shift Type
-          </label>
-          <div className="relative">
-            <Clock className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
-            <select
-              id="shiftType"
-              name="shiftType"
-              value={formData.shiftType}
-              onChange={handleChange}
-              className="w-full pl-10 pr-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
-              required
-            >
-              {formData.useWeekendShift ? (
-                <>
-                  <option value="weekend_morning">Weekend Morning (7:00 - 19:00)</option>
-                  <option value="weekend_night">Weekend Night (19:00 - 7:00)</option>
-                </>
-              ) : (
-                <>
-                  <option value="morning">Morning</option>
-                  <option value="evening">Evening</option>
-                  <option value="night">Night</option>
-                </>
-              )}
-            </select>
-          </div>
-          {formData.useWeekendShift && (
-            <p className="mt-1 text-sm text-gray-500">
-              Weekend shifts follow a 12-hour schedule
-            </p>
-          )}
-        </div>
+        <ShiftField
+          derived={derivedShift}
+          schedule={shiftSchedule}
+          override={formData.shiftOverride}
+          onOverrideChange={handleShiftOverrideChange}
+          reasonError={formErrors.shiftOverrideReason}
+        />
 
         <div>
           <label htmlFor="department" className="block text-sm font-medium text-gray-700 mb-1">
@@ -440,6 +536,52 @@ const AdmissionForm: React.FC = () => {
           )}
         </div>
 
+        <div>
+          <label htmlFor="bedId" className="block text-sm font-medium text-gray-700 mb-1">
+            Bed
+          </label>
+          <div className="relative">
+            <BedDouble className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+            <select
+              id="bedId"
+              name="bedId"
+              value={formData.bedId ?? ''}
+              onChange={handleChange}
+              className={`w-full pl-10 pr-4 py-2 rounded-lg border ${
+                formErrors.bedId ? 'border-red-300' : 'border-gray-300'
+              } focus:ring-2 focus:ring-indigo-600 focus:border-transparent ${
+                !formData.department ? 'bg-gray-50' : ''
+              }`}
+              disabled={!formData.department}
+            >
+              <option value="">
+                {!formData.department ? 'Select a department first' : 'Assign later'}
+              </option>
+              {departmentWards.map(ward => (
+                <optgroup key={ward} label={ward}>
+                  {freeBeds
+                    .filter(bed => bed.ward === ward)
+                    .map(bed => (
+                      <option key={bed.id} value={bed.id}>
+                        Room {bed.room} · Bed {bed.label}
+                      </option>
+                    ))}
+                </optgroup>
+              ))}
+            </select>
+          </div>
+          {formErrors.bedId && (
+            <p className="mt-1 text-sm text-red-600">{formErrors.bedId}</p>
+          )}
+          {formData.department && freeBeds.length === 0 && (
+            <p className="mt-1 text-sm text-yellow-600">
+              {wards.some(ward => ward.department === formData.department)
+                ? 'No free beds in this department. The patient can be placed later from the bed board'
+                : 'No wards are set up for this department'}
+            </p>
+          )}
+        </div>
+
         <div>
           <label htmlFor="safetyType" className="block text-sm font-medium text-gray-700 mb-1">
             Safety Type
@@ -471,9 +613,17 @@ const AdmissionForm: React.FC = () => {
         </div>
       </div>
 
+      <DiagnosisPicker
+        id="diagnosisCodes"
+        label="Admitting Diagnoses (ICD-10)"
+        value={formData.diagnoses}
+        onChange={handleDiagnosesChange}
+        error={formErrors.diagnosisCodes}
+      />
+
       <div>
         <label htmlFor="diagnosis" className="block text-sm font-medium text-gray-700 mb-1">
-          Diagnosis
+          Clinical Description
         </label>
         <textarea
           id="diagnosis"
@@ -481,10 +631,10 @@ const AdmissionForm: React.FC = () => {
           value={formData.diagnosis}
           onChange={handleChange}
           rows={4}
+          placeholder="Optional. Defaults to the primary diagnosis description"
           className={`w-full px-4 py-2 rounded-lg border ${
             formErrors.diagnosis ? 'border-red-300' : 'border-gray-300'
           } focus:ring-2 focus:ring-indigo-600 focus:border-transparent`}
-          required
         />
         {formErrors.diagnosis && (
           <p className="mt-1 text-sm text-red-600">{formErrors.diagnosis}</p>
@@ -501,16 +651,16 @@ const AdmissionForm: React.FC = () => {
         </button>
         <button
           type="submit"
-          disabled={submitting || savingPatient}
+          disabled={submitting || savingPatient || activeAdmission !== undefined}
           className="px-6 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-600 disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
         >
           {(submitting || savingPatient) ? (
             <>
               <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
-              <span>Admitting Patient...</span>
+              <span>{existingPatient ? 'Readmitting Patient...' : 'Admitting Patient...'}</span>
             </>
           ) : (
-            <span>Admit Patient</span>
+            <span>{existingPatient ? 'Readmit Patient' : 'Admit Patient'}</span>
           )}
         </button>
       </div>
@@ -0,0 +1,130 @@
+import { useEffect, useState } from 'react';
+import { ClipboardCheck, ChevronDown, ChevronUp, AlertCircle } from 'lucide-react';
+import { useMedicalNotesStore } from '../../stores/useMedicalNotesStore';
+import { usePatientStore } from '../../stores/usePatientStore';
+import { useUserStore } from '../../stores/useUserStore';
+import { formatDateTime } from '../../utils/dateFormat';
+import { getNoteSections } from '../../utils/noteTemplates';
+import CosignReview from './CosignReview';
+import type { MedicalNote } from '../../types/note';
+
+// Notes routed to the current user for co-signature, oldest first
+const CosignQueue = () => {
+  const { currentUser } = useUserStore();
+  const { cosignQueue, fetchCosignQueue } = useMedicalNotesStore();
+  const { fetchPatientsByIds, setSelectedPatient } = usePatientStore();
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const currentUserId = currentUser?.id;
+
+  useEffect(() => {
+    if (!currentUserId) return;
+
+    setLoading(true);
+    fetchCosignQueue()
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load the co-signature queue'))
+      .finally(() => setLoading(false));
+  }, [currentUserId, fetchCosignQueue]);
+
+  const openPatient = async (note: MedicalNote) => {
+    setError('');
+    try {
+      const [patient] = await fetchPatientsByIds([note.patient_id]);
+      if (!patient) return;
+      setSelectedPatient(patient);
+      window.dispatchEvent(new CustomEvent('navigate', { detail: 'patient' }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open patient');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-6">
+      <div className="flex items-center space-x-3 mb-4">
+        <div className="p-2 bg-orange-100 rounded-lg">
+          <ClipboardCheck className="h-6 w-6 text-orange-600" />
+        </div>
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Pending Co-signature</h2>
+          <p className="text-sm text-gray-500">Notes routed to you for review</p>
+        </div>
+        {cosignQueue.length > 0 && (
+          <span className="ml-auto inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-800">
+            {cosignQueue.length}
+          </span>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 text-red-700 rounded-lg flex items-center space-x-2">
+          <AlertCircle className="h-5 w-5" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center h-16">
+          <div className="w-8 h-8 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : cosignQueue.length === 0 ? (
+        <p className="text-sm text-center text-gray-500">No notes are waiting for your co-signature</p>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {cosignQueue.map(note => {
+            const expanded = expandedId === note.id;
+            return (
+              <div key={note.id} className="py-3">
+                <div className="flex items-center justify-between">
+                  <button
+                    onClick={() => setExpandedId(expanded ? null : note.id)}
+                    className="flex items-center flex-1 text-left space-x-2"
+                  >
+                    {expanded ? (
+                      <ChevronUp className="h-4 w-4 text-gray-400" />
+                    ) : (
+                      <ChevronDown className="h-4 w-4 text-gray-400" />
+                    )}
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">
+                        {note.note_type} · {note.patient?.name ?? 'Unknown patient'}
+                        {note.patient?.mrn && <span className="text-gray-500"> (MRN {note.patient.mrn})</span>}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {note.doctor_name} · signed {note.signed_at ? formatDateTime(note.signed_at) : ''}
+                      </p>
+                    </div>
+                  </button>
+                  <button
+                    onClick={() => openPatient(note)}
+                    className="text-sm text-indigo-600 hover:text-indigo-700"
+                  >
+                    Open patient
+                  </button>
+                </div>
+
+                {expanded && (
+                  <div className="mt-3 ml-6 p-4 border border-gray-200 rounded-lg">
+                    <div className="space-y-2">
+                      {getNoteSections(note).map(section => (
+                        <div key={section.key}>
+                          {section.label && (
+                            <p className="text-xs font-semibold text-gray-700 uppercase tracking-wide">{section.label}</p>
+                          )}
+                          <p className="text-sm text-gray-600 whitespace-pre-wrap">{section.content}</p>
+                        </div>
+                      ))}
+                    </div>
+                    <CosignReview note={note} />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CosignQueue;
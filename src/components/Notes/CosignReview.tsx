@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { CheckCircle, Undo2 } from 'lucide-react';
+import { useMedicalNotesStore } from '../../stores/useMedicalNotesStore';
+import { toFormErrors } from '../../utils/procedureErrors';
+import type { MedicalNote } from '../../types/note';
+import type { FormErrors } from '../../types/formErrors';
+
+interface CosignReviewProps {
+  note: MedicalNote;
+}
+
+// Co-sign or return a note routed to the current user; the comment is
+// optional when co-signing and required when returning
+const CosignReview: React.FC<CosignReviewProps> = ({ note }) => {
+  const { cosignNote, returnNote } = useMedicalNotesStore();
+  const [comment, setComment] = useState('');
+  const [formErrors, setFormErrors] = useState<FormErrors>({});
+  const [submitting, setSubmitting] = useState(false);
+
+  const review = async (action: 'cosign' | 'return') => {
+    if (action === 'return' && !comment.trim()) {
+      setFormErrors({ comment: 'Please explain what needs to be changed' });
+      return;
+    }
+
+    setFormErrors({});
+    setSubmitting(true);
+    try {
+      if (action === 'cosign') {
+        await cosignNote(note, comment.trim());
+      } else {
+        await returnNote(note, comment.trim());
+      }
+    } catch (err) {
+      setFormErrors(toFormErrors(err, action === 'cosign' ? 'Error co-signing note' : 'Error returning note'));
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="mt-3 space-y-2">
+      {formErrors.general && (
+        <p className="text-sm text-red-600">{formErrors.general}</p>
+      )}
+      <textarea
+        value={comment}
+        onChange={(e) => {
+          setComment(e.target.value);
+          setFormErrors({});
+        }}
+        rows={2}
+        placeholder="Comments for the author"
+        className={`w-full px-4 py-2 rounded-lg border ${
+          formErrors.comment ? 'border-red-300' : 'border-gray-300'
+        } focus:ring-2 focus:ring-indigo-600 focus:border-transparent`}
+      />
+      {formErrors.comment && (
+        <p className="text-sm text-red-600">{formErrors.comment}</p>
+      )}
+      <div className="flex justify-end space-x-3">
+        <button
+          type="button"
+          onClick={() => review('return')}
+          disabled={submitting}
+          className="flex items-center px-3 py-1.5 text-sm border border-orange-300 text-orange-700 rounded-lg hover:bg-orange-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Undo2 className="h-4 w-4 mr-1" />
+          Return to Author
+        </button>
+        <button
+          type="button"
+          onClick={() => review('cosign')}
+          disabled={submitting}
+          className="flex items-center px-3 py-1.5 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <CheckCircle className="h-4 w-4 mr-1" />
+          {submitting ? 'Saving...' : 'Co-sign'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CosignReview;
@@ -0,0 +1,290 @@
+import React, { useState } from 'react';
+import { FileText, Printer, Download, History, Pencil, PenLine, MessageSquarePlus } from 'lucide-react';
+import { useMedicalNotesStore } from '../../stores/useMedicalNotesStore';
+import { useNoteTemplateStore } from '../../stores/useNoteTemplateStore';
+import { formatDate, formatDateTime, formatTime } from '../../utils/dateFormat';
+import { getNoteSections, getTemplateSections } from '../../utils/noteTemplates';
+import { toFormErrors } from '../../utils/procedureErrors';
+import NoteEditor from './NoteEditor';
+import NoteHistoryDialog from './NoteHistoryDialog';
+import CosignReview from './CosignReview';
+import type { CosignStatus, MedicalNote, NoteInput } from '../../types/note';
+import type { FormErrors } from '../../types/formErrors';
+
+interface NoteCardProps {
+  note: MedicalNote;
+  currentUserId: number | undefined;
+  canWrite: boolean;
+  canCosign: boolean;
+  onPrint: (note: MedicalNote) => void;
+  onExport: (note: MedicalNote) => void;
+}
+
+const COSIGN_STYLES: Record<CosignStatus, string> = {
+  pending: 'bg-orange-100 text-orange-800',
+  cosigned: 'bg-green-100 text-green-800',
+  returned: 'bg-red-100 text-red-800'
+};
+
+const COSIGN_LABELS: Record<CosignStatus, string> = {
+  pending: 'Awaiting co-signature',
+  cosigned: 'Co-signed',
+  returned: 'Returned'
+};
+
+const NoteCard: React.FC<NoteCardProps> = ({ note, currentUserId, canWrite, canCosign, onPrint, onExport }) => {
+  const { updateDraft, signNote, addAddendum } = useMedicalNotesStore();
+  const { templates } = useNoteTemplateStore();
+  const [editing, setEditing] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showAddendum, setShowAddendum] = useState(false);
+  const [addendum, setAddendum] = useState('');
+  const [formErrors, setFormErrors] = useState<FormErrors>({});
+  const [submitting, setSubmitting] = useState(false);
+
+  const isDraft = note.status === 'draft';
+  const canEditDraft = isDraft && canWrite && note.doctor_id === currentUserId;
+  const canReview = canCosign && note.cosign_status === 'pending' && note.cosigner_id === currentUserId;
+
+  const handleSaveDraft = async (input: NoteInput, sign: boolean, cosignerId: number | null) => {
+    await updateDraft(note, input);
+    if (sign) {
+      await signNote(note, cosignerId);
+    }
+    setEditing(false);
+  };
+
+  const handleSign = async () => {
+    const missing = getTemplateSections(templates, note.note_type)
+      .filter(section => section.required && !note.sections?.some(written => written.key === section.key))
+      .map(section => section.label);
+    if (missing.length > 0) {
+      setFormErrors({ general: `Complete ${missing.join(', ')} before signing` });
+      return;
+    }
+
+    setFormErrors({});
+    setSubmitting(true);
+    try {
+      // A returned note goes back to the supervisor who returned it
+      await signNote(note, note.cosigner_id);
+    } catch (err) {
+      setFormErrors(toFormErrors(err, 'Error signing note'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleAddendum = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!addendum.trim()) {
+      setFormErrors({ content: 'Please enter the addendum' });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await addAddendum(note, addendum.trim());
+      setShowAddendum(false);
+      setAddendum('');
+      setFormErrors({});
+    } catch (err) {
+      setFormErrors(toFormErrors(err, 'Error adding addendum'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (editing) {
+    return (
+      <div className="p-4 border border-indigo-200 rounded-lg">
+        <NoteEditor note={note} onSubmit={handleSaveDraft} onCancel={() => setEditing(false)} />
+      </div>
+    );
+  }
+
+  return (
+    <div className={`p-4 border rounded-lg ${isDraft ? 'border-yellow-300 bg-yellow-50' : 'border-gray-200 hover:bg-gray-50'}`}>
+      <div className="flex items-start space-x-3">
+        <FileText className="h-5 w-5 text-gray-400 mt-0.5" />
+        <div className="flex-1">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm font-medium text-gray-900">
+              {note.doctor_name}
+            </span>
+            <div className="flex items-center space-x-2">
+              <span className="text-sm text-gray-500">
+                {formatDate(note.created_at)} at {formatTime(note.created_at)}
+              </span>
+              <button
+                onClick={() => setShowHistory(true)}
+                title="Version history"
+                className="p-1 text-gray-400 hover:text-gray-600 rounded"
+              >
+                <History className="h-4 w-4" />
+              </button>
+              <button
+                onClick={() => onPrint(note)}
+                title="Print note"
+                className="p-1 text-gray-400 hover:text-gray-600 rounded"
+              >
+                <Printer className="h-4 w-4" />
+              </button>
+              <button
+                onClick={() => onExport(note)}
+                title="Download as PDF"
+                className="p-1 text-gray-400 hover:text-gray-600 rounded"
+              >
+                <Download className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+          <div className="flex items-center space-x-2 mb-2">
+            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+              {note.note_type}
+            </span>
+            {isDraft && (
+              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                Draft
+              </span>
+            )}
+            {note.cosign_status && (
+              <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${COSIGN_STYLES[note.cosign_status]}`}>
+                {COSIGN_LABELS[note.cosign_status]}
+              </span>
+            )}
+          </div>
+          <div className="space-y-2">
+            {getNoteSections(note).map(section => (
+              <div key={section.key}>
+                {section.label && (
+                  <p className="text-xs font-semibold text-gray-700 uppercase tracking-wide">{section.label}</p>
+                )}
+                <p className="text-sm text-gray-600 whitespace-pre-wrap">{section.content}</p>
+              </div>
+            ))}
+          </div>
+
+          {note.status === 'signed' && note.signed_at && (
+            <p className="mt-3 text-xs text-gray-500">
+              Signed {note.signer ? `by ${note.signer.name} ` : ''}on {formatDateTime(note.signed_at)}
+            </p>
+          )}
+
+          {note.cosign_status === 'pending' && (
+            <p className="mt-1 text-xs text-orange-700">
+              Awaiting co-signature from {note.cosigner?.name ?? 'the supervising doctor'}
+            </p>
+          )}
+          {note.cosign_status === 'cosigned' && note.cosigned_at && (
+            <p className="mt-1 text-xs text-green-700">
+              Co-signed by {note.cosigner?.name ?? 'the supervising doctor'} on {formatDateTime(note.cosigned_at)}
+            </p>
+          )}
+          {note.cosign_status !== 'pending' && note.cosign_comment && (
+            <div className={`mt-2 p-2 rounded text-xs ${note.cosign_status === 'returned' ? 'bg-orange-100 text-orange-800' : 'bg-gray-100 text-gray-700'}`}>
+              <span className="font-medium">
+                {note.cosign_status === 'returned' ? 'Returned' : 'Comment'} by {note.cosigner?.name ?? 'the supervising doctor'}:
+              </span>{' '}
+              <span className="whitespace-pre-wrap">{note.cosign_comment}</span>
+            </div>
+          )}
+
+          {note.addenda && note.addenda.length > 0 && (
+            <div className="mt-3 space-y-2">
+              {note.addenda.map(entry => (
+                <div key={entry.id} className="pl-3 border-l-2 border-indigo-200">
+                  <p className="text-xs font-semibold text-gray-700">
+                    Addendum · {entry.author?.name ?? 'Unknown'} · {formatDateTime(entry.created_at)}
+                  </p>
+                  <p className="text-sm text-gray-600 whitespace-pre-wrap">{entry.content}</p>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {formErrors.general && (
+            <p className="mt-3 text-sm text-red-600">{formErrors.general}</p>
+          )}
+
+          {canReview && !showAddendum && <CosignReview note={note} />}
+
+          {showAddendum ? (
+            <form onSubmit={handleAddendum} className="mt-3 space-y-2">
+              <textarea
+                value={addendum}
+                onChange={(e) => {
+                  setAddendum(e.target.value);
+                  setFormErrors({});
+                }}
+                rows={3}
+                placeholder="Correction or additional information"
+                className={`w-full px-4 py-2 rounded-lg border ${
+                  formErrors.content ? 'border-red-300' : 'border-gray-300'
+                } focus:ring-2 focus:ring-indigo-600 focus:border-transparent`}
+              />
+              {formErrors.content && (
+                <p className="text-sm text-red-600">{formErrors.content}</p>
+              )}
+              <div className="flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setShowAddendum(false);
+                    setAddendum('');
+                    setFormErrors({});
+                  }}
+                  className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg text-gray-700 hover:bg-white"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={submitting}
+                  className="px-3 py-1.5 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {submitting ? 'Saving...' : 'Add Addendum'}
+                </button>
+              </div>
+            </form>
+          ) : (
+            <div className="mt-3 flex items-center space-x-4">
+              {canEditDraft && (
+                <>
+                  <button
+                    onClick={() => setEditing(true)}
+                    className="flex items-center text-sm text-indigo-600 hover:text-indigo-700"
+                  >
+                    <Pencil className="h-4 w-4 mr-1" />
+                    Edit
+                  </button>
+                  <button
+                    onClick={handleSign}
+                    disabled={submitting}
+                    className="flex items-center text-sm text-indigo-600 hover:text-indigo-700 disabled:opacity-50"
+                  >
+                    <PenLine className="h-4 w-4 mr-1" />
+                    {submitting ? 'Signing...' : 'Sign'}
+                  </button>
+                </>
+              )}
+              {!isDraft && canWrite && (
+                <button
+                  onClick={() => setShowAddendum(true)}
+                  className="flex items-center text-sm text-indigo-600 hover:text-indigo-700"
+                >
+                  <MessageSquarePlus className="h-4 w-4 mr-1" />
+                  Add Addendum
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {showHistory && <NoteHistoryDialog note={note} onClose={() => setShowHistory(false)} />}
+    </div>
+  );
+};
+
+export default NoteCard;
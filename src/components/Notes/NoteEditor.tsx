@@ -0,0 +1,194 @@
+import React, { useState, useEffect } from 'react';
+import { useNoteTemplateStore } from '../../stores/useNoteTemplateStore';
+import { useMedicalNotesStore } from '../../stores/useMedicalNotesStore';
+import { usePatientStore } from '../../stores/usePatientStore';
+import { useUserStore } from '../../stores/useUserStore';
+import {
+  buildNoteSections,
+  getTemplateSections,
+  renderNoteContent,
+  sectionErrorKey,
+  validateNoteSections
+} from '../../utils/noteTemplates';
+import { toFormErrors } from '../../utils/procedureErrors';
+import { buildPatientContext } from '../../utils/smartPhrases';
+import { NOTE_TYPES } from '../../config/noteTemplates';
+import SmartTextarea from '../SmartPhrases/SmartTextarea';
+import type { MedicalNote, NoteInput, NoteTemplateSection, NoteType } from '../../types/note';
+import type { FormErrors } from '../../types/formErrors';
+
+interface NoteEditorProps {
+  // The draft being edited; a new note is written when left out
+  note?: MedicalNote;
+  // The co-signer is only used when signing
+  onSubmit: (input: NoteInput, sign: boolean, cosignerId: number | null) => Promise<void>;
+  onCancel: () => void;
+}
+
+// Sections of the draft that are no longer in the template stay editable
+// rather than being dropped
+const withDraftSections = (templateSections: NoteTemplateSection[], note?: MedicalNote): NoteTemplateSection[] => [
+  ...templateSections,
+  ...(note?.sections || [])
+    .filter(section => !templateSections.some(templateSection => templateSection.key === section.key))
+    .map(section => ({ key: section.key, label: section.label, required: false, placeholder: null }))
+];
+
+const NoteEditor: React.FC<NoteEditorProps> = ({ note, onSubmit, onCancel }) => {
+  const { templates, loaded: templatesLoaded, fetchTemplates } = useNoteTemplateStore();
+  const { cosigners, fetchCosigners } = useMedicalNotesStore();
+  const { selectedPatient } = usePatientStore();
+  const { currentUser } = useUserStore();
+  const [noteType, setNoteType] = useState<NoteType>(note?.note_type ?? 'Progress Note');
+  const [sectionValues, setSectionValues] = useState<Record<string, string>>(
+    Object.fromEntries((note?.sections || []).map(section => [section.key, section.content]))
+  );
+  // A returned note goes back to the supervisor who returned it by default
+  const [cosignerId, setCosignerId] = useState<number | null>(note?.cosigner_id ?? null);
+  const [formErrors, setFormErrors] = useState<FormErrors>({});
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!templatesLoaded) {
+      fetchTemplates();
+    }
+  }, [templatesLoaded, fetchTemplates]);
+
+  useEffect(() => {
+    fetchCosigners().catch(err => console.error('Error fetching co-signers:', err));
+  }, [fetchCosigners]);
+
+  const editorSections = withDraftSections(getTemplateSections(templates, noteType), note);
+  const phraseContext = buildPatientContext(selectedPatient, currentUser?.name);
+
+  const submit = async (sign: boolean) => {
+    // Drafts may be saved unfinished; required sections are only enforced on signing
+    const errors = validateNoteSections(sign ? editorSections : editorSections.map(section => ({ ...section, required: false })), sectionValues);
+    if (Object.keys(errors).length > 0) {
+      setFormErrors(errors);
+      return;
+    }
+
+    const sections = buildNoteSections(editorSections, sectionValues);
+    setSubmitting(true);
+    try {
+      await onSubmit({ note_type: noteType, content: renderNoteContent(sections), sections }, sign, cosignerId);
+    } catch (err) {
+      setFormErrors(toFormErrors(err, 'Error saving note'));
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        submit(true);
+      }}
+      className="space-y-4"
+    >
+      {note?.cosign_status === 'returned' && note.cosign_comment && (
+        <div className="p-3 bg-orange-50 text-orange-800 text-sm rounded-lg">
+          <p className="font-medium">Returned by {note.cosigner?.name ?? 'the supervising doctor'}</p>
+          <p className="whitespace-pre-wrap">{note.cosign_comment}</p>
+        </div>
+      )}
+      {(formErrors.general || formErrors.content) && (
+        <div className="p-3 bg-red-50 text-red-700 text-sm rounded-lg">{formErrors.general || formErrors.content}</div>
+      )}
+      <div>
+        <label htmlFor="noteType" className="block text-sm font-medium text-gray-700 mb-1">
+          Note Type
+        </label>
+        <select
+          id="noteType"
+          value={noteType}
+          onChange={(e) => {
+            // Sections with the same key carry over to the new template
+            setNoteType(e.target.value as NoteType);
+            setFormErrors({});
+          }}
+          className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+        >
+          {NOTE_TYPES.map(type => (
+            <option key={type} value={type}>{type}</option>
+          ))}
+        </select>
+      </div>
+      {editorSections.map(section => {
+        const errorKey = sectionErrorKey(section.key);
+        return (
+          <div key={section.key}>
+            <label htmlFor={`noteSection-${section.key}`} className="block text-sm font-medium text-gray-700 mb-1">
+              {section.label}
+              {section.required && <span className="text-red-600"> *</span>}
+            </label>
+            <SmartTextarea
+              id={`noteSection-${section.key}`}
+              value={sectionValues[section.key] || ''}
+              onValueChange={(value) => {
+                setSectionValues(prev => ({ ...prev, [section.key]: value }));
+                setFormErrors(prev => ({ ...prev, [errorKey]: undefined, general: undefined }));
+              }}
+              context={phraseContext}
+              rows={3}
+              className={`w-full px-4 py-2 rounded-lg border ${
+                formErrors[errorKey] ? 'border-red-300' : 'border-gray-300'
+              } focus:ring-2 focus:ring-indigo-600 focus:border-transparent`}
+              placeholder={section.placeholder || undefined}
+            />
+            {formErrors[errorKey] && (
+              <p className="mt-1 text-sm text-red-600">{formErrors[errorKey]}</p>
+            )}
+          </div>
+        );
+      })}
+      {cosigners.length > 0 && (
+        <div>
+          <label htmlFor="noteCosigner" className="block text-sm font-medium text-gray-700 mb-1">
+            Co-signature
+          </label>
+          <select
+            id="noteCosigner"
+            value={cosignerId ?? ''}
+            onChange={(e) => setCosignerId(e.target.value ? Number(e.target.value) : null)}
+            className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+          >
+            <option value="">Not required</option>
+            {cosigners.map(cosigner => (
+              <option key={cosigner.id} value={cosigner.id}>
+                {cosigner.name}{cosigner.department ? ` (${cosigner.department})` : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+      <div className="flex justify-end space-x-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={() => submit(false)}
+          disabled={submitting}
+          className="px-4 py-2 border border-indigo-600 text-indigo-600 rounded-lg hover:bg-indigo-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Save Draft
+        </button>
+        <button
+          type="submit"
+          disabled={submitting}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {submitting ? 'Saving...' : cosignerId ? 'Sign & Send for Co-signature' : 'Sign Note'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default NoteEditor;
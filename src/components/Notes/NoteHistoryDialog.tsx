@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { X, AlertCircle } from 'lucide-react';
+import { useMedicalNotesStore } from '../../stores/useMedicalNotesStore';
+import { formatDateTime } from '../../utils/dateFormat';
+import { getNoteSections } from '../../utils/noteTemplates';
+import type { MedicalNote } from '../../types/note';
+
+interface NoteHistoryDialogProps {
+  note: MedicalNote;
+  onClose: () => void;
+}
+
+const NoteHistoryDialog: React.FC<NoteHistoryDialogProps> = ({ note, onClose }) => {
+  const { versions, fetchVersions } = useMedicalNotesStore();
+  const [error, setError] = useState('');
+  const noteVersions = versions[note.id];
+
+  useEffect(() => {
+    fetchVersions(note.id).catch(err => {
+      setError(err instanceof Error ? err.message : 'Failed to load the note history');
+    });
+  }, [note.id, fetchVersions]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl max-w-2xl w-full p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Version History</h2>
+            <p className="text-sm text-gray-500">
+              {note.note_type} by {note.doctor_name}, started {formatDateTime(note.created_at)}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 rounded-lg"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-4 bg-red-50 text-red-700 rounded-lg flex items-center space-x-2">
+            <AlertCircle className="h-5 w-5" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {!noteVersions && !error ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="w-8 h-8 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {[...(noteVersions || [])].reverse().map((version, index) => (
+              <div key={version.id} className="p-4 border border-gray-200 rounded-lg">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-sm font-medium text-gray-900">
+                    Version {version.version}
+                    {index === 0 && <span className="ml-2 text-xs font-normal text-indigo-600">Current</span>}
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    {version.saver?.name ?? 'Unknown'} · {formatDateTime(version.saved_at)}
+                  </span>
+                </div>
+                {version.note_type !== note.note_type && (
+                  <p className="text-xs text-gray-500 mb-2">Saved as {version.note_type}</p>
+                )}
+                <div className="space-y-2">
+                  {getNoteSections(version).map(section => (
+                    <div key={section.key}>
+                      {section.label && (
+                        <p className="text-xs font-semibold text-gray-700 uppercase tracking-wide">{section.label}</p>
+                      )}
+                      <p className="text-sm text-gray-600 whitespace-pre-wrap">{section.content}</p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {note.status === 'signed' && note.signed_at && (
+          <p className="mt-4 text-sm text-gray-600">
+            Signed {note.signer ? `by ${note.signer.name} ` : ''}on {formatDateTime(note.signed_at)}. Later changes are recorded as addenda.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NoteHistoryDialog;
@@ -1,11 +1,13 @@
 import React, { useEffect } from 'react';
-import { Calendar, AlertCircle } from 'lucide-react';
+import { Calendar, AlertCircle, ArrowRightLeft } from 'lucide-react';
 import { usePatientStore } from '../../stores/usePatientStore';
 import { useAdmissionStore } from '../../stores/useAdmissionStore';
-import { formatDate } from '../../utils/dateFormat';
+import { formatDateTime } from '../../utils/dateFormat';
 import { isLongStay } from '../../utils/stayCalculator';
+import { SHIFT_LABELS } from '../../config/shifts';
 import SafetyBadge from './SafetyBadge';
 import LongStayBadge from '../LongStay/LongStayBadge';
+import DiagnosisCodes from '../Diagnosis/DiagnosisCodes';
 import type { Admission } from '../../types/admission';
 
 const AdmissionHistory: React.FC = () => {
@@ -91,9 +93,18 @@ const AdmissionHistory: React.FC = () => {
                   </div>
                 </div>
                 <p className="text-sm text-gray-600">
-                  Admitted: {formatDate(admission.admission_date)}
+                  Admitted: {formatDateTime(admission.admission_date)}
                 </p>
                 <p className="text-sm text-gray-600">{admission.department}</p>
+                <div className="my-1">
+                  <DiagnosisCodes diagnoses={admission.diagnoses} stage="admission" />
+                </div>
+                <p className="text-sm text-gray-600">
+                  Shift: {SHIFT_LABELS[admission.shift_type]}
+                  {admission.shift_override_reason && (
+                    <span className="text-gray-500 italic"> (overridden: {admission.shift_override_reason})</span>
+                  )}
+                </p>
                 <div className="text-sm text-gray-600">
                   <span>Doctor: </span>
                   {admission.admitting_doctor ? (
@@ -104,16 +115,46 @@ const AdmissionHistory: React.FC = () => {
                     <span>No doctor assigned</span>
                   )}
                 </div>
-                {admission.discharge_date && (
+                {admission.transferred_from_id && (
+                  <p className="text-sm text-gray-500">Admitted by transfer</p>
+                )}
+                {admission.status === 'transferred' ? (
+                  admission.transfers_out?.map(transfer => (
+                    <div key={transfer.id} className="mt-2 pt-2 border-t border-gray-100">
+                      <p className="flex items-center text-sm text-gray-600">
+                        <ArrowRightLeft className="h-4 w-4 mr-1 text-yellow-600" />
+                        {transfer.from_department} → {transfer.to_department}
+                      </p>
+                      <p className="text-sm text-gray-600">
+                        Transferred: {formatDateTime(transfer.transferred_at)}
+                      </p>
+                      {transfer.receiving_doctor && (
+                        <p className="text-sm text-gray-600">
+                          Receiving Doctor: {transfer.receiving_doctor.name} ({transfer.receiving_doctor.medical_code})
+                        </p>
+                      )}
+                      <p className="text-sm text-gray-500 italic">{transfer.reason}</p>
+                    </div>
+                  ))
+                ) : admission.discharge_date && (
                   <div className="mt-2 pt-2 border-t border-gray-100">
                     <p className="text-sm text-gray-600">
-                      Discharged: {formatDate(admission.discharge_date)}
+                      Discharged: {formatDateTime(admission.discharge_date)}
                     </p>
                     {admission.discharge_doctor && (
                       <p className="text-sm text-gray-600">
                         Discharge Doctor: {admission.discharge_doctor.name} ({admission.discharge_doctor.medical_code})
                       </p>
                     )}
+                    {admission.diagnoses?.some(diagnosis => diagnosis.stage === 'discharge') && (
+                      <div className="mt-1">
+                        <p className="text-sm text-gray-600">Final Diagnosis:</p>
+                        <DiagnosisCodes diagnoses={admission.diagnoses} stage="discharge" />
+                      </div>
+                    )}
+                    {admission.final_diagnosis && (
+                      <p className="text-sm text-gray-500 italic">{admission.final_diagnosis}</p>
+                    )}
                   </div>
                 )}
               </div>
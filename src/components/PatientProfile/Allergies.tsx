@@ -0,0 +1,306 @@
+import React, { useEffect, useState } from 'react';
+import { ShieldAlert, AlertCircle, Plus, X } from 'lucide-react';
+import { usePatientStore } from '../../stores/usePatientStore';
+import { useAllergyStore } from '../../stores/useAllergyStore';
+import { usePermissions } from '../../hooks/usePermissions';
+import { formatDate } from '../../utils/dateFormat';
+import { ALLERGY_SEVERITY_LABELS, ALLERGY_SEVERITY_STYLES } from '../../config/allergies';
+import { DRUG_CLASSES, FORMULARY } from '../../config/formulary';
+import type { AllergySeverity, PatientAllergy } from '../../types/allergy';
+import type { FormErrors } from '../../types/formErrors';
+
+const SEVERITIES = Object.keys(ALLERGY_SEVERITY_LABELS) as AllergySeverity[];
+
+// Offered as suggestions; any substance can still be typed
+const SUBSTANCE_SUGGESTIONS = [
+  ...DRUG_CLASSES.filter(drugClass => drugClass.allergyTerms.length > 0).map(drugClass => drugClass.label),
+  ...FORMULARY.map(drug => drug.name),
+  'Latex',
+  'Iodine contrast',
+  'Peanuts',
+  'Shellfish',
+  'Eggs'
+];
+
+const Allergies = () => {
+  const { selectedPatient } = usePatientStore();
+  const { allergies, loading, error, fetchAllergies, addAllergy, removeAllergy } = useAllergyStore();
+  const { can } = usePermissions();
+  const canManage = can('allergies.manage');
+  const [showAdd, setShowAdd] = useState(false);
+  const [substance, setSubstance] = useState('');
+  const [reaction, setReaction] = useState('');
+  const [severity, setSeverity] = useState<AllergySeverity>('moderate');
+  const [removeTarget, setRemoveTarget] = useState<PatientAllergy | null>(null);
+  const [removalReason, setRemovalReason] = useState('');
+  const [formErrors, setFormErrors] = useState<FormErrors>({});
+  const [submitting, setSubmitting] = useState(false);
+
+  const patientId = selectedPatient?.id;
+
+  useEffect(() => {
+    if (patientId) {
+      fetchAllergies(patientId);
+    }
+  }, [patientId, fetchAllergies]);
+
+  if (!selectedPatient) return null;
+
+  const patientAllergies = allergies[selectedPatient.id] || [];
+
+  const closeAdd = () => {
+    setShowAdd(false);
+    setSubstance('');
+    setReaction('');
+    setSeverity('moderate');
+    setFormErrors({});
+  };
+
+  const closeRemove = () => {
+    setRemoveTarget(null);
+    setRemovalReason('');
+    setFormErrors({});
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!substance.trim()) {
+      setFormErrors({ substance: 'Please enter the substance the patient is allergic to' });
+      return;
+    }
+    if (patientAllergies.some(allergy => allergy.substance.toLowerCase() === substance.trim().toLowerCase())) {
+      setFormErrors({ substance: 'This allergy is already recorded' });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await addAllergy(selectedPatient.id, { substance, reaction: reaction || null, severity });
+      closeAdd();
+    } catch (err) {
+      setFormErrors({ general: err instanceof Error ? err.message : 'Error recording allergy' });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRemove = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!removeTarget) return;
+    if (!removalReason.trim()) {
+      setFormErrors({ reason: 'Please give a reason for removing the allergy' });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await removeAllergy(removeTarget, removalReason.trim());
+      closeRemove();
+    } catch (err) {
+      setFormErrors({ general: err instanceof Error ? err.message : 'Error removing allergy' });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <ShieldAlert className="h-5 w-5 text-red-600" />
+          <h2 className="text-lg font-semibold text-gray-900">Allergies</h2>
+        </div>
+        {canManage && !showAdd && (
+          <button
+            onClick={() => setShowAdd(true)}
+            className="flex items-center text-sm text-indigo-600 hover:text-indigo-700"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 text-red-700 rounded-lg flex items-center space-x-2">
+          <AlertCircle className="h-5 w-5" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {showAdd && (
+        <form onSubmit={handleAdd} className="mb-4 p-4 bg-gray-50 rounded-lg space-y-3">
+          {formErrors.general && (
+            <div className="p-3 bg-red-50 text-red-700 text-sm rounded-lg">{formErrors.general}</div>
+          )}
+          <div>
+            <label htmlFor="allergySubstance" className="block text-sm font-medium text-gray-700 mb-1">
+              Substance
+            </label>
+            <input
+              type="text"
+              id="allergySubstance"
+              list="allergy-substances"
+              value={substance}
+              onChange={(e) => {
+                setSubstance(e.target.value);
+                setFormErrors({});
+              }}
+              placeholder="e.g. Penicillin"
+              className={`w-full px-4 py-2 rounded-lg border ${
+                formErrors.substance ? 'border-red-300' : 'border-gray-300'
+              } focus:ring-2 focus:ring-indigo-600 focus:border-transparent`}
+            />
+            <datalist id="allergy-substances">
+              {SUBSTANCE_SUGGESTIONS.map(suggestion => (
+                <option key={suggestion} value={suggestion} />
+              ))}
+            </datalist>
+            {formErrors.substance && (
+              <p className="mt-1 text-sm text-red-600">{formErrors.substance}</p>
+            )}
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="allergyReaction" className="block text-sm font-medium text-gray-700 mb-1">
+                Reaction
+              </label>
+              <input
+                type="text"
+                id="allergyReaction"
+                value={reaction}
+                onChange={(e) => setReaction(e.target.value)}
+                placeholder="e.g. Rash"
+                className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label htmlFor="allergySeverity" className="block text-sm font-medium text-gray-700 mb-1">
+                Severity
+              </label>
+              <select
+                id="allergySeverity"
+                value={severity}
+                onChange={(e) => setSeverity(e.target.value as AllergySeverity)}
+                className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+              >
+                {SEVERITIES.map(option => (
+                  <option key={option} value={option}>{ALLERGY_SEVERITY_LABELS[option]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={closeAdd}
+              className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg text-gray-700 hover:bg-white"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="px-3 py-1.5 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {submitting ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading && patientAllergies.length === 0 ? (
+        <div className="flex items-center justify-center h-16">
+          <div className="w-8 h-8 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : patientAllergies.length === 0 ? (
+        <p className="text-sm text-gray-500">No known allergies recorded</p>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {patientAllergies.map(allergy => (
+            <div key={allergy.id} className="flex items-start justify-between py-3 first:pt-0 last:pb-0">
+              <div>
+                <div className="flex items-center space-x-2">
+                  <p className="text-sm font-medium text-gray-900">{allergy.substance}</p>
+                  <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${ALLERGY_SEVERITY_STYLES[allergy.severity]}`}>
+                    {ALLERGY_SEVERITY_LABELS[allergy.severity]}
+                  </span>
+                </div>
+                {allergy.reaction && <p className="text-sm text-gray-600">{allergy.reaction}</p>}
+                <p className="text-xs text-gray-500">
+                  Recorded {formatDate(allergy.recorded_at)}
+                  {allergy.recorder && ` by ${allergy.recorder.name}`}
+                </p>
+              </div>
+              {canManage && (
+                <button
+                  onClick={() => setRemoveTarget(allergy)}
+                  className="text-sm text-red-600 hover:text-red-700"
+                >
+                  Remove
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {removeTarget && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <form onSubmit={handleRemove} className="bg-white rounded-xl shadow-xl max-w-md w-full p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold text-gray-900">Remove allergy to {removeTarget.substance}</h2>
+              <button
+                type="button"
+                onClick={closeRemove}
+                className="p-2 text-gray-400 hover:text-gray-600 rounded-lg"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            {formErrors.general && (
+              <div className="mb-4 p-4 bg-red-50 text-red-700 rounded-lg">{formErrors.general}</div>
+            )}
+            <label htmlFor="allergyRemovalReason" className="block text-sm font-medium text-gray-700 mb-1">
+              Reason
+            </label>
+            <textarea
+              id="allergyRemovalReason"
+              rows={2}
+              value={removalReason}
+              onChange={(e) => {
+                setRemovalReason(e.target.value);
+                setFormErrors({});
+              }}
+              placeholder="e.g. Entered in error, tolerated on challenge"
+              className={`w-full px-4 py-2 rounded-lg border ${
+                formErrors.reason ? 'border-red-300' : 'border-gray-300'
+              } focus:ring-2 focus:ring-indigo-600 focus:border-transparent`}
+            />
+            {formErrors.reason && (
+              <p className="mt-1 text-sm text-red-600">{formErrors.reason}</p>
+            )}
+            <div className="flex justify-end space-x-4 mt-6">
+              <button
+                type="button"
+                onClick={closeRemove}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={submitting}
+                className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {submitting ? 'Removing...' : 'Remove'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Allergies;
@@ -0,0 +1,37 @@
+import React from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { ALLERGY_SEVERITY_LABELS } from '../../config/allergies';
+import type { PatientAllergy } from '../../types/allergy';
+
+interface AllergyBannerProps {
+  allergies: PatientAllergy[];
+}
+
+const AllergyBanner: React.FC<AllergyBannerProps> = ({ allergies }) => {
+  if (allergies.length === 0) {
+    return (
+      <div className="px-4 py-2 bg-gray-50 border border-gray-200 rounded-lg flex items-center space-x-2 text-sm text-gray-600">
+        <ShieldAlert className="h-4 w-4" />
+        <span>No known allergies recorded</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="px-4 py-3 bg-red-50 border border-red-300 rounded-lg flex items-start space-x-3" role="alert">
+      <ShieldAlert className="h-5 w-5 text-red-600 mt-0.5 flex-shrink-0" />
+      <div className="text-sm text-red-800">
+        <span className="font-semibold uppercase tracking-wide mr-2">Allergies</span>
+        {allergies.map((allergy, index) => (
+          <span key={allergy.id}>
+            <span className="font-semibold">{allergy.substance}</span>
+            {' '}({ALLERGY_SEVERITY_LABELS[allergy.severity]}{allergy.reaction ? `: ${allergy.reaction}` : ''})
+            {index < allergies.length - 1 && ', '}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AllergyBanner;
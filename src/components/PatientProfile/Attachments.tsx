@@ -0,0 +1,147 @@
+import { useEffect, useState } from 'react';
+import { Paperclip, Plus, FileText, AlertCircle } from 'lucide-react';
+import { usePatientStore } from '../../stores/usePatientStore';
+import { useAttachmentStore } from '../../stores/useAttachmentStore';
+import { usePermissions } from '../../hooks/usePermissions';
+import { formatDate } from '../../utils/dateFormat';
+import { isImageAttachment } from '../../utils/attachments';
+import { ATTACHMENT_CATEGORY_LABELS, ATTACHMENT_CATEGORY_STYLES } from '../../config/attachments';
+import AttachmentUploadDialog from '../Attachments/AttachmentUploadDialog';
+import AttachmentViewer from '../Attachments/AttachmentViewer';
+import type { AttachmentCategory, PatientAttachment } from '../../types/attachment';
+
+const Attachments = () => {
+  const { selectedPatient } = usePatientStore();
+  const { attachments, signedUrls, loading, error, fetchAttachments, loadThumbnailUrls } = useAttachmentStore();
+  const { can } = usePermissions();
+  const canManage = can('attachments.manage');
+  const [categoryFilter, setCategoryFilter] = useState<AttachmentCategory | 'all'>('all');
+  const [showUpload, setShowUpload] = useState(false);
+  const [viewing, setViewing] = useState<PatientAttachment | null>(null);
+
+  const patientId = selectedPatient?.id;
+  const patientAttachments = patientId ? attachments[patientId] || [] : [];
+
+  useEffect(() => {
+    if (patientId) {
+      fetchAttachments(patientId);
+    }
+    setCategoryFilter('all');
+  }, [patientId, fetchAttachments]);
+
+  useEffect(() => {
+    const images = patientAttachments.filter(isImageAttachment);
+    if (images.length > 0) {
+      loadThumbnailUrls(images);
+    }
+  }, [patientAttachments, loadThumbnailUrls]);
+
+  if (!selectedPatient) return null;
+
+  const categories = Array.from(new Set(patientAttachments.map(attachment => attachment.category)));
+  const shown = categoryFilter === 'all'
+    ? patientAttachments
+    : patientAttachments.filter(attachment => attachment.category === categoryFilter);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-6">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-3">
+          <Paperclip className="h-5 w-5 text-indigo-600" />
+          <h2 className="text-lg font-semibold text-gray-900">Attachments</h2>
+        </div>
+        {canManage && (
+          <button
+            onClick={() => setShowUpload(true)}
+            className="flex items-center px-3 py-2 bg-indigo-600 text-sm text-white rounded-lg hover:bg-indigo-700"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Attach Document
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 text-red-700 rounded-lg flex items-center space-x-2">
+          <AlertCircle className="h-5 w-5" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {categories.length > 1 && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {(['all', ...categories] as Array<AttachmentCategory | 'all'>).map(option => (
+            <button
+              key={option}
+              onClick={() => setCategoryFilter(option)}
+              className={`px-3 py-1 text-sm rounded-full border ${
+                categoryFilter === option
+                  ? 'bg-indigo-600 text-white border-indigo-600'
+                  : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {option === 'all' ? 'All' : ATTACHMENT_CATEGORY_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {loading && patientAttachments.length === 0 ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="w-8 h-8 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : patientAttachments.length === 0 ? (
+        <div className="p-8 text-center text-gray-500">No documents attached</div>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 xl:grid-cols-4 gap-4">
+          {shown.map(attachment => {
+            const thumbnail = isImageAttachment(attachment) ? signedUrls[attachment.storage_path]?.url : undefined;
+            return (
+              <button
+                key={attachment.id}
+                onClick={() => setViewing(attachment)}
+                className="text-left border border-gray-200 rounded-lg overflow-hidden hover:border-indigo-400 hover:shadow-sm"
+              >
+                <div className="h-28 bg-gray-50 flex items-center justify-center">
+                  {thumbnail ? (
+                    <img src={thumbnail} alt={attachment.description} className="h-full w-full object-cover" />
+                  ) : (
+                    <FileText className="h-10 w-10 text-gray-400" />
+                  )}
+                </div>
+                <div className="p-2 space-y-1">
+                  <span className={`inline-block px-2 py-0.5 text-xs font-medium rounded-full ${ATTACHMENT_CATEGORY_STYLES[attachment.category]}`}>
+                    {ATTACHMENT_CATEGORY_LABELS[attachment.category]}
+                  </span>
+                  <p className="text-sm text-gray-900 truncate" title={attachment.description}>{attachment.description}</p>
+                  <p className="text-xs text-gray-500">
+                    {formatDate(attachment.uploaded_at)}
+                    {attachment.admission_id === null && ' · patient record'}
+                  </p>
+                </div>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {showUpload && (
+        <AttachmentUploadDialog
+          patientId={selectedPatient.id}
+          patientName={selectedPatient.name}
+          onClose={() => setShowUpload(false)}
+        />
+      )}
+
+      {viewing && (
+        <AttachmentViewer
+          attachment={viewing}
+          canManage={canManage}
+          onClose={() => setViewing(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default Attachments;
@@ -0,0 +1,126 @@
+import { useEffect, useState } from 'react';
+import { FlaskConical, Plus, Upload, AlertCircle, AlertTriangle } from 'lucide-react';
+import { usePatientStore } from '../../stores/usePatientStore';
+import { useLabStore } from '../../stores/useLabStore';
+import { usePermissions } from '../../hooks/usePermissions';
+import { findLabTest, isCriticalFlag } from '../../utils/labResults';
+import { formatDateTime } from '../../utils/dateFormat';
+import LabResultsGrid from '../Labs/LabResultsGrid';
+import LabTrendChart from '../Labs/LabTrendChart';
+import LabResultEntryForm from '../Labs/LabResultEntryForm';
+import LabImportDialog from '../Labs/LabImportDialog';
+
+const LabResults = () => {
+  const { selectedPatient } = usePatientStore();
+  const { results, loading, error, fetchResults } = useLabStore();
+  const { can } = usePermissions();
+  const canRecord = can('labs.record');
+  const [selectedTest, setSelectedTest] = useState<string | null>(null);
+  const [showEntryForm, setShowEntryForm] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+
+  const patientId = selectedPatient?.id;
+
+  useEffect(() => {
+    if (patientId) {
+      fetchResults(patientId);
+    }
+    setSelectedTest(null);
+  }, [patientId, fetchResults]);
+
+  if (!selectedPatient) return null;
+
+  const patientResults = results[selectedPatient.id] || [];
+  const trendTest = selectedTest ? findLabTest(selectedTest) : undefined;
+  // Critical values from the most recent collection of each test
+  const latestCritical = patientResults.filter((result, index) =>
+    isCriticalFlag(result.flag) &&
+    patientResults.findIndex(other => other.test_code === result.test_code) === index
+  );
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-6">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-3">
+          <FlaskConical className="h-5 w-5 text-indigo-600" />
+          <h2 className="text-lg font-semibold text-gray-900">Lab Results</h2>
+        </div>
+        {canRecord && (
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={() => setShowImport(true)}
+              className="flex items-center px-3 py-2 border border-gray-300 text-sm text-gray-700 rounded-lg hover:bg-gray-50"
+            >
+              <Upload className="h-4 w-4 mr-1" />
+              Import
+            </button>
+            <button
+              onClick={() => setShowEntryForm(true)}
+              className="flex items-center px-3 py-2 bg-indigo-600 text-sm text-white rounded-lg hover:bg-indigo-700"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Enter Results
+            </button>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 text-red-700 rounded-lg flex items-center space-x-2">
+          <AlertCircle className="h-5 w-5" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {latestCritical.length > 0 && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-300 rounded-lg">
+          <div className="flex items-center space-x-2 text-red-800 font-medium mb-1">
+            <AlertTriangle className="h-5 w-5" />
+            <span>Critical results</span>
+          </div>
+          <ul className="text-sm text-red-700 space-y-0.5">
+            {latestCritical.map(result => (
+              <li key={result.id}>
+                {findLabTest(result.test_code)?.name ?? result.test_code} {result.value} {result.unit} · collected {formatDateTime(result.collected_at)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {loading && patientResults.length === 0 ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="w-8 h-8 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : patientResults.length === 0 ? (
+        <div className="p-8 text-center text-gray-500">No lab results recorded</div>
+      ) : (
+        <>
+          <LabResultsGrid
+            results={patientResults}
+            selectedTest={selectedTest}
+            onSelectTest={setSelectedTest}
+          />
+          <div className="mt-6">
+            <h3 className="text-sm font-medium text-gray-700 mb-3">
+              {trendTest ? `${trendTest.name} trend` : 'Select a test to see its trend'}
+            </h3>
+            {trendTest && <LabTrendChart test={trendTest} results={patientResults} />}
+          </div>
+        </>
+      )}
+
+      {showEntryForm && (
+        <LabResultEntryForm
+          patientId={selectedPatient.id}
+          patientName={selectedPatient.name}
+          onClose={() => setShowEntryForm(false)}
+        />
+      )}
+
+      {showImport && <LabImportDialog onClose={() => setShowImport(false)} />}
+    </div>
+  );
+};
+
+export default LabResults;
@@ -1,89 +1,238 @@
-import React from 'react';
-import { Pill, Clock, AlertCircle } from 'lucide-react';
-
-const medications = [
-  {
-    id: 1,
-    name: 'Amoxicillin',
-    dosage: '500mg',
-    frequency: 'Every 8 hours',
-    route: 'Oral',
-    startDate: '2024-03-15',
-    status: 'active'
-  },
-  {
-    id: 2,
-    name: 'Paracetamol',
-    dosage: '1000mg',
-    frequency: 'Every 6 hours PRN',
-    route: 'Oral',
-    startDate: '2024-03-15',
-    status: 'active'
-  },
-  {
-    id: 3,
-    name: 'Salbutamol',
-    dosage: '100mcg',
-    frequency: 'Every 4-6 hours PRN',
-    route: 'Inhalation',
-    startDate: '2024-03-15',
-    status: 'discontinued',
-    stopDate: '2024-03-18'
-  }
-];
+import React, { useEffect, useState } from 'react';
+import { Pill, Clock, AlertCircle, User, ShieldAlert, X } from 'lucide-react';
+import { usePatientStore } from '../../stores/usePatientStore';
+import { useMedicationStore } from '../../stores/useMedicationStore';
+import { usePermissions } from '../../hooks/usePermissions';
+import { formatDateTime } from '../../utils/dateFormat';
+import { toFormErrors } from '../../utils/procedureErrors';
+import { getOrderStatus, isCurrentOrder, sortOrders } from '../../utils/medicationOrders';
+import { findInpatientAdmission } from '../../utils/consultationPatient';
+import { MEDICATION_FREQUENCY_LABELS, MEDICATION_ROUTE_LABELS, MEDICATION_STATUS_STYLES } from '../../config/medications';
+import PrescribeMedicationForm from '../Medications/PrescribeMedicationForm';
+import type { MedicationOrder } from '../../types/medication';
+import type { FormErrors } from '../../types/formErrors';
 
 const Medications = () => {
+  const { selectedPatient } = usePatientStore();
+  const { orders, loading, error, fetchOrders, discontinueOrder } = useMedicationStore();
+  const { can } = usePermissions();
+  const canPrescribe = can('medications.prescribe');
+  const [showPrescribe, setShowPrescribe] = useState(false);
+  const [discontinueTarget, setDiscontinueTarget] = useState<MedicationOrder | null>(null);
+  const [reason, setReason] = useState('');
+  const [formErrors, setFormErrors] = useState<FormErrors>({});
+  const [submitting, setSubmitting] = useState(false);
+
+  const patientId = selectedPatient?.id;
+
+  useEffect(() => {
+    if (patientId) {
+      fetchOrders(patientId);
+    }
+  }, [patientId, fetchOrders]);
+
+  if (!selectedPatient) return null;
+
+  // Orders belong to an inpatient admission, never to an open consultation
+  const activeAdmission = findInpatientAdmission(selectedPatient.admissions);
+  const patientOrders = sortOrders(orders[selectedPatient.id] || []);
+  const currentCount = patientOrders.filter(order => isCurrentOrder(order)).length;
+
+  const closeDiscontinue = () => {
+    setDiscontinueTarget(null);
+    setReason('');
+    setFormErrors({});
+  };
+
+  const handleDiscontinue = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!discontinueTarget) return;
+    if (!reason.trim()) {
+      setFormErrors({ reason: 'Please give a reason for discontinuing' });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await discontinueOrder(discontinueTarget, reason.trim());
+      closeDiscontinue();
+    } catch (err) {
+      setFormErrors(toFormErrors(err, 'Error discontinuing medication'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
   return (
     <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-6">
       <div className="flex items-center justify-between mb-6">
-        <h2 className="text-lg font-semibold text-gray-900">Current Medications</h2>
-        <button className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-600 flex items-center space-x-2">
-          <Pill className="h-4 w-4" />
-          <span>Add Medication</span>
-        </button>
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Medications</h2>
+          <p className="text-sm text-gray-500">{currentCount} current order{currentCount === 1 ? '' : 's'}</p>
+        </div>
+        {canPrescribe && activeAdmission && (
+          <button
+            onClick={() => setShowPrescribe(true)}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-600 flex items-center space-x-2"
+          >
+            <Pill className="h-4 w-4" />
+            <span>Add Medication</span>
+          </button>
+        )}
       </div>
 
-      <div className="space-y-4">
-        {medications.map((medication) => (
-          <div
-            key={medication.id}
-            className={`p-4 border rounded-lg ${
-              medication.status === 'active' ? 'border-gray-200' : 'border-gray-100 bg-gray-50'
-            }`}
-          >
-            <div className="flex items-start justify-between">
-              <div className="flex items-start space-x-3">
-                <Pill className={`h-5 w-5 mt-0.5 ${
-                  medication.status === 'active' ? 'text-indigo-600' : 'text-gray-400'
-                }`} />
-                <div>
-                  <h3 className="text-sm font-medium text-gray-900">{medication.name}</h3>
-                  <p className="text-sm text-gray-600">{medication.dosage} - {medication.route}</p>
-                  <div className="flex items-center space-x-3 mt-1">
-                    <div className="flex items-center text-sm text-gray-500">
-                      <Clock className="h-4 w-4 mr-1" />
-                      {medication.frequency}
-                    </div>
-                    {medication.status === 'discontinued' && (
-                      <div className="flex items-center text-sm text-red-500">
-                        <AlertCircle className="h-4 w-4 mr-1" />
-                        Discontinued on {medication.stopDate}
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 text-red-700 rounded-lg flex items-center space-x-2">
+          <AlertCircle className="h-5 w-5" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {loading && patientOrders.length === 0 ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="w-8 h-8 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : patientOrders.length === 0 ? (
+        <div className="p-8 text-center text-gray-500">No medications have been prescribed</div>
+      ) : (
+        <div className="space-y-4">
+          {patientOrders.map((order) => {
+            const status = getOrderStatus(order);
+            const current = status === 'active' || status === 'scheduled';
+
+            return (
+              <div
+                key={order.id}
+                className={`p-4 border rounded-lg ${current ? 'border-gray-200' : 'border-gray-100 bg-gray-50'}`}
+              >
+                <div className="flex items-start justify-between">
+                  <div className="flex items-start space-x-3">
+                    <Pill className={`h-5 w-5 mt-0.5 ${current ? 'text-indigo-600' : 'text-gray-400'}`} />
+                    <div>
+                      <div className="flex items-center space-x-2">
+                        <h3 className="text-sm font-medium text-gray-900">{order.drug_name}</h3>
+                        <span className={`px-2 py-0.5 text-xs font-medium rounded-full capitalize ${MEDICATION_STATUS_STYLES[status]}`}>
+                          {status}
+                        </span>
+                      </div>
+                      <p className="text-sm text-gray-600">
+                        {order.dose} - {MEDICATION_ROUTE_LABELS[order.route]}
+                      </p>
+                      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-1">
+                        <div className="flex items-center text-sm text-gray-500">
+                          <Clock className="h-4 w-4 mr-1" />
+                          {MEDICATION_FREQUENCY_LABELS[order.frequency]}
+                          {order.is_prn && ` PRN (${order.prn_indication})`}
+                        </div>
+                        <div className="flex items-center text-sm text-gray-500">
+                          <User className="h-4 w-4 mr-1" />
+                          {order.prescriber?.name || 'Unknown prescriber'}
+                        </div>
                       </div>
-                    )}
+                      <p className="text-xs text-gray-500 mt-1">
+                        From {formatDateTime(order.start_at)}
+                        {order.stop_at && !order.discontinued_at && ` until ${formatDateTime(order.stop_at)}`}
+                      </p>
+                      {order.instructions && (
+                        <p className="text-xs text-gray-600 mt-1">{order.instructions}</p>
+                      )}
+                      {order.override_reason && (
+                        <div className="flex items-start text-xs text-orange-700 mt-1">
+                          <ShieldAlert className="h-4 w-4 mr-1 flex-shrink-0" />
+                          <span>
+                            Overrode {order.safety_alerts.filter(alert => alert.hardStop).map(alert => alert.with).join(', ')}: {order.override_reason}
+                          </span>
+                        </div>
+                      )}
+                      {order.discontinued_at && (
+                        <div className="flex items-center text-sm text-red-500 mt-1">
+                          <AlertCircle className="h-4 w-4 mr-1" />
+                          Discontinued on {formatDateTime(order.discontinued_at)}
+                          {order.discontinued_by_user && ` by ${order.discontinued_by_user.name}`}: {order.discontinuation_reason}
+                        </div>
+                      )}
+                    </div>
                   </div>
+                  {canPrescribe && current && (
+                    <button
+                      onClick={() => setDiscontinueTarget(order)}
+                      className="text-sm text-red-600 hover:text-red-700"
+                    >
+                      Discontinue
+                    </button>
+                  )}
                 </div>
               </div>
-              {medication.status === 'active' && (
-                <button className="text-sm text-red-600 hover:text-red-700">
-                  Discontinue
-                </button>
-              )}
+            );
+          })}
+        </div>
+      )}
+
+      {showPrescribe && activeAdmission && (
+        <PrescribeMedicationForm
+          patientId={selectedPatient.id}
+          admissionId={activeAdmission.id}
+          patientName={selectedPatient.name}
+          onClose={() => setShowPrescribe(false)}
+        />
+      )}
+
+      {discontinueTarget && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <form onSubmit={handleDiscontinue} className="bg-white rounded-xl shadow-xl max-w-md w-full p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold text-gray-900">Discontinue {discontinueTarget.drug_name}</h2>
+              <button
+                type="button"
+                onClick={closeDiscontinue}
+                className="p-2 text-gray-400 hover:text-gray-600 rounded-lg"
+              >
+                <X className="h-5 w-5" />
+              </button>
             </div>
-          </div>
-        ))}
-      </div>
+            {formErrors.general && (
+              <div className="mb-4 p-4 bg-red-50 text-red-700 rounded-lg">{formErrors.general}</div>
+            )}
+            <label htmlFor="discontinueReason" className="block text-sm font-medium text-gray-700 mb-1">
+              Reason
+            </label>
+            <textarea
+              id="discontinueReason"
+              rows={2}
+              value={reason}
+              onChange={(e) => {
+                setReason(e.target.value);
+                setFormErrors({});
+              }}
+              placeholder="e.g. Course completed, adverse reaction"
+              className={`w-full px-4 py-2 rounded-lg border ${
+                formErrors.reason ? 'border-red-300' : 'border-gray-300'
+              } focus:ring-2 focus:ring-indigo-600 focus:border-transparent`}
+            />
+            {formErrors.reason && (
+              <p className="mt-1 text-sm text-red-600">{formErrors.reason}</p>
+            )}
+            <div className="flex justify-end space-x-4 mt-6">
+              <button
+                type="button"
+                onClick={closeDiscontinue}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={submitting}
+                className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {submitting ? 'Discontinuing...' : 'Discontinue'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
     </div>
   );
 };
 
-export default Medications;
\ No newline at end of file
+export default Medications;
@@ -1,22 +1,37 @@
 import React, { useState } from 'react';
-import { ArrowLeft, Printer, Share2, Copy, Check } from 'lucide-react';
+import { ArrowLeft, Printer, Share2, Copy, Check, ArrowRightLeft } from 'lucide-react';
 import { useNavigate } from '../../hooks/useNavigate';
 import { usePatientStore } from '../../stores/usePatientStore';
 import { printPatientProfile } from '../../utils/printService';
+import { usePermissions } from '../../hooks/usePermissions';
+import { usePatientAccessStore } from '../../stores/usePatientAccessStore';
+import { useAdmissionStore } from '../../stores/useAdmissionStore';
+import { useVitalsStore } from '../../stores/useVitalsStore';
+import { useAllergyStore } from '../../stores/useAllergyStore';
+import TransferDialog from './TransferDialog';
+import News2Badge from '../Vitals/News2Badge';
+import AllergyBanner from './AllergyBanner';
 
 const PatientHeader = () => {
   const { selectedPatient } = usePatientStore();
   const { goBack } = useNavigate();
+  const { can } = usePermissions();
+  const { logAccess } = usePatientAccessStore();
+  const { admissions } = useAdmissionStore();
+  const { vitals } = useVitalsStore();
+  const { allergies } = useAllergyStore();
   const [copied, setCopied] = useState(false);
   const [shareError, setShareError] = useState<string | null>(null);
   const [isPrinting, setIsPrinting] = useState(false);
+  const [showTransfer, setShowTransfer] = useState(false);
 
   const handlePrint = () => {
     if (!selectedPatient || isPrinting) return;
     
     setIsPrinting(true);
     try {
-      printPatientProfile(selectedPatient);
+      printPatientProfile({ ...selectedPatient, allergies: allergies[selectedPatient.id] });
+      logAccess(selectedPatient.id, 'print');
     } catch (error) {
       console.error('Print error:', error);
     } finally {
@@ -39,8 +54,10 @@ const PatientHeader = () => {
   };
 
   const copyToClipboard = async () => {
+    if (!selectedPatient) return;
     try {
       await navigator.clipboard.writeText(formatPatientInfo());
+      logAccess(selectedPatient.id, 'copy');
       setCopied(true);
       setShareError(null);
       setTimeout(() => setCopied(false), 2000);
@@ -62,6 +79,7 @@ const PatientHeader = () => {
     try {
       if (navigator.canShare && navigator.canShare(shareData)) {
         await navigator.share(shareData);
+        logAccess(selectedPatient.id, 'share');
       } else {
         await copyToClipboard();
       }
@@ -88,6 +106,17 @@ const PatientHeader = () => {
   }
 
   const isActive = selectedPatient.admissions?.[0]?.status === 'active';
+  // Taken from the fetched admission history rather than selectedPatient, whose
+  // admissions are synthesised when the profile is opened from a consultation
+  const activeAdmission = admissions.find(admission =>
+    admission.patient_id === selectedPatient.id && admission.status === 'active'
+  );
+  // NEWS2 is only meaningful for observations taken during the current stay
+  const latestVitals = activeAdmission
+    ? vitals[selectedPatient.id]?.find(set => set.admission_id === activeAdmission.id)
+    : undefined;
+  // Undefined until the allergy list has loaded, so nothing is claimed early
+  const patientAllergies = allergies[selectedPatient.id];
   const canShare = navigator.canShare && navigator.canShare({
     title: 'Test',
     text: 'Test'
@@ -106,7 +135,10 @@ const PatientHeader = () => {
           </button>
           <div>
             <h1 className="text-2xl font-bold text-gray-900">{selectedPatient.name}</h1>
-            <p className="text-gray-600">MRN: {selectedPatient.mrn}</p>
+            <div className="flex items-center space-x-3">
+              <p className="text-gray-600">MRN: {selectedPatient.mrn}</p>
+              {latestVitals && <News2Badge vitals={latestVitals} showRisk />}
+            </div>
           </div>
         </div>
         
@@ -144,7 +176,17 @@ const PatientHeader = () => {
             </span>
           </button>
           
-          {isActive && (
+          {activeAdmission && can('patients.transfer') && (
+            <button
+              onClick={() => setShowTransfer(true)}
+              className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-600 transition-colors"
+            >
+              <ArrowRightLeft className="h-4 w-4 mr-2" />
+              Transfer
+            </button>
+          )}
+
+          {isActive && can('discharge.process') && (
             <button
               onClick={handleDischarge}
               className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-600 transition-colors"
@@ -155,6 +197,16 @@ const PatientHeader = () => {
         </div>
       </div>
 
+      {patientAllergies && <AllergyBanner allergies={patientAllergies} />}
+
+      {showTransfer && activeAdmission && (
+        <TransferDialog
+          admission={activeAdmission}
+          patientName={selectedPatient.name}
+          onClose={() => setShowTransfer(false)}
+        />
+      )}
+
       {shareError && (
         <div className="text-sm text-red-600 bg-red-50 p-2 rounded-lg">
           {shareError}
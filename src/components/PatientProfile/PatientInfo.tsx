@@ -5,6 +5,7 @@ import { formatDate } from '../../utils/dateFormat';
 import { isLongStay } from '../../utils/stayCalculator';
 import SafetyBadge from './SafetyBadge';
 import LongStayBadge from '../LongStay/LongStayBadge';
+import DiagnosisCodes from '../Diagnosis/DiagnosisCodes';
 
 const PatientInfo: React.FC = () => {
   const { selectedPatient } = usePatientStore();
@@ -119,6 +120,7 @@ const PatientInfo: React.FC = () => {
               <FileText className="h-5 w-5 text-gray-400 mt-0.5" />
               <div>
                 <p className="text-sm text-gray-600">Diagnosis</p>
+                <DiagnosisCodes diagnoses={activeAdmission.diagnoses} stage="admission" />
                 <p className="text-sm font-medium text-gray-900">{activeAdmission.diagnosis}</p>
               </div>
             </div>
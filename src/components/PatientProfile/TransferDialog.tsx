@@ -0,0 +1,266 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowRightLeft, AlertCircle, X } from 'lucide-react';
+import { useUserStore } from '../../stores/useUserStore';
+import { useTransferStore } from '../../stores/useTransferStore';
+import { useSettingsStore } from '../../stores/useSettingsStore';
+import { toFormErrors } from '../../utils/procedureErrors';
+import { fromHospitalInput, toHospitalInput } from '../../utils/hospitalTime';
+import type { Admission } from '../../types/admission';
+import type { FormErrors } from '../../types/formErrors';
+
+interface TransferDialogProps {
+  admission: Admission;
+  patientName: string;
+  onClose: () => void;
+}
+
+interface FormData {
+  toDepartment: string;
+  receivingDoctorId: number | null;
+  reason: string;
+  transferredAt: string;
+}
+
+const departments = [
+  'Internal Medicine',
+  'Pulmonology',
+  'Neurology',
+  'Gastroenterology',
+  'Rheumatology',
+  'Endocrinology',
+  'Hematology',
+  'Infectious Disease',
+  'Thrombosis Medicine',
+  'Immunology & Allergy'
+];
+
+const TransferDialog: React.FC<TransferDialogProps> = ({ admission, patientName, onClose }) => {
+  const { users, fetchUsers } = useUserStore();
+  const { transferPatient } = useTransferStore();
+  const { timeZone } = useSettingsStore();
+  const [formData, setFormData] = useState<FormData>({
+    toDepartment: '',
+    receivingDoctorId: null,
+    reason: '',
+    transferredAt: toHospitalInput(new Date(), useSettingsStore.getState().timeZone)
+  });
+  const [formErrors, setFormErrors] = useState<FormErrors>({});
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (users.length === 0) {
+      fetchUsers();
+    }
+  }, [users.length, fetchUsers]);
+
+  const receivingDoctors = users.filter(user =>
+    user.role === 'doctor' &&
+    user.status === 'active' &&
+    user.department === formData.toDepartment
+  );
+
+  const validateForm = () => {
+    const errors: FormErrors = {};
+    const transferredAt = new Date(fromHospitalInput(formData.transferredAt, timeZone));
+
+    if (!formData.toDepartment) {
+      errors.toDepartment = 'Receiving department is required';
+    } else if (formData.toDepartment === admission.department) {
+      errors.toDepartment = 'The patient is already in this department';
+    }
+    if (formData.receivingDoctorId === null) {
+      errors.receivingDoctorId = 'Please select the receiving doctor';
+    }
+    if (!formData.reason.trim()) {
+      errors.reason = 'Transfer reason is required';
+    }
+    if (isNaN(transferredAt.getTime()) ||
+        transferredAt < new Date(admission.admission_date) ||
+        transferredAt > new Date()) {
+      errors.transferredAt = 'Transfer time must be between the admission time and now';
+    }
+
+    setFormErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => {
+      if (name === 'toDepartment') {
+        // The receiving doctor has to belong to the new department
+        return { ...prev, toDepartment: value, receivingDoctorId: null };
+      }
+      if (name === 'receivingDoctorId') {
+        return { ...prev, receivingDoctorId: value ? parseInt(value) : null };
+      }
+      return { ...prev, [name]: value };
+    });
+    setFormErrors(prev => ({ ...prev, [name]: undefined, general: undefined }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validateForm()) return;
+
+    setSubmitting(true);
+    try {
+      await transferPatient({
+        p_admission_id: admission.id,
+        p_to_department: formData.toDepartment,
+        p_receiving_doctor_id: formData.receivingDoctorId!,
+        p_reason: formData.reason.trim(),
+        p_transferred_at: fromHospitalInput(formData.transferredAt, timeZone)
+      });
+      onClose();
+    } catch (err) {
+      setFormErrors(prev => ({ ...prev, ...toFormErrors(err, 'Error transferring patient') }));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center space-x-3">
+            <div className="p-2 bg-indigo-100 rounded-lg">
+              <ArrowRightLeft className="h-6 w-6 text-indigo-600" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">Transfer Patient</h2>
+              <p className="text-sm text-gray-600">{patientName} · currently in {admission.department}</p>
+            </div>
+          </div>
+          <button type="button" onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600 rounded-lg">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {formErrors.general && (
+            <div className="p-4 bg-red-50 text-red-700 rounded-lg flex items-center space-x-2">
+              <AlertCircle className="h-5 w-5" />
+              <span>{formErrors.general}</span>
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="toDepartment" className="block text-sm font-medium text-gray-700 mb-1">
+              Receiving Department
+            </label>
+            <select
+              id="toDepartment"
+              name="toDepartment"
+              value={formData.toDepartment}
+              onChange={handleChange}
+              className={`w-full px-4 py-2 rounded-lg border ${
+                formErrors.toDepartment ? 'border-red-300' : 'border-gray-300'
+              } focus:ring-2 focus:ring-indigo-600 focus:border-transparent`}
+            >
+              <option value="">Select department</option>
+              {departments
+                .filter(department => department !== admission.department)
+                .map(department => (
+                  <option key={department} value={department}>{department}</option>
+                ))}
+            </select>
+            {formErrors.toDepartment && (
+              <p className="mt-1 text-sm text-red-600">{formErrors.toDepartment}</p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="receivingDoctorId" className="block text-sm font-medium text-gray-700 mb-1">
+              Receiving Doctor
+            </label>
+            <select
+              id="receivingDoctorId"
+              name="receivingDoctorId"
+              value={formData.receivingDoctorId ?? ''}
+              onChange={handleChange}
+              disabled={!formData.toDepartment}
+              className={`w-full px-4 py-2 rounded-lg border ${
+                formErrors.receivingDoctorId ? 'border-red-300' : 'border-gray-300'
+              } focus:ring-2 focus:ring-indigo-600 focus:border-transparent disabled:bg-gray-50`}
+            >
+              <option value="">
+                {formData.toDepartment && receivingDoctors.length === 0
+                  ? 'No doctors available for this department'
+                  : 'Select a doctor'}
+              </option>
+              {receivingDoctors.map(doctor => (
+                <option key={doctor.id} value={doctor.id}>
+                  {doctor.name} ({doctor.medical_code})
+                </option>
+              ))}
+            </select>
+            {formErrors.receivingDoctorId && (
+              <p className="mt-1 text-sm text-red-600">{formErrors.receivingDoctorId}</p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="transferredAt" className="block text-sm font-medium text-gray-700 mb-1">
+              Transfer Time
+            </label>
+            <input
+              type="datetime-local"
+              id="transferredAt"
+              name="transferredAt"
+              value={formData.transferredAt}
+              onChange={handleChange}
+              max={toHospitalInput(new Date(), timeZone)}
+              className={`w-full px-4 py-2 rounded-lg border ${
+                formErrors.transferredAt ? 'border-red-300' : 'border-gray-300'
+              } focus:ring-2 focus:ring-indigo-600 focus:border-transparent`}
+            />
+            {formErrors.transferredAt && (
+              <p className="mt-1 text-sm text-red-600">{formErrors.transferredAt}</p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="reason" className="block text-sm font-medium text-gray-700 mb-1">
+              Reason for Transfer
+            </label>
+            <textarea
+              id="reason"
+              name="reason"
+              rows={3}
+              value={formData.reason}
+              onChange={handleChange}
+              className={`w-full px-4 py-2 rounded-lg border ${
+                formErrors.reason ? 'border-red-300' : 'border-gray-300'
+              } focus:ring-2 focus:ring-indigo-600 focus:border-transparent`}
+            />
+            {formErrors.reason && (
+              <p className="mt-1 text-sm text-red-600">{formErrors.reason}</p>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-4 p-6 border-t border-gray-200">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={submitting}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={submitting}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {submitting ? 'Transferring...' : 'Transfer Patient'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default TransferDialog;
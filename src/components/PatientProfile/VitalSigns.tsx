@@ -1,46 +1,193 @@
-import React from 'react';
-import { Activity, Heart, Thermometer, Wind } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { Activity, Heart, Thermometer, Wind, Gauge, Plus, AlertTriangle } from 'lucide-react';
+import { usePatientStore } from '../../stores/usePatientStore';
+import { useVitalsStore } from '../../stores/useVitalsStore';
+import { usePermissions } from '../../hooks/usePermissions';
+import { formatDateTime } from '../../utils/dateFormat';
+import { getVitalFlag, formatBloodPressure, isAbnormalSet } from '../../utils/vitalFlags';
+import { findInpatientAdmission } from '../../utils/consultationPatient';
+import { OXYGEN_DEVICE_LABELS, CONSCIOUSNESS_LABELS } from '../../config/vitals';
+import VitalsEntryForm from '../Vitals/VitalsEntryForm';
+import VitalsTrendChart from '../Vitals/VitalsTrendChart';
+import News2Badge from '../Vitals/News2Badge';
+import type { VitalFlag } from '../../types/vitals';
+
+interface VitalTileProps {
+  icon: React.ElementType;
+  label: string;
+  value: string;
+  unit?: string;
+  flag: VitalFlag | null;
+  color: keyof typeof TILE_COLORS;
+}
+
+const TILE_COLORS = {
+  indigo: { bg: 'bg-indigo-50', text: 'text-indigo-600' },
+  green: { bg: 'bg-green-50', text: 'text-green-600' },
+  purple: { bg: 'bg-purple-50', text: 'text-purple-600' },
+  red: { bg: 'bg-red-50', text: 'text-red-600' },
+  blue: { bg: 'bg-blue-50', text: 'text-blue-600' }
+};
+
+const VitalTile: React.FC<VitalTileProps> = ({ icon: Icon, label, value, unit, flag, color }) => (
+  <div className={`p-4 rounded-lg ${flag ? 'bg-red-50 ring-2 ring-red-300' : TILE_COLORS[color].bg}`}>
+    <div className="flex items-center justify-between mb-2">
+      <div className="flex items-center space-x-3">
+        <Icon className={`h-5 w-5 ${flag ? 'text-red-600' : TILE_COLORS[color].text}`} />
+        <span className="text-sm font-medium text-gray-700">{label}</span>
+      </div>
+      {flag && (
+        <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-red-100 text-red-800">
+          {flag === 'high' ? 'High' : 'Low'}
+        </span>
+      )}
+    </div>
+    <p className={`text-2xl font-bold ${flag ? 'text-red-600' : TILE_COLORS[color].text}`}>
+      {value} {unit && value !== '—' && <span className="text-sm text-gray-600">{unit}</span>}
+    </p>
+  </div>
+);
 
 const VitalSigns = () => {
+  const { selectedPatient } = usePatientStore();
+  const { vitals, loading, error, fetchVitals } = useVitalsStore();
+  const { can } = usePermissions();
+  const [showEntryForm, setShowEntryForm] = useState(false);
+
+  const patientId = selectedPatient?.id;
+
+  useEffect(() => {
+    if (patientId) {
+      fetchVitals(patientId);
+    }
+  }, [patientId, fetchVitals]);
+
+  if (!selectedPatient) return null;
+
+  const patientVitals = vitals[selectedPatient.id] || [];
+  const latest = patientVitals[0];
+  // Observations taken during a consultation are not tied to any admission
+  const activeAdmission = findInpatientAdmission(selectedPatient.admissions);
+  const bpFlag = latest
+    ? getVitalFlag('systolic_bp', latest.systolic_bp) || getVitalFlag('diastolic_bp', latest.diastolic_bp)
+    : null;
+
   return (
     <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-6">
-      <h2 className="text-lg font-semibold text-gray-900 mb-4">Latest Vital Signs</h2>
-      
-      <div className="grid grid-cols-2 gap-4">
-        <div className="p-4 bg-indigo-50 rounded-lg">
-          <div className="flex items-center space-x-3 mb-2">
-            <Heart className="h-5 w-5 text-indigo-600" />
-            <span className="text-sm font-medium text-gray-700">Heart Rate</span>
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <div className="flex items-center space-x-3">
+            <h2 className="text-lg font-semibold text-gray-900">Latest Vital Signs</h2>
+            {latest && <News2Badge vitals={latest} />}
           </div>
-          <p className="text-2xl font-bold text-indigo-600">72 <span className="text-sm text-gray-600">bpm</span></p>
+          {latest && (
+            <p className="text-sm text-gray-500">
+              {formatDateTime(latest.recorded_at)} · Recorded by {latest.recorded_by.name}
+            </p>
+          )}
         </div>
+        {can('vitals.record') && (
+          <button
+            onClick={() => setShowEntryForm(true)}
+            className="flex items-center px-3 py-2 bg-indigo-600 text-white text-sm rounded-lg hover:bg-indigo-700"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Record Vitals
+          </button>
+        )}
+      </div>
 
-        <div className="p-4 bg-green-50 rounded-lg">
-          <div className="flex items-center space-x-3 mb-2">
-            <Activity className="h-5 w-5 text-green-600" />
-            <span className="text-sm font-medium text-gray-700">Blood Pressure</span>
-          </div>
-          <p className="text-2xl font-bold text-green-600">120/80</p>
-        </div>
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 text-red-700 rounded-lg">{error}</div>
+      )}
 
-        <div className="p-4 bg-red-50 rounded-lg">
-          <div className="flex items-center space-x-3 mb-2">
-            <Thermometer className="h-5 w-5 text-red-600" />
-            <span className="text-sm font-medium text-gray-700">Temperature</span>
-          </div>
-          <p className="text-2xl font-bold text-red-600">37.2 <span className="text-sm text-gray-600">°C</span></p>
+      {loading && patientVitals.length === 0 ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="w-8 h-8 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin"></div>
         </div>
+      ) : !latest ? (
+        <div className="p-8 text-center text-gray-500">No vital signs recorded yet</div>
+      ) : (
+        <>
+          {isAbnormalSet(latest) && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2 text-sm text-red-800">
+              <AlertTriangle className="h-4 w-4" />
+              <span>Abnormal observations in the latest set</span>
+            </div>
+          )}
 
-        <div className="p-4 bg-blue-50 rounded-lg">
-          <div className="flex items-center space-x-3 mb-2">
-            <Wind className="h-5 w-5 text-blue-600" />
-            <span className="text-sm font-medium text-gray-700">Oxygen Saturation</span>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            <VitalTile
+              icon={Heart}
+              label="Heart Rate"
+              value={latest.heart_rate?.toString() ?? '—'}
+              unit="bpm"
+              flag={getVitalFlag('heart_rate', latest.heart_rate)}
+              color="indigo"
+            />
+            <VitalTile
+              icon={Activity}
+              label="Blood Pressure"
+              value={formatBloodPressure(latest)}
+              unit="mmHg"
+              flag={bpFlag}
+              color="green"
+            />
+            <VitalTile
+              icon={Gauge}
+              label="Respiratory Rate"
+              value={latest.respiratory_rate?.toString() ?? '—'}
+              unit="/min"
+              flag={getVitalFlag('respiratory_rate', latest.respiratory_rate)}
+              color="purple"
+            />
+            <VitalTile
+              icon={Thermometer}
+              label="Temperature"
+              value={latest.temperature?.toFixed(1) ?? '—'}
+              unit="°C"
+              flag={getVitalFlag('temperature', latest.temperature)}
+              color="red"
+            />
+            <VitalTile
+              icon={Wind}
+              label="Oxygen Saturation"
+              value={latest.spo2?.toString() ?? '—'}
+              unit="%"
+              flag={getVitalFlag('spo2', latest.spo2)}
+              color="blue"
+            />
+            <div className={`p-4 rounded-lg ${latest.consciousness !== 'alert' ? 'bg-red-50 ring-2 ring-red-300' : 'bg-gray-50'}`}>
+              <p className="text-sm font-medium text-gray-700 mb-1">Consciousness</p>
+              <p className={`font-semibold ${latest.consciousness !== 'alert' ? 'text-red-600' : 'text-gray-900'}`}>
+                {CONSCIOUSNESS_LABELS[latest.consciousness]}
+              </p>
+              <p className="text-xs text-gray-500 mt-1">
+                {OXYGEN_DEVICE_LABELS[latest.o2_device]}
+                {latest.o2_flow_rate !== null && ` · ${latest.o2_flow_rate} L/min`}
+              </p>
+            </div>
           </div>
-          <p className="text-2xl font-bold text-blue-600">98 <span className="text-sm text-gray-600">%</span></p>
-        </div>
-      </div>
+
+          {patientVitals.length > 1 && (
+            <div className="mt-6">
+              <h3 className="text-sm font-semibold text-gray-600 uppercase mb-3">Trends</h3>
+              <VitalsTrendChart vitals={patientVitals} />
+            </div>
+          )}
+        </>
+      )}
+
+      {showEntryForm && (
+        <VitalsEntryForm
+          patientId={selectedPatient.id}
+          patientName={selectedPatient.name}
+          admissionId={activeAdmission?.id ?? null}
+          onClose={() => setShowEntryForm(false)}
+        />
+      )}
     </div>
   );
 };
 
-export default VitalSigns;
\ No newline at end of file
+export default VitalSigns;
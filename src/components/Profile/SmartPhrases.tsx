@@ -0,0 +1,319 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Zap, Plus, Pencil, Trash2, AlertCircle } from 'lucide-react';
+import { useSmartPhraseStore } from '../../stores/useSmartPhraseStore';
+import { useUserStore } from '../../stores/useUserStore';
+import { usePermissions } from '../../hooks/usePermissions';
+import { PHRASE_BLANK, PHRASE_PLACEHOLDERS, PHRASE_PREFIX, PHRASE_SCOPE_LABELS } from '../../config/smartPhrases';
+import { validatePhrase } from '../../utils/smartPhrases';
+import { toFormErrors } from '../../utils/procedureErrors';
+import type { SmartPhrase, SmartPhraseInput, SmartPhraseScope } from '../../types/smartPhrase';
+import type { FormErrors } from '../../types/formErrors';
+
+const emptyInput: SmartPhraseInput = {
+  shortcut: '',
+  title: '',
+  body: '',
+  scope: 'personal'
+};
+
+const SmartPhrases: React.FC = () => {
+  const { currentUser } = useUserStore();
+  const { phrases, loading, error, fetchPhrases, savePhrase, deletePhrase } = useSmartPhraseStore();
+  const { can } = usePermissions();
+  const canShare = can('phrases.department');
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+  // The phrase being edited, or null while adding a new one
+  const [editing, setEditing] = useState<SmartPhrase | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [input, setInput] = useState<SmartPhraseInput>(emptyInput);
+  const [formErrors, setFormErrors] = useState<FormErrors>({});
+  const [submitting, setSubmitting] = useState(false);
+  const [actionError, setActionError] = useState('');
+
+  useEffect(() => {
+    fetchPhrases();
+  }, [fetchPhrases]);
+
+  const canChange = (phrase: SmartPhrase) =>
+    phrase.scope === 'personal'
+      ? phrase.owner_id === currentUser?.id
+      : canShare && phrase.department === currentUser?.department;
+
+  const openForm = (phrase: SmartPhrase | null) => {
+    setEditing(phrase);
+    setInput(phrase
+      ? { shortcut: phrase.shortcut, title: phrase.title, body: phrase.body, scope: phrase.scope }
+      : emptyInput);
+    setFormErrors({});
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditing(null);
+    setFormErrors({});
+  };
+
+  const updateInput = (changes: Partial<SmartPhraseInput>) => {
+    setInput(prev => ({ ...prev, ...changes }));
+    setFormErrors(prev => ({
+      ...prev,
+      ...Object.fromEntries(Object.keys(changes).map(key => [key, undefined])),
+      general: undefined
+    }));
+  };
+
+  // Inserts the placeholder where the caret is in the phrase text
+  const insertPlaceholder = (key: string) => {
+    const token = `{${key}}`;
+    const textarea = bodyRef.current;
+    const start = textarea ? textarea.selectionStart : input.body.length;
+    const end = textarea ? textarea.selectionEnd : input.body.length;
+    updateInput({ body: input.body.slice(0, start) + token + input.body.slice(end) });
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const errors = validatePhrase(input);
+    if (Object.keys(errors).length > 0) {
+      setFormErrors(errors);
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await savePhrase(input, editing ?? undefined);
+      closeForm();
+    } catch (err) {
+      setFormErrors(toFormErrors(err, 'Error saving smart phrase'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (phrase: SmartPhrase) => {
+    if (!window.confirm(`Delete ${PHRASE_PREFIX}${phrase.shortcut}? This cannot be undone.`)) return;
+
+    setActionError('');
+    try {
+      await deletePhrase(phrase);
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Error deleting smart phrase');
+    }
+  };
+
+  const renderGroup = (scope: SmartPhraseScope, title: string, emptyText: string) => {
+    const group = phrases.filter(phrase => phrase.scope === scope);
+    return (
+      <div>
+        <h3 className="text-sm font-semibold text-gray-700 uppercase tracking-wide mb-2">{title}</h3>
+        {group.length === 0 ? (
+          <p className="text-sm text-gray-500">{emptyText}</p>
+        ) : (
+          <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+            {group.map(phrase => (
+              <div key={phrase.id} className="flex items-start justify-between p-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm">
+                    <span className="font-mono text-indigo-600">{PHRASE_PREFIX}{phrase.shortcut}</span>
+                    <span className="ml-2 font-medium text-gray-900">{phrase.title}</span>
+                  </p>
+                  <p className="mt-1 text-sm text-gray-600 whitespace-pre-wrap line-clamp-3">{phrase.body}</p>
+                </div>
+                {canChange(phrase) && (
+                  <div className="flex items-center space-x-1 ml-4">
+                    <button
+                      onClick={() => openForm(phrase)}
+                      title="Edit phrase"
+                      className="p-1 text-gray-400 hover:text-gray-600 rounded"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(phrase)}
+                      title="Delete phrase"
+                      className="p-1 text-gray-400 hover:text-red-600 rounded"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mt-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-indigo-50 rounded-lg">
+            <Zap className="h-5 w-5 text-indigo-600" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Smart Phrases</h2>
+            <p className="text-sm text-gray-500">
+              Type {PHRASE_PREFIX} and a shortcut in a note, then press space, Tab or Enter to insert the text
+            </p>
+          </div>
+        </div>
+        {!showForm && (
+          <button
+            onClick={() => openForm(null)}
+            className="flex items-center space-x-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-600"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add Phrase</span>
+          </button>
+        )}
+      </div>
+
+      {(error || actionError) && (
+        <div className="mb-4 p-4 bg-red-50 text-red-700 rounded-lg flex items-center space-x-2">
+          <AlertCircle className="h-5 w-5" />
+          <span>{error || actionError}</span>
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="mb-6 p-4 border border-gray-200 rounded-lg space-y-4">
+          {formErrors.general && (
+            <div className="p-3 bg-red-50 text-red-700 text-sm rounded-lg">{formErrors.general}</div>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="phraseShortcut" className="block text-sm font-medium text-gray-700 mb-1">
+                Shortcut
+              </label>
+              <div className="relative">
+                <span className="absolute inset-y-0 left-0 pl-3 flex items-center text-gray-500 font-mono">
+                  {PHRASE_PREFIX}
+                </span>
+                <input
+                  id="phraseShortcut"
+                  type="text"
+                  value={input.shortcut}
+                  onChange={(e) => updateInput({ shortcut: e.target.value })}
+                  placeholder="normalexam"
+                  className={`w-full pl-7 pr-4 py-2 rounded-lg border font-mono ${
+                    formErrors.shortcut ? 'border-red-300' : 'border-gray-300'
+                  } focus:ring-2 focus:ring-indigo-600 focus:border-transparent`}
+                />
+              </div>
+              {formErrors.shortcut && (
+                <p className="mt-1 text-sm text-red-600">{formErrors.shortcut}</p>
+              )}
+            </div>
+            <div>
+              <label htmlFor="phraseTitle" className="block text-sm font-medium text-gray-700 mb-1">
+                Title
+              </label>
+              <input
+                id="phraseTitle"
+                type="text"
+                value={input.title}
+                onChange={(e) => updateInput({ title: e.target.value })}
+                placeholder="Normal examination"
+                className={`w-full px-4 py-2 rounded-lg border ${
+                  formErrors.title ? 'border-red-300' : 'border-gray-300'
+                } focus:ring-2 focus:ring-indigo-600 focus:border-transparent`}
+              />
+              {formErrors.title && (
+                <p className="mt-1 text-sm text-red-600">{formErrors.title}</p>
+              )}
+            </div>
+            <div>
+              <label htmlFor="phraseScope" className="block text-sm font-medium text-gray-700 mb-1">
+                Available to
+              </label>
+              <select
+                id="phraseScope"
+                value={input.scope}
+                onChange={(e) => updateInput({ scope: e.target.value as SmartPhraseScope })}
+                disabled={!canShare}
+                className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-600 focus:border-transparent disabled:bg-gray-50"
+              >
+                <option value="personal">Only me</option>
+                <option value="department">Everyone in {currentUser?.department || 'my department'}</option>
+              </select>
+            </div>
+          </div>
+          <div>
+            <label htmlFor="phraseBody" className="block text-sm font-medium text-gray-700 mb-1">
+              Text
+            </label>
+            <textarea
+              id="phraseBody"
+              ref={bodyRef}
+              value={input.body}
+              onChange={(e) => updateInput({ body: e.target.value })}
+              rows={5}
+              className={`w-full px-4 py-2 rounded-lg border ${
+                formErrors.body ? 'border-red-300' : 'border-gray-300'
+              } focus:ring-2 focus:ring-indigo-600 focus:border-transparent`}
+            />
+            {formErrors.body && (
+              <p className="mt-1 text-sm text-red-600">{formErrors.body}</p>
+            )}
+            <div className="mt-2 flex flex-wrap gap-2">
+              {PHRASE_PLACEHOLDERS.map(placeholder => (
+                <button
+                  key={placeholder.key}
+                  type="button"
+                  onClick={() => insertPlaceholder(placeholder.key)}
+                  title={`Insert {${placeholder.key}}`}
+                  className="px-2 py-1 text-xs rounded-full bg-gray-100 text-gray-700 hover:bg-indigo-100 hover:text-indigo-700"
+                >
+                  {placeholder.label}
+                </button>
+              ))}
+            </div>
+            <p className="mt-1 text-xs text-gray-500">
+              Placeholders are filled from the patient being documented; any without a value are inserted as {PHRASE_BLANK}.
+            </p>
+          </div>
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={closeForm}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {submitting ? 'Saving...' : editing ? 'Save Changes' : 'Add Phrase'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading && phrases.length === 0 ? (
+        <div className="flex items-center justify-center h-16">
+          <div className="w-8 h-8 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {renderGroup('personal', PHRASE_SCOPE_LABELS.personal, 'You have no personal phrases yet')}
+          {renderGroup(
+            'department',
+            `${PHRASE_SCOPE_LABELS.department}${currentUser?.department ? ` · ${currentUser.department}` : ''}`,
+            'No phrases have been shared with your department'
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SmartPhrases;
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Plus, FileText } from 'lucide-react';
 import { useLongStayNotesStore } from '../../stores/useLongStayNotesStore';
+import { usePermissions } from '../../hooks/usePermissions';
 import { formatDate, formatTime } from '../../utils/dateFormat';
 
 interface LongStayNotesProps {
@@ -11,6 +12,7 @@ interface LongStayNotesProps {
 
 const LongStayNotes: React.FC<LongStayNotesProps> = ({ patientId, isOpen, onClose }) => {
   const { notes, loading, error, fetchNotes, addNote } = useLongStayNotesStore();
+  const { can } = usePermissions();
   const [newNote, setNewNote] = useState('');
   const [isAddingNote, setIsAddingNote] = useState(false);
 
@@ -51,7 +53,7 @@ const LongStayNotes: React.FC<LongStayNotesProps> = ({ patientId, isOpen, onClos
         </div>
 
         <div className="p-6 overflow-y-auto max-h-[calc(90vh-200px)]">
-          {!isAddingNote && (
+          {!isAddingNote && can('notes.create') && (
             <button
               onClick={() => setIsAddingNote(true)}
               className="flex items-center space-x-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 mb-6"
@@ -2,8 +2,9 @@ import React, { useState } from 'react';
 import { Clock, Download, FileText, Filter, Printer, MessageSquare } from 'lucide-react';
 import { usePatientStore } from '../../stores/usePatientStore';
 import { formatDate } from '../../utils/dateFormat';
-import { calculateStayDuration, LONG_STAY_THRESHOLD } from '../../utils/stayCalculator';
+import { calculateStayDuration, getStayStartDate, LONG_STAY_THRESHOLD } from '../../utils/stayCalculator';
 import { exportLongStayReport } from '../../utils/reportExport';
+import { usePermissions } from '../../hooks/usePermissions';
 import LongStayBadge from '../LongStay/LongStayBadge';
 import SafetyBadge from '../PatientProfile/SafetyBadge';
 import LongStayNotes from './LongStayNotes';
@@ -33,6 +34,7 @@ const specialties = [
 
 const LongStayReports: React.FC = () => {
   const { patients } = usePatientStore();
+  const { can } = usePermissions();
   const [filters, setFilters] = useState<LongStayFilters>({
     specialty: 'All Specialties',
     minDuration: LONG_STAY_THRESHOLD,
@@ -47,7 +49,7 @@ const LongStayReports: React.FC = () => {
       const admission = patient.admissions?.[0];
       if (!admission) return false;
 
-      const stayDuration = calculateStayDuration(admission.admission_date);
+      const stayDuration = calculateStayDuration(getStayStartDate(admission, patient.admissions));
       const matchesSpecialty = filters.specialty === 'All Specialties' || admission.department === filters.specialty;
       const matchesDuration = stayDuration >= filters.minDuration;
       const matchesSearch = filters.searchQuery === '' || 
@@ -62,11 +64,12 @@ const LongStayReports: React.FC = () => {
       if (!admissionA || !admissionB) return 0;
 
       if (filters.sortBy === 'duration') {
-        const durationA = calculateStayDuration(admissionA.admission_date);
-        const durationB = calculateStayDuration(admissionB.admission_date);
+        const durationA = calculateStayDuration(getStayStartDate(admissionA, a.admissions));
+        const durationB = calculateStayDuration(getStayStartDate(admissionB, b.admissions));
         return durationB - durationA;
       } else {
-        return new Date(admissionB.admission_date).getTime() - new Date(admissionA.admission_date).getTime();
+        return new Date(getStayStartDate(admissionB, b.admissions)).getTime() -
+          new Date(getStayStartDate(admissionA, a.admissions)).getTime();
       }
     });
 
@@ -97,13 +100,15 @@ const LongStayReports: React.FC = () => {
                 <Printer className="h-4 w-4" />
                 <span>Print</span>
               </button>
-              <button
-                onClick={handleExport}
-                className="flex items-center space-x-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
-              >
-                <Download className="h-4 w-4" />
-                <span>Export PDF</span>
-              </button>
+              {can('reports.export') && (
+                <button
+                  onClick={handleExport}
+                  className="flex items-center space-x-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+                >
+                  <Download className="h-4 w-4" />
+                  <span>Export PDF</span>
+                </button>
+              )}
             </div>
           </div>
 
@@ -182,7 +187,8 @@ const LongStayReports: React.FC = () => {
               const admission = patient.admissions?.[0] as Admission | undefined;
               if (!admission) return null;
 
-              const stayDuration = calculateStayDuration(admission.admission_date);
+              const admittedAt = getStayStartDate(admission, patient.admissions);
+              const stayDuration = calculateStayDuration(admittedAt);
 
               return (
                 <div
@@ -194,7 +200,7 @@ const LongStayReports: React.FC = () => {
                       <div className="flex items-center space-x-3">
                         <h3 className="text-lg font-medium text-gray-900">{patient.name}</h3>
                         <LongStayBadge 
-                          admissionDate={admission.admission_date}
+                          admissionDate={admittedAt}
                           showDuration={true}
                         />
                         {admission.safety_type && (
@@ -219,7 +225,7 @@ const LongStayReports: React.FC = () => {
                         <div>
                           <p className="text-sm text-gray-600">Admission Date</p>
                           <p className="text-sm font-medium text-gray-900">
-                            {formatDate(admission.admission_date)}
+                            {formatDate(admittedAt)}
                           </p>
                         </div>
                         <div>
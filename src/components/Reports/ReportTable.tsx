@@ -2,6 +2,7 @@ import React from 'react';
 import { Download, Printer, FileText } from 'lucide-react';
 import { formatDate, formatTime } from '../../utils/dateFormat';
 import { exportToPDF } from '../../utils/pdfExport';
+import { usePermissions } from '../../hooks/usePermissions';
 import type { Patient } from '../../types/patient';
 import type { Consultation } from '../../types/consultation';
 import type { Appointment } from '../../types/appointment';
@@ -24,6 +25,8 @@ interface ReportTableProps {
 }
 
 const ReportTable: React.FC<ReportTableProps> = ({ data }) => {
+  const { can } = usePermissions();
+
   const filterDataByDate = (item: { created_at?: string; admission_date?: string }) => {
     if (!data.filters.dateFrom && !data.filters.dateTo) return true;
     const itemDate = new Date(item.created_at || item.admission_date || '');
@@ -108,13 +111,15 @@ const ReportTable: React.FC<ReportTableProps> = ({ data }) => {
             <Printer className="h-4 w-4" />
             <span>Print</span>
           </button>
-          <button 
-            onClick={handleExportPDF}
-            className="flex items-center space-x-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
-          >
-            <Download className="h-4 w-4" />
-            <span>Export PDF</span>
-          </button>
+          {can('reports.export') && (
+            <button 
+              onClick={handleExportPDF}
+              className="flex items-center space-x-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+            >
+              <Download className="h-4 w-4" />
+              <span>Export PDF</span>
+            </button>
+          )}
         </div>
       </div>
 
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { Lock, AlertCircle } from 'lucide-react';
+import { useSessionStore } from '../../stores/useSessionStore';
+import { useUserStore } from '../../stores/useUserStore';
+
+const ReauthDialog: React.FC = () => {
+  const { reauthReason, completeReauth, cancelReauth } = useSessionStore();
+  const { currentUser, verifyPin } = useUserStore();
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [verifying, setVerifying] = useState(false);
+
+  if (!reauthReason || !currentUser) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setVerifying(true);
+    try {
+      await verifyPin(pin);
+      setPin('');
+      completeReauth(pin);
+    } catch (err) {
+      setPin('');
+      setError(err instanceof Error ? err.message : 'Verification failed');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const handleCancel = () => {
+    setPin('');
+    setError(null);
+    cancelReauth();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-lg max-w-md w-full p-6">
+        <div className="flex items-center space-x-3 mb-4">
+          <div className="p-2 bg-indigo-100 rounded-lg">
+            <Lock className="h-6 w-6 text-indigo-600" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Confirm your identity</h2>
+            <p className="text-sm text-gray-600">{currentUser.name} ({currentUser.medical_code})</p>
+          </div>
+        </div>
+
+        <p className="text-gray-600 mb-4">{reauthReason}</p>
+
+        <input
+          type="password"
+          autoComplete="current-password"
+          value={pin}
+          onChange={(e) => {
+            setPin(e.target.value);
+            setError(null);
+          }}
+          placeholder="Enter your PIN"
+          className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+          autoFocus
+          required
+          disabled={verifying}
+        />
+        {error && (
+          <div className="mt-2 flex items-center space-x-2 text-sm text-red-600">
+            <AlertCircle className="h-4 w-4" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <button
+            type="button"
+            onClick={handleCancel}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={verifying || !pin}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {verifying ? 'Verifying...' : 'Confirm'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ReauthDialog;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { Clock } from 'lucide-react';
+
+interface SessionTimeoutDialogProps {
+  remainingSeconds: number;
+  onStaySignedIn: () => void;
+  onLogout: () => void;
+}
+
+const SessionTimeoutDialog: React.FC<SessionTimeoutDialogProps> = ({
+  remainingSeconds,
+  onStaySignedIn,
+  onLogout
+}) => {
+  const minutes = Math.floor(remainingSeconds / 60);
+  const seconds = remainingSeconds % 60;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-lg max-w-md w-full p-6">
+        <div className="flex items-center space-x-3 mb-4">
+          <div className="p-2 bg-yellow-100 rounded-lg">
+            <Clock className="h-6 w-6 text-yellow-600" />
+          </div>
+          <h2 className="text-lg font-semibold text-gray-900">Session about to expire</h2>
+        </div>
+
+        <p className="text-gray-600 mb-2">
+          You have been inactive for a while. For patient privacy you will be signed out in
+        </p>
+        <p className="text-3xl font-bold text-yellow-600 text-center my-4">
+          {minutes}:{seconds.toString().padStart(2, '0')}
+        </p>
+
+        <div className="flex justify-end space-x-3">
+          <button
+            onClick={onLogout}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+          >
+            Sign Out
+          </button>
+          <button
+            onClick={onStaySignedIn}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700"
+          >
+            Stay Signed In
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionTimeoutDialog;
@@ -0,0 +1,86 @@
+import React from 'react';
+import { Clock } from 'lucide-react';
+import { SHIFT_LABELS, WEEKDAY_SHIFTS, WEEKEND_SHIFTS } from '../../config/shifts';
+import { formatShiftWindow } from '../../utils/shiftCalculator';
+import type { ShiftAssignment, ShiftOverride, ShiftSchedule } from '../../types/settings';
+
+interface ShiftFieldProps {
+  derived: ShiftAssignment;
+  schedule: ShiftSchedule;
+  override: ShiftOverride | null;
+  onOverrideChange: (override: ShiftOverride | null) => void;
+  reasonError?: string;
+}
+
+const ShiftField: React.FC<ShiftFieldProps> = ({
+  derived,
+  schedule,
+  override,
+  onOverrideChange,
+  reasonError
+}) => {
+  return (
+    <div>
+      <label htmlFor="shiftType" className="block text-sm font-medium text-gray-700 mb-1">
+        Shift
+      </label>
+      {override ? (
+        <div className="relative">
+          <Clock className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+          <select
+            id="shiftType"
+            value={override.shiftType}
+            onChange={(e) => onOverrideChange({ ...override, shiftType: e.target.value as ShiftOverride['shiftType'] })}
+            className="w-full pl-10 pr-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+          >
+            {[...WEEKDAY_SHIFTS, ...WEEKEND_SHIFTS].map(shift => (
+              <option key={shift} value={shift}>{formatShiftWindow(shift, schedule)}</option>
+            ))}
+          </select>
+        </div>
+      ) : (
+        <div className="flex items-center justify-between px-4 py-2 rounded-lg border border-gray-200 bg-gray-50">
+          <div className="flex items-center space-x-2 text-gray-900">
+            <Clock className="h-5 w-5 text-gray-400" />
+            <span>{formatShiftWindow(derived.shiftType, schedule)}</span>
+          </div>
+          {derived.isWeekend && (
+            <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-yellow-100 text-yellow-800">
+              Weekend
+            </span>
+          )}
+        </div>
+      )}
+
+      <label className="flex items-center space-x-2 mt-2">
+        <input
+          type="checkbox"
+          checked={override !== null}
+          onChange={(e) => onOverrideChange(e.target.checked ? { shiftType: derived.shiftType, reason: '' } : null)}
+          className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+        />
+        <span className="text-sm text-gray-700">Override the detected shift</span>
+      </label>
+
+      {override && (
+        <div className="mt-2">
+          <textarea
+            id="shiftOverrideReason"
+            rows={2}
+            value={override.reason}
+            onChange={(e) => onOverrideChange({ ...override, reason: e.target.value })}
+            placeholder={`Why is this not a ${SHIFT_LABELS[derived.shiftType].toLowerCase()} shift?`}
+            className={`w-full px-4 py-2 rounded-lg border ${
+              reasonError ? 'border-red-300' : 'border-gray-300'
+            } focus:ring-2 focus:ring-indigo-600 focus:border-transparent`}
+          />
+          {reasonError && (
+            <p className="mt-1 text-sm text-red-600">{reasonError}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ShiftField;
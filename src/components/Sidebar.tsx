@@ -10,10 +10,13 @@ import {
   Layout,
   UserCog,
   Calendar,
+  BedDouble,
   X
 } from 'lucide-react';
 import Logo from './Logo';
 import { useUserStore } from '../stores/useUserStore';
+import { usePermissions } from '../hooks/usePermissions';
+import { PAGE_PERMISSIONS } from '../config/permissions';
 import type { Page } from '../types/navigation';
 
 interface SidebarProps {
@@ -32,9 +35,9 @@ const Sidebar: React.FC<SidebarProps> = ({
   setIsMobileMenuOpen
 }) => {
   const { currentUser } = useUserStore();
-  const isAdmin = currentUser?.role === 'administrator';
+  const { can } = usePermissions();
 
-  const menuGroups = [
+  const allMenuGroups = [
     {
       title: 'Overview',
       items: [
@@ -47,6 +50,7 @@ const Sidebar: React.FC<SidebarProps> = ({
       items: [
         { icon: UserPlus, label: 'New Admission', id: 'admission' },
         { icon: Users, label: 'Patient Profile', id: 'patient' },
+        { icon: BedDouble, label: 'Bed Board', id: 'beds' },
         { icon: UserMinus, label: 'Discharge', id: 'discharge' }
       ]
     },
@@ -61,11 +65,21 @@ const Sidebar: React.FC<SidebarProps> = ({
       title: 'Administration',
       items: [
         { icon: ClipboardList, label: 'Reports', id: 'reports' },
-        ...(isAdmin ? [{ icon: UserCog, label: 'Employee Management', id: 'employees' }] : [])
+        { icon: UserCog, label: 'System Administration', id: 'employees' }
       ]
     }
   ];
 
+  const menuGroups = allMenuGroups
+    .map(group => ({
+      ...group,
+      items: group.items.filter(item => {
+        const permission = PAGE_PERMISSIONS[item.id as Page];
+        return !permission || can(permission);
+      })
+    }))
+    .filter(group => group.items.length > 0);
+
   const handleNavigate = (page: Page) => {
     onNavigate(page);
     setIsMobileMenuOpen(false);
@@ -0,0 +1,114 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { useSmartPhraseStore } from '../../stores/useSmartPhraseStore';
+import { PHRASE_PREFIX } from '../../config/smartPhrases';
+import { expandPhrase, findShortcutBeforeCaret, resolvePhrases } from '../../utils/smartPhrases';
+import type { PhraseContext, SmartPhrase } from '../../types/smartPhrase';
+
+type SmartTextareaProps = Omit<React.TextareaHTMLAttributes<HTMLTextAreaElement>, 'value' | 'onChange'> & {
+  value: string;
+  onValueChange: (value: string) => void;
+  // Patient details used to fill the placeholders of an expanded phrase
+  context: PhraseContext;
+};
+
+const EXPAND_KEYS = [' ', 'Enter', 'Tab'];
+const MAX_SUGGESTIONS = 5;
+
+// A textarea in which a smart phrase shortcut such as ".normalexam" expands
+// into its text when followed by space, Tab or Enter, or when picked from the
+// suggestions shown while it is being typed
+const SmartTextarea: React.FC<SmartTextareaProps> = ({ value, onValueChange, context, onKeyDown, ...props }) => {
+  const { phrases, loaded, fetchPhrases } = useSmartPhraseStore();
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const pendingCaret = useRef<number | null>(null);
+  const [caret, setCaret] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!loaded) {
+      fetchPhrases();
+    }
+  }, [loaded, fetchPhrases]);
+
+  // Puts the caret after the inserted text once the new value has rendered
+  useLayoutEffect(() => {
+    if (pendingCaret.current !== null && textareaRef.current) {
+      textareaRef.current.setSelectionRange(pendingCaret.current, pendingCaret.current);
+      setCaret(pendingCaret.current);
+      pendingCaret.current = null;
+    }
+  }, [value]);
+
+  const resolved = useMemo(() => resolvePhrases(phrases), [phrases]);
+
+  const typed = caret !== null ? findShortcutBeforeCaret(value, caret) : null;
+  const suggestions = typed
+    ? [...resolved.values()]
+      .filter(phrase => phrase.shortcut.startsWith(typed.shortcut))
+      .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const insertPhrase = (phrase: SmartPhrase, start: number, end: number) => {
+    const expanded = expandPhrase(phrase.body, context);
+    pendingCaret.current = start + expanded.length;
+    onValueChange(value.slice(0, start) + expanded + value.slice(end));
+  };
+
+  const trackCaret = (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+    const { selectionStart, selectionEnd } = e.currentTarget;
+    setCaret(selectionStart === selectionEnd ? selectionStart : null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    onKeyDown?.(e);
+    if (e.defaultPrevented || !EXPAND_KEYS.includes(e.key) || e.shiftKey || e.ctrlKey || e.altKey || e.metaKey) return;
+
+    const { selectionStart, selectionEnd } = e.currentTarget;
+    if (selectionStart !== selectionEnd) return;
+
+    const match = findShortcutBeforeCaret(value, selectionStart);
+    const phrase = match && resolved.get(match.shortcut);
+    if (!match || !phrase) return;
+
+    e.preventDefault();
+    insertPhrase(phrase, match.start, selectionStart);
+  };
+
+  return (
+    <>
+      <textarea
+        {...props}
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          onValueChange(e.target.value);
+          trackCaret(e);
+        }}
+        onSelect={trackCaret}
+        onBlur={(e) => {
+          setCaret(null);
+          props.onBlur?.(e);
+        }}
+        onKeyDown={handleKeyDown}
+      />
+      {typed && caret !== null && suggestions.length > 0 && (
+        <div className="mt-1 border border-gray-200 rounded-lg bg-white shadow-sm divide-y divide-gray-100">
+          {suggestions.map(phrase => (
+            <button
+              key={phrase.id}
+              type="button"
+              // Keeps focus in the textarea so the caret position is not lost
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => insertPhrase(phrase, typed.start, caret)}
+              className="w-full px-3 py-1.5 text-left text-sm hover:bg-indigo-50"
+            >
+              <span className="font-mono text-indigo-600">{PHRASE_PREFIX}{phrase.shortcut}</span>
+              <span className="ml-2 text-gray-600">{phrase.title}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default SmartTextarea;
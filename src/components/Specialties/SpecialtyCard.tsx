@@ -29,10 +29,6 @@ const SpecialtyCard: React.FC<SpecialtyCardProps> = ({
   };
 
   const handleConsultationClick = (consultation: Consultation) => {
-    const admissionDate = new Date(consultation.created_at);
-    const dayOfWeek = admissionDate.getDay();
-    const isWeekend = dayOfWeek === 5 || dayOfWeek === 6; // Friday or Saturday
-
     const admission = {
       id: consultation.id,
       patient_id: consultation.patient_id,
@@ -43,8 +39,8 @@ const SpecialtyCard: React.FC<SpecialtyCardProps> = ({
       discharge_date: null,
       diagnosis: consultation.reason,
       visit_number: 1,
-      shift_type: isWeekend ? 'weekend_morning' as const : 'morning' as const,
-      is_weekend: isWeekend,
+      shift_type: consultation.shift_type,
+      is_weekend: consultation.is_weekend ?? false,
       users: consultation.doctor_name ? { name: consultation.doctor_name } : undefined
     };
 
@@ -1,58 +1,50 @@
-import React from 'react';
-import { User, Calendar, Stethoscope } from 'lucide-react';
+import React, { useEffect } from 'react';
+import { User, Calendar, Stethoscope, Users, ArrowRightLeft } from 'lucide-react';
 import { usePatientStore } from '../../stores/usePatientStore';
 import { useConsultationStore } from '../../stores/useConsultationStore';
+import { useVitalsStore } from '../../stores/useVitalsStore';
+import News2Badge from '../Vitals/News2Badge';
+import { consultationToPatient } from '../../utils/consultationPatient';
 import type { Patient } from '../../types/patient';
 import type { Consultation } from '../../types/consultation';
 
 interface SpecialtyPatientListProps {
+  specialty: string;
   onNavigateToPatient: () => void;
 }
 
-const SpecialtyPatientList: React.FC<SpecialtyPatientListProps> = ({ onNavigateToPatient }) => {
+const SpecialtyPatientList: React.FC<SpecialtyPatientListProps> = ({ specialty, onNavigateToPatient }) => {
+  const { patients, setSelectedPatient } = usePatientStore();
   const { consultations } = useConsultationStore();
-  const { setSelectedPatient } = usePatientStore();
+  const { latestVitals, fetchLatestVitals } = useVitalsStore();
 
-  const handlePatientClick = (consultation: Consultation) => {
-    const admissionDate = new Date(consultation.created_at);
-    const dayOfWeek = admissionDate.getDay();
-    const isWeekend = dayOfWeek === 5 || dayOfWeek === 6; // Friday or Saturday
+  useEffect(() => {
+    fetchLatestVitals();
+  }, [fetchLatestVitals]);
 
-    const admission = {
-      id: consultation.id,
-      patient_id: consultation.patient_id,
-      admitting_doctor_id: consultation.doctor_id || 0,
-      status: 'active' as const,
-      department: consultation.consultation_specialty,
-      admission_date: consultation.created_at,
-      discharge_date: null,
-      diagnosis: consultation.reason,
-      visit_number: 1,
-      shift_type: isWeekend ? 'weekend_morning' as const : 'morning' as const,
-      is_weekend: isWeekend,
-      admitting_doctor: consultation.doctor_name ? {
-        id: consultation.doctor_id || 0,
-        name: consultation.doctor_name,
-        medical_code: '',
-        role: 'doctor' as const,
-        department: consultation.consultation_specialty
-      } : undefined
-    };
+  // Patients are listed under the department of their active admission, which
+  // follows them when they are transferred
+  const inpatients = patients
+    .map(patient => ({
+      patient,
+      admission: patient.admissions?.find(a => a.status === 'active' && a.department === specialty)
+    }))
+    .filter(({ admission }) => admission !== undefined);
 
-    const patientData: Patient = {
-      id: consultation.id,
-      mrn: consultation.mrn,
-      name: consultation.patient_name,
-      gender: consultation.gender,
-      date_of_birth: new Date(new Date().getFullYear() - consultation.age, 0, 1).toISOString(),
-      department: consultation.consultation_specialty,
-      doctor_name: consultation.doctor_name,
-      diagnosis: consultation.reason,
-      admission_date: consultation.created_at,
-      admissions: [admission]
-    };
+  const latestByAdmission = new Map(latestVitals.map(set => [set.admission_id, set]));
 
-    setSelectedPatient(patientData);
+  const specialtyConsultations = consultations.filter(consultation =>
+    consultation.consultation_specialty === specialty &&
+    consultation.status === 'active'
+  );
+
+  const handlePatientClick = (patient: Patient) => {
+    setSelectedPatient(patient);
+    onNavigateToPatient();
+  };
+
+  const handleConsultationClick = (consultation: Consultation) => {
+    setSelectedPatient(consultationToPatient(consultation));
     onNavigateToPatient();
   };
 
@@ -63,11 +55,55 @@ const SpecialtyPatientList: React.FC<SpecialtyPatientListProps> = ({ onNavigateT
       </div>
 
       <div className="divide-y divide-gray-200">
-        {consultations.map((consultation) => (
+        {inpatients.map(({ patient, admission }) => (
           <div
-            key={consultation.id}
+            key={`admission-${admission!.id}`}
             className="p-6 hover:bg-gray-50 transition-colors cursor-pointer"
-            onClick={() => handlePatientClick(consultation)}
+            onClick={() => handlePatientClick(patient)}
+          >
+            <div className="flex items-start justify-between">
+              <div className="flex items-start space-x-4">
+                <div className="p-2 bg-indigo-50 rounded-lg">
+                  <Users className="h-6 w-6 text-indigo-600" />
+                </div>
+                <div>
+                  <h3 className="text-lg font-medium text-gray-900">{patient.name}</h3>
+                  <p className="text-sm text-gray-600">MRN: {patient.mrn}</p>
+                  <div className="flex items-center space-x-4 mt-2">
+                    <div className="flex items-center text-sm text-gray-500">
+                      <Calendar className="h-4 w-4 mr-1" />
+                      {new Date(admission!.admission_date).toLocaleDateString()}
+                    </div>
+                    <div className="flex items-center text-sm text-gray-500">
+                      <User className="h-4 w-4 mr-1" />
+                      {admission!.admitting_doctor?.name || 'No doctor assigned'}
+                    </div>
+                  </div>
+                </div>
+              </div>
+              <div className="flex flex-col items-end space-y-2">
+                <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                  Inpatient
+                </span>
+                {latestByAdmission.has(admission!.id) && (
+                  <News2Badge vitals={latestByAdmission.get(admission!.id)!} />
+                )}
+                {admission!.transferred_from_id && (
+                  <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                    <ArrowRightLeft className="h-3 w-3 mr-1" />
+                    Transferred in
+                  </span>
+                )}
+              </div>
+            </div>
+          </div>
+        ))}
+
+        {specialtyConsultations.map((consultation) => (
+          <div
+            key={`consultation-${consultation.id}`}
+            className="p-6 hover:bg-gray-50 transition-colors cursor-pointer"
+            onClick={() => handleConsultationClick(consultation)}
           >
             <div className="flex items-start justify-between">
               <div className="flex items-start space-x-4">
@@ -106,9 +142,15 @@ const SpecialtyPatientList: React.FC<SpecialtyPatientListProps> = ({ onNavigateT
             </div>
           </div>
         ))}
+
+        {inpatients.length === 0 && specialtyConsultations.length === 0 && (
+          <div className="p-6 text-center text-gray-500">
+            No active patients or consultations
+          </div>
+        )}
       </div>
     </div>
   );
 };
 
-export default SpecialtyPatientList;
\ No newline at end of file
+export default SpecialtyPatientList;
@@ -2,7 +2,7 @@ import React from 'react';
 import { Users, Stethoscope, Shield, Clock } from 'lucide-react';
 import { usePatientStore } from '../stores/usePatientStore';
 import { useConsultationStore } from '../stores/useConsultationStore';
-import { isLongStay } from '../utils/stayCalculator';
+import { getStayStartDate, isLongStay } from '../utils/stayCalculator';
 import type { Patient } from '../types/patient';
 import type { Consultation } from '../types/consultation';
 import type { Admission } from '../types/admission';
@@ -70,7 +70,7 @@ const SpecialtiesGrid: React.FC = () => {
         a.department === specialty && 
         a.status === 'active'
       );
-      return admission && isLongStay(admission.admission_date);
+      return admission && isLongStay(getStayStartDate(admission, patient.admissions));
     }).length;
   };
 
@@ -140,7 +140,10 @@ const SpecialtiesGrid: React.FC = () => {
               {activePatients.length > 0 && (
                 <div className="mt-4 space-y-3">
                   {activePatients.slice(0, 3).map((patient) => {
-                    const admission = patient.admissions?.[0] as Admission | undefined;
+                    // The active admission is the one in the patient's current department
+                    const admission = patient.admissions?.find(a =>
+                      a.department === specialty.name && a.status === 'active'
+                    ) as Admission | undefined;
                     return (
                       <div key={patient.id} className="text-sm">
                         <div className="font-medium text-gray-900">{patient.name}</div>
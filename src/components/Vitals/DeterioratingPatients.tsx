@@ -0,0 +1,49 @@
+import React from 'react';
+import { Activity } from 'lucide-react';
+import { calculateNews2 } from '../../utils/news2';
+import { formatDateTime } from '../../utils/dateFormat';
+import News2Badge from './News2Badge';
+import type { AdmissionVitals } from '../../types/vitals';
+
+interface DeterioratingPatientsProps {
+  vitals: AdmissionVitals[];
+  onOpenPatient: (patientId: number) => void;
+}
+
+const DeterioratingPatients: React.FC<DeterioratingPatientsProps> = ({ vitals, onOpenPatient }) => {
+  // Patients whose latest set triggers an escalation, highest score first
+  const deteriorating = vitals
+    .map(set => ({ set, news2: calculateNews2(set) }))
+    .filter(({ news2 }) => news2.escalate)
+    .sort((a, b) => b.news2.score - a.news2.score ||
+      new Date(b.set.recorded_at).getTime() - new Date(a.set.recorded_at).getTime());
+
+  return (
+    <div className="mb-6 bg-white rounded-xl shadow-sm border border-red-200 p-6">
+      <div className="flex items-center space-x-2 mb-4">
+        <Activity className="h-5 w-5 text-red-600" />
+        <h2 className="text-lg font-semibold text-gray-900">Deteriorating Patients</h2>
+      </div>
+
+      {deteriorating.length === 0 ? (
+        <p className="text-sm text-gray-500">No patients currently meet a NEWS2 escalation threshold</p>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {deteriorating.map(({ set }) => (
+            <div key={set.admission_id} className="flex items-center justify-between py-3">
+              <button onClick={() => onOpenPatient(set.patient_id)} className="text-left">
+                <p className="text-sm font-medium text-gray-900 hover:text-indigo-600">{set.patient_name}</p>
+                <p className="text-xs text-gray-500">
+                  MRN: {set.mrn} · {set.department} · Observed {formatDateTime(set.recorded_at)}
+                </p>
+              </button>
+              <News2Badge vitals={set} showRisk />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DeterioratingPatients;
@@ -0,0 +1,30 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { calculateNews2 } from '../../utils/news2';
+import { NEWS2_RISK_LABELS, NEWS2_RISK_STYLES } from '../../config/vitals';
+import type { VitalSignsInput } from '../../types/vitals';
+
+interface News2BadgeProps {
+  vitals: VitalSignsInput;
+  showRisk?: boolean;
+}
+
+const News2Badge: React.FC<News2BadgeProps> = ({ vitals, showRisk = false }) => {
+  const news2 = calculateNews2(vitals);
+  const title = news2.complete
+    ? NEWS2_RISK_LABELS[news2.risk]
+    : `${NEWS2_RISK_LABELS[news2.risk]} — incomplete set, score may under-read`;
+
+  return (
+    <span
+      title={title}
+      className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${NEWS2_RISK_STYLES[news2.risk]}`}
+    >
+      {news2.escalate && <AlertTriangle className="h-3 w-3 mr-1" />}
+      NEWS2 {news2.score}{!news2.complete && '*'}
+      {showRisk && <span className="ml-1 font-normal">· {NEWS2_RISK_LABELS[news2.risk]}</span>}
+    </span>
+  );
+};
+
+export default News2Badge;
@@ -0,0 +1,246 @@
+import React, { useState } from 'react';
+import { X, Calendar } from 'lucide-react';
+import { useVitalsStore } from '../../stores/useVitalsStore';
+import { useSettingsStore } from '../../stores/useSettingsStore';
+import { VITAL_RANGES, OXYGEN_DEVICE_LABELS, CONSCIOUSNESS_LABELS } from '../../config/vitals';
+import { getVitalFlag, validateVitals } from '../../utils/vitalFlags';
+import { fromHospitalInput, toHospitalInput } from '../../utils/hospitalTime';
+import type { ConsciousnessLevel, OxygenDevice, VitalMeasure, VitalSignsInput } from '../../types/vitals';
+
+interface VitalsEntryFormProps {
+  patientId: number;
+  patientName: string;
+  admissionId: number | null;
+  onClose: () => void;
+}
+
+type FormData = Record<VitalMeasure | 'o2_flow_rate', string> & {
+  // datetime-local value in hospital time
+  recorded_at: string;
+  o2_device: OxygenDevice;
+  consciousness: ConsciousnessLevel;
+};
+
+type FormErrors = Partial<Record<keyof VitalSignsInput | 'general', string>>;
+
+const toNumber = (value: string): number | null => value.trim() === '' ? null : Number(value);
+
+const VitalsEntryForm: React.FC<VitalsEntryFormProps> = ({ patientId, patientName, admissionId, onClose }) => {
+  const { recordVitals } = useVitalsStore();
+  const { timeZone } = useSettingsStore();
+  const [formData, setFormData] = useState<FormData>(() => ({
+    recorded_at: toHospitalInput(new Date(), timeZone),
+    heart_rate: '',
+    systolic_bp: '',
+    diastolic_bp: '',
+    respiratory_rate: '',
+    temperature: '',
+    spo2: '',
+    o2_device: 'room_air',
+    o2_flow_rate: '',
+    consciousness: 'alert'
+  }));
+  const [formErrors, setFormErrors] = useState<FormErrors>({});
+  const [submitting, setSubmitting] = useState(false);
+
+  const toInput = (): VitalSignsInput => ({
+    recorded_at: formData.recorded_at ? fromHospitalInput(formData.recorded_at, timeZone) : '',
+    heart_rate: toNumber(formData.heart_rate),
+    systolic_bp: toNumber(formData.systolic_bp),
+    diastolic_bp: toNumber(formData.diastolic_bp),
+    respiratory_rate: toNumber(formData.respiratory_rate),
+    temperature: toNumber(formData.temperature),
+    spo2: toNumber(formData.spo2),
+    o2_device: formData.o2_device,
+    o2_flow_rate: formData.o2_device === 'room_air' ? null : toNumber(formData.o2_flow_rate),
+    consciousness: formData.consciousness
+  });
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+    setFormErrors(prev => ({ ...prev, [name]: undefined, general: undefined }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const input = toInput();
+    const errors = validateVitals(input);
+    setFormErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+
+    setSubmitting(true);
+    try {
+      await recordVitals(patientId, admissionId, input);
+      onClose();
+    } catch (err) {
+      setFormErrors({ general: err instanceof Error ? err.message : 'Failed to record vital signs' });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderMeasure = (measure: VitalMeasure) => {
+    const range = VITAL_RANGES[measure];
+    const flag = getVitalFlag(measure, toNumber(formData[measure]));
+
+    return (
+      <div key={measure}>
+        <label htmlFor={measure} className="block text-sm font-medium text-gray-700 mb-1">
+          {range.label} <span className="text-gray-500 font-normal">({range.unit})</span>
+        </label>
+        <input
+          type="number"
+          id={measure}
+          name={measure}
+          value={formData[measure]}
+          onChange={handleChange}
+          min={range.min}
+          max={range.max}
+          step={range.step}
+          className={`w-full px-4 py-2 rounded-lg border ${
+            formErrors[measure] ? 'border-red-300' : flag ? 'border-yellow-400 bg-yellow-50' : 'border-gray-300'
+          } focus:ring-2 focus:ring-indigo-600 focus:border-transparent`}
+        />
+        {formErrors[measure] ? (
+          <p className="mt-1 text-sm text-red-600">{formErrors[measure]}</p>
+        ) : flag && (
+          <p className="mt-1 text-xs text-yellow-700">
+            {flag === 'high' ? 'Above' : 'Below'} normal range ({range.low}–{range.high})
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-xl max-w-2xl w-full p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Record Vital Signs</h2>
+            <p className="text-sm text-gray-500">{patientName}</p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 rounded-lg"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {formErrors.general && (
+          <div className="mb-4 p-4 bg-red-50 text-red-700 rounded-lg">
+            {formErrors.general}
+          </div>
+        )}
+
+        <div className="mb-4">
+          <label htmlFor="recorded_at" className="block text-sm font-medium text-gray-700 mb-1">
+            Observation Time
+          </label>
+          <div className="relative">
+            <Calendar className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+            <input
+              type="datetime-local"
+              id="recorded_at"
+              name="recorded_at"
+              value={formData.recorded_at}
+              onChange={handleChange}
+              className={`w-full pl-10 pr-4 py-2 rounded-lg border ${
+                formErrors.recorded_at ? 'border-red-300' : 'border-gray-300'
+              } focus:ring-2 focus:ring-indigo-600 focus:border-transparent`}
+            />
+          </div>
+          {formErrors.recorded_at && (
+            <p className="mt-1 text-sm text-red-600">{formErrors.recorded_at}</p>
+          )}
+          <p className="mt-1 text-xs text-gray-500">Hospital time ({timeZone})</p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {(['heart_rate', 'systolic_bp', 'diastolic_bp', 'respiratory_rate', 'temperature', 'spo2'] as VitalMeasure[])
+            .map(renderMeasure)}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+          <div>
+            <label htmlFor="o2_device" className="block text-sm font-medium text-gray-700 mb-1">
+              Oxygen
+            </label>
+            <select
+              id="o2_device"
+              name="o2_device"
+              value={formData.o2_device}
+              onChange={handleChange}
+              className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+            >
+              {(Object.keys(OXYGEN_DEVICE_LABELS) as OxygenDevice[]).map(device => (
+                <option key={device} value={device}>{OXYGEN_DEVICE_LABELS[device]}</option>
+              ))}
+            </select>
+          </div>
+
+          {formData.o2_device !== 'room_air' && (
+            <div>
+              <label htmlFor="o2_flow_rate" className="block text-sm font-medium text-gray-700 mb-1">
+                Flow Rate <span className="text-gray-500 font-normal">(L/min)</span>
+              </label>
+              <input
+                type="number"
+                id="o2_flow_rate"
+                name="o2_flow_rate"
+                value={formData.o2_flow_rate}
+                onChange={handleChange}
+                min={0}
+                max={80}
+                step={0.5}
+                className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+              />
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="consciousness" className="block text-sm font-medium text-gray-700 mb-1">
+              Consciousness
+            </label>
+            <select
+              id="consciousness"
+              name="consciousness"
+              value={formData.consciousness}
+              onChange={handleChange}
+              className={`w-full px-4 py-2 rounded-lg border ${
+                formData.consciousness !== 'alert' ? 'border-yellow-400 bg-yellow-50' : 'border-gray-300'
+              } focus:ring-2 focus:ring-indigo-600 focus:border-transparent`}
+            >
+              {(Object.keys(CONSCIOUSNESS_LABELS) as ConsciousnessLevel[]).map(level => (
+                <option key={level} value={level}>{CONSCIOUSNESS_LABELS[level]}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-4 mt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={submitting}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {submitting ? 'Saving...' : 'Save Observations'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default VitalsEntryForm;
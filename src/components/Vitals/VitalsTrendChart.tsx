@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ReferenceArea, ResponsiveContainer } from 'recharts';
+import { VITAL_RANGES } from '../../config/vitals';
+import { getVitalFlag } from '../../utils/vitalFlags';
+import { formatDateTime } from '../../utils/dateFormat';
+import type { VitalMeasure, VitalSigns } from '../../types/vitals';
+
+interface VitalsTrendChartProps {
+  vitals: VitalSigns[];
+}
+
+type TrendView = 'heart_rate' | 'blood_pressure' | 'respiratory_rate' | 'temperature' | 'spo2';
+
+const TREND_VIEWS: Array<{ id: TrendView; label: string; lines: Array<{ measure: VitalMeasure; color: string }> }> = [
+  { id: 'heart_rate', label: 'Heart Rate', lines: [{ measure: 'heart_rate', color: '#4f46e5' }] },
+  {
+    id: 'blood_pressure',
+    label: 'Blood Pressure',
+    lines: [
+      { measure: 'systolic_bp', color: '#10b981' },
+      { measure: 'diastolic_bp', color: '#06b6d4' }
+    ]
+  },
+  { id: 'respiratory_rate', label: 'Respiratory Rate', lines: [{ measure: 'respiratory_rate', color: '#8b5cf6' }] },
+  { id: 'temperature', label: 'Temperature', lines: [{ measure: 'temperature', color: '#ef4444' }] },
+  { id: 'spo2', label: 'SpO₂', lines: [{ measure: 'spo2', color: '#3b82f6' }] }
+];
+
+// Out-of-range points are drawn larger and in red
+const renderDot = (measure: VitalMeasure, color: string) => (props: any) => {
+  const { cx, cy, value, index } = props;
+  if (cx === undefined || cy === undefined || value === null) return <g key={index} />;
+
+  const flagged = getVitalFlag(measure, value) !== null;
+  return (
+    <circle
+      key={index}
+      cx={cx}
+      cy={cy}
+      r={flagged ? 5 : 3}
+      fill={flagged ? '#dc2626' : color}
+      stroke="white"
+      strokeWidth={1}
+    />
+  );
+};
+
+const VitalsTrendChart: React.FC<VitalsTrendChartProps> = ({ vitals }) => {
+  const [view, setView] = useState<TrendView>('heart_rate');
+  const selectedView = TREND_VIEWS.find(option => option.id === view)!;
+
+  const data = [...vitals]
+    .sort((a, b) => new Date(a.recorded_at).getTime() - new Date(b.recorded_at).getTime())
+    .map(set => ({ ...set, time: new Date(set.recorded_at).getTime() }));
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-2 mb-4">
+        {TREND_VIEWS.map(option => (
+          <button
+            key={option.id}
+            type="button"
+            onClick={() => setView(option.id)}
+            className={`px-3 py-1 text-sm rounded-lg ${
+              view === option.id
+                ? 'bg-indigo-600 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="h-[260px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data} margin={{ top: 10, right: 20, left: 0, bottom: 10 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              dataKey="time"
+              type="number"
+              scale="time"
+              domain={['dataMin', 'dataMax']}
+              tickFormatter={time => formatDateTime(new Date(time))}
+              tick={{ fontSize: 11 }}
+            />
+            <YAxis tick={{ fontSize: 12 }} domain={['auto', 'auto']} />
+            <Tooltip labelFormatter={time => formatDateTime(new Date(time as number))} />
+            <Legend />
+            {selectedView.lines.map(({ measure }) => (
+              <ReferenceArea
+                key={`range-${measure}`}
+                y1={VITAL_RANGES[measure].low}
+                y2={VITAL_RANGES[measure].high}
+                fill="#10b981"
+                fillOpacity={0.06}
+                ifOverflow="extendDomain"
+              />
+            ))}
+            {selectedView.lines.map(({ measure, color }) => (
+              <Line
+                key={measure}
+                type="monotone"
+                dataKey={measure}
+                name={`${VITAL_RANGES[measure].label} (${VITAL_RANGES[measure].unit})`}
+                stroke={color}
+                connectNulls
+                dot={renderDot(measure, color)}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default VitalsTrendChart;
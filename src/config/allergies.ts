@@ -0,0 +1,15 @@
+import type { AllergySeverity } from '../types/allergy';
+
+export const ALLERGY_SEVERITY_LABELS: Record<AllergySeverity, string> = {
+  mild: 'Mild',
+  moderate: 'Moderate',
+  severe: 'Severe',
+  anaphylaxis: 'Anaphylaxis'
+};
+
+export const ALLERGY_SEVERITY_STYLES: Record<AllergySeverity, string> = {
+  mild: 'bg-yellow-100 text-yellow-800',
+  moderate: 'bg-orange-100 text-orange-800',
+  severe: 'bg-red-100 text-red-800',
+  anaphylaxis: 'bg-red-600 text-white'
+};
@@ -0,0 +1,30 @@
+import type { AttachmentCategory } from '../types/attachment';
+
+export const ATTACHMENT_BUCKET = 'patient-attachments';
+
+// Signed URLs are requested when a file is shown and stop working after this
+export const ATTACHMENT_URL_TTL_SECONDS = 300;
+
+// Matches the bucket limits set in create_patient_attachments.sql
+export const MAX_ATTACHMENT_SIZE_BYTES = 20 * 1024 * 1024;
+export const ALLOWED_ATTACHMENT_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/webp'];
+
+export const ATTACHMENT_CATEGORY_LABELS: Record<AttachmentCategory, string> = {
+  outside_report: 'Outside report',
+  ecg: 'ECG',
+  imaging_report: 'Imaging report',
+  lab_report: 'Lab report',
+  consent: 'Consent form',
+  clinical_photo: 'Clinical photo',
+  other: 'Other'
+};
+
+export const ATTACHMENT_CATEGORY_STYLES: Record<AttachmentCategory, string> = {
+  outside_report: 'bg-blue-100 text-blue-800',
+  ecg: 'bg-red-100 text-red-800',
+  imaging_report: 'bg-purple-100 text-purple-800',
+  lab_report: 'bg-green-100 text-green-800',
+  consent: 'bg-yellow-100 text-yellow-800',
+  clinical_photo: 'bg-pink-100 text-pink-800',
+  other: 'bg-gray-100 text-gray-800'
+};
@@ -0,0 +1,141 @@
+import type { DrugClass, DrugInteraction, FormularyDrug, InteractionSeverity } from '../types/formulary';
+
+export const DRUG_CLASSES: DrugClass[] = [
+  { id: 'penicillins', label: 'Penicillins', allergyTerms: ['penicillin', 'penicillins'] },
+  { id: 'cephalosporins', label: 'Cephalosporins', allergyTerms: ['cephalosporin', 'cephalosporins'] },
+  { id: 'carbapenems', label: 'Carbapenems', allergyTerms: ['carbapenem', 'carbapenems'] },
+  { id: 'macrolides', label: 'Macrolides', allergyTerms: ['macrolide', 'macrolides'] },
+  { id: 'fluoroquinolones', label: 'Fluoroquinolones', allergyTerms: ['quinolone', 'quinolones', 'fluoroquinolone', 'fluoroquinolones'] },
+  { id: 'sulfonamides', label: 'Sulfonamides', allergyTerms: ['sulfa', 'sulpha', 'sulfonamide', 'sulfonamides', 'sulphonamide', 'sulphonamides'] },
+  { id: 'aminoglycosides', label: 'Aminoglycosides', allergyTerms: ['aminoglycoside', 'aminoglycosides'] },
+  { id: 'nsaids', label: 'NSAIDs', allergyTerms: ['nsaid', 'nsaids'] },
+  { id: 'opioids', label: 'Opioids', allergyTerms: ['opioid', 'opioids', 'opiate', 'opiates'] },
+  { id: 'benzodiazepines', label: 'Benzodiazepines', allergyTerms: ['benzodiazepine', 'benzodiazepines'] },
+  { id: 'ace_inhibitors', label: 'ACE inhibitors', allergyTerms: ['ace inhibitor', 'ace inhibitors'] },
+  { id: 'arbs', label: 'Angiotensin receptor blockers', allergyTerms: ['arb', 'arbs'] },
+  { id: 'potassium_sparing', label: 'Potassium-sparing diuretics', allergyTerms: [] },
+  { id: 'loop_diuretics', label: 'Loop diuretics', allergyTerms: [] },
+  { id: 'anticoagulants', label: 'Anticoagulants', allergyTerms: [] },
+  { id: 'antiplatelets', label: 'Antiplatelets', allergyTerms: [] },
+  { id: 'statins', label: 'Statins', allergyTerms: ['statin', 'statins'] },
+  { id: 'ssris', label: 'SSRIs', allergyTerms: ['ssri', 'ssris'] },
+  { id: 'nitrates', label: 'Nitrates', allergyTerms: ['nitrate', 'nitrates'] },
+  { id: 'pde5_inhibitors', label: 'PDE5 inhibitors', allergyTerms: [] },
+  { id: 'ppis', label: 'Proton pump inhibitors', allergyTerms: ['ppi', 'ppis'] }
+];
+
+// A drug allergy to the first class warns on drugs from the second
+export const CROSS_SENSITIVITIES: Array<[string, string]> = [
+  ['penicillins', 'cephalosporins'],
+  ['penicillins', 'carbapenems'],
+  ['cephalosporins', 'penicillins']
+];
+
+// Drugs stocked by the hospital pharmacy. Extend this table when the
+// formulary changes so prescriptions keep being checked.
+export const FORMULARY: FormularyDrug[] = [
+  { name: 'Amoxicillin', classes: ['penicillins'] },
+  { name: 'Co-amoxiclav', aliases: ['Amoxicillin-clavulanate', 'Augmentin'], classes: ['penicillins'] },
+  { name: 'Flucloxacillin', classes: ['penicillins'] },
+  { name: 'Benzylpenicillin', aliases: ['Penicillin G'], classes: ['penicillins'] },
+  { name: 'Phenoxymethylpenicillin', aliases: ['Penicillin V'], classes: ['penicillins'] },
+  { name: 'Piperacillin-tazobactam', aliases: ['Tazocin'], classes: ['penicillins'] },
+  { name: 'Cefalexin', aliases: ['Cephalexin'], classes: ['cephalosporins'] },
+  { name: 'Cefuroxime', classes: ['cephalosporins'] },
+  { name: 'Ceftriaxone', classes: ['cephalosporins'] },
+  { name: 'Meropenem', classes: ['carbapenems'] },
+  { name: 'Clarithromycin', classes: ['macrolides'] },
+  { name: 'Erythromycin', classes: ['macrolides'] },
+  { name: 'Ciprofloxacin', classes: ['fluoroquinolones'] },
+  { name: 'Levofloxacin', classes: ['fluoroquinolones'] },
+  { name: 'Co-trimoxazole', aliases: ['Trimethoprim-sulfamethoxazole'], classes: ['sulfonamides'] },
+  { name: 'Trimethoprim', classes: [] },
+  { name: 'Gentamicin', classes: ['aminoglycosides'] },
+  { name: 'Metronidazole', classes: [] },
+  { name: 'Ibuprofen', classes: ['nsaids'] },
+  { name: 'Naproxen', classes: ['nsaids'] },
+  { name: 'Diclofenac', classes: ['nsaids'] },
+  { name: 'Aspirin', classes: ['nsaids', 'antiplatelets'] },
+  { name: 'Paracetamol', aliases: ['Acetaminophen'], classes: [] },
+  { name: 'Morphine', classes: ['opioids'] },
+  { name: 'Oxycodone', classes: ['opioids'] },
+  { name: 'Codeine', classes: ['opioids'] },
+  { name: 'Tramadol', classes: ['opioids'] },
+  { name: 'Diazepam', classes: ['benzodiazepines'] },
+  { name: 'Lorazepam', classes: ['benzodiazepines'] },
+  { name: 'Ramipril', classes: ['ace_inhibitors'] },
+  { name: 'Lisinopril', classes: ['ace_inhibitors'] },
+  { name: 'Losartan', classes: ['arbs'] },
+  { name: 'Candesartan', classes: ['arbs'] },
+  { name: 'Spironolactone', classes: ['potassium_sparing'] },
+  { name: 'Furosemide', aliases: ['Frusemide'], classes: ['loop_diuretics'] },
+  { name: 'Warfarin', classes: ['anticoagulants'] },
+  { name: 'Apixaban', classes: ['anticoagulants'] },
+  { name: 'Enoxaparin', classes: ['anticoagulants'] },
+  { name: 'Heparin', classes: ['anticoagulants'] },
+  { name: 'Clopidogrel', classes: ['antiplatelets'] },
+  { name: 'Simvastatin', classes: ['statins'] },
+  { name: 'Atorvastatin', classes: ['statins'] },
+  { name: 'Sertraline', classes: ['ssris'] },
+  { name: 'Citalopram', classes: ['ssris'] },
+  { name: 'Fluoxetine', classes: ['ssris'] },
+  { name: 'Glyceryl trinitrate', aliases: ['GTN'], classes: ['nitrates'] },
+  { name: 'Isosorbide mononitrate', classes: ['nitrates'] },
+  { name: 'Sildenafil', classes: ['pde5_inhibitors'] },
+  { name: 'Omeprazole', classes: ['ppis'] },
+  { name: 'Lansoprazole', classes: ['ppis'] },
+  { name: 'Amiodarone', classes: [] },
+  { name: 'Digoxin', classes: [] },
+  { name: 'Lithium', classes: [] },
+  { name: 'Methotrexate', classes: [] },
+  { name: 'Allopurinol', classes: [] },
+  { name: 'Azathioprine', classes: [] },
+  { name: 'Potassium chloride', classes: [] },
+  { name: 'Metformin', classes: [] },
+  { name: 'Insulin', classes: [] }
+];
+
+export const DRUG_INTERACTIONS: DrugInteraction[] = [
+  { between: ['Sildenafil', 'nitrates'], severity: 'contraindicated', effect: 'Profound hypotension' },
+  { between: ['Methotrexate', 'Trimethoprim'], severity: 'contraindicated', effect: 'Bone marrow suppression' },
+  { between: ['Methotrexate', 'Co-trimoxazole'], severity: 'contraindicated', effect: 'Bone marrow suppression' },
+  { between: ['Simvastatin', 'Clarithromycin'], severity: 'contraindicated', effect: 'Rhabdomyolysis' },
+  { between: ['Simvastatin', 'Erythromycin'], severity: 'contraindicated', effect: 'Rhabdomyolysis' },
+  { between: ['Azathioprine', 'Allopurinol'], severity: 'major', effect: 'Azathioprine toxicity and bone marrow suppression' },
+  { between: ['anticoagulants', 'anticoagulants'], severity: 'major', effect: 'Duplicate anticoagulation with serious bleeding risk' },
+  { between: ['Warfarin', 'nsaids'], severity: 'major', effect: 'Increased bleeding risk' },
+  { between: ['Warfarin', 'macrolides'], severity: 'major', effect: 'Raised INR and bleeding risk' },
+  { between: ['Warfarin', 'Metronidazole'], severity: 'major', effect: 'Raised INR and bleeding risk' },
+  { between: ['Warfarin', 'Co-trimoxazole'], severity: 'major', effect: 'Raised INR and bleeding risk' },
+  { between: ['Warfarin', 'Amiodarone'], severity: 'major', effect: 'Raised INR and bleeding risk' },
+  { between: ['Digoxin', 'Amiodarone'], severity: 'major', effect: 'Digoxin toxicity' },
+  { between: ['Lithium', 'nsaids'], severity: 'major', effect: 'Lithium toxicity' },
+  { between: ['Lithium', 'ace_inhibitors'], severity: 'major', effect: 'Lithium toxicity' },
+  { between: ['opioids', 'benzodiazepines'], severity: 'major', effect: 'Respiratory depression and sedation' },
+  { between: ['Tramadol', 'ssris'], severity: 'major', effect: 'Serotonin syndrome and lowered seizure threshold' },
+  { between: ['ace_inhibitors', 'potassium_sparing'], severity: 'major', effect: 'Hyperkalaemia' },
+  { between: ['arbs', 'potassium_sparing'], severity: 'major', effect: 'Hyperkalaemia' },
+  { between: ['potassium_sparing', 'Potassium chloride'], severity: 'major', effect: 'Hyperkalaemia' },
+  { between: ['ace_inhibitors', 'arbs'], severity: 'major', effect: 'Hyperkalaemia, hypotension and renal impairment' },
+  { between: ['anticoagulants', 'antiplatelets'], severity: 'moderate', effect: 'Increased bleeding risk' },
+  { between: ['ssris', 'nsaids'], severity: 'moderate', effect: 'Increased gastrointestinal bleeding risk' },
+  { between: ['ace_inhibitors', 'nsaids'], severity: 'moderate', effect: 'Reduced renal function and antihypertensive effect' },
+  { between: ['loop_diuretics', 'aminoglycosides'], severity: 'moderate', effect: 'Ototoxicity and nephrotoxicity' },
+  { between: ['Clopidogrel', 'Omeprazole'], severity: 'moderate', effect: 'Reduced antiplatelet effect' },
+  { between: ['Citalopram', 'macrolides'], severity: 'moderate', effect: 'QT prolongation' },
+  { between: ['fluoroquinolones', 'Amiodarone'], severity: 'moderate', effect: 'QT prolongation' },
+  { between: ['Ciprofloxacin', 'Warfarin'], severity: 'moderate', effect: 'Raised INR' },
+  { between: ['Furosemide', 'Digoxin'], severity: 'minor', effect: 'Hypokalaemia may increase digoxin toxicity; monitor potassium' },
+  { between: ['Metformin', 'loop_diuretics'], severity: 'minor', effect: 'May reduce glycaemic control' }
+];
+
+// Interactions at these levels stop the prescription until the prescriber
+// documents a reason to override
+export const HARD_STOP_INTERACTIONS: InteractionSeverity[] = ['major', 'contraindicated'];
+
+export const INTERACTION_SEVERITY_LABELS: Record<InteractionSeverity, string> = {
+  minor: 'Minor',
+  moderate: 'Moderate',
+  major: 'Major',
+  contraindicated: 'Contraindicated'
+};
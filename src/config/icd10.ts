@@ -0,0 +1,412 @@
+import type { Icd10Chapter, Icd10Code } from '../types/diagnosis';
+
+// WHO ICD-10 chapters
+export const ICD10_CHAPTERS: Icd10Chapter[] = [
+  { id: 'I', start: 'A00', end: 'B99', title: 'Certain infectious and parasitic diseases' },
+  { id: 'II', start: 'C00', end: 'D48', title: 'Neoplasms' },
+  { id: 'III', start: 'D50', end: 'D89', title: 'Diseases of the blood and immune mechanism' },
+  { id: 'IV', start: 'E00', end: 'E90', title: 'Endocrine, nutritional and metabolic diseases' },
+  { id: 'V', start: 'F00', end: 'F99', title: 'Mental and behavioural disorders' },
+  { id: 'VI', start: 'G00', end: 'G99', title: 'Diseases of the nervous system' },
+  { id: 'VII', start: 'H00', end: 'H59', title: 'Diseases of the eye and adnexa' },
+  { id: 'VIII', start: 'H60', end: 'H95', title: 'Diseases of the ear and mastoid process' },
+  { id: 'IX', start: 'I00', end: 'I99', title: 'Diseases of the circulatory system' },
+  { id: 'X', start: 'J00', end: 'J99', title: 'Diseases of the respiratory system' },
+  { id: 'XI', start: 'K00', end: 'K93', title: 'Diseases of the digestive system' },
+  { id: 'XII', start: 'L00', end: 'L99', title: 'Diseases of the skin and subcutaneous tissue' },
+  { id: 'XIII', start: 'M00', end: 'M99', title: 'Diseases of the musculoskeletal system and connective tissue' },
+  { id: 'XIV', start: 'N00', end: 'N99', title: 'Diseases of the genitourinary system' },
+  { id: 'XV', start: 'O00', end: 'O99', title: 'Pregnancy, childbirth and the puerperium' },
+  { id: 'XVI', start: 'P00', end: 'P96', title: 'Certain conditions originating in the perinatal period' },
+  { id: 'XVII', start: 'Q00', end: 'Q99', title: 'Congenital malformations and chromosomal abnormalities' },
+  { id: 'XVIII', start: 'R00', end: 'R99', title: 'Symptoms, signs and abnormal findings, not elsewhere classified' },
+  { id: 'XIX', start: 'S00', end: 'T98', title: 'Injury, poisoning and other consequences of external causes' },
+  { id: 'XX', start: 'V01', end: 'Y98', title: 'External causes of morbidity and mortality' },
+  { id: 'XXI', start: 'Z00', end: 'Z99', title: 'Factors influencing health status and contact with health services' },
+  { id: 'XXII', start: 'U00', end: 'U85', title: 'Codes for special purposes' }
+];
+
+// Codes in use across the internal medicine departments. Extend this table
+// rather than typing codes by hand so reports stay consistent.
+const CODES: Array<[string, string]> = [
+  // Infectious and parasitic diseases
+  ['A04.7', 'Enterocolitis due to Clostridium difficile'],
+  ['A08.4', 'Viral intestinal infection, unspecified'],
+  ['A09.9', 'Gastroenteritis and colitis of unspecified origin'],
+  ['A15.0', 'Tuberculosis of lung, confirmed by sputum microscopy'],
+  ['A16.2', 'Tuberculosis of lung, without mention of bacteriological or histological confirmation'],
+  ['A18.0', 'Tuberculosis of bones and joints'],
+  ['A40.9', 'Streptococcal sepsis, unspecified'],
+  ['A41.0', 'Sepsis due to Staphylococcus aureus'],
+  ['A41.5', 'Sepsis due to other Gram-negative organisms'],
+  ['A41.9', 'Sepsis, unspecified'],
+  ['A46', 'Erysipelas'],
+  ['A49.0', 'Staphylococcal infection, unspecified site'],
+  ['A69.2', 'Lyme disease'],
+  ['A87.9', 'Viral meningitis, unspecified'],
+  ['B00.4', 'Herpesviral encephalitis'],
+  ['B01.9', 'Varicella without complication'],
+  ['B02.9', 'Zoster without complication'],
+  ['B15.9', 'Hepatitis A without hepatic coma'],
+  ['B16.9', 'Acute hepatitis B without delta-agent and without hepatic coma'],
+  ['B18.1', 'Chronic viral hepatitis B without delta-agent'],
+  ['B18.2', 'Chronic viral hepatitis C'],
+  ['B20', 'HIV disease resulting in infectious and parasitic diseases'],
+  ['B24', 'Unspecified human immunodeficiency virus [HIV] disease'],
+  ['B27.9', 'Infectious mononucleosis, unspecified'],
+  ['B34.9', 'Viral infection, unspecified'],
+  ['B37.0', 'Candidal stomatitis'],
+  ['B44.1', 'Other pulmonary aspergillosis'],
+  ['B50.9', 'Plasmodium falciparum malaria, unspecified'],
+  ['B59', 'Pneumocystosis'],
+  ['B99', 'Other and unspecified infectious diseases'],
+
+  // Neoplasms
+  ['C15.9', 'Malignant neoplasm of oesophagus, unspecified'],
+  ['C16.9', 'Malignant neoplasm of stomach, unspecified'],
+  ['C18.9', 'Malignant neoplasm of colon, unspecified'],
+  ['C20', 'Malignant neoplasm of rectum'],
+  ['C22.0', 'Liver cell carcinoma'],
+  ['C25.9', 'Malignant neoplasm of pancreas, unspecified'],
+  ['C34.9', 'Malignant neoplasm of bronchus or lung, unspecified'],
+  ['C45.0', 'Mesothelioma of pleura'],
+  ['C50.9', 'Malignant neoplasm of breast, unspecified'],
+  ['C61', 'Malignant neoplasm of prostate'],
+  ['C64', 'Malignant neoplasm of kidney, except renal pelvis'],
+  ['C71.9', 'Malignant neoplasm of brain, unspecified'],
+  ['C78.0', 'Secondary malignant neoplasm of lung'],
+  ['C78.7', 'Secondary malignant neoplasm of liver'],
+  ['C79.3', 'Secondary malignant neoplasm of brain and cerebral meninges'],
+  ['C79.5', 'Secondary malignant neoplasm of bone and bone marrow'],
+  ['C81.9', 'Hodgkin lymphoma, unspecified'],
+  ['C83.3', 'Diffuse large B-cell lymphoma'],
+  ['C85.9', 'Non-Hodgkin lymphoma, unspecified'],
+  ['C90.0', 'Multiple myeloma'],
+  ['C91.0', 'Acute lymphoblastic leukaemia'],
+  ['C91.1', 'Chronic lymphocytic leukaemia of B-cell type'],
+  ['C92.0', 'Acute myeloblastic leukaemia'],
+  ['C92.1', 'Chronic myeloid leukaemia, BCR/ABL-positive'],
+  ['D12.6', 'Benign neoplasm of colon, unspecified'],
+  ['D45', 'Polycythaemia vera'],
+  ['D46.9', 'Myelodysplastic syndrome, unspecified'],
+  ['D47.3', 'Essential (haemorrhagic) thrombocythaemia'],
+
+  // Blood and immune mechanism
+  ['D50.0', 'Iron deficiency anaemia secondary to blood loss (chronic)'],
+  ['D50.9', 'Iron deficiency anaemia, unspecified'],
+  ['D51.0', 'Vitamin B12 deficiency anaemia due to intrinsic factor deficiency'],
+  ['D51.9', 'Vitamin B12 deficiency anaemia, unspecified'],
+  ['D52.9', 'Folate deficiency anaemia, unspecified'],
+  ['D56.1', 'Beta thalassaemia'],
+  ['D57.0', 'Sickle-cell anaemia with crisis'],
+  ['D59.1', 'Other autoimmune haemolytic anaemias'],
+  ['D59.3', 'Haemolytic-uraemic syndrome'],
+  ['D61.9', 'Aplastic anaemia, unspecified'],
+  ['D62', 'Acute posthaemorrhagic anaemia'],
+  ['D63.1', 'Anaemia in chronic kidney disease'],
+  ['D64.9', 'Anaemia, unspecified'],
+  ['D65', 'Disseminated intravascular coagulation [defibrination syndrome]'],
+  ['D66', 'Hereditary factor VIII deficiency'],
+  ['D68.3', 'Haemorrhagic disorder due to circulating anticoagulants'],
+  ['D68.5', 'Primary thrombophilia'],
+  ['D68.6', 'Other thrombophilia'],
+  ['D69.3', 'Idiopathic thrombocytopenic purpura'],
+  ['D69.6', 'Thrombocytopenia, unspecified'],
+  ['D70', 'Agranulocytosis'],
+  ['D72.1', 'Eosinophilia'],
+  ['D73.1', 'Hypersplenism'],
+  ['D80.1', 'Nonfamilial hypogammaglobulinaemia'],
+  ['D83.9', 'Common variable immunodeficiency, unspecified'],
+  ['D84.1', 'Defects in the complement system'],
+  ['D86.0', 'Sarcoidosis of lung'],
+  ['D86.9', 'Sarcoidosis, unspecified'],
+  ['D89.1', 'Cryoglobulinaemia'],
+
+  // Endocrine, nutritional and metabolic diseases
+  ['E03.9', 'Hypothyroidism, unspecified'],
+  ['E04.2', 'Nontoxic multinodular goitre'],
+  ['E05.0', 'Thyrotoxicosis with diffuse goitre'],
+  ['E05.9', 'Thyrotoxicosis, unspecified'],
+  ['E06.3', 'Autoimmune thyroiditis'],
+  ['E10.1', 'Type 1 diabetes mellitus with ketoacidosis'],
+  ['E10.9', 'Type 1 diabetes mellitus without complications'],
+  ['E11.0', 'Type 2 diabetes mellitus with coma'],
+  ['E11.2', 'Type 2 diabetes mellitus with renal complications'],
+  ['E11.5', 'Type 2 diabetes mellitus with peripheral circulatory complications'],
+  ['E11.6', 'Type 2 diabetes mellitus with other specified complications'],
+  ['E11.9', 'Type 2 diabetes mellitus without complications'],
+  ['E16.2', 'Hypoglycaemia, unspecified'],
+  ['E21.0', 'Primary hyperparathyroidism'],
+  ['E22.2', 'Syndrome of inappropriate secretion of antidiuretic hormone'],
+  ['E23.0', 'Hypopituitarism'],
+  ['E23.2', 'Diabetes insipidus'],
+  ['E24.9', "Cushing's syndrome, unspecified"],
+  ['E26.0', 'Primary hyperaldosteronism'],
+  ['E27.1', 'Primary adrenocortical insufficiency'],
+  ['E27.2', 'Addisonian crisis'],
+  ['E43', 'Unspecified severe protein-energy malnutrition'],
+  ['E55.9', 'Vitamin D deficiency, unspecified'],
+  ['E66.9', 'Obesity, unspecified'],
+  ['E78.0', 'Pure hypercholesterolaemia'],
+  ['E78.5', 'Hyperlipidaemia, unspecified'],
+  ['E83.1', 'Disorders of iron metabolism'],
+  ['E83.5', 'Disorders of calcium metabolism'],
+  ['E85.9', 'Amyloidosis, unspecified'],
+  ['E86', 'Volume depletion'],
+  ['E87.0', 'Hyperosmolality and hypernatraemia'],
+  ['E87.1', 'Hypo-osmolality and hyponatraemia'],
+  ['E87.2', 'Acidosis'],
+  ['E87.5', 'Hyperkalaemia'],
+  ['E87.6', 'Hypokalaemia'],
+
+  // Mental and behavioural disorders
+  ['F05.9', 'Delirium, unspecified'],
+  ['F10.2', 'Mental and behavioural disorders due to use of alcohol, dependence syndrome'],
+  ['F10.3', 'Mental and behavioural disorders due to use of alcohol, withdrawal state'],
+  ['F32.9', 'Depressive episode, unspecified'],
+  ['F41.9', 'Anxiety disorder, unspecified'],
+
+  // Nervous system
+  ['G03.9', 'Meningitis, unspecified'],
+  ['G04.9', 'Encephalitis, myelitis and encephalomyelitis, unspecified'],
+  ['G06.0', 'Intracranial abscess and granuloma'],
+  ['G20', "Parkinson's disease"],
+  ['G30.9', "Alzheimer's disease, unspecified"],
+  ['G35', 'Multiple sclerosis'],
+  ['G40.9', 'Epilepsy, unspecified'],
+  ['G41.9', 'Status epilepticus, unspecified'],
+  ['G43.9', 'Migraine, unspecified'],
+  ['G45.9', 'Transient cerebral ischaemic attack, unspecified'],
+  ['G51.0', "Bell's palsy"],
+  ['G61.0', 'Guillain-Barré syndrome'],
+  ['G62.9', 'Polyneuropathy, unspecified'],
+  ['G70.0', 'Myasthenia gravis'],
+  ['G93.1', 'Anoxic brain damage, not elsewhere classified'],
+  ['G93.4', 'Encephalopathy, unspecified'],
+
+  // Circulatory system
+  ['I10', 'Essential (primary) hypertension'],
+  ['I11.0', 'Hypertensive heart disease with (congestive) heart failure'],
+  ['I12.0', 'Hypertensive renal disease with renal failure'],
+  ['I20.0', 'Unstable angina'],
+  ['I20.9', 'Angina pectoris, unspecified'],
+  ['I21.4', 'Acute subendocardial myocardial infarction'],
+  ['I21.9', 'Acute myocardial infarction, unspecified'],
+  ['I25.1', 'Atherosclerotic heart disease'],
+  ['I26.0', 'Pulmonary embolism with mention of acute cor pulmonale'],
+  ['I26.9', 'Pulmonary embolism without mention of acute cor pulmonale'],
+  ['I27.0', 'Primary pulmonary hypertension'],
+  ['I27.2', 'Other secondary pulmonary hypertension'],
+  ['I31.3', 'Pericardial effusion (noninflammatory)'],
+  ['I33.0', 'Acute and subacute infective endocarditis'],
+  ['I35.0', 'Aortic (valve) stenosis'],
+  ['I42.0', 'Dilated cardiomyopathy'],
+  ['I44.2', 'Atrioventricular block, complete'],
+  ['I47.1', 'Supraventricular tachycardia'],
+  ['I48.0', 'Paroxysmal atrial fibrillation'],
+  ['I48.9', 'Atrial fibrillation and atrial flutter, unspecified'],
+  ['I49.9', 'Cardiac arrhythmia, unspecified'],
+  ['I50.0', 'Congestive heart failure'],
+  ['I50.1', 'Left ventricular failure'],
+  ['I50.9', 'Heart failure, unspecified'],
+  ['I60.9', 'Subarachnoid haemorrhage, unspecified'],
+  ['I61.9', 'Intracerebral haemorrhage, unspecified'],
+  ['I63.4', 'Cerebral infarction due to embolism of cerebral arteries'],
+  ['I63.9', 'Cerebral infarction, unspecified'],
+  ['I64', 'Stroke, not specified as haemorrhage or infarction'],
+  ['I67.7', 'Cerebral arteritis, not elsewhere classified'],
+  ['I67.8', 'Other specified cerebrovascular diseases'],
+  ['I70.2', 'Atherosclerosis of arteries of extremities'],
+  ['I71.4', 'Abdominal aortic aneurysm, without mention of rupture'],
+  ['I73.9', 'Peripheral vascular disease, unspecified'],
+  ['I74.3', 'Embolism and thrombosis of arteries of lower extremities'],
+  ['I80.1', 'Phlebitis and thrombophlebitis of femoral vein'],
+  ['I80.2', 'Phlebitis and thrombophlebitis of other deep vessels of lower extremities'],
+  ['I81', 'Portal vein thrombosis'],
+  ['I82.2', 'Embolism and thrombosis of vena cava'],
+  ['I82.9', 'Embolism and thrombosis of unspecified vein'],
+  ['I85.0', 'Oesophageal varices with bleeding'],
+  ['I95.1', 'Orthostatic hypotension'],
+  ['I95.9', 'Hypotension, unspecified'],
+
+  // Respiratory system
+  ['J06.9', 'Acute upper respiratory infection, unspecified'],
+  ['J09', 'Influenza due to identified zoonotic or pandemic influenza virus'],
+  ['J10.0', 'Influenza with pneumonia, seasonal influenza virus identified'],
+  ['J11.1', 'Influenza with other respiratory manifestations, virus not identified'],
+  ['J12.9', 'Viral pneumonia, unspecified'],
+  ['J13', 'Pneumonia due to Streptococcus pneumoniae'],
+  ['J15.2', 'Pneumonia due to staphylococcus'],
+  ['J15.9', 'Bacterial pneumonia, unspecified'],
+  ['J18.0', 'Bronchopneumonia, unspecified'],
+  ['J18.1', 'Lobar pneumonia, unspecified'],
+  ['J18.9', 'Pneumonia, unspecified'],
+  ['J20.9', 'Acute bronchitis, unspecified'],
+  ['J22', 'Unspecified acute lower respiratory infection'],
+  ['J43.9', 'Emphysema, unspecified'],
+  ['J44.0', 'Chronic obstructive pulmonary disease with acute lower respiratory infection'],
+  ['J44.1', 'Chronic obstructive pulmonary disease with acute exacerbation, unspecified'],
+  ['J44.9', 'Chronic obstructive pulmonary disease, unspecified'],
+  ['J45.9', 'Asthma, unspecified'],
+  ['J46', 'Status asthmaticus'],
+  ['J47', 'Bronchiectasis'],
+  ['J69.0', 'Pneumonitis due to food and vomit'],
+  ['J80', 'Adult respiratory distress syndrome'],
+  ['J84.1', 'Other interstitial pulmonary diseases with fibrosis'],
+  ['J84.9', 'Interstitial pulmonary disease, unspecified'],
+  ['J85.1', 'Abscess of lung with pneumonia'],
+  ['J86.9', 'Pyothorax without fistula'],
+  ['J90', 'Pleural effusion, not elsewhere classified'],
+  ['J93.9', 'Pneumothorax, unspecified'],
+  ['J96.0', 'Acute respiratory failure'],
+  ['J96.1', 'Chronic respiratory failure'],
+  ['J98.1', 'Pulmonary collapse'],
+
+  // Digestive system
+  ['K21.0', 'Gastro-oesophageal reflux disease with oesophagitis'],
+  ['K22.2', 'Oesophageal obstruction'],
+  ['K25.0', 'Gastric ulcer, acute with haemorrhage'],
+  ['K25.9', 'Gastric ulcer, unspecified as acute or chronic, without haemorrhage or perforation'],
+  ['K26.0', 'Duodenal ulcer, acute with haemorrhage'],
+  ['K29.7', 'Gastritis, unspecified'],
+  ['K35.8', 'Acute appendicitis, other and unspecified'],
+  ['K50.9', "Crohn's disease, unspecified"],
+  ['K51.9', 'Ulcerative colitis, unspecified'],
+  ['K52.9', 'Noninfective gastroenteritis and colitis, unspecified'],
+  ['K55.0', 'Acute vascular disorders of intestine'],
+  ['K56.6', 'Other and unspecified intestinal obstruction'],
+  ['K57.3', 'Diverticular disease of large intestine without perforation or abscess'],
+  ['K59.0', 'Constipation'],
+  ['K63.1', 'Perforation of intestine (nontraumatic)'],
+  ['K65.0', 'Acute peritonitis'],
+  ['K70.3', 'Alcoholic cirrhosis of liver'],
+  ['K70.4', 'Alcoholic hepatic failure'],
+  ['K71.9', 'Toxic liver disease, unspecified'],
+  ['K72.0', 'Acute and subacute hepatic failure'],
+  ['K74.6', 'Other and unspecified cirrhosis of liver'],
+  ['K75.4', 'Autoimmune hepatitis'],
+  ['K76.0', 'Fatty (change of) liver, not elsewhere classified'],
+  ['K76.6', 'Portal hypertension'],
+  ['K76.7', 'Hepatorenal syndrome'],
+  ['K80.0', 'Calculus of gallbladder with acute cholecystitis'],
+  ['K80.5', 'Calculus of bile duct without cholangitis or cholecystitis'],
+  ['K81.0', 'Acute cholecystitis'],
+  ['K83.0', 'Cholangitis'],
+  ['K85.9', 'Acute pancreatitis, unspecified'],
+  ['K86.1', 'Other chronic pancreatitis'],
+  ['K90.0', 'Coeliac disease'],
+  ['K92.0', 'Haematemesis'],
+  ['K92.1', 'Melaena'],
+  ['K92.2', 'Gastrointestinal haemorrhage, unspecified'],
+
+  // Skin and subcutaneous tissue
+  ['L03.1', 'Cellulitis of other parts of limb'],
+  ['L27.0', 'Generalized skin eruption due to drugs and medicaments'],
+  ['L50.0', 'Allergic urticaria'],
+  ['L51.2', 'Toxic epidermal necrolysis [Lyell]'],
+  ['L89.9', 'Decubitus ulcer and pressure area, unspecified'],
+  ['L93.0', 'Discoid lupus erythematosus'],
+
+  // Musculoskeletal system and connective tissue
+  ['M05.9', 'Seropositive rheumatoid arthritis, unspecified'],
+  ['M06.9', 'Rheumatoid arthritis, unspecified'],
+  ['M07.3', 'Other psoriatic arthropathies'],
+  ['M10.9', 'Gout, unspecified'],
+  ['M11.2', 'Other chondrocalcinosis'],
+  ['M13.0', 'Polyarthritis, unspecified'],
+  ['M15.9', 'Polyarthrosis, unspecified'],
+  ['M30.0', 'Polyarteritis nodosa'],
+  ['M31.3', "Wegener's granulomatosis"],
+  ['M31.5', 'Giant cell arteritis with polymyalgia rheumatica'],
+  ['M31.6', 'Other giant cell arteritis'],
+  ['M32.1', 'Systemic lupus erythematosus with organ or system involvement'],
+  ['M32.9', 'Systemic lupus erythematosus, unspecified'],
+  ['M33.1', 'Other dermatomyositis'],
+  ['M33.2', 'Polymyositis'],
+  ['M34.9', 'Systemic sclerosis, unspecified'],
+  ['M35.0', 'Sicca syndrome [Sjögren]'],
+  ['M35.2', "Behçet's disease"],
+  ['M35.3', 'Polymyalgia rheumatica'],
+  ['M45', 'Ankylosing spondylitis'],
+  ['M54.5', 'Low back pain'],
+  ['M62.8', 'Other specified disorders of muscle'],
+  ['M79.7', 'Fibromyalgia'],
+  ['M80.9', 'Unspecified osteoporosis with pathological fracture'],
+  ['M81.9', 'Osteoporosis, unspecified'],
+  ['M86.9', 'Osteomyelitis, unspecified'],
+
+  // Genitourinary system
+  ['N00.9', 'Acute nephritic syndrome, unspecified'],
+  ['N04.9', 'Nephrotic syndrome, unspecified'],
+  ['N10', 'Acute tubulo-interstitial nephritis'],
+  ['N13.3', 'Other and unspecified hydronephrosis'],
+  ['N17.9', 'Acute renal failure, unspecified'],
+  ['N18.3', 'Chronic kidney disease, stage 3'],
+  ['N18.4', 'Chronic kidney disease, stage 4'],
+  ['N18.5', 'Chronic kidney disease, stage 5'],
+  ['N18.9', 'Chronic kidney disease, unspecified'],
+  ['N20.0', 'Calculus of kidney'],
+  ['N30.0', 'Acute cystitis'],
+  ['N39.0', 'Urinary tract infection, site not specified'],
+  ['N40', 'Hyperplasia of prostate'],
+
+  // Symptoms, signs and abnormal findings
+  ['R00.0', 'Tachycardia, unspecified'],
+  ['R04.2', 'Haemoptysis'],
+  ['R05', 'Cough'],
+  ['R06.0', 'Dyspnoea'],
+  ['R07.4', 'Chest pain, unspecified'],
+  ['R10.4', 'Other and unspecified abdominal pain'],
+  ['R11', 'Nausea and vomiting'],
+  ['R17', 'Unspecified jaundice'],
+  ['R18', 'Ascites'],
+  ['R19.7', 'Diarrhoea, unspecified'],
+  ['R26.8', 'Other and unspecified abnormalities of gait and mobility'],
+  ['R31', 'Unspecified haematuria'],
+  ['R40.2', 'Coma, unspecified'],
+  ['R41.0', 'Disorientation, unspecified'],
+  ['R42', 'Dizziness and giddiness'],
+  ['R50.9', 'Fever, unspecified'],
+  ['R51', 'Headache'],
+  ['R53', 'Malaise and fatigue'],
+  ['R55', 'Syncope and collapse'],
+  ['R56.8', 'Other and unspecified convulsions'],
+  ['R57.0', 'Cardiogenic shock'],
+  ['R57.1', 'Hypovolaemic shock'],
+  ['R63.4', 'Abnormal weight loss'],
+  ['R64', 'Cachexia'],
+  ['R65.1', 'Systemic inflammatory response syndrome of noninfectious origin with organ failure'],
+  ['R74.0', 'Elevation of levels of transaminase and lactic acid dehydrogenase [LDH]'],
+  ['R79.8', 'Other specified abnormal findings of blood chemistry'],
+
+  // Injury, poisoning and external causes
+  ['S72.0', 'Fracture of neck of femur'],
+  ['T39.1', 'Poisoning: 4-Aminophenol derivatives'],
+  ['T42.4', 'Poisoning: Benzodiazepines'],
+  ['T45.5', 'Poisoning: Anticoagulants'],
+  ['T51.0', 'Toxic effect: Ethanol'],
+  ['T78.2', 'Anaphylactic shock, unspecified'],
+  ['T78.3', 'Angioneurotic oedema'],
+  ['T78.4', 'Allergy, unspecified'],
+  ['T80.2', 'Infections following infusion, transfusion and therapeutic injection'],
+  ['T81.4', 'Infection following a procedure, not elsewhere classified'],
+  ['T88.6', 'Anaphylactic shock due to adverse effect of correct drug or medicament properly administered'],
+  ['T88.7', 'Unspecified adverse effect of drug or medicament'],
+
+  // Factors influencing health status
+  ['Z03.9', 'Observation for suspected disease or condition, unspecified'],
+  ['Z29.0', 'Isolation'],
+  ['Z51.1', 'Chemotherapy session for neoplasm'],
+  ['Z51.5', 'Palliative care'],
+  ['Z79.0', 'Long-term (current) use of anticoagulants'],
+  ['Z86.7', 'Personal history of diseases of the circulatory system'],
+  ['Z94.0', 'Kidney transplant status'],
+  ['Z99.2', 'Dependence on renal dialysis'],
+
+  // Special purposes
+  ['U07.1', 'COVID-19, virus identified'],
+  ['U07.2', 'COVID-19, virus not identified'],
+  ['U09.9', 'Post COVID-19 condition, unspecified']
+];
+
+export const ICD10_CODES: Icd10Code[] = CODES.map(([code, description]) => ({ code, description }));
@@ -0,0 +1,67 @@
+import type { LabFlag, LabTest } from '../types/lab';
+
+// Panels in the order they are shown on the cumulative grid
+export const LAB_PANELS = [
+  'Full Blood Count',
+  'Urea & Electrolytes',
+  'Liver Function',
+  'Bone Profile',
+  'Inflammatory Markers',
+  'Coagulation',
+  'Cardiac',
+  'Metabolic',
+  'Thyroid'
+];
+
+// Adult reference ranges from the hospital laboratory handbook. Extend this
+// table rather than entering ad-hoc tests so results stay comparable.
+export const LAB_TESTS: LabTest[] = [
+  { code: 'HB', name: 'Haemoglobin', panel: 'Full Blood Count', unit: 'g/L', low: 130, high: 180, criticalLow: 70, criticalHigh: 200 },
+  { code: 'WBC', name: 'White Cell Count', panel: 'Full Blood Count', unit: '10^9/L', low: 4.0, high: 11.0, criticalLow: 1.0, criticalHigh: 30 },
+  { code: 'NEUT', name: 'Neutrophils', panel: 'Full Blood Count', unit: '10^9/L', low: 2.0, high: 7.5, criticalLow: 0.5 },
+  { code: 'PLT', name: 'Platelets', panel: 'Full Blood Count', unit: '10^9/L', low: 150, high: 400, criticalLow: 20, criticalHigh: 1000 },
+  { code: 'NA', name: 'Sodium', panel: 'Urea & Electrolytes', unit: 'mmol/L', low: 133, high: 146, criticalLow: 120, criticalHigh: 160 },
+  { code: 'K', name: 'Potassium', panel: 'Urea & Electrolytes', unit: 'mmol/L', low: 3.5, high: 5.3, criticalLow: 2.5, criticalHigh: 6.5 },
+  { code: 'UREA', name: 'Urea', panel: 'Urea & Electrolytes', unit: 'mmol/L', low: 2.5, high: 7.8, criticalHigh: 30 },
+  { code: 'CREA', name: 'Creatinine', panel: 'Urea & Electrolytes', unit: 'µmol/L', low: 59, high: 104, criticalHigh: 500 },
+  { code: 'EGFR', name: 'eGFR', panel: 'Urea & Electrolytes', unit: 'mL/min/1.73m²', low: 60, high: null, criticalLow: 15 },
+  { code: 'ALT', name: 'ALT', panel: 'Liver Function', unit: 'U/L', low: null, high: 41 },
+  { code: 'ALP', name: 'Alkaline Phosphatase', panel: 'Liver Function', unit: 'U/L', low: 30, high: 130 },
+  { code: 'BILI', name: 'Bilirubin', panel: 'Liver Function', unit: 'µmol/L', low: null, high: 21 },
+  { code: 'ALB', name: 'Albumin', panel: 'Liver Function', unit: 'g/L', low: 35, high: 50 },
+  { code: 'CA', name: 'Adjusted Calcium', panel: 'Bone Profile', unit: 'mmol/L', low: 2.2, high: 2.6, criticalLow: 1.8, criticalHigh: 3.4 },
+  { code: 'MG', name: 'Magnesium', panel: 'Bone Profile', unit: 'mmol/L', low: 0.7, high: 1.0, criticalLow: 0.4 },
+  { code: 'PHOS', name: 'Phosphate', panel: 'Bone Profile', unit: 'mmol/L', low: 0.8, high: 1.5, criticalLow: 0.3 },
+  { code: 'CRP', name: 'C-Reactive Protein', panel: 'Inflammatory Markers', unit: 'mg/L', low: null, high: 5 },
+  { code: 'INR', name: 'INR', panel: 'Coagulation', unit: 'ratio', low: 0.8, high: 1.2, criticalHigh: 5 },
+  { code: 'TROP', name: 'hs Troponin T', panel: 'Cardiac', unit: 'ng/L', low: null, high: 14 },
+  { code: 'GLU', name: 'Glucose', panel: 'Metabolic', unit: 'mmol/L', low: 4.0, high: 7.8, criticalLow: 2.5, criticalHigh: 25 },
+  { code: 'HBA1C', name: 'HbA1c', panel: 'Metabolic', unit: 'mmol/mol', low: null, high: 41 },
+  { code: 'LACT', name: 'Lactate', panel: 'Metabolic', unit: 'mmol/L', low: 0.5, high: 2.2, criticalHigh: 4 },
+  { code: 'TSH', name: 'TSH', panel: 'Thyroid', unit: 'mU/L', low: 0.27, high: 4.2 }
+];
+
+export const LAB_FLAG_LABELS: Record<LabFlag, string> = {
+  normal: 'Normal',
+  low: 'Low',
+  high: 'High',
+  critical_low: 'Critically low',
+  critical_high: 'Critically high'
+};
+
+// Short markers printed next to values on the grid
+export const LAB_FLAG_MARKERS: Record<LabFlag, string> = {
+  normal: '',
+  low: 'L',
+  high: 'H',
+  critical_low: 'LL',
+  critical_high: 'HH'
+};
+
+export const LAB_FLAG_STYLES: Record<LabFlag, string> = {
+  normal: 'text-gray-900',
+  low: 'text-blue-700 bg-blue-50',
+  high: 'text-orange-700 bg-orange-50',
+  critical_low: 'text-white bg-red-600',
+  critical_high: 'text-white bg-red-600'
+};
@@ -0,0 +1,66 @@
+import type { AdministrationStatus, MedicationFrequency, MedicationOrderStatus, MedicationRoute } from '../types/medication';
+
+export const MEDICATION_ROUTE_LABELS: Record<MedicationRoute, string> = {
+  oral: 'Oral',
+  iv: 'Intravenous',
+  im: 'Intramuscular',
+  sc: 'Subcutaneous',
+  sublingual: 'Sublingual',
+  inhaled: 'Inhaled',
+  nebulised: 'Nebulised',
+  topical: 'Topical',
+  rectal: 'Rectal',
+  ng_tube: 'Nasogastric tube'
+};
+
+export const MEDICATION_FREQUENCY_LABELS: Record<MedicationFrequency, string> = {
+  once: 'Once only',
+  once_daily: 'Once daily',
+  twice_daily: 'Twice daily',
+  three_times_daily: 'Three times daily',
+  four_times_daily: 'Four times daily',
+  every_4_hours: 'Every 4 hours',
+  every_6_hours: 'Every 6 hours',
+  every_8_hours: 'Every 8 hours',
+  every_12_hours: 'Every 12 hours',
+  at_night: 'At night'
+};
+
+export const MEDICATION_STATUS_STYLES: Record<MedicationOrderStatus, string> = {
+  scheduled: 'bg-blue-100 text-blue-800',
+  active: 'bg-green-100 text-green-800',
+  stopped: 'bg-gray-100 text-gray-800',
+  discontinued: 'bg-red-100 text-red-800'
+};
+
+// Standard ward round times (hospital time) that each frequency expands into;
+// once-only orders are due at their start time and PRN orders have no schedule
+export const MEDICATION_SCHEDULES: Record<MedicationFrequency, string[]> = {
+  once: [],
+  once_daily: ['08:00'],
+  twice_daily: ['08:00', '20:00'],
+  three_times_daily: ['08:00', '14:00', '22:00'],
+  four_times_daily: ['06:00', '12:00', '18:00', '22:00'],
+  every_4_hours: ['02:00', '06:00', '10:00', '14:00', '18:00', '22:00'],
+  every_6_hours: ['00:00', '06:00', '12:00', '18:00'],
+  every_8_hours: ['06:00', '14:00', '22:00'],
+  every_12_hours: ['08:00', '20:00'],
+  at_night: ['22:00']
+};
+
+// A scheduled dose with nothing recorded this long after its due time is overdue
+export const MAR_OVERDUE_GRACE_MINUTES = 60;
+
+export const ADMINISTRATION_STATUS_LABELS: Record<AdministrationStatus, string> = {
+  given: 'Given',
+  held: 'Held',
+  refused: 'Refused',
+  missed: 'Missed'
+};
+
+export const ADMINISTRATION_STATUS_STYLES: Record<AdministrationStatus, string> = {
+  given: 'bg-green-100 text-green-800',
+  held: 'bg-yellow-100 text-yellow-800',
+  refused: 'bg-orange-100 text-orange-800',
+  missed: 'bg-red-100 text-red-800'
+};
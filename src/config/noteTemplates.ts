@@ -0,0 +1,51 @@
+import type { NoteTemplateSection, NoteType } from '../types/note';
+
+export const NOTE_TYPES: NoteType[] = [
+  'Progress Note',
+  'Follow-up Note',
+  'Consultation Note',
+  'Discharge Note',
+  'Discharge Summary'
+];
+
+const section = (key: string, label: string, required: boolean, placeholder: string | null = null): NoteTemplateSection => ({
+  key,
+  label,
+  required,
+  placeholder
+});
+
+// Used until an administrator saves a template for the note type, and by
+// "Reset to default". Matches the rows seeded by create_note_templates.sql.
+export const DEFAULT_NOTE_TEMPLATES: Record<NoteType, NoteTemplateSection[]> = {
+  'Progress Note': [
+    section('subjective', 'Subjective', true, 'Symptoms, concerns and events since the last review'),
+    section('objective', 'Objective', true, 'Examination, observations and results'),
+    section('assessment', 'Assessment', true, 'Working diagnosis and progress'),
+    section('plan', 'Plan', true, 'Investigations, treatment changes and escalation')
+  ],
+  'Follow-up Note': [
+    section('interval_history', 'Interval History', true),
+    section('examination', 'Examination', false),
+    section('plan', 'Plan', true)
+  ],
+  'Consultation Note': [
+    section('question', 'Consult Question', true, 'What the referring team asked'),
+    section('history', 'History and Findings', true),
+    section('impression', 'Impression', true),
+    section('recommendations', 'Recommendations', true, 'Numbered, actionable recommendations'),
+    section('follow_up', 'Follow-up', false, 'Whether and when the consulting team will review again')
+  ],
+  'Discharge Note': [
+    section('hospital_course', 'Hospital Course', true),
+    section('condition', 'Condition at Discharge', true),
+    section('instructions', 'Instructions', true, 'Medications, activity, warning signs and follow-up')
+  ],
+  'Discharge Summary': [
+    section('presenting_complaint', 'Presenting Complaint', true),
+    section('hospital_course', 'Hospital Course', true),
+    section('procedures', 'Procedures', false),
+    section('discharge_medications', 'Discharge Medications', true),
+    section('follow_up', 'Follow-up', true)
+  ]
+};
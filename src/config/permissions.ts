@@ -0,0 +1,68 @@
+import type { Page } from '../types/navigation';
+import type { Permission, Role } from '../types/permission';
+
+export const ROLES: Role[] = ['doctor', 'nurse', 'administrator'];
+
+export const PERMISSION_DEFINITIONS: Array<{
+  id: Permission;
+  label: string;
+  group: string;
+}> = [
+  { id: 'patients.view', label: 'View patient records', group: 'Patients' },
+  { id: 'patients.update', label: 'Update patient demographics', group: 'Patients' },
+  { id: 'patients.delete', label: 'Delete patient records', group: 'Patients' },
+  { id: 'patients.merge', label: 'Merge duplicate patient records', group: 'Patients' },
+  { id: 'admission.create', label: 'Admit patients', group: 'Admissions' },
+  { id: 'discharge.process', label: 'Process discharges', group: 'Admissions' },
+  { id: 'patients.transfer', label: 'Transfer patients between departments', group: 'Admissions' },
+  { id: 'beds.assign', label: 'Move patients between beds and update bed status', group: 'Beds' },
+  { id: 'beds.manage', label: 'Configure wards, rooms and beds', group: 'Beds' },
+  { id: 'consultation.create', label: 'Register consultations', group: 'Consultations' },
+  { id: 'consultation.complete', label: 'Complete consultations', group: 'Consultations' },
+  { id: 'notes.create', label: 'Write medical notes', group: 'Clinical Notes' },
+  { id: 'notes.cosign', label: 'Co-sign or return notes routed for supervision', group: 'Clinical Notes' },
+  { id: 'phrases.department', label: 'Share smart phrases with their department', group: 'Clinical Notes' },
+  { id: 'attachments.manage', label: 'Upload and remove patient documents and images', group: 'Clinical Notes' },
+  { id: 'vitals.record', label: 'Record vital signs', group: 'Observations' },
+  { id: 'labs.record', label: 'Enter and import laboratory results', group: 'Observations' },
+  { id: 'medications.prescribe', label: 'Prescribe and discontinue medications', group: 'Medications' },
+  { id: 'medications.administer', label: 'Record medication administrations', group: 'Medications' },
+  { id: 'allergies.manage', label: 'Record and remove patient allergies', group: 'Medications' },
+  { id: 'appointments.manage', label: 'Manage clinic appointments', group: 'Appointments' },
+  { id: 'reports.view', label: 'View reports', group: 'Reports' },
+  { id: 'reports.view_all', label: 'View department-wide administrative reports', group: 'Reports' },
+  { id: 'reports.export', label: 'Export reports', group: 'Reports' },
+  { id: 'users.manage', label: 'Manage employees', group: 'Administration' },
+  { id: 'permissions.manage', label: 'Manage role permissions', group: 'Administration' },
+  { id: 'settings.manage', label: 'Configure hospital settings such as shift times', group: 'Administration' },
+  { id: 'templates.manage', label: 'Manage clinical note templates', group: 'Administration' },
+  { id: 'audit.view', label: 'View the audit log', group: 'Administration' }
+];
+
+// Permissions that can only ever be held by the listed roles
+export const ROLE_RESTRICTED_PERMISSIONS: Partial<Record<Permission, Role[]>> = {
+  'medications.prescribe': ['doctor'],
+  'notes.cosign': ['doctor']
+};
+
+export const isPermissionAllowed = (role: Role, permission: Permission) =>
+  ROLE_RESTRICTED_PERMISSIONS[permission]?.includes(role) ?? true;
+
+// Permissions an administrator can never remove from their own role,
+// so the matrix cannot be locked against further editing; set_role_permissions
+// rejects any change that drops them
+export const LOCKED_PERMISSIONS: Partial<Record<Role, Permission[]>> = {
+  administrator: ['users.manage', 'permissions.manage']
+};
+
+export const PAGE_PERMISSIONS: Partial<Record<Page, Permission>> = {
+  specialties: 'patients.view',
+  admission: 'admission.create',
+  patient: 'patients.view',
+  discharge: 'discharge.process',
+  beds: 'patients.view',
+  consultation: 'consultation.create',
+  appointments: 'appointments.manage',
+  reports: 'reports.view',
+  employees: 'users.manage'
+};
@@ -0,0 +1,7 @@
+export const SESSION = {
+  IDLE_TIMEOUT_MINUTES: Number(import.meta.env.VITE_SESSION_IDLE_TIMEOUT_MINUTES) || 15,
+  WARNING_SECONDS: Number(import.meta.env.VITE_SESSION_WARNING_SECONDS) || 60,
+  REAUTH_GRACE_MINUTES: 2,
+  USER_STORAGE_KEY: 'imd-care-user',
+  SESSION_STORAGE_KEY: 'imd-care-session'
+};
@@ -0,0 +1,26 @@
+import type { ShiftSchedule, ShiftType } from '../types/settings';
+
+export const WEEKDAY_SHIFTS: ShiftType[] = ['morning', 'evening', 'night'];
+export const WEEKEND_SHIFTS: ShiftType[] = ['weekend_morning', 'weekend_night'];
+
+export const SHIFT_LABELS: Record<ShiftType, string> = {
+  morning: 'Morning',
+  evening: 'Evening',
+  night: 'Night',
+  weekend_morning: 'Weekend Morning',
+  weekend_night: 'Weekend Night'
+};
+
+export const DAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Used until the schedule has been loaded from hospital_settings
+export const DEFAULT_SHIFT_SCHEDULE: ShiftSchedule = {
+  windows: {
+    morning: { start: '07:00', end: '15:00' },
+    evening: { start: '15:00', end: '23:00' },
+    night: { start: '23:00', end: '07:00' },
+    weekend_morning: { start: '07:00', end: '19:00' },
+    weekend_night: { start: '19:00', end: '07:00' }
+  },
+  weekend_days: [5, 6]
+};
@@ -0,0 +1,24 @@
+import type { PhrasePlaceholder } from '../types/smartPhrase';
+
+export const PHRASE_PREFIX = '.';
+
+// Written in place of a placeholder the current form has no value for, so the
+// gap stands out and is filled in by hand
+export const PHRASE_BLANK = '***';
+
+export const PHRASE_PLACEHOLDERS: { key: PhrasePlaceholder; label: string }[] = [
+  { key: 'name', label: 'Patient name' },
+  { key: 'mrn', label: 'MRN' },
+  { key: 'age', label: 'Age' },
+  { key: 'gender', label: 'Gender' },
+  { key: 'admission_date', label: 'Admission date' },
+  { key: 'diagnosis', label: 'Admitting diagnosis' },
+  { key: 'length_of_stay', label: 'Length of stay' },
+  { key: 'today', label: "Today's date" },
+  { key: 'doctor', label: 'Your name' }
+];
+
+export const PHRASE_SCOPE_LABELS = {
+  personal: 'Personal',
+  department: 'Department'
+} as const;
@@ -0,0 +1,48 @@
+import type { ConsciousnessLevel, News2Risk, OxygenDevice, VitalMeasure, VitalRange } from '../types/vitals';
+
+// Adult reference ranges used to flag observations
+export const VITAL_RANGES: Record<VitalMeasure, VitalRange> = {
+  heart_rate: { label: 'Heart Rate', unit: 'bpm', low: 51, high: 90, min: 0, max: 300, step: 1 },
+  systolic_bp: { label: 'Systolic BP', unit: 'mmHg', low: 101, high: 179, min: 0, max: 300, step: 1 },
+  diastolic_bp: { label: 'Diastolic BP', unit: 'mmHg', low: 50, high: 100, min: 0, max: 200, step: 1 },
+  respiratory_rate: { label: 'Respiratory Rate', unit: '/min', low: 12, high: 20, min: 0, max: 80, step: 1 },
+  temperature: { label: 'Temperature', unit: '°C', low: 36.1, high: 38.0, min: 25, max: 45, step: 0.1 },
+  spo2: { label: 'SpO₂', unit: '%', low: 96, high: 100, min: 0, max: 100, step: 1 }
+};
+
+export const OXYGEN_DEVICE_LABELS: Record<OxygenDevice, string> = {
+  room_air: 'Room air',
+  nasal_cannula: 'Nasal cannula',
+  simple_mask: 'Simple face mask',
+  venturi_mask: 'Venturi mask',
+  non_rebreather: 'Non-rebreather mask',
+  high_flow: 'High-flow nasal oxygen',
+  niv: 'Non-invasive ventilation',
+  ventilator: 'Mechanical ventilation'
+};
+
+export const CONSCIOUSNESS_LABELS: Record<ConsciousnessLevel, string> = {
+  alert: 'Alert',
+  confusion: 'New confusion',
+  voice: 'Responds to voice',
+  pain: 'Responds to pain',
+  unresponsive: 'Unresponsive'
+};
+
+// Aggregate score at which the responsible doctor is alerted; any single
+// parameter scoring 3 also escalates
+export const NEWS2_ESCALATION_SCORE = 5;
+
+export const NEWS2_RISK_LABELS: Record<News2Risk, string> = {
+  low: 'Low risk',
+  low_medium: 'Low–medium risk',
+  medium: 'Medium risk',
+  high: 'High risk'
+};
+
+export const NEWS2_RISK_STYLES: Record<News2Risk, string> = {
+  low: 'bg-green-100 text-green-800',
+  low_medium: 'bg-yellow-100 text-yellow-800',
+  medium: 'bg-orange-100 text-orange-800',
+  high: 'bg-red-100 text-red-800'
+};
@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useState } from 'react';
+import { SESSION } from '../config/session';
+import { useSessionStore } from '../stores/useSessionStore';
+
+const ACTIVITY_EVENTS = ['mousedown', 'mousemove', 'keydown', 'scroll', 'touchstart'] as const;
+const ACTIVITY_THROTTLE_MS = 5000;
+
+export const useIdleTimeout = (enabled: boolean, onTimeout: () => void) => {
+  const { recordActivity, getRemainingMs } = useSessionStore();
+  const [remainingSeconds, setRemainingSeconds] = useState(() => Math.ceil(getRemainingMs() / 1000));
+
+  const showWarning = enabled && remainingSeconds <= SESSION.WARNING_SECONDS;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let lastRecorded = 0;
+    const handleActivity = () => {
+      // Once the warning is up, only an explicit "stay signed in" extends the session
+      if (getRemainingMs() <= SESSION.WARNING_SECONDS * 1000) return;
+
+      const now = Date.now();
+      if (now - lastRecorded < ACTIVITY_THROTTLE_MS) return;
+      lastRecorded = now;
+      recordActivity();
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+    };
+  }, [enabled, recordActivity, getRemainingMs]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const tick = () => {
+      const remainingMs = getRemainingMs();
+      setRemainingSeconds(Math.ceil(remainingMs / 1000));
+      if (remainingMs === 0) {
+        onTimeout();
+      }
+    };
+
+    tick();
+    const intervalId = setInterval(tick, 1000);
+    return () => clearInterval(intervalId);
+  }, [enabled, getRemainingMs, onTimeout]);
+
+  const staySignedIn = useCallback(() => {
+    recordActivity();
+    setRemainingSeconds(Math.ceil(getRemainingMs() / 1000));
+  }, [recordActivity, getRemainingMs]);
+
+  return { remainingSeconds, showWarning, staySignedIn };
+};
@@ -0,0 +1,16 @@
+import { useCallback } from 'react';
+import { useUserStore } from '../stores/useUserStore';
+import { usePermissionStore } from '../stores/usePermissionStore';
+import type { Permission } from '../types/permission';
+
+export const usePermissions = () => {
+  const role = useUserStore(state => state.currentUser?.role);
+  const rolePermissions = usePermissionStore(state => state.rolePermissions);
+
+  const can = useCallback((permission: Permission) => {
+    if (!role) return false;
+    return rolePermissions[role]?.includes(permission) ?? false;
+  }, [role, rolePermissions]);
+
+  return { can };
+};
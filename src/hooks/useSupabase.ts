@@ -1,6 +1,8 @@
 import { useEffect, useState } from 'react';
 import { usePatientStore } from '../stores/usePatientStore';
 import { useConsultationStore } from '../stores/useConsultationStore';
+import { useUserStore } from '../stores/useUserStore';
+import { usePermissionStore } from '../stores/usePermissionStore';
 
 export const useSupabase = () => {
   const [isLoading, setIsLoading] = useState(true);
@@ -8,14 +10,23 @@ export const useSupabase = () => {
   
   const { fetchPatients } = usePatientStore();
   const { fetchConsultations } = useConsultationStore();
+  const { fetchRolePermissions } = usePermissionStore();
+  const currentUserId = useUserStore(state => state.currentUser?.id);
 
   useEffect(() => {
+    // Patient data is only loaded for a signed-in user, and reloaded when the user changes
+    if (!currentUserId) {
+      setIsLoading(false);
+      return;
+    }
+
     const initializeData = async () => {
       try {
         setIsLoading(true);
         await Promise.all([
           fetchPatients(),
-          fetchConsultations()
+          fetchConsultations(),
+          fetchRolePermissions()
         ]);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'An error occurred');
@@ -25,7 +36,7 @@ export const useSupabase = () => {
     };
 
     initializeData();
-  }, [fetchPatients, fetchConsultations]);
+  }, [fetchPatients, fetchConsultations, fetchRolePermissions, currentUserId]);
 
   return { isLoading, error };
 };
\ No newline at end of file
@@ -8,6 +8,15 @@ export interface Database {
           doctor_id: number;
           note_type: 'Progress Note' | 'Follow-up Note' | 'Consultation Note' | 'Discharge Note' | 'Discharge Summary';
           content: string;
+          sections: { key: string; label: string; content: string }[] | null;
+          status: 'draft' | 'signed';
+          signed_at: string | null;
+          signed_by: number | null;
+          updated_by: number | null;
+          cosigner_id: number | null;
+          cosign_status: 'pending' | 'cosigned' | 'returned' | null;
+          cosigned_at: string | null;
+          cosign_comment: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -17,6 +26,15 @@ export interface Database {
           doctor_id: number;
           note_type: 'Progress Note' | 'Follow-up Note' | 'Consultation Note' | 'Discharge Note' | 'Discharge Summary';
           content: string;
+          sections?: { key: string; label: string; content: string }[] | null;
+          status?: 'draft' | 'signed';
+          signed_at?: string | null;
+          signed_by?: number | null;
+          updated_by?: number | null;
+          cosigner_id?: number | null;
+          cosign_status?: 'pending' | 'cosigned' | 'returned' | null;
+          cosigned_at?: string | null;
+          cosign_comment?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -26,6 +44,15 @@ export interface Database {
           doctor_id?: number;
           note_type?: 'Progress Note' | 'Follow-up Note' | 'Consultation Note' | 'Discharge Note' | 'Discharge Summary';
           content?: string;
+          sections?: { key: string; label: string; content: string }[] | null;
+          status?: 'draft' | 'signed';
+          signed_at?: string | null;
+          signed_by?: number | null;
+          updated_by?: number | null;
+          cosigner_id?: number | null;
+          cosign_status?: 'pending' | 'cosigned' | 'returned' | null;
+          cosigned_at?: string | null;
+          cosign_comment?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -15,4 +15,47 @@ export const getPublicUrl = (bucket: string, path: string) => {
     .getPublicUrl(path);
   
   return data.publicUrl;
-};
\ No newline at end of file
+};
+
+// For private buckets: the URL stops working once expiresIn seconds have passed
+export const getSignedUrl = async (bucket: string, path: string, expiresIn: number) => {
+  const { data, error } = await supabaseStorage
+    .from(bucket)
+    .createSignedUrl(path, expiresIn);
+
+  if (error) throw error;
+  return data.signedUrl;
+};
+
+export const getSignedUrls = async (bucket: string, paths: string[], expiresIn: number) => {
+  const { data, error } = await supabaseStorage
+    .from(bucket)
+    .createSignedUrls(paths, expiresIn);
+
+  if (error) throw error;
+
+  const urls: Record<string, string> = {};
+  data.forEach(item => {
+    if (item.path && item.signedUrl) urls[item.path] = item.signedUrl;
+  });
+  return urls;
+};
+
+export const uploadFile = async (bucket: string, path: string, file: File) => {
+  const { error } = await supabaseStorage
+    .from(bucket)
+    .upload(path, file, { contentType: file.type, upsert: false });
+
+  if (error) throw error;
+};
+
+// Storage reports success without deleting anything when a policy denies the
+// delete, so an empty result is treated as a failure
+export const removeFile = async (bucket: string, path: string) => {
+  const { data, error } = await supabaseStorage
+    .from(bucket)
+    .remove([path]);
+
+  if (error) throw error;
+  if (!data || data.length === 0) throw new Error(`Could not remove ${path}`);
+};
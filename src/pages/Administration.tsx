@@ -1,54 +1,118 @@
-import React, { useState } from 'react';
-import UserManagement from '../components/Administration/UserManagement';
-import SystemSettings from '../components/Administration/SystemSettings';
-import ReportGenerator from '../components/Administration/ReportGenerator';
+import { useState } from 'react';
 import EmployeeManagement from '../components/Administration/EmployeeManagement';
+import RolePermissions from '../components/Administration/RolePermissions';
+import AuditLog from '../components/Administration/AuditLog';
+import PatientAccessLog from '../components/Administration/PatientAccessLog';
+import DuplicatePatients from '../components/Administration/DuplicatePatients';
+import WardManagement from '../components/Administration/WardManagement';
+import ShiftSettings from '../components/Administration/ShiftSettings';
+import TimeZoneSettings from '../components/Administration/TimeZoneSettings';
+import NoteTemplates from '../components/Administration/NoteTemplates';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/Tabs';
+import { usePermissions } from '../hooks/usePermissions';
 
 const Administration = () => {
   const [activeTab, setActiveTab] = useState('employees');
+  const { can } = usePermissions();
 
   return (
     <div className="flex-1 p-6">
       <div className="mb-6">
         <h1 className="text-2xl font-bold text-gray-900">Administration</h1>
-        <p className="text-gray-600">Manage system settings, reports, and user accounts</p>
+        <p className="text-gray-600">Manage employee accounts, access control and the audit trail</p>
       </div>
-      
+
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
         <TabsList className="bg-white border border-gray-200 rounded-lg p-1">
           <TabsTrigger value="employees" className="px-4 py-2">
             Employees
           </TabsTrigger>
-          <TabsTrigger value="reports" className="px-4 py-2">
-            Reports
-          </TabsTrigger>
-          <TabsTrigger value="users" className="px-4 py-2">
-            Users
-          </TabsTrigger>
-          <TabsTrigger value="settings" className="px-4 py-2">
-            Settings
-          </TabsTrigger>
+          {can('permissions.manage') && (
+            <TabsTrigger value="permissions" className="px-4 py-2">
+              Access Control
+            </TabsTrigger>
+          )}
+          {can('patients.merge') && (
+            <TabsTrigger value="duplicates" className="px-4 py-2">
+              Duplicate Patients
+            </TabsTrigger>
+          )}
+          {can('beds.manage') && (
+            <TabsTrigger value="wards" className="px-4 py-2">
+              Wards & Beds
+            </TabsTrigger>
+          )}
+          {can('settings.manage') && (
+            <TabsTrigger value="shifts" className="px-4 py-2">
+              Time & Shifts
+            </TabsTrigger>
+          )}
+          {can('templates.manage') && (
+            <TabsTrigger value="templates" className="px-4 py-2">
+              Note Templates
+            </TabsTrigger>
+          )}
+          {can('audit.view') && (
+            <TabsTrigger value="audit" className="px-4 py-2">
+              Audit Log
+            </TabsTrigger>
+          )}
+          {can('audit.view') && (
+            <TabsTrigger value="access" className="px-4 py-2">
+              Chart Access
+            </TabsTrigger>
+          )}
         </TabsList>
 
         <TabsContent value="employees" className="mt-6">
           <EmployeeManagement />
         </TabsContent>
 
-        <TabsContent value="reports" className="mt-6">
-          <ReportGenerator />
-        </TabsContent>
+        {can('permissions.manage') && (
+          <TabsContent value="permissions" className="mt-6">
+            <RolePermissions />
+          </TabsContent>
+        )}
 
-        <TabsContent value="users" className="mt-6">
-          <UserManagement />
-        </TabsContent>
+        {can('patients.merge') && (
+          <TabsContent value="duplicates" className="mt-6">
+            <DuplicatePatients />
+          </TabsContent>
+        )}
 
-        <TabsContent value="settings" className="mt-6">
-          <SystemSettings />
-        </TabsContent>
+        {can('beds.manage') && (
+          <TabsContent value="wards" className="mt-6">
+            <WardManagement />
+          </TabsContent>
+        )}
+
+        {can('settings.manage') && (
+          <TabsContent value="shifts" className="mt-6 space-y-6">
+            <TimeZoneSettings />
+            <ShiftSettings />
+          </TabsContent>
+        )}
+
+        {can('templates.manage') && (
+          <TabsContent value="templates" className="mt-6">
+            <NoteTemplates />
+          </TabsContent>
+        )}
+
+        {can('audit.view') && (
+          <TabsContent value="audit" className="mt-6">
+            <AuditLog />
+          </TabsContent>
+        )}
+
+        {can('audit.view') && (
+          <TabsContent value="access" className="mt-6">
+            <PatientAccessLog />
+          </TabsContent>
+        )}
       </Tabs>
     </div>
   );
 };
 
-export default Administration;
\ No newline at end of file
+export default Administration;
@@ -0,0 +1,321 @@
+import React, { useState, useEffect } from 'react';
+import { Filter, AlertCircle, BedDouble, X } from 'lucide-react';
+import { useBedStore } from '../stores/useBedStore';
+import { usePatientStore } from '../stores/usePatientStore';
+import { useVitalsStore } from '../stores/useVitalsStore';
+import { useMarStore } from '../stores/useMarStore';
+import { usePermissions } from '../hooks/usePermissions';
+import { getWardBeds, summarizeBeds } from '../utils/bedOccupancy';
+import BedTile from '../components/Beds/BedTile';
+import BedMoveDialog from '../components/Beds/BedMoveDialog';
+import DeterioratingPatients from '../components/Vitals/DeterioratingPatients';
+import OverdueMedications from '../components/Medications/OverdueMedications';
+import type { Bed } from '../types/bed';
+
+interface MoveTarget {
+  admissionId: number;
+  patientName: string;
+  department: string;
+  currentBed?: string;
+}
+
+const BedBoard: React.FC = () => {
+  const { wards, loading, error, fetchWards, setBedStatus, subscribeToUpdates } = useBedStore();
+  const { patients, fetchPatients, fetchPatientsByIds, setSelectedPatient } = usePatientStore();
+  const { latestVitals, fetchLatestVitals, subscribeToUpdates: subscribeToVitals } = useVitalsStore();
+  const { wardOrders, wardAdministrations, fetchWardMedications } = useMarStore();
+  const { can } = usePermissions();
+  const canAssign = can('beds.assign');
+  const [departmentFilter, setDepartmentFilter] = useState('all');
+  const [moveTarget, setMoveTarget] = useState<MoveTarget | null>(null);
+  const [blockTarget, setBlockTarget] = useState<Bed | null>(null);
+  const [blockNote, setBlockNote] = useState('');
+  const [actionError, setActionError] = useState('');
+
+  useEffect(() => {
+    fetchWards();
+    fetchPatients();
+    fetchLatestVitals();
+    fetchWardMedications();
+
+    const unsubscribe = subscribeToUpdates();
+    const unsubscribeVitals = subscribeToVitals();
+    return () => {
+      unsubscribe();
+      unsubscribeVitals();
+    };
+  }, [fetchWards, fetchPatients, fetchLatestVitals, fetchWardMedications, subscribeToUpdates, subscribeToVitals]);
+
+  const departments = Array.from(new Set(wards.map(ward => ward.department))).sort();
+  const visibleWards = wards.filter(ward => departmentFilter === 'all' || ward.department === departmentFilter);
+  const overall = summarizeBeds(visibleWards.flatMap(getWardBeds));
+
+  // Admitted patients who have not been given a bed yet
+  const beddedAdmissionIds = new Set(
+    wards.flatMap(getWardBeds).map(bed => bed.admission_id).filter(id => id !== null)
+  );
+  const unassigned = patients.flatMap(patient =>
+    (patient.admissions || [])
+      .filter(admission =>
+        admission.status === 'active' &&
+        !beddedAdmissionIds.has(admission.id) &&
+        (departmentFilter === 'all' || admission.department === departmentFilter)
+      )
+      .map(admission => ({ patient, admission }))
+  );
+
+  const openPatient = async (patientId: number) => {
+    try {
+      const [patient] = await fetchPatientsByIds([patientId]);
+      if (!patient) return;
+      setSelectedPatient(patient);
+      window.dispatchEvent(new CustomEvent('navigate', { detail: 'patient' }));
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to open patient');
+    }
+  };
+
+  const handleSetStatus = async (bed: Bed, status: 'free' | 'cleaning' | 'blocked', note?: string) => {
+    setActionError('');
+    try {
+      await setBedStatus(bed.id, status, note);
+      return true;
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to update bed');
+      return false;
+    }
+  };
+
+  const handleBlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!blockTarget || !blockNote.trim()) return;
+
+    if (await handleSetStatus(blockTarget, 'blocked', blockNote.trim())) {
+      setBlockTarget(null);
+      setBlockNote('');
+    }
+  };
+
+  const handleMove = (bed: Bed) => {
+    if (!bed.admission_id || !bed.admission) return;
+    setMoveTarget({
+      admissionId: bed.admission_id,
+      patientName: bed.admission.patient?.name || 'Patient',
+      department: bed.admission.department,
+      currentBed: bed.label
+    });
+  };
+
+  return (
+    <div className="flex-1 p-6">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Bed Board</h1>
+        <p className="text-gray-600">Live bed occupancy across all wards</p>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4">
+          <p className="text-sm text-gray-600">Occupancy</p>
+          <p className="text-2xl font-bold text-gray-900">{overall.occupancyRate}%</p>
+          <p className="text-xs text-gray-500">{overall.occupied} of {overall.capacity} beds</p>
+        </div>
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4">
+          <p className="text-sm text-gray-600">Free</p>
+          <p className="text-2xl font-bold text-green-600">{overall.free}</p>
+        </div>
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4">
+          <p className="text-sm text-gray-600">Occupied</p>
+          <p className="text-2xl font-bold text-indigo-600">{overall.occupied}</p>
+        </div>
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4">
+          <p className="text-sm text-gray-600">Cleaning</p>
+          <p className="text-2xl font-bold text-yellow-600">{overall.cleaning}</p>
+        </div>
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4">
+          <p className="text-sm text-gray-600">Blocked</p>
+          <p className="text-2xl font-bold text-gray-600">{overall.blocked}</p>
+        </div>
+      </div>
+
+      <div className="relative mb-6 max-w-sm">
+        <Filter className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+        <select
+          value={departmentFilter}
+          onChange={(e) => setDepartmentFilter(e.target.value)}
+          className="w-full pl-10 pr-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+        >
+          <option value="all">All Departments</option>
+          {departments.map(department => (
+            <option key={department} value={department}>{department}</option>
+          ))}
+        </select>
+      </div>
+
+      {(actionError || error) && (
+        <div className="mb-6 p-4 bg-red-50 text-red-700 rounded-lg flex items-center space-x-2">
+          <AlertCircle className="h-5 w-5" />
+          <span>{actionError || error}</span>
+        </div>
+      )}
+
+      <DeterioratingPatients
+        vitals={latestVitals.filter(set => departmentFilter === 'all' || set.department === departmentFilter)}
+        onOpenPatient={openPatient}
+      />
+
+      <OverdueMedications
+        orders={wardOrders.filter(order => departmentFilter === 'all' || order.admission?.department === departmentFilter)}
+        administrations={wardAdministrations}
+        onOpenPatient={openPatient}
+      />
+
+      {unassigned.length > 0 && (
+        <div className="mb-6 bg-white rounded-xl shadow-sm border border-yellow-200 p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Awaiting a Bed</h2>
+          <div className="divide-y divide-gray-200">
+            {unassigned.map(({ patient, admission }) => (
+              <div key={admission.id} className="flex items-center justify-between py-3">
+                <button onClick={() => openPatient(patient.id)} className="text-left">
+                  <p className="text-sm font-medium text-gray-900 hover:text-indigo-600">{patient.name}</p>
+                  <p className="text-xs text-gray-500">MRN: {patient.mrn} · {admission.department}</p>
+                </button>
+                {canAssign && (
+                  <button
+                    onClick={() => setMoveTarget({
+                      admissionId: admission.id,
+                      patientName: patient.name,
+                      department: admission.department
+                    })}
+                    className="flex items-center px-3 py-1 bg-indigo-600 text-white text-sm rounded-lg hover:bg-indigo-700"
+                  >
+                    <BedDouble className="h-4 w-4 mr-1" />
+                    Assign Bed
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {loading && wards.length === 0 ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="w-8 h-8 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : visibleWards.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12 text-center text-gray-500">
+          No wards have been set up yet
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {visibleWards.map(ward => {
+            const summary = summarizeBeds(getWardBeds(ward));
+
+            return (
+              <div key={ward.id} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-900">{ward.name}</h2>
+                    <p className="text-sm text-gray-500">{ward.department}</p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-sm font-medium text-gray-900">
+                      {summary.occupied} / {summary.capacity} occupied ({summary.occupancyRate}%)
+                    </p>
+                    <div className="mt-1 w-48 h-2 bg-gray-100 rounded-full overflow-hidden">
+                      <div
+                        className={`h-full ${summary.occupancyRate >= 90 ? 'bg-red-500' : summary.occupancyRate >= 75 ? 'bg-yellow-500' : 'bg-green-500'}`}
+                        style={{ width: `${Math.min(summary.occupancyRate, 100)}%` }}
+                      />
+                    </div>
+                  </div>
+                </div>
+
+                {ward.rooms.length === 0 ? (
+                  <p className="text-sm text-gray-500">No rooms in this ward</p>
+                ) : (
+                  <div className="space-y-4">
+                    {ward.rooms.map(room => (
+                      <div key={room.id}>
+                        <h3 className="text-sm font-medium text-gray-700 mb-2">Room {room.name}</h3>
+                        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-3">
+                          {room.beds.map(bed => (
+                            <BedTile
+                              key={bed.id}
+                              bed={bed}
+                              canAssign={canAssign}
+                              onOpenPatient={openPatient}
+                              onMove={handleMove}
+                              onBlock={setBlockTarget}
+                              onSetStatus={handleSetStatus}
+                            />
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {moveTarget && (
+        <BedMoveDialog
+          admissionId={moveTarget.admissionId}
+          patientName={moveTarget.patientName}
+          department={moveTarget.department}
+          currentBed={moveTarget.currentBed}
+          onClose={() => setMoveTarget(null)}
+        />
+      )}
+
+      {blockTarget && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <form onSubmit={handleBlock} className="bg-white rounded-xl shadow-xl max-w-md w-full p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold text-gray-900">Block Bed {blockTarget.label}</h2>
+              <button
+                type="button"
+                onClick={() => setBlockTarget(null)}
+                className="p-2 text-gray-400 hover:text-gray-600 rounded-lg"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <label htmlFor="blockNote" className="block text-sm font-medium text-gray-700 mb-1">
+              Reason
+            </label>
+            <textarea
+              id="blockNote"
+              rows={2}
+              value={blockNote}
+              onChange={(e) => setBlockNote(e.target.value)}
+              placeholder="e.g. Broken bed rail, isolation"
+              className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+            />
+            <div className="flex justify-end space-x-4 mt-6">
+              <button
+                type="button"
+                onClick={() => setBlockTarget(null)}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!blockNote.trim()}
+                className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Block Bed
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BedBoard;
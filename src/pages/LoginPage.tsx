@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React from 'react';
 import { ArrowLeft } from 'lucide-react';
 import Logo from '../components/Logo';
 import LoginForm from '../components/LoginForm';
@@ -9,21 +9,23 @@ interface LoginPageProps {
 }
 
 const LoginPage: React.FC<LoginPageProps> = ({ onLogin }) => {
-  const { login, loading, error } = useUserStore();
-  const [loginError, setLoginError] = useState<string | null>(null);
+  const { login, setPin, loading } = useUserStore();
 
   const handleBack = () => {
     window.location.href = '/';
   };
 
-  const handleLogin = async (medicalCode: string) => {
-    try {
-      setLoginError(null);
-      await login(medicalCode);
+  const handleLogin = async (medicalCode: string, pin: string) => {
+    const status = await login(medicalCode, pin);
+    if (status === 'authenticated') {
       onLogin();
-    } catch (err) {
-      setLoginError(err instanceof Error ? err.message : 'Failed to authenticate');
     }
+    return status;
+  };
+
+  const handleSetPin = async (medicalCode: string, currentPin: string, newPin: string) => {
+    await setPin(medicalCode, currentPin, newPin);
+    onLogin();
   };
 
   return (
@@ -44,14 +46,14 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLogin }) => {
             </div>
             <h2 className="text-3xl font-bold text-gray-900 mb-3">Welcome back</h2>
             <p className="text-gray-600">
-              Please sign in with your medical code
+              Please sign in with your medical code and PIN
             </p>
           </div>
           
           <LoginForm 
             onLogin={handleLogin} 
+            onSetPin={handleSetPin}
             loading={loading}
-            error={loginError || error}
           />
         </div>
       </div>
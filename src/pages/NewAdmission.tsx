@@ -6,7 +6,7 @@ const NewAdmission: React.FC = () => {
     <div className="flex-1 p-6">
       <div className="mb-6">
         <h1 className="text-2xl font-bold text-gray-900">New Patient Admission</h1>
-        <p className="text-gray-600">Register a new patient admission</p>
+        <p className="text-gray-600">Register a new patient or readmit a returning one by MRN</p>
       </div>
       
       <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
@@ -1,10 +1,27 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import PatientHeader from '../components/PatientProfile/PatientHeader';
 import PatientInfo from '../components/PatientProfile/PatientInfo';
 import AdmissionHistory from '../components/PatientProfile/AdmissionHistory';
 import MedicalNotes from '../components/PatientProfile/MedicalNotes';
+import VitalSigns from '../components/PatientProfile/VitalSigns';
+import Medications from '../components/PatientProfile/Medications';
+import MarChart from '../components/Medications/MarChart';
+import Allergies from '../components/PatientProfile/Allergies';
+import LabResults from '../components/PatientProfile/LabResults';
+import Attachments from '../components/PatientProfile/Attachments';
+import { usePatientStore } from '../stores/usePatientStore';
+import { usePatientAccessStore } from '../stores/usePatientAccessStore';
 
 const PatientProfile = () => {
+  const selectedPatientId = usePatientStore(state => state.selectedPatient?.id);
+  const logAccess = usePatientAccessStore(state => state.logAccess);
+
+  useEffect(() => {
+    if (selectedPatientId) {
+      logAccess(selectedPatientId, 'view');
+    }
+  }, [selectedPatientId, logAccess]);
+
   return (
     <div className="flex-1 p-6">
       <PatientHeader />
@@ -12,10 +29,16 @@ const PatientProfile = () => {
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mt-6">
         <div className="lg:col-span-1 space-y-6">
           <PatientInfo />
+          <Allergies />
           <AdmissionHistory />
         </div>
         <div className="lg:col-span-2">
+          <VitalSigns />
+          <LabResults />
+          <Medications />
+          <MarChart />
           <MedicalNotes />
+          <Attachments />
         </div>
       </div>
     </div>
@@ -1,15 +1,17 @@
 import React from 'react';
 import UserProfile from '../components/Profile/UserProfile';
+import SmartPhrases from '../components/Profile/SmartPhrases';
 
 const Profile: React.FC = () => {
   return (
     <div className="flex-1 p-6">
       <div className="mb-6">
         <h1 className="text-2xl font-bold text-gray-900">Profile</h1>
-        <p className="text-gray-600">View your profile information</p>
+        <p className="text-gray-600">View your profile information and manage your smart phrases</p>
       </div>
       
       <UserProfile />
+      <SmartPhrases />
     </div>
   );
 };
@@ -3,10 +3,12 @@ import { Calendar, Download, FileText, Filter, Printer, RefreshCw } from 'lucide
 import { usePatientStore } from '../../stores/usePatientStore';
 import { useConsultationStore } from '../../stores/useConsultationStore';
 import { exportAdminPDF } from '../../utils/adminPdfExport';
+import { usePermissions } from '../../hooks/usePermissions';
 import DoctorStats from './DoctorStats';
 import SpecialtyStats from './SpecialtyStats';
 import SafetyAdmissionStats from './SafetyStats/SafetyAdmissionStats';
 import DischargeStats from './DischargeStats';
+import TransferStats from './TransferStats';
 import OccupancyChart from './OccupancyChart';
 import AdmissionTrends from './AdmissionTrends';
 import ConsultationMetrics from './ConsultationMetrics';
@@ -22,6 +24,7 @@ interface DateFilter {
 const AdminReports: React.FC = () => {
   const { patients } = usePatientStore();
   const { consultations } = useConsultationStore();
+  const { can } = usePermissions();
   const [isExporting, setIsExporting] = useState(false);
   const [dateFilter, setDateFilter] = useState<DateFilter>({
     startDate: new Date().toISOString().split('T')[0],
@@ -89,9 +92,7 @@ const AdminReports: React.FC = () => {
   const totalPatients = filteredPatients.length;
   
   const activePatients = filteredPatients.filter(patient => 
-    patient.admissions?.[0]?.status === 'active' &&
-    new Date(patient.admissions[0].admission_date) >= new Date(dateFilter.startDate) &&
-    new Date(patient.admissions[0].admission_date) <= new Date(dateFilter.endDate)
+    patient.admissions?.[0]?.status === 'active'
   ).length;
 
   const dischargedPatients = filteredPatients.filter(patient =>
@@ -125,23 +126,25 @@ const AdminReports: React.FC = () => {
                 <Printer className="h-4 w-4" />
                 <span>Print</span>
               </button>
-              <button
-                onClick={handleExport}
-                disabled={isExporting}
-                className="flex items-center space-x-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
-              >
-                {isExporting ? (
-                  <>
-                    <RefreshCw className="h-4 w-4 animate-spin" />
-                    <span>Exporting...</span>
-                  </>
-                ) : (
-                  <>
-                    <Download className="h-4 w-4" />
-                    <span>Export PDF</span>
-                  </>
-                )}
-              </button>
+              {can('reports.export') && (
+                <button
+                  onClick={handleExport}
+                  disabled={isExporting}
+                  className="flex items-center space-x-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+                >
+                  {isExporting ? (
+                    <>
+                      <RefreshCw className="h-4 w-4 animate-spin" />
+                      <span>Exporting...</span>
+                    </>
+                  ) : (
+                    <>
+                      <Download className="h-4 w-4" />
+                      <span>Export PDF</span>
+                    </>
+                  )}
+                </button>
+              )}
             </div>
           </div>
 
@@ -243,6 +246,8 @@ const AdminReports: React.FC = () => {
 
             <DischargeStats dateFilter={dateFilter} />
 
+            <TransferStats dateFilter={dateFilter} />
+
             <LongStayReport dateFilter={dateFilter} />
           </div>
         </div>
@@ -1,8 +1,13 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { usePatientStore } from '../../stores/usePatientStore';
+import { useSettingsStore } from '../../stores/useSettingsStore';
 import { formatDate } from '../../utils/dateFormat';
+import { getHospitalDayRange } from '../../utils/hospitalTime';
+import { isDischarge, isTransferSegment } from '../../utils/stayCalculator';
+import DiagnosisBreakdown from '../../components/Diagnosis/DiagnosisBreakdown';
 import type { Patient } from '../../types/patient';
+import type { DiagnosisGrouping } from '../../types/diagnosis';
 
 interface AdmissionTrendsProps {
   dateFilter: {
@@ -21,6 +26,8 @@ interface TrendData {
 
 const AdmissionTrends: React.FC<AdmissionTrendsProps> = ({ dateFilter }) => {
   const { patients } = usePatientStore();
+  const { timeZone } = useSettingsStore();
+  const [diagnosisGrouping, setDiagnosisGrouping] = useState<DiagnosisGrouping>('chapter');
 
   const getTrendData = (): TrendData[] => {
     const startDate = new Date(dateFilter.startDate);
@@ -32,19 +39,21 @@ const AdmissionTrends: React.FC<AdmissionTrendsProps> = ({ dateFilter }) => {
       
       const admissions = patients.filter((patient: Patient) => 
         patient.admissions?.some(admission => 
+          !isTransferSegment(admission) &&
           new Date(admission.admission_date).toISOString().split('T')[0] === dateStr
         )
       ).length;
 
       const discharges = patients.filter((patient: Patient) => 
         patient.admissions?.some(admission => 
-          admission.discharge_date && 
-          new Date(admission.discharge_date).toISOString().split('T')[0] === dateStr
+          isDischarge(admission) && 
+          new Date(admission.discharge_date!).toISOString().split('T')[0] === dateStr
         )
       ).length;
 
       const readmissions = patients.filter((patient: Patient) => 
         patient.admissions?.some(admission => 
+          !isTransferSegment(admission) &&
           new Date(admission.admission_date).toISOString().split('T')[0] === dateStr &&
           admission.visit_number > 1
         )
@@ -66,6 +75,13 @@ const AdmissionTrends: React.FC<AdmissionTrendsProps> = ({ dateFilter }) => {
   const totalDischarges = data.reduce((sum, day) => sum + day.discharges, 0);
   const totalReadmissions = data.reduce((sum, day) => sum + day.readmissions, 0);
 
+  const range = getHospitalDayRange(dateFilter.startDate, dateFilter.endDate, timeZone);
+  const admissionsInRange = patients.flatMap(patient => patient.admissions || []).filter(admission => {
+    if (isTransferSegment(admission)) return false;
+    const admittedAt = new Date(admission.admission_date);
+    return admittedAt >= range.start && admittedAt < range.end;
+  });
+
   return (
     <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
       <h2 className="text-lg font-semibold text-gray-900 mb-6">Admission Trends</h2>
@@ -133,6 +149,21 @@ const AdmissionTrends: React.FC<AdmissionTrendsProps> = ({ dateFilter }) => {
           <p className="text-2xl font-bold text-yellow-900">{totalReadmissions}</p>
         </div>
       </div>
+
+      <div className="mt-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-base font-semibold text-gray-900">Admissions by Diagnosis</h3>
+          <select
+            value={diagnosisGrouping}
+            onChange={(e) => setDiagnosisGrouping(e.target.value as DiagnosisGrouping)}
+            className="px-3 py-1 text-sm rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+          >
+            <option value="chapter">By ICD-10 chapter</option>
+            <option value="code">By ICD-10 code</option>
+          </select>
+        </div>
+        <DiagnosisBreakdown admissions={admissionsInRange} grouping={diagnosisGrouping} />
+      </div>
     </div>
   );
 };
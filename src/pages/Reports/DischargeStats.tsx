@@ -1,7 +1,9 @@
 import React from 'react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { usePatientStore } from '../../stores/usePatientStore';
-import { formatDate } from '../../utils/dateFormat';
+import { useSettingsStore } from '../../stores/useSettingsStore';
+import { calculateStayHours, formatStayDuration, getStayStartDate, isDischarge } from '../../utils/stayCalculator';
+import { getHospitalDayRange, toHospitalTime } from '../../utils/hospitalTime';
 
 interface DischargeStatsProps {
   dateFilter: {
@@ -13,25 +15,31 @@ interface DischargeStatsProps {
 
 const DischargeStats: React.FC<DischargeStatsProps> = ({ dateFilter }) => {
   const { patients } = usePatientStore();
+  const { timeZone } = useSettingsStore();
 
-  const getDischargeData = () => {
-    const dischargedPatients = patients.filter(patient =>
-      patient.admissions?.some(admission =>
-        admission.status === 'discharged' &&
-        admission.discharge_date &&
-        new Date(admission.discharge_date) >= new Date(dateFilter.startDate) &&
-        new Date(admission.discharge_date) <= new Date(dateFilter.endDate)
-      )
-    );
+  const getDischarges = () => {
+    const { start, end } = getHospitalDayRange(dateFilter.startDate, dateFilter.endDate, timeZone);
+
+    return patients
+      .flatMap(patient => (patient.admissions || []).map(admission => ({
+        ...admission,
+        stay_start_date: getStayStartDate(admission, patient.admissions)
+      })))
+      .filter(admission =>
+        isDischarge(admission) &&
+        new Date(admission.discharge_date!) >= start &&
+        new Date(admission.discharge_date!) < end
+      );
+  };
+
+  const discharges = getDischarges();
 
-    const specialtyData = new Map();
-    dischargedPatients.forEach(patient => {
-      const admission = patient.admissions?.find(a => a.status === 'discharged');
-      if (admission) {
-        const specialty = admission.department;
-        const currentCount = specialtyData.get(specialty) || 0;
-        specialtyData.set(specialty, currentCount + 1);
-      }
+  const getDischargeData = () => {
+    const specialtyData = new Map<string, number>();
+    discharges.forEach(admission => {
+      const specialty = admission.department;
+      const currentCount = specialtyData.get(specialty) || 0;
+      specialtyData.set(specialty, currentCount + 1);
     });
 
     return Array.from(specialtyData.entries()).map(([specialty, count]) => ({
@@ -40,48 +48,46 @@ const DischargeStats: React.FC<DischargeStatsProps> = ({ dateFilter }) => {
     }));
   };
 
-  const calculateAverageStay = () => {
-    const dischargedPatients = patients.filter(patient =>
-      patient.admissions?.some(admission =>
-        admission.status === 'discharged' &&
-        admission.discharge_date &&
-        new Date(admission.discharge_date) >= new Date(dateFilter.startDate) &&
-        new Date(admission.discharge_date) <= new Date(dateFilter.endDate)
-      )
-    );
-
-    if (dischargedPatients.length === 0) return 0;
+  const calculateAverageStayHours = () => {
+    if (discharges.length === 0) return 0;
 
-    const totalDays = dischargedPatients.reduce((sum, patient) => {
-      const admission = patient.admissions?.find(a => a.status === 'discharged');
-      if (admission && admission.discharge_date) {
-        const admissionDate = new Date(admission.admission_date);
-        const dischargeDate = new Date(admission.discharge_date);
-        const days = Math.ceil((dischargeDate.getTime() - admissionDate.getTime()) / (1000 * 60 * 60 * 24));
-        return sum + days;
-      }
-      return sum;
-    }, 0);
+    const totalHours = discharges.reduce(
+      (sum, admission) => sum + calculateStayHours(admission.stay_start_date, admission.discharge_date),
+      0
+    );
 
-    return Math.round(totalDays / dischargedPatients.length);
+    return totalHours / discharges.length;
   };
 
+  // Morning discharges free beds for the day's admissions
+  const dischargedBeforeNoon = discharges.filter(admission =>
+    toHospitalTime(admission.discharge_date!, timeZone).getHours() < 12
+  ).length;
+
   const data = getDischargeData();
-  const averageStay = calculateAverageStay();
-  const totalDischarges = data.reduce((sum, item) => sum + item.discharges, 0);
+  const averageStayHours = calculateAverageStayHours();
+  const totalDischarges = discharges.length;
 
   return (
     <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
       <h2 className="text-lg font-semibold text-gray-900 mb-6">Discharge Statistics</h2>
 
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
         <div className="p-4 bg-indigo-50 rounded-lg">
           <p className="text-sm font-medium text-indigo-600">Total Discharges</p>
           <p className="text-2xl font-bold text-indigo-900">{totalDischarges}</p>
         </div>
         <div className="p-4 bg-green-50 rounded-lg">
           <p className="text-sm font-medium text-green-600">Average Length of Stay</p>
-          <p className="text-2xl font-bold text-green-900">{averageStay} days</p>
+          <p className="text-2xl font-bold text-green-900">{(averageStayHours / 24).toFixed(1)} days</p>
+          <p className="text-xs text-green-700">{formatStayDuration(averageStayHours)}</p>
+        </div>
+        <div className="p-4 bg-yellow-50 rounded-lg">
+          <p className="text-sm font-medium text-yellow-600">Discharged Before Noon</p>
+          <p className="text-2xl font-bold text-yellow-900">
+            {totalDischarges > 0 ? Math.round((dischargedBeforeNoon / totalDischarges) * 100) : 0}%
+          </p>
+          <p className="text-xs text-yellow-700">{dischargedBeforeNoon} of {totalDischarges}</p>
         </div>
         <div className="p-4 bg-blue-50 rounded-lg">
           <p className="text-sm font-medium text-blue-600">Discharge Rate</p>
@@ -3,6 +3,7 @@ import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, Responsive
 import { useUserStore } from '../../stores/useUserStore';
 import { usePatientStore } from '../../stores/usePatientStore';
 import { useConsultationStore } from '../../stores/useConsultationStore';
+import { getStayStartDate } from '../../utils/stayCalculator';
 import type { User } from '../../types/user';
 import type { Patient } from '../../types/patient';
 import type { Consultation } from '../../types/consultation';
@@ -49,12 +50,13 @@ const DoctorStats: React.FC<DoctorStatsProps> = ({ dateFilter }) => {
     return doctors.map(doctor => {
       const activePatients = patients.filter((patient: Patient) => {
         const admissions = patient.admissions;
-        return admissions?.some(admission => 
-          admission.admitting_doctor?.name === doctor.name &&
-          admission.status === 'active' &&
-          new Date(admission.admission_date) >= new Date(dateFilter.startDate) &&
-          new Date(admission.admission_date) <= new Date(dateFilter.endDate)
-        );
+        return admissions?.some(admission => {
+          const admittedAt = new Date(getStayStartDate(admission, admissions));
+          return admission.admitting_doctor?.name === doctor.name &&
+            admission.status === 'active' &&
+            admittedAt >= new Date(dateFilter.startDate) &&
+            admittedAt <= new Date(dateFilter.endDate);
+        });
       }).length;
 
       const pendingConsultations = consultations.filter((consultation: Consultation) =>
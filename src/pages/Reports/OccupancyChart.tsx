@@ -1,8 +1,8 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import { usePatientStore } from '../../stores/usePatientStore';
+import { useBedStore } from '../../stores/useBedStore';
 import { formatDate } from '../../utils/dateFormat';
-import type { Patient } from '../../types/patient';
+import { countOccupiedBeds, getWardBeds, summarizeBeds } from '../../utils/bedOccupancy';
 
 interface OccupancyChartProps {
   dateFilter: {
@@ -15,10 +15,21 @@ interface OccupancyChartProps {
 interface OccupancyData {
   date: string;
   occupancy: number;
+  occupiedBeds: number;
 }
 
 const OccupancyChart: React.FC<OccupancyChartProps> = ({ dateFilter }) => {
-  const { patients } = usePatientStore();
+  const { wards, assignments, fetchWards, fetchAssignments } = useBedStore();
+
+  useEffect(() => {
+    fetchWards();
+  }, [fetchWards]);
+
+  useEffect(() => {
+    fetchAssignments(dateFilter.startDate, dateFilter.endDate);
+  }, [dateFilter.startDate, dateFilter.endDate, fetchAssignments]);
+
+  const { capacity } = summarizeBeds(wards.flatMap(getWardBeds));
 
   const getOccupancyData = (): OccupancyData[] => {
     const startDate = new Date(dateFilter.startDate);
@@ -27,17 +38,12 @@ const OccupancyChart: React.FC<OccupancyChartProps> = ({ dateFilter }) => {
 
     for (let date = new Date(startDate); date <= endDate; date.setDate(date.getDate() + 1)) {
       const dateStr = date.toISOString().split('T')[0];
-      const activePatients = patients.filter((patient: Patient) => 
-        patient.admissions?.some(admission => 
-          admission.status === 'active' &&
-          new Date(admission.admission_date) <= date &&
-          (!admission.discharge_date || new Date(admission.discharge_date) > date)
-        )
-      ).length;
+      const occupiedBeds = countOccupiedBeds(assignments, date);
 
       data.push({
         date: dateStr,
-        occupancy: Math.round((activePatients / 100) * 100) // Assuming 100 beds capacity
+        occupancy: capacity > 0 ? Math.round((occupiedBeds / capacity) * 100) : 0,
+        occupiedBeds
       });
     }
 
@@ -68,7 +74,7 @@ const OccupancyChart: React.FC<OccupancyChartProps> = ({ dateFilter }) => {
               domain={[0, 100]}
             />
             <Tooltip 
-              formatter={(value: number) => [`${value}%`, 'Occupancy Rate']}
+              formatter={(value: number, _name, item) => [`${value}% (${item.payload.occupiedBeds} beds)`, 'Occupancy Rate']}
               labelFormatter={date => formatDate(date)}
             />
             <Legend />
@@ -86,7 +92,11 @@ const OccupancyChart: React.FC<OccupancyChartProps> = ({ dateFilter }) => {
       </div>
 
       <div className="mt-6 flex items-center justify-between text-sm text-gray-600">
-        <p>Based on total capacity of 100 beds</p>
+        <p>
+          {capacity > 0
+            ? `Based on ${capacity} available beds (excluding blocked beds)`
+            : 'No beds are configured yet'}
+        </p>
         <div className="flex items-center space-x-2">
           <div className="w-3 h-3 bg-indigo-600 rounded-full"></div>
           <span>Current Occupancy Rate</span>
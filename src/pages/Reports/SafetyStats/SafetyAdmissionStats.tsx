@@ -1,6 +1,9 @@
 import React from 'react';
 import { Shield } from 'lucide-react';
 import { usePatientStore } from '../../../stores/usePatientStore';
+import { useSettingsStore } from '../../../stores/useSettingsStore';
+import { getHospitalDayRange } from '../../../utils/hospitalTime';
+import { calculateStayHours, getStayStartDate } from '../../../utils/stayCalculator';
 import SafetyPieChart from './SafetyPieChart';
 import SafetyMetrics from './SafetyMetrics';
 import SafetyTypeList from './SafetyTypeList';
@@ -18,14 +21,19 @@ interface SafetyAdmissionStatsProps {
 
 const SafetyAdmissionStats: React.FC<SafetyAdmissionStatsProps> = ({ dateFilter }) => {
   const { patients } = usePatientStore();
+  const { timeZone } = useSettingsStore();
+  const range = getHospitalDayRange(dateFilter.startDate, dateFilter.endDate, timeZone);
+  const inRange = (admission: Admission, admissions: Admission[] | undefined) => {
+    const admittedAt = new Date(getStayStartDate(admission, admissions));
+    return admittedAt >= range.start && admittedAt < range.end;
+  };
 
   // Get all active admissions within date range
   const activeAdmissions = patients.filter((patient: Patient) => {
     const admissions = patient.admissions as Admission[] | undefined;
     const activeAdmission = admissions?.find(admission => 
       admission.status === 'active' &&
-      new Date(admission.admission_date) >= new Date(dateFilter.startDate) &&
-      new Date(admission.admission_date) <= new Date(dateFilter.endDate)
+      inRange(admission, admissions)
     );
 
     return !!activeAdmission;
@@ -36,8 +44,7 @@ const SafetyAdmissionStats: React.FC<SafetyAdmissionStatsProps> = ({ dateFilter
     const admissions = patient.admissions as Admission[] | undefined;
     const activeAdmission = admissions?.find(admission => 
       admission.status === 'active' &&
-      new Date(admission.admission_date) >= new Date(dateFilter.startDate) &&
-      new Date(admission.admission_date) <= new Date(dateFilter.endDate)
+      inRange(admission, admissions)
     );
 
     if (activeAdmission?.safety_type) {
@@ -77,30 +84,27 @@ const SafetyAdmissionStats: React.FC<SafetyAdmissionStatsProps> = ({ dateFilter
     ? Math.round((totalSafetyAdmissions / totalActiveAdmissions) * 100) 
     : 0;
 
-  // Calculate average stay duration for discharged safety admissions
+  // Calculate average time in safety admission, in hours, for discharged safety admissions
   const calculateAverageStay = () => {
     const dischargedSafetyAdmissions = patients.flatMap(patient => {
       const admissions = patient.admissions as Admission[] | undefined;
       if (!admissions) return [];
 
-      return admissions.filter(admission => 
-        admission.safety_type &&
-        admission.status === 'discharged' &&
-        admission.discharge_date &&
-        new Date(admission.admission_date) >= new Date(dateFilter.startDate) &&
-        new Date(admission.admission_date) <= new Date(dateFilter.endDate)
-      );
+      return admissions
+        .filter(admission => 
+          admission.safety_type &&
+          admission.status === 'discharged' &&
+          admission.discharge_date &&
+          inRange(admission, admissions)
+        )
+        .map(admission => calculateStayHours(getStayStartDate(admission, admissions), admission.discharge_date!));
     });
 
     if (dischargedSafetyAdmissions.length === 0) return 0;
 
-    const totalDays = dischargedSafetyAdmissions.reduce((sum, admission) => {
-      const admissionDate = new Date(admission.admission_date);
-      const dischargeDate = new Date(admission.discharge_date!);
-      return sum + Math.ceil((dischargeDate.getTime() - admissionDate.getTime()) / (1000 * 60 * 60 * 24));
-    }, 0);
+    const totalHours = dischargedSafetyAdmissions.reduce((sum, hours) => sum + hours, 0);
 
-    return Math.round(totalDays / dischargedSafetyAdmissions.length);
+    return totalHours / dischargedSafetyAdmissions.length;
   };
 
   return (
@@ -1,9 +1,11 @@
 import React from 'react';
 import { Shield, Activity, Clock } from 'lucide-react';
+import { formatStayDuration } from '../../../utils/stayCalculator';
 
 export interface SafetyMetricsProps {
   total: number;
   safetyRate: number;
+  /** Average time in safety admission, in hours */
   averageStay: number;
   emergencyCount: number;
   observationCount: number;
@@ -62,9 +64,9 @@ const SafetyMetrics: React.FC<SafetyMetricsProps> = ({
         <div className="p-4 bg-blue-50 rounded-lg">
           <div className="flex items-center space-x-2 mb-1">
             <Clock className="h-4 w-4 text-blue-600" />
-            <p className="text-sm font-medium text-blue-600">Average Stay</p>
+            <p className="text-sm font-medium text-blue-600">Average Time in Safety</p>
           </div>
-          <p className="text-2xl font-bold text-blue-900">{averageStay} days</p>
+          <p className="text-2xl font-bold text-blue-900">{formatStayDuration(averageStay)}</p>
           <p className="text-xs text-blue-600">for safety admissions</p>
         </div>
       </div>
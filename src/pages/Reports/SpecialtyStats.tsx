@@ -1,6 +1,9 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { Activity } from 'lucide-react';
+import DiagnosisBreakdown from '../../components/Diagnosis/DiagnosisBreakdown';
+import { isTransferSegment } from '../../utils/stayCalculator';
+import type { DiagnosisGrouping } from '../../types/diagnosis';
 
 interface SpecialtyStatsProps {
   patients: any[];
@@ -21,6 +24,8 @@ const specialties = [
 ];
 
 const SpecialtyStats: React.FC<SpecialtyStatsProps> = ({ patients, consultations }) => {
+  const [groupBy, setGroupBy] = useState<'department' | DiagnosisGrouping>('department');
+
   const getSpecialtyData = () => {
     return specialties.map(specialty => {
       // Count active patients in this specialty
@@ -53,57 +58,79 @@ const SpecialtyStats: React.FC<SpecialtyStatsProps> = ({ patients, consultations
 
   return (
     <div className="bg-white rounded-lg border border-gray-200 p-4">
-      <div className="flex items-center space-x-2 mb-4">
-        <Activity className="h-5 w-5 text-indigo-600" />
-        <h3 className="text-lg font-semibold text-gray-900">Specialty Statistics</h3>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <Activity className="h-5 w-5 text-indigo-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Specialty Statistics</h3>
+        </div>
+        <select
+          value={groupBy}
+          onChange={(e) => setGroupBy(e.target.value as typeof groupBy)}
+          className="px-3 py-1 text-sm rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+        >
+          <option value="department">By department</option>
+          <option value="chapter">By ICD-10 chapter</option>
+          <option value="code">By ICD-10 code</option>
+        </select>
       </div>
 
-      <div className="h-[400px]">
-        <ResponsiveContainer width="100%" height="100%">
-          <BarChart
-            data={data}
-            margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
-          >
-            <CartesianGrid strokeDasharray="3 3" />
-            <XAxis 
-              dataKey="name" 
-              angle={-45}
-              textAnchor="end"
-              height={100}
-              interval={0}
-              tick={{ fontSize: 12 }}
-            />
-            <YAxis />
-            <Tooltip />
-            <Legend />
-            <Bar dataKey="patients" name="Active Patients" fill="#4f46e5" />
-            <Bar dataKey="consultations" name="Active Consultations" fill="#06b6d4" />
-            <Bar dataKey="occupancyRate" name="Occupancy Rate %" fill="#10b981" />
-          </BarChart>
-        </ResponsiveContainer>
-      </div>
+      {groupBy !== 'department' ? (
+        <DiagnosisBreakdown
+          admissions={patients
+            .flatMap(patient => patient.admissions || [])
+            .filter(admission => !isTransferSegment(admission))}
+          grouping={groupBy}
+        />
+      ) : (
+        <>
+          <div className="h-[400px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart
+                data={data}
+                margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
+              >
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis 
+                  dataKey="name" 
+                  angle={-45}
+                  textAnchor="end"
+                  height={100}
+                  interval={0}
+                  tick={{ fontSize: 12 }}
+                />
+                <YAxis />
+                <Tooltip />
+                <Legend />
+                <Bar dataKey="patients" name="Active Patients" fill="#4f46e5" />
+                <Bar dataKey="consultations" name="Active Consultations" fill="#06b6d4" />
+                <Bar dataKey="occupancyRate" name="Occupancy Rate %" fill="#10b981" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
 
-      <div className="mt-4 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-        {data.map(specialty => (
-          <div 
-            key={specialty.name}
-            className="p-3 bg-gray-50 rounded-lg"
-          >
-            <h4 className="font-medium text-gray-900 mb-2">{specialty.name}</h4>
-            <div className="space-y-1 text-sm">
-              <p className="text-gray-600">
-                Active Patients: <span className="font-medium text-gray-900">{specialty.patients}</span>
-              </p>
-              <p className="text-gray-600">
-                Consultations: <span className="font-medium text-gray-900">{specialty.consultations}</span>
-              </p>
-              <p className="text-gray-600">
-                Occupancy: <span className="font-medium text-gray-900">{specialty.occupancyRate}%</span>
-              </p>
-            </div>
+          <div className="mt-4 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {data.map(specialty => (
+              <div 
+                key={specialty.name}
+                className="p-3 bg-gray-50 rounded-lg"
+              >
+                <h4 className="font-medium text-gray-900 mb-2">{specialty.name}</h4>
+                <div className="space-y-1 text-sm">
+                  <p className="text-gray-600">
+                    Active Patients: <span className="font-medium text-gray-900">{specialty.patients}</span>
+                  </p>
+                  <p className="text-gray-600">
+                    Consultations: <span className="font-medium text-gray-900">{specialty.consultations}</span>
+                  </p>
+                  <p className="text-gray-600">
+                    Occupancy: <span className="font-medium text-gray-900">{specialty.occupancyRate}%</span>
+                  </p>
+                </div>
+              </div>
+            ))}
           </div>
-        ))}
-      </div>
+        </>
+      )}
     </div>
   );
 };
@@ -0,0 +1,154 @@
+import React, { useEffect } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { useTransferStore } from '../../stores/useTransferStore';
+import { formatDate } from '../../utils/dateFormat';
+
+interface TransferStatsProps {
+  dateFilter: {
+    startDate: string;
+    endDate: string;
+    period: string;
+  };
+}
+
+const TransferStats: React.FC<TransferStatsProps> = ({ dateFilter }) => {
+  const { transfers, loading, error, fetchTransfers } = useTransferStore();
+
+  useEffect(() => {
+    fetchTransfers(dateFilter.startDate, dateFilter.endDate);
+  }, [dateFilter.startDate, dateFilter.endDate, fetchTransfers]);
+
+  const getDepartmentData = () => {
+    const departmentData = new Map<string, { transfersOut: number; transfersIn: number }>();
+
+    transfers.forEach(transfer => {
+      const from = departmentData.get(transfer.from_department) || { transfersOut: 0, transfersIn: 0 };
+      departmentData.set(transfer.from_department, { ...from, transfersOut: from.transfersOut + 1 });
+
+      const to = departmentData.get(transfer.to_department) || { transfersOut: 0, transfersIn: 0 };
+      departmentData.set(transfer.to_department, { ...to, transfersIn: to.transfersIn + 1 });
+    });
+
+    return Array.from(departmentData.entries()).map(([department, counts]) => ({
+      department,
+      ...counts
+    }));
+  };
+
+  const getTopRoute = () => {
+    const routes = new Map<string, number>();
+    transfers.forEach(transfer => {
+      const route = `${transfer.from_department} → ${transfer.to_department}`;
+      routes.set(route, (routes.get(route) || 0) + 1);
+    });
+
+    const sorted = Array.from(routes.entries()).sort((a, b) => b[1] - a[1]);
+    return sorted[0]?.[0] || 'None';
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <div className="flex items-center justify-center h-32">
+          <div className="w-8 h-8 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <div className="p-4 bg-red-50 text-red-700 rounded-lg">{error}</div>
+      </div>
+    );
+  }
+
+  const data = getDepartmentData();
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-6">Transfer Statistics</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <div className="p-4 bg-indigo-50 rounded-lg">
+          <p className="text-sm font-medium text-indigo-600">Total Transfers</p>
+          <p className="text-2xl font-bold text-indigo-900">{transfers.length}</p>
+        </div>
+        <div className="p-4 bg-yellow-50 rounded-lg">
+          <p className="text-sm font-medium text-yellow-600">Patients Transferred</p>
+          <p className="text-2xl font-bold text-yellow-900">
+            {new Set(transfers.map(transfer => transfer.patient_id)).size}
+          </p>
+        </div>
+        <div className="p-4 bg-blue-50 rounded-lg">
+          <p className="text-sm font-medium text-blue-600">Most Common Route</p>
+          <p className="text-sm font-bold text-blue-900 mt-2">{getTopRoute()}</p>
+        </div>
+      </div>
+
+      {transfers.length === 0 ? (
+        <div className="text-center py-6 text-gray-500">
+          No transfers in this period
+        </div>
+      ) : (
+        <>
+          <div className="h-[400px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart
+                data={data}
+                margin={{ top: 20, right: 30, left: 20, bottom: 60 }}
+              >
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  dataKey="department"
+                  angle={-45}
+                  textAnchor="end"
+                  height={100}
+                  interval={0}
+                />
+                <YAxis allowDecimals={false} />
+                <Tooltip />
+                <Legend />
+                <Bar dataKey="transfersOut" name="Transferred Out" fill="#f59e0b" radius={[4, 4, 0, 0]} />
+                <Bar dataKey="transfersIn" name="Transferred In" fill="#4f46e5" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="mt-6 overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Patient</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">From</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">To</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Receiving Doctor</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Reason</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {transfers.map(transfer => (
+                  <tr key={transfer.id}>
+                    <td className="px-4 py-2 text-sm text-gray-900">{formatDate(transfer.transferred_at)}</td>
+                    <td className="px-4 py-2 text-sm text-gray-900">
+                      {transfer.patient?.name}
+                      {transfer.patient && <span className="ml-1 text-gray-500">({transfer.patient.mrn})</span>}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-600">{transfer.from_department}</td>
+                    <td className="px-4 py-2 text-sm text-gray-600">{transfer.to_department}</td>
+                    <td className="px-4 py-2 text-sm text-gray-600">{transfer.receiving_doctor?.name || '—'}</td>
+                    <td className="px-4 py-2 text-sm text-gray-600">{transfer.reason}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TransferStats;
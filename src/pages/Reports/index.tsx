@@ -1,12 +1,14 @@
 import React, { useEffect } from 'react';
 import { useUserStore } from '../../stores/useUserStore';
 import { usePatientStore } from '../../stores/usePatientStore';
+import { usePermissions } from '../../hooks/usePermissions';
 import AdminReports from './AdminReports';
 import UserReports from './UserReports';
 
 const Reports: React.FC = () => {
   const { currentUser } = useUserStore();
   const { fetchPatients } = usePatientStore();
+  const { can } = usePermissions();
 
   useEffect(() => {
     // In reports view, fetch all patients including discharged ones
@@ -23,7 +25,7 @@ const Reports: React.FC = () => {
     );
   }
 
-  return currentUser.role === 'administrator' ? <AdminReports /> : <UserReports />;
+  return can('reports.view_all') ? <AdminReports /> : <UserReports />;
 };
 
 export default Reports;
\ No newline at end of file
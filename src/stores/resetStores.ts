@@ -0,0 +1,60 @@
+import type { StoreApi } from 'zustand';
+import { usePatientStore } from './usePatientStore';
+import { useAdmissionStore } from './useAdmissionStore';
+import { useConsultationStore } from './useConsultationStore';
+import { useDischargeStore } from './useDischargeStore';
+import { useAppointmentStore } from './useAppointmentStore';
+import { useMedicalNotesStore } from './useMedicalNotesStore';
+import { useLongStayNotesStore } from './useLongStayNotesStore';
+import { useUserStore } from './useUserStore';
+import { useSessionStore } from './useSessionStore';
+import { usePermissionStore } from './usePermissionStore';
+import { useAuditStore } from './useAuditStore';
+import { usePatientAccessStore } from './usePatientAccessStore';
+import { usePatientMergeStore } from './usePatientMergeStore';
+import { useTransferStore } from './useTransferStore';
+import { useBedStore } from './useBedStore';
+import { useSettingsStore } from './useSettingsStore';
+import { useVitalsStore } from './useVitalsStore';
+import { useAlertStore } from './useAlertStore';
+import { useMedicationStore } from './useMedicationStore';
+import { useMarStore } from './useMarStore';
+import { useAllergyStore } from './useAllergyStore';
+import { useLabStore } from './useLabStore';
+import { useAttachmentStore } from './useAttachmentStore';
+import { useNoteTemplateStore } from './useNoteTemplateStore';
+import { useSmartPhraseStore } from './useSmartPhraseStore';
+
+const resetStore = <T>(store: StoreApi<T>) => {
+  store.setState(store.getInitialState(), true);
+};
+
+// Restores every store to its initial state so nothing from the previous
+// user's session (patients, notes, selections) remains in memory or storage.
+export const resetAllStores = () => {
+  resetStore(usePatientStore);
+  resetStore(useAdmissionStore);
+  resetStore(useConsultationStore);
+  resetStore(useDischargeStore);
+  resetStore(useAppointmentStore);
+  resetStore(useMedicalNotesStore);
+  resetStore(useLongStayNotesStore);
+  resetStore(useUserStore);
+  resetStore(useSessionStore);
+  resetStore(usePermissionStore);
+  resetStore(useAuditStore);
+  resetStore(usePatientAccessStore);
+  resetStore(usePatientMergeStore);
+  resetStore(useTransferStore);
+  resetStore(useBedStore);
+  resetStore(useSettingsStore);
+  resetStore(useVitalsStore);
+  resetStore(useAlertStore);
+  resetStore(useMedicationStore);
+  resetStore(useMarStore);
+  resetStore(useAllergyStore);
+  resetStore(useLabStore);
+  resetStore(useAttachmentStore);
+  resetStore(useNoteTemplateStore);
+  resetStore(useSmartPhraseStore);
+};
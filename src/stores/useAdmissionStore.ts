@@ -34,6 +34,14 @@ export const useAdmissionStore = create<AdmissionStore>((set) => ({
             medical_code,
             role,
             department
+          ),
+          transfers_out:admission_transfers!from_admission_id (
+            *,
+            receiving_doctor:users!receiving_doctor_id (
+              id,
+              name,
+              medical_code
+            )
           )
         `)
         .eq('patient_id', patientId)
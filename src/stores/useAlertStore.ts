@@ -0,0 +1,117 @@
+import { create } from 'zustand';
+import { supabase } from '../lib/supabase';
+import { useUserStore } from './useUserStore';
+import type { ClinicalAlert } from '../types/alert';
+
+type NewAlert = Pick<
+  ClinicalAlert,
+  'recipient_id' | 'patient_id' | 'admission_id' | 'alert_type' | 'severity' | 'message'
+> & Partial<Pick<ClinicalAlert, 'vital_signs_id' | 'lab_result_id'>>;
+
+interface AlertStore {
+  // Unacknowledged alerts addressed to the signed-in user, newest first
+  alerts: ClinicalAlert[];
+  loading: boolean;
+  error: string | null;
+  fetchAlerts: () => Promise<void>;
+  raiseAlert: (alert: NewAlert) => Promise<void>;
+  acknowledgeAlert: (alertId: number) => Promise<void>;
+  acknowledgeAll: () => Promise<void>;
+  subscribeToUpdates: () => () => void;
+}
+
+const ALERT_SELECT = `
+  *,
+  patient:patients!clinical_alerts_patient_id_fkey (
+    id,
+    mrn,
+    name
+  )
+`;
+
+export const useAlertStore = create<AlertStore>((set, get) => ({
+  alerts: [],
+  loading: false,
+  error: null,
+
+  fetchAlerts: async () => {
+    const currentUser = useUserStore.getState().currentUser;
+    if (!currentUser) return;
+
+    set({ loading: true, error: null });
+    try {
+      const { data, error } = await supabase
+        .from('clinical_alerts')
+        .select(ALERT_SELECT)
+        .eq('recipient_id', currentUser.id)
+        .is('acknowledged_at', null)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      set({ alerts: data as ClinicalAlert[] || [], loading: false });
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to load alerts',
+        loading: false
+      });
+    }
+  },
+
+  raiseAlert: async (alert) => {
+    const { error } = await supabase
+      .from('clinical_alerts')
+      .insert([alert]);
+
+    if (error) throw error;
+  },
+
+  acknowledgeAlert: async (alertId) => {
+    try {
+      const { error } = await supabase
+        .from('clinical_alerts')
+        .update({ acknowledged_at: new Date().toISOString() })
+        .eq('id', alertId);
+
+      if (error) throw error;
+      set(state => ({ alerts: state.alerts.filter(alert => alert.id !== alertId) }));
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to acknowledge alert' });
+      throw error;
+    }
+  },
+
+  acknowledgeAll: async () => {
+    const ids = get().alerts.map(alert => alert.id);
+    if (ids.length === 0) return;
+
+    try {
+      const { error } = await supabase
+        .from('clinical_alerts')
+        .update({ acknowledged_at: new Date().toISOString() })
+        .in('id', ids);
+
+      if (error) throw error;
+      set({ alerts: [] });
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to acknowledge alerts' });
+      throw error;
+    }
+  },
+
+  subscribeToUpdates: () => {
+    const subscription = supabase
+      .channel('clinical-alert-updates')
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'clinical_alerts'
+      }, () => {
+        get().fetchAlerts();
+      })
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }
+}));
@@ -0,0 +1,116 @@
+import { create } from 'zustand';
+import { supabase } from '../lib/supabase';
+import { useUserStore } from './useUserStore';
+import { assertPermission } from './usePermissionStore';
+import { useAuditStore } from './useAuditStore';
+import type { AllergyInput, PatientAllergy } from '../types/allergy';
+
+interface AllergyStore {
+  // Allergies still on record, keyed by patient id
+  allergies: Record<number, PatientAllergy[]>;
+  loading: boolean;
+  error: string | null;
+  fetchAllergies: (patientId: number) => Promise<void>;
+  addAllergy: (patientId: number, input: AllergyInput) => Promise<void>;
+  removeAllergy: (allergy: PatientAllergy, reason: string) => Promise<void>;
+}
+
+const ALLERGY_SELECT = `
+  *,
+  recorder:users!patient_allergies_recorded_by_fkey (
+    id,
+    name
+  )
+`;
+
+export const useAllergyStore = create<AllergyStore>((set, get) => ({
+  allergies: {},
+  loading: false,
+  error: null,
+
+  fetchAllergies: async (patientId) => {
+    set({ loading: true, error: null });
+    try {
+      const { data, error } = await supabase
+        .from('patient_allergies')
+        .select(ALLERGY_SELECT)
+        .eq('patient_id', patientId)
+        .is('removed_at', null)
+        .order('recorded_at', { ascending: true });
+
+      if (error) throw error;
+
+      set(state => ({
+        allergies: { ...state.allergies, [patientId]: data as PatientAllergy[] || [] },
+        loading: false
+      }));
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to load allergies',
+        loading: false
+      });
+    }
+  },
+
+  addAllergy: async (patientId, input) => {
+    assertPermission('allergies.manage');
+
+    const currentUser = useUserStore.getState().currentUser;
+    if (!currentUser) throw new Error('No user logged in');
+
+    const { data, error } = await supabase
+      .from('patient_allergies')
+      .insert([{
+        patient_id: patientId,
+        substance: input.substance.trim(),
+        reaction: input.reaction?.trim() || null,
+        severity: input.severity,
+        recorded_by: currentUser.id
+      }])
+      .select(ALLERGY_SELECT)
+      .single();
+
+    if (error) throw error;
+
+    await useAuditStore.getState().logAudit({
+      action: 'create',
+      entityType: 'patient_allergy',
+      entityId: data.id,
+      summary: `Recorded ${input.severity} allergy to ${data.substance} for patient ${patientId}`,
+      after: data
+    });
+
+    await get().fetchAllergies(patientId);
+  },
+
+  removeAllergy: async (allergy, reason) => {
+    assertPermission('allergies.manage');
+
+    const currentUser = useUserStore.getState().currentUser;
+    if (!currentUser) throw new Error('No user logged in');
+
+    const { data, error } = await supabase
+      .from('patient_allergies')
+      .update({
+        removed_at: new Date().toISOString(),
+        removed_by: currentUser.id,
+        removal_reason: reason
+      })
+      .eq('id', allergy.id)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await useAuditStore.getState().logAudit({
+      action: 'update',
+      entityType: 'patient_allergy',
+      entityId: allergy.id,
+      summary: `Removed allergy to ${allergy.substance} for patient ${allergy.patient_id}: ${reason}`,
+      before: allergy,
+      after: data
+    });
+
+    await get().fetchAllergies(allergy.patient_id);
+  }
+}));
@@ -1,5 +1,7 @@
 import { create } from 'zustand';
 import { supabase } from '../lib/supabase';
+import { assertPermission } from './usePermissionStore';
+import { useAuditStore } from './useAuditStore';
 
 type AppointmentType = 'routine' | 'urgent';
 type AppointmentStatus = 'pending' | 'completed' | 'cancelled';
@@ -60,6 +62,8 @@ export const useAppointmentStore = create<AppointmentStore>((set, get) => ({
   addAppointment: async (appointment) => {
     set({ loading: true, error: null });
     try {
+      assertPermission('appointments.manage');
+
       const { data, error } = await supabase
         .from('appointments')
         .insert([{
@@ -75,6 +79,14 @@ export const useAppointmentStore = create<AppointmentStore>((set, get) => ({
 
       if (error) throw error;
 
+      await useAuditStore.getState().logAudit({
+        action: 'create',
+        entityType: 'appointment',
+        entityId: data.id,
+        summary: `Booked ${data.specialty} appointment for ${data.patient_name}`,
+        after: data
+      });
+
       const formattedAppointment = {
         id: data.id,
         patientName: data.patient_name,
@@ -97,6 +109,10 @@ export const useAppointmentStore = create<AppointmentStore>((set, get) => ({
   },
 
   updateAppointment: async (id, updates) => {
+    assertPermission('appointments.manage');
+
+    const before = get().appointments.find(appointment => appointment.id === id);
+
     set(state => ({
       appointments: state.appointments.map(appointment =>
         appointment.id === id
@@ -126,6 +142,15 @@ export const useAppointmentStore = create<AppointmentStore>((set, get) => ({
         }));
         throw error;
       }
+
+      await useAuditStore.getState().logAudit({
+        action: 'update',
+        entityType: 'appointment',
+        entityId: id,
+        summary: `Updated appointment for ${before?.patientName ?? `appointment ${id}`}`,
+        before,
+        after: before ? { ...before, ...updates } : updates
+      });
     } catch (error) {
       console.error('Error updating appointment:', error);
       throw error;
@@ -0,0 +1,194 @@
+import { create } from 'zustand';
+import { supabase } from '../lib/supabase';
+import { getSignedUrl, getSignedUrls, removeFile, uploadFile } from '../lib/storage';
+import { useUserStore } from './useUserStore';
+import { assertPermission } from './usePermissionStore';
+import { useAuditStore } from './useAuditStore';
+import { ATTACHMENT_BUCKET, ATTACHMENT_CATEGORY_LABELS, ATTACHMENT_URL_TTL_SECONDS } from '../config/attachments';
+import type { AttachmentInput, PatientAttachment } from '../types/attachment';
+
+interface SignedUrl {
+  url: string;
+  expiresAt: number;
+}
+
+interface AttachmentStore {
+  // Attachments still on file, newest first, keyed by patient id
+  attachments: Record<number, PatientAttachment[]>;
+  // Signed URLs keyed by storage path
+  signedUrls: Record<string, SignedUrl>;
+  loading: boolean;
+  error: string | null;
+  fetchAttachments: (patientId: number) => Promise<void>;
+  uploadAttachment: (patientId: number, file: File, input: AttachmentInput) => Promise<void>;
+  removeAttachment: (attachment: PatientAttachment, reason: string) => Promise<void>;
+  getAttachmentUrl: (attachment: PatientAttachment) => Promise<string>;
+  loadThumbnailUrls: (attachments: PatientAttachment[]) => Promise<void>;
+}
+
+const ATTACHMENT_SELECT = `
+  *,
+  uploader:users!patient_attachments_uploaded_by_fkey (
+    id,
+    name
+  )
+`;
+
+// A cached URL is renewed this long before it expires so it never lapses mid-view
+const URL_RENEWAL_MARGIN_MS = 60 * 1000;
+
+const isUsable = (signed: SignedUrl | undefined) =>
+  !!signed && signed.expiresAt - URL_RENEWAL_MARGIN_MS > Date.now();
+
+const getExtension = (fileName: string) => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  return extension && extension !== fileName.toLowerCase() ? `.${extension}` : '';
+};
+
+export const useAttachmentStore = create<AttachmentStore>((set, get) => ({
+  attachments: {},
+  signedUrls: {},
+  loading: false,
+  error: null,
+
+  fetchAttachments: async (patientId) => {
+    set({ loading: true, error: null });
+    try {
+      const { data, error } = await supabase
+        .from('patient_attachments')
+        .select(ATTACHMENT_SELECT)
+        .eq('patient_id', patientId)
+        .is('removed_at', null)
+        .order('uploaded_at', { ascending: false });
+
+      if (error) throw error;
+
+      set(state => ({
+        attachments: { ...state.attachments, [patientId]: data as PatientAttachment[] || [] },
+        loading: false
+      }));
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to load attachments',
+        loading: false
+      });
+    }
+  },
+
+  uploadAttachment: async (patientId, file, input) => {
+    assertPermission('attachments.manage');
+
+    const currentUser = useUserStore.getState().currentUser;
+    if (!currentUser) throw new Error('No user logged in');
+
+    // The original file name is kept on the record; the object name only has to be unique
+    const storagePath = `${patientId}/${crypto.randomUUID()}${getExtension(file.name)}`;
+    await uploadFile(ATTACHMENT_BUCKET, storagePath, file);
+
+    const { data, error } = await supabase
+      .from('patient_attachments')
+      .insert([{
+        patient_id: patientId,
+        admission_id: input.admissionId,
+        category: input.category,
+        description: input.description.trim(),
+        file_name: file.name,
+        storage_path: storagePath,
+        mime_type: file.type,
+        size_bytes: file.size,
+        uploaded_by: currentUser.id
+      }])
+      .select(ATTACHMENT_SELECT)
+      .single();
+
+    if (error) {
+      // Do not leave an object behind that no record points to
+      try {
+        await removeFile(ATTACHMENT_BUCKET, storagePath);
+      } catch (cleanupError) {
+        console.error('Error removing unrecorded upload:', storagePath, cleanupError);
+        throw new Error(
+          `${error.message}. The uploaded file could not be removed either; ask an administrator to delete ${storagePath}`
+        );
+      }
+      throw error;
+    }
+
+    await useAuditStore.getState().logAudit({
+      action: 'create',
+      entityType: 'patient_attachment',
+      entityId: data.id,
+      summary: `Attached ${ATTACHMENT_CATEGORY_LABELS[input.category].toLowerCase()} "${file.name}" to patient ${patientId}`,
+      after: data
+    });
+
+    await get().fetchAttachments(patientId);
+  },
+
+  removeAttachment: async (attachment, reason) => {
+    assertPermission('attachments.manage');
+
+    const currentUser = useUserStore.getState().currentUser;
+    if (!currentUser) throw new Error('No user logged in');
+
+    const { data, error } = await supabase
+      .from('patient_attachments')
+      .update({
+        removed_at: new Date().toISOString(),
+        removed_by: currentUser.id,
+        removal_reason: reason
+      })
+      .eq('id', attachment.id)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await useAuditStore.getState().logAudit({
+      action: 'update',
+      entityType: 'patient_attachment',
+      entityId: attachment.id,
+      summary: `Removed attachment "${attachment.file_name}" from patient ${attachment.patient_id}: ${reason}`,
+      before: attachment,
+      after: data
+    });
+
+    await get().fetchAttachments(attachment.patient_id);
+  },
+
+  getAttachmentUrl: async (attachment) => {
+    const cached = get().signedUrls[attachment.storage_path];
+    if (cached && isUsable(cached)) return cached.url;
+
+    const url = await getSignedUrl(ATTACHMENT_BUCKET, attachment.storage_path, ATTACHMENT_URL_TTL_SECONDS);
+    set(state => ({
+      signedUrls: {
+        ...state.signedUrls,
+        [attachment.storage_path]: { url, expiresAt: Date.now() + ATTACHMENT_URL_TTL_SECONDS * 1000 }
+      }
+    }));
+    return url;
+  },
+
+  // Signs every path that has no usable URL in one request
+  loadThumbnailUrls: async (attachments) => {
+    const { signedUrls } = get();
+    const paths = attachments
+      .map(attachment => attachment.storage_path)
+      .filter(path => !isUsable(signedUrls[path]));
+    if (paths.length === 0) return;
+
+    try {
+      const urls = await getSignedUrls(ATTACHMENT_BUCKET, paths, ATTACHMENT_URL_TTL_SECONDS);
+      const expiresAt = Date.now() + ATTACHMENT_URL_TTL_SECONDS * 1000;
+      set(state => ({
+        signedUrls: {
+          ...state.signedUrls,
+          ...Object.fromEntries(Object.entries(urls).map(([path, url]) => [path, { url, expiresAt }]))
+        }
+      }));
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to load attachment previews' });
+    }
+  }
+}));
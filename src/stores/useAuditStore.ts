@@ -0,0 +1,123 @@
+import { create } from 'zustand';
+import { supabase } from '../lib/supabase';
+import { useUserStore } from './useUserStore';
+import type { AuditAction, AuditEntityType, AuditEntry, AuditFilters } from '../types/audit';
+
+interface AuditRecord {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId?: number | string | null;
+  summary?: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+interface AuditRow extends Omit<AuditEntry, 'id' | 'before_data' | 'after_data' | 'created_at'> {
+  before_data: unknown;
+  after_data: unknown;
+  created_at?: string;
+}
+
+interface AuditStore {
+  entries: AuditEntry[];
+  loading: boolean;
+  error: string | null;
+  // Audit rows that could not be written, kept so the user can retry them
+  failedRows: AuditRow[];
+  fetchAuditLog: (filters: AuditFilters) => Promise<void>;
+  logAudit: (record: AuditRecord) => Promise<void>;
+  retryFailedAudits: () => Promise<void>;
+  dismissFailedAudits: () => void;
+}
+
+const AUDIT_FETCH_LIMIT = 1000;
+
+export const useAuditStore = create<AuditStore>((set, get) => ({
+  entries: [],
+  loading: false,
+  error: null,
+  failedRows: [],
+
+  fetchAuditLog: async (filters) => {
+    set({ loading: true, error: null });
+    try {
+      let query = supabase
+        .from('audit_log')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(AUDIT_FETCH_LIMIT);
+
+      if (filters.entityType !== 'all') {
+        query = query.eq('entity_type', filters.entityType);
+      }
+      if (filters.action !== 'all') {
+        query = query.eq('action', filters.action);
+      }
+      if (filters.dateFrom) {
+        query = query.gte('created_at', new Date(`${filters.dateFrom}T00:00:00`).toISOString());
+      }
+      if (filters.dateTo) {
+        query = query.lte('created_at', new Date(`${filters.dateTo}T23:59:59.999`).toISOString());
+      }
+      if (filters.searchQuery.trim()) {
+        const term = filters.searchQuery.trim().replace(/[,()]/g, ' ');
+        query = query.or(`actor_name.ilike.%${term}%,entity_id.eq.${term},summary.ilike.%${term}%`);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      set({ entries: data as AuditEntry[] || [], loading: false });
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to fetch audit log',
+        loading: false
+      });
+    }
+  },
+
+  logAudit: async ({ action, entityType, entityId, summary, before, after }) => {
+    const currentUser = useUserStore.getState().currentUser;
+    const row: AuditRow = {
+      actor_id: currentUser?.id ?? null,
+      actor_name: currentUser?.name ?? 'System',
+      actor_role: currentUser?.role ?? null,
+      action,
+      entity_type: entityType,
+      entity_id: entityId != null ? String(entityId) : null,
+      summary: summary ?? null,
+      before_data: before ?? null,
+      after_data: after ?? null
+    };
+
+    const { error } = await supabase
+      .from('audit_log')
+      .insert([row]);
+
+    // The mutation itself has already been committed, so a failed audit write
+    // is not a failure of the clinical action; it is kept and shown to the
+    // user until it has been written on retry or explicitly dismissed
+    if (error) {
+      console.error('Error writing audit log:', error);
+      // Keeps the time of the action rather than the time of the retry
+      set(state => ({ failedRows: [...state.failedRows, { ...row, created_at: new Date().toISOString() }] }));
+    }
+  },
+
+  retryFailedAudits: async () => {
+    const rows = get().failedRows;
+    if (rows.length === 0) return;
+
+    const { error } = await supabase
+      .from('audit_log')
+      .insert(rows);
+
+    if (error) throw error;
+
+    set(state => ({ failedRows: state.failedRows.filter(row => !rows.includes(row)) }));
+  },
+
+  dismissFailedAudits: () => {
+    set({ failedRows: [] });
+  }
+}));
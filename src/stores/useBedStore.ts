@@ -0,0 +1,362 @@
+import { create } from 'zustand';
+import { supabase } from '../lib/supabase';
+import { useUserStore } from './useUserStore';
+import { assertPermission } from './usePermissionStore';
+import { useAuditStore } from './useAuditStore';
+import { ProcedureError, BED_ERRORS } from '../utils/procedureErrors';
+import type { Bed, BedAssignment, BedOption, BedResponse, BedStatus, Ward } from '../types/bed';
+
+interface BedStore {
+  wards: Ward[];
+  assignments: BedAssignment[];
+  loading: boolean;
+  error: string | null;
+  fetchWards: () => Promise<void>;
+  fetchAssignments: (startDate: string, endDate: string) => Promise<void>;
+  getFreeBeds: (department?: string) => BedOption[];
+  addWard: (name: string, department: string) => Promise<void>;
+  deleteWard: (id: number) => Promise<void>;
+  addRoom: (wardId: number, name: string) => Promise<void>;
+  deleteRoom: (id: number) => Promise<void>;
+  addBed: (roomId: number, label: string) => Promise<void>;
+  deleteBed: (id: number) => Promise<void>;
+  moveBed: (admissionId: number, bedId: number, reason: string) => Promise<void>;
+  setBedStatus: (bedId: number, status: Exclude<BedStatus, 'occupied'>, note?: string) => Promise<void>;
+  subscribeToUpdates: () => () => void;
+}
+
+const WARD_SELECT = `
+  id,
+  name,
+  department,
+  rooms (
+    id,
+    ward_id,
+    name,
+    beds (
+      id,
+      room_id,
+      label,
+      status,
+      admission_id,
+      status_note,
+      updated_at,
+      admission:admissions!admission_id (
+        id,
+        patient_id,
+        department,
+        admission_date,
+        diagnosis,
+        patient:patients!admissions_patient_id_fkey (
+          id,
+          mrn,
+          name
+        )
+      )
+    )
+  )
+`;
+
+const byName = <T extends { name: string }>(a: T, b: T) =>
+  a.name.localeCompare(b.name, undefined, { numeric: true });
+
+const formatWard = (ward: any): Ward => ({
+  ...ward,
+  rooms: (ward.rooms || [])
+    .map((room: any) => ({
+      ...room,
+      beds: (room.beds || [])
+        .map((bed: any): Bed => ({
+          ...bed,
+          admission: Array.isArray(bed.admission) ? bed.admission[0] ?? null : bed.admission
+        }))
+        .sort((a: Bed, b: Bed) => a.label.localeCompare(b.label, undefined, { numeric: true }))
+    }))
+    .sort(byName)
+});
+
+const throwIfRejected = (response: BedResponse) => {
+  if (response.status === 'error') {
+    const code = response.code!;
+    throw new ProcedureError(code, BED_ERRORS[code]);
+  }
+};
+
+export const useBedStore = create<BedStore>((set, get) => ({
+  wards: [],
+  assignments: [],
+  loading: false,
+  error: null,
+
+  fetchWards: async () => {
+    set({ loading: true, error: null });
+    try {
+      const { data, error } = await supabase
+        .from('wards')
+        .select(WARD_SELECT)
+        .order('name');
+
+      if (error) throw error;
+
+      set({ wards: (data || []).map(formatWard), loading: false });
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to fetch wards',
+        loading: false
+      });
+    }
+  },
+
+  fetchAssignments: async (startDate, endDate) => {
+    try {
+      const end = new Date(endDate);
+      end.setDate(end.getDate() + 1);
+
+      // Every bed stay overlapping the period
+      const { data, error } = await supabase
+        .from('bed_assignments')
+        .select('*')
+        .lt('assigned_at', end.toISOString().split('T')[0])
+        .or(`released_at.is.null,released_at.gte.${startDate}`);
+
+      if (error) throw error;
+
+      set({ assignments: data as BedAssignment[] });
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to fetch bed occupancy' });
+    }
+  },
+
+  getFreeBeds: (department) => {
+    return get().wards
+      .filter(ward => !department || ward.department === department)
+      .flatMap(ward => ward.rooms.flatMap(room =>
+        room.beds
+          .filter(bed => bed.status === 'free')
+          .map(bed => ({
+            id: bed.id,
+            label: bed.label,
+            room: room.name,
+            ward: ward.name,
+            department: ward.department
+          }))
+      ));
+  },
+
+  addWard: async (name, department) => {
+    assertPermission('beds.manage');
+
+    const { data, error } = await supabase
+      .from('wards')
+      .insert([{ name: name.trim(), department }])
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await useAuditStore.getState().logAudit({
+      action: 'create',
+      entityType: 'ward',
+      entityId: data.id,
+      summary: `Added ward ${data.name} (${data.department})`,
+      after: data
+    });
+    await get().fetchWards();
+  },
+
+  deleteWard: async (id) => {
+    assertPermission('beds.manage');
+
+    const ward = get().wards.find(w => w.id === id);
+    if (ward?.rooms.some(room => room.beds.some(bed => bed.status === 'occupied'))) {
+      throw new Error('Move all patients out of this ward before removing it');
+    }
+
+    const { error } = await supabase
+      .from('wards')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+
+    await useAuditStore.getState().logAudit({
+      action: 'delete',
+      entityType: 'ward',
+      entityId: id,
+      summary: `Removed ward ${ward?.name ?? id}`,
+      before: ward ? { id: ward.id, name: ward.name, department: ward.department } : null
+    });
+    await get().fetchWards();
+  },
+
+  addRoom: async (wardId, name) => {
+    assertPermission('beds.manage');
+
+    const { data, error } = await supabase
+      .from('rooms')
+      .insert([{ ward_id: wardId, name: name.trim() }])
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await useAuditStore.getState().logAudit({
+      action: 'create',
+      entityType: 'room',
+      entityId: data.id,
+      summary: `Added room ${data.name} to ward ${wardId}`,
+      after: data
+    });
+    await get().fetchWards();
+  },
+
+  deleteRoom: async (id) => {
+    assertPermission('beds.manage');
+
+    const room = get().wards.flatMap(ward => ward.rooms).find(r => r.id === id);
+    if (room?.beds.some(bed => bed.status === 'occupied')) {
+      throw new Error('Move all patients out of this room before removing it');
+    }
+
+    const { error } = await supabase
+      .from('rooms')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+
+    await useAuditStore.getState().logAudit({
+      action: 'delete',
+      entityType: 'room',
+      entityId: id,
+      summary: `Removed room ${room?.name ?? id}`,
+      before: room ? { id: room.id, ward_id: room.ward_id, name: room.name } : null
+    });
+    await get().fetchWards();
+  },
+
+  addBed: async (roomId, label) => {
+    assertPermission('beds.manage');
+
+    const { data, error } = await supabase
+      .from('beds')
+      .insert([{ room_id: roomId, label: label.trim() }])
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await useAuditStore.getState().logAudit({
+      action: 'create',
+      entityType: 'bed',
+      entityId: data.id,
+      summary: `Added bed ${data.label} to room ${roomId}`,
+      after: data
+    });
+    await get().fetchWards();
+  },
+
+  deleteBed: async (id) => {
+    assertPermission('beds.manage');
+
+    const bed = get().wards
+      .flatMap(ward => ward.rooms.flatMap(room => room.beds))
+      .find(b => b.id === id);
+    if (bed?.status === 'occupied') {
+      throw new Error('Move the patient out of this bed before removing it');
+    }
+
+    const { error } = await supabase
+      .from('beds')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+
+    await useAuditStore.getState().logAudit({
+      action: 'delete',
+      entityType: 'bed',
+      entityId: id,
+      summary: `Removed bed ${bed?.label ?? id}`,
+      before: bed ? { id: bed.id, room_id: bed.room_id, label: bed.label, status: bed.status } : null
+    });
+    await get().fetchWards();
+  },
+
+  moveBed: async (admissionId, bedId, reason) => {
+    assertPermission('beds.assign');
+
+    const currentUser = useUserStore.getState().currentUser;
+    if (!currentUser) throw new Error('No user logged in');
+
+    const { data, error } = await supabase.rpc('move_bed', {
+      p_admission_id: admissionId,
+      p_bed_id: bedId,
+      p_user_id: currentUser.id,
+      p_reason: reason
+    });
+
+    if (error) throw error;
+
+    const response = data as BedResponse;
+    throwIfRejected(response);
+
+    await useAuditStore.getState().logAudit({
+      action: 'update',
+      entityType: 'bed',
+      entityId: bedId,
+      summary: response.from_bed
+        ? `Moved admission ${admissionId} from bed ${response.from_bed.label} to bed ${response.bed!.label}`
+        : `Assigned admission ${admissionId} to bed ${response.bed!.label}`,
+      before: response.from_bed ?? null,
+      after: response.bed
+    });
+    await get().fetchWards();
+  },
+
+  setBedStatus: async (bedId, status, note) => {
+    assertPermission('beds.assign');
+
+    const currentUser = useUserStore.getState().currentUser;
+    if (!currentUser) throw new Error('No user logged in');
+
+    const { data, error } = await supabase.rpc('set_bed_status', {
+      p_bed_id: bedId,
+      p_status: status,
+      p_user_id: currentUser.id,
+      p_note: note ?? null
+    });
+
+    if (error) throw error;
+
+    const response = data as BedResponse;
+    throwIfRejected(response);
+
+    await useAuditStore.getState().logAudit({
+      action: 'update',
+      entityType: 'bed',
+      entityId: bedId,
+      summary: `Marked bed ${response.bed!.label} as ${status}`,
+      before: response.before,
+      after: response.bed
+    });
+    await get().fetchWards();
+  },
+
+  subscribeToUpdates: () => {
+    const subscription = supabase
+      .channel('bed-updates')
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'beds'
+      }, () => {
+        get().fetchWards();
+      })
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }
+}));
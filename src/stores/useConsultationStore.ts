@@ -1,5 +1,7 @@
 import { create } from 'zustand';
 import { supabase } from '../lib/supabase';
+import { assertPermission } from './usePermissionStore';
+import { useAuditStore } from './useAuditStore';
 import type { Consultation } from '../types/consultation';
 
 interface ConsultationStore {
@@ -35,13 +37,20 @@ export const useConsultationStore = create<ConsultationStore>((set, get) => ({
   addConsultation: async (consultation) => {
     set({ loading: true, error: null });
     try {
+      assertPermission('consultation.create');
+
       const { data: patientData, error: patientError } = await supabase
         .from('patients')
         .select('id')
         .eq('mrn', consultation.mrn)
-        .single();
+        .order('id')
+        .limit(1)
+        .maybeSingle();
+
+      if (patientError) throw patientError;
 
-      if (patientError) {
+      // Only register a new patient when the MRN is genuinely unknown
+      if (!patientData) {
         const { data: newPatient, error: createError } = await supabase
           .from('patients')
           .insert([{
@@ -71,6 +80,15 @@ export const useConsultationStore = create<ConsultationStore>((set, get) => ({
       if (error) throw error;
 
       const newConsultation = data as Consultation;
+
+      await useAuditStore.getState().logAudit({
+        action: 'create',
+        entityType: 'consultation',
+        entityId: newConsultation.id,
+        summary: `Registered ${newConsultation.consultation_specialty} consultation for ${newConsultation.patient_name} (MRN ${newConsultation.mrn})`,
+        after: newConsultation
+      });
+
       set(state => ({
         consultations: [newConsultation, ...state.consultations],
         loading: false
@@ -86,6 +104,10 @@ export const useConsultationStore = create<ConsultationStore>((set, get) => ({
   updateConsultation: async (id, updates) => {
     set({ loading: true, error: null });
     try {
+      assertPermission('consultation.complete');
+
+      const before = await get().getConsultationById(id);
+
       const { data, error } = await supabase
         .from('consultations')
         .update(updates)
@@ -94,7 +116,16 @@ export const useConsultationStore = create<ConsultationStore>((set, get) => ({
         .single();
 
       if (error) throw error;
-      
+
+      await useAuditStore.getState().logAudit({
+        action: 'update',
+        entityType: 'consultation',
+        entityId: id,
+        summary: `Updated consultation for ${data.patient_name} (MRN ${data.mrn})`,
+        before,
+        after: data
+      });
+
       set(state => ({
         consultations: state.consultations.map(c => c.id === id ? (data as Consultation) : c),
         loading: false
@@ -1,8 +1,18 @@
 import { create } from 'zustand';
 import { supabase } from '../lib/supabase';
 import { useUserStore } from './useUserStore';
-import { useMedicalNotesStore } from './useMedicalNotesStore';
-import type { DischargeData } from '../types/discharge';
+import { useSessionStore } from './useSessionStore';
+import { assertPermission } from './usePermissionStore';
+import { useAuditStore } from './useAuditStore';
+import { ProcedureError, DISCHARGE_ERRORS } from '../utils/procedureErrors';
+import type {
+  DischargeData,
+  DischargeAdmissionParams,
+  CompleteConsultationParams,
+  DischargeResponse
+} from '../types/discharge';
+import type { ShiftType } from '../types/settings';
+import type { AdmissionDiagnosis } from '../types/diagnosis';
 
 export interface ActivePatient {
   id: number;
@@ -13,9 +23,10 @@ export interface ActivePatient {
   department: string;
   doctor_name: string;
   diagnosis: string;
+  diagnoses?: AdmissionDiagnosis[];
   status: 'active' | 'discharged' | 'transferred';
   admitting_doctor_id: number;
-  shift_type: 'morning' | 'evening' | 'night' | 'weekend_morning' | 'weekend_night';
+  shift_type: ShiftType;
   is_weekend: boolean;
   isConsultation?: boolean;
   consultation_id?: number;
@@ -54,6 +65,14 @@ export const useDischargeStore = create<DischargeStore>((set, get) => ({
           admitting_doctor_id,
           shift_type,
           is_weekend,
+          diagnoses:admission_diagnoses (
+            id,
+            admission_id,
+            stage,
+            code,
+            description,
+            is_primary
+          ),
           patient:patients!admissions_patient_id_fkey (
             mrn,
             name
@@ -83,7 +102,9 @@ export const useDischargeStore = create<DischargeStore>((set, get) => ({
           reason,
           doctor_id,
           doctor_name,
-          status
+          status,
+          shift_type,
+          is_weekend
         `)
         .eq('status', 'active');
 
@@ -99,6 +120,7 @@ export const useDischargeStore = create<DischargeStore>((set, get) => ({
         department: admission.department,
         doctor_name: admission.admitting_doctor?.[0]?.name || 'Not assigned',
         diagnosis: admission.diagnosis,
+        diagnoses: admission.diagnoses || [],
         status: admission.status,
         admitting_doctor_id: admission.admitting_doctor_id,
         shift_type: admission.shift_type,
@@ -117,8 +139,8 @@ export const useDischargeStore = create<DischargeStore>((set, get) => ({
         diagnosis: consultation.reason,
         status: 'active' as const,
         admitting_doctor_id: consultation.doctor_id || 0,
-        shift_type: 'morning' as const,
-        is_weekend: false,
+        shift_type: consultation.shift_type,
+        is_weekend: consultation.is_weekend ?? false,
         isConsultation: true,
         consultation_id: consultation.id
       }));
@@ -150,6 +172,9 @@ export const useDischargeStore = create<DischargeStore>((set, get) => ({
   },
 
   processDischarge: async (data) => {
+    assertPermission(get().selectedPatient?.isConsultation ? 'consultation.complete' : 'discharge.process');
+    await useSessionStore.getState().requireReauth('Confirm your PIN to complete this discharge');
+
     set({ loading: true, error: null });
     try {
       const selectedPatient = get().selectedPatient;
@@ -159,49 +184,76 @@ export const useDischargeStore = create<DischargeStore>((set, get) => ({
       if (!currentUser) throw new Error('No user logged in');
 
       if (selectedPatient.isConsultation) {
-        // Complete consultation
-        const { error: consultationError } = await supabase
-          .from('consultations')
-          .update({
-            status: 'completed',
-            completion_note: data.discharge_note,
-            completed_by: currentUser.id,
-            completed_at: new Date().toISOString()
-          })
-          .eq('id', selectedPatient.consultation_id);
-
-        if (consultationError) throw consultationError;
-
-        // Add consultation note
-        await useMedicalNotesStore.getState().addNote({
-          patient_id: selectedPatient.patient_id,
-          doctor_id: currentUser.id,
-          note_type: 'Consultation Note',
-          content: data.discharge_note
+        const params: CompleteConsultationParams = {
+          p_consultation_id: selectedPatient.consultation_id!,
+          p_doctor_id: currentUser.id,
+          p_completion_note: data.discharge_note
+        };
+
+        // Completion and the consultation note are written in one transaction
+        const { data: result, error } = await supabase.rpc('complete_consultation', params);
+
+        if (error) throw error;
+
+        const response = result as DischargeResponse;
+        if (response.status === 'error') {
+          const code = response.code!;
+          throw new ProcedureError(code, DISCHARGE_ERRORS[code]);
+        }
+
+        await useAuditStore.getState().logAudit({
+          action: 'complete',
+          entityType: 'consultation',
+          entityId: selectedPatient.consultation_id,
+          summary: `Completed ${selectedPatient.department} consultation for ${selectedPatient.name} (MRN ${selectedPatient.mrn})`,
+          before: response.before,
+          after: response.consultation
+        });
+        await useAuditStore.getState().logAudit({
+          action: 'create',
+          entityType: 'medical_note',
+          entityId: response.note!.id,
+          summary: `Added Consultation Note for patient ${selectedPatient.patient_id}`,
+          after: response.note
         });
       } else {
-        // Process discharge for regular admission
-        const { error: updateError } = await supabase
-          .from('admissions')
-          .update({
-            status: 'discharged',
-            discharge_date: data.discharge_date,
-            discharge_type: data.discharge_type,
-            follow_up_required: data.follow_up_required,
-            follow_up_date: data.follow_up_date || null,
-            discharge_note: data.discharge_note,
-            discharge_doctor_id: currentUser.id
-          })
-          .eq('id', selectedPatient.id);
-
-        if (updateError) throw updateError;
-
-        // Add discharge summary note
-        await useMedicalNotesStore.getState().addNote({
-          patient_id: selectedPatient.patient_id,
-          doctor_id: currentUser.id,
-          note_type: 'Discharge Summary',
-          content: data.discharge_note
+        const params: DischargeAdmissionParams = {
+          p_admission_id: selectedPatient.id,
+          p_doctor_id: currentUser.id,
+          p_discharge_date: data.discharge_date,
+          p_discharge_type: data.discharge_type,
+          p_follow_up_required: data.follow_up_required,
+          p_follow_up_date: data.follow_up_required ? data.follow_up_date || null : null,
+          p_discharge_note: data.discharge_note,
+          p_final_diagnosis: data.final_diagnosis?.trim() || null,
+          p_final_diagnoses: data.final_diagnoses?.length ? data.final_diagnoses : null
+        };
+
+        // The discharge and its summary note are written in one transaction
+        const { data: result, error } = await supabase.rpc('discharge_admission', params);
+
+        if (error) throw error;
+
+        const response = result as DischargeResponse;
+        if (response.status === 'error') {
+          const code = response.code!;
+          throw new ProcedureError(code, DISCHARGE_ERRORS[code]);
+        }
+
+        await useAuditStore.getState().logAudit({
+          action: 'discharge',
+          entityType: 'admission',
+          entityId: selectedPatient.id,
+          summary: `Discharged ${selectedPatient.name} (MRN ${selectedPatient.mrn}) from ${selectedPatient.department}`,
+          before: response.before,
+          after: { ...response.admission, final_diagnoses: response.final_diagnoses }
+        });
+        await useAuditStore.getState().logAudit({
+          action: 'create',
+          entityType: 'medical_note',
+          entityId: response.note!.id,
+          summary: `Added Discharge Summary for patient ${selectedPatient.patient_id}`,
+          after: response.note
         });
       }
 
@@ -211,9 +263,10 @@ export const useDischargeStore = create<DischargeStore>((set, get) => ({
       // Clear selected patient
       set({ selectedPatient: null, loading: false });
     } catch (error) {
-      set({ 
-        error: error instanceof Error ? error.message : 'An error occurred', 
-        loading: false 
+      // Validation failures are shown against the form field, not as a store error
+      set({
+        error: error instanceof ProcedureError ? null : error instanceof Error ? error.message : 'An error occurred',
+        loading: false
       });
       throw error;
     }
@@ -0,0 +1,229 @@
+import { create } from 'zustand';
+import { supabase } from '../lib/supabase';
+import { useUserStore } from './useUserStore';
+import { assertPermission } from './usePermissionStore';
+import { useAuditStore } from './useAuditStore';
+import { useAlertStore } from './useAlertStore';
+import { findLabTest, getLabFlag, isCriticalFlag } from '../utils/labResults';
+import { LAB_FLAG_LABELS } from '../config/labTests';
+import type {
+  LabImportRow,
+  LabImportSummary,
+  LabResult,
+  LabResultSource,
+  LabValueInput
+} from '../types/lab';
+
+interface LabStore {
+  // Newest first, keyed by patient id
+  results: Record<number, LabResult[]>;
+  loading: boolean;
+  error: string | null;
+  fetchResults: (patientId: number) => Promise<void>;
+  recordResults: (patientId: number, collectedAt: string, values: LabValueInput[]) => Promise<void>;
+  importResults: (rows: LabImportRow[], source: Exclude<LabResultSource, 'manual'>) => Promise<LabImportSummary>;
+}
+
+interface PendingResult {
+  patientId: number;
+  testCode: string;
+  value: number;
+  collectedAt: string;
+}
+
+interface Attending {
+  admissionId: number;
+  doctorId: number;
+  patientName: string;
+}
+
+const LAB_SELECT = `
+  *,
+  enterer:users!lab_results_entered_by_fkey (
+    id,
+    name
+  )
+`;
+
+// NUMERIC columns arrive as strings
+const formatResult = (row: any): LabResult => ({
+  ...row,
+  value: Number(row.value),
+  reference_low: row.reference_low === null ? null : Number(row.reference_low),
+  reference_high: row.reference_high === null ? null : Number(row.reference_high)
+});
+
+// The active admission of each patient and the doctor who admitted them
+const getAttendings = async (patientIds: number[]): Promise<Map<number, Attending>> => {
+  const { data, error } = await supabase
+    .from('admissions')
+    .select('id, patient_id, admitting_doctor_id, patient:patients!admissions_patient_id_fkey (name)')
+    .in('patient_id', patientIds)
+    .eq('status', 'active');
+
+  if (error) throw error;
+
+  return new Map((data || []).map((admission: any) => {
+    const patient = Array.isArray(admission.patient) ? admission.patient[0] : admission.patient;
+    return [admission.patient_id, {
+      admissionId: admission.id,
+      doctorId: admission.admitting_doctor_id,
+      patientName: patient?.name ?? 'Patient'
+    }];
+  }));
+};
+
+// Flags and stores the results, skipping any already on record for the same
+// test and collection time, and alerts the attending doctor to critical values
+const saveResults = async (pending: PendingResult[], source: LabResultSource): Promise<LabResult[]> => {
+  const currentUser = useUserStore.getState().currentUser;
+  if (!currentUser) throw new Error('User not authenticated');
+
+  const patientIds = Array.from(new Set(pending.map(result => result.patientId)));
+  const attendings = await getAttendings(patientIds);
+
+  const records = pending.map(result => {
+    const test = findLabTest(result.testCode)!;
+    return {
+      patient_id: result.patientId,
+      admission_id: attendings.get(result.patientId)?.admissionId ?? null,
+      test_code: test.code,
+      value: result.value,
+      unit: test.unit,
+      reference_low: test.low,
+      reference_high: test.high,
+      flag: getLabFlag(test, result.value),
+      collected_at: result.collectedAt,
+      source,
+      entered_by: currentUser.id
+    };
+  });
+
+  const { data, error } = await supabase
+    .from('lab_results')
+    .upsert(records, { onConflict: 'patient_id,test_code,collected_at', ignoreDuplicates: true })
+    .select(LAB_SELECT);
+
+  if (error) throw error;
+  const saved = (data || []).map(formatResult);
+
+  for (const result of saved.filter(result => isCriticalFlag(result.flag))) {
+    const attending = attendings.get(result.patient_id);
+    if (!attending) continue;
+
+    const test = findLabTest(result.test_code)!;
+    await useAlertStore.getState().raiseAlert({
+      recipient_id: attending.doctorId,
+      patient_id: result.patient_id,
+      admission_id: attending.admissionId,
+      lab_result_id: result.id,
+      alert_type: 'critical_lab',
+      severity: 'high',
+      message: `${attending.patientName}: ${LAB_FLAG_LABELS[result.flag].toLowerCase()} ${test.name} ${result.value} ${result.unit}`
+    });
+  }
+
+  for (const patientId of patientIds) {
+    const patientResults = saved.filter(result => result.patient_id === patientId);
+    if (patientResults.length === 0) continue;
+
+    await useAuditStore.getState().logAudit({
+      action: 'create',
+      entityType: 'lab_result',
+      entityId: patientResults[0].id,
+      summary: `${source === 'manual' ? 'Recorded' : `Imported from ${source.toUpperCase()}`} ${patientResults.length} lab result${
+        patientResults.length === 1 ? '' : 's'
+      } for patient ${patientId}`,
+      after: patientResults
+    });
+  }
+
+  return saved;
+};
+
+const resultKey = (result: PendingResult) =>
+  `${result.patientId}|${result.testCode}|${new Date(result.collectedAt).getTime()}`;
+
+export const useLabStore = create<LabStore>((set, get) => ({
+  results: {},
+  loading: false,
+  error: null,
+
+  fetchResults: async (patientId) => {
+    set({ loading: true, error: null });
+    try {
+      const { data, error } = await supabase
+        .from('lab_results')
+        .select(LAB_SELECT)
+        .eq('patient_id', patientId)
+        .order('collected_at', { ascending: false });
+
+      if (error) throw error;
+
+      set(state => ({
+        results: { ...state.results, [patientId]: (data || []).map(formatResult) },
+        loading: false
+      }));
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to load lab results',
+        loading: false
+      });
+    }
+  },
+
+  recordResults: async (patientId, collectedAt, values) => {
+    assertPermission('labs.record');
+
+    await saveResults(
+      values.map(({ testCode, value }) => ({ patientId, testCode, value, collectedAt })),
+      'manual'
+    );
+    await get().fetchResults(patientId);
+  },
+
+  importResults: async (rows, source) => {
+    assertPermission('labs.record');
+
+    const mrns = Array.from(new Set(rows.map(row => row.mrn)));
+    const { data: patients, error } = await supabase
+      .from('patients')
+      .select('id, mrn')
+      .in('mrn', mrns)
+      .order('id');
+
+    if (error) throw error;
+
+    // Older data may hold several rows per MRN; the earliest is the canonical record
+    const patientIdsByMrn = new Map<string, number>();
+    (patients || []).forEach(patient => {
+      if (!patientIdsByMrn.has(patient.mrn)) patientIdsByMrn.set(patient.mrn, patient.id);
+    });
+    const unknownMrns = mrns.filter(mrn => !patientIdsByMrn.has(mrn));
+
+    // A file listing the same result twice is imported once
+    const pending = new Map<string, PendingResult>();
+    rows.forEach(row => {
+      const patientId = patientIdsByMrn.get(row.mrn);
+      if (patientId === undefined) return;
+      const result = { patientId, testCode: row.testCode, value: row.value, collectedAt: row.collectedAt };
+      pending.set(resultKey(result), result);
+    });
+
+    const saved = pending.size > 0 ? await saveResults(Array.from(pending.values()), source) : [];
+
+    const loaded = Object.keys(get().results).map(Number);
+    await Promise.all(
+      Array.from(new Set(saved.map(result => result.patient_id)))
+        .filter(patientId => loaded.includes(patientId))
+        .map(patientId => get().fetchResults(patientId))
+    );
+
+    return {
+      imported: saved.length,
+      duplicates: rows.length - saved.length - rows.filter(row => !patientIdsByMrn.has(row.mrn)).length,
+      critical: saved.filter(result => isCriticalFlag(result.flag)).length,
+      unknownMrns
+    };
+  }
+}));
@@ -1,6 +1,8 @@
 import { create } from 'zustand';
 import { supabase } from '../lib/supabase';
 import { useUserStore } from './useUserStore';
+import { assertPermission } from './usePermissionStore';
+import { useAuditStore } from './useAuditStore';
 
 interface LongStayNote {
   id: number;
@@ -77,6 +79,7 @@ export const useLongStayNotesStore = create<LongStayNotesStore>((set, get) => ({
     try {
       const currentUser = useUserStore.getState().currentUser;
       if (!currentUser) throw new Error('User not authenticated');
+      assertPermission('notes.create');
 
       const { data, error } = await supabase
         .from('long_stay_notes')
@@ -99,6 +102,14 @@ export const useLongStayNotesStore = create<LongStayNotesStore>((set, get) => ({
 
       if (error) throw error;
 
+      await useAuditStore.getState().logAudit({
+        action: 'create',
+        entityType: 'long_stay_note',
+        entityId: data.id,
+        summary: `Added long stay note for patient ${patientId}`,
+        after: { id: data.id, patient_id: data.patient_id, content: data.content, created_by: currentUser.id }
+      });
+
       const formattedNote: LongStayNote = {
         id: data.id,
         patient_id: data.patient_id,
@@ -0,0 +1,159 @@
+import { create } from 'zustand';
+import { supabase } from '../lib/supabase';
+import { useUserStore } from './useUserStore';
+import { assertPermission } from './usePermissionStore';
+import { useAuditStore } from './useAuditStore';
+import { ProcedureError, ADMINISTRATION_ERRORS } from '../utils/procedureErrors';
+import type {
+  AdministrationResponse,
+  MedicationAdministration,
+  MedicationOrder,
+  RecordAdministrationParams
+} from '../types/medication';
+
+interface MarStore {
+  // Keyed by patient id
+  administrations: Record<number, MedicationAdministration[]>;
+  // Running orders across all active admissions, with the doses recorded against
+  // them over the last day, for the ward overdue list
+  wardOrders: MedicationOrder[];
+  wardAdministrations: MedicationAdministration[];
+  loading: boolean;
+  error: string | null;
+  fetchAdministrations: (patientId: number, start: Date, end: Date) => Promise<void>;
+  fetchWardMedications: () => Promise<void>;
+  recordAdministration: (params: Omit<RecordAdministrationParams, 'p_nurse_id'>) => Promise<MedicationAdministration>;
+}
+
+const ADMINISTRATION_SELECT = `
+  *,
+  recorder:users!medication_administrations_recorded_by_fkey (
+    id,
+    name
+  )
+`;
+
+// How far back the ward list looks for doses that were never recorded
+const WARD_LOOKBACK_HOURS = 24;
+
+export const useMarStore = create<MarStore>((set, get) => ({
+  administrations: {},
+  wardOrders: [],
+  wardAdministrations: [],
+  loading: false,
+  error: null,
+
+  fetchAdministrations: async (patientId, start, end) => {
+    set({ loading: true, error: null });
+    try {
+      // PRN doses have no due time, so both times are matched against the window
+      const startIso = start.toISOString();
+      const endIso = end.toISOString();
+      const { data, error } = await supabase
+        .from('medication_administrations')
+        .select(ADMINISTRATION_SELECT)
+        .eq('patient_id', patientId)
+        .or(`and(scheduled_at.gte.${startIso},scheduled_at.lt.${endIso}),and(administered_at.gte.${startIso},administered_at.lt.${endIso})`)
+        .order('administered_at', { ascending: true });
+
+      if (error) throw error;
+
+      set(state => ({
+        administrations: { ...state.administrations, [patientId]: data as MedicationAdministration[] || [] },
+        loading: false
+      }));
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to load administrations',
+        loading: false
+      });
+    }
+  },
+
+  fetchWardMedications: async () => {
+    try {
+      const since = new Date(Date.now() - WARD_LOOKBACK_HOURS * 60 * 60 * 1000).toISOString();
+
+      const { data: orders, error: ordersError } = await supabase
+        .from('medication_orders')
+        .select(`
+          *,
+          admission:admissions!inner (
+            id,
+            department,
+            status,
+            patient:patients!admissions_patient_id_fkey (
+              id,
+              mrn,
+              name
+            )
+          )
+        `)
+        .eq('admission.status', 'active')
+        .eq('is_prn', false)
+        .is('discontinued_at', null)
+        .or(`stop_at.is.null,stop_at.gt.${since}`);
+
+      if (ordersError) throw ordersError;
+
+      const orderIds = (orders || []).map(order => order.id);
+      let administrations: MedicationAdministration[] = [];
+      if (orderIds.length > 0) {
+        const { data, error } = await supabase
+          .from('medication_administrations')
+          .select('*')
+          .in('order_id', orderIds)
+          .gte('scheduled_at', since);
+
+        if (error) throw error;
+        administrations = data as MedicationAdministration[] || [];
+      }
+
+      set({ wardOrders: orders as MedicationOrder[] || [], wardAdministrations: administrations });
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to load ward medications' });
+    }
+  },
+
+  recordAdministration: async (params) => {
+    assertPermission('medications.administer');
+
+    const currentUser = useUserStore.getState().currentUser;
+    if (!currentUser) throw new Error('No user logged in');
+
+    const { data, error } = await supabase.rpc('record_medication_administration', {
+      ...params,
+      p_nurse_id: currentUser.id
+    });
+
+    if (error) throw error;
+
+    const response = data as AdministrationResponse;
+    if (response.status === 'error') {
+      const code = response.code!;
+      throw new ProcedureError(code, ADMINISTRATION_ERRORS[code]);
+    }
+
+    const administration = response.administration!;
+    await useAuditStore.getState().logAudit({
+      action: 'create',
+      entityType: 'medication_administration',
+      entityId: administration.id,
+      summary: `Recorded dose of order ${administration.order_id} as ${administration.status} for patient ${administration.patient_id}`,
+      after: administration
+    });
+
+    const recorded = { ...administration, recorder: { id: currentUser.id, name: currentUser.name } };
+    set(state => ({
+      administrations: {
+        ...state.administrations,
+        [administration.patient_id]: [...(state.administrations[administration.patient_id] || []), recorded]
+      },
+      wardAdministrations: get().wardOrders.some(order => order.id === administration.order_id)
+        ? [...state.wardAdministrations, recorded]
+        : state.wardAdministrations
+    }));
+
+    return recorded;
+  }
+}));
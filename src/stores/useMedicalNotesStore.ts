@@ -1,26 +1,118 @@
 import { create } from 'zustand';
 import { supabase } from '../lib/supabase';
+import { useUserStore } from './useUserStore';
+import { assertPermission, usePermissionStore } from './usePermissionStore';
+import { useAuditStore } from './useAuditStore';
+import { ProcedureError, NOTE_ERRORS } from '../utils/procedureErrors';
+import { ROLES, isPermissionAllowed } from '../config/permissions';
+import type { MedicalNote, NoteInput, NoteResponse, NoteStatus, NoteVersion } from '../types/note';
+import type { User } from '../types/user';
 
-interface MedicalNote {
-  id: number;
-  patient_id: number;
-  doctor_id: number;
-  doctor_name: string;
-  note_type: 'Progress Note' | 'Follow-up Note' | 'Consultation Note' | 'Discharge Note' | 'Discharge Summary';
-  content: string;
-  created_at: string;
-}
+export type Cosigner = Pick<User, 'id' | 'name' | 'department'>;
 
 interface MedicalNotesStore {
   notes: MedicalNote[];
+  // Saved versions, oldest first, keyed by note id
+  versions: Record<number, NoteVersion[]>;
+  // Notes awaiting the current user's co-signature, across patients
+  cosignQueue: MedicalNote[];
+  // Doctors a note can be routed to for co-signature
+  cosigners: Cosigner[];
   loading: boolean;
   error: string | null;
   fetchNotes: (patientId: number) => Promise<void>;
-  addNote: (note: Omit<MedicalNote, 'id' | 'created_at' | 'doctor_name'>) => Promise<void>;
+  addNote: (note: NoteInput & {
+    patient_id: number;
+    doctor_id: number;
+    status: NoteStatus;
+    cosigner_id: number | null;
+  }) => Promise<void>;
+  updateDraft: (note: MedicalNote, input: NoteInput) => Promise<void>;
+  signNote: (note: MedicalNote, cosignerId: number | null) => Promise<void>;
+  addAddendum: (note: MedicalNote, content: string) => Promise<void>;
+  refreshNote: (noteId: number) => Promise<void>;
+  fetchVersions: (noteId: number) => Promise<void>;
+  fetchCosignQueue: () => Promise<void>;
+  fetchCosigners: () => Promise<void>;
+  cosignNote: (note: MedicalNote, comment: string) => Promise<void>;
+  returnNote: (note: MedicalNote, comment: string) => Promise<void>;
 }
 
-export const useMedicalNotesStore = create<MedicalNotesStore>((set) => ({
+const NOTE_SELECT = `
+  *,
+  users!medical_notes_doctor_id_fkey (
+    name
+  ),
+  signer:users!medical_notes_signed_by_fkey (
+    id,
+    name
+  ),
+  cosigner:users!medical_notes_cosigner_id_fkey (
+    id,
+    name
+  ),
+  addenda:medical_note_addenda (
+    *,
+    author:users!medical_note_addenda_author_id_fkey (
+      id,
+      name
+    )
+  )
+`;
+
+const QUEUE_SELECT = `
+  ${NOTE_SELECT},
+  patient:patients (
+    id,
+    name,
+    mrn
+  )
+`;
+
+const VERSION_SELECT = `
+  *,
+  saver:users!medical_note_versions_saved_by_fkey (
+    id,
+    name
+  )
+`;
+
+const toNote = ({ users, ...row }: any): MedicalNote => ({
+  ...row,
+  doctor_name: users?.name || 'Unknown Doctor',
+  addenda: [...(row.addenda || [])].sort((a, b) => a.created_at.localeCompare(b.created_at))
+});
+
+const throwOnError = (response: NoteResponse) => {
+  if (response.status === 'error') {
+    const code = response.code!;
+    throw new ProcedureError(code, NOTE_ERRORS[code]);
+  }
+};
+
+const getCurrentUserId = () => {
+  const currentUser = useUserStore.getState().currentUser;
+  if (!currentUser) throw new Error('No user logged in');
+  return currentUser.id;
+};
+
+const fetchNote = async (noteId: number): Promise<MedicalNote> => {
+  const { data, error } = await supabase
+    .from('medical_notes')
+    .select(NOTE_SELECT)
+    .eq('id', noteId)
+    .single();
+
+  if (error) throw error;
+
+  return toNote(data);
+};
+
+export const useMedicalNotesStore = create<MedicalNotesStore>((set, get) => ({
   notes: [],
+  versions: {},
+  cosignQueue: [],
+  cosigners: [],
   loading: false,
   error: null,
 
@@ -29,56 +121,235 @@ export const useMedicalNotesStore = create<MedicalNotesStore>((set) => ({
     try {
       const { data, error } = await supabase
         .from('medical_notes')
-        .select(`
-          *,
-          users (
-            name
-          )
-        `)
+        .select(NOTE_SELECT)
         .eq('patient_id', patientId)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
 
-      const notesWithDoctorNames = data?.map(note => ({
-        ...note,
-        doctor_name: note.users?.name || 'Unknown Doctor'
-      })) || [];
-
-      set({ notes: notesWithDoctorNames, loading: false });
+      set({ notes: (data || []).map(toNote), loading: false });
     } catch (error) {
       set({ error: (error as Error).message, loading: false });
     }
   },
 
   addNote: async (note) => {
-    set({ loading: true, error: null });
-    try {
-      const { data, error } = await supabase
-        .from('medical_notes')
-        .insert([note])
-        .select(`
-          *,
-          users (
-            name
-          )
-        `)
-        .single();
+    assertPermission('notes.create');
 
-      if (error) throw error;
+    const { data, error } = await supabase
+      .from('medical_notes')
+      .insert([note])
+      .select('*')
+      .single();
 
-      const noteWithDoctorName = {
-        ...data,
-        doctor_name: data.users?.name || 'Unknown Doctor'
-      };
+    if (error) throw error;
 
-      set(state => ({
-        notes: [noteWithDoctorName, ...state.notes],
-        loading: false
-      }));
-    } catch (error) {
-      set({ error: (error as Error).message, loading: false });
-      throw error;
+    await useAuditStore.getState().logAudit({
+      action: 'create',
+      entityType: 'medical_note',
+      entityId: data.id,
+      summary: `${note.status === 'signed' ? 'Added and signed' : 'Saved draft'} ${data.note_type} for patient ${data.patient_id}${
+        data.cosign_status === 'pending' ? ', routed for co-signature' : ''
+      }`,
+      after: data
+    });
+
+    const added = await fetchNote(data.id);
+    set(state => ({ notes: [added, ...state.notes] }));
+  },
+
+  updateDraft: async (note, input) => {
+    assertPermission('notes.create');
+
+    const { data, error } = await supabase.rpc('update_note_draft', {
+      p_note_id: note.id,
+      p_user_id: getCurrentUserId(),
+      p_note_type: input.note_type,
+      p_content: input.content,
+      p_sections: input.sections
+    });
+
+    if (error) throw error;
+
+    const response = data as NoteResponse;
+    throwOnError(response);
+
+    await useAuditStore.getState().logAudit({
+      action: 'update',
+      entityType: 'medical_note',
+      entityId: note.id,
+      summary: `Edited draft ${input.note_type} for patient ${note.patient_id}`,
+      before: response.before,
+      after: response.note
+    });
+
+    await get().refreshNote(note.id);
+  },
+
+  signNote: async (note, cosignerId) => {
+    assertPermission('notes.create');
+
+    const { data, error } = await supabase.rpc('sign_medical_note', {
+      p_note_id: note.id,
+      p_user_id: getCurrentUserId(),
+      p_cosigner_id: cosignerId
+    });
+
+    if (error) throw error;
+
+    const response = data as NoteResponse;
+    throwOnError(response);
+
+    await useAuditStore.getState().logAudit({
+      action: 'sign',
+      entityType: 'medical_note',
+      entityId: note.id,
+      summary: `Signed ${note.note_type} for patient ${note.patient_id}${cosignerId ? ', routed for co-signature' : ''}`,
+      before: response.before,
+      after: response.note
+    });
+
+    await get().refreshNote(note.id);
+  },
+
+  addAddendum: async (note, content) => {
+    assertPermission('notes.create');
+
+    const { data, error } = await supabase.rpc('add_note_addendum', {
+      p_note_id: note.id,
+      p_user_id: getCurrentUserId(),
+      p_content: content
+    });
+
+    if (error) throw error;
+
+    const response = data as NoteResponse;
+    throwOnError(response);
+
+    await useAuditStore.getState().logAudit({
+      action: 'create',
+      entityType: 'medical_note',
+      entityId: note.id,
+      summary: `Added an addendum to ${note.note_type} for patient ${note.patient_id}`,
+      after: response.addendum
+    });
+
+    await get().refreshNote(note.id);
+  },
+
+  // Reloads one note after a change so its addenda and signers come with it;
+  // notes that have left the co-signature queue are dropped from it
+  refreshNote: async (noteId) => {
+    const note = await fetchNote(noteId);
+    set(state => ({
+      notes: state.notes.map(existing => existing.id === noteId ? note : existing),
+      cosignQueue: state.cosignQueue.filter(queued => queued.id !== noteId || note.cosign_status === 'pending')
+    }));
+    if (get().versions[noteId]) {
+      await get().fetchVersions(noteId);
+    }
+  },
+
+  fetchVersions: async (noteId) => {
+    const { data, error } = await supabase
+      .from('medical_note_versions')
+      .select(VERSION_SELECT)
+      .eq('note_id', noteId)
+      .order('version', { ascending: true });
+
+    if (error) throw error;
+
+    set(state => ({ versions: { ...state.versions, [noteId]: data as NoteVersion[] || [] } }));
+  },
+
+  fetchCosignQueue: async () => {
+    const currentUser = useUserStore.getState().currentUser;
+    if (!currentUser) return;
+
+    const { data, error } = await supabase
+      .from('medical_notes')
+      .select(QUEUE_SELECT)
+      .eq('cosigner_id', currentUser.id)
+      .eq('cosign_status', 'pending')
+      .order('signed_at', { ascending: true });
+
+    if (error) throw error;
+
+    set({ cosignQueue: (data || []).map(toNote) });
+  },
+
+  fetchCosigners: async () => {
+    const currentUser = useUserStore.getState().currentUser;
+    const { rolePermissions } = usePermissionStore.getState();
+    const roles = ROLES.filter(role =>
+      isPermissionAllowed(role, 'notes.cosign') && rolePermissions[role].includes('notes.cosign')
+    );
+    if (roles.length === 0) {
+      set({ cosigners: [] });
+      return;
     }
+
+    const { data, error } = await supabase
+      .from('users')
+      .select('id, name, department')
+      .eq('status', 'active')
+      .in('role', roles)
+      .order('name');
+
+    if (error) throw error;
+
+    set({ cosigners: (data as Cosigner[] || []).filter(user => user.id !== currentUser?.id) });
+  },
+
+  cosignNote: async (note, comment) => {
+    assertPermission('notes.cosign');
+
+    const { data, error } = await supabase.rpc('cosign_medical_note', {
+      p_note_id: note.id,
+      p_user_id: getCurrentUserId(),
+      p_comment: comment
+    });
+
+    if (error) throw error;
+
+    const response = data as NoteResponse;
+    throwOnError(response);
+
+    await useAuditStore.getState().logAudit({
+      action: 'cosign',
+      entityType: 'medical_note',
+      entityId: note.id,
+      summary: `Co-signed ${note.note_type} by ${note.doctor_name} for patient ${note.patient_id}`,
+      before: response.before,
+      after: response.note
+    });
+
+    await get().refreshNote(note.id);
+  },
+
+  returnNote: async (note, comment) => {
+    assertPermission('notes.cosign');
+
+    const { data, error } = await supabase.rpc('return_medical_note', {
+      p_note_id: note.id,
+      p_user_id: getCurrentUserId(),
+      p_comment: comment
+    });
+
+    if (error) throw error;
+
+    const response = data as NoteResponse;
+    throwOnError(response);
+
+    await useAuditStore.getState().logAudit({
+      action: 'return',
+      entityType: 'medical_note',
+      entityId: note.id,
+      summary: `Returned ${note.note_type} to ${note.doctor_name} for patient ${note.patient_id}: ${comment}`,
+      before: response.before,
+      after: response.note
+    });
+
+    await get().refreshNote(note.id);
   }
-}));
\ No newline at end of file
+}));
@@ -0,0 +1,125 @@
+import { create } from 'zustand';
+import { supabase } from '../lib/supabase';
+import { useUserStore } from './useUserStore';
+import { assertPermission } from './usePermissionStore';
+import { useAuditStore } from './useAuditStore';
+import { ProcedureError, MEDICATION_ERRORS } from '../utils/procedureErrors';
+import type { MedicationOrder, MedicationOrderResponse, PrescribeMedicationParams } from '../types/medication';
+
+interface MedicationStore {
+  // Keyed by patient id
+  orders: Record<number, MedicationOrder[]>;
+  loading: boolean;
+  error: string | null;
+  fetchOrders: (patientId: number) => Promise<void>;
+  prescribeMedication: (params: Omit<PrescribeMedicationParams, 'p_prescriber_id'>) => Promise<MedicationOrder>;
+  discontinueOrder: (order: MedicationOrder, reason: string) => Promise<void>;
+}
+
+const ORDER_SELECT = `
+  *,
+  prescriber:users!medication_orders_prescribed_by_fkey (
+    id,
+    name
+  ),
+  discontinued_by_user:users!medication_orders_discontinued_by_fkey (
+    id,
+    name
+  )
+`;
+
+const throwOnError = (response: MedicationOrderResponse) => {
+  if (response.status === 'error') {
+    const code = response.code!;
+    throw new ProcedureError(code, MEDICATION_ERRORS[code]);
+  }
+};
+
+export const useMedicationStore = create<MedicationStore>((set, get) => ({
+  orders: {},
+  loading: false,
+  error: null,
+
+  fetchOrders: async (patientId) => {
+    set({ loading: true, error: null });
+    try {
+      const { data, error } = await supabase
+        .from('medication_orders')
+        .select(ORDER_SELECT)
+        .eq('patient_id', patientId)
+        .order('start_at', { ascending: false });
+
+      if (error) throw error;
+
+      set(state => ({
+        orders: { ...state.orders, [patientId]: data as MedicationOrder[] || [] },
+        loading: false
+      }));
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to load medication orders',
+        loading: false
+      });
+    }
+  },
+
+  prescribeMedication: async (params) => {
+    assertPermission('medications.prescribe');
+
+    const currentUser = useUserStore.getState().currentUser;
+    if (!currentUser) throw new Error('No user logged in');
+
+    const { data, error } = await supabase.rpc('prescribe_medication', {
+      ...params,
+      p_prescriber_id: currentUser.id
+    });
+
+    if (error) throw error;
+
+    const response = data as MedicationOrderResponse;
+    throwOnError(response);
+
+    const order = response.order!;
+    await useAuditStore.getState().logAudit({
+      action: 'create',
+      entityType: 'medication_order',
+      entityId: order.id,
+      summary: `Prescribed ${order.drug_name} ${order.dose} for patient ${order.patient_id}${
+        order.override_reason ? `, overriding safety alerts: ${order.override_reason}` : ''
+      }`,
+      after: order
+    });
+
+    await get().fetchOrders(order.patient_id);
+    return order;
+  },
+
+  discontinueOrder: async (order, reason) => {
+    assertPermission('medications.prescribe');
+
+    const currentUser = useUserStore.getState().currentUser;
+    if (!currentUser) throw new Error('No user logged in');
+
+    const { data, error } = await supabase.rpc('discontinue_medication_order', {
+      p_order_id: order.id,
+      p_doctor_id: currentUser.id,
+      p_reason: reason
+    });
+
+    if (error) throw error;
+
+    const response = data as MedicationOrderResponse;
+    throwOnError(response);
+
+    await useAuditStore.getState().logAudit({
+      action: 'update',
+      entityType: 'medication_order',
+      entityId: order.id,
+      summary: `Discontinued ${order.drug_name} for patient ${order.patient_id}: ${reason}`,
+      before: response.before,
+      after: response.order
+    });
+
+    await get().fetchOrders(order.patient_id);
+  }
+}));
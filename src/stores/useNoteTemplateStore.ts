@@ -0,0 +1,87 @@
+import { create } from 'zustand';
+import { supabase } from '../lib/supabase';
+import { useUserStore } from './useUserStore';
+import { assertPermission } from './usePermissionStore';
+import { useAuditStore } from './useAuditStore';
+import { assignSectionKeys } from '../utils/noteTemplates';
+import type { NoteTemplate, NoteTemplateSection, NoteType } from '../types/note';
+
+interface NoteTemplateStore {
+  // Saved templates; note types without one fall back to the bundled default
+  templates: Partial<Record<NoteType, NoteTemplate>>;
+  loaded: boolean;
+  loading: boolean;
+  error: string | null;
+  fetchTemplates: () => Promise<void>;
+  saveTemplate: (noteType: NoteType, sections: NoteTemplateSection[]) => Promise<void>;
+}
+
+const TEMPLATE_SELECT = `
+  *,
+  updater:users!note_templates_updated_by_fkey (
+    id,
+    name
+  )
+`;
+
+export const useNoteTemplateStore = create<NoteTemplateStore>((set, get) => ({
+  templates: {},
+  loaded: false,
+  loading: false,
+  error: null,
+
+  fetchTemplates: async () => {
+    set({ loading: true, error: null });
+    try {
+      const { data, error } = await supabase
+        .from('note_templates')
+        .select(TEMPLATE_SELECT);
+
+      if (error) throw error;
+
+      const templates: Partial<Record<NoteType, NoteTemplate>> = {};
+      (data as NoteTemplate[] || []).forEach(template => {
+        templates[template.note_type] = template;
+      });
+
+      set({ templates, loaded: true, loading: false });
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to load note templates',
+        loading: false
+      });
+    }
+  },
+
+  saveTemplate: async (noteType, sections) => {
+    assertPermission('templates.manage');
+
+    const currentUser = useUserStore.getState().currentUser;
+    if (!currentUser) throw new Error('No user logged in');
+
+    const before = get().templates[noteType];
+    const { data, error } = await supabase
+      .from('note_templates')
+      .upsert({
+        note_type: noteType,
+        sections: assignSectionKeys(sections),
+        updated_by: currentUser.id,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'note_type' })
+      .select(TEMPLATE_SELECT)
+      .single();
+
+    if (error) throw error;
+
+    await useAuditStore.getState().logAudit({
+      action: before ? 'update' : 'create',
+      entityType: 'note_template',
+      entityId: noteType,
+      summary: `Saved the ${noteType} template with ${data.sections.length} section${data.sections.length === 1 ? '' : 's'}`,
+      before: before ? { sections: before.sections } : undefined,
+      after: { sections: data.sections }
+    });
+
+    set(state => ({ templates: { ...state.templates, [noteType]: data as NoteTemplate } }));
+  }
+}));
@@ -0,0 +1,77 @@
+import { create } from 'zustand';
+import { supabase } from '../lib/supabase';
+import { useUserStore } from './useUserStore';
+import type { PatientAccessEntry, PatientAccessFilters, PatientAccessType } from '../types/audit';
+
+interface PatientAccessStore {
+  entries: PatientAccessEntry[];
+  loading: boolean;
+  error: string | null;
+  fetchAccessLog: (filters: PatientAccessFilters) => Promise<void>;
+  logAccess: (patientId: number, accessType: PatientAccessType) => Promise<void>;
+}
+
+const ACCESS_FETCH_LIMIT = 1000;
+
+export const usePatientAccessStore = create<PatientAccessStore>((set) => ({
+  entries: [],
+  loading: false,
+  error: null,
+
+  fetchAccessLog: async (filters) => {
+    set({ loading: true, error: null });
+    try {
+      let query = supabase
+        .from('patient_access_log')
+        .select('*')
+        .order('accessed_at', { ascending: false })
+        .limit(ACCESS_FETCH_LIMIT);
+
+      if (filters.userId !== 'all') {
+        query = query.eq('user_id', filters.userId);
+      }
+      if (filters.accessType !== 'all') {
+        query = query.eq('access_type', filters.accessType);
+      }
+      if (filters.flaggedOnly) {
+        query = query.eq('has_care_relationship', false);
+      }
+      if (filters.dateFrom) {
+        query = query.gte('accessed_at', new Date(`${filters.dateFrom}T00:00:00`).toISOString());
+      }
+      if (filters.dateTo) {
+        query = query.lte('accessed_at', new Date(`${filters.dateTo}T23:59:59.999`).toISOString());
+      }
+      if (filters.patientQuery.trim()) {
+        const term = filters.patientQuery.trim().replace(/[,()]/g, ' ');
+        query = query.or(`patient_mrn.ilike.%${term}%,patient_name.ilike.%${term}%`);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      set({ entries: data as PatientAccessEntry[] || [], loading: false });
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to fetch access log',
+        loading: false
+      });
+    }
+  },
+
+  logAccess: async (patientId, accessType) => {
+    const currentUser = useUserStore.getState().currentUser;
+    if (!currentUser) return;
+
+    const { error } = await supabase.rpc('log_patient_access', {
+      p_patient_id: patientId,
+      p_user_id: currentUser.id,
+      p_access_type: accessType
+    });
+
+    // Never block a clinician from the chart because the access log is unavailable
+    if (error) {
+      console.error('Error logging patient access:', error);
+    }
+  }
+}));
@@ -0,0 +1,152 @@
+import { create } from 'zustand';
+import { supabase } from '../lib/supabase';
+import { useUserStore } from './useUserStore';
+import { useSessionStore } from './useSessionStore';
+import { usePatientStore } from './usePatientStore';
+import { assertPermission } from './usePermissionStore';
+import type {
+  DuplicateCandidate,
+  DuplicatePair,
+  MergePreview,
+  MergeResponse,
+  RecordCounts
+} from '../types/patientMerge';
+
+interface PatientMergeStore {
+  duplicates: DuplicatePair[];
+  loading: boolean;
+  error: string | null;
+  fetchDuplicates: () => Promise<void>;
+  fetchMergePreview: (survivorId: number, duplicateId: number) => Promise<MergePreview>;
+  mergePatients: (survivorId: number, duplicateId: number) => Promise<MergeResponse>;
+}
+
+const getMergeErrorMessage = (response: MergeResponse): string => {
+  switch (response.status) {
+    case 'forbidden':
+      return 'You do not have permission to merge patient records';
+    case 'same_patient':
+      return 'Choose two different patient records to merge';
+    case 'patient_not_found':
+      return 'One of the patient records no longer exists';
+    case 'both_active':
+      return 'Both records have an active admission. Discharge one before merging';
+    case 'conflicting_records':
+      return `Both records hold the same entry in ${response.table?.replace(/_/g, ' ') ?? 'another table'}. Remove the duplicate entry before merging`;
+    default:
+      return 'Failed to merge patient records';
+  }
+};
+
+const countRecords = async (table: string, patientId: number): Promise<number> => {
+  const { count, error } = await supabase
+    .from(table)
+    .select('id', { count: 'exact', head: true })
+    .eq('patient_id', patientId);
+
+  if (error) throw error;
+  return count ?? 0;
+};
+
+const fetchRecordCounts = async (patientId: number): Promise<RecordCounts> => {
+  const [admissions, medicalNotes, longStayNotes, consultations] = await Promise.all([
+    countRecords('admissions', patientId),
+    countRecords('medical_notes', patientId),
+    countRecords('long_stay_notes', patientId),
+    countRecords('consultations', patientId)
+  ]);
+
+  return {
+    admissions,
+    medical_notes: medicalNotes,
+    long_stay_notes: longStayNotes,
+    consultations
+  };
+};
+
+export const usePatientMergeStore = create<PatientMergeStore>((set, get) => ({
+  duplicates: [],
+  loading: false,
+  error: null,
+
+  fetchDuplicates: async () => {
+    set({ loading: true, error: null });
+    try {
+      const { data, error } = await supabase.rpc('find_duplicate_patients');
+
+      if (error) throw error;
+
+      const candidates = (data || []) as DuplicateCandidate[];
+      const ids = Array.from(new Set(candidates.flatMap(c => [c.patient_id, c.duplicate_id])));
+      const patients = await usePatientStore.getState().fetchPatientsByIds(ids);
+      const patientsById = new Map(patients.map(patient => [patient.id, patient]));
+
+      const duplicates = candidates
+        .filter(c => patientsById.has(c.patient_id) && patientsById.has(c.duplicate_id))
+        .map(c => ({
+          ...c,
+          patient: patientsById.get(c.patient_id)!,
+          duplicate: patientsById.get(c.duplicate_id)!
+        }));
+
+      set({ duplicates, loading: false });
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to find duplicate patients',
+        loading: false
+      });
+    }
+  },
+
+  fetchMergePreview: async (survivorId, duplicateId) => {
+    const [patients, survivorCounts, duplicateCounts] = await Promise.all([
+      usePatientStore.getState().fetchPatientsByIds([survivorId, duplicateId]),
+      fetchRecordCounts(survivorId),
+      fetchRecordCounts(duplicateId)
+    ]);
+
+    const survivor = patients.find(patient => patient.id === survivorId);
+    const duplicate = patients.find(patient => patient.id === duplicateId);
+    if (!survivor || !duplicate) {
+      throw new Error('One of the patient records no longer exists');
+    }
+
+    return { survivor, duplicate, survivorCounts, duplicateCounts };
+  },
+
+  mergePatients: async (survivorId, duplicateId) => {
+    assertPermission('patients.merge');
+    await useSessionStore.getState().requireReauth('Confirm your PIN to merge these patient records');
+
+    set({ loading: true, error: null });
+    try {
+      const currentUser = useUserStore.getState().currentUser;
+      if (!currentUser) throw new Error('No user logged in');
+
+      const { data, error } = await supabase.rpc('merge_patients', {
+        p_survivor_id: survivorId,
+        p_duplicate_id: duplicateId,
+        p_admin_id: currentUser.id
+      });
+
+      if (error) throw error;
+
+      const response = data as MergeResponse;
+      if (response.status !== 'merged') {
+        throw new Error(getMergeErrorMessage(response));
+      }
+
+      // Refreshing also drops any other pair involving the removed record
+      await usePatientStore.getState().fetchPatients();
+      await get().fetchDuplicates();
+
+      return response;
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to merge patient records',
+        loading: false
+      });
+      throw error;
+    }
+  }
+}));
@@ -1,6 +1,12 @@
 import { create } from 'zustand';
 import { supabase } from '../lib/supabase';
+import { useUserStore } from './useUserStore';
+import { assertPermission } from './usePermissionStore';
+import { useAuditStore } from './useAuditStore';
 import type { Patient } from '../types/patient';
+import type { AdmitPatientParams, AdmitPatientResponse } from '../types/admission';
+import { ADMISSION_ERRORS, ProcedureError } from '../utils/procedureErrors';
+import { getStayStartDate } from '../utils/stayCalculator';
 
 interface PatientStore {
   patients: Patient[];
@@ -8,12 +14,118 @@ interface PatientStore {
   loading: boolean;
   error: string | null;
   fetchPatients: (includeAllDischarged?: boolean) => Promise<void>;
-  addPatient: (patientData: any) => Promise<void>;
+  searchPatients: (query: string) => Promise<Patient[]>;
+  findPatientByMrn: (mrn: string) => Promise<Patient | null>;
+  fetchPatientsByIds: (ids: number[]) => Promise<Patient[]>;
+  addPatient: (params: Omit<AdmitPatientParams, 'p_user_id'>) => Promise<void>;
   updatePatient: (id: number, updates: Partial<Patient>) => Promise<void>;
   deletePatient: (id: number) => Promise<void>;
   setSelectedPatient: (patient: Patient | null) => void;
 }
 
+const PATIENT_SELECT = `
+  id,
+  mrn,
+  name,
+  date_of_birth,
+  gender,
+  created_at,
+  updated_at,
+  admissions!admissions_patient_id_fkey (
+    id,
+    patient_id,
+    admitting_doctor_id,
+    admission_date,
+    discharge_date,
+    department,
+    diagnosis,
+    final_diagnosis,
+    status,
+    visit_number,
+    safety_type,
+    shift_type,
+    is_weekend,
+    shift_override_reason,
+    transferred_from_id,
+    diagnoses:admission_diagnoses (
+      id,
+      admission_id,
+      stage,
+      code,
+      description,
+      is_primary
+    ),
+    admitting_doctor:users!admissions_admitting_doctor_id_fkey (
+      id,
+      name,
+      medical_code,
+      role,
+      department
+    ),
+    discharge_doctor:users!admissions_discharge_doctor_id_fkey (
+      id,
+      name,
+      medical_code,
+      role,
+      department
+    )
+  )
+`;
+
+const PATIENT_SEARCH_LIMIT = 10;
+
+type PatientAdmission = NonNullable<Patient['admissions']>[number];
+
+// A patient row as selected with PATIENT_SELECT; embedded doctors arrive as arrays
+interface PatientRow extends Pick<Patient, 'id' | 'mrn' | 'name' | 'date_of_birth' | 'gender'> {
+  admissions?: Array<Omit<PatientAdmission, 'admitting_doctor' | 'discharge_doctor'> & {
+    admitting_doctor?: NonNullable<PatientAdmission['admitting_doctor']>[] | null;
+    discharge_doctor?: NonNullable<PatientAdmission['discharge_doctor']>[] | null;
+  }> | null;
+}
+
+const formatPatient = (patient: PatientRow): Patient => {
+  const admissions: PatientAdmission[] = (patient.admissions || [])
+    .sort((a, b) => new Date(b.admission_date).getTime() - new Date(a.admission_date).getTime())
+    .map(admission => ({
+      id: admission.id,
+      patient_id: admission.patient_id,
+      admitting_doctor_id: admission.admitting_doctor_id,
+      admission_date: admission.admission_date,
+      discharge_date: admission.discharge_date,
+      department: admission.department,
+      diagnosis: admission.diagnosis,
+      final_diagnosis: admission.final_diagnosis,
+      diagnoses: admission.diagnoses || [],
+      status: admission.status,
+      visit_number: admission.visit_number,
+      safety_type: admission.safety_type,
+      shift_type: admission.shift_type,
+      is_weekend: admission.is_weekend,
+      shift_override_reason: admission.shift_override_reason,
+      transferred_from_id: admission.transferred_from_id,
+      admitting_doctor: admission.admitting_doctor?.[0],
+      discharge_doctor: admission.discharge_doctor?.[0]
+    }));
+
+  const activeAdmission = admissions.find(a => a.status === 'active');
+  const latestAdmission = admissions[0];
+  const currentAdmission = activeAdmission || latestAdmission;
+
+  return {
+    id: patient.id,
+    mrn: patient.mrn,
+    name: patient.name,
+    date_of_birth: patient.date_of_birth,
+    gender: patient.gender,
+    admissions,
+    department: activeAdmission?.department || latestAdmission?.department,
+    diagnosis: activeAdmission?.diagnosis || latestAdmission?.diagnosis,
+    admission_date: currentAdmission && getStayStartDate(currentAdmission, admissions),
+    doctor_name: activeAdmission?.admitting_doctor?.name || latestAdmission?.admitting_doctor?.name
+  };
+};
+
 export const usePatientStore = create<PatientStore>((set, get) => ({
   patients: [],
   selectedPatient: null,
@@ -29,43 +141,7 @@ export const usePatientStore = create<PatientStore>((set, get) => ({
     try {
       let query = supabase
         .from('patients')
-        .select(`
-          id,
-          mrn,
-          name,
-          date_of_birth,
-          gender,
-          created_at,
-          updated_at,
-          admissions!admissions_patient_id_fkey (
-            id,
-            patient_id,
-            admitting_doctor_id,
-            admission_date,
-            discharge_date,
-            department,
-            diagnosis,
-            status,
-            visit_number,
-            safety_type,
-            shift_type,
-            is_weekend,
-            admitting_doctor:users!admissions_admitting_doctor_id_fkey (
-              id,
-              name,
-              medical_code,
-              role,
-              department
-            ),
-            discharge_doctor:users!admissions_discharge_doctor_id_fkey (
-              id,
-              name,
-              medical_code,
-              role,
-              department
-            )
-          )
-        `);
+        .select(PATIENT_SELECT);
 
       if (!includeAllDischarged) {
         const cutoffTime = new Date();
@@ -82,42 +158,7 @@ export const usePatientStore = create<PatientStore>((set, get) => ({
 
       if (error) throw error;
 
-      const patientsWithDetails = data?.map(patient => {
-        const admissions = (patient.admissions || [])
-          .sort((a, b) => new Date(b.admission_date).getTime() - new Date(a.admission_date).getTime())
-          .map(admission => ({
-            id: admission.id,
-            patient_id: admission.patient_id,
-            admitting_doctor_id: admission.admitting_doctor_id,
-            admission_date: admission.admission_date,
-            discharge_date: admission.discharge_date,
-            department: admission.department,
-            diagnosis: admission.diagnosis,
-            status: admission.status,
-            visit_number: admission.visit_number,
-            safety_type: admission.safety_type,
-            shift_type: admission.shift_type,
-            is_weekend: admission.is_weekend,
-            admitting_doctor: admission.admitting_doctor?.[0],
-            discharge_doctor: admission.discharge_doctor?.[0]
-          }));
-
-        const activeAdmission = admissions.find(a => a.status === 'active');
-        const latestAdmission = admissions[0];
-
-        return {
-          id: patient.id,
-          mrn: patient.mrn,
-          name: patient.name,
-          date_of_birth: patient.date_of_birth,
-          gender: patient.gender,
-          admissions,
-          department: activeAdmission?.department || latestAdmission?.department,
-          diagnosis: activeAdmission?.diagnosis || latestAdmission?.diagnosis,
-          admission_date: activeAdmission?.admission_date || latestAdmission?.admission_date,
-          doctor_name: activeAdmission?.admitting_doctor?.name || latestAdmission?.admitting_doctor?.name
-        };
-      }) || [];
+      const patientsWithDetails = data?.map(formatPatient) || [];
 
       set({ patients: patientsWithDetails });
 
@@ -139,57 +180,97 @@ export const usePatientStore = create<PatientStore>((set, get) => ({
     }
   },
 
-  addPatient: async (patientData) => {
+  searchPatients: async (query) => {
+    const term = query.trim().replace(/[,()]/g, ' ');
+    if (!term) return [];
+
+    const { data, error } = await supabase
+      .from('patients')
+      .select(PATIENT_SELECT)
+      .or(`mrn.ilike.%${term}%,name.ilike.%${term}%`)
+      .order('name')
+      .limit(PATIENT_SEARCH_LIMIT);
+
+    if (error) throw error;
+    return data?.map(formatPatient) || [];
+  },
+
+  findPatientByMrn: async (mrn) => {
+    const { data, error } = await supabase
+      .from('patients')
+      .select(PATIENT_SELECT)
+      .eq('mrn', mrn.trim())
+      .order('id')
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? formatPatient(data) : null;
+  },
+
+  fetchPatientsByIds: async (ids) => {
+    if (ids.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('patients')
+      .select(PATIENT_SELECT)
+      .in('id', ids);
+
+    if (error) throw error;
+    return data?.map(formatPatient) || [];
+  },
+
+  addPatient: async (params) => {
     set({ loading: true, error: null });
     try {
-      const { data: patientResult, error: patientError } = await supabase
-        .from('patients')
-        .insert({
-          mrn: patientData.mrn,
-          name: patientData.name,
-          date_of_birth: patientData.date_of_birth,
-          gender: patientData.gender
-        })
-        .select()
-        .single();
+      assertPermission('admission.create');
+      const currentUser = useUserStore.getState().currentUser;
+      if (!currentUser) throw new Error('No user logged in');
 
-      if (patientError) throw patientError;
-
-      const { data: admissionResult, error: admissionError } = await supabase
-        .from('admissions')
-        .insert({
-          patient_id: patientResult.id,
-          admitting_doctor_id: patientData.admission.admitting_doctor_id,
-          admission_date: patientData.admission.admission_date,
-          department: patientData.admission.department,
-          diagnosis: patientData.admission.diagnosis,
-          status: 'active',
-          safety_type: patientData.admission.safety_type,
-          shift_type: patientData.admission.shift_type,
-          is_weekend: patientData.admission.is_weekend,
-          visit_number: 1
-        })
-        .select(`
-          *,
-          admitting_doctor:users!admissions_admitting_doctor_id_fkey (
-            id,
-            name,
-            medical_code,
-            role,
-            department
-          )
-        `)
-        .single();
+      const { data, error } = await supabase.rpc('admit_patient', {
+        ...params,
+        p_user_id: currentUser.id
+      });
 
-      if (admissionError) throw admissionError;
+      if (error) throw error;
+
+      const response = data as AdmitPatientResponse;
+      if (response.status === 'error' && response.code) {
+        const mapping = ADMISSION_ERRORS[response.code];
+        throw new ProcedureError(response.code, response.code === 'active_admission_exists' && response.department
+          ? { ...mapping, message: `This patient already has an active admission in ${response.department}` }
+          : mapping);
+      }
+
+      const { patient, admission } = response;
+      if (!patient || !admission) throw new Error('Admission was not recorded');
+
+      const { logAudit } = useAuditStore.getState();
+      if (response.is_new_patient) {
+        await logAudit({
+          action: 'create',
+          entityType: 'patient',
+          entityId: patient.id,
+          summary: `Registered patient ${patient.name} (MRN ${patient.mrn})`,
+          after: patient
+        });
+      }
+      await logAudit({
+        action: 'create',
+        entityType: 'admission',
+        entityId: admission.id,
+        summary: `Admitted ${patient.name} to ${admission.department} (visit #${admission.visit_number})`,
+        after: { ...admission, diagnoses: response.diagnoses }
+      });
 
       await get().fetchPatients();
 
       set({ loading: false });
     } catch (error) {
       console.error('Error adding patient:', error);
+      // Validation failures are shown against the form field, not as a store error
       set({ 
-        error: error instanceof Error ? error.message : 'Failed to add patient', 
+        error: error instanceof ProcedureError ? null : error instanceof Error ? error.message : 'Failed to add patient', 
         loading: false 
       });
       throw error;
@@ -199,6 +280,16 @@ export const usePatientStore = create<PatientStore>((set, get) => ({
   updatePatient: async (id, updates) => {
     set({ loading: true, error: null });
     try {
+      assertPermission('patients.update');
+
+      const { data: before, error: fetchError } = await supabase
+        .from('patients')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (fetchError) throw fetchError;
+
       const { data, error } = await supabase
         .from('patients')
         .update(updates)
@@ -208,6 +299,15 @@ export const usePatientStore = create<PatientStore>((set, get) => ({
 
       if (error) throw error;
 
+      await useAuditStore.getState().logAudit({
+        action: 'update',
+        entityType: 'patient',
+        entityId: id,
+        summary: `Updated patient ${data.name} (MRN ${data.mrn})`,
+        before,
+        after: data
+      });
+
       set(state => ({
         patients: state.patients.map(p => p.id === id ? { ...p, ...updates } : p),
         selectedPatient: state.selectedPatient?.id === id ? { ...state.selectedPatient, ...updates } : state.selectedPatient,
@@ -226,6 +326,16 @@ export const usePatientStore = create<PatientStore>((set, get) => ({
   deletePatient: async (id) => {
     set({ loading: true, error: null });
     try {
+      assertPermission('patients.delete');
+
+      const { data: before, error: fetchError } = await supabase
+        .from('patients')
+        .select('*, admissions!admissions_patient_id_fkey (*)')
+        .eq('id', id)
+        .single();
+
+      if (fetchError) throw fetchError;
+
       const { error } = await supabase
         .from('patients')
         .delete()
@@ -233,6 +343,14 @@ export const usePatientStore = create<PatientStore>((set, get) => ({
 
       if (error) throw error;
 
+      await useAuditStore.getState().logAudit({
+        action: 'delete',
+        entityType: 'patient',
+        entityId: id,
+        summary: `Deleted patient ${before.name} (MRN ${before.mrn})`,
+        before
+      });
+
       set(state => ({
         patients: state.patients.filter(p => p.id !== id),
         selectedPatient: state.selectedPatient?.id === id ? null : state.selectedPatient,
@@ -0,0 +1,133 @@
+import { create } from 'zustand';
+import { supabase } from '../lib/supabase';
+import { getAuthErrorMessage, useUserStore } from './useUserStore';
+import { useSessionStore } from './useSessionStore';
+import { useAuditStore } from './useAuditStore';
+import { PERMISSION_DEFINITIONS, ROLES } from '../config/permissions';
+import type { Permission, RolePermissions, RolePermissionsResponse } from '../types/permission';
+
+interface PermissionStore {
+  rolePermissions: RolePermissions;
+  loading: boolean;
+  error: string | null;
+  fetchRolePermissions: () => Promise<void>;
+  // Saves several roles at once so the PIN is only asked for once
+  updateRolePermissions: (changes: Partial<RolePermissions>) => Promise<void>;
+  hasPermission: (permission: Permission) => boolean;
+}
+
+const getRolePermissionsErrorMessage = (response: RolePermissionsResponse): string => {
+  switch (response.status) {
+    case 'forbidden':
+      return 'You do not have permission to manage role permissions';
+    case 'locked_permission':
+      return 'The administrator role must keep employee and permission management';
+    case 'updated':
+      return 'Failed to update permissions';
+    case 'pin_change_required':
+      return 'Replace your temporary PIN before changing permissions';
+    default:
+      return getAuthErrorMessage({ ...response, status: response.status });
+  }
+};
+
+// Nothing is granted until the matrix has been loaded from role_permissions
+const emptyRolePermissions = ROLES.reduce((acc, role) => {
+  acc[role] = [];
+  return acc;
+}, {} as RolePermissions);
+
+export const usePermissionStore = create<PermissionStore>((set, get) => ({
+  rolePermissions: emptyRolePermissions,
+  loading: false,
+  error: null,
+
+  fetchRolePermissions: async () => {
+    set({ loading: true, error: null });
+    try {
+      const { data, error } = await supabase
+        .from('role_permissions')
+        .select('role, permission');
+
+      if (error) throw error;
+
+      const rolePermissions = ROLES.reduce((acc, role) => {
+        acc[role] = (data || [])
+          .filter(row => row.role === role)
+          .map(row => row.permission as Permission);
+        return acc;
+      }, {} as RolePermissions);
+
+      set({ rolePermissions, loading: false });
+    } catch (error) {
+      set({ 
+        error: error instanceof Error ? error.message : 'Failed to fetch permissions', 
+        loading: false 
+      });
+    }
+  },
+
+  updateRolePermissions: async (changes) => {
+    set({ loading: true, error: null });
+    try {
+      assertPermission('permissions.manage');
+      const currentUser = useUserStore.getState().currentUser;
+      if (!currentUser) throw new Error('No user logged in');
+
+      const adminPin = await useSessionStore.getState().requirePin('Confirm your PIN to change role permissions');
+
+      for (const role of ROLES) {
+        const permissions = changes[role];
+        if (!permissions) continue;
+
+        const { data, error } = await supabase.rpc('set_role_permissions', {
+          p_role: role,
+          p_permissions: permissions,
+          p_admin_code: currentUser.medical_code,
+          p_admin_pin: adminPin
+        });
+
+        if (error) throw error;
+
+        const response = data as RolePermissionsResponse;
+        if (response.status !== 'updated') {
+          throw new Error(getRolePermissionsErrorMessage(response));
+        }
+
+        await useAuditStore.getState().logAudit({
+          action: 'update',
+          entityType: 'role_permissions',
+          entityId: role,
+          summary: `Changed permissions for the ${role} role`,
+          before: { role, permissions: get().rolePermissions[role] },
+          after: { role, permissions }
+        });
+
+        set(state => ({
+          rolePermissions: { ...state.rolePermissions, [role]: permissions }
+        }));
+      }
+
+      set({ loading: false });
+    } catch (error) {
+      set({ 
+        error: error instanceof Error ? error.message : 'Failed to update permissions', 
+        loading: false 
+      });
+      throw error;
+    }
+  },
+
+  hasPermission: (permission) => {
+    const currentUser = useUserStore.getState().currentUser;
+    if (!currentUser) return false;
+    return get().rolePermissions[currentUser.role]?.includes(permission) ?? false;
+  }
+}));
+
+export const assertPermission = (permission: Permission) => {
+  if (!usePermissionStore.getState().hasPermission(permission)) {
+    const definition = PERMISSION_DEFINITIONS.find(d => d.id === permission);
+    throw new Error(`You do not have permission to ${definition?.label.toLowerCase() ?? permission}`);
+  }
+};
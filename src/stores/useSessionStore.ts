@@ -0,0 +1,103 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { SESSION } from '../config/session';
+import { resetAllStores } from './resetStores';
+
+interface SessionStore {
+  lastActivityAt: number | null;
+  reauthenticatedAt: number | null;
+  reauthReason: string | null;
+  startSession: () => void;
+  recordActivity: () => void;
+  getRemainingMs: () => number;
+  isExpired: () => boolean;
+  endSession: () => void;
+  requireReauth: (reason: string) => Promise<void>;
+  requirePin: (reason: string) => Promise<string>;
+  completeReauth: (pin: string) => void;
+  cancelReauth: () => void;
+}
+
+const idleTimeoutMs = SESSION.IDLE_TIMEOUT_MINUTES * 60 * 1000;
+const reauthGraceMs = SESSION.REAUTH_GRACE_MINUTES * 60 * 1000;
+
+// Promise callbacks for the re-authentication prompt currently on screen
+let pendingReauth: { resolve: (pin: string) => void; reject: (error: Error) => void } | null = null;
+
+export const useSessionStore = create<SessionStore>()(
+  persist(
+    (set, get) => ({
+      lastActivityAt: null,
+      reauthenticatedAt: null,
+      reauthReason: null,
+
+      startSession: () => {
+        set({ lastActivityAt: Date.now(), reauthenticatedAt: Date.now() });
+      },
+
+      recordActivity: () => {
+        set({ lastActivityAt: Date.now() });
+      },
+
+      getRemainingMs: () => {
+        const lastActivityAt = get().lastActivityAt;
+        if (!lastActivityAt) return 0;
+        return Math.max(0, lastActivityAt + idleTimeoutMs - Date.now());
+      },
+
+      isExpired: () => {
+        return get().getRemainingMs() === 0;
+      },
+
+      endSession: () => {
+        if (pendingReauth) {
+          pendingReauth.reject(new Error('Session ended'));
+          pendingReauth = null;
+        }
+        resetAllStores();
+      },
+
+      requireReauth: (reason) => {
+        const reauthenticatedAt = get().reauthenticatedAt;
+        if (reauthenticatedAt && Date.now() - reauthenticatedAt < reauthGraceMs) {
+          return Promise.resolve();
+        }
+
+        return get().requirePin(reason).then(() => undefined);
+      },
+
+      // Always prompts, ignoring the grace period, and resolves with the PIN
+      // for actions that the server verifies itself
+      requirePin: (reason) => {
+        if (pendingReauth) {
+          pendingReauth.reject(new Error('Re-authentication superseded'));
+        }
+
+        return new Promise<string>((resolve, reject) => {
+          pendingReauth = { resolve, reject };
+          set({ reauthReason: reason });
+        });
+      },
+
+      completeReauth: (pin) => {
+        set({ reauthReason: null, reauthenticatedAt: Date.now(), lastActivityAt: Date.now() });
+        pendingReauth?.resolve(pin);
+        pendingReauth = null;
+      },
+
+      cancelReauth: () => {
+        set({ reauthReason: null });
+        pendingReauth?.reject(new Error('Re-authentication is required for this action'));
+        pendingReauth = null;
+      }
+    }),
+    {
+      name: SESSION.SESSION_STORAGE_KEY,
+      storage: createJSONStorage(() => localStorage),
+      partialize: (state) => ({
+        lastActivityAt: state.lastActivityAt,
+        reauthenticatedAt: state.reauthenticatedAt
+      })
+    }
+  )
+);
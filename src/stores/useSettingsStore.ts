@@ -0,0 +1,132 @@
+import { create } from 'zustand';
+import { supabase } from '../lib/supabase';
+import { useUserStore } from './useUserStore';
+import { assertPermission } from './usePermissionStore';
+import { useAuditStore } from './useAuditStore';
+import { DEFAULT_SHIFT_SCHEDULE } from '../config/shifts';
+import { validateShiftSchedule } from '../utils/shiftCalculator';
+import { isValidTimeZone } from '../utils/hospitalTime';
+import type { ShiftSchedule } from '../types/settings';
+
+interface SettingsStore {
+  shiftSchedule: ShiftSchedule;
+  timeZone: string;
+  loading: boolean;
+  error: string | null;
+  fetchSettings: () => Promise<void>;
+  updateShiftSchedule: (schedule: ShiftSchedule) => Promise<void>;
+  updateTimeZone: (timeZone: string) => Promise<void>;
+}
+
+export const useSettingsStore = create<SettingsStore>((set, get) => ({
+  shiftSchedule: DEFAULT_SHIFT_SCHEDULE,
+  // The workstation's zone stands in until the hospital's has been configured
+  timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  loading: false,
+  error: null,
+
+  fetchSettings: async () => {
+    set({ loading: true, error: null });
+    try {
+      const { data, error } = await supabase
+        .from('hospital_settings')
+        .select('key, value');
+
+      if (error) throw error;
+
+      const shiftSchedule = data?.find(row => row.key === 'shift_schedule')?.value as ShiftSchedule | undefined;
+      const timeZone = data?.find(row => row.key === 'timezone')?.value as string | undefined;
+
+      // Keep the built-in defaults until the settings have been seeded
+      set({
+        shiftSchedule: shiftSchedule ?? get().shiftSchedule,
+        timeZone: timeZone && isValidTimeZone(timeZone) ? timeZone : get().timeZone,
+        loading: false
+      });
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to fetch settings',
+        loading: false
+      });
+    }
+  },
+
+  updateShiftSchedule: async (schedule) => {
+    set({ loading: true, error: null });
+    try {
+      assertPermission('settings.manage');
+      const currentUser = useUserStore.getState().currentUser;
+      if (!currentUser) throw new Error('No user logged in');
+
+      const validationError = validateShiftSchedule(schedule);
+      if (validationError) throw new Error(validationError);
+
+      const { error } = await supabase
+        .from('hospital_settings')
+        .upsert({
+          key: 'shift_schedule',
+          value: schedule,
+          updated_at: new Date().toISOString(),
+          updated_by: currentUser.id
+        });
+
+      if (error) throw error;
+
+      await useAuditStore.getState().logAudit({
+        action: 'update',
+        entityType: 'settings',
+        entityId: 'shift_schedule',
+        summary: 'Changed the shift schedule',
+        before: get().shiftSchedule,
+        after: schedule
+      });
+
+      set({ shiftSchedule: schedule, loading: false });
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to update settings',
+        loading: false
+      });
+      throw error;
+    }
+  },
+
+  updateTimeZone: async (timeZone) => {
+    set({ loading: true, error: null });
+    try {
+      assertPermission('settings.manage');
+      const currentUser = useUserStore.getState().currentUser;
+      if (!currentUser) throw new Error('No user logged in');
+
+      if (!isValidTimeZone(timeZone)) throw new Error(`${timeZone} is not a recognised time zone`);
+
+      const { error } = await supabase
+        .from('hospital_settings')
+        .upsert({
+          key: 'timezone',
+          value: timeZone,
+          updated_at: new Date().toISOString(),
+          updated_by: currentUser.id
+        });
+
+      if (error) throw error;
+
+      await useAuditStore.getState().logAudit({
+        action: 'update',
+        entityType: 'settings',
+        entityId: 'timezone',
+        summary: `Changed the hospital time zone to ${timeZone}`,
+        before: { timezone: get().timeZone },
+        after: { timezone: timeZone }
+      });
+
+      set({ timeZone, loading: false });
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to update settings',
+        loading: false
+      });
+      throw error;
+    }
+  }
+}));
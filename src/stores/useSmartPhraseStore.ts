@@ -0,0 +1,144 @@
+import { create } from 'zustand';
+import { supabase } from '../lib/supabase';
+import { useUserStore } from './useUserStore';
+import { assertPermission } from './usePermissionStore';
+import { useAuditStore } from './useAuditStore';
+import { ProcedureError, PHRASE_ERRORS } from '../utils/procedureErrors';
+import { normalizeShortcut } from '../utils/smartPhrases';
+import type { SmartPhrase, SmartPhraseInput } from '../types/smartPhrase';
+
+interface SmartPhraseStore {
+  // The current user's personal phrases and those shared with their department
+  phrases: SmartPhrase[];
+  loaded: boolean;
+  loading: boolean;
+  error: string | null;
+  fetchPhrases: () => Promise<void>;
+  savePhrase: (input: SmartPhraseInput, phrase?: SmartPhrase) => Promise<void>;
+  deletePhrase: (phrase: SmartPhrase) => Promise<void>;
+}
+
+const UNIQUE_VIOLATION = '23505';
+
+const getCurrentUser = () => {
+  const currentUser = useUserStore.getState().currentUser;
+  if (!currentUser) throw new Error('No user logged in');
+  return currentUser;
+};
+
+// Personal phrases can only be changed by their owner; department phrases by
+// anyone in the department who may share phrases
+const assertCanChange = (phrase: Pick<SmartPhrase, 'scope' | 'owner_id' | 'department'>) => {
+  const currentUser = getCurrentUser();
+  if (phrase.scope === 'department') {
+    assertPermission('phrases.department');
+    if (phrase.department !== currentUser.department) {
+      throw new Error('You can only change phrases shared with your own department');
+    }
+  } else if (phrase.owner_id !== currentUser.id) {
+    throw new Error('You can only change your own phrases');
+  }
+};
+
+const sortPhrases = (phrases: SmartPhrase[]) =>
+  [...phrases].sort((a, b) => a.shortcut.localeCompare(b.shortcut));
+
+export const useSmartPhraseStore = create<SmartPhraseStore>((set, get) => ({
+  phrases: [],
+  loaded: false,
+  loading: false,
+  error: null,
+
+  fetchPhrases: async () => {
+    const currentUser = useUserStore.getState().currentUser;
+    if (!currentUser) return;
+
+    set({ loading: true, error: null });
+    try {
+      const { data, error } = await supabase
+        .from('smart_phrases')
+        .select('*')
+        .or(`owner_id.eq.${currentUser.id},department.eq."${currentUser.department}"`)
+        .order('shortcut');
+
+      if (error) throw error;
+
+      set({ phrases: data as SmartPhrase[] || [], loaded: true, loading: false });
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to load smart phrases',
+        loading: false
+      });
+    }
+  },
+
+  savePhrase: async (input, phrase) => {
+    const currentUser = getCurrentUser();
+    const values = {
+      shortcut: normalizeShortcut(input.shortcut),
+      title: input.title.trim(),
+      body: input.body,
+      scope: input.scope,
+      owner_id: input.scope === 'personal' ? currentUser.id : null,
+      department: input.scope === 'department' ? currentUser.department : null
+    };
+
+    if (phrase) assertCanChange(phrase);
+    assertCanChange(values);
+
+    const { data, error } = phrase
+      ? await supabase
+        .from('smart_phrases')
+        .update({ ...values, updated_by: currentUser.id })
+        .eq('id', phrase.id)
+        .select('*')
+        .single()
+      : await supabase
+        .from('smart_phrases')
+        .insert([{ ...values, created_by: currentUser.id }])
+        .select('*')
+        .single();
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) {
+        throw new ProcedureError('shortcut_taken', PHRASE_ERRORS.shortcut_taken);
+      }
+      throw error;
+    }
+
+    const saved = data as SmartPhrase;
+    await useAuditStore.getState().logAudit({
+      action: phrase ? 'update' : 'create',
+      entityType: 'smart_phrase',
+      entityId: saved.id,
+      summary: `${phrase ? 'Updated' : 'Added'} ${saved.scope} smart phrase .${saved.shortcut}`,
+      before: phrase,
+      after: saved
+    });
+
+    set(state => ({
+      phrases: sortPhrases([...state.phrases.filter(existing => existing.id !== saved.id), saved])
+    }));
+  },
+
+  deletePhrase: async (phrase) => {
+    assertCanChange(phrase);
+
+    const { error } = await supabase
+      .from('smart_phrases')
+      .delete()
+      .eq('id', phrase.id);
+
+    if (error) throw error;
+
+    await useAuditStore.getState().logAudit({
+      action: 'delete',
+      entityType: 'smart_phrase',
+      entityId: phrase.id,
+      summary: `Deleted ${phrase.scope} smart phrase .${phrase.shortcut}`,
+      before: phrase
+    });
+
+    set({ phrases: get().phrases.filter(existing => existing.id !== phrase.id) });
+  }
+}));
@@ -0,0 +1,115 @@
+import { create } from 'zustand';
+import { supabase } from '../lib/supabase';
+import { useUserStore } from './useUserStore';
+import { usePatientStore } from './usePatientStore';
+import { useAdmissionStore } from './useAdmissionStore';
+import { assertPermission } from './usePermissionStore';
+import { useAuditStore } from './useAuditStore';
+import { ProcedureError, TRANSFER_ERRORS } from '../utils/procedureErrors';
+import type { AdmissionTransfer, TransferAdmissionParams, TransferResponse } from '../types/transfer';
+
+interface TransferStore {
+  transfers: AdmissionTransfer[];
+  loading: boolean;
+  error: string | null;
+  fetchTransfers: (startDate: string, endDate: string) => Promise<void>;
+  transferPatient: (params: Omit<TransferAdmissionParams, 'p_doctor_id'>) => Promise<TransferResponse>;
+}
+
+export const useTransferStore = create<TransferStore>((set) => ({
+  transfers: [],
+  loading: false,
+  error: null,
+
+  fetchTransfers: async (startDate, endDate) => {
+    set({ loading: true, error: null });
+    try {
+      const end = new Date(endDate);
+      end.setDate(end.getDate() + 1);
+
+      const { data, error } = await supabase
+        .from('admission_transfers')
+        .select(`
+          *,
+          patient:patients!patient_id (
+            mrn,
+            name
+          ),
+          transferring_doctor:users!transferring_doctor_id (
+            id,
+            name,
+            medical_code
+          ),
+          receiving_doctor:users!receiving_doctor_id (
+            id,
+            name,
+            medical_code
+          )
+        `)
+        .gte('transferred_at', startDate)
+        .lt('transferred_at', end.toISOString().split('T')[0])
+        .order('transferred_at', { ascending: false });
+
+      if (error) throw error;
+
+      set({ transfers: data as AdmissionTransfer[], loading: false });
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to fetch transfers',
+        loading: false
+      });
+    }
+  },
+
+  transferPatient: async (params) => {
+    assertPermission('patients.transfer');
+
+    const currentUser = useUserStore.getState().currentUser;
+    if (!currentUser) throw new Error('No user logged in');
+
+    // Closing the sending admission, opening the receiving one and recording the
+    // transfer all happen in one transaction
+    const { data, error } = await supabase.rpc('transfer_admission', {
+      ...params,
+      p_doctor_id: currentUser.id
+    });
+
+    if (error) throw error;
+
+    const response = data as TransferResponse;
+    if (response.status === 'error') {
+      const code = response.code!;
+      throw new ProcedureError(code, TRANSFER_ERRORS[code]);
+    }
+
+    const transfer = response.transfer!;
+    await useAuditStore.getState().logAudit({
+      action: 'transfer',
+      entityType: 'admission',
+      entityId: transfer.from_admission_id,
+      summary: `Transferred patient ${transfer.patient_id} from ${transfer.from_department} to ${transfer.to_department}`,
+      before: response.before,
+      after: response.closed_admission
+    });
+    await useAuditStore.getState().logAudit({
+      action: 'create',
+      entityType: 'admission',
+      entityId: transfer.to_admission_id,
+      summary: `Admitted patient ${transfer.patient_id} to ${transfer.to_department} by transfer`,
+      after: response.admission
+    });
+
+    // Refresh everything that shows the patient's current department
+    const patientStore = usePatientStore.getState();
+    const [updatedPatient] = await patientStore.fetchPatientsByIds([transfer.patient_id]);
+    if (updatedPatient && patientStore.selectedPatient?.id === transfer.patient_id) {
+      patientStore.setSelectedPatient(updatedPatient);
+    }
+    await Promise.all([
+      patientStore.fetchPatients(),
+      useAdmissionStore.getState().fetchAdmissions(transfer.patient_id)
+    ]);
+
+    return response;
+  }
+}));
@@ -1,40 +1,94 @@
 import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
 import { supabase } from '../lib/supabase';
-import type { User } from '../types/user';
+import { SESSION } from '../config/session';
+import { useSessionStore } from './useSessionStore';
+import { assertPermission } from './usePermissionStore';
+import { useAuditStore } from './useAuditStore';
+import { format } from 'date-fns';
+import type { User, LoginStatus, AuthResponse, ResetPinResponse } from '../types/user';
 
 interface UserStore {
   users: User[];
   currentUser: User | null;
   loading: boolean;
   error: string | null;
-  login: (medicalCode: string) => Promise<void>;
+  login: (medicalCode: string, pin: string) => Promise<LoginStatus>;
+  setPin: (medicalCode: string, currentPin: string, newPin: string) => Promise<void>;
+  resetPin: (id: number) => Promise<string>;
+  verifyPin: (pin: string) => Promise<void>;
+  refreshCurrentUser: () => Promise<void>;
   logout: () => void;
   fetchUsers: () => Promise<void>;
-  addUser: (userData: Omit<User, 'id' | 'created_at' | 'updated_at'>) => Promise<void>;
+  addUser: (userData: Omit<User, 'id' | 'created_at' | 'updated_at'>) => Promise<User>;
   updateUser: (id: number, updates: Partial<User>) => Promise<void>;
   deleteUser: (id: number) => Promise<void>;
 }
 
-export const useUserStore = create<UserStore>((set) => ({
+export const getAuthErrorMessage = (response: AuthResponse): string => {
+  switch (response.status) {
+    case 'invalid_credentials':
+      return response.remaining_attempts !== undefined
+        ? `Invalid medical code or PIN (${response.remaining_attempts} attempts remaining)`
+        : 'Invalid medical code or PIN';
+    case 'locked':
+      return response.locked_until
+        ? `Account locked after too many failed attempts. Try again after ${format(new Date(response.locked_until), 'HH:mm')}`
+        : 'Account locked after too many failed attempts';
+    case 'no_credentials':
+      return 'No PIN has been issued for this account. Please contact an administrator';
+    case 'pin_too_short':
+      return 'PIN must be at least 6 characters';
+    case 'pin_reused':
+      return 'New PIN must differ from the current one';
+    default:
+      return 'Authentication failed';
+  }
+};
+
+const getResetPinErrorMessage = (response: ResetPinResponse): string => {
+  switch (response.status) {
+    case 'forbidden':
+      return 'You do not have permission to reset PINs';
+    case 'user_not_found':
+      return 'This employee no longer exists';
+    case 'reset':
+      return 'Failed to reset PIN';
+    case 'pin_change_required':
+      return 'Replace your own temporary PIN before issuing PINs to others';
+    default:
+      return getAuthErrorMessage({ ...response, status: response.status });
+  }
+};
+
+export const useUserStore = create<UserStore>()(persist((set, get) => ({
   users: [],
   currentUser: null,
   loading: false,
   error: null,
 
-  login: async (medicalCode: string) => {
+  login: async (medicalCode: string, pin: string) => {
     set({ loading: true, error: null });
     try {
-      const { data, error } = await supabase
-        .from('users')
-        .select('*')
-        .eq('medical_code', medicalCode)
-        .eq('status', 'active')
-        .single();
+      const { data, error } = await supabase.rpc('authenticate_user', {
+        p_medical_code: medicalCode,
+        p_pin: pin
+      });
 
-      if (error) throw new Error('Invalid medical code');
-      if (!data) throw new Error('User not found or inactive');
+      if (error) throw error;
 
-      set({ currentUser: data as User, loading: false });
+      const response = data as AuthResponse;
+      if (response.status === 'pin_change_required') {
+        set({ loading: false });
+        return response.status;
+      }
+      if (response.status !== 'authenticated' || !response.user) {
+        throw new Error(getAuthErrorMessage(response));
+      }
+
+      set({ currentUser: response.user, loading: false });
+      useSessionStore.getState().startSession();
+      return response.status;
     } catch (error) {
       set({ 
         error: error instanceof Error ? error.message : 'Authentication failed', 
@@ -44,8 +98,113 @@ export const useUserStore = create<UserStore>((set) => ({
     }
   },
 
+  setPin: async (medicalCode, currentPin, newPin) => {
+    set({ loading: true, error: null });
+    try {
+      const { data, error } = await supabase.rpc('set_user_pin', {
+        p_medical_code: medicalCode,
+        p_current_pin: currentPin,
+        p_new_pin: newPin
+      });
+
+      if (error) throw error;
+
+      const response = data as AuthResponse;
+      if (response.status !== 'authenticated' || !response.user) {
+        throw new Error(getAuthErrorMessage(response));
+      }
+
+      set({ currentUser: response.user, loading: false });
+      useSessionStore.getState().startSession();
+    } catch (error) {
+      set({ 
+        error: error instanceof Error ? error.message : 'Failed to set PIN', 
+        loading: false 
+      });
+      throw error;
+    }
+  },
+
+  resetPin: async (id) => {
+    set({ error: null });
+    try {
+      const currentUser = get().currentUser;
+      if (!currentUser) throw new Error('No user logged in');
+      assertPermission('users.manage');
+
+      const adminPin = await useSessionStore.getState().requirePin('Confirm your PIN to issue a temporary PIN');
+      const { data, error } = await supabase.rpc('reset_user_pin', {
+        p_user_id: id,
+        p_admin_code: currentUser.medical_code,
+        p_admin_pin: adminPin
+      });
+
+      if (error) throw error;
+
+      const response = data as ResetPinResponse;
+      if (response.status !== 'reset' || !response.pin) {
+        throw new Error(getResetPinErrorMessage(response));
+      }
+
+      await useAuditStore.getState().logAudit({
+        action: 'reset_pin',
+        entityType: 'user',
+        entityId: id,
+        summary: `Issued a temporary PIN to ${get().users.find(user => user.id === id)?.name ?? `user ${id}`}`
+      });
+
+      return response.pin;
+    } catch (error) {
+      set({ 
+        error: error instanceof Error ? error.message : 'Failed to reset PIN'
+      });
+      throw error;
+    }
+  },
+
+  verifyPin: async (pin) => {
+    const currentUser = get().currentUser;
+    if (!currentUser) throw new Error('No user logged in');
+
+    const { data, error } = await supabase.rpc('authenticate_user', {
+      p_medical_code: currentUser.medical_code,
+      p_pin: pin
+    });
+
+    if (error) throw error;
+
+    const response = data as AuthResponse;
+    if (response.status !== 'authenticated') {
+      throw new Error(getAuthErrorMessage(response));
+    }
+  },
+
+  refreshCurrentUser: async () => {
+    const currentUser = get().currentUser;
+    if (!currentUser) return;
+
+    const { data, error } = await supabase
+      .from('users')
+      .select('*')
+      .eq('id', currentUser.id)
+      .eq('status', 'active')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error refreshing current user:', error);
+      return;
+    }
+
+    if (!data) {
+      get().logout();
+      return;
+    }
+
+    set({ currentUser: data as User });
+  },
+
   logout: () => {
-    set({ currentUser: null });
+    useSessionStore.getState().endSession();
   },
 
   fetchUsers: async () => {
@@ -69,6 +228,8 @@ export const useUserStore = create<UserStore>((set) => ({
   addUser: async (userData) => {
     set({ loading: true, error: null });
     try {
+      assertPermission('users.manage');
+
       const { data: existingUser } = await supabase
         .from('users')
         .select('medical_code')
@@ -87,10 +248,20 @@ export const useUserStore = create<UserStore>((set) => ({
 
       if (error) throw error;
 
+      await useAuditStore.getState().logAudit({
+        action: 'create',
+        entityType: 'user',
+        entityId: data.id,
+        summary: `Created ${data.role} account for ${data.name} (${data.medical_code})`,
+        after: data
+      });
+
       set(state => ({
         users: [data as User, ...state.users],
         loading: false
       }));
+
+      return data as User;
     } catch (error) {
       set({ 
         error: error instanceof Error ? error.message : 'Failed to add user', 
@@ -103,6 +274,8 @@ export const useUserStore = create<UserStore>((set) => ({
   updateUser: async (id, updates) => {
     set({ loading: true, error: null });
     try {
+      assertPermission('users.manage');
+
       if (updates.medical_code) {
         const { data: existingUser } = await supabase
           .from('users')
@@ -116,6 +289,14 @@ export const useUserStore = create<UserStore>((set) => ({
         }
       }
 
+      const { data: before, error: fetchError } = await supabase
+        .from('users')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (fetchError) throw fetchError;
+
       const { data, error } = await supabase
         .from('users')
         .update(updates)
@@ -125,6 +306,15 @@ export const useUserStore = create<UserStore>((set) => ({
 
       if (error) throw error;
 
+      await useAuditStore.getState().logAudit({
+        action: 'update',
+        entityType: 'user',
+        entityId: id,
+        summary: `Updated account for ${data.name} (${data.medical_code})`,
+        before,
+        after: data
+      });
+
       set(state => ({
         users: state.users.map(user => user.id === id ? (data as User) : user),
         currentUser: state.currentUser?.id === id ? (data as User) : state.currentUser,
@@ -140,8 +330,19 @@ export const useUserStore = create<UserStore>((set) => ({
   },
 
   deleteUser: async (id) => {
+    assertPermission('users.manage');
+    await useSessionStore.getState().requireReauth('Confirm your PIN to delete this employee');
+
     set({ loading: true, error: null });
     try {
+      const { data: before, error: fetchError } = await supabase
+        .from('users')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (fetchError) throw fetchError;
+
       const { error } = await supabase
         .from('users')
         .delete()
@@ -149,6 +350,14 @@ export const useUserStore = create<UserStore>((set) => ({
 
       if (error) throw error;
 
+      await useAuditStore.getState().logAudit({
+        action: 'delete',
+        entityType: 'user',
+        entityId: id,
+        summary: `Deleted account for ${before.name} (${before.medical_code})`,
+        before
+      });
+
       set(state => ({
         users: state.users.filter(user => user.id !== id),
         loading: false
@@ -161,4 +370,8 @@ export const useUserStore = create<UserStore>((set) => ({
       throw error;
     }
   }
+}), {
+  name: SESSION.USER_STORAGE_KEY,
+  storage: createJSONStorage(() => localStorage),
+  partialize: (state) => ({ currentUser: state.currentUser })
 }));
\ No newline at end of file
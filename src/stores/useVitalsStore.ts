@@ -0,0 +1,218 @@
+import { create } from 'zustand';
+import { supabase } from '../lib/supabase';
+import { useUserStore } from './useUserStore';
+import { assertPermission } from './usePermissionStore';
+import { useAuditStore } from './useAuditStore';
+import { useAlertStore } from './useAlertStore';
+import { calculateNews2 } from '../utils/news2';
+import { NEWS2_RISK_LABELS } from '../config/vitals';
+import type { AdmissionVitals, VitalSigns, VitalSignsInput } from '../types/vitals';
+
+interface VitalsStore {
+  // Newest first, keyed by patient id
+  vitals: Record<number, VitalSigns[]>;
+  // Latest set for every active admission
+  latestVitals: AdmissionVitals[];
+  loading: boolean;
+  error: string | null;
+  fetchVitals: (patientId: number) => Promise<void>;
+  fetchLatestVitals: () => Promise<void>;
+  recordVitals: (patientId: number, admissionId: number | null, input: VitalSignsInput) => Promise<void>;
+  subscribeToUpdates: () => () => void;
+}
+
+const VITALS_SELECT = `
+  id,
+  patient_id,
+  admission_id,
+  recorded_at,
+  heart_rate,
+  systolic_bp,
+  diastolic_bp,
+  respiratory_rate,
+  temperature,
+  spo2,
+  o2_device,
+  o2_flow_rate,
+  consciousness,
+  recorded_by:users!vital_signs_recorded_by_fkey (
+    id,
+    name
+  )
+`;
+
+const formatVitals = (row: any): VitalSigns => ({
+  id: row.id,
+  patient_id: row.patient_id,
+  admission_id: row.admission_id,
+  recorded_at: row.recorded_at,
+  heart_rate: row.heart_rate,
+  systolic_bp: row.systolic_bp,
+  diastolic_bp: row.diastolic_bp,
+  respiratory_rate: row.respiratory_rate,
+  // NUMERIC columns arrive as strings
+  temperature: row.temperature === null ? null : Number(row.temperature),
+  spo2: row.spo2,
+  o2_device: row.o2_device,
+  o2_flow_rate: row.o2_flow_rate === null ? null : Number(row.o2_flow_rate),
+  consciousness: row.consciousness,
+  recorded_by: {
+    id: row.recorded_by?.[0]?.id ?? row.recorded_by?.id,
+    name: row.recorded_by?.[0]?.name ?? row.recorded_by?.name ?? 'Unknown'
+  }
+});
+
+const formatAdmissionVitals = (row: any): AdmissionVitals => ({
+  ...formatVitals({ ...row, recorded_by: { id: row.recorded_by_id, name: row.recorded_by_name } }),
+  admission_id: row.admission_id,
+  mrn: row.mrn,
+  patient_name: row.patient_name,
+  department: row.department,
+  admitting_doctor_id: row.admitting_doctor_id
+});
+
+// Raises an alert to the doctor who admitted the patient when a set crosses
+// a NEWS2 escalation threshold. The admission is looked up from the patient,
+// so a patient seen only in consultation has no one to escalate to.
+const raiseNews2Alert = async (recorded: VitalSigns) => {
+  const news2 = calculateNews2(recorded);
+  if (news2.risk === 'low') return;
+
+  const { data: admission, error } = await supabase
+    .from('admissions')
+    .select('id, admitting_doctor_id, patient:patients!admissions_patient_id_fkey (name)')
+    .eq('patient_id', recorded.patient_id)
+    .eq('status', 'active')
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!admission) return;
+
+  const patient = Array.isArray(admission.patient) ? admission.patient[0] : admission.patient;
+  await useAlertStore.getState().raiseAlert({
+    recipient_id: admission.admitting_doctor_id,
+    patient_id: recorded.patient_id,
+    admission_id: admission.id,
+    vital_signs_id: recorded.id,
+    alert_type: 'news2',
+    severity: news2.risk,
+    message: `${patient?.name ?? 'Patient'}: NEWS2 ${news2.score} (${NEWS2_RISK_LABELS[news2.risk].toLowerCase()})`
+  });
+};
+
+export const useVitalsStore = create<VitalsStore>((set, get) => ({
+  vitals: {},
+  latestVitals: [],
+  loading: false,
+  error: null,
+
+  fetchVitals: async (patientId) => {
+    set({ loading: true, error: null });
+    try {
+      const { data, error } = await supabase
+        .from('vital_signs')
+        .select(VITALS_SELECT)
+        .eq('patient_id', patientId)
+        .order('recorded_at', { ascending: false });
+
+      if (error) throw error;
+
+      set(state => ({
+        vitals: { ...state.vitals, [patientId]: (data || []).map(formatVitals) },
+        loading: false
+      }));
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to load vital signs',
+        loading: false
+      });
+    }
+  },
+
+  fetchLatestVitals: async () => {
+    try {
+      const { data, error } = await supabase
+        .from('latest_admission_vitals')
+        .select('*');
+
+      if (error) throw error;
+      set({ latestVitals: (data || []).map(formatAdmissionVitals) });
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to load vital signs' });
+    }
+  },
+
+  recordVitals: async (patientId, admissionId, input) => {
+    set({ loading: true, error: null });
+    try {
+      const currentUser = useUserStore.getState().currentUser;
+      if (!currentUser) throw new Error('User not authenticated');
+      assertPermission('vitals.record');
+
+      const { data, error } = await supabase
+        .from('vital_signs')
+        .insert([{
+          ...input,
+          patient_id: patientId,
+          admission_id: admissionId,
+          recorded_by: currentUser.id,
+          news2_score: calculateNews2(input).score
+        }])
+        .select(VITALS_SELECT)
+        .single();
+
+      if (error) throw error;
+
+      const recorded = formatVitals(data);
+
+      await useAuditStore.getState().logAudit({
+        action: 'create',
+        entityType: 'vital_signs',
+        entityId: recorded.id,
+        summary: `Recorded vital signs for patient ${patientId}`,
+        after: { ...input, patient_id: patientId, admission_id: admissionId }
+      });
+
+      set(state => ({
+        vitals: {
+          ...state.vitals,
+          [patientId]: [recorded, ...(state.vitals[patientId] || [])]
+            .sort((a, b) => new Date(b.recorded_at).getTime() - new Date(a.recorded_at).getTime())
+        },
+        loading: false
+      }));
+
+      try {
+        await raiseNews2Alert(recorded);
+      } catch {
+        throw new Error('Vital signs were saved, but the escalation alert could not be sent. Please inform the responsible doctor directly.');
+      }
+      if (admissionId !== null) {
+        get().fetchLatestVitals();
+      }
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to record vital signs',
+        loading: false
+      });
+      throw error;
+    }  },
+
+  subscribeToUpdates: () => {
+    const subscription = supabase
+      .channel('vital-signs-updates')
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'vital_signs'
+      }, () => {
+        get().fetchLatestVitals();
+      })
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }
+}));
@@ -1,3 +1,8 @@
+import type { AdmissionTransfer } from './transfer';
+import type { Bed } from './bed';
+import type { ShiftType } from './settings';
+import type { AdmissionDiagnosis, CodedDiagnosis } from './diagnosis';
+
 export interface Admission {
   id: number;
   patient_id: number;
@@ -8,10 +13,18 @@ export interface Admission {
   admission_date: string;
   discharge_date: string | null;
   diagnosis: string;
+  final_diagnosis?: string | null;
+  diagnoses?: AdmissionDiagnosis[];
   visit_number: number;
   safety_type?: 'emergency' | 'observation' | 'short-stay';
-  shift_type: 'morning' | 'evening' | 'night' | 'weekend_morning' | 'weekend_night';
+  shift_type: ShiftType;
   is_weekend: boolean;
+  shift_override_reason?: string | null;
+  transferred_from_id?: number | null;
+  // Set on the stand-in built for an open consultation, whose id is the
+  // consultation id rather than an admission id
+  is_consultation?: boolean;
+  transfers_out?: AdmissionTransfer[];
   admitting_doctor?: {
     id: number;
     name: string;
@@ -26,4 +39,60 @@ export interface Admission {
     role: 'doctor' | 'nurse' | 'administrator';
     department: string;
   };
-}
\ No newline at end of file
+}
+export type AdmissionErrorCode =
+  | 'forbidden'
+  | 'mrn_required'
+  | 'name_required'
+  | 'invalid_date_of_birth'
+  | 'invalid_gender'
+  | 'department_required'
+  | 'diagnosis_required'
+  | 'primary_diagnosis_required'
+  | 'invalid_diagnosis_code'
+  | 'duplicate_diagnosis_code'
+  | 'invalid_admission_date'
+  | 'doctor_not_found'
+  | 'doctor_department_mismatch'
+  | 'active_admission_exists'
+  | 'bed_not_available'
+  | 'shift_override_reason_required'
+  | 'shift_mismatch';
+
+// Mirrors the admit_patient database function signature
+export interface AdmitPatientParams {
+  p_mrn: string;
+  p_name: string;
+  p_date_of_birth: string;
+  p_gender: 'male' | 'female';
+  p_admitting_doctor_id: number;
+  p_admission_date: string;
+  p_department: string;
+  p_diagnosis: string;
+  p_safety_type: Admission['safety_type'] | null;
+  p_shift_type: Admission['shift_type'];
+  p_is_weekend: boolean;
+  p_user_id: number;
+  p_bed_id: number | null;
+  p_shift_override_reason: string | null;
+  p_diagnoses: CodedDiagnosis[];
+}
+
+export interface AdmitPatientResponse {
+  status: 'admitted' | 'error';
+  code?: AdmissionErrorCode;
+  is_new_patient?: boolean;
+  patient?: {
+    id: number;
+    mrn: string;
+    name: string;
+    date_of_birth: string;
+    gender: 'male' | 'female';
+  };
+  admission?: Admission;
+  diagnoses?: CodedDiagnosis[];
+  bed?: Bed | null;
+  admission_id?: number;
+  department?: string;
+  admission_date?: string;
+}
@@ -0,0 +1,24 @@
+import type { News2Risk } from './vitals';
+
+export type ClinicalAlertType = 'news2' | 'critical_lab';
+
+export type ClinicalAlertSeverity = Exclude<News2Risk, 'low'>;
+
+export interface ClinicalAlert {
+  id: number;
+  recipient_id: number;
+  patient_id: number;
+  admission_id: number | null;
+  vital_signs_id: number | null;
+  lab_result_id: number | null;
+  alert_type: ClinicalAlertType;
+  severity: ClinicalAlertSeverity;
+  message: string;
+  created_at: string;
+  acknowledged_at: string | null;
+  patient?: {
+    id: number;
+    mrn: string;
+    name: string;
+  };
+}
@@ -0,0 +1,24 @@
+export type AllergySeverity = 'mild' | 'moderate' | 'severe' | 'anaphylaxis';
+
+export interface PatientAllergy {
+  id: number;
+  patient_id: number;
+  substance: string;
+  reaction: string | null;
+  severity: AllergySeverity;
+  recorded_by: number;
+  recorded_at: string;
+  removed_at: string | null;
+  removed_by: number | null;
+  removal_reason: string | null;
+  recorder?: {
+    id: number;
+    name: string;
+  };
+}
+
+export interface AllergyInput {
+  substance: string;
+  reaction: string | null;
+  severity: AllergySeverity;
+}
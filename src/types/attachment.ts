@@ -0,0 +1,35 @@
+export type AttachmentCategory =
+  | 'outside_report'
+  | 'ecg'
+  | 'imaging_report'
+  | 'lab_report'
+  | 'consent'
+  | 'clinical_photo'
+  | 'other';
+
+export interface PatientAttachment {
+  id: number;
+  patient_id: number;
+  admission_id: number | null;
+  category: AttachmentCategory;
+  description: string;
+  file_name: string;
+  storage_path: string;
+  mime_type: string;
+  size_bytes: number;
+  uploaded_by: number;
+  uploaded_at: string;
+  removed_at: string | null;
+  removed_by: number | null;
+  removal_reason: string | null;
+  uploader?: {
+    id: number;
+    name: string;
+  };
+}
+
+export interface AttachmentInput {
+  category: AttachmentCategory;
+  description: string;
+  admissionId: number | null;
+}
@@ -0,0 +1,81 @@
+export type AuditAction =
+  | 'create'
+  | 'update'
+  | 'delete'
+  | 'merge'
+  | 'discharge'
+  | 'transfer'
+  | 'complete'
+  | 'sign'
+  | 'cosign'
+  | 'return'
+  | 'reset_pin';
+
+export type AuditEntityType =
+  | 'patient'
+  | 'admission'
+  | 'consultation'
+  | 'medical_note'
+  | 'note_template'
+  | 'smart_phrase'
+  | 'vital_signs'
+  | 'medication_order'
+  | 'medication_administration'
+  | 'patient_allergy'
+  | 'lab_result'
+  | 'patient_attachment'
+  | 'long_stay_note'
+  | 'appointment'
+  | 'user'
+  | 'role_permissions'
+  | 'settings'
+  | 'ward'
+  | 'room'
+  | 'bed';
+
+export interface AuditEntry {
+  id: number;
+  actor_id: number | null;
+  actor_name: string;
+  actor_role: string | null;
+  action: AuditAction;
+  entity_type: AuditEntityType;
+  entity_id: string | null;
+  summary: string | null;
+  before_data: Record<string, unknown> | null;
+  after_data: Record<string, unknown> | null;
+  created_at: string;
+}
+
+export interface AuditFilters {
+  searchQuery: string;
+  entityType: AuditEntityType | 'all';
+  action: AuditAction | 'all';
+  dateFrom: string;
+  dateTo: string;
+}
+
+export type PatientAccessType = 'view' | 'print' | 'share' | 'copy';
+
+export interface PatientAccessEntry {
+  id: number;
+  patient_id: number | null;
+  patient_mrn: string;
+  patient_name: string;
+  user_id: number | null;
+  user_name: string;
+  user_role: string | null;
+  user_department: string | null;
+  access_type: PatientAccessType;
+  has_care_relationship: boolean;
+  accessed_at: string;
+}
+
+export interface PatientAccessFilters {
+  patientQuery: string;
+  userId: number | 'all';
+  accessType: PatientAccessType | 'all';
+  flaggedOnly: boolean;
+  dateFrom: string;
+  dateTo: string;
+}
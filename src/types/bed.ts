@@ -0,0 +1,75 @@
+export type BedStatus = 'free' | 'occupied' | 'cleaning' | 'blocked';
+
+export interface BedOccupant {
+  id: number;
+  patient_id: number;
+  department: string;
+  admission_date: string;
+  diagnosis: string;
+  patient?: {
+    id: number;
+    mrn: string;
+    name: string;
+  };
+}
+
+export interface Bed {
+  id: number;
+  room_id: number;
+  label: string;
+  status: BedStatus;
+  admission_id: number | null;
+  status_note: string | null;
+  updated_at: string;
+  admission?: BedOccupant | null;
+}
+
+export interface Room {
+  id: number;
+  ward_id: number;
+  name: string;
+  beds: Bed[];
+}
+
+export interface Ward {
+  id: number;
+  name: string;
+  department: string;
+  rooms: Room[];
+}
+
+export interface BedAssignment {
+  id: number;
+  admission_id: number;
+  bed_id: number;
+  assigned_at: string;
+  released_at: string | null;
+  assigned_by: number | null;
+  reason: string | null;
+}
+
+// A free bed flattened with its location, for pickers
+export interface BedOption {
+  id: number;
+  label: string;
+  room: string;
+  ward: string;
+  department: string;
+}
+
+export type BedErrorCode =
+  | 'forbidden'
+  | 'admission_not_active'
+  | 'bed_not_found'
+  | 'bed_not_available'
+  | 'bed_occupied'
+  | 'invalid_status'
+  | 'reason_required';
+
+export interface BedResponse {
+  status: 'moved' | 'updated' | 'error';
+  code?: BedErrorCode;
+  before?: Bed;
+  from_bed?: Bed | null;
+  bed?: Bed;
+}
@@ -1,3 +1,5 @@
+import type { ShiftType } from './settings';
+
 export interface Consultation {
   id: number;
   patient_id: number;
@@ -8,7 +10,9 @@ export interface Consultation {
   requesting_department: string;
   patient_location: string;
   consultation_specialty: string;
-  shift_type: 'morning' | 'evening' | 'night';
+  shift_type: ShiftType;
+  is_weekend?: boolean;
+  shift_override_reason?: string | null;
   urgency: 'routine' | 'urgent' | 'emergency';
   reason: string;
   status: 'active' | 'completed' | 'cancelled';
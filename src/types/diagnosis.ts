@@ -0,0 +1,27 @@
+// Admitting diagnoses are recorded at admission; final diagnoses at discharge
+export type DiagnosisStage = 'admission' | 'discharge';
+
+export interface Icd10Chapter {
+  id: string;
+  title: string;
+  // First and last three-character categories in the chapter, e.g. A00 and B99
+  start: string;
+  end: string;
+}
+
+export interface Icd10Code {
+  code: string;
+  description: string;
+}
+
+export interface CodedDiagnosis extends Icd10Code {
+  is_primary: boolean;
+}
+
+export interface AdmissionDiagnosis extends CodedDiagnosis {
+  id: number;
+  admission_id: number;
+  stage: DiagnosisStage;
+}
+
+export type DiagnosisGrouping = 'chapter' | 'code';
@@ -1,8 +1,58 @@
+import type { CodedDiagnosis } from './diagnosis';
+
 export interface DischargeData {
   discharge_date: string;
   discharge_type: 'regular' | 'against-medical-advice' | 'transfer';
   follow_up_required: boolean;
   follow_up_date?: string;
   discharge_note: string;
+  final_diagnosis?: string;
+  final_diagnoses?: CodedDiagnosis[];
   status?: 'discharged';
-}
\ No newline at end of file
+}
+
+export type DischargeErrorCode =
+  | 'forbidden'
+  | 'admission_not_found'
+  | 'admission_not_active'
+  | 'consultation_not_found'
+  | 'consultation_not_active'
+  | 'discharge_date_required'
+  | 'invalid_discharge_date'
+  | 'discharge_before_admission'
+  | 'follow_up_date_required'
+  | 'follow_up_before_discharge'
+  | 'discharge_note_required'
+  | 'final_primary_diagnosis_required'
+  | 'final_invalid_diagnosis_code'
+  | 'final_duplicate_diagnosis_code';
+
+// Mirrors the discharge_admission database function signature
+export interface DischargeAdmissionParams {
+  p_admission_id: number;
+  p_doctor_id: number;
+  p_discharge_date: string;
+  p_discharge_type: DischargeData['discharge_type'];
+  p_follow_up_required: boolean;
+  p_follow_up_date: string | null;
+  p_discharge_note: string;
+  p_final_diagnosis: string | null;
+  p_final_diagnoses: CodedDiagnosis[] | null;
+}
+
+// Mirrors the complete_consultation database function signature
+export interface CompleteConsultationParams {
+  p_consultation_id: number;
+  p_doctor_id: number;
+  p_completion_note: string;
+}
+
+export interface DischargeResponse {
+  status: 'discharged' | 'completed' | 'error';
+  code?: DischargeErrorCode;
+  before?: Record<string, unknown>;
+  admission?: Record<string, unknown>;
+  final_diagnoses?: CodedDiagnosis[] | null;
+  consultation?: Record<string, unknown>;
+  note?: { id: number } & Record<string, unknown>;
+}
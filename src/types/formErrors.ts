@@ -6,6 +6,7 @@ export interface FormErrors {
   department?: string;
   assignedDoctorId?: string;
   diagnosis?: string;
+  diagnosisCodes?: string;
   general?: string;
   submit?: string;
 }
\ No newline at end of file
@@ -0,0 +1,35 @@
+import type { AllergySeverity } from './allergy';
+
+export type InteractionSeverity = 'minor' | 'moderate' | 'major' | 'contraindicated';
+
+export interface DrugClass {
+  id: string;
+  label: string;
+  // Words an allergy to the whole class is usually recorded under
+  allergyTerms: string[];
+}
+
+export interface FormularyDrug {
+  name: string;
+  aliases?: string[];
+  classes: string[];
+}
+
+// Either side of an interaction is a drug name or a drug class id
+export interface DrugInteraction {
+  between: [string, string];
+  severity: InteractionSeverity;
+  effect: string;
+}
+
+export type SafetyAlertType = 'allergy' | 'cross_sensitivity' | 'interaction';
+
+// Stored with the medication order that triggered it
+export interface SafetyAlert {
+  type: SafetyAlertType;
+  severity: AllergySeverity | InteractionSeverity;
+  hardStop: boolean;
+  // The allergy substance or the current medication the new drug conflicts with
+  with: string;
+  message: string;
+}
@@ -0,0 +1,66 @@
+export type LabFlag = 'normal' | 'low' | 'high' | 'critical_low' | 'critical_high';
+
+export type LabResultSource = 'manual' | 'csv' | 'hl7';
+
+export interface LabTest {
+  code: string;
+  name: string;
+  panel: string;
+  unit: string;
+  // Reference range; either end may be open
+  low: number | null;
+  high: number | null;
+  criticalLow?: number;
+  criticalHigh?: number;
+}
+
+export interface LabResult {
+  id: number;
+  patient_id: number;
+  admission_id: number | null;
+  test_code: string;
+  value: number;
+  unit: string;
+  reference_low: number | null;
+  reference_high: number | null;
+  flag: LabFlag;
+  collected_at: string;
+  source: LabResultSource;
+  entered_by: number;
+  created_at: string;
+  enterer?: {
+    id: number;
+    name: string;
+  };
+}
+
+export interface LabValueInput {
+  testCode: string;
+  value: number;
+}
+
+// One result read from an import file, before the patient is resolved
+export interface LabImportRow {
+  line: number;
+  mrn: string;
+  testCode: string;
+  value: number;
+  collectedAt: string;
+}
+
+export interface LabImportError {
+  line: number;
+  message: string;
+}
+
+export interface LabImportParseResult {
+  rows: LabImportRow[];
+  errors: LabImportError[];
+}
+
+export interface LabImportSummary {
+  imported: number;
+  duplicates: number;
+  critical: number;
+  unknownMrns: string[];
+}
@@ -0,0 +1,171 @@
+import type { SafetyAlert } from './formulary';
+
+export type MedicationRoute =
+  | 'oral'
+  | 'iv'
+  | 'im'
+  | 'sc'
+  | 'sublingual'
+  | 'inhaled'
+  | 'nebulised'
+  | 'topical'
+  | 'rectal'
+  | 'ng_tube';
+
+export type MedicationFrequency =
+  | 'once'
+  | 'once_daily'
+  | 'twice_daily'
+  | 'three_times_daily'
+  | 'four_times_daily'
+  | 'every_4_hours'
+  | 'every_6_hours'
+  | 'every_8_hours'
+  | 'every_12_hours'
+  | 'at_night';
+
+// Derived from the order's start, stop and discontinuation times
+export type MedicationOrderStatus = 'scheduled' | 'active' | 'stopped' | 'discontinued';
+
+export interface MedicationOrder {
+  id: number;
+  patient_id: number;
+  admission_id: number;
+  drug_name: string;
+  dose: string;
+  route: MedicationRoute;
+  frequency: MedicationFrequency;
+  is_prn: boolean;
+  prn_indication: string | null;
+  instructions: string | null;
+  start_at: string;
+  stop_at: string | null;
+  prescribed_by: number;
+  discontinued_at: string | null;
+  discontinued_by: number | null;
+  discontinuation_reason: string | null;
+  // Allergy and interaction alerts raised when the order was written
+  safety_alerts: SafetyAlert[];
+  override_reason: string | null;
+  created_at: string;
+  updated_at: string;
+  prescriber?: {
+    id: number;
+    name: string;
+  };
+  discontinued_by_user?: {
+    id: number;
+    name: string;
+  };
+  // Present when orders are listed across a ward
+  admission?: {
+    id: number;
+    department: string;
+    patient?: {
+      id: number;
+      mrn: string;
+      name: string;
+    };
+  };
+}
+
+export type MedicationErrorCode =
+  | 'forbidden'
+  | 'admission_not_found'
+  | 'admission_patient_mismatch'
+  | 'admission_not_active'
+  | 'drug_required'
+  | 'dose_required'
+  | 'invalid_route'
+  | 'invalid_frequency'
+  | 'prn_indication_required'
+  | 'start_required'
+  | 'stop_before_start'
+  | 'override_required'
+  | 'order_not_found'
+  | 'order_not_active'
+  | 'reason_required';
+
+// Mirrors the prescribe_medication database function signature
+export interface PrescribeMedicationParams {
+  p_patient_id: number;
+  p_admission_id: number;
+  p_prescriber_id: number;
+  p_drug_name: string;
+  p_dose: string;
+  p_route: MedicationRoute;
+  p_frequency: MedicationFrequency;
+  p_is_prn: boolean;
+  p_prn_indication: string | null;
+  p_instructions: string | null;
+  p_start_at: string;
+  p_stop_at: string | null;
+  p_safety_alerts: SafetyAlert[];
+  p_override_reason: string | null;
+}
+
+export interface MedicationOrderResponse {
+  status: 'prescribed' | 'discontinued' | 'error';
+  code?: MedicationErrorCode;
+  before?: MedicationOrder;
+  order?: MedicationOrder;
+}
+
+export type AdministrationStatus = 'given' | 'held' | 'refused' | 'missed';
+
+export interface MedicationAdministration {
+  id: number;
+  order_id: number;
+  patient_id: number;
+  // Null for PRN doses, which have no schedule
+  scheduled_at: string | null;
+  status: AdministrationStatus;
+  reason: string | null;
+  administered_at: string;
+  recorded_by: number;
+  created_at: string;
+  recorder?: {
+    id: number;
+    name: string;
+  };
+}
+
+// One expected dose of a scheduled order on the MAR
+export interface MarDose {
+  scheduledAt: string;
+  administration?: MedicationAdministration;
+  overdue: boolean;
+}
+
+export interface MarRow {
+  order: MedicationOrder;
+  doses: MarDose[];
+  // Doses of PRN orders, recorded as they are given
+  prnAdministrations: MedicationAdministration[];
+}
+
+export type AdministrationErrorCode =
+  | 'forbidden'
+  | 'order_not_found'
+  | 'invalid_status'
+  | 'reason_required'
+  | 'scheduled_time_required'
+  | 'dose_not_due'
+  | 'invalid_administration_time'
+  | 'already_recorded';
+
+// Mirrors the record_medication_administration database function signature
+export interface RecordAdministrationParams {
+  p_order_id: number;
+  p_nurse_id: number;
+  p_scheduled_at: string | null;
+  p_status: AdministrationStatus;
+  p_reason: string | null;
+  p_administered_at: string;
+}
+
+export interface AdministrationResponse {
+  status: 'recorded' | 'error';
+  code?: AdministrationErrorCode;
+  administration?: MedicationAdministration;
+}
@@ -5,6 +5,7 @@ export type Page =
   | 'consultation' 
   | 'reports' 
   | 'discharge' 
+  | 'beds'
   | 'specialties' 
   | 'employees' 
   | 'appointments' 
@@ -18,6 +19,7 @@ export const isValidPage = (page: string): page is Page => {
     'consultation',
     'reports',
     'discharge',
+    'beds',
     'specialties',
     'employees',
     'appointments',
@@ -0,0 +1,120 @@
+export type NoteType = 'Progress Note' | 'Follow-up Note' | 'Consultation Note' | 'Discharge Note' | 'Discharge Summary';
+
+export interface NoteTemplateSection {
+  key: string;
+  label: string;
+  required: boolean;
+  placeholder: string | null;
+}
+
+export interface NoteTemplate {
+  note_type: NoteType;
+  sections: NoteTemplateSection[];
+  updated_by: number | null;
+  updated_at: string;
+  updater?: {
+    id: number;
+    name: string;
+  };
+}
+
+// A section as written in a note; the label is kept so later template
+// changes do not alter how existing notes read
+export interface NoteSection {
+  key: string;
+  label: string;
+  content: string;
+}
+
+export type NoteStatus = 'draft' | 'signed';
+
+// Review of a signed note by a supervising doctor; returned notes go back to draft
+export type CosignStatus = 'pending' | 'cosigned' | 'returned';
+
+export interface NoteAddendum {
+  id: number;
+  note_id: number;
+  content: string;
+  author_id: number;
+  created_at: string;
+  author?: {
+    id: number;
+    name: string;
+  };
+}
+
+export interface MedicalNote {
+  id: number;
+  patient_id: number;
+  doctor_id: number;
+  doctor_name: string;
+  note_type: NoteType;
+  content: string;
+  // Null for notes written before templates were introduced
+  sections: NoteSection[] | null;
+  status: NoteStatus;
+  signed_at: string | null;
+  signed_by: number | null;
+  cosigner_id: number | null;
+  cosign_status: CosignStatus | null;
+  cosigned_at: string | null;
+  cosign_comment: string | null;
+  created_at: string;
+  updated_at: string;
+  signer?: {
+    id: number;
+    name: string;
+  } | null;
+  cosigner?: {
+    id: number;
+    name: string;
+  } | null;
+  // Only loaded for the co-signature queue, which spans patients
+  patient?: {
+    id: number;
+    name: string;
+    mrn: string;
+  };
+  addenda?: NoteAddendum[];
+}
+
+export interface NoteInput {
+  note_type: NoteType;
+  content: string;
+  sections: NoteSection[];
+}
+
+export interface NoteVersion {
+  id: number;
+  note_id: number;
+  version: number;
+  note_type: NoteType;
+  content: string;
+  sections: NoteSection[] | null;
+  saved_by: number;
+  saved_at: string;
+  saver?: {
+    id: number;
+    name: string;
+  };
+}
+
+export type NoteErrorCode =
+  | 'forbidden'
+  | 'note_not_found'
+  | 'note_signed'
+  | 'note_not_signed'
+  | 'not_author'
+  | 'content_required'
+  | 'invalid_cosigner'
+  | 'not_pending'
+  | 'not_cosigner'
+  | 'comment_required';
+
+export interface NoteResponse {
+  status: 'updated' | 'signed' | 'added' | 'cosigned' | 'returned' | 'error';
+  code?: NoteErrorCode;
+  before?: MedicalNote;
+  note?: MedicalNote;
+  addendum?: NoteAddendum;
+}
@@ -1,3 +1,6 @@
+import type { ShiftType } from './settings';
+import type { AdmissionDiagnosis } from './diagnosis';
+
 export interface Patient {
   id: number;
   mrn: string;
@@ -17,10 +20,14 @@ export interface Patient {
     discharge_date: string | null;
     department: string;
     diagnosis: string;
+    final_diagnosis?: string | null;
+    diagnoses?: AdmissionDiagnosis[];
     visit_number: number;
     safety_type?: 'emergency' | 'observation' | 'short-stay';
-    shift_type: 'morning' | 'evening' | 'night' | 'weekend_morning' | 'weekend_night';
+    shift_type: ShiftType;
     is_weekend: boolean;
+    shift_override_reason?: string | null;
+    transferred_from_id?: number | null;
     admitting_doctor?: {
       id: number;
       name: string;
@@ -0,0 +1,39 @@
+import type { Patient } from './patient';
+
+export type DuplicateReason = 'same_mrn' | 'similar_name_dob';
+
+export interface DuplicateCandidate {
+  patient_id: number;
+  duplicate_id: number;
+  reason: DuplicateReason;
+  name_similarity: number;
+}
+
+export interface DuplicatePair extends DuplicateCandidate {
+  patient: Patient;
+  duplicate: Patient;
+}
+
+export interface RecordCounts {
+  admissions: number;
+  medical_notes: number;
+  long_stay_notes: number;
+  consultations: number;
+}
+
+export interface MergePreview {
+  survivor: Patient;
+  duplicate: Patient;
+  survivorCounts: RecordCounts;
+  duplicateCounts: RecordCounts;
+}
+
+export interface MergeResponse extends Partial<RecordCounts> {
+  status: 'merged' | 'forbidden' | 'same_patient' | 'patient_not_found' | 'both_active' | 'conflicting_records';
+  survivor_id?: number;
+  duplicate_id?: number;
+  // Rows moved from the tables registered in patient_merge_tables, by table
+  other_records?: Record<string, number>;
+  // The table holding a record that already exists on the surviving chart
+  table?: string;
+}
@@ -0,0 +1,40 @@
+import type { AuthResponse, User } from './user';
+
+export type Role = User['role'];
+
+export type Permission =
+  | 'patients.view'
+  | 'patients.update'
+  | 'patients.delete'
+  | 'patients.merge'
+  | 'patients.transfer'
+  | 'admission.create'
+  | 'discharge.process'
+  | 'beds.assign'
+  | 'beds.manage'
+  | 'consultation.create'
+  | 'consultation.complete'
+  | 'notes.create'
+  | 'notes.cosign'
+  | 'phrases.department'
+  | 'attachments.manage'
+  | 'vitals.record'
+  | 'medications.prescribe'
+  | 'medications.administer'
+  | 'allergies.manage'
+  | 'labs.record'
+  | 'appointments.manage'
+  | 'reports.view'
+  | 'reports.view_all'
+  | 'reports.export'
+  | 'users.manage'
+  | 'permissions.manage'
+  | 'settings.manage'
+  | 'templates.manage'
+  | 'audit.view';
+
+export type RolePermissions = Record<Role, Permission[]>;
+
+export interface RolePermissionsResponse extends Omit<AuthResponse, 'status'> {
+  status: AuthResponse['status'] | 'updated' | 'forbidden' | 'locked_permission';
+}
@@ -0,0 +1,24 @@
+export type ShiftType = 'morning' | 'evening' | 'night' | 'weekend_morning' | 'weekend_night';
+
+// Times are HH:mm; a window whose end is not after its start runs past midnight
+export interface ShiftWindow {
+  start: string;
+  end: string;
+}
+
+export interface ShiftSchedule {
+  windows: Record<ShiftType, ShiftWindow>;
+  // JavaScript day numbers, 0 = Sunday
+  weekend_days: number[];
+}
+
+export interface ShiftAssignment {
+  shiftType: ShiftType;
+  isWeekend: boolean;
+}
+
+// A manual choice that replaces the derived shift
+export interface ShiftOverride {
+  shiftType: ShiftType;
+  reason: string;
+}
@@ -0,0 +1,40 @@
+export type SmartPhraseScope = 'personal' | 'department';
+
+export interface SmartPhrase {
+  id: number;
+  // Typed after a "." to expand the phrase, e.g. "normalexam"
+  shortcut: string;
+  title: string;
+  body: string;
+  scope: SmartPhraseScope;
+  owner_id: number | null;
+  department: string | null;
+  created_by: number;
+  updated_by: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SmartPhraseInput {
+  shortcut: string;
+  title: string;
+  body: string;
+  scope: SmartPhraseScope;
+}
+
+export type PhrasePlaceholder =
+  | 'name'
+  | 'mrn'
+  | 'age'
+  | 'gender'
+  | 'admission_date'
+  | 'diagnosis'
+  | 'length_of_stay'
+  | 'today'
+  | 'doctor';
+
+// Values for the placeholders in a phrase, taken from the patient being
+// documented; anything the form does not know is left out
+export type PhraseContext = Partial<Record<PhrasePlaceholder, string>>;
+
+export type PhraseErrorCode = 'shortcut_taken';
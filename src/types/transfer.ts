@@ -0,0 +1,59 @@
+import type { Admission } from './admission';
+
+export interface AdmissionTransfer {
+  id: number;
+  patient_id: number;
+  from_admission_id: number;
+  to_admission_id: number;
+  from_department: string;
+  to_department: string;
+  transferring_doctor_id: number | null;
+  receiving_doctor_id: number | null;
+  reason: string;
+  transferred_at: string;
+  created_at: string;
+  transferring_doctor?: {
+    id: number;
+    name: string;
+    medical_code: string;
+  };
+  receiving_doctor?: {
+    id: number;
+    name: string;
+    medical_code: string;
+  };
+  patient?: {
+    mrn: string;
+    name: string;
+  };
+}
+
+export type TransferErrorCode =
+  | 'forbidden'
+  | 'admission_not_found'
+  | 'admission_not_active'
+  | 'department_required'
+  | 'same_department'
+  | 'receiving_doctor_not_found'
+  | 'receiving_doctor_department_mismatch'
+  | 'reason_required'
+  | 'invalid_transfer_time';
+
+// Mirrors the transfer_admission database function signature
+export interface TransferAdmissionParams {
+  p_admission_id: number;
+  p_doctor_id: number;
+  p_to_department: string;
+  p_receiving_doctor_id: number;
+  p_reason: string;
+  p_transferred_at: string;
+}
+
+export interface TransferResponse {
+  status: 'transferred' | 'error';
+  code?: TransferErrorCode;
+  before?: Admission;
+  closed_admission?: Admission;
+  admission?: Admission;
+  transfer?: AdmissionTransfer;
+}
@@ -7,4 +7,18 @@ export interface User {
   status: 'active' | 'inactive';
   created_at?: string;
   updated_at?: string;
-}
\ No newline at end of file
+}
+
+export type LoginStatus = 'authenticated' | 'pin_change_required';
+
+export interface AuthResponse {
+  status: LoginStatus | 'invalid_credentials' | 'no_credentials' | 'locked' | 'pin_too_short' | 'pin_reused';
+  user?: User;
+  locked_until?: string;
+  remaining_attempts?: number;
+}
+
+export interface ResetPinResponse extends Omit<AuthResponse, 'status'> {
+  status: AuthResponse['status'] | 'reset' | 'forbidden' | 'user_not_found';
+  pin?: string;
+}
@@ -0,0 +1,87 @@
+export type OxygenDevice =
+  | 'room_air'
+  | 'nasal_cannula'
+  | 'simple_mask'
+  | 'venturi_mask'
+  | 'non_rebreather'
+  | 'high_flow'
+  | 'niv'
+  | 'ventilator';
+
+// ACVPU scale
+export type ConsciousnessLevel = 'alert' | 'confusion' | 'voice' | 'pain' | 'unresponsive';
+
+export type VitalMeasure =
+  | 'heart_rate'
+  | 'systolic_bp'
+  | 'diastolic_bp'
+  | 'respiratory_rate'
+  | 'temperature'
+  | 'spo2';
+
+export type VitalFlag = 'low' | 'high';
+
+export interface VitalSignsInput {
+  recorded_at: string;
+  heart_rate: number | null;
+  systolic_bp: number | null;
+  diastolic_bp: number | null;
+  respiratory_rate: number | null;
+  temperature: number | null;
+  spo2: number | null;
+  o2_device: OxygenDevice;
+  o2_flow_rate: number | null;
+  consciousness: ConsciousnessLevel;
+}
+
+export interface VitalSigns extends VitalSignsInput {
+  id: number;
+  patient_id: number;
+  admission_id: number | null;
+  recorded_by: {
+    id: number;
+    name: string;
+  };
+}
+
+export interface VitalRange {
+  label: string;
+  unit: string;
+  // Values outside these bounds are flagged as abnormal
+  low: number;
+  high: number;
+  // Values outside these bounds are rejected as implausible
+  min: number;
+  max: number;
+  step: number;
+}
+
+export type News2Parameter =
+  | 'respiratory_rate'
+  | 'spo2'
+  | 'oxygen'
+  | 'systolic_bp'
+  | 'heart_rate'
+  | 'consciousness'
+  | 'temperature';
+
+// Clinical response bands from the NEWS2 chart
+export type News2Risk = 'low' | 'low_medium' | 'medium' | 'high';
+
+export interface News2Result {
+  score: number;
+  parameterScores: Partial<Record<News2Parameter, number>>;
+  risk: News2Risk;
+  // False when a parameter was not measured, so the score may under-read
+  complete: boolean;
+  escalate: boolean;
+}
+
+// Latest set for an active admission, as listed on ward views
+export interface AdmissionVitals extends VitalSigns {
+  admission_id: number;
+  mrn: string;
+  patient_name: string;
+  department: string;
+  admitting_doctor_id: number;
+}
@@ -0,0 +1,25 @@
+import { ALLOWED_ATTACHMENT_TYPES, MAX_ATTACHMENT_SIZE_BYTES } from '../config/attachments';
+import type { PatientAttachment } from '../types/attachment';
+
+export const isImageAttachment = (attachment: Pick<PatientAttachment, 'mime_type'>) =>
+  attachment.mime_type.startsWith('image/');
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Returns why the file cannot be attached, or null when it can
+export const validateAttachmentFile = (file: File): string | null => {
+  if (!ALLOWED_ATTACHMENT_TYPES.includes(file.type)) {
+    return 'Only PDF, JPEG, PNG and WebP files can be attached';
+  }
+  if (file.size === 0) {
+    return 'The file is empty';
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE_BYTES) {
+    return `Files larger than ${formatFileSize(MAX_ATTACHMENT_SIZE_BYTES)} cannot be attached`;
+  }
+  return null;
+};
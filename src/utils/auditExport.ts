@@ -0,0 +1,127 @@
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { format } from 'date-fns';
+import type { AuditEntry, PatientAccessEntry } from '../types/audit';
+
+const escapeCsvValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const downloadCSV = (headers: string[], rows: unknown[][], filename: string) => {
+  const lines = [headers.join(','), ...rows.map(row => row.map(escapeCsvValue).join(','))];
+  const blob = new Blob([lines.join('\n')], { type: 'text/csv;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${filename}-${format(new Date(), 'dd-MM-yyyy-HHmm')}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// CSV keeps the full before/after snapshots so the export can be reviewed outside the app
+export const exportAuditLogToCSV = (entries: AuditEntry[]): void => {
+  try {
+    downloadCSV(
+      ['Timestamp', 'Actor', 'Role', 'Action', 'Entity', 'Entity ID', 'Summary', 'Before', 'After'],
+      entries.map(entry => [
+        entry.created_at,
+        entry.actor_name,
+        entry.actor_role,
+        entry.action,
+        entry.entity_type,
+        entry.entity_id,
+        entry.summary,
+        entry.before_data,
+        entry.after_data
+      ]),
+      'audit-log'
+    );
+  } catch (error) {
+    console.error('Error generating CSV:', error);
+    throw new Error('Failed to export audit log');
+  }
+};
+
+export const exportAccessLogToCSV = (entries: PatientAccessEntry[]): void => {
+  try {
+    downloadCSV(
+      ['Timestamp', 'Patient', 'MRN', 'User', 'Role', 'Department', 'Access', 'Care Relationship'],
+      entries.map(entry => [
+        entry.accessed_at,
+        entry.patient_name,
+        entry.patient_mrn,
+        entry.user_name,
+        entry.user_role,
+        entry.user_department,
+        entry.access_type,
+        entry.has_care_relationship ? 'yes' : 'no'
+      ]),
+      'patient-access-log'
+    );
+  } catch (error) {
+    console.error('Error generating CSV:', error);
+    throw new Error('Failed to export access log');
+  }
+};
+
+export const exportAuditLogToPDF = (entries: AuditEntry[], dateRange?: { dateFrom: string; dateTo: string }): void => {
+  try {
+    const doc = new jsPDF({ orientation: 'landscape' });
+    const pageWidth = doc.internal.pageSize.width;
+    let currentY = 15;
+
+    doc.setFontSize(20);
+    doc.text('Audit Log', pageWidth / 2, currentY, { align: 'center' });
+
+    currentY += 10;
+    doc.setFontSize(12);
+    doc.text(`Generated on: ${format(new Date(), 'dd/MM/yyyy HH:mm')}`, pageWidth / 2, currentY, { align: 'center' });
+
+    if (dateRange?.dateFrom || dateRange?.dateTo) {
+      currentY += 7;
+      doc.text(
+        `Period: ${dateRange.dateFrom ? format(new Date(dateRange.dateFrom), 'dd/MM/yyyy') : 'start'} to ${dateRange.dateTo ? format(new Date(dateRange.dateTo), 'dd/MM/yyyy') : 'today'}`,
+        pageWidth / 2,
+        currentY,
+        { align: 'center' }
+      );
+    }
+
+    currentY += 10;
+
+    autoTable(doc, {
+      startY: currentY,
+      head: [['Timestamp', 'Actor', 'Action', 'Entity', 'ID', 'Summary']],
+      body: entries.map(entry => [
+        format(new Date(entry.created_at), 'dd/MM/yyyy HH:mm:ss'),
+        entry.actor_role ? `${entry.actor_name} (${entry.actor_role})` : entry.actor_name,
+        entry.action,
+        entry.entity_type,
+        entry.entity_id || '',
+        entry.summary || ''
+      ]),
+      styles: { fontSize: 9 },
+      headStyles: { fillColor: [79, 70, 229] },
+      columnStyles: { 5: { cellWidth: 110 } }
+    });
+
+    const pageCount = (doc as any).internal.getNumberOfPages();
+    for (let i = 1; i <= pageCount; i++) {
+      doc.setPage(i);
+      doc.setFontSize(10);
+      doc.text(
+        `Page ${i} of ${pageCount}`,
+        pageWidth / 2,
+        doc.internal.pageSize.height - 10,
+        { align: 'center' }
+      );
+    }
+
+    doc.save(`audit-log-${format(new Date(), 'dd-MM-yyyy-HHmm')}.pdf`);
+  } catch (error) {
+    console.error('Error generating PDF:', error);
+    throw new Error('Failed to export audit log');
+  }
+};
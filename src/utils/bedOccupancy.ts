@@ -0,0 +1,41 @@
+import type { Bed, BedAssignment, BedStatus, Ward } from '../types/bed';
+
+export interface BedSummary {
+  total: number;
+  free: number;
+  occupied: number;
+  cleaning: number;
+  blocked: number;
+  // Blocked beds cannot take patients, so they do not count towards capacity
+  capacity: number;
+  occupancyRate: number;
+}
+
+export const getWardBeds = (ward: Ward): Bed[] => ward.rooms.flatMap(room => room.beds);
+
+export const summarizeBeds = (beds: Bed[]): BedSummary => {
+  const counts: Record<BedStatus, number> = { free: 0, occupied: 0, cleaning: 0, blocked: 0 };
+  beds.forEach(bed => {
+    counts[bed.status] += 1;
+  });
+
+  const capacity = beds.length - counts.blocked;
+
+  return {
+    total: beds.length,
+    ...counts,
+    capacity,
+    occupancyRate: capacity > 0 ? Math.round((counts.occupied / capacity) * 100) : 0
+  };
+};
+
+// Midnight census: beds holding a patient at the end of the given day
+export const countOccupiedBeds = (assignments: BedAssignment[], day: Date): number => {
+  const census = new Date(day);
+  census.setHours(23, 59, 59, 999);
+
+  return assignments.filter(assignment =>
+    new Date(assignment.assigned_at) <= census &&
+    (!assignment.released_at || new Date(assignment.released_at) > census)
+  ).length;
+};
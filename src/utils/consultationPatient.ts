@@ -0,0 +1,46 @@
+import type { Patient } from '../types/patient';
+import type { Admission } from '../types/admission';
+import type { Consultation } from '../types/consultation';
+
+// Presents an active consultation as a patient record so it can be opened in the patient profile
+export const consultationToPatient = (consultation: Consultation): Patient => {
+  const admission = {
+    id: consultation.id,
+    patient_id: consultation.patient_id,
+    admitting_doctor_id: consultation.doctor_id || 0,
+    status: 'active' as const,
+    department: consultation.consultation_specialty,
+    admission_date: consultation.created_at,
+    discharge_date: null,
+    diagnosis: consultation.reason,
+    visit_number: 1,
+    shift_type: consultation.shift_type,
+    is_weekend: consultation.is_weekend ?? false,
+    is_consultation: true,
+    admitting_doctor: consultation.doctor_name ? {
+      id: consultation.doctor_id || 0,
+      name: consultation.doctor_name,
+      medical_code: '',
+      role: 'doctor' as const,
+      department: consultation.consultation_specialty
+    } : undefined
+  };
+
+  return {
+    id: consultation.patient_id,
+    mrn: consultation.mrn,
+    name: consultation.patient_name,
+    gender: consultation.gender,
+    date_of_birth: new Date(new Date().getFullYear() - consultation.age, 0, 1).toISOString(),
+    department: consultation.consultation_specialty,
+    doctor_name: consultation.doctor_name,
+    diagnosis: consultation.reason,
+    admission_date: consultation.created_at,
+    admissions: [admission]
+  };
+};
+
+// The patient's active inpatient admission, ignoring the stand-in of an open
+// consultation, for anything that must be recorded against a real admission
+export const findInpatientAdmission = (admissions: Admission[] | undefined) =>
+  admissions?.find(admission => admission.status === 'active' && !admission.is_consultation);
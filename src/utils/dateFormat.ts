@@ -1,31 +1,36 @@
-import { format, isValid, parseISO } from 'date-fns';
+import { isValid } from 'date-fns';
+import { useSettingsStore } from '../stores/useSettingsStore';
+import { formatInHospitalTime, parseDateInput } from './hospitalTime';
 
-export const formatDate = (date: string | Date): string => {
+// All clinical dates and times are shown in the hospital's time zone
+const formatHospital = (date: string | Date, pattern: string): string => {
   try {
-    const parsedDate = typeof date === 'string' ? parseISO(date) : date;
+    const parsedDate = parseDateInput(date);
     if (!isValid(parsedDate)) return 'Invalid Date';
-    return format(parsedDate, 'dd/MM/yyyy');
+    return formatInHospitalTime(parsedDate, pattern, useSettingsStore.getState().timeZone);
   } catch {
     return 'Invalid Date';
   }
 };
 
-export const formatShortDate = (date: string | Date): string => {
-  try {
-    const parsedDate = typeof date === 'string' ? parseISO(date) : date;
-    if (!isValid(parsedDate)) return 'Invalid Date';
-    return format(parsedDate, 'dd/MM/yyyy');
-  } catch {
-    return 'Invalid Date';
-  }
-};
+export const formatDate = (date: string | Date): string =>
+  formatHospital(date, 'dd/MM/yyyy');
 
-export const formatTime = (date: string | Date): string => {
-  try {
-    const parsedDate = typeof date === 'string' ? parseISO(date) : date;
-    if (!isValid(parsedDate)) return 'Invalid Date';
-    return format(parsedDate, 'h:mm a');
-  } catch {
-    return 'Invalid Date';
-  }
-};
\ No newline at end of file
+export const formatShortDate = (date: string | Date): string =>
+  formatHospital(date, 'dd/MM/yyyy');
+
+export const formatTime = (date: string | Date): string =>
+  formatHospital(date, 'h:mm a');
+
+export const formatDateTime = (date: string | Date): string =>
+  formatHospital(date, 'dd/MM/yyyy HH:mm');
+
+export const getAgeFromDateOfBirth = (dateOfBirth: string): number => {
+  const birthDate = new Date(dateOfBirth);
+  const today = new Date();
+  let age = today.getFullYear() - birthDate.getFullYear();
+  const hasHadBirthday = today.getMonth() > birthDate.getMonth() ||
+    (today.getMonth() === birthDate.getMonth() && today.getDate() >= birthDate.getDate());
+  if (!hasHadBirthday) age -= 1;
+  return age;
+};
@@ -0,0 +1,103 @@
+import { addDays, format, isValid, parseISO } from 'date-fns';
+
+// Clinical times are entered and displayed in the hospital's time zone, whatever
+// the time zone of the workstation. These helpers convert between an instant and
+// its wall-clock reading in that zone using Intl, so no extra library is needed.
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+const getWallClockFields = (instant: Date, timeZone: string) => {
+  const fields: Record<string, number> = {};
+  getFormatter(timeZone).formatToParts(instant).forEach(part => {
+    if (part.type !== 'literal') fields[part.type] = Number(part.value);
+  });
+  return fields;
+};
+
+// Milliseconds the zone is ahead of UTC at the given instant
+const getOffset = (instant: Date, timeZone: string): number => {
+  const { year, month, day, hour, minute, second } = getWallClockFields(instant, timeZone);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  return asUtc - (instant.getTime() - instant.getMilliseconds());
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const parseDateInput = (date: string | Date): Date =>
+  typeof date === 'string' ? parseISO(date) : date;
+
+// A local Date whose fields read as the hospital wall clock, for formatting and calendar maths
+export const toHospitalTime = (date: string | Date, timeZone: string): Date => {
+  // Calendar dates such as follow-up dates have no time of day to convert
+  if (typeof date === 'string' && DATE_ONLY.test(date)) return parseISO(date);
+
+  const instant = parseDateInput(date);
+  if (!isValid(instant)) return instant;
+
+  const { year, month, day, hour, minute, second } = getWallClockFields(instant, timeZone);
+  return new Date(year, month - 1, day, hour, minute, second, instant.getMilliseconds());
+};
+
+// The instant at which the hospital wall clock shows the fields of the given local Date
+export const fromHospitalTime = (wallClock: Date, timeZone: string): Date => {
+  const asUtc = Date.UTC(
+    wallClock.getFullYear(),
+    wallClock.getMonth(),
+    wallClock.getDate(),
+    wallClock.getHours(),
+    wallClock.getMinutes(),
+    wallClock.getSeconds(),
+    wallClock.getMilliseconds()
+  );
+
+  // A second pass settles times close to a daylight saving change
+  const firstGuess = new Date(asUtc - getOffset(new Date(asUtc), timeZone));
+  return new Date(asUtc - getOffset(firstGuess, timeZone));
+};
+
+// Value for a datetime-local input showing the instant in hospital time
+export const toHospitalInput = (date: string | Date, timeZone: string): string =>
+  format(toHospitalTime(date, timeZone), "yyyy-MM-dd'T'HH:mm");
+
+// ISO timestamp for a datetime-local (or date-only) input read as hospital time
+export const fromHospitalInput = (value: string, timeZone: string): string => {
+  const wallClock = parseISO(value);
+  if (!isValid(wallClock)) return value;
+  return fromHospitalTime(wallClock, timeZone).toISOString();
+};
+
+export const formatInHospitalTime = (date: string | Date, pattern: string, timeZone: string): string =>
+  format(toHospitalTime(date, timeZone), pattern);
+
+// Bounds of whole hospital days from startDate to endDate (YYYY-MM-DD); end is exclusive
+export const getHospitalDayRange = (startDate: string, endDate: string, timeZone: string) => ({
+  start: new Date(fromHospitalInput(startDate, timeZone)),
+  end: new Date(fromHospitalInput(format(addDays(parseISO(endDate), 1), 'yyyy-MM-dd'), timeZone))
+});
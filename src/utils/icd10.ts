@@ -0,0 +1,80 @@
+import { ICD10_CHAPTERS, ICD10_CODES } from '../config/icd10';
+import type {
+  AdmissionDiagnosis,
+  DiagnosisGrouping,
+  Icd10Chapter,
+  Icd10Code
+} from '../types/diagnosis';
+
+const DEFAULT_SEARCH_LIMIT = 20;
+const UNCODED_KEY = 'uncoded';
+
+const normalizeCode = (code: string) => code.replace('.', '').toUpperCase();
+
+export const findIcd10Code = (code: string): Icd10Code | undefined => {
+  const normalized = normalizeCode(code);
+  return ICD10_CODES.find(entry => normalizeCode(entry.code) === normalized);
+};
+
+// Codes whose code starts with the query rank above description matches
+export const searchIcd10Codes = (query: string, limit = DEFAULT_SEARCH_LIMIT): Icd10Code[] => {
+  const trimmed = query.trim();
+  if (!trimmed) return [];
+
+  const codeQuery = normalizeCode(trimmed);
+  const words = trimmed.toLowerCase().split(/\s+/);
+
+  const byCode = ICD10_CODES.filter(entry => normalizeCode(entry.code).startsWith(codeQuery));
+  const byDescription = ICD10_CODES.filter(entry =>
+    !byCode.includes(entry) &&
+    words.every(word => entry.description.toLowerCase().includes(word))
+  );
+
+  return [...byCode, ...byDescription].slice(0, limit);
+};
+
+export const getIcd10Chapter = (code: string): Icd10Chapter | undefined => {
+  const category = code.slice(0, 3).toUpperCase();
+  return ICD10_CHAPTERS.find(chapter => category >= chapter.start && category <= chapter.end);
+};
+
+export const formatIcd10Chapter = (chapter: Icd10Chapter) => `${chapter.id}. ${chapter.title}`;
+
+// The final diagnosis supersedes the admitting one once the patient is discharged
+export const getReportedDiagnosis = (diagnoses: AdmissionDiagnosis[] = []): AdmissionDiagnosis | undefined =>
+  diagnoses.find(diagnosis => diagnosis.stage === 'discharge' && diagnosis.is_primary) ||
+  diagnoses.find(diagnosis => diagnosis.stage === 'admission' && diagnosis.is_primary);
+
+export interface DiagnosisGroup {
+  key: string;
+  label: string;
+  count: number;
+}
+
+export const groupByDiagnosis = (
+  admissions: Array<{ diagnoses?: AdmissionDiagnosis[] }>,
+  grouping: DiagnosisGrouping
+): DiagnosisGroup[] => {
+  const groups = new Map<string, DiagnosisGroup>();
+
+  admissions.forEach(admission => {
+    const diagnosis = getReportedDiagnosis(admission.diagnoses);
+    const chapter = diagnosis ? getIcd10Chapter(diagnosis.code) : undefined;
+
+    let key = UNCODED_KEY;
+    let label = 'Not coded';
+    if (diagnosis && grouping === 'code') {
+      key = diagnosis.code;
+      label = `${diagnosis.code} ${diagnosis.description}`;
+    } else if (chapter) {
+      key = chapter.id;
+      label = formatIcd10Chapter(chapter);
+    }
+
+    const group = groups.get(key) || { key, label, count: 0 };
+    group.count += 1;
+    groups.set(key, group);
+  });
+
+  return Array.from(groups.values()).sort((a, b) => b.count - a.count);
+};
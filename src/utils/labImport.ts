@@ -0,0 +1,189 @@
+import { fromHospitalInput } from './hospitalTime';
+import { findLabTest } from './labResults';
+import type { LabImportError, LabImportParseResult, LabImportRow, LabResultSource } from '../types/lab';
+
+// Result files come from the laboratory stand-in as either a CSV export with the
+// columns below or an HL7 v2 ORU^R01 message. Times without an offset are read as
+// hospital time. Rows that cannot be used are reported by line and left out.
+
+const CSV_REQUIRED_COLUMNS = ['mrn', 'test_code', 'value', 'collected_at'];
+
+const HAS_OFFSET = /(?:[zZ]|[+-]\d{2}:?\d{2})$/;
+const HL7_TIMESTAMP = /^(\d{4})(\d{2})(\d{2})(\d{2})?(\d{2})?(\d{2})?(?:\.\d+)?([+-]\d{4})?$/;
+
+// Feeds often spell micro as "u"
+const normalizeUnit = (unit: string) => unit.trim().toLowerCase().replace(/[µμ]/g, 'u');
+
+const parseCollectedAt = (value: string, timeZone: string): string | null => {
+  const trimmed = value.trim();
+  const instant = HAS_OFFSET.test(trimmed)
+    ? new Date(trimmed)
+    : new Date(fromHospitalInput(trimmed.replace(' ', 'T'), timeZone));
+  return isNaN(instant.getTime()) ? null : instant.toISOString();
+};
+
+const parseHl7Timestamp = (value: string, timeZone: string): string | null => {
+  const match = value.trim().match(HL7_TIMESTAMP);
+  if (!match) return null;
+
+  const [, year, month, day, hour = '00', minute = '00', second = '00', offset] = match;
+  const wallClock = `${year}-${month}-${day}T${hour}:${minute}:${second}`;
+  const instant = offset
+    ? new Date(`${wallClock}${offset.slice(0, 3)}:${offset.slice(3)}`)
+    : new Date(fromHospitalInput(wallClock, timeZone));
+  return isNaN(instant.getTime()) ? null : instant.toISOString();
+};
+
+// Validates one result against the catalogue and turns it into an import row
+const toImportRow = (
+  line: number,
+  fields: { mrn: string; testCode: string; value: string; unit?: string; collectedAt: string | null },
+  errors: LabImportError[]
+): LabImportRow | null => {
+  const test = findLabTest(fields.testCode);
+  const value = Number(fields.value.trim());
+
+  if (!fields.mrn.trim()) {
+    errors.push({ line, message: 'Missing MRN' });
+  } else if (!test) {
+    errors.push({ line, message: `Unknown test code "${fields.testCode}"` });
+  } else if (!fields.value.trim() || !isFinite(value)) {
+    errors.push({ line, message: `${test.name} value "${fields.value}" is not a number` });
+  } else if (fields.unit && normalizeUnit(fields.unit) !== normalizeUnit(test.unit)) {
+    errors.push({ line, message: `${test.name} unit "${fields.unit}" does not match the catalogue unit ${test.unit}` });
+  } else if (!fields.collectedAt) {
+    errors.push({ line, message: 'Missing or invalid collection time' });
+  } else if (new Date(fields.collectedAt) > new Date()) {
+    errors.push({ line, message: 'Collection time is in the future' });
+  } else {
+    return { line, mrn: fields.mrn.trim(), testCode: test.code, value, collectedAt: fields.collectedAt };
+  }
+  return null;
+};
+
+const splitCsvLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === ',' && !quoted) {
+      cells.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current);
+  return cells;
+};
+
+export const parseLabCsv = (text: string, timeZone: string): LabImportParseResult => {
+  const lines = text.split(/\r\n|\r|\n/);
+  const headerIndex = lines.findIndex(line => line.trim() !== '');
+  if (headerIndex === -1) {
+    return { rows: [], errors: [{ line: 1, message: 'The file is empty' }] };
+  }
+
+  const header = splitCsvLine(lines[headerIndex]).map(column => column.trim().toLowerCase());
+  const missing = CSV_REQUIRED_COLUMNS.filter(column => !header.includes(column));
+  if (missing.length > 0) {
+    return { rows: [], errors: [{ line: headerIndex + 1, message: `Missing column${missing.length === 1 ? '' : 's'}: ${missing.join(', ')}` }] };
+  }
+
+  const column = (cells: string[], name: string) => cells[header.indexOf(name)] ?? '';
+  const rows: LabImportRow[] = [];
+  const errors: LabImportError[] = [];
+
+  lines.slice(headerIndex + 1).forEach((line, index) => {
+    if (!line.trim()) return;
+    const cells = splitCsvLine(line);
+    const row = toImportRow(headerIndex + index + 2, {
+      mrn: column(cells, 'mrn'),
+      testCode: column(cells, 'test_code'),
+      value: column(cells, 'value'),
+      unit: header.includes('unit') ? column(cells, 'unit') : undefined,
+      collectedAt: parseCollectedAt(column(cells, 'collected_at'), timeZone)
+    }, errors);
+    if (row) rows.push(row);
+  });
+
+  return { rows, errors };
+};
+
+// Reads the PID, OBR and OBX segments of one or more ORU^R01 messages
+export const parseHl7Oru = (text: string, timeZone: string): LabImportParseResult => {
+  const segments = text.split(/\r\n|\r|\n/);
+  const rows: LabImportRow[] = [];
+  const errors: LabImportError[] = [];
+  let fieldSeparator = '|';
+  let componentSeparator = '^';
+  let mrn = '';
+  let requestCollectedAt: string | null = null;
+
+  segments.forEach((segment, index) => {
+    const line = index + 1;
+    if (!segment.trim()) return;
+
+    if (segment.startsWith('MSH')) {
+      fieldSeparator = segment[3];
+      componentSeparator = segment[4] || '^';
+      mrn = '';
+      requestCollectedAt = null;
+      return;
+    }
+
+    const fields = segment.split(fieldSeparator);
+    const component = (field: number, position = 0) =>
+      (fields[field] ?? '').split('~')[0].split(componentSeparator)[position] ?? '';
+
+    switch (fields[0]) {
+      case 'PID':
+        mrn = component(3);
+        break;
+      case 'OBR':
+        requestCollectedAt = component(7) ? parseHl7Timestamp(component(7), timeZone) : null;
+        break;
+      case 'OBX': {
+        // Cancelled and deleted observations carry no result
+        const status = component(11);
+        if (status === 'X' || status === 'D') return;
+        if (component(2) !== 'NM') {
+          errors.push({ line, message: `Observation ${component(3)} is not numeric and was skipped` });
+          return;
+        }
+        const row = toImportRow(line, {
+          mrn,
+          testCode: component(3),
+          value: component(5),
+          unit: component(6) || undefined,
+          collectedAt: component(14) ? parseHl7Timestamp(component(14), timeZone) : requestCollectedAt
+        }, errors);
+        if (row) rows.push(row);
+        break;
+      }
+    }
+  });
+
+  if (rows.length === 0 && errors.length === 0) {
+    errors.push({ line: 1, message: 'No observations were found in the message' });
+  }
+
+  return { rows, errors };
+};
+
+export const parseLabFile = (
+  text: string,
+  timeZone: string
+): LabImportParseResult & { source: Exclude<LabResultSource, 'manual'> } =>
+  text.trimStart().startsWith('MSH')
+    ? { source: 'hl7', ...parseHl7Oru(text, timeZone) }
+    : { source: 'csv', ...parseLabCsv(text, timeZone) };
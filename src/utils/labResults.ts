@@ -0,0 +1,62 @@
+import { LAB_PANELS, LAB_TESTS } from '../config/labTests';
+import type { LabFlag, LabResult, LabTest } from '../types/lab';
+
+export const findLabTest = (code: string): LabTest | undefined => {
+  const normalized = code.trim().toUpperCase();
+  return LAB_TESTS.find(test => test.code === normalized);
+};
+
+export const getLabFlag = (
+  test: Pick<LabTest, 'low' | 'high' | 'criticalLow' | 'criticalHigh'>,
+  value: number
+): LabFlag => {
+  if (test.criticalLow !== undefined && value <= test.criticalLow) return 'critical_low';
+  if (test.criticalHigh !== undefined && value >= test.criticalHigh) return 'critical_high';
+  if (test.low !== null && value < test.low) return 'low';
+  if (test.high !== null && value > test.high) return 'high';
+  return 'normal';
+};
+
+export const isCriticalFlag = (flag: LabFlag): boolean =>
+  flag === 'critical_low' || flag === 'critical_high';
+
+export const formatReferenceRange = (low: number | null, high: number | null): string => {
+  if (low !== null && high !== null) return `${low}–${high}`;
+  if (low !== null) return `> ${low}`;
+  if (high !== null) return `< ${high}`;
+  return '';
+};
+
+export interface CumulativeGrid {
+  // Collection times, newest first
+  columns: string[];
+  panels: Array<{
+    panel: string;
+    rows: Array<{ test: LabTest; cells: Record<string, LabResult> }>;
+  }>;
+}
+
+// Arranges results as one row per test and one column per collection time,
+// grouped by panel in catalogue order; tests without results are left out
+export const buildCumulativeGrid = (results: LabResult[], maxColumns?: number): CumulativeGrid => {
+  const allColumns = Array.from(new Set(results.map(result => result.collected_at)))
+    .sort((a, b) => new Date(b).getTime() - new Date(a).getTime());
+  const columns = maxColumns ? allColumns.slice(0, maxColumns) : allColumns;
+
+  const panels = LAB_PANELS
+    .map(panel => ({
+      panel,
+      rows: LAB_TESTS
+        .filter(test => test.panel === panel)
+        .map(test => ({
+          test,
+          cells: results
+            .filter(result => result.test_code === test.code && columns.includes(result.collected_at))
+            .reduce((cells, result) => ({ ...cells, [result.collected_at]: result }), {} as Record<string, LabResult>)
+        }))
+        .filter(row => Object.keys(row.cells).length > 0)
+    }))
+    .filter(group => group.rows.length > 0);
+
+  return { columns, panels };
+};
@@ -0,0 +1,82 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { fromHospitalInput, formatInHospitalTime } from './hospitalTime';
+import { MAR_OVERDUE_GRACE_MINUTES, MEDICATION_SCHEDULES } from '../config/medications';
+import type { MarDose, MarRow, MedicationAdministration, MedicationOrder } from '../types/medication';
+
+// The order stops at whichever comes first of its stop time and its discontinuation
+export const getOrderEnd = (order: MedicationOrder): Date | null => {
+  const ends = [order.stop_at, order.discontinued_at]
+    .filter((value): value is string => value !== null)
+    .map(value => new Date(value).getTime());
+  return ends.length > 0 ? new Date(Math.min(...ends)) : null;
+};
+
+// Due times of a scheduled order falling in [start, end)
+export const getDueTimes = (order: MedicationOrder, start: Date, end: Date, timeZone: string): Date[] => {
+  if (order.is_prn) return [];
+
+  const orderStart = new Date(order.start_at);
+  const orderEnd = getOrderEnd(order);
+  const isDue = (time: Date) =>
+    time >= start && time < end && time >= orderStart && (orderEnd === null || time < orderEnd);
+
+  if (order.frequency === 'once') {
+    return isDue(orderStart) ? [orderStart] : [];
+  }
+
+  const dueTimes: Date[] = [];
+  const lastDay = formatInHospitalTime(end, 'yyyy-MM-dd', timeZone);
+  let day = formatInHospitalTime(start, 'yyyy-MM-dd', timeZone);
+
+  while (day <= lastDay) {
+    MEDICATION_SCHEDULES[order.frequency].forEach(time => {
+      const dueAt = new Date(fromHospitalInput(`${day}T${time}`, timeZone));
+      if (isDue(dueAt)) dueTimes.push(dueAt);
+    });
+    day = format(addDays(parseISO(day), 1), 'yyyy-MM-dd');
+  }
+
+  return dueTimes;
+};
+
+export const isDoseOverdue = (
+  scheduledAt: Date,
+  administration: MedicationAdministration | undefined,
+  now: Date = new Date()
+): boolean =>
+  !administration && scheduledAt.getTime() + MAR_OVERDUE_GRACE_MINUTES * 60 * 1000 < now.getTime();
+
+export const buildMarRows = (
+  orders: MedicationOrder[],
+  administrations: MedicationAdministration[],
+  start: Date,
+  end: Date,
+  timeZone: string,
+  now: Date = new Date()
+): MarRow[] =>
+  orders
+    .map(order => {
+      const orderAdministrations = administrations.filter(administration => administration.order_id === order.id);
+      const doses: MarDose[] = getDueTimes(order, start, end, timeZone).map(dueAt => {
+        const administration = orderAdministrations.find(item =>
+          item.scheduled_at !== null && new Date(item.scheduled_at).getTime() === dueAt.getTime()
+        );
+        return {
+          scheduledAt: dueAt.toISOString(),
+          administration,
+          overdue: isDoseOverdue(dueAt, administration, now)
+        };
+      });
+      const prnAdministrations = orderAdministrations.filter(item => {
+        const administeredAt = new Date(item.administered_at);
+        return item.scheduled_at === null && administeredAt >= start && administeredAt < end;
+      });
+
+      return { order, doses, prnAdministrations };
+    })
+    // Orders with nothing due or given in the window are left off the chart
+    .filter(row => row.doses.length > 0 || row.prnAdministrations.length > 0 || (
+      row.order.is_prn &&
+      new Date(row.order.start_at) < end &&
+      (getOrderEnd(row.order) ?? end) >= start
+    ));
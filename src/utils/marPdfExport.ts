@@ -0,0 +1,116 @@
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { format, parseISO } from 'date-fns';
+import { formatInHospitalTime } from './hospitalTime';
+import { ADMINISTRATION_STATUS_LABELS, MEDICATION_FREQUENCY_LABELS, MEDICATION_ROUTE_LABELS } from '../config/medications';
+import type { MarRow, MedicationAdministration } from '../types/medication';
+
+interface MarExportOptions {
+  patient: {
+    name: string;
+    mrn: string;
+    department?: string;
+  };
+  rows: MarRow[];
+  // Hospital day the sheet covers, YYYY-MM-DD
+  date: string;
+  timeZone: string;
+}
+
+const describeAdministration = (administration: MedicationAdministration, timeZone: string) => [
+  ADMINISTRATION_STATUS_LABELS[administration.status],
+  formatInHospitalTime(administration.administered_at, 'HH:mm', timeZone),
+  administration.recorder?.name || '',
+  administration.reason || ''
+];
+
+export const exportMarPdf = ({ patient, rows, date, timeZone }: MarExportOptions): void => {
+  try {
+    const doc = new jsPDF({ orientation: 'landscape' });
+    const pageWidth = doc.internal.pageSize.width;
+    let currentY = 15;
+
+    // Add header
+    doc.setFontSize(20);
+    doc.text('Medication Administration Record', pageWidth / 2, currentY, { align: 'center' });
+
+    currentY += 10;
+    doc.setFontSize(12);
+    doc.text(
+      `${patient.name} · MRN ${patient.mrn}${patient.department ? ` · ${patient.department}` : ''}`,
+      pageWidth / 2,
+      currentY,
+      { align: 'center' }
+    );
+
+    currentY += 7;
+    doc.text(
+      `24 hours from ${format(parseISO(date), 'dd/MM/yyyy')} 00:00 (${timeZone}) · Generated on: ${format(new Date(), 'dd/MM/yyyy HH:mm')}`,
+      pageWidth / 2,
+      currentY,
+      { align: 'center' }
+    );
+
+    currentY += 10;
+
+    if (rows.length > 0) {
+      // One line per due dose or PRN dose; the order details are printed on its first line
+      const body = rows.flatMap(({ order, doses, prnAdministrations }) => {
+        const orderCells = [
+          `${order.drug_name} ${order.dose}`,
+          `${MEDICATION_ROUTE_LABELS[order.route]}, ${MEDICATION_FREQUENCY_LABELS[order.frequency]}${order.is_prn ? ` PRN (${order.prn_indication})` : ''}`,
+          order.prescriber?.name || ''
+        ];
+        const lines = [
+          ...doses.map(dose => [
+            formatInHospitalTime(dose.scheduledAt, 'HH:mm', timeZone),
+            ...(dose.administration
+              ? describeAdministration(dose.administration, timeZone)
+              : [dose.overdue ? 'OVERDUE' : 'Due', '', '', ''])
+          ]),
+          ...prnAdministrations.map(administration => ['PRN', ...describeAdministration(administration, timeZone)])
+        ];
+        if (lines.length === 0) {
+          lines.push(['PRN', 'None given', '', '', '']);
+        }
+
+        return lines.map((line, index) => [...(index === 0 ? orderCells : ['', '', '']), ...line]);
+      });
+
+      autoTable(doc, {
+        startY: currentY,
+        head: [['Medication', 'Route / Frequency', 'Prescriber', 'Due', 'Outcome', 'Time', 'Recorded By', 'Reason']],
+        body,
+        styles: { fontSize: 9 },
+        headStyles: { fillColor: [79, 70, 229] },
+        didParseCell: (data) => {
+          if (data.section === 'body' && data.column.index === 4 && data.cell.raw === 'OVERDUE') {
+            data.cell.styles.textColor = [220, 38, 38];
+            data.cell.styles.fontStyle = 'bold';
+          }
+        }
+      });
+    } else {
+      doc.setFontSize(10);
+      doc.text('No medications were due or given during this period.', 14, currentY);
+    }
+
+    // Add footer with page numbers
+    const pageCount = (doc as any).internal.getNumberOfPages();
+    for (let i = 1; i <= pageCount; i++) {
+      doc.setPage(i);
+      doc.setFontSize(10);
+      doc.text(
+        `Page ${i} of ${pageCount}`,
+        pageWidth / 2,
+        doc.internal.pageSize.height - 10,
+        { align: 'center' }
+      );
+    }
+
+    doc.save(`mar-${patient.mrn}-${date}.pdf`);
+  } catch (error) {
+    console.error('Error generating MAR:', error);
+    throw new Error('Failed to generate MAR');
+  }
+};
@@ -0,0 +1,20 @@
+import type { MedicationOrder, MedicationOrderStatus } from '../types/medication';
+
+export const getOrderStatus = (order: MedicationOrder, now: Date = new Date()): MedicationOrderStatus => {
+  if (order.discontinued_at) return 'discontinued';
+  if (order.stop_at && new Date(order.stop_at) <= now) return 'stopped';
+  if (new Date(order.start_at) > now) return 'scheduled';
+  return 'active';
+};
+
+export const isCurrentOrder = (order: MedicationOrder, now: Date = new Date()): boolean => {
+  const status = getOrderStatus(order, now);
+  return status === 'active' || status === 'scheduled';
+};
+
+// Current orders first, each group newest first
+export const sortOrders = (orders: MedicationOrder[], now: Date = new Date()): MedicationOrder[] =>
+  [...orders].sort((a, b) =>
+    Number(isCurrentOrder(b, now)) - Number(isCurrentOrder(a, now)) ||
+    new Date(b.start_at).getTime() - new Date(a.start_at).getTime()
+  );
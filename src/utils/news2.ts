@@ -0,0 +1,56 @@
+import { NEWS2_ESCALATION_SCORE } from '../config/vitals';
+import type { News2Parameter, News2Result, News2Risk, VitalSignsInput } from '../types/vitals';
+
+// Each band is [upper bound inclusive, score]; values above the last bound score the final entry
+type Bands = Array<[number, number]>;
+
+const RESPIRATORY_RATE_BANDS: Bands = [[8, 3], [11, 1], [20, 0], [24, 2], [Infinity, 3]];
+// SpO2 scale 1; scale 2 for hypercapnic respiratory failure is not supported
+const SPO2_BANDS: Bands = [[91, 3], [93, 2], [95, 1], [Infinity, 0]];
+const SYSTOLIC_BP_BANDS: Bands = [[90, 3], [100, 2], [110, 1], [219, 0], [Infinity, 3]];
+const HEART_RATE_BANDS: Bands = [[40, 3], [50, 1], [90, 0], [110, 1], [130, 2], [Infinity, 3]];
+const TEMPERATURE_BANDS: Bands = [[35.0, 3], [36.0, 1], [38.0, 0], [39.0, 1], [Infinity, 2]];
+
+const scoreBands = (value: number, bands: Bands): number =>
+  bands.find(([upper]) => value <= upper)![1];
+
+const getRisk = (score: number, parameterScores: Partial<Record<News2Parameter, number>>): News2Risk => {
+  if (score >= 7) return 'high';
+  if (score >= NEWS2_ESCALATION_SCORE) return 'medium';
+  if (Object.values(parameterScores).some(value => value === 3)) return 'low_medium';
+  return 'low';
+};
+
+export const calculateNews2 = (vitals: VitalSignsInput): News2Result => {
+  const parameterScores: Partial<Record<News2Parameter, number>> = {
+    oxygen: vitals.o2_device === 'room_air' ? 0 : 2,
+    consciousness: vitals.consciousness === 'alert' ? 0 : 3
+  };
+
+  if (vitals.respiratory_rate !== null) {
+    parameterScores.respiratory_rate = scoreBands(vitals.respiratory_rate, RESPIRATORY_RATE_BANDS);
+  }
+  if (vitals.spo2 !== null) {
+    parameterScores.spo2 = scoreBands(vitals.spo2, SPO2_BANDS);
+  }
+  if (vitals.systolic_bp !== null) {
+    parameterScores.systolic_bp = scoreBands(vitals.systolic_bp, SYSTOLIC_BP_BANDS);
+  }
+  if (vitals.heart_rate !== null) {
+    parameterScores.heart_rate = scoreBands(vitals.heart_rate, HEART_RATE_BANDS);
+  }
+  if (vitals.temperature !== null) {
+    parameterScores.temperature = scoreBands(vitals.temperature, TEMPERATURE_BANDS);
+  }
+
+  const score = Object.values(parameterScores).reduce((sum, value) => sum + (value ?? 0), 0);
+  const risk = getRisk(score, parameterScores);
+
+  return {
+    score,
+    parameterScores,
+    risk,
+    complete: Object.keys(parameterScores).length === 7,
+    escalate: risk !== 'low'
+  };
+};
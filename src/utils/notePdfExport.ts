@@ -0,0 +1,111 @@
+import jsPDF from 'jspdf';
+import { format } from 'date-fns';
+import { formatDateTime } from './dateFormat';
+import { getNoteSections } from './noteTemplates';
+import type { MedicalNote } from '../types/note';
+
+const MARGIN = 14;
+const LINE_HEIGHT = 5;
+
+export const exportNotePdf = (patient: { name: string; mrn: string }, note: MedicalNote): void => {
+  try {
+    const doc = new jsPDF();
+    const pageWidth = doc.internal.pageSize.width;
+    const pageHeight = doc.internal.pageSize.height;
+    let currentY = 15;
+
+    // Starts a new page when the next block would run into the footer
+    const ensureSpace = (height: number) => {
+      if (currentY + height > pageHeight - 20) {
+        doc.addPage();
+        currentY = 15;
+      }
+    };
+
+    // Add header
+    doc.setFontSize(20);
+    doc.text(note.note_type, pageWidth / 2, currentY, { align: 'center' });
+
+    currentY += 10;
+    doc.setFontSize(12);
+    doc.text(`${patient.name} · MRN ${patient.mrn}`, pageWidth / 2, currentY, { align: 'center' });
+
+    currentY += 7;
+    doc.text(
+      `Written by ${note.doctor_name} on ${formatDateTime(note.created_at)}`,
+      pageWidth / 2,
+      currentY,
+      { align: 'center' }
+    );
+
+    currentY += 7;
+    doc.text(
+      note.status === 'signed' && note.signed_at
+        ? `Signed by ${note.signer?.name ?? note.doctor_name} on ${formatDateTime(note.signed_at)}`
+        : 'DRAFT - not signed',
+      pageWidth / 2,
+      currentY,
+      { align: 'center' }
+    );
+
+    if (note.cosign_status === 'pending' || (note.cosign_status === 'cosigned' && note.cosigned_at)) {
+      currentY += 7;
+      doc.text(
+        note.cosign_status === 'cosigned' && note.cosigned_at
+          ? `Co-signed by ${note.cosigner?.name ?? 'supervising doctor'} on ${formatDateTime(note.cosigned_at)}`
+          : `Awaiting co-signature from ${note.cosigner?.name ?? 'supervising doctor'}`,
+        pageWidth / 2,
+        currentY,
+        { align: 'center' }
+      );
+    }
+
+    currentY += 12;
+
+    const addBlock = (heading: string, text: string) => {
+      if (heading) {
+        ensureSpace(LINE_HEIGHT * 2);
+        doc.setFont('helvetica', 'bold');
+        doc.setFontSize(12);
+        doc.text(heading, MARGIN, currentY);
+        currentY += LINE_HEIGHT + 1;
+      }
+
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(10);
+      const lines: string[] = doc.splitTextToSize(text, pageWidth - MARGIN * 2);
+      lines.forEach(line => {
+        ensureSpace(LINE_HEIGHT);
+        doc.text(line, MARGIN, currentY);
+        currentY += LINE_HEIGHT;
+      });
+
+      currentY += LINE_HEIGHT;
+    };
+
+    getNoteSections(note).forEach(section => addBlock(section.label, section.content));
+
+    (note.addenda || []).forEach(entry => addBlock(
+      `Addendum by ${entry.author?.name ?? 'Unknown'} on ${formatDateTime(entry.created_at)}`,
+      entry.content
+    ));
+
+    // Add footer with page numbers
+    const pageCount = (doc as any).internal.getNumberOfPages();
+    for (let i = 1; i <= pageCount; i++) {
+      doc.setPage(i);
+      doc.setFontSize(10);
+      doc.text(
+        `Page ${i} of ${pageCount}`,
+        pageWidth / 2,
+        pageHeight - 10,
+        { align: 'center' }
+      );
+    }
+
+    doc.save(`note-${patient.mrn}-${format(new Date(note.created_at), 'yyyyMMdd-HHmm')}.pdf`);
+  } catch (error) {
+    console.error('Error generating note PDF:', error);
+    throw new Error('Failed to generate note PDF');
+  }
+};
@@ -0,0 +1,86 @@
+import { DEFAULT_NOTE_TEMPLATES } from '../config/noteTemplates';
+import type { FormErrors } from '../types/formErrors';
+import type { MedicalNote, NoteSection, NoteTemplate, NoteTemplateSection, NoteType } from '../types/note';
+
+export const getTemplateSections = (
+  templates: Partial<Record<NoteType, NoteTemplate>>,
+  noteType: NoteType
+): NoteTemplateSection[] => templates[noteType]?.sections ?? DEFAULT_NOTE_TEMPLATES[noteType];
+
+// Stable identifier for a section derived from its label
+export const toSectionKey = (label: string) =>
+  label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+export const sectionErrorKey = (key: string) => `section_${key}`;
+
+export const validateNoteSections = (
+  templateSections: NoteTemplateSection[],
+  values: Record<string, string>
+): FormErrors => {
+  const errors: FormErrors = {};
+  templateSections.forEach(section => {
+    if (section.required && !values[section.key]?.trim()) {
+      errors[sectionErrorKey(section.key)] = `${section.label} is required`;
+    }
+  });
+  if (Object.keys(errors).length === 0 && templateSections.every(section => !values[section.key]?.trim())) {
+    errors.general = 'The note is empty';
+  }
+  return errors;
+};
+
+// Sections left blank are not written into the note
+export const buildNoteSections = (
+  templateSections: NoteTemplateSection[],
+  values: Record<string, string>
+): NoteSection[] =>
+  templateSections
+    .filter(section => values[section.key]?.trim())
+    .map(section => ({ key: section.key, label: section.label, content: values[section.key].trim() }));
+
+// Plain-text rendering kept in medical_notes.content for search and older readers
+export const renderNoteContent = (sections: NoteSection[]) =>
+  sections.map(section => `${section.label}:\n${section.content}`).join('\n\n');
+
+export const getNoteSections = (note: Pick<MedicalNote, 'content' | 'sections'>): NoteSection[] =>
+  note.sections && note.sections.length > 0
+    ? note.sections
+    : [{ key: 'content', label: '', content: note.content }];
+
+// Returns the problems with an edited template, keyed by section index
+export const validateTemplateSections = (sections: NoteTemplateSection[]): FormErrors => {
+  const errors: FormErrors = {};
+  if (sections.length === 0) {
+    errors.general = 'A template needs at least one section';
+    return errors;
+  }
+
+  const seen = new Set<string>();
+  sections.forEach((section, index) => {
+    const key = toSectionKey(section.label);
+    if (!key) {
+      errors[`label_${index}`] = 'Please enter a section name';
+    } else if (seen.has(key)) {
+      errors[`label_${index}`] = 'Another section has the same name';
+    }
+    seen.add(key);
+  });
+  return errors;
+};
+
+// Existing sections keep their key so a renamed section still lines up with
+// what is being typed; new sections get one from their label
+export const assignSectionKeys = (sections: NoteTemplateSection[]): NoteTemplateSection[] => {
+  const used = new Set(sections.map(section => section.key).filter(Boolean));
+  return sections.map(section => {
+    if (section.key) return { ...section, label: section.label.trim() };
+
+    const base = toSectionKey(section.label);
+    let key = base;
+    for (let suffix = 2; used.has(key); suffix++) {
+      key = `${base}_${suffix}`;
+    }
+    used.add(key);
+    return { ...section, key, label: section.label.trim() };
+  });
+};
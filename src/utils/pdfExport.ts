@@ -1,6 +1,7 @@
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import { format } from 'date-fns';
+import { formatDateTime } from './dateFormat';
 import type { Patient } from '../types/patient';
 import type { Consultation } from '../types/consultation';
 import type { Appointment } from '../types/appointment';
@@ -57,7 +58,7 @@ export const exportToPDF = ({ patients, consultations, appointments, activeTab,
             patient.name,
             patient.mrn,
             patient.department || 'N/A',
-            patient.admission_date ? format(new Date(patient.admission_date), 'dd/MM/yyyy') : 'N/A',
+            patient.admission_date ? formatDateTime(patient.admission_date) : 'N/A',
             patient.doctor_name || 'Not assigned',
             patient.admissions?.[0]?.safety_type || 'N/A'
           ]),
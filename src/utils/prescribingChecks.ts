@@ -0,0 +1,148 @@
+import {
+  CROSS_SENSITIVITIES,
+  DRUG_CLASSES,
+  DRUG_INTERACTIONS,
+  FORMULARY,
+  HARD_STOP_INTERACTIONS,
+  INTERACTION_SEVERITY_LABELS
+} from '../config/formulary';
+import { ALLERGY_SEVERITY_LABELS } from '../config/allergies';
+import { isCurrentOrder } from './medicationOrders';
+import type { PatientAllergy } from '../types/allergy';
+import type { DrugInteraction, FormularyDrug, InteractionSeverity, SafetyAlert } from '../types/formulary';
+import type { MedicationOrder } from '../types/medication';
+
+const INTERACTION_RANK: Record<InteractionSeverity, number> = {
+  minor: 0,
+  moderate: 1,
+  major: 2,
+  contraindicated: 3
+};
+
+const normalizeName = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const getClassLabel = (classId: string) =>
+  DRUG_CLASSES.find(drugClass => drugClass.id === classId)?.label ?? classId;
+
+export const findFormularyDrug = (name: string): FormularyDrug | undefined => {
+  const normalized = normalizeName(name);
+  if (!normalized) return undefined;
+  return FORMULARY.find(drug =>
+    normalizeName(drug.name) === normalized ||
+    drug.aliases?.some(alias => normalizeName(alias) === normalized)
+  );
+};
+
+// Classes an allergy covers: those named directly ("penicillin") and, for an
+// allergy to a single drug, the classes whose members share the reaction
+const getAllergyClasses = (substance: string): string[] => {
+  const normalized = normalizeName(substance);
+  const allergyDrug = findFormularyDrug(substance);
+
+  return DRUG_CLASSES
+    .filter(drugClass => drugClass.allergyTerms.length > 0 && (
+      drugClass.allergyTerms.includes(normalized) ||
+      allergyDrug?.classes.includes(drugClass.id)
+    ))
+    .map(drugClass => drugClass.id);
+};
+
+const describeAllergy = (allergy: PatientAllergy) =>
+  `${ALLERGY_SEVERITY_LABELS[allergy.severity].toLowerCase()} allergy to ${allergy.substance}${
+    allergy.reaction ? ` (${allergy.reaction})` : ''
+  }`;
+
+const checkAllergy = (drugName: string, drug: FormularyDrug | undefined, allergy: PatientAllergy): SafetyAlert | null => {
+  const allergyDrug = findFormularyDrug(allergy.substance);
+  const sameDrug = normalizeName(allergy.substance) === normalizeName(drugName) ||
+    (drug !== undefined && allergyDrug === drug);
+
+  if (sameDrug) {
+    return {
+      type: 'allergy',
+      severity: allergy.severity,
+      hardStop: true,
+      with: allergy.substance,
+      message: `Recorded ${describeAllergy(allergy)}`
+    };
+  }
+  if (!drug) return null;
+
+  const allergyClasses = getAllergyClasses(allergy.substance);
+  const sharedClass = drug.classes.find(classId => allergyClasses.includes(classId));
+  if (sharedClass) {
+    return {
+      type: 'allergy',
+      severity: allergy.severity,
+      hardStop: true,
+      with: allergy.substance,
+      message: `${drug.name} belongs to the ${getClassLabel(sharedClass)}; recorded ${describeAllergy(allergy)}`
+    };
+  }
+
+  const crossClass = CROSS_SENSITIVITIES.find(([from, to]) =>
+    allergyClasses.includes(from) && drug.classes.includes(to)
+  );
+  if (crossClass) {
+    return {
+      type: 'cross_sensitivity',
+      severity: allergy.severity,
+      hardStop: false,
+      with: allergy.substance,
+      message: `Possible cross-sensitivity between ${getClassLabel(crossClass[0])} and ${getClassLabel(crossClass[1])}; recorded ${describeAllergy(allergy)}`
+    };
+  }
+
+  return null;
+};
+
+const matchesTerm = (drug: FormularyDrug, term: string) => drug.name === term || drug.classes.includes(term);
+
+// The most severe interaction listed between two formulary drugs
+const findInteraction = (drug: FormularyDrug, other: FormularyDrug): DrugInteraction | undefined =>
+  DRUG_INTERACTIONS
+    .filter(({ between: [a, b] }) =>
+      (matchesTerm(drug, a) && matchesTerm(other, b)) || (matchesTerm(drug, b) && matchesTerm(other, a))
+    )
+    .sort((a, b) => INTERACTION_RANK[b.severity] - INTERACTION_RANK[a.severity])[0];
+
+// Checks a new prescription against the patient's recorded allergies and the
+// orders still running or due to start. Hard stops are listed first.
+export const checkPrescription = (
+  drugName: string,
+  allergies: PatientAllergy[],
+  orders: MedicationOrder[],
+  now: Date = new Date()
+): SafetyAlert[] => {
+  if (!drugName.trim()) return [];
+
+  const drug = findFormularyDrug(drugName);
+  const alerts: SafetyAlert[] = allergies
+    .filter(allergy => !allergy.removed_at)
+    .map(allergy => checkAllergy(drugName, drug, allergy))
+    .filter((alert): alert is SafetyAlert => alert !== null);
+
+  if (drug) {
+    const checked = new Set<string>();
+    orders
+      .filter(order => isCurrentOrder(order, now))
+      .forEach(order => {
+        const other = findFormularyDrug(order.drug_name);
+        if (!other || other === drug || checked.has(other.name)) return;
+        checked.add(other.name);
+
+        const interaction = findInteraction(drug, other);
+        if (interaction) {
+          alerts.push({
+            type: 'interaction',
+            severity: interaction.severity,
+            hardStop: HARD_STOP_INTERACTIONS.includes(interaction.severity),
+            with: order.drug_name,
+            message: `${INTERACTION_SEVERITY_LABELS[interaction.severity]} interaction with ${order.drug_name}: ${interaction.effect}`
+          });
+        }
+      });
+  }
+
+  return alerts.sort((a, b) => Number(b.hardStop) - Number(a.hardStop));
+};
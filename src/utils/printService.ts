@@ -1,4 +1,10 @@
 import { format } from 'date-fns';
+import { formatDateTime } from './dateFormat';
+import { ALLERGY_SEVERITY_LABELS } from '../config/allergies';
+import type { AdmissionDiagnosis, DiagnosisStage } from '../types/diagnosis';
+import type { PatientAllergy } from '../types/allergy';
+import type { MedicalNote } from '../types/note';
+import { getNoteSections } from './noteTemplates';
 
 interface PrintablePatient {
   name: string;
@@ -7,12 +13,16 @@ interface PrintablePatient {
   doctor_name?: string;
   admission_date?: string;
   diagnosis?: string;
+  // Left undefined when the allergy list was not loaded
+  allergies?: PatientAllergy[];
   admissions?: Array<{
     status: string;
     admission_date: string;
     discharge_date?: string | null;
     department: string;
     diagnosis: string;
+    final_diagnosis?: string | null;
+    diagnoses?: AdmissionDiagnosis[];
     visit_number: number;
     safety_type?: string | null;
     users?: {
@@ -21,7 +31,23 @@ interface PrintablePatient {
   }>;
 }
 
-export const printPatientProfile = (patient: PrintablePatient) => {
+const formatCodes = (diagnoses: AdmissionDiagnosis[] = [], stage: DiagnosisStage) =>
+  diagnoses
+    .filter(diagnosis => diagnosis.stage === stage)
+    .sort((a, b) => Number(b.is_primary) - Number(a.is_primary))
+    .map(diagnosis => `${diagnosis.code} ${diagnosis.description}${diagnosis.is_primary ? ' (primary)' : ''}`)
+    .join('<br/>');
+
+// Note text is free text typed by clinicians
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Prints the given markup on its own, hiding the rest of the page
+const printDocument = (content: string) => {
   // Store current scroll position
   const scrollPos = window.scrollY;
 
@@ -54,7 +80,31 @@ export const printPatientProfile = (patient: PrintablePatient) => {
       }
     }
   `;
-  
+
+  printContainer.innerHTML = content;
+
+  // Add elements to document
+  document.head.appendChild(style);
+  document.body.appendChild(printContainer);
+
+  // Print with a slight delay to ensure styles are applied
+  setTimeout(() => {
+    window.print();
+    
+    // Cleanup after print dialog closes
+    window.addEventListener('afterprint', () => {
+      if (document.head.contains(style)) {
+        document.head.removeChild(style);
+      }
+      if (document.body.contains(printContainer)) {
+        document.body.removeChild(printContainer);
+      }
+      window.scrollTo(0, scrollPos);
+    }, { once: true });
+  }, 100);
+};
+
+export const printPatientProfile = (patient: PrintablePatient) => {
   // Create content
   const content = `
     <div style="font-family: Arial, sans-serif; max-width: 800px; margin: 0 auto; padding: 20px;">
@@ -87,6 +137,22 @@ export const printPatientProfile = (patient: PrintablePatient) => {
         </table>
       </div>
 
+      ${patient.allergies ? `
+        <div style="margin-bottom: 30px; padding: 20px; border: 2px solid ${patient.allergies.length > 0 ? '#dc2626' : '#e5e7eb'}; border-radius: 8px;">
+          <h2 style="color: ${patient.allergies.length > 0 ? '#991b1b' : '#1f2937'}; margin: 0 0 15px 0;">Allergies</h2>
+          ${patient.allergies.length > 0 ? `
+            <table style="width: 100%; border-collapse: collapse;">
+              ${patient.allergies.map(allergy => `
+                <tr>
+                  <td style="padding: 4px 0; color: #991b1b; font-weight: bold; width: 200px;">${allergy.substance}</td>
+                  <td style="padding: 4px 0; color: #1f2937;">${ALLERGY_SEVERITY_LABELS[allergy.severity]}${allergy.reaction ? ` - ${allergy.reaction}` : ''}</td>
+                </tr>
+              `).join('')}
+            </table>
+          ` : `<p style="margin: 0; color: #6b7280;">No known allergies recorded</p>`}
+        </div>
+      ` : ''}
+
       ${patient.admissions && patient.admissions.length > 0 ? `
         <div style="margin-bottom: 30px; padding: 20px; border: 1px solid #e5e7eb; border-radius: 8px;">
           <h2 style="color: #1f2937; margin: 0 0 15px 0;">Admission History</h2>
@@ -112,12 +178,12 @@ export const printPatientProfile = (patient: PrintablePatient) => {
               <table style="width: 100%; border-collapse: collapse;">
                 <tr>
                   <td style="padding: 4px 0; color: #6b7280; width: 150px;">Admission Date:</td>
-                  <td style="padding: 4px 0; color: #1f2937;">${format(new Date(admission.admission_date), 'dd, MM, yyyy')}</td>
+                  <td style="padding: 4px 0; color: #1f2937;">${formatDateTime(admission.admission_date)}</td>
                 </tr>
                 ${admission.discharge_date ? `
                   <tr>
                     <td style="padding: 4px 0; color: #6b7280;">Discharge Date:</td>
-                    <td style="padding: 4px 0; color: #1f2937;">${format(new Date(admission.discharge_date), 'dd, MM, yyyy')}</td>
+                    <td style="padding: 4px 0; color: #1f2937;">${formatDateTime(admission.discharge_date)}</td>
                   </tr>
                 ` : ''}
                 <tr>
@@ -130,8 +196,20 @@ export const printPatientProfile = (patient: PrintablePatient) => {
                 </tr>
                 <tr>
                   <td style="padding: 4px 0; color: #6b7280;">Diagnosis:</td>
-                  <td style="padding: 4px 0; color: #1f2937;">${admission.diagnosis}</td>
+                  <td style="padding: 4px 0; color: #1f2937;">
+                    ${formatCodes(admission.diagnoses, 'admission')}
+                    <div style="color: #6b7280;">${admission.diagnosis}</div>
+                  </td>
                 </tr>
+                ${admission.diagnoses?.some(diagnosis => diagnosis.stage === 'discharge') || admission.final_diagnosis ? `
+                  <tr>
+                    <td style="padding: 4px 0; color: #6b7280;">Final Diagnosis:</td>
+                    <td style="padding: 4px 0; color: #1f2937;">
+                      ${formatCodes(admission.diagnoses, 'discharge')}
+                      ${admission.final_diagnosis ? `<div style="color: #6b7280;">${admission.final_diagnosis}</div>` : ''}
+                    </td>
+                  </tr>
+                ` : ''}
               </table>
             </div>
           `).join('')}
@@ -145,25 +223,70 @@ export const printPatientProfile = (patient: PrintablePatient) => {
     </div>
   `;
 
-  printContainer.innerHTML = content;
+  printDocument(content);
+};
 
-  // Add elements to document
-  document.head.appendChild(style);
-  document.body.appendChild(printContainer);
+export const printMedicalNote = (patient: { name: string; mrn: string }, note: MedicalNote) => {
+  const content = `
+    <div style="font-family: Arial, sans-serif; max-width: 800px; margin: 0 auto; padding: 20px;">
+      <div style="text-align: center; margin-bottom: 30px;">
+        <h1 style="color: #1e40af; margin: 0;">IMD-Care</h1>
+        <p style="color: #6b7280; margin: 5px 0;">Internal Medicine Department</p>
+        <p style="color: #6b7280; margin: 5px 0;">${note.note_type}</p>
+      </div>
 
-  // Print with a slight delay to ensure styles are applied
-  setTimeout(() => {
-    window.print();
-    
-    // Cleanup after print dialog closes
-    window.addEventListener('afterprint', () => {
-      if (document.head.contains(style)) {
-        document.head.removeChild(style);
-      }
-      if (document.body.contains(printContainer)) {
-        document.body.removeChild(printContainer);
-      }
-      window.scrollTo(0, scrollPos);
-    }, { once: true });
-  }, 100);
+      <div style="margin-bottom: 30px; padding: 20px; border: 1px solid #e5e7eb; border-radius: 8px;">
+        <table style="width: 100%; border-collapse: collapse;">
+          <tr>
+            <td style="padding: 4px 0; color: #6b7280; width: 150px;">Patient:</td>
+            <td style="padding: 4px 0; color: #1f2937;">${escapeHtml(patient.name)} (MRN ${escapeHtml(patient.mrn)})</td>
+          </tr>
+          <tr>
+            <td style="padding: 4px 0; color: #6b7280;">Written by:</td>
+            <td style="padding: 4px 0; color: #1f2937;">${escapeHtml(note.doctor_name)}</td>
+          </tr>
+          <tr>
+            <td style="padding: 4px 0; color: #6b7280;">Date:</td>
+            <td style="padding: 4px 0; color: #1f2937;">${formatDateTime(note.created_at)}</td>
+          </tr>
+          <tr>
+            <td style="padding: 4px 0; color: #6b7280;">Status:</td>
+            <td style="padding: 4px 0; color: #1f2937;">${note.status === 'signed' && note.signed_at
+              ? `Signed by ${escapeHtml(note.signer?.name ?? note.doctor_name)} on ${formatDateTime(note.signed_at)}`
+              : '<strong style="color: #b45309;">DRAFT - not signed</strong>'}</td>
+          </tr>
+          ${note.cosign_status === 'pending' || (note.cosign_status === 'cosigned' && note.cosigned_at) ? `
+          <tr>
+            <td style="padding: 4px 0; color: #6b7280;">Co-signature:</td>
+            <td style="padding: 4px 0; color: #1f2937;">${note.cosign_status === 'cosigned' && note.cosigned_at
+              ? `Co-signed by ${escapeHtml(note.cosigner?.name ?? 'supervising doctor')} on ${formatDateTime(note.cosigned_at)}`
+              : `Awaiting co-signature from ${escapeHtml(note.cosigner?.name ?? 'supervising doctor')}`}</td>
+          </tr>
+          ` : ''}
+        </table>
+      </div>
+
+      ${getNoteSections(note).map(section => `
+        <div style="margin-bottom: 20px;">
+          ${section.label ? `<h2 style="color: #1f2937; font-size: 16px; margin: 0 0 6px 0;">${escapeHtml(section.label)}</h2>` : ''}
+          <p style="color: #1f2937; margin: 0; white-space: pre-wrap;">${escapeHtml(section.content)}</p>
+        </div>
+      `).join('')}
+
+      ${(note.addenda || []).map(entry => `
+        <div style="margin-bottom: 20px; padding-left: 12px; border-left: 3px solid #c7d2fe;">
+          <h2 style="color: #1f2937; font-size: 14px; margin: 0 0 6px 0;">
+            Addendum by ${escapeHtml(entry.author?.name ?? 'Unknown')} on ${formatDateTime(entry.created_at)}
+          </h2>
+          <p style="color: #1f2937; margin: 0; white-space: pre-wrap;">${escapeHtml(entry.content)}</p>
+        </div>
+      `).join('')}
+
+      <div style="text-align: center; margin-top: 30px; color: #6b7280; font-size: 12px;">
+        <p>Generated by IMD-Care System on ${format(new Date(), 'dd, MM, yyyy HH:mm')}</p>
+      </div>
+    </div>
+  `;
+
+  printDocument(content);
 };
\ No newline at end of file
@@ -0,0 +1,138 @@
+import type { AdmissionErrorCode } from '../types/admission';
+import type { DischargeErrorCode } from '../types/discharge';
+import type { TransferErrorCode } from '../types/transfer';
+import type { BedErrorCode } from '../types/bed';
+import type { AdministrationErrorCode, MedicationErrorCode } from '../types/medication';
+import type { NoteErrorCode } from '../types/note';
+import type { PhraseErrorCode } from '../types/smartPhrase';
+
+interface ErrorMapping {
+  field: string;
+  message: string;
+}
+
+// Raised by stores when a database procedure rejects its input, carrying the form
+// field the failure belongs to so forms can show it inline
+export class ProcedureError extends Error {
+  readonly code: string;
+  readonly field: string;
+
+  constructor(code: string, { field, message }: ErrorMapping) {
+    super(message);
+    this.name = 'ProcedureError';
+    this.code = code;
+    this.field = field;
+  }
+}
+
+export const ADMISSION_ERRORS: Record<AdmissionErrorCode, ErrorMapping> = {
+  forbidden: { field: 'general', message: 'You do not have permission to admit patients' },
+  mrn_required: { field: 'mrn', message: 'MRN is required' },
+  name_required: { field: 'name', message: 'Patient name is required' },
+  invalid_date_of_birth: { field: 'age', message: 'Please enter a valid age between 0 and 150' },
+  invalid_gender: { field: 'gender', message: 'Please select a gender' },
+  department_required: { field: 'department', message: 'Department is required' },
+  diagnosis_required: { field: 'diagnosis', message: 'Diagnosis is required' },
+  primary_diagnosis_required: { field: 'diagnosisCodes', message: 'Please code exactly one primary diagnosis' },
+  invalid_diagnosis_code: { field: 'diagnosisCodes', message: 'One of the diagnosis codes is not a valid ICD-10 code' },
+  duplicate_diagnosis_code: { field: 'diagnosisCodes', message: 'Each diagnosis code can only be added once' },
+  invalid_admission_date: { field: 'admissionDate', message: 'Admission time cannot be in the future' },
+  doctor_not_found: { field: 'assignedDoctorId', message: 'The selected doctor is no longer active' },
+  doctor_department_mismatch: { field: 'assignedDoctorId', message: 'The selected doctor does not work in this department' },
+  active_admission_exists: { field: 'mrn', message: 'This patient already has an active admission' },
+  bed_not_available: { field: 'bedId', message: 'This bed has just been taken. Please choose another' },
+  shift_override_reason_required: { field: 'shiftOverrideReason', message: 'Please give a reason for overriding the shift' },
+  shift_mismatch: { field: 'general', message: 'The shift does not match the schedule for this admission time. Override it with a reason' }
+};
+
+export const DISCHARGE_ERRORS: Record<DischargeErrorCode, ErrorMapping> = {
+  forbidden: { field: 'general', message: 'You do not have permission to complete this discharge' },
+  admission_not_found: { field: 'general', message: 'The admission no longer exists' },
+  admission_not_active: { field: 'general', message: 'This patient has already been discharged' },
+  consultation_not_found: { field: 'general', message: 'The consultation no longer exists' },
+  consultation_not_active: { field: 'general', message: 'This consultation has already been completed' },
+  discharge_date_required: { field: 'discharge_date', message: 'Discharge date is required' },
+  invalid_discharge_date: { field: 'discharge_date', message: 'Discharge time cannot be in the future' },
+  discharge_before_admission: { field: 'discharge_date', message: 'Discharge time cannot be before the admission time' },
+  follow_up_date_required: { field: 'follow_up_date', message: 'Follow-up date is required when follow-up is enabled' },
+  follow_up_before_discharge: { field: 'follow_up_date', message: 'Follow-up date must be after discharge date' },
+  discharge_note_required: { field: 'discharge_note', message: 'Discharge note is required' },
+  final_primary_diagnosis_required: { field: 'final_diagnoses', message: 'Please mark one final diagnosis as primary' },
+  final_invalid_diagnosis_code: { field: 'final_diagnoses', message: 'One of the final diagnosis codes is not a valid ICD-10 code' },
+  final_duplicate_diagnosis_code: { field: 'final_diagnoses', message: 'Each final diagnosis code can only be added once' }
+};
+
+export const TRANSFER_ERRORS: Record<TransferErrorCode, ErrorMapping> = {
+  forbidden: { field: 'general', message: 'You do not have permission to transfer patients' },
+  admission_not_found: { field: 'general', message: 'The admission no longer exists' },
+  admission_not_active: { field: 'general', message: 'This admission is no longer active' },
+  department_required: { field: 'toDepartment', message: 'Receiving department is required' },
+  same_department: { field: 'toDepartment', message: 'The patient is already in this department' },
+  receiving_doctor_not_found: { field: 'receivingDoctorId', message: 'The selected doctor is no longer active' },
+  receiving_doctor_department_mismatch: { field: 'receivingDoctorId', message: 'The selected doctor does not work in the receiving department' },
+  reason_required: { field: 'reason', message: 'Transfer reason is required' },
+  invalid_transfer_time: { field: 'transferredAt', message: 'Transfer time must be between the admission time and now' }
+};
+
+export const BED_ERRORS: Record<BedErrorCode, ErrorMapping> = {
+  forbidden: { field: 'general', message: 'You do not have permission to manage beds' },
+  admission_not_active: { field: 'general', message: 'This admission is no longer active' },
+  bed_not_found: { field: 'general', message: 'The bed no longer exists' },
+  bed_not_available: { field: 'bedId', message: 'This bed is no longer free. Please choose another' },
+  bed_occupied: { field: 'general', message: 'An occupied bed cannot change status until the patient leaves it' },
+  invalid_status: { field: 'status', message: 'Please choose a valid bed status' },
+  reason_required: { field: 'reason', message: 'Please give a reason' }
+};
+
+export const MEDICATION_ERRORS: Record<MedicationErrorCode, ErrorMapping> = {
+  forbidden: { field: 'general', message: 'Only doctors can prescribe or discontinue medications' },
+  admission_not_found: { field: 'general', message: 'The admission no longer exists' },
+  admission_patient_mismatch: { field: 'general', message: 'This admission belongs to a different patient' },
+  admission_not_active: { field: 'general', message: 'Medications can only be prescribed during an active admission' },
+  drug_required: { field: 'drugName', message: 'Drug name is required' },
+  dose_required: { field: 'dose', message: 'Dose is required' },
+  invalid_route: { field: 'route', message: 'Please choose a valid route' },
+  invalid_frequency: { field: 'frequency', message: 'Please choose a valid frequency' },
+  prn_indication_required: { field: 'prnIndication', message: 'Please give the indication for an as-needed medication' },
+  start_required: { field: 'startAt', message: 'Start time is required' },
+  stop_before_start: { field: 'stopAt', message: 'Stop time must be after the start time' },
+  override_required: { field: 'overrideReason', message: 'Please document why you are overriding the safety alert' },
+  order_not_found: { field: 'general', message: 'The medication order no longer exists' },
+  order_not_active: { field: 'general', message: 'This medication order has already stopped' },
+  reason_required: { field: 'reason', message: 'Please give a reason for discontinuing' }
+};
+
+export const ADMINISTRATION_ERRORS: Record<AdministrationErrorCode, ErrorMapping> = {
+  forbidden: { field: 'general', message: 'You do not have permission to record medication administrations' },
+  order_not_found: { field: 'general', message: 'The medication order no longer exists' },
+  invalid_status: { field: 'status', message: 'Please choose what happened to the dose' },
+  reason_required: { field: 'reason', message: 'Please give a reason when a dose is not given' },
+  scheduled_time_required: { field: 'general', message: 'Please record this dose against its due time' },
+  dose_not_due: { field: 'administeredAt', message: 'The order was not running at this time' },
+  invalid_administration_time: { field: 'administeredAt', message: 'Administration time cannot be in the future' },
+  already_recorded: { field: 'general', message: 'This dose has already been recorded' }
+};
+
+export const NOTE_ERRORS: Record<NoteErrorCode, ErrorMapping> = {
+  forbidden: { field: 'general', message: 'You do not have permission to write medical notes' },
+  note_not_found: { field: 'general', message: 'The note no longer exists' },
+  note_signed: { field: 'general', message: 'This note has been signed. Add an addendum instead' },
+  note_not_signed: { field: 'general', message: 'Drafts can be edited directly until they are signed' },
+  not_author: { field: 'general', message: 'Only the author can edit or sign a draft note' },
+  content_required: { field: 'content', message: 'Please enter the text of the note' },
+  invalid_cosigner: { field: 'general', message: 'The co-signer must be another doctor who can co-sign notes' },
+  not_pending: { field: 'general', message: 'This note is no longer awaiting co-signature' },
+  not_cosigner: { field: 'general', message: 'This note was routed to another supervising doctor' },
+  comment_required: { field: 'comment', message: 'Please explain what needs to be changed' }
+};
+
+export const PHRASE_ERRORS: Record<PhraseErrorCode, ErrorMapping> = {
+  shortcut_taken: { field: 'shortcut', message: 'A phrase with this shortcut already exists' }
+};
+
+export const toFormErrors = (error: unknown, fallback: string): Record<string, string> => {
+  if (error instanceof ProcedureError) {
+    return { [error.field]: error.message };
+  }
+  return { general: error instanceof Error ? error.message : fallback };
+};
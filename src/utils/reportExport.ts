@@ -1,6 +1,8 @@
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import { format } from 'date-fns';
+import { calculateStayHours, formatStayDuration } from './stayCalculator';
+import { formatDateTime } from './dateFormat';
 import type { Patient } from '../types/patient';
 import type { Consultation } from '../types/consultation';
 import type { Appointment } from '../types/appointment';
@@ -194,17 +196,15 @@ export const exportLongStayReport = async (patients: Patient[], options: { speci
           const admission = patient.admissions?.[0];
           if (!admission) return [];
           
-          const stayDuration = Math.ceil(
-            (new Date().getTime() - new Date(admission.admission_date).getTime()) / (1000 * 60 * 60 * 24)
-          );
+          const stayDuration = formatStayDuration(calculateStayHours(admission.admission_date));
           
           return [
             patient.name,
             patient.mrn,
             admission.department,
             admission.admitting_doctor?.name || 'Not assigned',
-            format(new Date(admission.admission_date), 'dd/MM/yyyy'),
-            `${stayDuration} days`
+            formatDateTime(admission.admission_date),
+            stayDuration
           ];
         }),
         styles: { fontSize: 10 },
@@ -0,0 +1,84 @@
+import { addDays } from 'date-fns';
+import { toHospitalTime } from './hospitalTime';
+import { SHIFT_LABELS, WEEKDAY_SHIFTS, WEEKEND_SHIFTS } from '../config/shifts';
+import type { ShiftAssignment, ShiftSchedule, ShiftType, ShiftWindow } from '../types/settings';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const windowLength = ({ start, end }: ShiftWindow): number => {
+  const length = toMinutes(end) - toMinutes(start);
+  return length <= 0 ? length + MINUTES_PER_DAY : length;
+};
+
+export const isWeekendShift = (shiftType: ShiftType): boolean => shiftType.startsWith('weekend_');
+
+export const formatShiftWindow = (shiftType: ShiftType, schedule: ShiftSchedule): string => {
+  const { start, end } = schedule.windows[shiftType];
+  return `${SHIFT_LABELS[shiftType]} (${start} - ${end})`;
+};
+
+// A shift belongs to the day it starts on, so a night shift that begins on
+// Thursday evening stays a weekday shift after midnight. Windows are read in hospital time.
+export const deriveShift = (instant: string | Date, schedule: ShiftSchedule, timeZone: string): ShiftAssignment => {
+  const timestamp = toHospitalTime(instant, timeZone);
+  const minuteOfDay = timestamp.getHours() * 60 + timestamp.getMinutes();
+
+  for (const dayOffset of [0, -1]) {
+    const shiftDay = addDays(timestamp, dayOffset);
+    const isWeekend = schedule.weekend_days.includes(shiftDay.getDay());
+    const minutesSinceDayStart = minuteOfDay - dayOffset * MINUTES_PER_DAY;
+
+    const shiftType = (isWeekend ? WEEKEND_SHIFTS : WEEKDAY_SHIFTS).find(shift => {
+      const window = schedule.windows[shift];
+      const start = toMinutes(window.start);
+      return minutesSinceDayStart >= start && minutesSinceDayStart < start + windowLength(window);
+    });
+
+    if (shiftType) {
+      return { shiftType, isWeekend };
+    }
+  }
+
+  // Only reachable with a schedule that leaves gaps; validateShiftSchedule prevents saving one
+  const isWeekend = schedule.weekend_days.includes(timestamp.getDay());
+  return { shiftType: isWeekend ? 'weekend_morning' : 'morning', isWeekend };
+};
+
+// Each set of shifts must cover the whole day exactly once
+export const validateShiftSchedule = (schedule: ShiftSchedule): string | null => {
+  const timePattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+  for (const [label, shifts] of [['Weekday', WEEKDAY_SHIFTS], ['Weekend', WEEKEND_SHIFTS]] as const) {
+    const coverage = new Array<number>(MINUTES_PER_DAY).fill(0);
+
+    for (const shift of shifts) {
+      const window = schedule.windows[shift];
+      if (!timePattern.test(window.start) || !timePattern.test(window.end)) {
+        return `${SHIFT_LABELS[shift]} needs a start and end time`;
+      }
+
+      const start = toMinutes(window.start);
+      for (let minute = 0; minute < windowLength(window); minute++) {
+        coverage[(start + minute) % MINUTES_PER_DAY] += 1;
+      }
+    }
+
+    if (coverage.some(count => count > 1)) {
+      return `${label} shifts overlap`;
+    }
+    if (coverage.some(count => count === 0)) {
+      return `${label} shifts leave part of the day uncovered`;
+    }
+  }
+
+  if (schedule.weekend_days.length >= 7) {
+    return 'At least one day must be a weekday';
+  }
+
+  return null;
+};
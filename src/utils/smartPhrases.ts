@@ -0,0 +1,119 @@
+import { PHRASE_BLANK, PHRASE_PLACEHOLDERS, PHRASE_PREFIX } from '../config/smartPhrases';
+import { formatDate, getAgeFromDateOfBirth } from './dateFormat';
+import { calculateStayDuration } from './stayCalculator';
+import type { Patient } from '../types/patient';
+import type { PhraseContext, SmartPhrase, SmartPhraseInput } from '../types/smartPhrase';
+import type { FormErrors } from '../types/formErrors';
+
+const SHORTCUT_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+const PLACEHOLDER_PATTERN = /\{([a-z_]+)\}/g;
+// A shortcut is only expanded when it starts a word
+const TRAILING_SHORTCUT_PATTERN = /(^|\s)\.([a-z0-9][a-z0-9_-]*)$/;
+
+// Accepts the shortcut with or without its leading "."
+export const normalizeShortcut = (shortcut: string): string =>
+  shortcut.trim().replace(/^\.+/, '').toLowerCase();
+
+const formatStayDays = (days: number): string =>
+  `${days} day${days === 1 ? '' : 's'}`;
+
+// What a form knows about the patient being documented
+interface PatientDetails {
+  name?: string;
+  mrn?: string;
+  date_of_birth?: string;
+  age?: number;
+  gender?: string;
+  admission_date?: string;
+  discharge_date?: string | null;
+  diagnosis?: string | null;
+}
+
+export const buildPhraseContext = (details: PatientDetails, doctorName?: string): PhraseContext => {
+  const age = details.age ?? (details.date_of_birth ? getAgeFromDateOfBirth(details.date_of_birth) : undefined);
+  return {
+    name: details.name || undefined,
+    mrn: details.mrn || undefined,
+    age: age !== undefined ? `${age}` : undefined,
+    gender: details.gender || undefined,
+    admission_date: details.admission_date ? formatDate(details.admission_date) : undefined,
+    diagnosis: details.diagnosis || undefined,
+    length_of_stay: details.admission_date
+      ? formatStayDays(calculateStayDuration(details.admission_date, details.discharge_date))
+      : undefined,
+    today: formatDate(new Date()),
+    doctor: doctorName
+  };
+};
+
+// Uses the active admission, or the most recent one once the patient has left
+export const buildPatientContext = (patient: Patient | null, doctorName?: string): PhraseContext => {
+  if (!patient) return buildPhraseContext({}, doctorName);
+
+  const admissions = patient.admissions || [];
+  const admission = admissions.find(candidate => candidate.status === 'active')
+    ?? [...admissions].sort((a, b) => b.admission_date.localeCompare(a.admission_date))[0];
+
+  return buildPhraseContext({
+    name: patient.name,
+    mrn: patient.mrn,
+    date_of_birth: patient.date_of_birth,
+    gender: patient.gender,
+    admission_date: admission?.admission_date,
+    discharge_date: admission?.discharge_date,
+    diagnosis: admission?.final_diagnosis || admission?.diagnosis || patient.diagnosis
+  }, doctorName);
+};
+
+// Known placeholders without a value become a blank to fill in; anything else
+// in braces is ordinary text and kept as written
+export const expandPhrase = (body: string, context: PhraseContext): string =>
+  body.replace(PLACEHOLDER_PATTERN, (match, key: string) => {
+    if (!PHRASE_PLACEHOLDERS.some(placeholder => placeholder.key === key)) return match;
+    return context[key as keyof PhraseContext] || PHRASE_BLANK;
+  });
+
+// Personal phrases take precedence over department phrases with the same shortcut
+export const resolvePhrases = (phrases: SmartPhrase[]): Map<string, SmartPhrase> => {
+  const resolved = new Map<string, SmartPhrase>();
+  phrases
+    .filter(phrase => phrase.scope === 'department')
+    .forEach(phrase => resolved.set(phrase.shortcut, phrase));
+  phrases
+    .filter(phrase => phrase.scope === 'personal')
+    .forEach(phrase => resolved.set(phrase.shortcut, phrase));
+  return resolved;
+};
+
+// The shortcut typed immediately before the caret, with where its "." starts
+export const findShortcutBeforeCaret = (text: string, caret: number): { shortcut: string; start: number } | null => {
+  const match = TRAILING_SHORTCUT_PATTERN.exec(text.slice(0, caret));
+  if (!match) return null;
+  return {
+    shortcut: match[2],
+    start: caret - match[2].length - PHRASE_PREFIX.length
+  };
+};
+
+export const validatePhrase = (input: SmartPhraseInput): FormErrors => {
+  const errors: FormErrors = {};
+  const shortcut = normalizeShortcut(input.shortcut);
+
+  if (!shortcut) {
+    errors.shortcut = 'Please enter a shortcut';
+  } else if (!SHORTCUT_PATTERN.test(shortcut)) {
+    errors.shortcut = 'Use lowercase letters, numbers, "-" or "_" only';
+  } else if (shortcut.length > 40) {
+    errors.shortcut = 'Keep the shortcut to 40 characters or fewer';
+  }
+
+  if (!input.title.trim()) {
+    errors.title = 'Please enter a title';
+  }
+
+  if (!input.body.trim()) {
+    errors.body = 'Please enter the text to insert';
+  }
+
+  return errors;
+};
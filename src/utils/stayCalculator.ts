@@ -1,14 +1,55 @@
-import { differenceInDays } from 'date-fns';
+import { differenceInMinutes } from 'date-fns';
+import type { Admission } from '../types/admission';
 
 export const LONG_STAY_THRESHOLD = 6;
 
-export const calculateStayDuration = (admissionDate: string): number => {
-  const admissionDateTime = new Date(admissionDate);
-  const currentDateTime = new Date();
-  return differenceInDays(currentDateTime, admissionDateTime);
+const HOURS_PER_DAY = 24;
+
+// Hours from admission to discharge, or to now while the patient is still in
+export const calculateStayHours = (admissionDate: string, endDate?: string | null): number => {
+  const end = endDate ? new Date(endDate) : new Date();
+  return Math.max(0, differenceInMinutes(end, new Date(admissionDate)) / 60);
+};
+
+// Completed days of stay
+export const calculateStayDuration = (admissionDate: string, endDate?: string | null): number => {
+  return Math.floor(calculateStayHours(admissionDate, endDate) / HOURS_PER_DAY);
 };
 
 export const isLongStay = (admissionDate: string): boolean => {
-  const stayDuration = calculateStayDuration(admissionDate);
-  return stayDuration >= LONG_STAY_THRESHOLD;
-};
\ No newline at end of file
+  return calculateStayHours(admissionDate) >= LONG_STAY_THRESHOLD * HOURS_PER_DAY;
+};
+
+export const formatStayDuration = (hours: number): string => {
+  const wholeHours = Math.floor(hours);
+  const days = Math.floor(wholeHours / HOURS_PER_DAY);
+  const remainder = wholeHours % HOURS_PER_DAY;
+
+  if (days === 0) return `${remainder}h`;
+  return remainder === 0 ? `${days}d` : `${days}d ${remainder}h`;
+};
+
+// A transfer closes one admission row and opens another for the same stay.
+// Rows opened by a transfer are not new admissions, and rows closed by one
+// are not discharges.
+export const isTransferSegment = (admission: Pick<Admission, 'transferred_from_id'>): boolean =>
+  admission.transferred_from_id != null;
+
+export const isDischarge = (admission: Pick<Admission, 'status' | 'discharge_date'>): boolean =>
+  admission.status === 'discharged' && !!admission.discharge_date;
+
+// Admission time of the first row of the stay, so a transfer does not restart it
+export const getStayStartDate = (
+  admission: Pick<Admission, 'admission_date' | 'transferred_from_id'>,
+  admissions: Admission[] | undefined
+): string => {
+  let first = admission;
+  const seen = new Set<number>();
+  while (first.transferred_from_id != null && !seen.has(first.transferred_from_id)) {
+    seen.add(first.transferred_from_id);
+    const previous = admissions?.find(candidate => candidate.id === first.transferred_from_id);
+    if (!previous) break;
+    first = previous;
+  }
+  return first.admission_date;
+};
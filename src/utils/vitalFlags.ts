@@ -0,0 +1,57 @@
+import { VITAL_RANGES } from '../config/vitals';
+import type { VitalFlag, VitalMeasure, VitalSigns, VitalSignsInput } from '../types/vitals';
+
+export const VITAL_MEASURES = Object.keys(VITAL_RANGES) as VitalMeasure[];
+
+export const getVitalFlag = (measure: VitalMeasure, value: number | null): VitalFlag | null => {
+  if (value === null) return null;
+  const range = VITAL_RANGES[measure];
+  if (value < range.low) return 'low';
+  if (value > range.high) return 'high';
+  return null;
+};
+
+export const getVitalFlags = (vitals: VitalSignsInput): Partial<Record<VitalMeasure, VitalFlag>> =>
+  VITAL_MEASURES.reduce((flags, measure) => {
+    const flag = getVitalFlag(measure, vitals[measure]);
+    return flag ? { ...flags, [measure]: flag } : flags;
+  }, {} as Partial<Record<VitalMeasure, VitalFlag>>);
+
+// A set is abnormal when any measurement is out of range or the patient is not alert
+export const isAbnormalSet = (vitals: VitalSignsInput): boolean =>
+  Object.keys(getVitalFlags(vitals)).length > 0 || vitals.consciousness !== 'alert';
+
+export const formatBloodPressure = (vitals: Pick<VitalSigns, 'systolic_bp' | 'diastolic_bp'>): string =>
+  vitals.systolic_bp === null && vitals.diastolic_bp === null
+    ? '—'
+    : `${vitals.systolic_bp ?? '—'}/${vitals.diastolic_bp ?? '—'}`;
+
+export const validateVitals = (vitals: VitalSignsInput): Partial<Record<keyof VitalSignsInput, string>> => {
+  const errors: Partial<Record<keyof VitalSignsInput, string>> = {};
+
+  if (!vitals.recorded_at) {
+    errors.recorded_at = 'Observation time is required';
+  } else if (new Date(vitals.recorded_at) > new Date()) {
+    errors.recorded_at = 'Observation time cannot be in the future';
+  }
+
+  VITAL_MEASURES.forEach(measure => {
+    const value = vitals[measure];
+    const range = VITAL_RANGES[measure];
+    if (value !== null && (value < range.min || value > range.max)) {
+      errors[measure] = `${range.label} must be between ${range.min} and ${range.max} ${range.unit}`;
+    }
+  });
+
+  if (VITAL_MEASURES.every(measure => vitals[measure] === null)) {
+    errors.heart_rate = 'Enter at least one measurement';
+  }
+
+  if ((vitals.systolic_bp === null) !== (vitals.diastolic_bp === null)) {
+    errors.diastolic_bp = 'Enter both systolic and diastolic pressure';
+  } else if (vitals.systolic_bp !== null && vitals.diastolic_bp !== null && vitals.systolic_bp <= vitals.diastolic_bp) {
+    errors.diastolic_bp = 'Diastolic pressure must be lower than systolic';
+  }
+
+  return errors;
+};
@@ -0,0 +1,101 @@
+-- Admissions and discharges are recorded to the minute rather than by date.
+-- Calendar comparisons (such as follow-up dates) use the hospital time zone
+-- configured in hospital_settings under the 'timezone' key.
+
+CREATE OR REPLACE FUNCTION hospital_time_zone()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE(
+        (SELECT value #>> '{}' FROM hospital_settings WHERE key = 'timezone'),
+        'UTC'
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION discharge_admission(
+    p_admission_id INTEGER,
+    p_doctor_id INTEGER,
+    p_discharge_date TIMESTAMP WITH TIME ZONE,
+    p_discharge_type TEXT,
+    p_follow_up_required BOOLEAN,
+    p_follow_up_date DATE,
+    p_discharge_note TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_before admissions%ROWTYPE;
+    v_admission admissions%ROWTYPE;
+    v_note medical_notes%ROWTYPE;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM users u
+        JOIN role_permissions rp ON rp.role = u.role AND rp.permission = 'discharge.process'
+        WHERE u.id = p_doctor_id AND u.status = 'active'
+    ) THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'forbidden');
+    END IF;
+
+    SELECT * INTO v_before FROM admissions WHERE id = p_admission_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'admission_not_found');
+    END IF;
+    IF v_before.status <> 'active' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'admission_not_active');
+    END IF;
+    IF p_discharge_date IS NULL THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'discharge_date_required');
+    END IF;
+    -- Allow for small clock differences between the workstation and the server
+    IF p_discharge_date > CURRENT_TIMESTAMP + INTERVAL '5 minutes' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'invalid_discharge_date');
+    END IF;
+    IF p_discharge_date < v_before.admission_date THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'discharge_before_admission');
+    END IF;
+    IF p_follow_up_required AND p_follow_up_date IS NULL THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'follow_up_date_required');
+    END IF;
+    IF p_follow_up_required
+       AND p_follow_up_date <= (p_discharge_date AT TIME ZONE hospital_time_zone())::DATE THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'follow_up_before_discharge');
+    END IF;
+    IF COALESCE(trim(p_discharge_note), '') = '' THEN
+        RETURN jsonb_build_object('status', 'error', 'code', 'discharge_note_required');
+    END IF;
+
+    UPDATE admissions
+    SET status = 'discharged',
+        discharge_date = p_discharge_date,
+        discharge_type = p_discharge_type,
+        follow_up_required = p_follow_up_required,
+        follow_up_date = CASE WHEN p_follow_up_required THEN p_follow_up_date END,
+        discharge_note = p_discharge_note,
+        discharge_doctor_id = p_doctor_id
+    WHERE id = p_admission_id
+    RETURNING * INTO v_admission;
+
+    INSERT INTO medical_notes (patient_id, doctor_id, note_type, content)
+    VALUES (v_admission.patient_id, p_doctor_id, 'Discharge Summary', p_discharge_note)
+    RETURNING * INTO v_note;
+
+    RETURN jsonb_build_object(
+        'status', 'discharged',
+        'before', to_jsonb(v_before),
+        'admission', to_jsonb(v_admission),
+        'note', to_jsonb(v_note)
+    );
+END;
+$$;
+
+-- Grant necessary permissions
+GRANT EXECUTE ON FUNCTION hospital_time_zone() TO authenticated;
+GRANT EXECUTE ON FUNCTION discharge_admission(INTEGER, INTEGER, TIMESTAMP WITH TIME ZONE, TEXT, BOOLEAN, DATE, TEXT) TO authenticated;